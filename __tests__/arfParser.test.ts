@@ -0,0 +1,106 @@
+/**
+ * ARF (RFC 5965) feedback-loop report parsing (arfParser).
+ */
+
+import { isArfMessage, parseArf, complainantAddress, isComplaint } from '../src/services/arfParser';
+
+const TOKEN = 'eyJsaWQiOiJjbC0xIiwidHMiOjF9.AbCdEfGhIjKlMnOpQrStUv';
+
+function report(opts: { feedbackType?: string; rcptTo?: string | null; to?: string; body?: string } = {}): string {
+    const rcpt = opts.rcptTo === undefined ? 'Original-Rcpt-To: jane@example.net\r\n' : opts.rcptTo ? `Original-Rcpt-To: ${opts.rcptTo}\r\n` : '';
+    return [
+        'From: <staff@hotmail.com>',
+        'To: <fbl@sender.io>',
+        'Subject: complaint about message from 203.0.113.7',
+        'Message-ID: <report-42@fbl.example.net>',
+        'MIME-Version: 1.0',
+        'Content-Type: multipart/report; report-type=feedback-report;',
+        '\tboundary="part1"',
+        '',
+        '--part1',
+        'Content-Type: text/plain; charset="US-ASCII"',
+        '',
+        'This is an email abuse report for an email message received from IP 203.0.113.7',
+        '',
+        '--part1',
+        'Content-Type: message/feedback-report',
+        '',
+        `Feedback-Type: ${opts.feedbackType ?? 'abuse'}`,
+        'User-Agent: SomeGenerator/1.0',
+        'Version: 1',
+        'Original-Mail-From: <bounces@sender.io>',
+        `${rcpt}Arrival-Date: Thu, 8 Oct 2026 14:00:00 -0400`,
+        'Reporting-MTA: dns; mail.example.net',
+        'Source-IP: 203.0.113.7',
+        '',
+        '--part1',
+        'Content-Type: message/rfc822',
+        'Content-Disposition: inline',
+        '',
+        'From: Sam <sam@sender.io>',
+        `To: ${opts.to ?? 'jane@example.net'}`,
+        'Subject: Quick question',
+        'Message-ID: <abc-123@sender.io>',
+        `List-Unsubscribe: <https://api.sender.io/t/u/${TOKEN}>`,
+        'Content-Type: text/html; charset=utf-8',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        opts.body ?? '<p>Hi</p>',
+        '',
+        '--part1--',
+        '',
+    ].join('\r\n');
+}
+
+describe('isArfMessage', () => {
+    it('recognises feedback reports but not DSNs or plain mail', () => {
+        expect(isArfMessage(report())).toBe(true);
+        expect(isArfMessage('Content-Type: multipart/report; report-type=delivery-status\r\n\r\nx')).toBe(false);
+        expect(isArfMessage('Subject: hi\r\n\r\nhello')).toBe(false);
+        expect(isArfMessage('')).toBe(false);
+    });
+});
+
+describe('parseArf', () => {
+    it('extracts the feedback fields and the original message identity', () => {
+        const arf = parseArf(report());
+        expect(arf).toMatchObject({
+            isArf: true,
+            feedbackType: 'abuse',
+            userAgent: 'SomeGenerator/1.0',
+            reportingMta: 'mail.example.net',
+            sourceIp: '203.0.113.7',
+            originalMailFrom: 'bounces@sender.io',
+            originalRcptTo: 'jane@example.net',
+            reportMessageId: 'report-42@fbl.example.net',
+            originalMessageId: 'abc-123@sender.io',
+            originalFrom: 'sam@sender.io',
+            trackingTokens: [TOKEN],
+        });
+        expect(arf.arrivalDate?.toISOString()).toBe('2026-10-08T18:00:00.000Z');
+        expect(complainantAddress(arf)).toBe('jane@example.net');
+        expect(isComplaint(arf)).toBe(true);
+    });
+
+    it('falls back to the original To header when Original-Rcpt-To is missing', () => {
+        const arf = parseArf(report({ rcptTo: null, to: '"Jane" <Jane@Example.net>' }));
+        expect(arf.originalRcptTo).toBeUndefined();
+        expect(complainantAddress(arf)).toBe('jane@example.net');
+    });
+
+    it('finds tracking tokens split by quoted-printable soft breaks', () => {
+        const other = 'eyJsaWQiOiJjbC0yIiwidHMiOjJ9.ZyXwVuTsRqPoNmLkJiHgFe';
+        const body = `<a href=3D"https://api.sender.io/t/c/${other.slice(0, 20)}=\r\n${other.slice(20)}">x</a>`;
+        expect(parseArf(report({ body })).trackingTokens).toEqual([TOKEN, other]);
+    });
+
+    it('treats not-spam reports as non-complaints', () => {
+        const arf = parseArf(report({ feedbackType: 'Not-Spam' }));
+        expect(arf.feedbackType).toBe('not-spam');
+        expect(isComplaint(arf)).toBe(false);
+    });
+
+    it('returns isArf false for non-reports', () => {
+        expect(parseArf('Subject: hi\r\n\r\nhello')).toEqual({ isArf: false, trackingTokens: [] });
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * Holiday / blackout calendars (blackoutCalendarService + sendWindow).
+ *
+ * Holiday reference dates from the official 2026/2027 government calendars.
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+
+import {
+    easterSunday,
+    holidaysFor,
+    compileBlackoutRules,
+    calendarForCampaign,
+    validateBlackoutInput,
+    BlackoutRuleRow,
+} from '../src/services/blackoutCalendarService';
+import { isWithinSendingWindow, nextWindowOpening, addBusinessDays } from '../src/utils/sendWindow';
+
+function rule(partial: Partial<BlackoutRuleRow>): BlackoutRuleRow {
+    return {
+        organization_id: 'org', campaign_id: null, kind: 'date',
+        start_date: null, end_date: null, month_day: null, country_code: null, label: null,
+        ...partial,
+    };
+}
+
+const dates = (cc: string, year: number) => holidaysFor(cc, year).map(h => h.date);
+
+describe('holidaysFor', () => {
+    it('computes Easter and movable feasts', () => {
+        expect(easterSunday(2026).toISOString().slice(0, 10)).toBe('2026-04-05');
+        expect(easterSunday(2027).toISOString().slice(0, 10)).toBe('2027-03-28');
+        expect(dates('gb', 2026)).toContain('2026-04-03'); // Good Friday
+        expect(dates('de', 2026)).toContain('2026-05-14'); // Christi Himmelfahrt
+    });
+
+    it('computes nth / last / on-or-before weekday rules', () => {
+        expect(dates('us', 2026)).toEqual(expect.arrayContaining(['2026-05-25', '2026-09-07', '2026-11-26']));
+        expect(dates('ca', 2026)).toContain('2026-05-18'); // Victoria Day
+    });
+
+    it('applies observed rules', () => {
+        // US: Sat 4 July 2026 observed Fri 3 July.
+        expect(dates('us', 2026)).toContain('2026-07-03');
+        // UK 2027: Christmas Sat → Mon 27, Boxing Day Sun → Tue 28.
+        expect(dates('gb', 2027)).toEqual(expect.arrayContaining(['2027-12-27', '2027-12-28']));
+        expect(dates('gb', 2027)).not.toContain('2027-12-25');
+    });
+
+    it('is empty for countries without a bundled set', () => {
+        expect(holidaysFor('zz', 2026)).toEqual([]);
+    });
+});
+
+describe('compileBlackoutRules', () => {
+    const cal = compileBlackoutRules([
+        rule({ kind: 'date', start_date: '2026-12-24', end_date: '2027-01-02', label: 'Year-end shutdown' }),
+        rule({ kind: 'recurring', month_day: '03-17', label: 'Company day' }),
+        rule({ kind: 'holiday_set', country_code: 'us' }),
+    ])!;
+
+    it('matches ranges, recurring dates and holiday sets', () => {
+        expect(cal.match('2026-12-31')).toBe('Year-end shutdown');
+        expect(cal.match('2030-03-17')).toBe('Company day');
+        expect(cal.match('2026-11-26')).toBe('Thanksgiving (US)');
+        expect(cal.match('2026-11-27')).toBeNull();
+    });
+
+    it('merges workspace and own-campaign rules only', () => {
+        const rules = [
+            rule({ kind: 'recurring', month_day: '01-05' }),
+            rule({ kind: 'recurring', month_day: '01-06', campaign_id: 'c1' }),
+            rule({ kind: 'recurring', month_day: '01-07', campaign_id: 'c2' }),
+            rule({ kind: 'recurring', month_day: '01-08', organization_id: 'other' }),
+        ];
+        const c1 = calendarForCampaign(rules, 'org', 'c1')!;
+        expect(['2026-01-05', '2026-01-06', '2026-01-07', '2026-01-08'].map(d => c1.match(d) !== null))
+            .toEqual([true, true, false, false]);
+        expect(compileBlackoutRules([])).toBeNull();
+    });
+});
+
+describe('validateBlackoutInput', () => {
+    it('rejects malformed rules', () => {
+        expect(validateBlackoutInput({ kind: 'date', start_date: '2026-02-30' })).toMatch(/start_date/);
+        expect(validateBlackoutInput({ kind: 'date', start_date: '2026-05-02', end_date: '2026-05-01' })).toMatch(/before/);
+        expect(validateBlackoutInput({ kind: 'date', start_date: '2026-01-01', end_date: '2026-12-31' })).toMatch(/limited/);
+        expect(validateBlackoutInput({ kind: 'recurring', month_day: '13-01' })).toMatch(/month_day/);
+        expect(validateBlackoutInput({ kind: 'holiday_set', country_code: 'zz' })).toMatch(/country_code/);
+        expect(validateBlackoutInput({ kind: 'weekly' })).toMatch(/kind/);
+    });
+
+    it('accepts valid rules', () => {
+        expect(validateBlackoutInput({ kind: 'date', start_date: '2026-12-24', end_date: '2027-01-02' })).toBeNull();
+        expect(validateBlackoutInput({ kind: 'recurring', month_day: '02-29' })).toBeNull();
+        expect(validateBlackoutInput({ kind: 'holiday_set', country_code: 'GB' })).toBeNull();
+    });
+});
+
+describe('send window with blackouts', () => {
+    const campaign = {
+        schedule_timezone: 'America/New_York',
+        schedule_start_time: '09:00',
+        schedule_end_time: '17:00',
+        schedule_days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+    };
+    const blackout = compileBlackoutRules([rule({ kind: 'date', start_date: '2026-10-19', end_date: '2026-10-20' })]);
+    // Monday 2026-10-19 16:00 New York.
+    const now = new Date('2026-10-19T20:00:00Z');
+
+    it('closes the window on a blacked-out day', () => {
+        expect(isWithinSendingWindow(campaign, { now })).toBe(true);
+        expect(isWithinSendingWindow(campaign, { now, blackout })).toBe(false);
+    });
+
+    it('skips blacked-out days when finding the next opening', () => {
+        expect(nextWindowOpening(campaign, null, now, blackout)?.toISOString()).toBe('2026-10-21T13:00:00.000Z');
+    });
+
+    it('counts delays in business days', () => {
+        const friday = new Date('2026-10-23T15:00:00Z');
+        const opts = { timezone: 'America/New_York', sendDays: [] as string[] };
+        expect(addBusinessDays(friday, 1, opts).toISOString()).toBe('2026-10-26T15:00:00.000Z');
+        const mondayOff = compileBlackoutRules([rule({ kind: 'date', start_date: '2026-10-26' })]);
+        expect(addBusinessDays(friday, 1, { ...opts, blackout: mondayOff }).toISOString()).toBe('2026-10-27T15:00:00.000Z');
+        expect(addBusinessDays(friday, 0, opts)).toBe(friday);
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * Campaign dry-run simulator (campaignSimulatorService): the pure projection
+ * core and the per-mailbox cap resolution.
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { warn: jest.fn(), info: jest.fn(), error: jest.fn() },
+    maskEmail: (e: string) => e,
+}));
+// sendQueueService's import graph - only its pure scheduling helpers are used.
+jest.mock('../src/services/emailSendAdapters', () => ({}));
+jest.mock('../src/services/trackingService', () => ({}));
+jest.mock('../src/services/polarClient', () => ({ TIER_LIMITS: {} }));
+jest.mock('../src/utils/redis', () => ({}));
+jest.mock('../src/services/mailboxProvisioningService', () => ({}));
+jest.mock('../src/services/healingService', () => ({}));
+jest.mock('../src/services/bounceProcessingService', () => ({}));
+jest.mock('../src/services/executionGateService', () => ({}));
+jest.mock('../src/services/inactivityService', () => ({}));
+jest.mock('../src/services/auditLogService', () => ({}));
+jest.mock('../src/services/SlackAlertService', () => ({ SlackAlertService: {} }));
+jest.mock('../src/services/webhookEventBus', () => ({}));
+jest.mock('../src/services/recipientDomainStatsService', () => ({}));
+jest.mock('bullmq', () => ({ Queue: jest.fn(), Worker: jest.fn(), Job: jest.fn() }));
+
+import {
+    simulateSchedule,
+    mailboxCapFor,
+    SimLead,
+    SimulationInput,
+} from '../src/services/campaignSimulatorService';
+
+// Monday 08:00 UTC.
+const from = new Date('2026-10-19T08:00:00Z');
+
+const campaign = {
+    schedule_timezone: 'UTC',
+    schedule_start_time: '09:00',
+    schedule_end_time: '17:00',
+    schedule_days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+    daily_limit: 100,
+};
+
+function leads(n: number, partial: Partial<SimLead> = {}): SimLead[] {
+    return Array.from({ length: n }, (_, i) => ({
+        id: `l${i}`, email: `p${i}@acme.io`, current_step: 0, due_at: null,
+        timezone: 'UTC', assigned_account_id: null,
+        ...partial,
+    }));
+}
+
+function input(partial: Partial<SimulationInput>): SimulationInput {
+    return {
+        campaign,
+        steps: [{ step_number: 1, delay_days: 0, delay_hours: 0 }],
+        leads: [],
+        mailboxes: [
+            { account_id: 'a', email: 'a@s.io', daily_cap: 3, remaining_today: 3 },
+            { account_id: 'b', email: 'b@s.io', daily_cap: 3, remaining_today: 3 },
+        ],
+        ...partial,
+    };
+}
+
+describe('simulateSchedule', () => {
+    it('spreads first touches over mailbox caps inside the send window', () => {
+        const result = simulateSchedule(input({ leads: leads(10) }), { from, days: 7 });
+        expect(result.days.map(d => [d.date, d.sends])).toEqual([
+            ['2026-10-19', 6],
+            ['2026-10-20', 4],
+        ]);
+        expect(result.days[0].by_mailbox).toEqual({ a: 3, b: 3 });
+        expect(result.totals).toMatchObject({ leads: 10, sends: 10, completed: 10, unfinished: 0 });
+        expect(result.estimated_completion_at).toEqual(new Date('2026-10-20T09:00:00Z'));
+    });
+
+    it('honors the campaign daily limit and what was already sent today', () => {
+        const result = simulateSchedule(input({
+            campaign: { ...campaign, daily_limit: 4 },
+            leads: leads(6),
+            campaignSentToday: 3,
+        }), { from, days: 7 });
+        expect(result.days.map(d => d.sends)).toEqual([1, 4, 1]);
+    });
+
+    it('skips the weekend and waits out follow-up delays on the sticky mailbox', () => {
+        const result = simulateSchedule(input({
+            steps: [
+                { step_number: 1, delay_days: 0, delay_hours: 0 },
+                { step_number: 2, delay_days: 3, delay_hours: 0 },
+            ],
+            // Friday 08:00 UTC.
+            leads: leads(1, { assigned_account_id: 'b' }),
+        }), { from: new Date('2026-10-23T08:00:00Z'), days: 14 });
+        expect(result.days.filter(d => d.sends > 0).map(d => [d.date, d.by_mailbox])).toEqual([
+            ['2026-10-23', { b: 1 }],
+            // +3 days lands on Monday 09:00.
+            ['2026-10-26', { b: 1 }],
+        ]);
+    });
+
+    it('stops YELLOW leads at the max step and reports them as blocked', () => {
+        const result = simulateSchedule(input({
+            steps: [1, 2, 3].map(n => ({ step_number: n, delay_days: 1, delay_hours: 0 })),
+            leads: leads(1, { health_classification: 'yellow' }),
+        }), { from, days: 14 });
+        expect(result.totals.sends).toBe(2);
+        expect(result.blocked).toEqual([
+            expect.objectContaining({ campaign_lead_id: 'l0', gate: 'execution', at_step: 2 }),
+        ]);
+        expect(result.estimated_completion_at).toBeNull();
+    });
+
+    it('opens manual tasks without using mailbox capacity and resumes after them', () => {
+        const result = simulateSchedule(input({
+            steps: [
+                { step_number: 1, delay_days: 0, delay_hours: 0 },
+                { step_number: 2, delay_days: 1, delay_hours: 0, step_type: 'call', task_due_hours: 4 },
+                { step_number: 3, delay_days: 1, delay_hours: 0 },
+            ],
+            leads: leads(1),
+        }), { from, days: 14 });
+        expect(result.days.map(d => [d.date, d.sends, d.tasks])).toEqual([
+            ['2026-10-19', 1, 0],
+            ['2026-10-20', 0, 1],
+            ['2026-10-21', 1, 0],
+        ]);
+        expect(result.totals).toMatchObject({ sends: 2, tasks: 1, completed: 1 });
+    });
+
+    it('reports unfinished leads when no mailbox has capacity', () => {
+        const result = simulateSchedule(input({
+            leads: leads(2),
+            mailboxes: [{ account_id: 'a', email: 'a@s.io', daily_cap: 0, remaining_today: 0 }],
+        }), { from, days: 3 });
+        expect(result.totals).toMatchObject({ sends: 0, unfinished: 2 });
+        expect(result.estimated_completion_at).toBeNull();
+    });
+});
+
+describe('mailboxCapFor', () => {
+    const acct = { daily_send_limit: 50, mailbox: { warmup_limit: 10, recovery_phase: 'healthy' } };
+
+    it('ignores warmup_limit on a healthy mailbox', () => {
+        expect(mailboxCapFor(acct, null, null)).toEqual({ cap: 50, source: 'mailbox' });
+    });
+
+    it('picks the smallest binding cap', () => {
+        const recovering = { ...acct, mailbox: { warmup_limit: 10, recovery_phase: 'warm_recovery' } };
+        expect(mailboxCapFor(recovering, 30, null)).toEqual({ cap: 10, source: 'warmup' });
+        expect(mailboxCapFor(acct, 30, null)).toEqual({ cap: 30, source: 'campaign_override' });
+        expect(mailboxCapFor(recovering, null, 5)).toEqual({ cap: 5, source: 'recovery_phase' });
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * Content spam score: local heuristics with line-level findings, and the
+ * URI-DNSBL link check (contentSpamService).
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../src/services/dnsblService', () => ({
+    getUriLists: jest.fn(async () => [{ id: 'l1', name: 'surbl_multi', zone: 'multi.surbl.org', tier: 'critical' }]),
+    checkLinkDomainBlacklists: jest.fn(async (domain: string) => [{
+        listId: 'l1', listName: 'surbl_multi', zone: 'multi.surbl.org', tier: 'critical',
+        status: domain === 'spammy.example' ? 'CONFIRMED' : 'NOT_LISTED', responseCode: null,
+    }]),
+}));
+
+import { analyzeContent, scoreContent, clearLinkDomainCache } from '../src/services/contentSpamService';
+import * as dnsblService from '../src/services/dnsblService';
+
+const prose = 'We looked at how your team ships onboarding emails and noticed a couple of places where a '
+    + 'short checklist could save your support folks a few hours every week. Happy to share what we saw.';
+
+const clean = {
+    subject: 'Quick question about onboarding',
+    preheader: '',
+    bodyHtml: `<p>Hi {{first_name}},</p>\n<p>${prose}</p>\n<p>Best, Sam</p>`,
+    bodyText: `Hi {{first_name}},\n\n${prose}\n\nBest, Sam`,
+};
+
+describe('analyzeContent', () => {
+    it('scores plain, personal copy as low with no findings', () => {
+        expect(analyzeContent(clean)).toEqual({ score: 0, level: 'low', findings: [] });
+    });
+
+    it('annotates spam phrases with field and line, scoring each phrase once', () => {
+        const result = analyzeContent({
+            ...clean,
+            subject: 'Limited time offer',
+            bodyHtml: `<p>Hi,</p>\n<p>${prose}</p>\n<p>Limited time only - act now.</p>\n<p>Really, act now.</p>`,
+        });
+        const phrases = result.findings.filter(f => f.code === 'spam_phrase');
+        expect(phrases.map(f => [f.field, f.line, f.points])).toEqual([
+            ['subject', 1, 12],
+            ['body_html', 3, 6],
+            ['body_html', 3, 0],
+            ['body_html', 4, 0],
+        ]);
+        expect(phrases[1].excerpt).toBe('Limited time only - act now.');
+        expect(result.score).toBe(18);
+    });
+
+    it('flags shorteners, mismatched link text and thin text per link', () => {
+        const result = analyzeContent({
+            ...clean,
+            bodyHtml: '<p>See <a href="https://bit.ly/x1">our deck</a>\nand <a href="https://evil.example/login">www.acme.com</a></p>',
+        });
+        const codes = result.findings.map(f => [f.code, f.line]);
+        expect(codes).toEqual(expect.arrayContaining([
+            ['url_shortener', 1],
+            ['mismatched_link_text', 2],
+            ['link_text_ratio', 1],
+        ]));
+        expect(result.level).toBe('medium');
+    });
+
+    it('treats a tracked subdomain of the shown domain as a match', () => {
+        const result = analyzeContent({
+            ...clean,
+            bodyHtml: `<p>${prose} <a href="https://links.acme.com/c/1">acme.com</a></p>`,
+        });
+        expect(result.findings.map(f => f.code)).not.toContain('mismatched_link_text');
+    });
+
+    it('flags an image-only body and a missing plain-text part', () => {
+        const result = analyzeContent({ subject: 'Hello', bodyHtml: '<div><img src="https://cdn.acme.com/promo.png"></div>', bodyText: null });
+        expect(result.findings.map(f => f.code)).toEqual(['image_only', 'missing_plain_text']);
+        expect(result.score).toBe(30);
+    });
+
+    it('flags shouting and repeated punctuation', () => {
+        const result = analyzeContent({ ...clean, subject: 'HUGE NEWS FOR YOUR TEAM!!!' });
+        expect(result.findings.filter(f => f.field === 'subject').map(f => f.code)).toEqual(['excessive_caps', 'excessive_punctuation']);
+    });
+});
+
+describe('scoreContent', () => {
+    beforeEach(() => {
+        clearLinkDomainCache();
+        jest.clearAllMocks();
+    });
+
+    it('adds a blocklisted_link finding for listed link domains and caches lookups', async () => {
+        const input = {
+            ...clean,
+            bodyHtml: `<p>${prose} <a href="https://spammy.example/a">read more</a></p>\n<p>${prose} <a href="https://acme.com">acme</a></p>`,
+        };
+        const result = await scoreContent(input);
+        const listed = result.findings.filter(f => f.code === 'blocklisted_link');
+        expect(listed).toHaveLength(1);
+        expect(listed[0]).toMatchObject({ field: 'body_html', line: 1, points: 35, message: 'spammy.example is listed on surbl_multi' });
+        expect(result.score).toBe(35);
+
+        await scoreContent(input);
+        expect(dnsblService.checkLinkDomainBlacklists).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps the local score when a lookup fails', async () => {
+        (dnsblService.checkLinkDomainBlacklists as jest.Mock).mockRejectedValueOnce(new Error('SERVFAIL'));
+        const result = await scoreContent({ ...clean, bodyHtml: `<p>${prose} <a href="https://spammy.example">here</a></p>` });
+        expect(result.findings.map(f => f.code)).toEqual([]);
+    });
+});
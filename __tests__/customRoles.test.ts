@@ -0,0 +1,75 @@
+/**
+ * Custom roles: a membership's role capabilities override its own list in
+ * requireCapability, role input validation (roleService).
+ */
+
+const mockPrisma = {
+    user: { findUnique: jest.fn() },
+    workspaceMembership: { findFirst: jest.fn() },
+};
+jest.mock('../src/index', () => ({ prisma: mockPrisma }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import type { Request, Response } from 'express';
+import { requireCapability, resolveCapabilities, membershipCapabilities } from '../src/middleware/requireCapability';
+import { parseRoleInput } from '../src/services/roleService';
+
+const CLIENT = { is_agency_owner: false, scoped_organization_id: 'org-1', account_id: null };
+
+function run(cap: Parameters<typeof requireCapability>[0]) {
+    const req = { orgContext: { userId: 'u1', organizationId: 'org-1' } } as unknown as Request;
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn() } as unknown as Response & { status: jest.Mock };
+    const next = jest.fn();
+    return requireCapability(cap)(req, res, next).then(() => ({ next, res }));
+}
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.user.findUnique.mockResolvedValue(CLIENT);
+});
+
+describe('role-based capability checks', () => {
+    it('uses the role capabilities instead of the membership list', async () => {
+        mockPrisma.workspaceMembership.findFirst.mockResolvedValue({
+            capabilities: ['manage_billing'],
+            role: { capabilities: ['view_campaigns', 'manage_webhooks'] },
+        });
+        expect((await run('manage_webhooks')).next).toHaveBeenCalled();
+
+        const denied = await run('manage_billing');
+        expect(denied.next).not.toHaveBeenCalled();
+        expect(denied.res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('falls back to the membership list without a role', async () => {
+        mockPrisma.workspaceMembership.findFirst.mockResolvedValue({ capabilities: ['manage_api_keys'], role: null });
+        expect((await run('manage_api_keys')).next).toHaveBeenCalled();
+        expect(await resolveCapabilities('u1', 'org-1')).toEqual(['manage_api_keys']);
+    });
+
+    it('still lets agency owners through without a membership', async () => {
+        mockPrisma.user.findUnique.mockResolvedValue({ ...CLIENT, is_agency_owner: true });
+        expect((await run('manage_billing')).next).toHaveBeenCalled();
+        expect(mockPrisma.workspaceMembership.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('membershipCapabilities prefers an empty role over membership capabilities', () => {
+        expect(membershipCapabilities({ capabilities: ['add_leads'], role: { capabilities: [] } })).toEqual([]);
+    });
+});
+
+describe('role input', () => {
+    it('requires a name and known capabilities on create', () => {
+        expect(parseRoleInput({ name: ' SDR ', capabilities: ['view_leads', 'view_leads', 'add_leads'] }, false))
+            .toEqual({ name: 'SDR', capabilities: ['view_leads', 'add_leads'] });
+        expect(() => parseRoleInput({ capabilities: [] }, false)).toThrow('name is required');
+        expect(() => parseRoleInput({ name: 'Admin', capabilities: ['*'] }, false)).toThrow('Unknown capabilities');
+    });
+
+    it('only validates supplied fields on update', () => {
+        expect(parseRoleInput({ description: '' }, true)).toEqual({ description: null });
+        expect(() => parseRoleInput({ name: 'x'.repeat(61) }, true)).toThrow('at most 60');
+    });
+});
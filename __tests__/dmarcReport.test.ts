@@ -0,0 +1,184 @@
+/**
+ * DMARC aggregate reports: parsing (dmarcReportParser) and the alignment
+ * summary / assessment findings (dmarcReportService).
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import zlib from 'zlib';
+import {
+    parseAggregateReport,
+    decodeReportFile,
+    isDmarcReportEmail,
+    parseReportPayload,
+} from '../src/services/dmarcReportParser';
+import { summarizeAuthRecords, assessDomainAuth, AuthRecordRow } from '../src/services/dmarcReportService';
+
+const XML = `<?xml version="1.0" encoding="UTF-8" ?>
+<feedback xmlns="urn:ietf:params:xml:ns:dmarc-2.0">
+  <report_metadata>
+    <org_name>google.com</org_name>
+    <email>noreply-dmarc-support@google.com</email>
+    <report_id>1234567890</report_id>
+    <date_range><begin>1791763200</begin><end>1791849599</end></date_range>
+  </report_metadata>
+  <policy_published>
+    <domain>Acme.io</domain><adkim>r</adkim><aspf>r</aspf><p>none</p><sp>quarantine</sp><pct>100</pct>
+  </policy_published>
+  <record>
+    <row>
+      <source_ip>209.85.220.41</source_ip><count>40</count>
+      <policy_evaluated><disposition>none</disposition><dkim>pass</dkim><spf>fail</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>acme.io</header_from></identifiers>
+    <auth_results>
+      <dkim><domain>acme.io</domain><result>pass</result></dkim>
+      <spf><domain>bounce.mailer.net</domain><result>pass</result></spf>
+    </auth_results>
+  </record>
+  <record>
+    <row>
+      <source_ip>198.51.100.9</source_ip><count>3</count>
+      <policy_evaluated><disposition>none</disposition><dkim>fail</dkim><spf>fail</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>acme.io</header_from></identifiers>
+    <auth_results><spf><domain>acme.io</domain><result>softfail</result></spf></auth_results>
+  </record>
+</feedback>`;
+
+/** Single-entry deflated zip archive. */
+function zip(name: string, content: string): Buffer {
+    const data = zlib.deflateRawSync(Buffer.from(content));
+    const nameBuf = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBuf.length, 28);
+    const centralOffset = local.length + nameBuf.length + data.length;
+    const eocd = Buffer.alloc(22);
+    eocd.writeUInt32LE(0x06054b50, 0);
+    eocd.writeUInt16LE(1, 8);
+    eocd.writeUInt16LE(1, 10);
+    eocd.writeUInt32LE(central.length + nameBuf.length, 12);
+    eocd.writeUInt32LE(centralOffset, 16);
+    return Buffer.concat([local, nameBuf, data, central, nameBuf, eocd]);
+}
+
+describe('parseAggregateReport', () => {
+    it('reads metadata, the published policy and aligned verdicts per record', () => {
+        const report = parseAggregateReport(XML)!;
+        expect(report).toMatchObject({
+            orgName: 'google.com',
+            reporterEmail: 'noreply-dmarc-support@google.com',
+            reportId: '1234567890',
+            domain: 'acme.io',
+            policy: 'none',
+            subdomainPolicy: 'quarantine',
+            pct: 100,
+        });
+        expect(report.dateBegin.toISOString()).toBe('2026-10-12T00:00:00.000Z');
+        expect(report.records).toEqual([
+            {
+                sourceIp: '209.85.220.41', count: 40, headerFrom: 'acme.io', disposition: 'none',
+                dkimAligned: true, spfAligned: false,
+                dkimResults: ['acme.io:pass'], spfResults: ['bounce.mailer.net:pass'],
+            },
+            expect.objectContaining({ sourceIp: '198.51.100.9', count: 3, dkimAligned: false, spfAligned: false, spfResults: ['acme.io:softfail'] }),
+        ]);
+    });
+
+    it('rejects documents that are not aggregate reports', () => {
+        expect(parseAggregateReport('<html></html>')).toBeNull();
+        expect(parseAggregateReport('<feedback><report_metadata></report_metadata></feedback>')).toBeNull();
+    });
+});
+
+describe('report files', () => {
+    it('decodes gzip, zip and plain XML', () => {
+        expect(decodeReportFile(zlib.gzipSync(XML))).toBe(XML);
+        expect(decodeReportFile(zip('google.com!acme.io!1791763200!1791849599.xml', XML))).toBe(XML);
+        expect(decodeReportFile(Buffer.from(XML))).toBe(XML);
+        expect(decodeReportFile(Buffer.from('hello'))).toBeNull();
+    });
+
+    it('pulls reports out of a report email attachment', () => {
+        const attachment = zlib.gzipSync(XML).toString('base64').replace(/(.{76})/g, '$1\r\n');
+        const email = [
+            'From: noreply-dmarc-support@google.com',
+            'Subject: Report domain: acme.io Submitter: google.com Report-ID: 1234567890',
+            'Content-Type: multipart/mixed; boundary="b1"',
+            '',
+            '--b1',
+            'Content-Type: text/plain',
+            '',
+            'This is an aggregate report from google.com.',
+            '--b1',
+            'Content-Type: application/gzip; name="google.com!acme.io!1791763200!1791849599.xml.gz"',
+            'Content-Transfer-Encoding: base64',
+            '',
+            attachment,
+            '--b1--',
+            '',
+        ].join('\r\n');
+        expect(isDmarcReportEmail(email)).toBe(true);
+        const reports = parseReportPayload(Buffer.from(email));
+        expect(reports).toHaveLength(1);
+        expect(reports[0].records).toHaveLength(2);
+        expect(isDmarcReportEmail('Subject: lunch?\r\n\r\nsee you at noon')).toBe(false);
+    });
+});
+
+describe('alignment summary', () => {
+    const rows: AuthRecordRow[] = [
+        { domain_id: 'd1', source_ip: '209.85.220.41', count: 90, spf_aligned: true, dkim_aligned: true, disposition: 'none' },
+        { domain_id: 'd1', source_ip: '209.85.220.41', count: 10, spf_aligned: false, dkim_aligned: false, disposition: 'none' },
+        { domain_id: 'd1', source_ip: '198.51.100.9', count: 25, spf_aligned: false, dkim_aligned: false, disposition: 'none' },
+        { domain_id: 'd1', source_ip: '203.0.113.5', count: 5, spf_aligned: false, dkim_aligned: false, disposition: 'none' },
+    ];
+
+    it('separates misalignment from authorized sources and spoofing', () => {
+        const summary = summarizeAuthRecords(rows, new Map([['d1', new Set(['203.0.113.5'])]])).get('d1')!;
+        expect(summary).toMatchObject({ messages: 130, dmarcPass: 90, unauthorizedMessages: 25 });
+        expect(summary.authorizedPassRate).toBeCloseTo(90 / 105);
+        expect(summary.sources.map(s => [s.sourceIp, s.messages, s.authorized])).toEqual([
+            ['209.85.220.41', 100, true],
+            ['198.51.100.9', 25, false],
+            ['203.0.113.5', 5, true],
+        ]);
+    });
+
+    it('turns results into findings and a score penalty', () => {
+        // 203.0.113.5 isn't a known mailbox IP here, so it counts as spoofing.
+        const summary = summarizeAuthRecords(rows).get('d1')!;
+        expect(summary.authorizedPassRate).toBe(0.9);
+        const none = assessDomainAuth(summary, 'none');
+        expect(none.findings.map(f => [f.title, f.severity])).toEqual([
+            ['DMARC Alignment Failures', 'warning'],
+            ['Unauthorized Senders', 'warning'],
+        ]);
+        expect(none.penalty).toBe(15);
+
+        const reject = assessDomainAuth(summary, 'reject');
+        expect(reject.findings[1].severity).toBe('info');
+        expect(reject.penalty).toBe(5);
+
+        const badly = summarizeAuthRecords([...rows, { ...rows[1], count: 30 }]).get('d1')!;
+        expect(assessDomainAuth(badly, 'reject').findings[0].severity).toBe('critical');
+    });
+
+    it('does not judge domains with too little report volume', () => {
+        const small = summarizeAuthRecords([{ ...rows[2], count: 4 }]).get('d1')!;
+        expect(assessDomainAuth(small, 'none')).toEqual({ findings: [], penalty: 0 });
+    });
+});
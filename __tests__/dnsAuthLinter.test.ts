@@ -0,0 +1,231 @@
+/**
+ * DNS authentication linter (dnsAuthLinter) against a fake resolver, and
+ * DKIM selector discovery from our own signed mail.
+ */
+
+const mockPrisma = {
+    connectedAccount: { findFirst: jest.fn() },
+    $executeRaw: jest.fn(),
+};
+jest.mock('../src/index', () => ({ prisma: mockPrisma }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import crypto from 'crypto';
+import {
+    lintSpf,
+    lintDkim,
+    lintDmarc,
+    lintDomainAuth,
+    dkimKeyBits,
+    extractDkimSignatures,
+    recordDkimSelectors,
+    MAX_DKIM_SELECTORS,
+    LintResolver,
+} from '../src/services/dnsAuthLinter';
+
+function resolver(zone: Record<string, string[]>, fetch: Record<string, string> = {}): LintResolver {
+    return {
+        resolveTxt: async (host) => {
+            if (host === 'servfail.test') throw Object.assign(new Error('SERVFAIL'), { code: 'ESERVFAIL' });
+            if (!(host in zone)) throw Object.assign(new Error('ENOTFOUND'), { code: 'ENOTFOUND' });
+            return zone[host];
+        },
+        fetchText: async (url) => fetch[url] ?? null,
+    };
+}
+
+function dkimKey(bits: number): string {
+    const { publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: bits });
+    return publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+}
+
+const codes = (findings: Array<{ code: string; severity: string }>) => findings.map(f => [f.code, f.severity]);
+
+describe('lintSpf', () => {
+    it('expands includes recursively and enforces the 10-lookup limit', async () => {
+        const zone: Record<string, string[]> = {
+            'acme.io': ['v=spf1 include:_spf.google.com include:big.esp.net mx a ~all'],
+            '_spf.google.com': ['v=spf1 include:_netblocks.google.com include:_netblocks2.google.com include:_netblocks3.google.com ~all'],
+            '_netblocks.google.com': ['v=spf1 ip4:35.190.247.0/24 ~all'],
+            '_netblocks2.google.com': ['v=spf1 ip6:2001:4860:4000::/36 ~all'],
+            '_netblocks3.google.com': ['v=spf1 ip4:172.217.0.0/19 ~all'],
+            'big.esp.net': ['v=spf1 include:a.esp.net include:b.esp.net a:c.esp.net ~all'],
+            'a.esp.net': ['v=spf1 ip4:192.0.2.0/24 -all'],
+            'b.esp.net': ['v=spf1 exists:%{i}.x.esp.net -all'],
+        };
+        const { summary, findings } = await lintSpf('acme.io', resolver(zone), ['google']);
+        expect(summary).toMatchObject({ lookups: 11, voidLookups: 0, all: '~all' });
+        const limit = findings.find(f => f.code === 'spf_too_many_lookups')!;
+        expect(limit.severity).toBe('critical');
+        expect(limit.details).toContain('include:big.esp.net (5)');
+        expect(limit.details).toContain('include:_spf.google.com (4)');
+    });
+
+    it('flags duplicate records, +all and missing provider includes with the record to publish', async () => {
+        const zone = { 'acme.io': ['v=spf1 include:mailgun.org +all', 'v=spf1 ip4:192.0.2.1 -all'], 'mailgun.org': ['v=spf1 ip4:198.51.100.0/24 ~all'] };
+        const { findings } = await lintSpf('acme.io', resolver(zone), ['microsoft']);
+        expect(codes(findings)).toEqual([
+            ['spf_multiple_records', 'critical'],
+            ['spf_pass_all', 'critical'],
+            ['spf_missing_provider', 'warning'],
+        ]);
+        expect(findings[0].record).toEqual({
+            type: 'TXT', host: 'acme.io',
+            value: 'v=spf1 include:spf.protection.outlook.com include:mailgun.org ip4:192.0.2.1 -all',
+        });
+        expect(findings[1].record!.value).toBe('v=spf1 include:mailgun.org ~all');
+        expect(findings[2].record!.value).toBe('v=spf1 include:spf.protection.outlook.com include:mailgun.org ~all');
+    });
+
+    it('reports ?all, void lookups and a missing record', async () => {
+        const zone = { 'acme.io': ['v=spf1 include:gone1.test include:gone2.test include:gone3.test ?all'] };
+        expect(codes((await lintSpf('acme.io', resolver(zone))).findings)).toEqual([
+            ['spf_neutral_all', 'warning'],
+            ['spf_void_lookups', 'warning'],
+        ]);
+
+        const missing = await lintSpf('empty.io', resolver({}), ['google']);
+        expect(codes(missing.findings)).toEqual([['spf_missing', 'warning']]);
+        expect(missing.findings[0].record!.value).toBe('v=spf1 include:_spf.google.com ~all');
+
+        expect(codes((await lintSpf('servfail.test', resolver({}))).findings)).toEqual([['spf_dns_error', 'warning']]);
+    });
+});
+
+describe('lintDkim', () => {
+    it('measures RSA key length', () => {
+        expect(dkimKeyBits(dkimKey(1024))).toBe(1024);
+        expect(dkimKeyBits('not-a-key')).toBeNull();
+    });
+
+    it('grades keys and flags discovered selectors that are not published', async () => {
+        const zone = {
+            'google._domainkey.acme.io': [`v=DKIM1; k=rsa; p=${dkimKey(2048)}`],
+            's1._domainkey.acme.io': [`v=DKIM1; k=rsa; t=y; p=${dkimKey(1024)}`],
+            'old._domainkey.acme.io': ['v=DKIM1; k=rsa; p='],
+        };
+        const { keys, findings } = await lintDkim('acme.io', resolver(zone), ['google', 's1', 'old'], ['sk2026']);
+        expect(keys.map(k => [k.selector, k.bits, k.revoked])).toEqual([
+            ['google', 2048, false],
+            ['s1', 1024, false],
+            ['old', null, true],
+        ]);
+        expect(codes(findings)).toEqual([
+            ['dkim_short_key', 'info'],
+            ['dkim_testing', 'info'],
+            ['dkim_revoked_key', 'info'],
+            ['dkim_selector_unpublished', 'critical'],
+        ]);
+        expect(findings[3].record!.host).toBe('sk2026._domainkey.acme.io');
+    });
+
+    it('reports missing DKIM when no selector has a key', async () => {
+        expect(codes((await lintDkim('acme.io', resolver({}), ['default', 'google'])).findings)).toEqual([['dkim_missing', 'warning']]);
+    });
+});
+
+describe('lintDmarc', () => {
+    it('analyses p, sp, pct and rua and keeps existing tags in the suggestion', async () => {
+        const zone = {
+            '_dmarc.acme.io': ['v=DMARC1; p=reject; sp=none; pct=50; rua=mailto:d@reports.vendor.com; adkim=s'],
+            'acme.io._report._dmarc.reports.vendor.com': ['google-site-verification=xyz'],
+        };
+        const { tags, findings } = await lintDmarc('acme.io', resolver(zone));
+        expect(tags).toMatchObject({ p: 'reject', sp: 'none', pct: '50' });
+        expect(codes(findings)).toEqual([
+            ['dmarc_partial_pct', 'info'],
+            ['dmarc_weak_subdomain_policy', 'info'],
+            ['dmarc_rua_unauthorized', 'info'],
+        ]);
+        expect(findings[0].record!.value).toBe('v=DMARC1; p=reject; sp=none; pct=100; rua=mailto:d@reports.vendor.com; adkim=s');
+        expect(findings[1].record!.value).toBe('v=DMARC1; p=reject; pct=50; rua=mailto:d@reports.vendor.com; adkim=s');
+        expect(findings[2].record).toEqual({ type: 'TXT', host: 'acme.io._report._dmarc.reports.vendor.com', value: 'v=DMARC1' });
+    });
+
+    it('flags a missing record, duplicates and an unusable policy', async () => {
+        const missing = await lintDmarc('acme.io', resolver({}));
+        expect(missing.findings[0]).toMatchObject({ code: 'dmarc_missing', severity: 'info' });
+        expect(missing.findings[0].record!.value).toBe('v=DMARC1; p=quarantine; rua=mailto:dmarc@acme.io');
+
+        const broken = await lintDmarc('acme.io', resolver({ '_dmarc.acme.io': ['v=DMARC1; p=monitor', 'v=DMARC1; p=none'] }));
+        expect(codes(broken.findings)).toEqual([
+            ['dmarc_multiple_records', 'critical'],
+            ['dmarc_invalid_policy', 'critical'],
+            ['dmarc_no_rua', 'info'],
+        ]);
+    });
+});
+
+describe('lintDomainAuth', () => {
+    it('covers MTA-STS, TLS-RPT and BIMI and scores only record-quality findings', async () => {
+        const zone = {
+            'acme.io': ['v=spf1 include:_spf.google.com ~all'],
+            '_spf.google.com': ['v=spf1 ip4:35.190.247.0/24 ~all'],
+            'google._domainkey.acme.io': [`v=DKIM1; k=rsa; p=${dkimKey(2048)}`],
+            '_dmarc.acme.io': ['v=DMARC1; p=reject; rua=mailto:dmarc@acme.io'],
+            '_mta-sts.acme.io': ['v=STSv1; id=20261001000000'],
+            'default._bimi.acme.io': ['v=BIMI1; l=http://acme.io/logo.svg'],
+        };
+        const fetch = { 'https://mta-sts.acme.io/.well-known/mta-sts.txt': 'version: STSv1\nmode: testing\nmx: *.google.com\nmax_age: 86400\n' };
+        const result = await lintDomainAuth('Acme.io', resolver(zone, fetch), { selectors: ['google'], providers: ['google'] });
+        expect(result).toMatchObject({ domain: 'acme.io', mtaStsMode: 'testing', tlsRpt: false, bimi: true, penalty: 0 });
+        expect(codes(result.findings)).toEqual([
+            ['mta_sts_not_enforced', 'info'],
+            ['tls_rpt_missing', 'info'],
+            ['bimi_insecure_logo', 'info'],
+        ]);
+        expect(result.findings[1].record).toEqual({ type: 'TXT', host: '_smtp._tls.acme.io', value: 'v=TLSRPTv1; rua=mailto:tls-reports@acme.io' });
+
+        const bad = await lintDomainAuth('acme.io', resolver({ ...zone, 'acme.io': ['v=spf1 +all'] }), { selectors: ['google'] });
+        expect(bad.penalty).toBe(10);
+    });
+});
+
+describe('extractDkimSignatures', () => {
+    it('reads d= and s= from folded DKIM-Signature headers', () => {
+        const raw = [
+            'DKIM-Signature: v=1; a=rsa-sha256; c=relaxed/relaxed; d=Acme.io;',
+            '\ts=sk2026; h=from:to:subject; bh=abc=; b=def',
+            'DKIM-Signature: v=1; a=rsa-sha256; d=gappssmtp.com; s=20230601; b=x',
+            'Subject: hi',
+            '',
+            'DKIM-Signature: d=body.test; s=nope',
+        ].join('\r\n');
+        expect(extractDkimSignatures(raw)).toEqual([
+            { domain: 'acme.io', selector: 'sk2026' },
+            { domain: 'gappssmtp.com', selector: '20230601' },
+        ]);
+    });
+});
+
+describe('recordDkimSelectors', () => {
+    const raw = [
+        'DKIM-Signature: v=1; d=acme.io; s=sk2026; b=x',
+        'DKIM-Signature: v=1; d=victim.com; s=junk1; b=x',
+        'Subject: hi',
+        '',
+    ].join('\r\n');
+
+    beforeEach(() => jest.clearAllMocks());
+
+    it("records only the sending mailbox's own domain, scoped to its org and capped", async () => {
+        mockPrisma.connectedAccount.findFirst.mockResolvedValue({ email: 'Sam@Acme.io' });
+        await recordDkimSelectors(raw, { organizationId: 'org-1', email: 'sam@acme.io' });
+
+        expect(mockPrisma.connectedAccount.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+            where: { organization_id: 'org-1', email: { equals: 'sam@acme.io', mode: 'insensitive' } },
+        }));
+        expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+        const [sql, ...values] = mockPrisma.$executeRaw.mock.calls[0];
+        expect(sql.join('?')).toContain('organization_id = ?');
+        expect(values).toEqual(['sk2026', 'org-1', 'acme.io', 'sk2026', MAX_DKIM_SELECTORS]);
+    });
+
+    it('ignores mail whose sender is not a mailbox of the org', async () => {
+        mockPrisma.connectedAccount.findFirst.mockResolvedValue(null);
+        await recordDkimSelectors(raw, { organizationId: 'org-1', email: 'stranger@victim.com' });
+        expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * A/B significance reporting (utils/abStats + experimentReportService).
+ *
+ * Reference values cross-checked against standard tables / scipy:
+ *   - Wilson 95% for 10/100 ≈ [0.0552, 0.1744]
+ *   - pooled z-test 10/100 vs 25/100 ≈ p 0.0052
+ *   - n per arm for 10% → 12% at α=0.05, power 0.8 ≈ 3841
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+
+import {
+    wilsonInterval,
+    twoProportionPValue,
+    probabilityToBeat,
+    requiredSampleSize,
+    normalQuantile,
+} from '../src/utils/abStats';
+import { buildStepReport, parseExperimentQuery } from '../src/services/experimentReportService';
+
+function variant(label: string, sends: number, replies: number) {
+    return { id: label, variant_label: label, weight: 50, sends, opens: 0, machine_opens: 0, clicks: 0, replies };
+}
+
+describe('abStats', () => {
+    it('matches reference values', () => {
+        expect(normalQuantile(0.975)).toBeCloseTo(1.95996, 4);
+        const ci = wilsonInterval(10, 100);
+        expect(ci.low).toBeCloseTo(0.0552, 3);
+        expect(ci.high).toBeCloseTo(0.1744, 3);
+        expect(twoProportionPValue(10, 100, 25, 100)).toBeCloseTo(0.0052, 3);
+        expect(requiredSampleSize(0.10, 0.12)).toBeGreaterThan(3800);
+        expect(requiredSampleSize(0.10, 0.12)).toBeLessThan(3900);
+    });
+
+    it('handles degenerate inputs without NaN', () => {
+        expect(wilsonInterval(0, 0)).toEqual({ low: 0, high: 0 });
+        expect(twoProportionPValue(0, 50, 0, 50)).toBeNull();
+        expect(requiredSampleSize(0.1, 0.1)).toBeNull();
+        expect(probabilityToBeat(0, 0, 0, 0)).toBeCloseTo(0.5, 5);
+    });
+});
+
+describe('buildStepReport', () => {
+    it('flags a clear challenger as the winner', () => {
+        const r = buildStepReport(1, [variant('A', 500, 25), variant('B', 500, 60)], 'reply', 0.95);
+        expect(r.status).toBe('significant');
+        expect(r.winner).toEqual({ variant_id: 'B', label: 'B' });
+        const b = r.variants.find(v => v.label === 'B')!;
+        expect(b.p_value!).toBeLessThan(0.05);
+        expect(b.probability_to_beat_control!).toBeGreaterThan(0.95);
+        expect(b.lift_vs_control).toBeCloseTo(1.4, 5);
+    });
+
+    it('keeps running on a small, noisy difference', () => {
+        const r = buildStepReport(2, [variant('A', 200, 10), variant('B', 200, 13)], 'reply', 0.95);
+        expect(r.status).toBe('running');
+        expect(r.winner).toBeNull();
+        expect(r.required_sends_per_variant).toBeGreaterThan(200);
+    });
+
+    it('reports insufficient data below the per-arm floor', () => {
+        const r = buildStepReport(1, [variant('A', 10, 1), variant('B', 500, 60)], 'reply', 0.95);
+        expect(r.status).toBe('insufficient_data');
+        expect(r.winner).toBeNull();
+    });
+
+    it('Bonferroni-corrects comparisons with more than two arms', () => {
+        // p ≈ 0.04 passes a two-arm test but not alpha/2 with three arms.
+        const two = buildStepReport(1, [variant('A', 1000, 50), variant('B', 1000, 72)], 'reply', 0.95);
+        const three = buildStepReport(1, [variant('A', 1000, 50), variant('B', 1000, 72), variant('C', 1000, 50)], 'reply', 0.95);
+        expect(two.variants[1].significant).toBe(true);
+        expect(three.variants[1].significant).toBe(false);
+    });
+});
+
+describe('parseExperimentQuery', () => {
+    it('defaults and validates', () => {
+        expect(parseExperimentQuery({})).toEqual({ metric: 'reply', confidence: 0.95 });
+        expect(typeof parseExperimentQuery({ metric: 'bounces' })).toBe('string');
+        expect(typeof parseExperimentQuery({ confidence: '1.5' })).toBe('string');
+    });
+});
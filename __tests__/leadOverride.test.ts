@@ -0,0 +1,80 @@
+/**
+ * Per-lead sequence overrides (leadOverrideService): dispatch planning and
+ * payload validation.
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import {
+    planLeadDispatch,
+    validateOverrideInput,
+    PendingOverride,
+} from '../src/services/leadOverrideService';
+
+let seq = 0;
+function override(partial: Partial<PendingOverride>): PendingOverride {
+    seq++;
+    return {
+        id: `o${seq}`, kind: 'edit', step_number: null, subject: null, body_html: null,
+        created_at: new Date(Date.UTC(2026, 9, 19, 10, seq)),
+        ...partial,
+    };
+}
+
+describe('planLeadDispatch', () => {
+    it('does nothing without a matching override', () => {
+        expect(planLeadDispatch([], 2)).toEqual({ action: 'none' });
+        expect(planLeadDispatch([override({ kind: 'edit', step_number: 3 })], 2)).toEqual({ action: 'none' });
+    });
+
+    it('sends an injected email before anything else', () => {
+        const inject = override({ kind: 'inject', body_html: 'Quick one' });
+        const plan = planLeadDispatch([override({ kind: 'skip', step_number: 2 }), inject], 2);
+        expect(plan).toEqual({ action: 'inject', override: inject });
+        // Even when the sequence has nothing left to send.
+        expect(planLeadDispatch([inject], null).action).toBe('inject');
+    });
+
+    it('prefers a skip over an edit of the same step', () => {
+        const edit = override({ kind: 'edit', step_number: 2, body_html: 'x' });
+        const skip = override({ kind: 'skip', step_number: 2 });
+        expect(planLeadDispatch([edit, skip], 2)).toEqual({ action: 'skip', override: skip });
+    });
+
+    it('uses the newest edit of the step', () => {
+        const older = override({ kind: 'edit', step_number: 2, body_html: 'old' });
+        const newer = override({ kind: 'edit', step_number: 2, body_html: 'new' });
+        expect(planLeadDispatch([newer, older], 2)).toEqual({ action: 'edit', override: newer });
+    });
+});
+
+describe('validateOverrideInput', () => {
+    const linear = { stepNumbers: [1, 2, 3], currentStep: 1, graphMode: false };
+
+    it('rejects malformed overrides', () => {
+        expect(validateOverrideInput({ kind: 'rewrite' }, linear)).toMatch(/kind/);
+        expect(validateOverrideInput({ kind: 'skip', step_number: 7 }, linear)).toMatch(/step_number/);
+        expect(validateOverrideInput({ kind: 'skip', step_number: 1 }, linear)).toMatch(/already been sent/);
+        expect(validateOverrideInput({ kind: 'edit', step_number: 2 }, linear)).toMatch(/body_html/);
+        expect(validateOverrideInput({ kind: 'inject', body_html: ' ' }, linear)).toMatch(/body_html/);
+        expect(validateOverrideInput({ kind: 'skip', step_number: 2 }, { ...linear, graphMode: true })).toMatch(/graph/);
+        expect(validateOverrideInput({ kind: 'edit', step_number: 2, body_html: 'x' }, { ...linear, taskStepNumbers: [2] })).toMatch(/task step/);
+    });
+
+    it('requires a subject when there is no thread yet', () => {
+        const fresh = { ...linear, currentStep: 0 };
+        expect(validateOverrideInput({ kind: 'inject', body_html: 'Hi' }, fresh)).toMatch(/subject/);
+        expect(validateOverrideInput({ kind: 'edit', step_number: 1, body_html: 'Hi' }, fresh)).toMatch(/subject/);
+        expect(validateOverrideInput({ kind: 'inject', subject: 'Hello', body_html: 'Hi' }, fresh)).toBeNull();
+    });
+
+    it('accepts valid overrides', () => {
+        expect(validateOverrideInput({ kind: 'skip', step_number: 2 }, linear)).toBeNull();
+        // Follow-up edits may leave the subject blank to continue the thread.
+        expect(validateOverrideInput({ kind: 'edit', step_number: 3, body_html: 'Saw your launch' }, linear)).toBeNull();
+        expect(validateOverrideInput({ kind: 'inject', body_html: 'Quick one' }, linear)).toBeNull();
+    });
+});
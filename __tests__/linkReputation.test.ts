@@ -0,0 +1,57 @@
+/**
+ * Link reputation: local blocklist parsing / matching and the step
+ * pause-resume plan (linkReputationService).
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../src/services/webhookEventBus', () => ({ emitLinkBlacklisted: jest.fn(), emitLinkCleared: jest.fn() }));
+
+import { parseLocalList, matchLocalLists, planStepHolds, LINK_PAUSE_REASON } from '../src/services/linkReputationService';
+
+describe('parseLocalList', () => {
+    it('reads domains and URLs, skipping comments and junk', () => {
+        const text = [
+            '# phishing feed 2026-10-19',
+            'Evil.Example',
+            'https://www.login-verify.example/account?x=1',
+            '*.cdn-bad.example   # wildcard',
+            '',
+            'not a domain',
+            'localhost',
+        ].join('\n');
+        expect(parseLocalList(text)).toEqual(['evil.example', 'login-verify.example', 'cdn-bad.example']);
+    });
+});
+
+describe('matchLocalLists', () => {
+    const entries = new Map([['evil.example', 'phish'], ['tracker.example', 'malware']]);
+
+    it('matches the domain and its subdomains, not lookalikes', () => {
+        expect(matchLocalLists('evil.example', entries)).toEqual(['phish']);
+        expect(matchLocalLists('links.evil.example', entries)).toEqual(['phish']);
+        expect(matchLocalLists('notevil.example', entries)).toEqual([]);
+        expect(matchLocalLists('example', entries)).toEqual([]);
+    });
+});
+
+describe('planStepHolds', () => {
+    const step = (id: string, domains: string[], paused = false, reason: string | null = null) =>
+        ({ id, paused, paused_reason: reason, domains: new Set(domains) });
+
+    it('pauses steps carrying a listed domain and resumes its own holds once clear', () => {
+        const plan = planStepHolds([
+            step('a', ['acme.com', 'bad.example']),
+            step('b', ['acme.com']),
+            step('c', ['acme.com'], true, LINK_PAUSE_REASON),
+            step('d', ['bad.example'], true, LINK_PAUSE_REASON),
+        ], new Set(['bad.example']));
+        expect(plan).toEqual({ pause: ['a'], resume: ['c'] });
+    });
+
+    it('leaves holds placed for other reasons alone', () => {
+        expect(planStepHolds([step('a', ['acme.com'], true, 'manual')], new Set())).toEqual({ pause: [], resume: [] });
+    });
+});
@@ -0,0 +1,50 @@
+/**
+ * Seed-list placement tests: seed provider bucketing and the per-provider
+ * folder summary (placementTestService).
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { inferSeedProvider, summarizePlacement, PlacementResultRow } from '../src/services/placementTestService';
+
+describe('inferSeedProvider', () => {
+    it('buckets consumer addresses by domain and hosted mailboxes by IMAP host', () => {
+        expect(inferSeedProvider('seed1@gmail.com')).toBe('gmail');
+        expect(inferSeedProvider('seed2@hotmail.co.uk')).toBe('outlook');
+        expect(inferSeedProvider('seed3@aol.com')).toBe('yahoo');
+        expect(inferSeedProvider('seed4@acme.io', 'imap.gmail.com')).toBe('gmail');
+        expect(inferSeedProvider('seed5@acme.io', 'outlook.office365.com')).toBe('outlook');
+        expect(inferSeedProvider('seed6@acme.io', 'mail.acme.io')).toBe('other');
+    });
+});
+
+describe('summarizePlacement', () => {
+    const rows: PlacementResultRow[] = [
+        { provider: 'gmail', status: 'found', landed_in: 'inbox' },
+        { provider: 'gmail', status: 'found', landed_in: 'promotions' },
+        { provider: 'gmail', status: 'found', landed_in: 'inbox' },
+        { provider: 'outlook', status: 'found', landed_in: 'spam' },
+        { provider: 'outlook', status: 'missing', landed_in: null },
+        { provider: 'yahoo', status: 'pending', landed_in: null },
+        { provider: 'yahoo', status: 'send_failed', landed_in: null },
+    ];
+
+    it('counts folders overall and per provider', () => {
+        const summary = summarizePlacement(rows);
+        expect(summary).toMatchObject({ total: 7, inbox: 2, promotions: 1, spam: 1, missing: 1, pending: 1, send_failed: 1 });
+        expect(summary.inbox_rate).toBeCloseTo(2 / 5);
+        expect(summary.spam_rate).toBeCloseTo(1 / 5);
+        expect(summary.by_provider.gmail).toMatchObject({ total: 3, inbox: 2, promotions: 1 });
+        expect(summary.by_provider.gmail.inbox_rate).toBeCloseTo(2 / 3);
+        expect(summary.by_provider.outlook).toMatchObject({ spam: 1, missing: 1, inbox_rate: 0, spam_rate: 0.5 });
+    });
+
+    it('leaves rates null until a copy has a verdict', () => {
+        const yahoo = summarizePlacement(rows).by_provider.yahoo;
+        expect(yahoo).toMatchObject({ pending: 1, send_failed: 1, inbox_rate: null, spam_rate: null });
+        expect(summarizePlacement([]).inbox_rate).toBeNull();
+    });
+});
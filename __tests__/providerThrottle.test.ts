@@ -0,0 +1,115 @@
+/**
+ * Adaptive per-(mailbox, provider) throttling: deferral detection, exponential
+ * backoff and slow-start recovery (providerThrottleService).
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+    maskEmail: (e: string) => e,
+}));
+
+import {
+    adaptiveProvider,
+    isRateLimitDeferral,
+    backoffMs,
+    applyDeferral,
+    applySend,
+    admit,
+    effectiveState,
+    BACKOFF_BASE_MS,
+    BACKOFF_MAX_MS,
+    SLOW_START_WINDOW_MS,
+    ThrottleSnapshot,
+} from '../src/services/providerThrottleService';
+
+const t0 = new Date('2026-10-19T12:00:00Z');
+const at = (ms: number) => new Date(t0.getTime() + ms);
+const MIN = 60 * 1000;
+
+describe('adaptiveProvider', () => {
+    it('throttles Microsoft and Yahoo recipients only', () => {
+        expect(adaptiveProvider('a@outlook.com')).toBe('microsoft');
+        expect(adaptiveProvider('a@yahoo.com')).toBe('yahoo');
+        expect(adaptiveProvider('a@gmail.com')).toBeNull();
+        expect(adaptiveProvider('a@acme.com')).toBeNull();
+    });
+
+    it('uses the MX-derived bucket for hosted business domains', () => {
+        expect(adaptiveProvider('a@acme.com', 'microsoft')).toBe('microsoft');
+        expect(adaptiveProvider('a@acme.com', 'gmail')).toBeNull();
+    });
+});
+
+describe('isRateLimitDeferral', () => {
+    it('matches 421/451 deferrals and 4xx throttle responses', () => {
+        expect(isRateLimitDeferral('421', '421 4.7.0 [TSS04] Messages temporarily deferred due to unexpected volume')).toBe(true);
+        expect(isRateLimitDeferral('451', '451 4.7.650 The mail server has been temporarily rate limited due to IP reputation')).toBe(true);
+        expect(isRateLimitDeferral(undefined, '450 4.7.1 Too many messages, slow down')).toBe(true);
+        expect(isRateLimitDeferral(undefined, '421 Service not available')).toBe(true);
+    });
+
+    it('ignores hard bounces and other soft bounces', () => {
+        expect(isRateLimitDeferral('550', '550 5.7.1 Throttled')).toBe(false);
+        expect(isRateLimitDeferral('450', '450 4.2.1 Mailbox temporarily unavailable')).toBe(false);
+        expect(isRateLimitDeferral(undefined, 'connection reset')).toBe(false);
+    });
+});
+
+describe('backoff', () => {
+    it('doubles per consecutive deferral up to the cap', () => {
+        expect(backoffMs(1)).toBe(BACKOFF_BASE_MS);
+        expect(backoffMs(2)).toBe(BACKOFF_BASE_MS * 2);
+        expect(backoffMs(3)).toBe(BACKOFF_BASE_MS * 4);
+        expect(backoffMs(20)).toBe(BACKOFF_MAX_MS);
+    });
+
+    it('blocks the pair until backoff_until, then lets it recover', () => {
+        const s = applyDeferral(null, t0);
+        expect(s).toMatchObject({ state: 'backoff', consecutive_deferrals: 1, backoff_until: at(15 * MIN) });
+        expect(admit(s, at(5 * MIN))).toEqual({ allowed: false, retryAt: at(15 * MIN) });
+        expect(effectiveState(s, at(15 * MIN))).toBe('recovering');
+        expect(admit(s, at(15 * MIN))).toEqual({ allowed: true });
+    });
+
+    it('backs off longer on a deferral during recovery', () => {
+        const first = applyDeferral(null, t0);
+        const recovering = applySend(first, at(20 * MIN));
+        const again = applyDeferral(recovering, at(25 * MIN));
+        expect(again.consecutive_deferrals).toBe(2);
+        expect(again.backoff_until).toEqual(at(25 * MIN + 2 * BACKOFF_BASE_MS));
+    });
+});
+
+describe('slow-start recovery', () => {
+    it('allows 2 sends in the first window and doubles after each clean window until normal', () => {
+        let s: ThrottleSnapshot = applyDeferral(null, t0);
+        let now = at(15 * MIN);
+        const limits: number[] = [];
+
+        for (let guard = 0; guard < 10 && s.state !== 'normal'; guard++) {
+            let sent = 0;
+            while (admit(s, now).allowed && s.state !== 'normal') {
+                s = applySend(s, now);
+                sent++;
+                if (s.state === 'normal') break;
+            }
+            if (s.state === 'normal') break;
+            limits.push(sent);
+            const gate = admit(s, now);
+            expect(gate).toEqual({ allowed: false, retryAt: new Date(s.window_started_at!.getTime() + SLOW_START_WINDOW_MS) });
+            now = new Date(now.getTime() + SLOW_START_WINDOW_MS);
+        }
+
+        expect(limits).toEqual([2, 4, 8, 16]);
+        expect(s).toMatchObject({ state: 'normal', consecutive_deferrals: 0, window_limit: null });
+        expect(admit(s, now)).toEqual({ allowed: true });
+    });
+
+    it('leaves normal snapshots untouched', () => {
+        const s = applySend(applySend(applyDeferral(null, t0), at(15 * MIN)), at(16 * MIN));
+        expect(s.window_sent).toBe(2);
+        const normal: ThrottleSnapshot = { state: 'normal', consecutive_deferrals: 0, backoff_until: null, window_limit: null, window_started_at: null, window_sent: 0 };
+        expect(applySend(normal, t0)).toBe(normal);
+    });
+});
@@ -66,6 +66,17 @@ describe('rateLimitPerOrg (fail-open Redis limiter)', () => {
         expect(res.body.retry_after_seconds).toBeGreaterThanOrEqual(1);
     });
 
+    it('keys a per-user limiter on the user, not the org', async () => {
+        const evalMock = jest.fn().mockResolvedValue(1);
+        getRedisMock.mockReturnValue({ eval: evalMock });
+        const perUser = rateLimitPerOrg({ maxPerWindow: 5, windowMs: 60_000, bucketKey: 'test', keyBy: 'user' });
+        const { req, res, next } = harness('org-1');
+        req.orgContext.userId = 'user-1';
+        await perUser(req, res, next);
+        expect(next).toHaveBeenCalledTimes(1);
+        expect(evalMock.mock.calls[0][2]).toMatch(/^ratelimit:test:user-1:/);
+    });
+
     it('fails open when the Redis call throws', async () => {
         getRedisMock.mockReturnValue({ eval: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')) });
         const { req, res, next } = harness('org-1');
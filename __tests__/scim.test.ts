@@ -0,0 +1,115 @@
+/**
+ * SCIM: filter and pagination parsing, User / Group PATCH semantics as Okta
+ * and Entra ID send them, and group -> capability union (scimService).
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import {
+    parseFilter,
+    parsePagination,
+    userChangesFromResource,
+    userChangesFromPatch,
+    groupChangesFromResource,
+    groupChangesFromPatch,
+    capabilitiesForGroups,
+    ScimError,
+} from '../src/services/scimService';
+
+const PATCH = 'urn:ietf:params:scim:api:messages:2.0:PatchOp';
+const patch = (...Operations: unknown[]) => ({ schemas: [PATCH], Operations });
+
+describe('filters and pagination', () => {
+    it('parses eq filters, matching attribute names case-insensitively', () => {
+        expect(parseFilter('userName eq "sam@acme.com"', ['userName', 'externalId']))
+            .toEqual({ attribute: 'userName', value: 'sam@acme.com' });
+        expect(parseFilter('EXTERNALID eq "a\\"b"', ['userName', 'externalId']))
+            .toEqual({ attribute: 'externalId', value: 'a"b' });
+        expect(parseFilter(undefined, ['userName'])).toBeNull();
+    });
+
+    it('rejects operators and attributes it does not support as invalidFilter', () => {
+        for (const filter of ['userName co "acme"', 'title eq "x"', 'userName eq "a" or userName eq "b"']) {
+            try {
+                parseFilter(filter, ['userName']);
+                throw new Error('expected a ScimError');
+            } catch (err) {
+                expect(err).toBeInstanceOf(ScimError);
+                expect((err as ScimError).statusCode).toBe(400);
+                expect((err as ScimError).scimType).toBe('invalidFilter');
+            }
+        }
+    });
+
+    it('clamps startIndex and count', () => {
+        expect(parsePagination({})).toEqual({ startIndex: 1, count: 100 });
+        expect(parsePagination({ startIndex: '0', count: '5000' })).toEqual({ startIndex: 1, count: 200 });
+        expect(parsePagination({ startIndex: '11', count: '0' })).toEqual({ startIndex: 11, count: 0 });
+    });
+});
+
+describe('User changes', () => {
+    it('reads a created user, falling back to the primary email for userName', () => {
+        expect(userChangesFromResource({
+            emails: [{ value: 'other@acme.com' }, { value: 'sam@acme.com', primary: true }],
+            name: { givenName: 'Sam', familyName: 'Lee' },
+            externalId: 'okta-1',
+            title: 'ignored',
+        })).toEqual({ userName: 'sam@acme.com', givenName: 'Sam', familyName: 'Lee', externalId: 'okta-1', active: true });
+        expect(() => userChangesFromResource({ name: { givenName: 'Sam' } })).toThrow('userName cannot be empty');
+    });
+
+    it('deactivates from a path op or an Entra-style valueless op with string booleans', () => {
+        expect(userChangesFromPatch(patch({ op: 'replace', path: 'active', value: false }))).toEqual({ active: false });
+        expect(userChangesFromPatch(patch({ op: 'Replace', value: { active: 'False', 'name.givenName': 'Sam' } })))
+            .toEqual({ active: false, givenName: 'Sam' });
+        expect(() => userChangesFromPatch(patch({ op: 'replace', path: 'active', value: 'no' }))).toThrow('active must be a boolean');
+    });
+
+    it('removes optional attributes and ignores ones we do not store', () => {
+        expect(userChangesFromPatch(patch(
+            { op: 'remove', path: 'externalId' },
+            { op: 'add', path: 'phoneNumbers', value: [{ value: '555' }] },
+        ))).toEqual({ externalId: null });
+        expect(() => userChangesFromPatch(patch({ op: 'move', path: 'active' }))).toThrow('Unsupported PATCH op');
+        expect(() => userChangesFromPatch({ schemas: [PATCH] })).toThrow('Operations');
+    });
+});
+
+describe('Group changes', () => {
+    it('requires displayName and member values on create', () => {
+        expect(groupChangesFromResource({ displayName: 'Sales', members: [{ value: 'u1' }] }))
+            .toEqual({ displayName: 'Sales', externalId: null, members: ['u1'], add: [], remove: [] });
+        expect(() => groupChangesFromResource({ members: [] })).toThrow('displayName is required');
+        expect(() => groupChangesFromResource({ displayName: 'Sales', members: [{}] })).toThrow('Each member needs a value');
+    });
+
+    it('handles Okta member add / filtered remove and Entra remove-with-value', () => {
+        expect(groupChangesFromPatch(patch(
+            { op: 'add', path: 'members', value: [{ value: 'u1' }, { value: 'u2' }] },
+            { op: 'remove', path: 'members[value eq "u3"]' },
+            { op: 'Remove', path: 'members', value: [{ value: 'u4' }] },
+        ))).toEqual({ add: ['u1', 'u2'], remove: ['u3', 'u4'] });
+    });
+
+    it('replaces the member list and renames', () => {
+        expect(groupChangesFromPatch(patch(
+            { op: 'replace', path: 'members', value: [{ value: 'u1' }] },
+            { op: 'replace', value: { id: 'g1', displayName: 'Sales EMEA' } },
+        ))).toEqual({ members: ['u1'], displayName: 'Sales EMEA', add: [], remove: [] });
+        expect(groupChangesFromPatch(patch({ op: 'remove', path: 'members' }))).toEqual({ members: [], add: [], remove: [] });
+    });
+});
+
+describe('capabilities', () => {
+    it('unions group capabilities in canonical order, dropping unknown keys', () => {
+        expect(capabilitiesForGroups([
+            { capabilities: ['launch_pause_campaigns', 'view_campaigns'] },
+            { capabilities: ['view_campaigns', 'not_a_capability'] },
+        ])).toEqual(['view_campaigns', 'launch_pause_campaigns']);
+        expect(capabilitiesForGroups([])).toEqual([]);
+    });
+});
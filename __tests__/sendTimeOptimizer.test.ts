@@ -0,0 +1,107 @@
+/**
+ * Send-time optimization (sendTimeOptimizerService): profile learning,
+ * segment fallback, and slot picking inside the campaign window.
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import {
+    ProfileAccumulator,
+    OrgProfiles,
+    pickSendSlot,
+    ratesForLead,
+    personaBucket,
+    hourOfWeek,
+} from '../src/services/sendTimeOptimizerService';
+
+// Week of Sunday 2026-10-18 (UTC).
+const WEEK_START = Date.UTC(2026, 9, 18);
+const at = (hourOfWeekUtc: number) => new Date(WEEK_START + hourOfWeekUtc * 3600_000);
+const TUE_14 = 2 * 24 + 14;
+const MON_20 = 1 * 24 + 20;
+
+/** 10 sends into every weekday business hour; replies concentrated in `hotHour`. */
+function seed(acc: ProfileAccumulator, email: string, hotHour: number, title: string | null = null) {
+    for (let day = 1; day <= 5; day++) {
+        for (let hour = 13; hour <= 21; hour++) {
+            const h = day * 24 + hour;
+            for (let i = 0; i < 10; i++) acc.addSend(email, title, 'gmail', at(h));
+            const replies = h === hotHour ? 6 : 0;
+            for (let i = 0; i < replies; i++) acc.addEngagement('reply', email, title, 'gmail', at(h));
+        }
+    }
+}
+
+function toProfiles(acc: ProfileAccumulator): OrgProfiles {
+    return new Map(acc.trusted().map(p => [`${p.segment_type}:${p.segment_key}`, p]));
+}
+
+const campaign = {
+    schedule_timezone: 'America/New_York',
+    schedule_start_time: '09:00',
+    schedule_end_time: '17:00',
+    schedule_days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+};
+
+describe('personaBucket', () => {
+    it('buckets common titles', () => {
+        expect(personaBucket('Co-Founder & CEO')).toBe('executive');
+        expect(personaBucket('Senior Software Engineer')).toBe('engineering');
+        expect(personaBucket('Account Executive')).toBe('sales');
+        expect(personaBucket('Talent Acquisition Lead')).toBe('hr');
+        expect(personaBucket('Barista')).toBe('other');
+        expect(personaBucket('')).toBeNull();
+    });
+});
+
+describe('ratesForLead', () => {
+    it('prefers a trusted domain profile over the org profile', () => {
+        const acc = new ProfileAccumulator();
+        seed(acc, 'a@other.com', TUE_14);
+        seed(acc, 'a@acme.com', MON_20);
+        const profiles = toProfiles(acc);
+        const acme = ratesForLead(profiles, { id: 'l1', email: 'x@acme.com' })!;
+        expect(acme.segment).toBe('domain:acme.com');
+        expect(acme.rates[MON_20]).toBeGreaterThan(acme.rates[TUE_14]);
+        // Unknown domain + no title → ESP segment (all sends were gmail).
+        expect(ratesForLead(profiles, { id: 'l2', email: 'x@new.io', esp_bucket: 'gmail' })!.segment).toBe('esp:gmail');
+        expect(ratesForLead(profiles, { id: 'l3', email: 'x@new.io' })!.segment).toBe('org:*');
+    });
+
+    it('returns null without enough org history', () => {
+        const acc = new ProfileAccumulator();
+        for (let i = 0; i < 50; i++) acc.addSend('a@acme.com', null, null, at(TUE_14));
+        expect(ratesForLead(toProfiles(acc), { id: 'l1', email: 'x@acme.com' })).toBeNull();
+    });
+});
+
+describe('pickSendSlot', () => {
+    const acc = new ProfileAccumulator();
+    seed(acc, 'a@other.com', TUE_14);
+    const profiles = toProfiles(acc);
+
+    it('moves the lead to the best learned hour inside the window', () => {
+        // Monday 15:00 UTC (11:00 New York), horizon covers Tuesday.
+        const slot = pickSendSlot(profiles, { id: 'lead-1', email: 'x@other.com' }, {
+            campaign, timezone: null, from: at(1 * 24 + 15),
+        })!;
+        expect(hourOfWeek(slot)).toBe(TUE_14);
+        expect(slot.getTime()).toBeGreaterThanOrEqual(at(TUE_14).getTime());
+    });
+
+    it('never picks an hour outside the window', () => {
+        // Window in Tokyo time: Tuesday 14:00 UTC is 23:00 JST - closed.
+        const slot = pickSendSlot(profiles, { id: 'lead-1', email: 'x@other.com' }, {
+            campaign, timezone: 'Asia/Tokyo', from: at(1 * 24 + 15),
+        });
+        expect(slot).not.toBeNull();
+        expect(hourOfWeek(slot!)).not.toBe(TUE_14);
+    });
+
+    it('falls back to null without a profile', () => {
+        expect(pickSendSlot(new Map(), { id: 'lead-1', email: 'x@other.com' }, { campaign, timezone: null, from: at(40) })).toBeNull();
+    });
+});
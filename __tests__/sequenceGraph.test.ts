@@ -0,0 +1,216 @@
+/**
+ * Sequence graph walker + definition rules.
+ *
+ * Frozen here:
+ *   - resolveGraphPosition passes through zero-time nodes (splits, elapsed
+ *     waits) and stops at the first email / unexpired wait / exit
+ *   - wait_for_event leaves by 'event_occurred' only for events AFTER arrival,
+ *     otherwise by 'timeout' once the window closes
+ *   - validateGraphDefinition rejects cycles, multiple entries, dangling edges
+ *   - linearToGraph reproduces the linear walker's condition + branch rules
+ *   - migrateLinearCampaign parks in-flight leads before flipping to graph mode
+ */
+
+const mockTx = {
+    sequenceEdge: { deleteMany: jest.fn(), createMany: jest.fn() },
+    sequenceNode: { deleteMany: jest.fn(), create: jest.fn() },
+    campaign: { update: jest.fn() },
+    $executeRaw: jest.fn(),
+};
+const mockPrisma = {
+    campaign: { findUnique: jest.fn() },
+    $transaction: jest.fn(async (fn: (tx: typeof mockTx) => unknown) => fn(mockTx)),
+};
+jest.mock('../src/index', () => ({ prisma: mockPrisma }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { warn: jest.fn(), info: jest.fn(), error: jest.fn() },
+}));
+
+import {
+    buildGraph,
+    resolveGraphPosition,
+    validateGraphDefinition,
+    linearToGraph,
+    migrateLinearCampaign,
+    GraphNode,
+    GraphEdge,
+    GraphNodeInput,
+    GraphEdgeInput,
+} from '../src/services/sequenceGraphService';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/** Turn builder input (keys) into a runtime graph, using keys as ids. */
+function graphFrom(nodes: GraphNodeInput[], edges: GraphEdgeInput[]) {
+    return buildGraph(
+        nodes.map(n => ({
+            id: n.key, node_key: n.key, type: n.type as GraphNode['type'],
+            step_number: n.step_number ?? null, config: n.config ?? null, is_entry: !!n.is_entry,
+        })),
+        edges.map((e, i): GraphEdge => ({
+            id: `e${i}`, from_node_id: e.from, to_node_id: e.to,
+            condition: e.condition ?? null, weight: e.weight ?? null, priority: e.priority ?? i,
+        })),
+    );
+}
+
+describe('resolveGraphPosition', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    const nodes: GraphNodeInput[] = [
+        { key: 'split', type: 'ab_split', is_entry: true },
+        { key: 'a', type: 'email', step_number: 1 },
+        { key: 'b', type: 'email', step_number: 2 },
+        { key: 'wait', type: 'wait_for_event', config: { event: 'reply', within_days: 3 } },
+        { key: 'replied', type: 'exit' },
+        { key: 'bump', type: 'email', step_number: 3 },
+    ];
+    const edges: GraphEdgeInput[] = [
+        { from: 'split', to: 'a', weight: 70 },
+        { from: 'split', to: 'b', weight: 30 },
+        { from: 'a', to: 'wait' },
+        { from: 'wait', to: 'replied', condition: 'event_occurred' },
+        { from: 'wait', to: 'bump', condition: 'timeout' },
+    ];
+    const graph = graphFrom(nodes, edges);
+
+    it('starts at the entry and routes an A/B split by weight', () => {
+        const low = resolveGraphPosition(graph, { current_node_id: null, node_entered_at: null }, now, () => 0.5);
+        const high = resolveGraphPosition(graph, { current_node_id: null, node_entered_at: null }, now, () => 0.9);
+        expect(low).toMatchObject({ action: 'send', node: { id: 'a' } });
+        expect(high).toMatchObject({ action: 'send', node: { id: 'b' } });
+    });
+
+    it('holds on wait_for_event and rechecks hourly inside the window', () => {
+        const entered = new Date(now.getTime() - DAY);
+        const r = resolveGraphPosition(graph, { current_node_id: 'wait', node_entered_at: entered }, now);
+        expect(r.action).toBe('wait');
+        if (r.action === 'wait') expect(r.wakeAt.getTime()).toBe(now.getTime() + HOUR);
+    });
+
+    it('only counts events that happened after the lead arrived', () => {
+        const entered = new Date(now.getTime() - DAY);
+        const before = resolveGraphPosition(graph, {
+            current_node_id: 'wait', node_entered_at: entered, replied_at: new Date(entered.getTime() - HOUR),
+        }, now);
+        const after = resolveGraphPosition(graph, {
+            current_node_id: 'wait', node_entered_at: entered, replied_at: new Date(entered.getTime() + HOUR),
+        }, now);
+        expect(before.action).toBe('wait');
+        expect(after).toMatchObject({ action: 'complete', reason: 'exit', nodeId: 'replied' });
+    });
+
+    it('takes the timeout edge once the window has closed', () => {
+        const entered = new Date(now.getTime() - 4 * DAY);
+        const r = resolveGraphPosition(graph, { current_node_id: 'wait', node_entered_at: entered }, now);
+        expect(r).toMatchObject({ action: 'send', node: { id: 'bump' } });
+    });
+
+    it('stops at email nodes and completes when the node no longer exists', () => {
+        const r = resolveGraphPosition(graph, { current_node_id: 'bump', node_entered_at: now }, now);
+        expect(r.action).toBe('send');
+        const missing = resolveGraphPosition(graph, { current_node_id: 'gone', node_entered_at: now }, now);
+        expect(missing).toMatchObject({ action: 'complete', reason: 'missing_node' });
+    });
+});
+
+describe('validateGraphDefinition', () => {
+    const base: GraphNodeInput[] = [
+        { key: 'e1', type: 'email', step_number: 1, is_entry: true },
+        { key: 'w', type: 'wait_until', config: { delay_days: 2 } },
+        { key: 'e2', type: 'email', step_number: 2 },
+        { key: 'x', type: 'exit' },
+    ];
+
+    it('accepts a well-formed DAG', () => {
+        const edges = [{ from: 'e1', to: 'w' }, { from: 'w', to: 'e2' }, { from: 'e2', to: 'x' }];
+        expect(validateGraphDefinition(base, edges, [1, 2])).toEqual([]);
+    });
+
+    it('rejects cycles, dangling edges and unknown steps', () => {
+        const errors = validateGraphDefinition(
+            [...base, { key: 'e9', type: 'email', step_number: 9 }],
+            [{ from: 'e1', to: 'w' }, { from: 'w', to: 'e2' }, { from: 'e2', to: 'e1' }, { from: 'e2', to: 'nowhere' }],
+            [1, 2],
+        );
+        expect(errors).toEqual(expect.arrayContaining([
+            'Graph contains a cycle',
+            'Edge e2 -> nowhere references a missing node',
+            'Email node "e9" must reference an existing step_number',
+        ]));
+    });
+
+    it('requires exactly one entry and positive split weights', () => {
+        const errors = validateGraphDefinition(
+            [{ key: 's', type: 'ab_split' }, { key: 'x', type: 'exit' }],
+            [{ from: 's', to: 'x' }],
+            [],
+        );
+        expect(errors).toEqual(expect.arrayContaining([
+            'Graph needs exactly one entry node (found 0)',
+            'A/B split edge s -> x needs a weight > 0',
+        ]));
+    });
+});
+
+describe('linearToGraph', () => {
+    const steps = [
+        { step_number: 1, delay_days: 0, delay_hours: 0 },
+        { step_number: 2, delay_days: 3, delay_hours: 0, condition: 'if_no_reply', branch_to_step_number: 3 },
+        { step_number: 3, delay_days: 2, delay_hours: 0 },
+    ];
+
+    it('builds wait -> gate -> email chains with the branch as gate fallback', () => {
+        const { nodes, edges } = linearToGraph(steps);
+        expect(validateGraphDefinition(nodes, edges, [1, 2, 3])).toEqual([]);
+        expect(nodes.find(n => n.is_entry)?.key).toBe('email_1');
+        expect(edges).toEqual(expect.arrayContaining([
+            expect.objectContaining({ from: 'email_1', to: 'wait_2' }),
+            expect.objectContaining({ from: 'wait_2', to: 'gate_2' }),
+            expect.objectContaining({ from: 'gate_2', to: 'email_2', condition: 'if_no_reply' }),
+            expect.objectContaining({ from: 'gate_2', to: 'email_3' }),
+            expect.objectContaining({ from: 'email_3', to: 'exit' }),
+        ]));
+    });
+
+    it('maps in-flight leads to the node after their last sent step', () => {
+        const { positionForStep } = linearToGraph(steps);
+        expect(positionForStep(0)).toBe('email_1');
+        expect(positionForStep(1)).toBe('wait_2');
+        expect(positionForStep(3)).toBe('exit');
+    });
+
+    it('walks a migrated graph the way the linear dispatcher would', () => {
+        const { nodes, edges } = linearToGraph(steps);
+        const graph = graphFrom(nodes, edges);
+        const now = new Date('2026-10-19T12:00:00Z');
+        const sentAt = new Date(now.getTime() - 4 * DAY);
+        const noReply = resolveGraphPosition(graph, { current_node_id: 'wait_2', node_entered_at: sentAt }, now);
+        const replied = resolveGraphPosition(graph, { current_node_id: 'wait_2', node_entered_at: sentAt, replied_at: now }, now);
+        expect(noReply).toMatchObject({ action: 'send', node: { id: 'email_2' } });
+        expect(replied).toMatchObject({ action: 'send', node: { id: 'email_3' } });
+    });
+});
+
+describe('migrateLinearCampaign', () => {
+    it('repositions in-flight leads inside the transaction, before the sequence_mode flip', async () => {
+        mockPrisma.campaign.findUnique.mockResolvedValue({
+            sequence_mode: 'linear',
+            steps: [
+                { step_number: 1, delay_days: 0, delay_hours: 0, condition: null, branch_to_step_number: null },
+                { step_number: 2, delay_days: 3, delay_hours: 0, condition: null, branch_to_step_number: null },
+            ],
+        });
+        mockTx.sequenceNode.create.mockImplementation(async ({ data }: any) => ({ id: `node-${data.node_key}` }));
+        mockTx.$executeRaw.mockResolvedValue(4);
+
+        const result = await migrateLinearCampaign('camp-1');
+
+        expect(mockTx.$executeRaw).toHaveBeenCalledTimes(2);
+        const [, firstNode, , firstStep] = mockTx.$executeRaw.mock.calls[0];
+        expect([firstNode, firstStep]).toEqual(['node-wait_2', 1]);
+        expect(mockTx.$executeRaw.mock.invocationCallOrder[1]).toBeLessThan(mockTx.campaign.update.mock.invocationCallOrder[0]);
+        expect(mockTx.campaign.update).toHaveBeenCalledWith({ where: { id: 'camp-1' }, data: { sequence_mode: 'graph' } });
+        expect(result.leadsRepositioned).toBe(8);
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * Manual task steps (sequenceTaskService): task drafting from a step and
+ * step-payload parsing for the campaign save paths.
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+
+import {
+    isTaskStep,
+    buildTaskFromStep,
+    stepTaskFields,
+    validateStepTypes,
+    channelForSteps,
+} from '../src/services/sequenceTaskService';
+
+const now = new Date('2026-10-19T14:00:00Z');
+
+describe('buildTaskFromStep', () => {
+    it('uses the step subject and body as title and instructions', () => {
+        const task = buildTaskFromStep({
+            step_number: 3, step_type: 'call', subject: ' Call about the pilot ', body_html: 'Ask for the IT lead',
+            task_due_hours: 4, task_assignee_user_id: 'rep-1',
+        }, now);
+        expect(task).toEqual({
+            type: 'call',
+            title: 'Call about the pilot',
+            instructions: 'Ask for the IT lead',
+            due_at: new Date('2026-10-19T18:00:00Z'),
+            assigned_user_id: 'rep-1',
+        });
+    });
+
+    it('falls back to a per-type title and a 24h due date', () => {
+        const task = buildTaskFromStep({ step_number: 2, step_type: 'linkedin_connect', subject: '', body_html: '' }, now);
+        expect(task.title).toBe('Send LinkedIn connection request');
+        expect(task.instructions).toBeNull();
+        expect(task.due_at.toISOString()).toBe('2026-10-20T14:00:00.000Z');
+        expect(task.assigned_user_id).toBeNull();
+    });
+});
+
+describe('step payloads', () => {
+    it('recognises task step types', () => {
+        expect(isTaskStep('call')).toBe(true);
+        expect(isTaskStep('email')).toBe(false);
+        expect(isTaskStep(undefined)).toBe(false);
+    });
+
+    it('reads snake_case and camelCase task fields', () => {
+        expect(stepTaskFields({ stepType: 'task', taskDueHours: 48, taskAssigneeUserId: 'u1' }))
+            .toEqual({ step_type: 'task', task_due_hours: 48, task_assignee_user_id: 'u1' });
+        expect(stepTaskFields({ step_type: 'call', task_due_hours: -1, task_assignee_user_id: '' }))
+            .toEqual({ step_type: 'call', task_assignee_user_id: null });
+        expect(stepTaskFields({ subject: 'Hi' })).toEqual({});
+    });
+
+    it('rejects unknown step types', () => {
+        expect(validateStepTypes([{ step_type: 'email' }, { stepType: 'linkedin_message' }, {}])).toBeNull();
+        expect(validateStepTypes([{ step_type: 'sms' }])).toMatch(/step_type/);
+    });
+
+    it('marks campaigns with task steps as multichannel', () => {
+        expect(channelForSteps([{ step_type: 'email' }, {}])).toBe('email');
+        expect(channelForSteps([{}, { stepType: 'call' }])).toBe('multichannel');
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * Microsoft SNDS feed parsing and the per-mailbox reputation summary
+ * (sndsService).
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import {
+    parseSndsData,
+    parseSndsIpStatus,
+    isBlocked,
+    summarizeIpReputation,
+    IpReputationRow,
+} from '../src/services/sndsService';
+
+const DATA_CSV = [
+    '203.0.113.10,10/17/2026 12:00 AM,10/17/2026 11:59 PM,1200,1180,1210,GREEN,< 0.1%,10/17/2026 12:00 AM,10/17/2026 11:59 PM,0,mail.acme.io,bounces@acme.io,',
+    '203.0.113.11,10/17/2026 3:00 AM,10/17/2026 9:00 PM,400,390,400,YELLOW,0.4%,10/17/2026 12:00 AM,10/17/2026 11:59 PM,2,mail2.acme.io,bounces@acme.io,Sample, with comma',
+    'garbage line',
+    '',
+].join('\r\n');
+
+describe('parseSndsData', () => {
+    it('reads counts, filter result, complaint rate and trap hits per IP', () => {
+        const rows = parseSndsData(DATA_CSV);
+        expect(rows).toHaveLength(2);
+        expect(rows[0]).toEqual({
+            ip: '203.0.113.10',
+            date: '2026-10-17',
+            rcptCommands: 1200,
+            dataCommands: 1180,
+            messageRecipients: 1210,
+            filterResult: 'GREEN',
+            complaintRate: 0,
+            trapHits: 0,
+            sampleHelo: 'mail.acme.io',
+            sampleMailFrom: 'bounces@acme.io',
+            comments: null,
+        });
+        expect(rows[1]).toMatchObject({ filterResult: 'YELLOW', trapHits: 2, comments: 'Sample, with comma' });
+        expect(rows[1].complaintRate).toBeCloseTo(0.004);
+    });
+});
+
+describe('parseSndsIpStatus', () => {
+    it('keeps blocked ranges and matches IPs inside them', () => {
+        const ranges = parseSndsIpStatus('203.0.113.8,203.0.113.11,Yes,Blocked due to user complaints\n198.51.100.1,198.51.100.1,No,\n');
+        expect(ranges).toEqual([{ first: '203.0.113.8', last: '203.0.113.11', reason: 'Blocked due to user complaints' }]);
+        expect(isBlocked('203.0.113.10', ranges)).toBe(true);
+        expect(isBlocked('203.0.113.12', ranges)).toBe(false);
+        expect(isBlocked('not-an-ip', ranges)).toBe(false);
+    });
+});
+
+describe('summarizeIpReputation', () => {
+    const day = (d: string) => new Date(`${d}T00:00:00Z`);
+    const rows: IpReputationRow[] = [
+        { ip: '203.0.113.10', date: day('2026-10-15'), filter_result: 'RED', complaint_rate: 0.02, trap_hits: 3, blocked: false },
+        { ip: '203.0.113.10', date: day('2026-10-17'), filter_result: 'GREEN', complaint_rate: 0, trap_hits: 0, blocked: false },
+        { ip: '203.0.113.11', date: day('2026-10-17'), filter_result: 'YELLOW', complaint_rate: 0.004, trap_hits: 1, blocked: false },
+    ];
+
+    it('takes each IP\'s latest verdict but the whole window for traps and complaints', () => {
+        expect(summarizeIpReputation(rows)).toEqual({
+            filterResult: 'YELLOW',
+            blocked: false,
+            complaintRate: 0.02,
+            trapHits: 4,
+            ips: ['203.0.113.10', '203.0.113.11'],
+        });
+    });
+
+    it('reports blocks and returns null without data', () => {
+        const blocked = summarizeIpReputation([{ ...rows[1], blocked: true, filter_result: null }]);
+        expect(blocked).toMatchObject({ filterResult: null, blocked: true });
+        expect(summarizeIpReputation([])).toBeNull();
+    });
+});
@@ -0,0 +1,70 @@
+/**
+ * Spam-trap risk: per-lead signal scoring and the import-batch rating
+ * (spamTrapRiskService).
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { scoreTrapRisk, rateBatch, LeadTrapSignals } from '../src/services/spamTrapRiskService';
+
+const importedAt = new Date('2026-10-01T00:00:00Z');
+const daysBefore = (n: number) => new Date(importedAt.getTime() - n * 24 * 60 * 60 * 1000);
+
+const base: LeadTrapSignals = {
+    email: 'jane.doe@acme.com',
+    leadCreatedAt: daysBefore(30),
+    lastSendBeforeImport: null,
+    importedAt,
+    isCatchAll: false,
+    sends: 0,
+    engagements: 0,
+    batchListing: false,
+    batchTrapHits: false,
+};
+
+describe('scoreTrapRisk', () => {
+    it('scores a fresh, engaged-or-unsent lead as low with no reasons', () => {
+        expect(scoreTrapRisk(base)).toEqual({ score: 0, level: 'low', reasons: [] });
+        expect(scoreTrapRisk({ ...base, sends: 12, engagements: 1 }).reasons).toEqual([]);
+    });
+
+    it('flags a dormant address revived by the import, but not one mailed recently', () => {
+        const revived = scoreTrapRisk({ ...base, leadCreatedAt: daysBefore(800), lastSendBeforeImport: daysBefore(500) });
+        expect(revived.reasons).toEqual(['dormant_revival']);
+        expect(scoreTrapRisk({ ...base, leadCreatedAt: daysBefore(800), lastSendBeforeImport: daysBefore(20) }).reasons).toEqual([]);
+        expect(scoreTrapRisk({ ...base, leadCreatedAt: null }).reasons).toEqual([]);
+    });
+
+    it('stacks role, catch-all and zero-engagement signals into high', () => {
+        const result = scoreTrapRisk({ ...base, email: 'info@acme.com', isCatchAll: true, sends: 8 });
+        expect(result.reasons).toEqual(['role_account', 'catch_all', 'zero_engagement']);
+        expect(result.level).toBe('high');
+        expect(scoreTrapRisk({ ...base, sends: 3 }).reasons).toEqual([]);
+    });
+
+    it('caps the two batch signals and only reaches high with lead evidence', () => {
+        const batchOnly = scoreTrapRisk({ ...base, batchListing: true, batchTrapHits: true });
+        expect(batchOnly.reasons).toEqual(['batch_listing', 'batch_trap_hits']);
+        expect(batchOnly.level).toBe('low');
+        const withDormancy = scoreTrapRisk({ ...base, leadCreatedAt: daysBefore(400), batchListing: true, batchTrapHits: true });
+        expect(withDormancy.level).toBe('high');
+    });
+});
+
+describe('rateBatch', () => {
+    it('rates a batch high when a listing or trap hit lines up with it', () => {
+        expect(rateBatch({ scored: 100, elevated: 0, high: 0, listed: true, trapHits: 0 })).toBe('high');
+        expect(rateBatch({ scored: 100, elevated: 0, high: 0, listed: false, trapHits: 3 })).toBe('high');
+    });
+
+    it('otherwise rates by the share of risky leads', () => {
+        expect(rateBatch({ scored: 100, elevated: 0, high: 5, listed: false, trapHits: 0 })).toBe('high');
+        expect(rateBatch({ scored: 10, elevated: 0, high: 1, listed: false, trapHits: 0 })).toBe('elevated');
+        expect(rateBatch({ scored: 100, elevated: 10, high: 0, listed: false, trapHits: 0 })).toBe('elevated');
+        expect(rateBatch({ scored: 100, elevated: 9, high: 0, listed: false, trapHits: 0 })).toBe('low');
+        expect(rateBatch({ scored: 0, elevated: 0, high: 0, listed: false, trapHits: 0 })).toBe('low');
+    });
+});
@@ -0,0 +1,373 @@
+/**
+ * SSO: SAML response validation through node-saml (signature, tamper,
+ * signature-wrapping and comment-injection vectors, audience / request
+ * binding, responses shaped like Okta / Entra ID / Google send them),
+ * metadata parsing, and group-to-capability mapping (samlService,
+ * ssoService).
+ */
+
+const mockPrisma = {
+    ssoDomain: { findFirst: jest.fn() },
+    user: { findFirst: jest.fn(), update: jest.fn() },
+    workspaceMembership: { upsert: jest.fn() },
+};
+jest.mock('../src/index', () => ({ prisma: mockPrisma }));
+jest.mock('../src/services/googleOAuthService', () => ({
+    validateState: jest.fn().mockResolvedValue({ plan: null }),
+    exchangeCodeForTokens: jest.fn().mockResolvedValue({ access_token: 'at', expiry_date: null }),
+    getUserInfo: jest.fn().mockResolvedValue({ id: 'g-1', email: 'sam@acme.com', name: 'Sam', hd: 'acme.com' }),
+    isWorkspaceAccount: jest.fn().mockReturnValue(true),
+}));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { SignedXml } from 'xml-crypto';
+import {
+    NS,
+    validateResponse,
+    buildAuthnRequest,
+    redirectBindingUrl,
+    parseIdpMetadata,
+    SamlError,
+} from '../src/services/samlService';
+import { mapGroupsToCapabilities, parseGroupMappings, normalizeDomain, ssoLoginBlock, provisionUser } from '../src/services/ssoService';
+import { handleGoogleCallback } from '../src/controllers/googleAuthController';
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const PUBLIC_PEM = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+const PRIVATE_PEM = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+const IDP = 'https://idp.acme.com/saml';
+const SP = 'https://api.superkabe.com/api/auth/sso/conn-1/metadata';
+const ACS = 'https://api.superkabe.com/api/auth/sso/conn-1/acs';
+const REQUEST_ID = '_req123';
+const EXC_C14N = 'http://www.w3.org/2001/10/xml-exc-c14n#';
+
+const at = (offsetMs: number) => new Date(Date.now() + offsetMs).toISOString();
+
+interface AssertionOptions {
+    /** Namespace prefix the IdP uses for the assertion ('' = default namespace, as Entra ID does). */
+    prefix?: string;
+    nameId?: string;
+    nameIdFormat?: string;
+    attributes?: Record<string, string[]>;
+    /** Okta types every AttributeValue as xs:string. */
+    typedValues?: boolean;
+    audience?: string;
+    notOnOrAfter?: string;
+}
+
+function assertionXml(opts: AssertionOptions = {}): string {
+    const p = opts.prefix ?? 'saml';
+    const t = (name: string) => (p ? `${p}:${name}` : name);
+    const xmlns = p ? `xmlns:${p}="${NS.ASSERTION}"` : `xmlns="${NS.ASSERTION}"`;
+    const typed = opts.typedValues
+        ? ' xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"'
+        : '';
+    const valueType = opts.typedValues ? ' xsi:type="xs:string"' : '';
+    const expires = opts.notOnOrAfter ?? at(5 * 60_000);
+    const attributes = Object.entries(opts.attributes ?? {
+        displayName: ['Sam Lee'],
+        groups: ['Campaign Managers', 'Everyone'],
+    });
+
+    return `<${t('Assertion')} ${xmlns}${typed} ID="_a1" Version="2.0" IssueInstant="${at(-30_000)}">`
+        + `<${t('Issuer')}>${IDP}</${t('Issuer')}>`
+        + `<${t('Subject')}><${t('NameID')} Format="${opts.nameIdFormat ?? 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress'}">`
+        + `${opts.nameId ?? 'Sam@Acme.com'}</${t('NameID')}>`
+        + `<${t('SubjectConfirmation')} Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">`
+        + `<${t('SubjectConfirmationData')} InResponseTo="${REQUEST_ID}" NotOnOrAfter="${expires}" Recipient="${ACS}"/>`
+        + `</${t('SubjectConfirmation')}></${t('Subject')}>`
+        + `<${t('Conditions')} NotBefore="${at(-60_000)}" NotOnOrAfter="${expires}">`
+        + `<${t('AudienceRestriction')}><${t('Audience')}>${opts.audience ?? SP}</${t('Audience')}></${t('AudienceRestriction')}>`
+        + `</${t('Conditions')}>`
+        + `<${t('AuthnStatement')} AuthnInstant="${at(-30_000)}" SessionIndex="_s1"><${t('AuthnContext')}>`
+        + `<${t('AuthnContextClassRef')}>urn:oasis:names:tc:SAML:2.0:ac:classes:PasswordProtectedTransport</${t('AuthnContextClassRef')}>`
+        + `</${t('AuthnContext')}></${t('AuthnStatement')}>`
+        + (attributes.length
+            ? `<${t('AttributeStatement')}>`
+                + attributes.map(([name, values]) => `<${t('Attribute')} Name="${name}">`
+                    + values.map(v => `<${t('AttributeValue')}${valueType}>${v}</${t('AttributeValue')}>`).join('')
+                    + `</${t('Attribute')}>`).join('')
+                + `</${t('AttributeStatement')}>`
+            : '')
+        + `</${t('Assertion')}>`;
+}
+
+function responseXml(assertion: string, opts: { protocolPrefix?: string; assertionPrefix?: string; inResponseTo?: string } = {}): string {
+    const p = opts.protocolPrefix ?? 'samlp';
+    const a = opts.assertionPrefix ?? 'saml';
+    const issuer = a
+        ? `<${a}:Issuer xmlns:${a}="${NS.ASSERTION}">${IDP}</${a}:Issuer>`
+        : `<Issuer xmlns="${NS.ASSERTION}">${IDP}</Issuer>`;
+    return `<${p}:Response xmlns:${p}="${NS.PROTOCOL}" ID="_r1" Version="2.0"`
+        + ` IssueInstant="${at(-30_000)}" Destination="${ACS}" InResponseTo="${opts.inResponseTo ?? REQUEST_ID}">`
+        + issuer
+        + `<${p}:Status><${p}:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></${p}:Status>`
+        + assertion
+        + `</${p}:Response>`;
+}
+
+/** Sign the document element the way an IdP does: enveloped, exc-c14n, RSA-SHA256, right after the Issuer. */
+function sign(xml: string, key = PRIVATE_PEM): string {
+    const signer = new SignedXml({
+        privateKey: key,
+        canonicalizationAlgorithm: EXC_C14N,
+        signatureAlgorithm: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+    });
+    signer.addReference({
+        xpath: '/*',
+        transforms: ['http://www.w3.org/2000/09/xmldsig#enveloped-signature', EXC_C14N],
+        digestAlgorithm: 'http://www.w3.org/2001/04/xmlenc#sha256',
+    });
+    signer.computeSignature(xml, { prefix: 'ds', location: { reference: "/*/*[local-name(.)='Issuer']", action: 'after' } });
+    return signer.getSignedXml();
+}
+
+const signatureOf = (signed: string) => signed.match(/<ds:Signature[\s\S]*<\/ds:Signature>/)![0];
+
+const b64 = (xml: string) => Buffer.from(xml).toString('base64');
+const options = { idpEntityId: IDP, certificates: [PUBLIC_PEM], spEntityId: SP, acsUrl: ACS, requestId: REQUEST_ID };
+
+describe('SAML response validation', () => {
+    it('accepts a correctly signed assertion and extracts email, name and groups', async () => {
+        const identity = await validateResponse(b64(responseXml(sign(assertionXml()))), options);
+        expect(identity.email).toBe('sam@acme.com');
+        expect(identity.name).toBe('Sam Lee');
+        expect(identity.groups).toEqual(['Campaign Managers', 'Everyone']);
+    });
+
+    it('accepts a signature over the whole Response', async () => {
+        const signed = sign(responseXml(assertionXml()));
+        expect((await validateResponse(b64(signed), options)).email).toBe('sam@acme.com');
+        await expect(validateResponse(b64(signed.replace('Sam@Acme.com', 'owner@acme.com')), options))
+            .rejects.toThrow('Invalid signature');
+    });
+
+    it('rejects an assertion edited after signing', async () => {
+        const tampered = sign(assertionXml()).replace('Sam@Acme.com', 'owner@acme.com');
+        await expect(validateResponse(b64(responseXml(tampered)), options)).rejects.toThrow('Invalid signature');
+    });
+
+    it('rejects a signature from a key we do not trust', async () => {
+        const other = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+        await expect(validateResponse(b64(responseXml(sign(assertionXml(), other))), options)).rejects.toThrow('Invalid signature');
+    });
+
+    it('rejects unsigned responses', async () => {
+        await expect(validateResponse(b64(responseXml(assertionXml())), options)).rejects.toThrow('not signed');
+    });
+
+    it('rejects another audience, another request and expired assertions', async () => {
+        const forOtherSp = responseXml(sign(assertionXml({ audience: 'https://other.example/sp' })));
+        await expect(validateResponse(b64(forOtherSp), options)).rejects.toThrow('audience mismatch');
+
+        const unsolicited = responseXml(sign(assertionXml()), { inResponseTo: '_someone_else' });
+        await expect(validateResponse(b64(unsolicited), options)).rejects.toThrow('not for our AuthnRequest');
+
+        const expired = responseXml(sign(assertionXml({ notOnOrAfter: at(-10 * 60_000) })));
+        await expect(validateResponse(b64(expired), options)).rejects.toThrow(SamlError);
+    });
+
+    it('refuses DTDs and entity declarations', async () => {
+        const xxe = `<!DOCTYPE r [<!ENTITY x SYSTEM "file:///etc/passwd">]>${responseXml(sign(assertionXml()))}`;
+        await expect(validateResponse(b64(xxe), options)).rejects.toThrow('DOCTYPE');
+    });
+});
+
+describe('SAML signature wrapping', () => {
+    const forged = () => assertionXml({ nameId: 'owner@acme.com' });
+
+    it('rejects a second, unsigned assertion smuggled next to the signed one', async () => {
+        const xml = responseXml(sign(assertionXml()) + forged().replace('ID="_a1"', 'ID="_a2"'));
+        await expect(validateResponse(b64(xml), options)).rejects.toThrow('multiple assertions');
+    });
+
+    it('rejects a forged assertion carrying the signature while the signed original hides in Extensions', async () => {
+        const original = sign(assertionXml());
+        const wrapped = forged().replace('</saml:Issuer>', `</saml:Issuer>${signatureOf(original)}`);
+        const xml = responseXml(`<samlp:Extensions>${original}</samlp:Extensions>${wrapped}`);
+        await expect(validateResponse(b64(xml), options)).rejects.toThrow('Invalid signature');
+    });
+
+    it('rejects a forged assertion whose signature carries the signed original in a ds:Object', async () => {
+        const original = sign(assertionXml());
+        const signature = signatureOf(original).replace('</ds:Signature>', `<ds:Object>${original}</ds:Object></ds:Signature>`);
+        const xml = responseXml(forged().replace('</saml:Issuer>', `</saml:Issuer>${signature}`));
+        await expect(validateResponse(b64(xml), options)).rejects.toThrow('Invalid signature');
+    });
+
+    it('rejects a signed Response tucked inside an unsigned one', async () => {
+        const signed = sign(responseXml(assertionXml()));
+        const xml = responseXml(`<samlp:Extensions>${signed}</samlp:Extensions>${forged()}`);
+        await expect(validateResponse(b64(xml), options)).rejects.toThrow(SamlError);
+    });
+});
+
+describe('SAML comment injection', () => {
+    // The attacker owns sam@acme.com.evil.com at the IdP and splits the signed
+    // value with a comment; exclusive c14n drops comments, so the signature
+    // still verifies. Reading only the first text node would log them in as
+    // sam@acme.com.
+    it('reads the NameID as signed, not up to the comment', async () => {
+        const signed = sign(assertionXml({ nameId: 'sam@acme.com.evil.com' }))
+            .replace('sam@acme.com.evil.com', 'sam@acme.com<!---->.evil.com');
+        const identity = await validateResponse(b64(responseXml(signed)), options);
+        expect(identity.nameId).toBe('sam@acme.com.evil.com');
+        expect(identity.email).toBe('sam@acme.com.evil.com');
+    });
+
+    it('reads attribute values as signed, not up to the comment', async () => {
+        const signed = sign(assertionXml({
+            nameId: 'a1b2c3',
+            nameIdFormat: 'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent',
+            attributes: { email: ['sam@acme.com.evil.com'] },
+        })).replace('sam@acme.com.evil.com', 'sam@acme.com<!-- -->.evil.com');
+        expect((await validateResponse(b64(responseXml(signed)), options)).email).toBe('sam@acme.com.evil.com');
+    });
+});
+
+// Fixtures follow each IdP's documented response layout (prefixes, which
+// element is signed, attribute naming), re-signed with the test key.
+describe('responses shaped like the major IdPs send them', () => {
+    it('Okta: saml2 prefixes, Response and Assertion both signed, xs:string attribute values', async () => {
+        const assertion = sign(assertionXml({
+            prefix: 'saml2',
+            nameId: 'sam@acme.com',
+            nameIdFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified',
+            typedValues: true,
+            attributes: { email: ['sam@acme.com'], firstName: ['Sam'], groups: ['Campaign Managers'] },
+        }));
+        const xml = sign(responseXml(assertion, { protocolPrefix: 'saml2p', assertionPrefix: 'saml2' }));
+        const identity = await validateResponse(b64(xml), options);
+        expect(identity).toMatchObject({ email: 'sam@acme.com', groups: ['Campaign Managers'] });
+    });
+
+    it('Entra ID: default namespace, only the Assertion signed, claim-URI attributes and group object IDs', async () => {
+        const assertion = sign(assertionXml({
+            prefix: '',
+            nameId: 'Xk2oQ9lq8v1m0BsR3c',
+            nameIdFormat: 'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent',
+            attributes: {
+                'http://schemas.microsoft.com/identity/claims/tenantid': ['7f3c0a1e-0000-4000-8000-000000000001'],
+                'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress': ['Sam@Acme.com'],
+                'http://schemas.microsoft.com/identity/claims/displayname': ['Sam Lee'],
+                'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups': ['4e5c2b1a-0000-4000-8000-0000000000aa'],
+            },
+        }));
+        const xml = responseXml(assertion, { assertionPrefix: '' });
+        const identity = await validateResponse(b64(xml), {
+            ...options,
+            groupsAttribute: 'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups',
+        });
+        expect(identity).toMatchObject({
+            nameId: 'Xk2oQ9lq8v1m0BsR3c',
+            email: 'sam@acme.com',
+            name: 'Sam Lee',
+            groups: ['4e5c2b1a-0000-4000-8000-0000000000aa'],
+        });
+    });
+
+    it('Google Workspace: saml2 prefixes, only the Response signed, email NameID and no attributes', async () => {
+        const assertion = assertionXml({ prefix: 'saml2', nameId: 'sam@acme.com', attributes: {} });
+        const xml = sign(responseXml(assertion, { protocolPrefix: 'saml2p', assertionPrefix: 'saml2' }));
+        const identity = await validateResponse(b64(xml), options);
+        expect(identity).toMatchObject({ email: 'sam@acme.com', name: null, groups: [] });
+    });
+});
+
+describe('AuthnRequest and metadata', () => {
+    it('deflates the request onto the redirect URL with the relay state', () => {
+        const xml = buildAuthnRequest({ id: '_abc', spEntityId: SP, acsUrl: ACS, destination: 'https://idp.acme.com/sso' });
+        const url = new URL(redirectBindingUrl('https://idp.acme.com/sso?tenant=1', xml, 'state-1'));
+        expect(url.searchParams.get('tenant')).toBe('1');
+        expect(url.searchParams.get('RelayState')).toBe('state-1');
+        const inflated = zlib.inflateRawSync(Buffer.from(url.searchParams.get('SAMLRequest')!, 'base64')).toString();
+        expect(inflated).toBe(xml);
+        expect(inflated).toContain(`AssertionConsumerServiceURL="${ACS}"`);
+    });
+
+    it('rejects IdP metadata without a signing certificate', () => {
+        const metadata = `<md:EntityDescriptor xmlns:md="${NS.METADATA}" entityID="${IDP}"><md:IDPSSODescriptor>`
+            + `<md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect" Location="https://idp.acme.com/sso"/>`
+            + `</md:IDPSSODescriptor></md:EntityDescriptor>`;
+        expect(() => parseIdpMetadata(metadata)).toThrow('no signing certificate');
+        expect(() => parseIdpMetadata(`<!DOCTYPE md [<!ENTITY x "y">]>${metadata}`)).toThrow('DOCTYPE');
+    });
+});
+
+
+describe('group mapping', () => {
+    const mappings = parseGroupMappings([
+        { group: 'Campaign Managers', capabilities: ['create_campaigns', 'launch_pause_campaigns'] },
+        { group: 'Mailbox Admins', capabilities: ['connect_mailboxes'] },
+    ]);
+
+    it('adds mapped capabilities to the defaults, matching groups case-insensitively', () => {
+        expect(mapGroupsToCapabilities(['campaign managers'], mappings, ['view_campaigns']))
+            .toEqual(['view_campaigns', 'launch_pause_campaigns', 'create_campaigns']);
+        expect(mapGroupsToCapabilities([], mappings, ['view_campaigns'])).toEqual(['view_campaigns']);
+    });
+
+    it('only accepts known capability keys', () => {
+        expect(() => parseGroupMappings([{ group: 'Admins', capabilities: ['*'] }])).toThrow('Unknown capabilities');
+        expect(() => parseGroupMappings([{ capabilities: [] }])).toThrow('group is required');
+    });
+
+    it('normalizes claimed domains', () => {
+        expect(normalizeDomain(' @Acme.COM. ')).toBe('acme.com');
+        expect(normalizeDomain('not a domain')).toBeNull();
+    });
+
+    it('clears a custom role when sign-in rewrites the membership capabilities', async () => {
+        mockPrisma.user.findFirst
+            .mockResolvedValueOnce(null)
+            .mockResolvedValueOnce({ id: 'user-1', name: 'Sam', workspaceMemberships: [{ id: 'm-1', status: 'active', scim_managed: false }] });
+        const connection = {
+            account_id: 'acct-1',
+            default_organization_id: 'org-1',
+            domains: [{ domain: 'acme.com', verified_at: new Date() }],
+            group_mappings: [],
+            default_capabilities: ['view_campaigns'],
+        };
+        await provisionUser(connection as any, { email: 'sam@acme.com', name: 'Sam', groups: [] });
+
+        expect(mockPrisma.workspaceMembership.upsert).toHaveBeenCalledWith(expect.objectContaining({
+            update: { capabilities: ['view_campaigns'], status: 'active', role_id: null },
+        }));
+    });
+});
+
+describe('enforced SSO on non-IdP sign-in', () => {
+    const enforced = { connection: { id: 'conn-1', protocol: 'oidc', enforce_sso: true } };
+
+    beforeEach(() => jest.clearAllMocks());
+
+    it('blocks members of an enforced domain but not the agency owner', async () => {
+        mockPrisma.ssoDomain.findFirst.mockResolvedValue(enforced);
+        expect(await ssoLoginBlock({ email: 'sam@acme.com' })).toMatchObject({
+            code: 'sso_required',
+            sso_url: expect.stringMatching(/\/api\/auth\/sso\/conn-1\/start$/),
+        });
+        expect(await ssoLoginBlock({ email: 'owner@acme.com', is_agency_owner: true })).toBeNull();
+
+        mockPrisma.ssoDomain.findFirst.mockResolvedValue({ connection: { ...enforced.connection, enforce_sso: false } });
+        expect(await ssoLoginBlock({ email: 'sam@acme.com' })).toBeNull();
+    });
+
+    it('sends a Google sign-in on an enforced domain to the IdP before any session or 2FA challenge', async () => {
+        mockPrisma.ssoDomain.findFirst.mockResolvedValue(enforced);
+        mockPrisma.user.findFirst.mockResolvedValue({
+            id: 'user-1', email: 'sam@acme.com', is_agency_owner: false, totp_enabled_at: new Date(), organization: {},
+        });
+        const res: any = { redirect: jest.fn(), cookie: jest.fn() };
+        await handleGoogleCallback({ query: { code: 'c', state: 's' } } as any, res);
+
+        expect(res.redirect).toHaveBeenCalledWith(expect.stringMatching(/\/api\/auth\/sso\/conn-1\/start$/));
+        expect(mockPrisma.user.update).not.toHaveBeenCalled();
+        expect(res.cookie).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * Org-wide suppression list: value parsing, email / domain / pattern
+ * matching with precedence and expiry, and CSV import parsing
+ * (suppressionService).
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import {
+    parseSuppressionValue,
+    domainCandidates,
+    matchSuppressions,
+    matchesPattern,
+    parseSuppressionCsv,
+    MatchableEntry,
+} from '../src/services/suppressionService';
+
+describe('parseSuppressionValue', () => {
+    it('infers the type from the value', () => {
+        expect(parseSuppressionValue(' Jane@Acme.com ')).toEqual({ type: 'email', value: 'jane@acme.com' });
+        expect(parseSuppressionValue('@Competitor.com')).toEqual({ type: 'domain', value: 'competitor.com' });
+        expect(parseSuppressionValue('competitor.com')).toEqual({ type: 'domain', value: 'competitor.com' });
+        expect(parseSuppressionValue('*@competitor.*')).toEqual({ type: 'pattern', value: '*@competitor.*' });
+    });
+
+    it('rejects malformed values and catch-all patterns', () => {
+        expect(parseSuppressionValue('')).toHaveProperty('error');
+        expect(parseSuppressionValue('not an email', 'email')).toHaveProperty('error');
+        expect(parseSuppressionValue('nodot', 'domain')).toHaveProperty('error');
+        expect(parseSuppressionValue('*@*')).toHaveProperty('error');
+        expect(parseSuppressionValue('a@b.com', 'phone')).toHaveProperty('error');
+    });
+
+    it('collapses repeated stars and caps wildcards', () => {
+        expect(parseSuppressionValue('**@**.competitor.com')).toEqual({ type: 'pattern', value: '*@*.competitor.com' });
+        expect(parseSuppressionValue('*a*a*a*@x.com')).toHaveProperty('error');
+    });
+});
+
+describe('matchesPattern', () => {
+    it('matches * and ? over the whole address', () => {
+        expect(matchesPattern('*@competitor.com', 'Jane@Competitor.com')).toBe(true);
+        expect(matchesPattern('*@competitor.com', 'jane@competitor.com.evil.io')).toBe(false);
+        expect(matchesPattern('sales?@*.org', 'sales1@x.y.org')).toBe(true);
+        expect(matchesPattern('sales?@*.org', 'sales@x.org')).toBe(false);
+        expect(matchesPattern('a*b*c@x.com', 'aXbYbZc@x.com')).toBe(true);
+        expect(matchesPattern('a.b@x.com', 'aXb@x.com')).toBe(false);
+    });
+
+    it('stays fast on backtracking-heavy patterns stored before the cap', () => {
+        const started = Date.now();
+        expect(matchesPattern('*a*a*a*a*a*a*a*a*a*a*a*@x.com', `${'a'.repeat(35)}@y.com`)).toBe(false);
+        expect(Date.now() - started).toBeLessThan(100);
+    });
+});
+
+describe('domainCandidates', () => {
+    it('walks parent domains down to two labels', () => {
+        expect(domainCandidates('a@mail.eu.acme.com')).toEqual(['mail.eu.acme.com', 'eu.acme.com', 'acme.com']);
+        expect(domainCandidates('broken')).toEqual([]);
+    });
+});
+
+describe('matchSuppressions', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    const entry = (id: string, type: string, value: string, expires_at: Date | null = null): MatchableEntry =>
+        ({ id, type, value, reason: null, source: 'manual', expires_at });
+
+    const entries = [
+        entry('p1', 'pattern', '*@competitor.com'),
+        entry('d1', 'domain', 'competitor.com'),
+        entry('e1', 'email', 'ceo@competitor.com'),
+        entry('d2', 'domain', 'acme.io'),
+        entry('p2', 'pattern', 'sales?@*.org'),
+        entry('x1', 'email', 'paused@lead.com', new Date('2026-10-01T00:00:00Z')),
+        entry('x2', 'email', 'later@lead.com', new Date('2026-11-01T00:00:00Z')),
+    ];
+
+    it('prefers email over domain over pattern', () => {
+        const hits = matchSuppressions(['CEO@competitor.com', 'cto@competitor.com', 'x@eu.acme.io', 'sales1@foo.org'], entries, now);
+        expect(hits.get('ceo@competitor.com')?.id).toBe('e1');
+        expect(hits.get('cto@competitor.com')?.id).toBe('d1');
+        expect(hits.get('x@eu.acme.io')?.id).toBe('d2');
+        expect(hits.get('sales1@foo.org')?.id).toBe('p2');
+    });
+
+    it('ignores expired entries and leaves everything else alone', () => {
+        const hits = matchSuppressions(['paused@lead.com', 'later@lead.com', 'sales12@foo.org', 'a@acme.com'], entries, now);
+        expect(hits.has('paused@lead.com')).toBe(false);
+        expect(hits.get('later@lead.com')?.id).toBe('x2');
+        expect(hits.has('sales12@foo.org')).toBe(false);
+        expect(hits.has('a@acme.com')).toBe(false);
+    });
+});
+
+describe('parseSuppressionCsv', () => {
+    it('reads a headerless single-column file', () => {
+        const { rows, invalid } = parseSuppressionCsv('a@x.com\n\nx.org\n');
+        expect(invalid).toEqual([]);
+        expect(rows.map(r => [r.line, r.value, r.type])).toEqual([[1, 'a@x.com', null], [2, 'x.org', null]]);
+    });
+
+    it('honours header columns for type, reason and expiry', () => {
+        const csv = 'Domain,Reason,expires_at\ncompetitor.com,competitor,\nacme.io,,2027-01-01\nbad.io,,someday\n';
+        const { rows, invalid } = parseSuppressionCsv(csv);
+        expect(rows).toHaveLength(2);
+        expect(rows[0]).toMatchObject({ line: 2, value: 'competitor.com', type: 'domain', reason: 'competitor', expiresAt: null });
+        expect(rows[1].expiresAt?.toISOString()).toBe('2027-01-01T00:00:00.000Z');
+        expect(invalid).toEqual([{ line: 4, value: 'bad.io', error: 'Unreadable expires_at "someday"' }]);
+    });
+});
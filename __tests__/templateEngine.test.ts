@@ -0,0 +1,105 @@
+/**
+ * Freezes the sequence template language: default fallbacks, conditionals,
+ * case filters, timezone-aware dates, and - the reason the engine exists -
+ * that every blank token is REPORTED instead of silently rendering ''.
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+
+import { renderTemplate, validateTemplate, formatDate } from '../src/utils/templateEngine';
+import { buildLeadVariables } from '../src/services/personalizationService';
+
+const vars = { first_name: 'ada', company: 'Acme', title: 'CEO', industry: '' };
+
+describe('renderTemplate', () => {
+    it('substitutes plain tokens case-insensitively and tolerates inner spaces', () => {
+        const r = renderTemplate('Hi {{First_Name}} at {{ company }}', vars);
+        expect(r.output).toBe('Hi ada at Acme');
+        expect(r.unresolved).toEqual([]);
+        expect(r.issues).toEqual([]);
+    });
+
+    it('reports missing and blank tokens instead of hiding them', () => {
+        const r = renderTemplate('Hi {{last_name}}, in {{industry}}', vars);
+        expect(r.output).toBe('Hi , in ');
+        expect(r.unresolved.sort()).toEqual(['industry', 'last_name']);
+    });
+
+    it('default filter fills blanks and clears the unresolved report', () => {
+        const r = renderTemplate('Hi {{last_name | default: "there"}}', vars);
+        expect(r.output).toBe('Hi there');
+        expect(r.unresolved).toEqual([]);
+    });
+
+    it('keeps a pipe inside a quoted filter argument', () => {
+        expect(renderTemplate('{{missing | default: "a|b"}}', vars).output).toBe('a|b');
+    });
+
+    it('applies case filters in order', () => {
+        expect(renderTemplate('{{first_name | capitalize}}', vars).output).toBe('Ada');
+        expect(renderTemplate('{{company | upcase}}', vars).output).toBe('ACME');
+        expect(renderTemplate('{{company | downcase}}', vars).output).toBe('acme');
+        expect(renderTemplate('{{x | default: "hello world" | titlecase}}', vars).output).toBe('Hello World');
+    });
+
+    it('resolves the custom. namespace against the same variables', () => {
+        expect(renderTemplate('{{custom.company}}', vars).output).toBe('Acme');
+    });
+
+    it('evaluates if / elsif / else and skips tokens in untaken branches', () => {
+        const tpl = '{% if industry %}In {{industry}}{% elsif company %}At {{company}}{% else %}Hello{% endif %}';
+        const r = renderTemplate(tpl, vars);
+        expect(r.output).toBe('At Acme');
+        expect(r.unresolved).toEqual([]);
+        expect(renderTemplate(tpl, {}).output).toBe('Hello');
+    });
+
+    it('supports not / == / != conditions', () => {
+        expect(renderTemplate('{% if not industry %}x{% endif %}', vars).output).toBe('x');
+        expect(renderTemplate('{% if title == "ceo" %}boss{% endif %}', vars).output).toBe('boss');
+        expect(renderTemplate('{% if title != "CEO" %}no{% else %}yes{% endif %}', vars).output).toBe('yes');
+    });
+
+    it('formats dates in the given timezone', () => {
+        const now = new Date('2026-07-04T23:30:00Z');
+        expect(renderTemplate('{{today | date: "EEEE"}}', {}, { now, timezone: 'UTC' }).output).toBe('Saturday');
+        expect(renderTemplate('{{today | date: "EEEE"}}', {}, { now, timezone: 'Asia/Tokyo' }).output).toBe('Sunday');
+        expect(formatDate(now, 'iso', 'America/New_York')).toBe('2026-07-04');
+        expect(formatDate(now, 'MMMM d, yyyy', 'Not/AZone')).toBe('July 4, 2026');
+    });
+
+    it('leaves single-brace spintax untouched for the next pipeline stage', () => {
+        expect(renderTemplate('{Hi|Hey} {{first_name}}', vars).output).toBe('{Hi|Hey} ada');
+    });
+});
+
+describe('validateTemplate', () => {
+    it('accepts well-formed templates', () => {
+        expect(validateTemplate('{% if a %}{{a | default: "x"}}{% endif %}')).toEqual([]);
+    });
+
+    it('flags unclosed and stray block tags', () => {
+        expect(validateTemplate('{% if a %}open').map(i => i.code)).toEqual(['unclosed_tag']);
+        expect(validateTemplate('text{% endif %}').map(i => i.code)).toEqual(['unexpected_tag']);
+        expect(validateTemplate('{% for x in y %}').map(i => i.code)).toEqual(['unknown_tag']);
+    });
+
+    it('flags unknown filters and unquoted arguments', () => {
+        expect(validateTemplate('{{a | shout}}').map(i => i.code)).toEqual(['unknown_filter']);
+        expect(validateTemplate('{{a | default: there}}').map(i => i.code)).toEqual(['bad_expression']);
+    });
+});
+
+describe('buildLeadVariables', () => {
+    const lead = { first_name: 'Ada', last_name: null, company: 'Acme', title: null, custom_variables: null };
+
+    it('fills website from a company email domain', () => {
+        expect(buildLeadVariables({ ...lead, email: 'ada@acme.io' }).website).toBe('acme.io');
+        expect(renderTemplate('{{website}}', buildLeadVariables({ ...lead, email: 'ada@acme.io' })).unresolved).toEqual([]);
+    });
+
+    it('leaves website blank for free mail, and lets a custom variable override it', () => {
+        expect(buildLeadVariables({ ...lead, email: 'ada@gmail.com' }).website).toBe('');
+        expect(buildLeadVariables({ ...lead, email: 'ada@acme.io', custom_variables: { Website: 'acme.com' } }).website).toBe('acme.com');
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * Recipient-timezone sending: inference (utils/timezoneInference) and the
+ * per-zone window helpers (utils/sendWindow).
+ */
+
+import { inferLeadTimezone, emailCountryCode, isValidTimezone } from '../src/utils/timezoneInference';
+import { isWithinSendingWindow, nextWindowOpening, resolveLeadTimezone } from '../src/utils/sendWindow';
+
+const campaign = {
+    schedule_timezone: 'America/New_York',
+    schedule_start_time: '09:00',
+    schedule_end_time: '17:00',
+    schedule_days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+};
+
+describe('inferLeadTimezone', () => {
+    it('prefers an explicit timezone custom variable', () => {
+        expect(inferLeadTimezone({ email: 'a@x.de', custom_variables: { timezone: 'Asia/Tokyo', country: 'Germany' } }))
+            .toEqual({ timezone: 'Asia/Tokyo', source: 'custom_variable' });
+    });
+
+    it('ignores an invalid explicit zone and falls through', () => {
+        expect(inferLeadTimezone({ email: 'a@x.de', custom_variables: { timezone: 'Mars/Olympus' } }))
+            .toEqual({ timezone: 'Europe/Berlin', source: 'email_tld' });
+    });
+
+    it('uses city before region before country', () => {
+        expect(inferLeadTimezone({ email: 'a@x.com', custom_variables: { city: 'Denver', country: 'US' } })?.source).toBe('city');
+        expect(inferLeadTimezone({ email: 'a@x.com', custom_variables: { state: 'CA', country: 'US' } }))
+            .toEqual({ timezone: 'America/Los_Angeles', source: 'region' });
+        expect(inferLeadTimezone({ email: 'a@x.com', custom_variables: { country: 'France' } }))
+            .toEqual({ timezone: 'Europe/Paris', source: 'country' });
+    });
+
+    it('reads ccTLDs but not generic TLDs', () => {
+        expect(emailCountryCode('a@firm.co.uk')).toBe('gb');
+        expect(emailCountryCode('a@firm.io')).toBeNull();
+        expect(inferLeadTimezone({ email: 'a@firm.com' })).toBeNull();
+    });
+
+    it('validates IANA names', () => {
+        expect(isValidTimezone('Europe/London')).toBe(true);
+        expect(isValidTimezone('Not/AZone')).toBe(false);
+    });
+});
+
+describe('send window in recipient zone', () => {
+    // Monday 2026-10-19 14:00 UTC = 10:00 New York, 23:00 Tokyo.
+    const now = new Date('2026-10-19T14:00:00Z');
+
+    it('evaluates the window in the given zone', () => {
+        expect(isWithinSendingWindow(campaign, { now })).toBe(true);
+        expect(isWithinSendingWindow(campaign, { timezone: 'Asia/Tokyo', now })).toBe(false);
+    });
+
+    it('finds the next local opening', () => {
+        // Tokyo opens Tuesday 09:00 JST = Tuesday 00:00 UTC.
+        expect(nextWindowOpening(campaign, 'Asia/Tokyo', now)?.toISOString()).toBe('2026-10-20T00:00:00.000Z');
+        expect(nextWindowOpening(campaign, 'America/New_York', now)).toBe(now);
+        expect(nextWindowOpening({ ...campaign, schedule_days: ['xyz'] }, 'UTC', now)).toBeNull();
+    });
+
+    it('resolves lead zone, then fallback, then campaign zone', () => {
+        const rc = { ...campaign, send_in_recipient_timezone: true, recipient_fallback_timezone: 'Europe/London' };
+        expect(resolveLeadTimezone(rc, { timezone: 'Asia/Tokyo' })).toBe('Asia/Tokyo');
+        expect(resolveLeadTimezone(rc, { timezone: null })).toBe('Europe/London');
+        expect(resolveLeadTimezone({ ...rc, send_in_recipient_timezone: false }, { timezone: 'Asia/Tokyo' })).toBe('America/New_York');
+    });
+});
@@ -0,0 +1,183 @@
+/**
+ * TOTP two-factor primitives (RFC 6238 vectors, drift and replay), recovery
+ * code hashing and the purpose-bound challenge tokens (twoFactorService).
+ */
+
+const mockPrisma = {
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    organization: { findUnique: jest.fn() },
+    $executeRaw: jest.fn(),
+};
+jest.mock('../src/index', () => ({ prisma: mockPrisma }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../src/services/securityAuditLog', () => ({
+    ...jest.requireActual('../src/services/securityAuditLog'),
+    recordSecurityEvent: jest.fn(),
+}));
+
+import {
+    base32Encode,
+    base32Decode,
+    totpCode,
+    timeStep,
+    verifyTotp,
+    otpauthUrl,
+    generateRecoveryCodes,
+    hashRecoveryCode,
+    issueLoginChallenge,
+    verifyLoginChallenge,
+    issueStepUpToken,
+    verifyStepUpToken,
+    verifySecondFactor,
+} from '../src/services/twoFactorService';
+import { stepUp } from '../src/controllers/twoFactorController';
+import { enforceTwoFactorPolicy } from '../src/middleware/twoFactor';
+
+// RFC 6238 Appendix B SHA-1 seed: ASCII "12345678901234567890".
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+    it('round-trips base32', () => {
+        expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+        expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+    });
+
+    it('matches the RFC 6238 SHA-1 test vectors (last 6 digits)', () => {
+        expect(totpCode(RFC_SECRET, timeStep(new Date(59 * 1000)))).toBe('287082');
+        expect(totpCode(RFC_SECRET, timeStep(new Date(1111111109 * 1000)))).toBe('081804');
+        expect(totpCode(RFC_SECRET, timeStep(new Date(1234567890 * 1000)))).toBe('005924');
+        expect(totpCode(RFC_SECRET, timeStep(new Date(2000000000 * 1000)))).toBe('279037');
+    });
+
+    it('accepts one step of drift either way and nothing beyond', () => {
+        const now = new Date(1234567890 * 1000);
+        const step = timeStep(now);
+        expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+        expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+        expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull();
+        expect(verifyTotp(RFC_SECRET, 'abc123', now)).toBeNull();
+    });
+
+    it('refuses a code at or before the last accepted step', () => {
+        const now = new Date(1234567890 * 1000);
+        const step = timeStep(now);
+        const code = totpCode(RFC_SECRET, step);
+        expect(verifyTotp(RFC_SECRET, code, now, step - 1)).toBe(step);
+        expect(verifyTotp(RFC_SECRET, code, now, step)).toBeNull();
+    });
+
+    it('builds an otpauth URI for the QR code', () => {
+        const url = otpauthUrl(RFC_SECRET, 'sam@acme.com');
+        expect(url.startsWith('otpauth://totp/Superkabe%3Asam%40acme.com?')).toBe(true);
+        expect(url).toContain(`secret=${RFC_SECRET}`);
+        expect(url).toContain('issuer=Superkabe');
+    });
+});
+
+describe('recovery codes', () => {
+    it('generates distinct codes and hashes them case- and dash-insensitively', () => {
+        const codes = generateRecoveryCodes();
+        expect(codes).toHaveLength(10);
+        expect(new Set(codes).size).toBe(10);
+        expect(codes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+        expect(hashRecoveryCode('ABCDE-12345')).toBe(hashRecoveryCode('abcde12345'));
+    });
+
+    it('spends a code with an atomic array_remove and refuses it once gone', async () => {
+        const hash = hashRecoveryCode('abcde-12345');
+        mockPrisma.user.findUnique.mockResolvedValue({
+            id: 'user-1', totp_secret: 'enc', totp_enabled_at: new Date(), totp_last_step: null,
+            totp_recovery_codes: [hash, hashRecoveryCode('fffff-00000')],
+        });
+        mockPrisma.$executeRaw.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+        expect(await verifySecondFactor('user-1', { recoveryCode: 'ABCDE-12345' })).toBe('recovery_code');
+        const [sql, ...params] = mockPrisma.$executeRaw.mock.calls[0];
+        expect(sql.join('?')).toContain('array_remove(totp_recovery_codes');
+        expect(params).toEqual([hash, 'user-1', hash]);
+        expect(mockPrisma.user.update).not.toHaveBeenCalled();
+
+        // A concurrent request already removed it: no row matched.
+        expect(await verifySecondFactor('user-1', { recoveryCode: 'ABCDE-12345' })).toBeNull();
+    });
+});
+
+describe('step-up lockout', () => {
+    function call(body: unknown) {
+        const req: any = { body, orgContext: { userId: 'user-1', organizationId: 'org-1' }, headers: {}, ip: '127.0.0.1' };
+        const res: any = { statusCode: 200, body: null, status(c: number) { this.statusCode = c; return this; }, json(b: any) { this.body = b; return this; } };
+        return stepUp(req, res).then(() => res);
+    }
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockPrisma.user.update.mockResolvedValue({});
+    });
+
+    it('counts a wrong code and locks after the tenth', async () => {
+        mockPrisma.user.findUnique.mockResolvedValue({
+            id: 'user-1', totp_secret: 'enc', totp_enabled_at: new Date(), totp_last_step: null,
+            totp_recovery_codes: [], failed_login_count: 9, locked_until: null,
+        });
+        const res = await call({ recovery_code: 'wrong-code0' });
+        expect(res.statusCode).toBe(423);
+        expect(mockPrisma.user.update).toHaveBeenCalledWith({
+            where: { id: 'user-1' },
+            data: { failed_login_count: 10, locked_until: expect.any(Date) },
+        });
+    });
+
+    it('refuses any code while locked', async () => {
+        mockPrisma.user.findUnique.mockResolvedValue({
+            id: 'user-1', totp_enabled_at: new Date(), failed_login_count: 10,
+            locked_until: new Date(Date.now() + 60_000),
+        });
+        const res = await call({ code: '123456' });
+        expect(res.statusCode).toBe(423);
+        expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
+        expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+});
+
+describe('require-2FA policy', () => {
+    async function run(organizationId: string) {
+        const req: any = { path: '/leads', method: 'GET', orgContext: { userId: 'user-1', organizationId } };
+        const res: any = { statusCode: 200, body: null, status(c: number) { this.statusCode = c; return this; }, json(b: any) { this.body = b; return this; } };
+        const next = jest.fn();
+        enforceTwoFactorPolicy(req, res, next);
+        await new Promise(resolve => setImmediate(resolve));
+        return { res, next };
+    }
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockPrisma.user.findUnique.mockResolvedValue({ totp_enabled_at: null });
+        mockPrisma.organization.findUnique.mockImplementation(async ({ where }: any) =>
+            ({ require_two_factor: where.id === 'client-ws' }));
+    });
+
+    it('enforces the policy of the workspace in context, not the home org', async () => {
+        const blocked = await run('client-ws');
+        expect(blocked.next).not.toHaveBeenCalled();
+        expect(blocked.res.body.code).toBe('two_factor_enrollment_required');
+        expect(mockPrisma.organization.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'client-ws' } }));
+
+        expect((await run('home-org')).next).toHaveBeenCalled();
+    });
+});
+
+describe('challenge tokens', () => {
+    it('binds a token to its purpose and user', () => {
+        const challenge = issueLoginChallenge('user-1');
+        expect(verifyLoginChallenge(challenge)).toBe('user-1');
+
+        const { token } = issueStepUpToken('user-1');
+        expect(verifyStepUpToken(token, 'user-1')).toBe(true);
+        expect(verifyStepUpToken(token, 'user-2')).toBe(false);
+        expect(verifyLoginChallenge(token)).toBeNull();
+        expect(verifyStepUpToken(challenge, 'user-1')).toBe(false);
+        expect(verifyLoginChallenge('not-a-token')).toBeNull();
+    });
+});
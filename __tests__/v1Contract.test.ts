@@ -0,0 +1,348 @@
+/**
+ * Public API v1 contract: every route in routes/v1.ts is described in the
+ * OpenAPI document with the scope its handler actually enforces, requests
+ * the document calls invalid are refused with 400, and every handler's
+ * success response matches the schema the document publishes.
+ */
+
+const mockPrisma = {
+    lead: {
+        findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn(), count: jest.fn(),
+        updateMany: jest.fn(), groupBy: jest.fn(),
+    },
+    campaign: { findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn() },
+    sequenceStep: { create: jest.fn(), count: jest.fn() },
+    stepVariant: { create: jest.fn() },
+    campaignLead: { create: jest.fn(), count: jest.fn(), groupBy: jest.fn() },
+    sendEvent: { count: jest.fn() },
+    replyEvent: { count: jest.fn() },
+    emailThread: { findFirst: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+    emailMessage: { create: jest.fn() },
+    validationAttempt: { count: jest.fn() },
+    mailbox: { findMany: jest.fn() },
+    domain: { findMany: jest.fn() },
+    organization: { findUnique: jest.fn() },
+};
+jest.mock('../src/index', () => ({ prisma: mockPrisma }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../src/services/SlackAlertService', () => ({
+    SlackAlertService: { sendAlert: jest.fn().mockResolvedValue(undefined) },
+}));
+jest.mock('../src/services/webhookEventBus', () => ({
+    emitCampaignLaunched: jest.fn(),
+    emitCampaignPaused: jest.fn(),
+}));
+jest.mock('../src/services/leadHealthService', () => ({
+    classifyLeadHealth: jest.fn(async (email: string) => ({
+        classification: email.startsWith('bad') ? 'red' : 'green',
+        reasons: [],
+    })),
+}));
+
+import * as v1Controller from '../src/controllers/v1Controller';
+import v1Routes from '../src/routes/v1';
+import { AVAILABLE_SCOPES } from '../src/controllers/apiKeyController';
+import { STEP_TYPES } from '../src/services/sequenceTaskService';
+import { EXPERIMENT_METRICS } from '../src/services/experimentReportService';
+import { V1_OPERATIONS, V1Operation, buildV1OpenApiDocument } from '../src/services/openApiService';
+import { invokeController } from '../src/mcp/invokeController';
+
+const ORG = 'org-1';
+const NOW = new Date('2026-10-01T12:00:00Z');
+const ALL_SCOPES = [...AVAILABLE_SCOPES];
+
+const LEAD_ROW = {
+    id: 'lead-1', organization_id: ORG, email: 'ada@example.com', first_name: 'Ada', last_name: null,
+    company: 'Acme', title: null, phone: null, linkedin_url: null, persona: 'general', lead_score: 50,
+    source: 'api', status: 'active', validation_status: 'valid', validation_score: 92,
+    is_catch_all: false, is_disposable: false, emails_sent: 3, emails_opened: 1, emails_clicked: 0,
+    emails_replied: 1, last_activity_at: NOW, created_at: NOW, updated_at: NOW,
+};
+
+const CAMPAIGN_ROW = {
+    id: 'camp-1', organization_id: ORG, name: 'Q4 outbound', status: 'paused', channel: 'email',
+    daily_limit: 50, schedule_timezone: 'UTC', send_gap_minutes: 17, created_at: NOW, updated_at: NOW,
+};
+
+const STEP_ROWS = [{
+    step_number: 1,
+    optimizer_enabled: true,
+    optimizer_winner_id: null,
+    variants: [
+        { id: 'var-a', variant_label: 'A', weight: 50, sends: 400, opens: 120, machine_opens: 10, clicks: 12, replies: 8 },
+        { id: 'var-b', variant_label: 'B', weight: 50, sends: 400, opens: 140, machine_opens: 12, clicks: 20, replies: 24 },
+    ],
+}];
+
+function seedFixtures() {
+    mockPrisma.lead.findFirst.mockImplementation(async ({ where }: any) =>
+        where.email === 'dupe@example.com' || where.id === 'lead-1' ? LEAD_ROW : null);
+    mockPrisma.lead.create.mockImplementation(async ({ data }: any) => ({ ...LEAD_ROW, ...data, id: `lead-${data.email}` }));
+    mockPrisma.lead.findMany.mockImplementation(async ({ select }: any) => select?.persona
+        ? [Object.fromEntries(Object.keys(select).map(k => [k, (LEAD_ROW as any)[k]]))]
+        : [{ id: 'lead-1', email: 'ada@example.com' }, { id: 'lead-2', email: 'bad@example.com' }]);
+    mockPrisma.lead.count.mockResolvedValue(120);
+    mockPrisma.lead.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.lead.groupBy.mockResolvedValue([
+        { validation_status: 'valid', _count: 90 },
+        { validation_status: 'risky', _count: 30 },
+    ]);
+
+    mockPrisma.campaign.findFirst.mockImplementation(async (args: any) => {
+        if (args.select?.steps) return { steps: STEP_ROWS }; // experimentReportService
+        if (args.include?.steps) {
+            return {
+                ...CAMPAIGN_ROW,
+                steps: [{
+                    id: 'step-1', campaign_id: 'camp-1', step_number: 1, subject: 'Hi', delay_days: 0, delay_hours: 0,
+                    body_html: '<p>Hi</p>', body_text: null,
+                    variants: [{ id: 'var-a', step_id: 'step-1', variant_label: 'A', subject: 'Hi', weight: 50 }],
+                }],
+                leads: [{ id: 'cl-1', email: 'ada@example.com', status: 'active', current_step: 1, last_sent_at: null }],
+                _count: { leads: 1 },
+            };
+        }
+        if (args.where.id === 'camp-active') return { ...CAMPAIGN_ROW, id: 'camp-active', status: 'active' };
+        return CAMPAIGN_ROW;
+    });
+    mockPrisma.campaign.create.mockImplementation(async ({ data }: any) => ({ ...CAMPAIGN_ROW, ...data }));
+    mockPrisma.campaign.update.mockImplementation(async ({ data }: any) => ({ ...CAMPAIGN_ROW, ...data }));
+    mockPrisma.campaign.findMany.mockResolvedValue([
+        { ...CAMPAIGN_ROW, _count: { leads: 12, steps: 3 } },
+        { ...CAMPAIGN_ROW, id: 'camp-2', daily_limit: null, schedule_timezone: null, _count: { leads: 0, steps: 0 } },
+    ]);
+    mockPrisma.sequenceStep.create.mockImplementation(async ({ data }: any) => ({ id: `step-${data.step_number}`, ...data }));
+    mockPrisma.sequenceStep.count.mockResolvedValue(2);
+    mockPrisma.stepVariant.create.mockResolvedValue({ id: 'var-x' });
+    mockPrisma.campaignLead.create.mockResolvedValue({ id: 'cl-1' });
+    mockPrisma.campaignLead.count.mockResolvedValue(12);
+    mockPrisma.campaignLead.groupBy.mockResolvedValue([{ status: 'active', _count: 10 }, { status: 'replied', _count: 2 }]);
+    mockPrisma.sendEvent.count.mockResolvedValue(800);
+    mockPrisma.replyEvent.count.mockResolvedValue(32);
+
+    mockPrisma.emailThread.findMany.mockResolvedValue([
+        { id: 'thread-1', contact_email: 'ada@example.com', contact_name: null,
+            messages: [{ subject: 'Re: Hi', body_text: 'Sounds good', created_at: NOW }] },
+        { id: 'thread-2', contact_email: 'bob@example.com', contact_name: 'Bob', messages: [] },
+    ]);
+    mockPrisma.emailThread.findFirst.mockResolvedValue({
+        id: 'thread-1', contact_email: 'ada@example.com', subject: 'Hi',
+        account: { id: 'acc-1', email: 'sender@acme.io', provider: 'google', connection_status: 'active' },
+    });
+    mockPrisma.emailThread.update.mockResolvedValue({});
+    mockPrisma.emailMessage.create.mockResolvedValue({ id: 'msg-1' });
+
+    mockPrisma.mailbox.findMany.mockResolvedValue([{
+        id: 'mb-1', email: 'sender@acme.io', status: 'healthy', smtp_status: true, imap_status: false,
+        total_sent_count: 1200, hard_bounce_count: 4, warmup_status: null, warmup_reputation: 'good',
+        recovery_phase: 'healthy', resilience_score: 70,
+    }]);
+    mockPrisma.domain.findMany.mockResolvedValue([{
+        id: 'dom-1', domain: 'acme.io', status: 'healthy', total_sent_lifetime: 5000, total_opens: 900,
+        total_clicks: 120, total_replies: 60, aggregated_bounce_rate_trend: 0.012, warning_count: 0,
+        recovery_phase: 'healthy', resilience_score: 80,
+    }]);
+
+    mockPrisma.organization.findUnique.mockResolvedValue({
+        id: ORG, name: 'Acme', slug: 'acme', subscription_tier: 'growth', subscription_status: 'active',
+    });
+    mockPrisma.validationAttempt.count.mockResolvedValue(340);
+}
+
+/** A request each handler answers with its success status. */
+const REQUESTS: Record<string, { body?: unknown; params?: Record<string, string>; query?: Record<string, string> }> = {
+    getOpenApiSpec: {},
+    bulkImportLeads: { body: { leads: [{ email: 'new@example.com' }, { email: 'dupe@example.com' }, { first_name: 'No email' }] } },
+    validateLeads: { body: { lead_ids: ['lead-1', 'lead-2'] } },
+    listLeads: { query: { page: '2', limit: '10', status: 'active' } },
+    getLead: { params: { id: 'lead-1' } },
+    createCampaign: {
+        body: {
+            name: 'Q4 outbound',
+            steps: [{ subject: 'Hi', body_html: '<p>Hi</p>', variants: [{ label: 'B', subject: 'Hey' }] }, { step_type: 'call', subject: 'Call' }],
+            lead_ids: ['lead-1', 'lead-2'],
+        },
+    },
+    listCampaigns: {},
+    getCampaign: { params: { id: 'camp-1' } },
+    updateCampaign: { params: { id: 'camp-1' }, body: { name: 'Renamed', daily_limit: 80 } },
+    launchCampaign: { params: { id: 'camp-1' } },
+    pauseCampaign: { params: { id: 'camp-active' } },
+    getCampaignReport: { params: { id: 'camp-1' }, query: { metric: 'reply', confidence: '0.9' } },
+    getCampaignReplies: { params: { id: 'camp-1' } },
+    sendReply: { body: { thread_id: 'thread-1', body_text: 'Thanks!' } },
+    getValidationResults: {},
+    listMailboxes: {},
+    listDomains: {},
+    getAccount: {},
+};
+
+async function call(op: V1Operation, scopes: string[] = ALL_SCOPES) {
+    const handler = (v1Controller as Record<string, any>)[op.operationId];
+    const { status, body } = await invokeController(handler, {
+        orgContext: { organizationId: ORG, scopes } as any,
+        ...REQUESTS[op.operationId],
+    });
+    // What the client receives: Dates become ISO strings, Infinity becomes null.
+    return { status, body: JSON.parse(JSON.stringify(body)) };
+}
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    seedFixtures();
+});
+
+describe('v1 route coverage', () => {
+    const routes = (v1Routes as any).stack
+        .filter((layer: any) => layer.route)
+        .flatMap((layer: any) => Object.keys(layer.route.methods).map(method => `${method} ${layer.route.path}`));
+
+    it('documents every route and nothing else', () => {
+        expect(V1_OPERATIONS.map(op => `${op.method} ${op.path}`).sort()).toEqual([...routes].sort());
+    });
+
+    it('points every operation at a v1Controller handler', () => {
+        for (const op of V1_OPERATIONS) {
+            expect(typeof (v1Controller as Record<string, unknown>)[op.operationId]).toBe('function');
+        }
+    });
+
+    it('only declares scopes an API key can be granted', () => {
+        for (const op of V1_OPERATIONS) {
+            if (op.scope !== null) expect(AVAILABLE_SCOPES).toContain(op.scope);
+        }
+    });
+});
+
+describe('v1 scopes', () => {
+    it.each(V1_OPERATIONS.filter(op => op.scope !== null).map(op => [op.operationId, op] as const))(
+        '%s enforces its declared scope',
+        async (_id, op) => {
+            const denied = await call(op, []);
+            expect(denied.status).toBe(403);
+            expect(denied.body).toEqual({ success: false, error: `Missing required scope: ${op.scope}` });
+
+            const allowed = await call(op, [op.scope!]);
+            expect(allowed.status).toBe(op.status);
+        },
+    );
+
+    it('serves the document without any scope', async () => {
+        const spec = V1_OPERATIONS.find(op => op.operationId === 'getOpenApiSpec')!;
+        expect((await call(spec, [])).status).toBe(200);
+    });
+});
+
+describe('v1 request contract', () => {
+    /** A request that breaks the published body / query schema. */
+    const INVALID: Record<string, { body?: unknown; query?: Record<string, string> }> = {
+        bulkImportLeads: { body: { leads: [{ email: 'not-an-email' }] } },
+        validateLeads: { body: { lead_ids: 'lead-1' } },
+        listLeads: { query: { limit: '500' } },
+        createCampaign: { body: { name: 'Q4 outbound', steps: [{ step_type: 'fax' }] } },
+        updateCampaign: { body: { daily_limit: 0 } },
+        getCampaignReport: { query: { confidence: '0.5' } },
+        sendReply: { body: { body_text: 'No thread' } },
+    };
+    /** REQUESTS keeps a row without an email to exercise the handler's per-row rejection. */
+    const VALID: Record<string, { body?: unknown; query?: Record<string, string> }> = {
+        ...REQUESTS,
+        bulkImportLeads: { body: { leads: [{ email: 'new@example.com', lead_score: 70 }] } },
+    };
+    const validated = V1_OPERATIONS.filter(op => op.body || op.query);
+
+    /** Run the route's middleware ahead of the handler; `passed` when it reached the handler. */
+    async function throughRoute(op: V1Operation, request: { body?: unknown; query?: Record<string, string> }) {
+        const layer = (v1Routes as any).stack.find((l: any) => l.route?.path === op.path && l.route.methods[op.method]);
+        const middleware = layer.route.stack.slice(0, -1).map((l: any) => l.handle);
+        const req = { body: request.body ?? {}, query: { ...request.query }, params: {} };
+        const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+        for (const handle of middleware) {
+            const next = jest.fn();
+            await handle(req, res, next);
+            if (!next.mock.calls.length) return { passed: false, res };
+        }
+        return { passed: true, res };
+    }
+
+    it('covers every operation that declares a body or query', () => {
+        expect(Object.keys(INVALID).sort()).toEqual(validated.map(op => op.operationId).sort());
+    });
+
+    it.each(validated.map(op => [op.operationId, op] as const))('%s refuses a request its schema rejects', async (_id, op) => {
+        const { passed, res } = await throughRoute(op, INVALID[op.operationId]);
+        expect(passed).toBe(false);
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: false }));
+    });
+
+    it.each(validated.map(op => [op.operationId, op] as const))('%s lets a documented request through', async (_id, op) => {
+        expect((await throughRoute(op, VALID[op.operationId])).passed).toBe(true);
+    });
+});
+
+describe('v1 response contract', () => {
+    it.each(V1_OPERATIONS.map(op => [op.operationId, op] as const))('%s matches its response schema', async (_id, op) => {
+        const { status, body } = await call(op);
+        expect(status).toBe(op.status);
+        const result = op.response.safeParse(body);
+        if (!result.success) throw new Error(`${op.operationId} drifted from its schema:\n${result.error.message}`);
+    });
+
+    it('declares unlimited enterprise limits as null', async () => {
+        mockPrisma.organization.findUnique.mockResolvedValue({
+            id: ORG, name: 'Acme', slug: 'acme', subscription_tier: 'enterprise', subscription_status: 'active',
+        });
+        const op = V1_OPERATIONS.find(o => o.operationId === 'getAccount')!;
+        const { body } = await call(op);
+        expect(body.data.limits).toEqual({ monthly_sends: null, validation_credits: null });
+        expect(op.response.safeParse(body).success).toBe(true);
+    });
+
+    it('rejects an undeclared field', async () => {
+        const op = V1_OPERATIONS.find(o => o.operationId === 'listCampaigns')!;
+        const { body } = await call(op);
+        body.data[0].internal_notes = 'x';
+        expect(op.response.safeParse(body).success).toBe(false);
+    });
+
+    it('reports experiments in the declared shape', async () => {
+        const op = V1_OPERATIONS.find(o => o.operationId === 'getCampaignReport')!;
+        const { body } = await call(op);
+        expect(body.data.experiments).toHaveLength(1);
+        expect(body.data.reply_rate).toBe('4.00%');
+    });
+});
+
+describe('OpenAPI document', () => {
+    const doc = buildV1OpenApiDocument() as any;
+
+    it('is OpenAPI 3.1 and serializable', () => {
+        expect(doc.openapi).toBe('3.1.0');
+        expect(JSON.parse(JSON.stringify(doc))).toEqual(doc);
+    });
+
+    it('annotates every operation with its scope', () => {
+        for (const op of V1_OPERATIONS) {
+            const operation = doc.paths[op.path.replace(/:(\w+)/g, '{$1}')][op.method];
+            expect(operation.operationId).toBe(op.operationId);
+            expect(operation['x-required-scope']).toBe(op.scope);
+            expect(operation.security).toEqual(op.scope ? [{ apiKey: [op.scope] }] : []);
+            expect(operation.responses[op.status]).toBeDefined();
+        }
+    });
+
+    it('declares path and query parameters', () => {
+        const report = doc.paths['/campaigns/{id}/report'].get;
+        expect(report.parameters.map((p: any) => `${p.in}:${p.name}`)).toEqual(['path:id', 'query:metric', 'query:confidence']);
+        const metric = report.parameters.find((p: any) => p.name === 'metric');
+        expect(metric.schema.enum).toEqual(EXPERIMENT_METRICS);
+    });
+
+    it('publishes the step types the sequencer accepts', () => {
+        const body = doc.paths['/campaigns'].post.requestBody.content['application/json'].schema;
+        expect(body.properties.steps.items.properties.step_type.enum).toEqual([...STEP_TYPES]);
+    });
+});
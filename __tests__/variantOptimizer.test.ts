@@ -0,0 +1,92 @@
+/**
+ * Variant optimizer decision logic (pure part of variantOptimizerService).
+ *
+ * Frozen here:
+ *   - weights always sum to 100 and losing arms keep the exploration floor
+ *   - reply rate is the signal once replies are plentiful; human open rate
+ *     is the fallback only while opens are trustworthy; otherwise no move
+ *   - a winner needs BOTH the confidence threshold and min sends on every arm
+ */
+
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/services/observabilityService', () => ({
+    logger: { warn: jest.fn(), info: jest.fn(), error: jest.fn() },
+}));
+
+import {
+    weightsFromProbabilities,
+    chooseMetric,
+    evaluateStep,
+    probabilityBest,
+    VariantCounters,
+} from '../src/services/variantOptimizerService';
+
+/** Deterministic PRNG so posterior draws are reproducible. */
+function seeded(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state * 1664525 + 1013904223) >>> 0;
+        return state / 2 ** 32;
+    };
+}
+
+function variant(label: string, over: Partial<VariantCounters>): VariantCounters {
+    return { id: label, variant_label: label, weight: 50, sends: 0, opens: 0, replies: 0, machine_opens: 0, ...over };
+}
+
+describe('weightsFromProbabilities', () => {
+    it('sums to exactly 100 and respects the exploration floor', () => {
+        const w = weightsFromProbabilities([0.98, 0.01, 0.01]);
+        expect(w.reduce((a, b) => a + b, 0)).toBe(100);
+        expect(Math.min(...w)).toBeGreaterThanOrEqual(5);
+        expect(w[0]).toBeGreaterThan(w[1]);
+    });
+});
+
+describe('chooseMetric', () => {
+    it('prefers replies once there are enough of them', () => {
+        expect(chooseMetric([variant('A', { replies: 6 }), variant('B', { replies: 4 })], true)).toBe('reply');
+    });
+
+    it('falls back to opens only when they are trustworthy', () => {
+        const human = [variant('A', { opens: 40, machine_opens: 5 }), variant('B', { opens: 30, machine_opens: 5 })];
+        const prefetched = [variant('A', { opens: 40, machine_opens: 35 }), variant('B', { opens: 30, machine_opens: 20 })];
+        expect(chooseMetric(human, true)).toBe('open');
+        expect(chooseMetric(human, false)).toBeNull();
+        expect(chooseMetric(prefetched, true)).toBeNull();
+    });
+});
+
+describe('evaluateStep', () => {
+    const opts = { trackOpens: true, confidence: 0.95, minSends: 100 };
+
+    it('shifts traffic toward the stronger arm without declaring early', () => {
+        const r = evaluateStep([
+            variant('A', { sends: 60, replies: 9 }),
+            variant('B', { sends: 60, replies: 2 }),
+        ], opts, seeded(1));
+        expect(r.metric).toBe('reply');
+        expect(r.winnerId).toBeNull();
+        expect(r.arms[0].to).toBeGreaterThan(r.arms[1].to);
+    });
+
+    it('declares a winner at confidence once every arm has min sends', () => {
+        const r = evaluateStep([
+            variant('A', { sends: 400, replies: 40 }),
+            variant('B', { sends: 400, replies: 10 }),
+        ], opts, seeded(2));
+        expect(r.winnerId).toBe('A');
+        expect(r.arms.map(a => a.to)).toEqual([100, 0]);
+    });
+
+    it('leaves weights alone when there is no usable signal', () => {
+        const r = evaluateStep([variant('A', { sends: 50, weight: 70 }), variant('B', { sends: 50, weight: 30 })], opts, seeded(3));
+        expect(r.metric).toBeNull();
+        expect(r.arms.map(a => a.to)).toEqual([70, 30]);
+    });
+
+    it('gives near-even odds to identical arms', () => {
+        const p = probabilityBest([{ sends: 200, successes: 20 }, { sends: 200, successes: 20 }], 4000, seeded(4));
+        expect(Math.abs(p[0] - p[1])).toBeLessThan(0.1);
+    });
+});
@@ -0,0 +1,60 @@
+-- Sequence graph: general node/edge model alongside the linear SequenceStep
+-- flow. Campaign.sequence_mode picks the walker; existing campaigns stay
+-- 'linear' until migrated via POST /api/sequencer/campaigns/:id/graph/migrate.
+ALTER TABLE "Campaign" ADD COLUMN "sequence_mode" TEXT NOT NULL DEFAULT 'linear';
+
+ALTER TABLE "CampaignLead" ADD COLUMN "current_node_id" TEXT;
+ALTER TABLE "CampaignLead" ADD COLUMN "node_entered_at" TIMESTAMP(3);
+
+CREATE TABLE "SequenceNode" (
+    "id"          TEXT NOT NULL,
+    "campaign_id" TEXT NOT NULL,
+    "node_key"    TEXT NOT NULL,
+    "type"        TEXT NOT NULL,
+    "step_number" INTEGER,
+    "config"      JSONB,
+    "is_entry"    BOOLEAN NOT NULL DEFAULT false,
+    "position_x"  DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "position_y"  DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "created_at"  TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at"  TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SequenceNode_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "SequenceNode_campaign_id_node_key_key" ON "SequenceNode"("campaign_id", "node_key");
+CREATE INDEX "SequenceNode_campaign_id_idx" ON "SequenceNode"("campaign_id");
+
+ALTER TABLE "SequenceNode"
+    ADD CONSTRAINT "SequenceNode_campaign_id_fkey"
+    FOREIGN KEY ("campaign_id") REFERENCES "Campaign"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "SequenceEdge" (
+    "id"           TEXT NOT NULL,
+    "campaign_id"  TEXT NOT NULL,
+    "from_node_id" TEXT NOT NULL,
+    "to_node_id"   TEXT NOT NULL,
+    "condition"    TEXT,
+    "weight"       INTEGER,
+    "priority"     INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "SequenceEdge_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "SequenceEdge_campaign_id_idx" ON "SequenceEdge"("campaign_id");
+CREATE INDEX "SequenceEdge_from_node_id_idx" ON "SequenceEdge"("from_node_id");
+CREATE INDEX "SequenceEdge_to_node_id_idx" ON "SequenceEdge"("to_node_id");
+
+ALTER TABLE "SequenceEdge"
+    ADD CONSTRAINT "SequenceEdge_campaign_id_fkey"
+    FOREIGN KEY ("campaign_id") REFERENCES "Campaign"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "SequenceEdge"
+    ADD CONSTRAINT "SequenceEdge_from_node_id_fkey"
+    FOREIGN KEY ("from_node_id") REFERENCES "SequenceNode"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "SequenceEdge"
+    ADD CONSTRAINT "SequenceEdge_to_node_id_fkey"
+    FOREIGN KEY ("to_node_id") REFERENCES "SequenceNode"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- Variant optimizer: opt-in Thompson-sampling bandit over StepVariant.weight.
+-- SendEvent.variant_id attributes engagement to the variant that earned it;
+-- VariantWeightLog records every weight change for the analytics timeline.
+ALTER TABLE "SequenceStep" ADD COLUMN "optimizer_enabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "SequenceStep" ADD COLUMN "optimizer_confidence" DOUBLE PRECISION NOT NULL DEFAULT 0.95;
+ALTER TABLE "SequenceStep" ADD COLUMN "optimizer_min_sends" INTEGER NOT NULL DEFAULT 100;
+ALTER TABLE "SequenceStep" ADD COLUMN "optimizer_winner_id" TEXT;
+ALTER TABLE "SequenceStep" ADD COLUMN "optimizer_decided_at" TIMESTAMP(3);
+
+ALTER TABLE "StepVariant" ADD COLUMN "machine_opens" INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE "SendEvent" ADD COLUMN "variant_id" TEXT;
+
+CREATE TABLE "VariantWeightLog" (
+    "id"                TEXT NOT NULL,
+    "organization_id"   TEXT NOT NULL,
+    "campaign_id"       TEXT NOT NULL,
+    "step_number"       INTEGER NOT NULL,
+    "reason"            TEXT NOT NULL,
+    "metric"            TEXT NOT NULL,
+    "weights"           JSONB NOT NULL,
+    "winner_variant_id" TEXT,
+    "created_at"        TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VariantWeightLog_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "VariantWeightLog_campaign_id_step_number_created_at_idx" ON "VariantWeightLog"("campaign_id", "step_number", "created_at");
+CREATE INDEX "VariantWeightLog_organization_id_created_at_idx" ON "VariantWeightLog"("organization_id", "created_at");
+
+ALTER TABLE "VariantWeightLog"
+    ADD CONSTRAINT "VariantWeightLog_campaign_id_fkey"
+    FOREIGN KEY ("campaign_id") REFERENCES "Campaign"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
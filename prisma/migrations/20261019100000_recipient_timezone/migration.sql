@@ -0,0 +1,7 @@
+-- Recipient-local send windows. Opt-in per campaign; the lead's zone is
+-- inferred lazily by the dispatcher and cached on CampaignLead.
+ALTER TABLE "Campaign" ADD COLUMN "send_in_recipient_timezone" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Campaign" ADD COLUMN "recipient_fallback_timezone" TEXT;
+
+ALTER TABLE "CampaignLead" ADD COLUMN "timezone" TEXT;
+ALTER TABLE "CampaignLead" ADD COLUMN "timezone_source" TEXT;
@@ -0,0 +1,25 @@
+-- Holiday / blackout calendars. Workspace rules have campaign_id NULL;
+-- country holiday sets are expanded in code, not stored per date.
+ALTER TABLE "Campaign" ADD COLUMN "delay_business_days" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE "BlackoutRule" (
+    "id"              TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "campaign_id"     TEXT,
+    "kind"            TEXT NOT NULL,
+    "start_date"      TEXT,
+    "end_date"        TEXT,
+    "month_day"       TEXT,
+    "country_code"    TEXT,
+    "label"           TEXT,
+    "created_at"      TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlackoutRule_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "BlackoutRule_organization_id_campaign_id_idx" ON "BlackoutRule"("organization_id", "campaign_id");
+
+ALTER TABLE "BlackoutRule"
+    ADD CONSTRAINT "BlackoutRule_campaign_id_fkey"
+    FOREIGN KEY ("campaign_id") REFERENCES "Campaign"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
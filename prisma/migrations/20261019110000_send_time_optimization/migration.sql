@@ -0,0 +1,21 @@
+-- Send-time optimization: per-segment hour-of-week engagement profiles and
+-- the campaign opt-in. CampaignLead.sto_slot_at marks leads already parked at
+-- their predicted slot so the dispatcher doesn't re-defer them.
+ALTER TABLE "Campaign" ADD COLUMN "send_time_optimization" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "CampaignLead" ADD COLUMN "sto_slot_at" TIMESTAMP(3);
+
+CREATE TABLE "SendTimeProfile" (
+    "id"              TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "segment_type"    TEXT NOT NULL,
+    "segment_key"     TEXT NOT NULL,
+    "sends"           JSONB NOT NULL,
+    "engagements"     JSONB NOT NULL,
+    "total_sends"     INTEGER NOT NULL,
+    "total_replies"   INTEGER NOT NULL,
+    "computed_at"     TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SendTimeProfile_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "SendTimeProfile_organization_id_segment_type_segment_key_key" ON "SendTimeProfile"("organization_id", "segment_type", "segment_key");
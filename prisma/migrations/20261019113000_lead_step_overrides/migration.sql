@@ -0,0 +1,26 @@
+-- Per-lead sequence overrides (edit / skip / inject). Pushing a lead's next
+-- send is a plain next_send_at update and needs no schema.
+CREATE TABLE "LeadStepOverride" (
+    "id"                 TEXT NOT NULL,
+    "organization_id"    TEXT NOT NULL,
+    "campaign_id"        TEXT NOT NULL,
+    "campaign_lead_id"   TEXT NOT NULL,
+    "kind"               TEXT NOT NULL,
+    "step_number"        INTEGER,
+    "subject"            TEXT,
+    "body_html"          TEXT,
+    "status"             TEXT NOT NULL DEFAULT 'pending',
+    "created_by_user_id" TEXT,
+    "applied_at"         TIMESTAMP(3),
+    "created_at"         TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LeadStepOverride_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "LeadStepOverride_campaign_lead_id_status_idx" ON "LeadStepOverride"("campaign_lead_id", "status");
+CREATE INDEX "LeadStepOverride_campaign_id_status_idx" ON "LeadStepOverride"("campaign_id", "status");
+
+ALTER TABLE "LeadStepOverride"
+    ADD CONSTRAINT "LeadStepOverride_campaign_lead_id_fkey"
+    FOREIGN KEY ("campaign_lead_id") REFERENCES "CampaignLead"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- Manual task steps (call / LinkedIn / generic task). Existing steps stay
+-- 'email'; a non-email step opens a SequenceTask and holds the lead on it.
+ALTER TABLE "SequenceStep" ADD COLUMN "step_type" TEXT NOT NULL DEFAULT 'email';
+ALTER TABLE "SequenceStep" ADD COLUMN "task_due_hours" INTEGER NOT NULL DEFAULT 24;
+ALTER TABLE "SequenceStep" ADD COLUMN "task_assignee_user_id" TEXT;
+
+CREATE TABLE "SequenceTask" (
+    "id"                   TEXT NOT NULL,
+    "organization_id"      TEXT NOT NULL,
+    "campaign_id"          TEXT NOT NULL,
+    "campaign_lead_id"     TEXT NOT NULL,
+    "step_number"          INTEGER NOT NULL,
+    "graph_node_id"        TEXT,
+    "type"                 TEXT NOT NULL,
+    "title"                TEXT NOT NULL,
+    "instructions"         TEXT,
+    "status"               TEXT NOT NULL DEFAULT 'open',
+    "assigned_user_id"     TEXT,
+    "due_at"               TIMESTAMP(3) NOT NULL,
+    "outcome"              TEXT,
+    "notes"                TEXT,
+    "completed_at"         TIMESTAMP(3),
+    "completed_by_user_id" TEXT,
+    "exported_at"          TIMESTAMP(3),
+    "export_job_id"        TEXT,
+    "created_at"           TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SequenceTask_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "SequenceTask_campaign_lead_id_step_number_key" ON "SequenceTask"("campaign_lead_id", "step_number");
+CREATE INDEX "SequenceTask_organization_id_status_due_at_idx" ON "SequenceTask"("organization_id", "status", "due_at");
+CREATE INDEX "SequenceTask_assigned_user_id_status_idx" ON "SequenceTask"("assigned_user_id", "status");
+
+ALTER TABLE "SequenceTask"
+    ADD CONSTRAINT "SequenceTask_campaign_lead_id_fkey"
+    FOREIGN KEY ("campaign_lead_id") REFERENCES "CampaignLead"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- ARF (RFC 5965) spam complaints from provider feedback loops.
+CREATE TABLE "ComplaintEvent" (
+    "id"                  TEXT NOT NULL,
+    "organization_id"     TEXT NOT NULL,
+    "mailbox_id"          TEXT,
+    "campaign_id"         TEXT,
+    "campaign_lead_id"    TEXT,
+    "recipient_email"     TEXT NOT NULL,
+    "feedback_type"       TEXT NOT NULL,
+    "source"              TEXT NOT NULL,
+    "reporting_mta"       TEXT,
+    "user_agent"          TEXT,
+    "original_message_id" TEXT,
+    "report_message_id"   TEXT,
+    "arrival_date"        TIMESTAMP(3),
+    "matched_by"          TEXT,
+    "received_at"         TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ComplaintEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ComplaintEvent_organization_id_report_message_id_key" ON "ComplaintEvent"("organization_id", "report_message_id");
+CREATE INDEX "ComplaintEvent_mailbox_id_received_at_idx" ON "ComplaintEvent"("mailbox_id", "received_at");
+CREATE INDEX "ComplaintEvent_organization_id_received_at_idx" ON "ComplaintEvent"("organization_id", "received_at");
@@ -0,0 +1,53 @@
+-- DMARC aggregate (RUA) reports and their per-source-IP records.
+CREATE TABLE "DmarcReport" (
+    "id"               TEXT NOT NULL,
+    "organization_id"  TEXT NOT NULL,
+    "domain_id"        TEXT NOT NULL,
+    "org_name"         TEXT NOT NULL,
+    "reporter_email"   TEXT,
+    "report_id"        TEXT NOT NULL,
+    "date_begin"       TIMESTAMP(3) NOT NULL,
+    "date_end"         TIMESTAMP(3) NOT NULL,
+    "policy"           TEXT,
+    "subdomain_policy" TEXT,
+    "pct"              INTEGER,
+    "source"           TEXT NOT NULL,
+    "message_count"    INTEGER NOT NULL DEFAULT 0,
+    "received_at"      TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DmarcReport_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "DmarcReport_organization_id_org_name_report_id_key" ON "DmarcReport"("organization_id", "org_name", "report_id");
+CREATE INDEX "DmarcReport_domain_id_date_begin_idx" ON "DmarcReport"("domain_id", "date_begin");
+
+ALTER TABLE "DmarcReport"
+    ADD CONSTRAINT "DmarcReport_domain_id_fkey"
+    FOREIGN KEY ("domain_id") REFERENCES "Domain"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "DmarcRecord" (
+    "id"              TEXT NOT NULL,
+    "report_id"       TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "domain_id"       TEXT NOT NULL,
+    "source_ip"       TEXT NOT NULL,
+    "header_from"     TEXT NOT NULL,
+    "count"           INTEGER NOT NULL,
+    "disposition"     TEXT NOT NULL,
+    "dkim_aligned"    BOOLEAN NOT NULL,
+    "spf_aligned"     BOOLEAN NOT NULL,
+    "dkim_results"    TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "spf_results"     TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "date_begin"      TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DmarcRecord_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "DmarcRecord_domain_id_date_begin_idx" ON "DmarcRecord"("domain_id", "date_begin");
+CREATE INDEX "DmarcRecord_organization_id_date_begin_idx" ON "DmarcRecord"("organization_id", "date_begin");
+
+ALTER TABLE "DmarcRecord"
+    ADD CONSTRAINT "DmarcRecord_report_id_fkey"
+    FOREIGN KEY ("report_id") REFERENCES "DmarcReport"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- DKIM selectors discovered from DKIM-Signature headers on our own sent mail.
+ALTER TABLE "Domain" ADD COLUMN "dkim_selectors" TEXT[] DEFAULT ARRAY[]::TEXT[];
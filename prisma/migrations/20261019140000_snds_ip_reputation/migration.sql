@@ -0,0 +1,30 @@
+-- Microsoft SNDS connection on Organization and per-IP daily reputation rows.
+ALTER TABLE "Organization" ADD COLUMN "snds_key" TEXT,
+ADD COLUMN "snds_connected_at" TIMESTAMP(3),
+ADD COLUMN "snds_last_fetch_at" TIMESTAMP(3),
+ADD COLUMN "snds_last_error" TEXT;
+
+CREATE TABLE "IpReputation" (
+    "id"                 TEXT NOT NULL,
+    "organization_id"    TEXT NOT NULL,
+    "ip"                 TEXT NOT NULL,
+    "source"             TEXT NOT NULL,
+    "date"               DATE NOT NULL,
+    "dedicated_ip_id"    TEXT,
+    "fetched_at"         TIMESTAMP(3) NOT NULL,
+    "filter_result"      TEXT,
+    "complaint_rate"     DOUBLE PRECISION,
+    "trap_hits"          INTEGER,
+    "rcpt_commands"      INTEGER,
+    "data_commands"      INTEGER,
+    "message_recipients" INTEGER,
+    "blocked"            BOOLEAN NOT NULL DEFAULT false,
+    "raw_payload"        JSONB NOT NULL,
+    "created_at"         TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IpReputation_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "IpReputation_organization_id_ip_source_date_key" ON "IpReputation"("organization_id", "ip", "source", "date");
+CREATE INDEX "IpReputation_organization_id_date_idx" ON "IpReputation"("organization_id", "date");
+CREATE INDEX "IpReputation_dedicated_ip_id_date_idx" ON "IpReputation"("dedicated_ip_id", "date");
@@ -0,0 +1,63 @@
+-- Seed-list inbox placement tests: seed inboxes, test runs and per-seed results.
+CREATE TABLE "PlacementSeed" (
+    "id"              TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "email"           TEXT NOT NULL,
+    "provider"        TEXT NOT NULL,
+    "imap_host"       TEXT NOT NULL,
+    "imap_port"       INTEGER NOT NULL DEFAULT 993,
+    "imap_username"   TEXT,
+    "imap_password"   TEXT NOT NULL,
+    "active"          BOOLEAN NOT NULL DEFAULT true,
+    "created_at"      TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at"      TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PlacementSeed_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "PlacementSeed_organization_id_email_key" ON "PlacementSeed"("organization_id", "email");
+
+CREATE TABLE "PlacementTest" (
+    "id"               TEXT NOT NULL,
+    "organization_id"  TEXT NOT NULL,
+    "mailbox_id"       TEXT NOT NULL,
+    "campaign_id"      TEXT NOT NULL,
+    "sequence_step_id" TEXT NOT NULL,
+    "campaign_lead_id" TEXT,
+    "subject"          TEXT NOT NULL,
+    "status"           TEXT NOT NULL DEFAULT 'sending',
+    "error"            TEXT,
+    "summary"          JSONB,
+    "created_by"       TEXT,
+    "created_at"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sent_at"          TIMESTAMP(3),
+    "completed_at"     TIMESTAMP(3),
+
+    CONSTRAINT "PlacementTest_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "PlacementTest_organization_id_created_at_idx" ON "PlacementTest"("organization_id", "created_at");
+CREATE INDEX "PlacementTest_mailbox_id_created_at_idx" ON "PlacementTest"("mailbox_id", "created_at");
+CREATE INDEX "PlacementTest_status_idx" ON "PlacementTest"("status");
+
+CREATE TABLE "PlacementResult" (
+    "id"         TEXT NOT NULL,
+    "test_id"    TEXT NOT NULL,
+    "seed_id"    TEXT NOT NULL,
+    "seed_email" TEXT NOT NULL,
+    "provider"   TEXT NOT NULL,
+    "status"     TEXT NOT NULL DEFAULT 'pending',
+    "landed_in"  TEXT,
+    "folder"     TEXT,
+    "sent_at"    TIMESTAMP(3),
+    "found_at"   TIMESTAMP(3),
+    "error"      TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlacementResult_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "PlacementResult_test_id_seed_id_key" ON "PlacementResult"("test_id", "seed_id");
+CREATE INDEX "PlacementResult_status_idx" ON "PlacementResult"("status");
+
+ALTER TABLE "PlacementResult" ADD CONSTRAINT "PlacementResult_test_id_fkey" FOREIGN KEY ("test_id") REFERENCES "PlacementTest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- Unified org-wide suppression list (email / domain / wildcard pattern entries
+-- with reason, source and expiry). Replaces OrgReplySuppression; existing
+-- reply-action suppressions and unsubscribed leads are carried over.
+CREATE TABLE "SuppressionEntry" (
+    "id"               TEXT NOT NULL,
+    "organization_id"  TEXT NOT NULL,
+    "type"             TEXT NOT NULL,
+    "value"            TEXT NOT NULL,
+    "reason"           TEXT,
+    "source"           TEXT NOT NULL DEFAULT 'manual',
+    "source_thread_id" TEXT,
+    "expires_at"       TIMESTAMP(3),
+    "created_by"       TEXT,
+    "created_at"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at"       TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SuppressionEntry_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "SuppressionEntry_organization_id_type_value_key" ON "SuppressionEntry"("organization_id", "type", "value");
+CREATE INDEX "SuppressionEntry_organization_id_type_idx" ON "SuppressionEntry"("organization_id", "type");
+CREATE INDEX "SuppressionEntry_organization_id_created_at_idx" ON "SuppressionEntry"("organization_id", "created_at");
+
+ALTER TABLE "SuppressionEntry"
+    ADD CONSTRAINT "SuppressionEntry_organization_id_fkey"
+    FOREIGN KEY ("organization_id") REFERENCES "Organization"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+INSERT INTO "SuppressionEntry" ("id", "organization_id", "type", "value", "reason", "source", "source_thread_id", "created_at", "updated_at")
+SELECT "id", "organization_id", 'email', lower(trim("email")), "reason", 'reply_action', "source_thread_id", "created_at", CURRENT_TIMESTAMP
+FROM "OrgReplySuppression"
+ON CONFLICT ("organization_id", "type", "value") DO NOTHING;
+
+INSERT INTO "SuppressionEntry" ("id", "organization_id", "type", "value", "reason", "source", "created_at", "updated_at")
+SELECT "id", "organization_id", 'email', lower(trim("email")), COALESCE("unsubscribed_reason", 'recipient_request'),
+       CASE WHEN "unsubscribed_reason" = 'spam_complaint' THEN 'complaint' ELSE 'unsubscribe' END,
+       COALESCE("unsubscribed_at", "updated_at"), CURRENT_TIMESTAMP
+FROM "Lead"
+WHERE "status" = 'unsubscribed'
+ON CONFLICT ("organization_id", "type", "value") DO NOTHING;
+
+DROP TABLE "OrgReplySuppression";
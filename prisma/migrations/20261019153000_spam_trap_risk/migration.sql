@@ -0,0 +1,17 @@
+-- Spam-trap risk flags on leads and import batches, and DNSBL listing onset.
+ALTER TABLE "Lead" ADD COLUMN "trap_risk_score" INTEGER,
+ADD COLUMN "trap_risk_level" TEXT,
+ADD COLUMN "trap_risk_reasons" JSONB,
+ADD COLUMN "trap_risk_checked_at" TIMESTAMP(3),
+ADD COLUMN "trap_risk_cleared_at" TIMESTAMP(3);
+
+CREATE INDEX "Lead_organization_id_trap_risk_level_idx" ON "Lead"("organization_id", "trap_risk_level");
+
+ALTER TABLE "CampaignLeadImport" ADD COLUMN "trap_risk_level" TEXT,
+ADD COLUMN "trap_risk_summary" JSONB,
+ADD COLUMN "trap_risk_checked_at" TIMESTAMP(3);
+
+ALTER TABLE "DnsblResult" ADD COLUMN "listed_at" TIMESTAMP(3);
+
+-- Existing listings: best available onset is the last check.
+UPDATE "DnsblResult" SET "listed_at" = "checked_at" WHERE "status" = 'CONFIRMED';
@@ -0,0 +1,2 @@
+-- Content spam-score launch gate: per-org threshold (null disables the gate).
+ALTER TABLE "SequencerSettings" ADD COLUMN "content_spam_threshold" INTEGER DEFAULT 60;
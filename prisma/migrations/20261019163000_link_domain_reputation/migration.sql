@@ -0,0 +1,45 @@
+-- Link and tracking-domain reputation: URI-list marking on DnsblList,
+-- step-level pause on SequenceStep, and per-org LinkDomainReputation rows.
+ALTER TABLE "DnsblList" ADD COLUMN "list_type" TEXT NOT NULL DEFAULT 'ip';
+
+-- The startup seed re-applies these; set them here so the first sweep after
+-- deploy doesn't wait on it.
+UPDATE "DnsblList" SET "list_type" = 'uri'
+WHERE "zone" IN (
+    'multi.surbl.org', 'abuse.surbl.org', 'dbl.spamhaus.org', 'zrd.spamhaus.org',
+    'uribl.spameatingmonkey.net', 'fresh.spameatingmonkey.net', 'fresh3.spameatingmonkey.net',
+    'fresh5.spameatingmonkey.net', 'fresh10.spameatingmonkey.net', 'fresh15.spameatingmonkey.net',
+    'fresh30.spameatingmonkey.net', 'multi.uribl.com', 'black.uribl.com', 'grey.uribl.com',
+    'red.uribl.com', 'mixed.uribl.com', 'dbl.nordspam.com', 'dblack.mail.abusix.zone',
+    'dbl.malwaredomains.com'
+);
+UPDATE "DnsblList" SET "category" = 'policy' WHERE "zone" = 'grey.uribl.com';
+
+ALTER TABLE "SequenceStep" ADD COLUMN "paused_at" TIMESTAMP(3),
+ADD COLUMN "paused_reason" TEXT;
+
+CREATE TABLE "LinkDomainReputation" (
+    "id"              TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "domain"          TEXT NOT NULL,
+    "kind"            TEXT NOT NULL,
+    "status"          TEXT NOT NULL DEFAULT 'unknown',
+    "listed_on"       JSONB,
+    "listed_at"       TIMESTAMP(3),
+    "step_count"      INTEGER NOT NULL DEFAULT 0,
+    "last_checked_at" TIMESTAMP(3),
+    "created_at"      TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at"      TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LinkDomainReputation_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "LinkDomainReputation_organization_id_domain_key"
+    ON "LinkDomainReputation"("organization_id", "domain");
+CREATE INDEX "LinkDomainReputation_organization_id_status_idx"
+    ON "LinkDomainReputation"("organization_id", "status");
+
+ALTER TABLE "LinkDomainReputation"
+    ADD CONSTRAINT "LinkDomainReputation_organization_id_fkey"
+    FOREIGN KEY ("organization_id") REFERENCES "Organization"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- Adaptive per-(mailbox, recipient provider) throttling learned from
+-- 421/451 rate-limit deferrals.
+CREATE TABLE "ProviderThrottle" (
+    "id"                    TEXT NOT NULL,
+    "organization_id"       TEXT NOT NULL,
+    "mailbox_id"            TEXT NOT NULL,
+    "provider"              TEXT NOT NULL,
+    "state"                 TEXT NOT NULL DEFAULT 'normal',
+    "consecutive_deferrals" INTEGER NOT NULL DEFAULT 0,
+    "total_deferrals"       INTEGER NOT NULL DEFAULT 0,
+    "backoff_until"         TIMESTAMP(3),
+    "window_limit"          INTEGER,
+    "window_started_at"     TIMESTAMP(3),
+    "window_sent"           INTEGER NOT NULL DEFAULT 0,
+    "last_deferral_at"      TIMESTAMP(3),
+    "last_smtp_code"        TEXT,
+    "last_smtp_response"    TEXT,
+    "recovered_at"          TIMESTAMP(3),
+    "created_at"            TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at"            TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProviderThrottle_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ProviderThrottle_mailbox_id_provider_key"
+    ON "ProviderThrottle"("mailbox_id", "provider");
+CREATE INDEX "ProviderThrottle_organization_id_state_idx"
+    ON "ProviderThrottle"("organization_id", "state");
@@ -0,0 +1,9 @@
+-- TOTP two-factor authentication with recovery codes, and the org-level
+-- "require 2FA" policy.
+ALTER TABLE "User" ADD COLUMN "totp_secret" TEXT,
+ADD COLUMN "totp_pending_secret" TEXT,
+ADD COLUMN "totp_enabled_at" TIMESTAMP(3),
+ADD COLUMN "totp_last_step" INTEGER,
+ADD COLUMN "totp_recovery_codes" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+ALTER TABLE "Organization" ADD COLUMN "require_two_factor" BOOLEAN NOT NULL DEFAULT false;
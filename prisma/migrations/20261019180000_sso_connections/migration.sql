@@ -0,0 +1,44 @@
+-- Per-account SAML / OIDC single sign-on with verified email domains.
+CREATE TABLE "SsoConnection" (
+    "id" TEXT NOT NULL,
+    "account_id" TEXT NOT NULL,
+    "protocol" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "enforce_sso" BOOLEAN NOT NULL DEFAULT false,
+    "saml_idp_entity_id" TEXT,
+    "saml_sso_url" TEXT,
+    "saml_certificates" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "oidc_discovery_url" TEXT,
+    "oidc_issuer" TEXT,
+    "oidc_client_id" TEXT,
+    "oidc_client_secret" TEXT,
+    "oidc_authorization_endpoint" TEXT,
+    "oidc_token_endpoint" TEXT,
+    "oidc_jwks_uri" TEXT,
+    "default_organization_id" TEXT,
+    "default_capabilities" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "group_mappings" JSONB NOT NULL DEFAULT '[]',
+    "groups_attribute" TEXT NOT NULL DEFAULT 'groups',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SsoConnection_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "SsoDomain" (
+    "id" TEXT NOT NULL,
+    "connection_id" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "verification_token" TEXT NOT NULL,
+    "verified_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SsoDomain_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "SsoConnection_account_id_key" ON "SsoConnection"("account_id");
+CREATE UNIQUE INDEX "SsoDomain_connection_id_domain_key" ON "SsoDomain"("connection_id", "domain");
+CREATE INDEX "SsoDomain_domain_idx" ON "SsoDomain"("domain");
+
+ALTER TABLE "SsoConnection" ADD CONSTRAINT "SsoConnection_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "Account"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "SsoDomain" ADD CONSTRAINT "SsoDomain_connection_id_fkey" FOREIGN KEY ("connection_id") REFERENCES "SsoConnection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- SCIM 2.0 provisioning: per-workspace bearer tokens, IdP groups mapped to
+-- capability sets, and SCIM bookkeeping on memberships.
+ALTER TABLE "WorkspaceMembership" ADD COLUMN "scim_managed" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "scim_external_id" TEXT;
+
+CREATE TABLE "ScimToken" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "token_prefix" TEXT NOT NULL,
+    "created_by_user_id" TEXT,
+    "last_used_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScimToken_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "ScimGroup" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "display_name" TEXT NOT NULL,
+    "external_id" TEXT,
+    "capabilities" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScimGroup_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "ScimGroupMember" (
+    "group_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScimGroupMember_pkey" PRIMARY KEY ("group_id","user_id")
+);
+
+CREATE UNIQUE INDEX "ScimToken_token_hash_key" ON "ScimToken"("token_hash");
+CREATE INDEX "ScimToken_organization_id_idx" ON "ScimToken"("organization_id");
+CREATE UNIQUE INDEX "ScimGroup_organization_id_display_name_key" ON "ScimGroup"("organization_id", "display_name");
+CREATE INDEX "ScimGroupMember_user_id_idx" ON "ScimGroupMember"("user_id");
+
+ALTER TABLE "ScimToken" ADD CONSTRAINT "ScimToken_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ScimGroup" ADD CONSTRAINT "ScimGroup_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ScimGroupMember" ADD CONSTRAINT "ScimGroupMember_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "ScimGroup"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ScimGroupMember" ADD CONSTRAINT "ScimGroupMember_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
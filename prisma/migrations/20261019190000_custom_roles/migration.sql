@@ -0,0 +1,43 @@
+-- Custom roles: named per-Account capability sets assignable to workspace
+-- memberships (and to invites, for the membership they create).
+CREATE TABLE "Role" (
+    "id" TEXT NOT NULL,
+    "account_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "capabilities" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Role_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "WorkspaceMembership" ADD COLUMN "role_id" TEXT;
+ALTER TABLE "WorkspaceInvite" ADD COLUMN "role_id" TEXT;
+
+CREATE UNIQUE INDEX "Role_account_id_name_key" ON "Role"("account_id", "name");
+CREATE INDEX "WorkspaceMembership_role_id_idx" ON "WorkspaceMembership"("role_id");
+
+ALTER TABLE "Role" ADD CONSTRAINT "Role_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "Account"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "WorkspaceMembership" ADD CONSTRAINT "WorkspaceMembership_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "Role"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "WorkspaceInvite" ADD CONSTRAINT "WorkspaceInvite_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "Role"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- manage_billing / manage_api_keys / manage_webhooks are new capabilities
+-- gating routes that were open to every member until now. Grant them to the
+-- members (and pending invites) that hold access_integrations, the existing
+-- capability for account-level integrations, so they keep working access.
+-- Members without it lose billing, API-key and webhook mutations by design;
+-- an owner can grant them back per membership or through a role.
+UPDATE "WorkspaceMembership"
+SET "capabilities" = "capabilities" || ARRAY(
+    SELECT c FROM unnest(ARRAY['manage_billing', 'manage_api_keys', 'manage_webhooks']::TEXT[]) AS c
+    WHERE NOT c = ANY("capabilities")
+)
+WHERE 'access_integrations' = ANY("capabilities") AND NOT '*' = ANY("capabilities");
+
+UPDATE "WorkspaceInvite"
+SET "capabilities" = "capabilities" || ARRAY(
+    SELECT c FROM unnest(ARRAY['manage_billing', 'manage_api_keys', 'manage_webhooks']::TEXT[]) AS c
+    WHERE NOT c = ANY("capabilities")
+)
+WHERE 'access_integrations' = ANY("capabilities") AND NOT '*' = ANY("capabilities");
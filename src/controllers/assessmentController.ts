@@ -196,7 +196,9 @@ export const getDomainDNS = async (req: Request, res: Response): Promise<void> =
         }
 
         // Run live DNS check
-        const dnsResult = await assessmentService.assessDomainDNS(domain.domain);
+        const dnsResult = await assessmentService.assessDomainDNS(domain.domain, undefined, undefined, {
+            dkimSelectors: domain.dkim_selectors,
+        });
 
         res.json({
             success: true,
@@ -269,7 +271,9 @@ export const recheckDomainDNS = async (req: Request, res: Response): Promise<voi
         // re-check evaluates blacklist blocking identically (not just critical-only, which is
         // what assessDomainDNS falls back to when no lists are passed).
         const dnsblLists = await dnsblService.getListsForRun('comprehensive');
-        const dnsResult = await assessmentService.assessDomainDNS(domain.domain, domain.id, dnsblLists);
+        const dnsResult = await assessmentService.assessDomainDNS(domain.domain, domain.id, dnsblLists, {
+            dkimSelectors: domain.dkim_selectors,
+        });
 
         // Door B: recompute whether the domain is on a blocking blacklist so a confirmed
         // delisting immediately clears the infra_status gate (no wait for the 24h sweep).
@@ -17,6 +17,9 @@ import { JWT_SECRET, generateToken, setTokenCookie, clearTokenCookie } from '../
 import { uniqueSlug } from '../utils/slug';
 import { isFreeEmailDomain, WORK_EMAIL_REQUIRED_MESSAGE } from '../utils/workEmail';
 import { verifyEmailTemplate } from '../services/emailTemplates/verifyEmail';
+import * as twoFactorService from '../services/twoFactorService';
+import { recordSecurityEvent, EVENT_TYPES } from '../services/securityAuditLog';
+import * as ssoService from '../services/ssoService';
 
 /**
  * POST /api/auth/login/client
@@ -91,6 +94,21 @@ export const clientLogin = async (req: Request, res: Response) => {
             return res.status(401).json({ success: false, error: 'Invalid workspace, email, or password' });
         }
 
+        const ssoBlock = await ssoService.ssoLoginBlock(user);
+        if (ssoBlock) return res.status(403).json(ssoBlock);
+
+        // Disabled by an owner or deprovisioned through SCIM.
+        const disabled = await prisma.workspaceMembership.count({
+            where: { organization_id: org.id, user_id: user.id, status: 'disabled' },
+        });
+        if (disabled) {
+            return res.status(403).json({ success: false, error: 'Your access to this workspace has been disabled' });
+        }
+
+        if (user.totp_enabled_at) {
+            return res.json(twoFactorChallenge(user.id));
+        }
+
         const token = generateToken(user);
         await prisma.user.update({
             where: { id: user.id },
@@ -128,6 +146,13 @@ export const clientLogin = async (req: Request, res: Response) => {
     }
 };
 
+function twoFactorChallenge(userId: string) {
+    return {
+        two_factor_required: true,
+        challenge_token: twoFactorService.issueLoginChallenge(userId),
+    };
+}
+
 export const login = async (req: Request, res: Response) => {
     try {
         const { email, password } = req.body;
@@ -220,6 +245,18 @@ export const login = async (req: Request, res: Response) => {
             });
         }
 
+        // Enforced SSO disables password login for the domain (agency
+        // owners excepted - see ssoLoginBlock).
+        const ssoBlock = await ssoService.ssoLoginBlock(user);
+        if (ssoBlock) return res.status(403).json(ssoBlock);
+
+        // Second factor. The password was right, but an enrolled user gets a
+        // short-lived challenge instead of a session; POST /auth/2fa/login
+        // completes it. The lockout counter resets only once that passes.
+        if (user.totp_enabled_at) {
+            return res.json(twoFactorChallenge(user.id));
+        }
+
         const token = generateToken(user);
 
         // Reset failed login counter on successful login
@@ -559,6 +596,106 @@ export const refreshToken = async (req: Request, res: Response) => {
     }
 };
 
+/**
+ * POST /api/auth/2fa/login
+ * Body: { challenge_token, code } or { challenge_token, recovery_code }
+ *
+ * Second step of a password or Google sign-in for a user with 2FA enabled.
+ * Wrong codes count toward the same lockout as wrong passwords. Returns the
+ * same payload as the login that issued the challenge.
+ */
+export const completeTwoFactorLogin = async (req: Request, res: Response) => {
+    try {
+        const { challenge_token, code, recovery_code } = req.body || {};
+        if (typeof challenge_token !== 'string' || (typeof code !== 'string' && typeof recovery_code !== 'string')) {
+            return res.status(400).json({ success: false, error: 'challenge_token and code or recovery_code are required' });
+        }
+
+        const userId = twoFactorService.verifyLoginChallenge(challenge_token);
+        const user = userId ? await prisma.user.findUnique({
+            where: { id: userId },
+            include: { organization: true },
+        }) : null;
+        if (!user) {
+            return res.status(401).json({ success: false, error: 'Sign-in expired. Please log in again.' });
+        }
+
+        if (user.locked_until && user.locked_until > new Date()) {
+            const minutesLeft = Math.ceil((user.locked_until.getTime() - Date.now()) / 60000);
+            return res.status(423).json({
+                success: false,
+                error: `Account temporarily locked. Try again in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}.`,
+            });
+        }
+
+        const method = await twoFactorService.verifySecondFactor(user.id, {
+            code: typeof code === 'string' ? code : null,
+            recoveryCode: typeof recovery_code === 'string' ? recovery_code : null,
+        });
+        if (!method) {
+            const newCount = (user.failed_login_count || 0) + 1;
+            const lockUntil = newCount >= 10 ? new Date(Date.now() + 15 * 60 * 1000) : null;
+            await prisma.user.update({
+                where: { id: user.id },
+                data: { failed_login_count: newCount, locked_until: lockUntil },
+            });
+            await recordSecurityEvent({
+                organizationId: user.organization_id, actorKind: 'user', actorId: user.id,
+                eventType: EVENT_TYPES.TWO_FACTOR_CHALLENGE_FAILED, metadata: { context: 'login', attempts: newCount }, req,
+            });
+            if (lockUntil) {
+                logger.warn('Account locked after too many failed 2FA attempts', { userId: user.id, attempts: newCount });
+                return res.status(423).json({
+                    success: false,
+                    error: 'Too many failed attempts. Account locked for 15 minutes.',
+                });
+            }
+            return res.status(401).json({ success: false, error: 'Invalid authentication code' });
+        }
+
+        await recordSecurityEvent({
+            organizationId: user.organization_id, actorKind: 'user', actorId: user.id,
+            eventType: method === 'recovery_code' ? EVENT_TYPES.TWO_FACTOR_RECOVERY_CODE_USED : EVENT_TYPES.TWO_FACTOR_CHALLENGE_PASSED,
+            metadata: { context: 'login' }, req,
+        });
+
+        const token = generateToken(user);
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { last_login_at: new Date(), failed_login_count: 0, locked_until: null },
+        });
+        if (user.scoped_organization_id) {
+            await prisma.workspaceMembership.updateMany({
+                where: { organization_id: user.organization_id, user_id: user.id },
+                data: { last_seen_at: new Date() },
+            });
+        }
+
+        logger.info('User logged in with 2FA', { userId: user.id, email: user.email, method });
+
+        setTokenCookie(res, token);
+
+        res.json({
+            token,
+            user: {
+                id: user.id,
+                email: user.email,
+                name: user.name,
+                role: user.role,
+                ...(user.scoped_organization_id ? { isClientUser: true } : {}),
+                organization: {
+                    id: user.organization.id,
+                    name: user.organization.name,
+                    slug: user.organization.slug
+                }
+            }
+        });
+    } catch (error: any) {
+        logger.error('2FA login error', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+};
+
 /**
  * Logout - clears the auth cookie.
  */
@@ -836,6 +973,13 @@ export const verifyEmail = async (req: Request, res: Response): Promise<void> =>
             },
         });
 
+        // Verified either way, but an enforced-SSO domain signs in at its IdP.
+        const ssoBlock = await ssoService.ssoLoginBlock(user);
+        if (ssoBlock) {
+            res.status(403).json(ssoBlock);
+            return;
+        }
+
         // Log the user straight in - they just proved control of the inbox.
         const jwtToken = generateToken(user);
         setTokenCookie(res, jwtToken);
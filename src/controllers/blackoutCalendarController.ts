@@ -0,0 +1,103 @@
+/**
+ * Blackout Calendar Controller
+ *
+ * Workspace-level (/api/sequencer/blackouts) and campaign-level
+ * (/api/sequencer/campaigns/:id/blackouts) no-send days. Both scopes share
+ * these handlers; the campaign scope is selected by the :id route param.
+ */
+
+import { Request, Response } from 'express';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import * as blackoutCalendarService from '../services/blackoutCalendarService';
+
+/** Campaign id for campaign-scoped routes, null for the workspace calendar. */
+function scopeOf(req: Request): string | null {
+    return req.params.id ? String(req.params.id) : null;
+}
+
+/**
+ * GET /api/sequencer/blackouts/holiday-sets
+ * Bundled country holiday sets, with this year's dates for the picker.
+ */
+export const listHolidaySets = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const year = Number(req.query.year) || new Date().getUTCFullYear();
+        const data = blackoutCalendarService.listHolidaySets().map(set => ({
+            ...set,
+            holidays: blackoutCalendarService.holidaysFor(set.country_code, year),
+        }));
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[BLACKOUTS] listHolidaySets failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to list holiday sets');
+    }
+};
+
+/**
+ * GET /api/sequencer/blackouts
+ * GET /api/sequencer/campaigns/:id/blackouts
+ * Rules at this scope only (a campaign's effective calendar also includes
+ * the workspace rules - see /upcoming).
+ */
+export const listBlackouts = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const data = await blackoutCalendarService.listBlackoutRules(orgId, scopeOf(req));
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[BLACKOUTS] listBlackouts failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to list blackout rules');
+    }
+};
+
+/**
+ * POST /api/sequencer/blackouts
+ * POST /api/sequencer/campaigns/:id/blackouts
+ * Body: { kind: 'date', start_date, end_date?, label? }
+ *     | { kind: 'recurring', month_day: 'MM-DD', label? }
+ *     | { kind: 'holiday_set', country_code }
+ */
+export const createBlackout = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const data = await blackoutCalendarService.createBlackoutRule(orgId, scopeOf(req), req.body || {});
+        return res.status(201).json({ success: true, data });
+    } catch (err) {
+        logger.error('[BLACKOUTS] createBlackout failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to create blackout rule');
+    }
+};
+
+/**
+ * DELETE /api/sequencer/blackouts/:ruleId
+ * DELETE /api/sequencer/campaigns/:id/blackouts/:ruleId
+ */
+export const deleteBlackout = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        await blackoutCalendarService.deleteBlackoutRule(orgId, scopeOf(req), String(req.params.ruleId));
+        return res.json({ success: true });
+    } catch (err) {
+        logger.error('[BLACKOUTS] deleteBlackout failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to delete blackout rule');
+    }
+};
+
+/**
+ * GET /api/sequencer/blackouts/upcoming?days=90
+ * GET /api/sequencer/campaigns/:id/blackouts/upcoming?days=90
+ * Effective blacked-out dates ahead (campaign scope merges workspace rules).
+ */
+export const previewBlackouts = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const days = Number(req.query.days) || 90;
+        const data = await blackoutCalendarService.previewBlackoutDates(orgId, scopeOf(req), days);
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[BLACKOUTS] previewBlackouts failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to preview blackout dates');
+    }
+};
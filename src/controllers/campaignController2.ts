@@ -12,9 +12,13 @@ import { prisma } from '../index';
 import { logger } from '../services/observabilityService';
 import { classifyLeadHealth } from '../services/leadHealthService';
 import * as entityStateService from '../services/entityStateService';
+import * as spamTrapRiskService from '../services/spamTrapRiskService';
+import * as contentSpamService from '../services/contentSpamService';
 import * as webhookBus from '../services/webhookEventBus';
 import { SlackAlertService } from '../services/SlackAlertService';
 import { respondWithError } from '../utils/httpErrorResponse';
+import { isValidTimezone } from '../utils/timezoneInference';
+import { stepTaskFields, validateStepTypes, channelForSteps } from '../services/sequenceTaskService';
 import { LeadState, TriggerType } from '../types';
 
 // ── Custom variable harvesting ────────────────────────────────────────
@@ -55,6 +59,23 @@ function collectCustomVariables(lead: Record<string, any>): Record<string, strin
     return out;
 }
 
+/**
+ * Optional variant-optimizer settings on a step payload (snake_case or the
+ * wizard's camelCase). Step saves recreate SequenceStep rows, so the settings
+ * must ride along or an edit would silently switch the optimizer off.
+ */
+function stepOptimizerFields(step: any): { optimizer_enabled?: boolean; optimizer_confidence?: number; optimizer_min_sends?: number } {
+    const opt = step.optimizer ?? {};
+    const enabled = step.optimizer_enabled ?? step.optimizerEnabled ?? opt.enabled;
+    const confidence = Number(step.optimizer_confidence ?? step.optimizerConfidence ?? opt.confidence);
+    const minSends = Number(step.optimizer_min_sends ?? step.optimizerMinSends ?? opt.min_sends);
+    return {
+        ...(typeof enabled === 'boolean' ? { optimizer_enabled: enabled } : {}),
+        ...(confidence > 0.5 && confidence < 1 ? { optimizer_confidence: confidence } : {}),
+        ...(Number.isInteger(minSends) && minSends >= 1 ? { optimizer_min_sends: minSends } : {}),
+    };
+}
+
 /**
  * GET /api/sequencer/campaigns
  * List SendCampaigns with pagination and status filter.
@@ -298,6 +319,12 @@ export const createCampaign = async (req: Request, res: Response): Promise<Respo
         } = req.body;
 
         if (!name) return res.status(400).json({ success: false, error: 'Campaign name is required' });
+        const recipientFallbackTz = schedule?.recipientFallbackTimezone ?? schedule?.recipient_fallback_timezone ?? null;
+        if (recipientFallbackTz && !isValidTimezone(recipientFallbackTz)) {
+            return res.status(400).json({ success: false, error: `Invalid recipient fallback timezone: ${recipientFallbackTz}` });
+        }
+        const stepTypeError = Array.isArray(steps) ? validateStepTypes(steps) : null;
+        if (stepTypeError) return res.status(400).json({ success: false, error: stepTypeError });
 
         // Drop lead rows without a usable email up front (blank CSV lines, malformed
         // rows). A single email-less row used to TypeError inside the transaction
@@ -320,6 +347,8 @@ export const createCampaign = async (req: Request, res: Response): Promise<Respo
         // Emails actually accepted into the campaign - populated inside the transaction,
         // consumed after it commits to forward-wire Protection Lead rows.
         let acceptedEmails: string[] = [];
+        // Import batch created for those leads, scored for spam-trap risk after commit.
+        let newImportBatchId: string | null = null;
 
         const campaign = await prisma.$transaction(async (tx) => {
             // 1. Create the campaign. Campaign.id has no DB default (the column was
@@ -331,7 +360,7 @@ export const createCampaign = async (req: Request, res: Response): Promise<Respo
                     organization_id: orgId,
                     name,
                     status: 'draft',
-                                        channel: 'email',
+                    channel: Array.isArray(steps) ? channelForSteps(steps) : 'email',
                     tags: tags || [],
                     // Schedule
                     schedule_timezone: schedule?.timezone || 'UTC',
@@ -341,6 +370,10 @@ export const createCampaign = async (req: Request, res: Response): Promise<Respo
                     daily_limit: schedule?.daily_limit ?? schedule?.dailyLimit ?? 50,
                     send_gap_minutes: schedule?.send_gap_minutes ?? schedule?.sendGapMinutes ?? 17,
                     start_date: schedule?.start_date ? new Date(schedule.start_date) : (schedule?.startDate ? new Date(schedule.startDate) : null),
+                    send_in_recipient_timezone: schedule?.sendInRecipientTimezone ?? schedule?.send_in_recipient_timezone ?? false,
+                    recipient_fallback_timezone: recipientFallbackTz,
+                    delay_business_days: schedule?.delayBusinessDays ?? schedule?.delay_business_days ?? false,
+                    send_time_optimization: schedule?.sendTimeOptimization ?? schedule?.send_time_optimization ?? false,
                     // Settings
                     esp_routing: settings?.esp_routing ?? settings?.espRouting ?? true,
                     stop_on_reply: settings?.stop_on_reply ?? settings?.stopOnReply ?? true,
@@ -371,6 +404,8 @@ export const createCampaign = async (req: Request, res: Response): Promise<Respo
                             subject: step.subject || '',
                             preheader: step.preheader ?? '',
                             body_html: bodyHtml,
+                            ...stepOptimizerFields(step),
+                            ...stepTaskFields(step),
                         },
                     });
 
@@ -423,11 +458,10 @@ export const createCampaign = async (req: Request, res: Response): Promise<Respo
                     skippedCrossCampaign = skipped;
                 }
 
-                // Org-level reply-suppression - leads who replied 'hard_no' /
-                // 'angry' to any prior campaign should never be re-contacted
-                // unless the operator manually removes them from the list.
-                const { getSuppressedEmailSet } = await import('../services/replyActionService');
-                const orgSuppressed = await getSuppressedEmailSet(
+                // Org-wide suppression list (unsubscribes, hard_no replies,
+                // complaints, CRM opt-outs, operator domain / pattern entries).
+                const { findSuppressed } = await import('../services/suppressionService');
+                const orgSuppressed = await findSuppressed(
                     orgId,
                     inputLeads.map((l: any) => l.email || '').filter(Boolean),
                 );
@@ -479,6 +513,7 @@ export const createCampaign = async (req: Request, res: Response): Promise<Respo
                         },
                     });
                     importBatchId = importBatch.id;
+                    newImportBatchId = importBatch.id;
                 }
 
                 const acceptedRows = accepted.map(({ lead, result, validation }) => ({
@@ -586,6 +621,14 @@ export const createCampaign = async (req: Request, res: Response): Promise<Respo
             }
         }
 
+        // Score the new batch for spam-trap risk before the dispatcher works
+        // through it. Best-effort - the 6h sweep picks up anything missed.
+        if (newImportBatchId) {
+            spamTrapRiskService.assessImportBatch(newImportBatchId).catch((err) => {
+                logger.warn('[CAMPAIGNS2] Spam-trap assessment failed for new import batch', { error: err?.message });
+            });
+        }
+
         // Re-fetch with relations
         const full = await prisma.campaign.findUnique({
             where: { id: campaign.id },
@@ -628,6 +671,7 @@ export const updateCampaign = async (req: Request, res: Response): Promise<Respo
         // Populated inside the transaction, consumed after commit to forward-wire
         // Protection Lead rows (assigned_campaign_id + status transition).
         let acceptedEmails: string[] = [];
+        let newImportBatchId: string | null = null;
 
         const campaign = await prisma.campaign.findFirst({
             where: { id: campaignId, organization_id: orgId },
@@ -647,9 +691,12 @@ export const updateCampaign = async (req: Request, res: Response): Promise<Respo
                 error: 'Completed or archived campaigns cannot be edited.',
             });
         }
+        const stepTypeError = wantsStepReplace ? validateStepTypes(steps) : null;
+        if (stepTypeError) return res.status(400).json({ success: false, error: stepTypeError });
 
         const scalarUpdate: any = {};
         if (name !== undefined) scalarUpdate.name = name;
+        if (wantsStepReplace) scalarUpdate.channel = channelForSteps(steps);
         if (tags !== undefined) scalarUpdate.tags = tags;
 
         if (schedule) {
@@ -661,6 +708,13 @@ export const updateCampaign = async (req: Request, res: Response): Promise<Respo
             const dailyLim = schedule.dailyLimit ?? schedule.daily_limit;
             const gap = schedule.sendGapMinutes ?? schedule.send_gap_minutes;
             const startDate = schedule.startDate ?? schedule.start_date;
+            const recipientTz = schedule.sendInRecipientTimezone ?? schedule.send_in_recipient_timezone;
+            const fallbackTz = schedule.recipientFallbackTimezone ?? schedule.recipient_fallback_timezone;
+            const businessDays = schedule.delayBusinessDays ?? schedule.delay_business_days;
+            const sto = schedule.sendTimeOptimization ?? schedule.send_time_optimization;
+            if (fallbackTz && !isValidTimezone(fallbackTz)) {
+                return res.status(400).json({ success: false, error: `Invalid recipient fallback timezone: ${fallbackTz}` });
+            }
 
             if (tz !== undefined) scalarUpdate.schedule_timezone = tz;
             if (startTime !== undefined) scalarUpdate.schedule_start_time = startTime;
@@ -669,6 +723,10 @@ export const updateCampaign = async (req: Request, res: Response): Promise<Respo
             if (dailyLim !== undefined) scalarUpdate.daily_limit = dailyLim;
             if (gap !== undefined) scalarUpdate.send_gap_minutes = gap;
             if (startDate !== undefined) scalarUpdate.start_date = startDate ? new Date(startDate) : null;
+            if (recipientTz !== undefined) scalarUpdate.send_in_recipient_timezone = !!recipientTz;
+            if (fallbackTz !== undefined) scalarUpdate.recipient_fallback_timezone = fallbackTz || null;
+            if (businessDays !== undefined) scalarUpdate.delay_business_days = !!businessDays;
+            if (sto !== undefined) scalarUpdate.send_time_optimization = !!sto;
         }
 
         if (settings) {
@@ -724,6 +782,8 @@ export const updateCampaign = async (req: Request, res: Response): Promise<Respo
                             subject: step.subject ?? '',
                             preheader: step.preheader ?? '',
                             body_html: step.body_html ?? step.bodyHtml ?? '',
+                            ...stepOptimizerFields(step),
+                            ...stepTaskFields(step),
                         },
                     });
                     if (Array.isArray(step.variants) && step.variants.length > 0) {
@@ -790,6 +850,13 @@ export const updateCampaign = async (req: Request, res: Response): Promise<Respo
                     const { kept } = applySuppression(effectiveAddList, suppressed);
                     effectiveAddList = kept;
                 }
+                const { findSuppressed } = await import('../services/suppressionService');
+                const orgSuppressed = await findSuppressed(orgId, effectiveAddList.map((l: any) => String(l.email || '')));
+                if (orgSuppressed.size > 0) {
+                    effectiveAddList = effectiveAddList.filter((l: any) =>
+                        !orgSuppressed.has(String(l.email || '').trim().toLowerCase()),
+                    );
+                }
 
                 const classifications = await Promise.all(
                     effectiveAddList.map(async (lead: any) => {
@@ -832,6 +899,7 @@ export const updateCampaign = async (req: Request, res: Response): Promise<Respo
                         },
                     });
                     importBatchId = importBatch.id;
+                    newImportBatchId = importBatch.id;
                 }
 
                 const acceptedRows = accepted.map(({ lead, result, validation }) => ({
@@ -906,6 +974,14 @@ export const updateCampaign = async (req: Request, res: Response): Promise<Respo
             }
         }
 
+        // Score the new batch for spam-trap risk before the dispatcher works
+        // through it. Best-effort - the 6h sweep picks up anything missed.
+        if (newImportBatchId) {
+            spamTrapRiskService.assessImportBatch(newImportBatchId).catch((err) => {
+                logger.warn('[CAMPAIGNS2] Spam-trap assessment failed for new import batch', { error: err?.message });
+            });
+        }
+
         const updated = await prisma.campaign.findUnique({ where: { id: campaignId } });
         return res.json({ success: true, data: updated });
     } catch (error: any) {
@@ -963,6 +1039,18 @@ export const launchCampaign = async (req: Request, res: Response): Promise<Respo
         if (stepCount === 0) return res.status(400).json({ success: false, error: 'Campaign has no sequence steps' });
         if (accountCount === 0) return res.status(400).json({ success: false, error: 'Campaign has no connected accounts' });
 
+        // Content spam gate - refuse to launch while any step scores above
+        // the org threshold (SequencerSettings.content_spam_threshold).
+        const contentReport = await contentSpamService.scoreCampaign(orgId, campaignId);
+        if (contentReport.blocked) {
+            const over = contentReport.steps.filter(s => s.over_threshold);
+            return res.status(400).json({
+                success: false,
+                error: `Content spam score above ${contentReport.threshold} on step${over.length === 1 ? '' : 's'} ${over.map(s => s.step_number).join(', ')}`,
+                data: { threshold: contentReport.threshold, steps: over },
+            });
+        }
+
         const updated = await prisma.campaign.update({
             where: { id: campaignId },
             data: {
@@ -1294,6 +1382,128 @@ export const getCampaignSuppression = async (req: Request, res: Response): Promi
     }
 };
 
+/**
+ * GET /api/sequencer/campaigns/:id/personalization
+ *
+ * Pre-launch template check. Parses every step / variant (syntax issues) and
+ * renders them against every active or paused lead, returning each lead whose
+ * content would hit an unresolved token - the same rule the dispatcher uses
+ * to pause leads with paused_reason='unresolved_tokens'. Read-only.
+ */
+export const getPersonalizationReport = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const campaignId = String(req.params.id);
+        const { validateCampaignPersonalization } = await import('../services/personalizationService');
+        const report = await validateCampaignPersonalization(orgId, campaignId);
+        if (!report) return res.status(404).json({ success: false, error: 'Campaign not found' });
+        return res.json({ success: true, data: report });
+    } catch (err) {
+        logger.error('[CAMPAIGNS2] getPersonalizationReport failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to validate personalization');
+    }
+};
+
+/**
+ * GET /api/sequencer/campaigns/:id/graph
+ *
+ * Node/edge definition for the visual sequence builder. Campaigns still in
+ * linear mode return sequence_mode='linear' and an empty graph.
+ */
+export const getSequenceGraph = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const campaignId = String(req.params.id);
+        const campaign = await prisma.campaign.findFirst({ where: { id: campaignId, organization_id: orgId }, select: { id: true } });
+        if (!campaign) return res.status(404).json({ success: false, error: 'Campaign not found' });
+        const { getCampaignGraph } = await import('../services/sequenceGraphService');
+        return res.json({ success: true, data: await getCampaignGraph(campaignId) });
+    } catch (err) {
+        logger.error('[CAMPAIGNS2] getSequenceGraph failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to load sequence graph');
+    }
+};
+
+/**
+ * PUT /api/sequencer/campaigns/:id/graph
+ * Body: { nodes: [{ key, type, step_number?, config?, is_entry?, position? }],
+ *         edges: [{ from, to, condition?, weight?, priority? }] }
+ *
+ * Replaces the graph and switches the campaign to graph mode. Validation
+ * failures (cycle, missing entry, dangling edge, ...) are a 400 listing every
+ * problem; removing a node leads are parked on is a 409.
+ */
+export const saveSequenceGraph = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const campaignId = String(req.params.id);
+        const { nodes, edges } = req.body || {};
+        if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+            return res.status(400).json({ success: false, error: 'nodes and edges arrays are required' });
+        }
+        const campaign = await prisma.campaign.findFirst({ where: { id: campaignId, organization_id: orgId }, select: { id: true } });
+        if (!campaign) return res.status(404).json({ success: false, error: 'Campaign not found' });
+        const { saveCampaignGraph, getCampaignGraph } = await import('../services/sequenceGraphService');
+        await saveCampaignGraph(campaignId, nodes, edges);
+        return res.json({ success: true, data: await getCampaignGraph(campaignId) });
+    } catch (err) {
+        logger.error('[CAMPAIGNS2] saveSequenceGraph failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to save sequence graph');
+    }
+};
+
+/**
+ * POST /api/sequencer/campaigns/:id/graph/migrate
+ *
+ * One-way conversion of a linear sequence (steps + condition/branch) into
+ * the equivalent graph. In-flight leads keep their place and pending delays.
+ */
+export const migrateSequenceToGraph = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const campaignId = String(req.params.id);
+        const campaign = await prisma.campaign.findFirst({ where: { id: campaignId, organization_id: orgId }, select: { id: true } });
+        if (!campaign) return res.status(404).json({ success: false, error: 'Campaign not found' });
+        const { migrateLinearCampaign } = await import('../services/sequenceGraphService');
+        const result = await migrateLinearCampaign(campaignId);
+        return res.json({ success: true, data: result });
+    } catch (err) {
+        logger.error('[CAMPAIGNS2] migrateSequenceToGraph failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to migrate sequence');
+    }
+};
+
+/**
+ * PUT /api/sequencer/campaigns/:id/steps/:stepNumber/optimizer
+ * Body: { enabled?: boolean, confidence?: number (0.5-1), min_sends?: number }
+ *
+ * Opt a step into (or out of) the Thompson-sampling variant optimizer.
+ * Enabling restarts the test; the weight timeline is served by
+ * GET /api/sequencer/analytics/variant-weights.
+ */
+export const configureStepOptimizer = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const campaignId = String(req.params.id);
+        const stepNumber = parseInt(String(req.params.stepNumber), 10);
+        if (!Number.isInteger(stepNumber)) return res.status(400).json({ success: false, error: 'Invalid step number' });
+        const { enabled, confidence, min_sends } = req.body || {};
+        if (enabled !== undefined && typeof enabled !== 'boolean') {
+            return res.status(400).json({ success: false, error: 'enabled must be a boolean' });
+        }
+        const svc = await import('../services/variantOptimizerService');
+        const data = await svc.configureStepOptimizer(orgId, campaignId, stepNumber, {
+            enabled,
+            confidence: confidence !== undefined ? Number(confidence) : undefined,
+            min_sends: min_sends !== undefined ? Number(min_sends) : undefined,
+        });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[CAMPAIGNS2] configureStepOptimizer failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to update step optimizer');
+    }
+};
+
 /**
  * GET /api/sequencer/campaigns/lead-picker
  * Query: campaign_ids=csv,uuid,…  [search=]  [offset=0]  [limit=50]
@@ -0,0 +1,30 @@
+/**
+ * Campaign Simulator Controller
+ *
+ * Dry-run projection of a campaign's send schedule under
+ * /api/sequencer/campaigns/:id/simulation. Read-only - see
+ * campaignSimulatorService.
+ */
+
+import { Request, Response } from 'express';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import * as campaignSimulatorService from '../services/campaignSimulatorService';
+
+/**
+ * GET /api/sequencer/campaigns/:id/simulation?days=90
+ * Day-by-day sends per mailbox, estimated completion date and the leads the
+ * execution / lead-health gates would block. Nothing is written.
+ */
+export const simulateCampaign = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const days = Number(req.query.days) || campaignSimulatorService.SIMULATION_DEFAULT_DAYS;
+        const data = await campaignSimulatorService.simulateCampaign(orgId, String(req.params.id), { days });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[CAMPAIGN_SIM] simulateCampaign failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to simulate campaign');
+    }
+};
@@ -10,6 +10,8 @@
  *   POST   /api/cold-call-list/custom/generate      → run custom rules now
  *   POST   /api/cold-call-list/custom/csv           → run + persist + CSV download
  *   GET    /api/cold-call-list/active-campaigns     → for the campaign-filter UI
+ *   GET    /api/cold-call-list/tasks                → open call tasks from sequences
+ *   GET    /api/cold-call-list/tasks/csv            → CSV download of those tasks
  */
 
 import { Request, Response } from 'express';
@@ -28,6 +30,7 @@ import {
     getWorkspaceTimezone,
     generateDailySnapshot,
     buildCustomRotationExclusion,
+    listCallTaskProspects,
 } from '../services/coldCallListService';
 
 // ─── Settings ────────────────────────────────────────────────────────────────
@@ -237,6 +240,45 @@ export const downloadCustomListCsv = async (req: Request, res: Response): Promis
     }
 };
 
+// ─── Call tasks (multichannel sequence steps) ────────────────────────────────
+
+/** ?assigned=me|unassigned (default: everyone's) & ?due_within_hours=N */
+function callTaskOptions(req: Request): Parameters<typeof listCallTaskProspects>[1] {
+    const assigned = String(req.query.assigned ?? '');
+    const dueWithin = toInt(req.query.due_within_hours, 0);
+    return {
+        assignedUserId: assigned === 'me'
+            ? ((req as Request & { orgContext?: { userId?: string } }).orgContext?.userId ?? null)
+            : assigned === 'unassigned' ? null : undefined,
+        dueBefore: dueWithin > 0 ? new Date(Date.now() + clamp(dueWithin, 1, 24 * 30) * 3_600_000) : undefined,
+    };
+}
+
+export const getCallTasks = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const prospects = await listCallTaskProspects(orgId, callTaskOptions(req));
+        return res.json({ success: true, prospects });
+    } catch (err) {
+        logger.error('[COLD-CALL] getCallTasks failed', err instanceof Error ? err : new Error(String(err)));
+        return res.status(500).json({ success: false, error: 'Failed to load call tasks' });
+    }
+};
+
+export const downloadCallTasksCsv = async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+        const orgId = getOrgId(req);
+        const prospects = await listCallTaskProspects(orgId, callTaskOptions(req));
+        const csv = buildCsv(prospects, 'call_tasks');
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="superkabe-call-tasks-${csvTimestamp(new Date())}.csv"`);
+        return res.send(csv);
+    } catch (err) {
+        logger.error('[COLD-CALL] downloadCallTasksCsv failed', err instanceof Error ? err : new Error(String(err)));
+        return res.status(500).json({ success: false, error: 'Failed to download CSV' });
+    }
+};
+
 // ─── Manual cron trigger (admin only) ────────────────────────────────────────
 //
 // Spec is explicit that users cannot regenerate the system list (it's "today's
@@ -284,7 +326,7 @@ const CSV_HEADERS = [
 // injection - call-list names/companies come from ingested leads.
 const csvEscape = escapeCsvField;
 
-function buildCsv(prospects: ProspectRow[], source: 'system_daily' | 'custom'): string {
+function buildCsv(prospects: ProspectRow[], source: 'system_daily' | 'custom' | 'call_tasks'): string {
     const lines = [CSV_HEADERS.join(',')];
     for (const p of prospects) {
         lines.push(
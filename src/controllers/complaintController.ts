@@ -0,0 +1,53 @@
+/**
+ * Complaint Controller
+ *
+ * ARF spam-complaint ingestion and listing under /api/complaints. The POST
+ * takes the raw feedback-loop message for FBLs we don't poll over IMAP -
+ * see complaintFeedbackService.
+ */
+
+import { Request, Response } from 'express';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import * as complaintFeedbackService from '../services/complaintFeedbackService';
+
+/**
+ * POST /api/complaints/arf
+ * Body: the raw RFC 5965 report as message/rfc822 or text/plain, or JSON
+ * `{ raw }`. Duplicates and not-spam reports are acknowledged with 200.
+ */
+export const ingestArf = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const raw = typeof req.body === 'string' ? req.body : req.body?.raw;
+        const data = await complaintFeedbackService.ingestArfReport(typeof raw === 'string' ? raw : '', {
+            organizationId: orgId,
+            source: 'api',
+        });
+        return res.status(data.status === 'recorded' ? 201 : 200).json({ success: true, data });
+    } catch (err) {
+        logger.error('[COMPLAINT] ingestArf failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to ingest complaint report');
+    }
+};
+
+/**
+ * GET /api/complaints?mailbox_id=&campaign_id=&since=&limit=
+ */
+export const listComplaints = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const since = req.query.since ? new Date(String(req.query.since)) : undefined;
+        const data = await complaintFeedbackService.listComplaints(orgId, {
+            mailboxId: req.query.mailbox_id ? String(req.query.mailbox_id) : undefined,
+            campaignId: req.query.campaign_id ? String(req.query.campaign_id) : undefined,
+            since: since && !Number.isNaN(since.getTime()) ? since : undefined,
+            limit: req.query.limit ? Number(req.query.limit) || undefined : undefined,
+        });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[COMPLAINT] listComplaints failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to list complaints');
+    }
+};
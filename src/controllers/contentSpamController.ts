@@ -0,0 +1,64 @@
+/**
+ * Content Spam Controller
+ *
+ * Spam-score endpoints for the template and campaign editors. See
+ * contentSpamService for the checks and scoring.
+ */
+
+import { Request, Response } from 'express';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import { AppError } from '../utils/appError';
+import * as contentSpamService from '../services/contentSpamService';
+
+/**
+ * POST /api/sequencer/content-score
+ * Body: { subject, preheader?, body_html, body_text? }
+ * Scores unsaved editor content.
+ */
+export const scoreDraft = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { subject, preheader, body_html, body_text } = req.body || {};
+        if (typeof body_html !== 'string' && typeof body_text !== 'string') {
+            throw new AppError('body_html or body_text is required', 400);
+        }
+        const data = await contentSpamService.scoreContent({
+            subject: typeof subject === 'string' ? subject : '',
+            preheader: typeof preheader === 'string' ? preheader : null,
+            bodyHtml: typeof body_html === 'string' ? body_html : '',
+            bodyText: typeof body_text === 'string' ? body_text : null,
+        });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[CONTENT_SPAM] scoreDraft failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to score content');
+    }
+};
+
+/**
+ * GET /api/sequencer/templates/:id/spam-score
+ */
+export const scoreTemplate = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await contentSpamService.scoreTemplate(getOrgId(req), String(req.params.id));
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[CONTENT_SPAM] scoreTemplate failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to score template');
+    }
+};
+
+/**
+ * GET /api/sequencer/campaigns/:id/spam-score
+ * Per-step scores (worst variant wins) against the org's launch threshold.
+ */
+export const scoreCampaign = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await contentSpamService.scoreCampaign(getOrgId(req), String(req.params.id));
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[CONTENT_SPAM] scoreCampaign failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to score campaign content');
+    }
+};
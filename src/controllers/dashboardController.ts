@@ -12,6 +12,7 @@ import * as routingService from '../services/routingService';
 import * as leadHealthService from '../services/leadHealthService';
 import * as campaignHealthService from '../services/campaignHealthService';
 import * as entityStateService from '../services/entityStateService';
+import * as providerThrottleService from '../services/providerThrottleService';
 import { MailboxState, DomainState, TriggerType } from '../types';
 import { logger } from '../services/observabilityService';
 import { escapeCsvField } from '../utils/csv';
@@ -742,8 +743,17 @@ export const getMailboxes = async (req: Request, res: Response, next: NextFuncti
 
         logger.info(`[DEBUG] getMailboxes: orgId=${orgId} total=${total} returned=${mailboxes.length} where=${JSON.stringify(where)}`);
 
+        // Learned per-provider throttles, keyed by the sending account id.
+        const throttles = await providerThrottleService.listForMailboxes(
+            orgId,
+            mailboxes.map(m => m.connected_account_id || m.id),
+        );
+
         res.json({
-            data: mailboxes,
+            data: mailboxes.map(m => ({
+                ...m,
+                provider_throttles: throttles.get(m.connected_account_id || m.id) || [],
+            })),
             meta: { total, page, limit, totalPages: Math.ceil(total / limit) }
         });
     } catch (error) {
@@ -1861,12 +1871,12 @@ export const generateReport = async (req: Request, res: Response, next: NextFunc
         // ---- SUPPRESSION (org-wide + campaign-scoped) ----
         if (reportType === 'suppression' || reportType === 'full') {
             // Two flavors of suppression in the system:
-            //   - OrgReplySuppression: org-wide, driven by reply auto-actions (e.g. hard_no)
+            //   - SuppressionEntry: the org-wide list (email / domain / pattern)
             //   - CampaignSuppression: per-campaign rules set on create / addLeads
             // Report unions both into one CSV with a `scope` column so the
             // operator can see every suppression source in one view.
             const [orgSupp, campaignSupp] = await Promise.all([
-                prisma.orgReplySuppression.findMany({
+                prisma.suppressionEntry.findMany({
                     where: { organization_id: orgId, created_at: { gte: startDate, lte: endDate } },
                     orderBy: { created_at: 'desc' },
                     take: 50000,
@@ -1895,9 +1905,9 @@ export const generateReport = async (req: Request, res: Response, next: NextFunc
             const orgRows = orgSupp.map(s => ({
                 scope: 'org-wide',
                 campaign_name: '',
-                kind: 'email',
-                target: s.email,
-                reason: s.reason || '',
+                kind: s.type,
+                target: s.value,
+                reason: [s.reason, s.source, s.expires_at ? `expires ${s.expires_at.toISOString()}` : null].filter(Boolean).join(' / '),
                 created_at: s.created_at?.toISOString() || '',
             }));
             const campRows = campaignSupp.map(s => ({
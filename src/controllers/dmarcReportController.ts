@@ -0,0 +1,68 @@
+/**
+ * DMARC Report Controller
+ *
+ * DMARC aggregate (RUA) report upload and the alignment dashboard under
+ * /api/infrastructure. See dmarcReportService.
+ */
+
+import { Request, Response } from 'express';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import * as dmarcReportService from '../services/dmarcReportService';
+
+/**
+ * POST /api/infrastructure/dmarc-reports
+ * Body: the report file as sent by the receiver (.xml, .xml.gz, .zip) or the
+ * whole report email (message/rfc822). JSON `{ content_base64 }` also works.
+ */
+export const uploadReport = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const payload = Buffer.isBuffer(req.body)
+            ? req.body
+            : typeof req.body?.content_base64 === 'string'
+                ? Buffer.from(req.body.content_base64, 'base64')
+                : Buffer.alloc(0);
+        const reports = await dmarcReportService.ingestDmarcPayload(orgId, payload, 'upload');
+        const stored = reports.some(r => r.status === 'stored');
+        return res.status(stored ? 201 : 200).json({ success: true, data: { reports } });
+    } catch (err) {
+        logger.error('[DMARC] uploadReport failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to ingest DMARC report');
+    }
+};
+
+/** GET /api/infrastructure/dmarc-reports?domain_id=&limit= */
+export const listReports = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const data = await dmarcReportService.listReports(orgId, {
+            domainId: req.query.domain_id ? String(req.query.domain_id) : undefined,
+            limit: Number(req.query.limit) || undefined,
+        });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[DMARC] listReports failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to list DMARC reports');
+    }
+};
+
+/**
+ * GET /api/infrastructure/dmarc/alignment?days=30&domain_id=
+ * Per-domain pass rates, per-source-IP SPF/DKIM alignment and unauthorized
+ * senders.
+ */
+export const getAlignment = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const data = await dmarcReportService.getAlignmentDashboard(orgId, {
+            days: Number(req.query.days) || undefined,
+            domainId: req.query.domain_id ? String(req.query.domain_id) : undefined,
+        });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[DMARC] getAlignment failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to load DMARC alignment');
+    }
+};
@@ -122,6 +122,7 @@ export const getEntityFindings = async (req: Request, res: Response) => {
             entity_name: finding.entityName,
             recommendation: finding.remediation,
             category: finding.category,
+            suggested_record: finding.record || null,
             inherited_from: finding.inherited_from || null
         }));
 
@@ -10,6 +10,8 @@ import { welcomeEmail } from '../services/emailTemplates/welcome';
 import { internalNewSignupAlert } from '../services/emailTemplates/internalNewSignupAlert';
 import { buildFrontendUrl } from '../services/emailTemplates/requesterContext';
 import { JWT_SECRET } from '../utils/jwtSecret';
+import * as twoFactorService from '../services/twoFactorService';
+import * as ssoService from '../services/ssoService';
 
 const TOKEN_EXPIRY = '3d'; // 3-day token lifetime
 const COOKIE_MAX_AGE = 3 * 24 * 60 * 60 * 1000; // 3 days in ms
@@ -273,6 +275,14 @@ export const handleGoogleCallback = async (req: Request, res: Response) => {
             include: { organization: true }
         });
 
+        // Google is not the domain's IdP: an enforced-SSO domain (new or
+        // existing user) is sent to its SSO start URL instead.
+        const ssoBlock = await ssoService.ssoLoginBlock(user ?? { email: googleUser.email });
+        if (ssoBlock) {
+            logger.info('[GoogleAuth] SSO enforced for domain - redirecting to IdP', { email: googleUser.email });
+            return res.redirect(ssoBlock.sso_url);
+        }
+
         if (user) {
             // Existing user - update Google OAuth fields and log in
             logger.info('[GoogleAuth] Existing user found', { userId: user.id });
@@ -295,6 +305,13 @@ export const handleGoogleCallback = async (req: Request, res: Response) => {
 
             logger.info('[GoogleAuth] Updated existing user with Google OAuth', { userId: user.id });
 
+            // Google proves the first factor only. Enrolled users finish on the
+            // 2FA screen, which trades this challenge for the session.
+            if (user.totp_enabled_at) {
+                const challenge = twoFactorService.issueLoginChallenge(user.id);
+                return res.redirect(`${appUrl}/login/two-factor?challenge=${encodeURIComponent(challenge)}`);
+            }
+
             const token = generateToken({
                 id: user.id,
                 email: user.email,
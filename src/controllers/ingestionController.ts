@@ -18,6 +18,7 @@ import * as leadHealthService from '../services/leadHealthService';
 import * as leadAssignmentService from '../services/leadAssignmentService';
 import * as entityStateService from '../services/entityStateService';
 import * as emailValidationService from '../services/emailValidationService';
+import * as suppressionService from '../services/suppressionService';
 import { enrollLeadInSequencerCampaign } from '../services/sequencerEnrollmentService';
 import * as redisUtils from '../utils/redis';
 import { getOrgId } from '../middleware/orgContext';
@@ -70,6 +71,37 @@ export async function processLead(
     const email = input.email.toLowerCase().trim();
     const logTag = source === 'clay' ? 'INGEST CLAY' : 'INGEST';
 
+    // === 0a. SUPPRESSION LIST (before validation spends a credit) ===
+    // A suppressed address never enters the pipeline - no upsert, no routing.
+    const suppressionHit = await suppressionService.isSuppressed(organizationId, email);
+    if (suppressionHit) {
+        const reason = suppressionService.describeHit(suppressionHit);
+        logger.info(`[${logTag}] SUPPRESSED lead ${email}: ${reason}`);
+        await auditLogService.logAction({
+            organizationId,
+            entity: 'lead',
+            entityId: email,
+            trigger: 'suppression_list',
+            action: 'suppressed',
+            details: `Lead ingest skipped (${source}): ${reason}`
+        });
+
+        const existing = await prisma.lead.findUnique({
+            where: { organization_id_email: { organization_id: organizationId, email } },
+            select: { id: true },
+        });
+        return {
+            success: true,
+            leadId: existing?.id || '',
+            healthClassification: 'suppressed',
+            healthScore: 0,
+            blockReasons: [reason],
+            assignedCampaignId: null,
+            pushedToPlatform: false,
+            message: 'Lead is on the suppression list',
+        };
+    }
+
     // === 0. EMAIL VALIDATION (before health gate) ===
     // Fetch org tier to gate MillionVerifier API usage
     const org = await prisma.organization.findUnique({
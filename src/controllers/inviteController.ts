@@ -32,6 +32,8 @@ import { workspaceInviteEmail } from '../services/emailTemplates/workspaceInvite
 import { recordConsent, extractClientIp, extractUserAgent } from '../services/consentService';
 import { TOS_VERSION, PRIVACY_VERSION, TOS_PATH, PRIVACY_PATH } from '../constants/legalDocVersions';
 import { CAPABILITY_KEYS } from '../middleware/requireCapability';
+import { resolveRoleForAccount } from '../services/roleService';
+import { AppError } from '../utils/appError';
 
 const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
@@ -55,7 +57,10 @@ class InviteRaceError extends Error {
 
 /**
  * POST /api/agency/workspaces/:id/invites
- * Body: { email: string, displayName?: string, capabilities: string[] }
+ * Body: { email: string, displayName?: string, capabilities: string[], roleId?: string }
+ *
+ * With roleId the membership created on acceptance holds that custom role and
+ * `capabilities` is ignored.
  *
  * Agency-owner only. Creates a WorkspaceInvite row and sends the magic-link
  * email. If a previous pending invite exists for the same (workspace, email),
@@ -92,7 +97,7 @@ export const createWorkspaceInvite = async (req: Request, res: Response): Promis
             return;
         }
 
-        const body = req.body as { email?: unknown; displayName?: unknown; capabilities?: unknown };
+        const body = req.body as { email?: unknown; displayName?: unknown; capabilities?: unknown; roleId?: unknown };
         const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
         const displayName = typeof body.displayName === 'string' ? body.displayName.trim() || null : null;
         const capsInput = Array.isArray(body.capabilities) ? body.capabilities : [];
@@ -104,6 +109,15 @@ export const createWorkspaceInvite = async (req: Request, res: Response): Promis
             return;
         }
 
+        let role: { id: string; name: string } | null = null;
+        try {
+            role = me.account_id ? await resolveRoleForAccount(me.account_id, body.roleId) : null;
+        } catch (roleErr) {
+            if (!(roleErr instanceof AppError)) throw roleErr;
+            res.status(roleErr.statusCode).json({ success: false, error: roleErr.message });
+            return;
+        }
+
         // Block creating an invite for an email already actively a member of
         // this workspace - prevents accidental capability overrides without
         // an explicit "edit" path.
@@ -132,7 +146,8 @@ export const createWorkspaceInvite = async (req: Request, res: Response): Promis
                 organization_id: workspaceId,
                 email,
                 display_name: displayName,
-                capabilities,
+                capabilities: role ? [] : capabilities,
+                role_id: role?.id ?? null,
                 token_hash: tokenHash,
                 expires_at: expiresAt,
                 created_by_user_id: userId,
@@ -194,7 +209,8 @@ export const createWorkspaceInvite = async (req: Request, res: Response): Promis
                 id: invite.id,
                 email,
                 displayName,
-                capabilities,
+                capabilities: role ? [] : capabilities,
+                role,
                 status: 'pending_invite',
                 createdAt: invite.created_at.toISOString(),
                 expiresAt: expiresAt.toISOString(),
@@ -369,6 +385,7 @@ export const completeInvite = async (req: Request, res: Response): Promise<void>
                         organization_id: orgId,
                         user_id: user.id,
                         capabilities: invite.capabilities,
+                        role_id: invite.role_id,
                         status: 'active',
                     },
                 });
@@ -211,7 +211,7 @@ export async function startExport(req: Request, res: Response): Promise<Response
     }
 
     const {
-        prospect_ids,
+        prospect_ids: requestedIds,
         campaign_id,
         campaign_name,
         created_campaign,
@@ -226,6 +226,22 @@ export async function startExport(req: Request, res: Response): Promise<Response
         source_label?: string;
     };
 
+    // 'call_tasks' without an explicit selection exports every open call
+    // task from multichannel sequences (soonest due first).
+    let prospect_ids = requestedIds;
+    if (source_kind === 'call_tasks' && !Array.isArray(prospect_ids)) {
+        const tasks = await prisma.sequenceTask.findMany({
+            where: { organization_id: orgId, type: 'call', status: 'open', lead: { status: 'active' } },
+            orderBy: { due_at: 'asc' },
+            take: MAX_EXPORT_LEADS,
+            select: { campaign_lead_id: true },
+        });
+        prospect_ids = Array.from(new Set(tasks.map(t => t.campaign_lead_id)));
+        if (prospect_ids.length === 0) {
+            return res.status(400).json({ success: false, error: 'No open call tasks to export' });
+        }
+    }
+
     if (!Array.isArray(prospect_ids) || prospect_ids.length === 0) {
         return res.status(400).json({ success: false, error: 'prospect_ids is required' });
     }
@@ -0,0 +1,101 @@
+/**
+ * Lead Override Controller
+ *
+ * Per-lead sequence changes under /api/sequencer/campaigns/:id/leads/:leadId:
+ * step edits, skips, injected manual emails, pushing the next send, and the
+ * audit trail of who did what. See leadOverrideService.
+ */
+
+import { Request, Response } from 'express';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import * as leadOverrideService from '../services/leadOverrideService';
+
+function actorOf(req: Request): leadOverrideService.OverrideActor {
+    return { userId: req.orgContext?.userId, ipAddress: req.ip };
+}
+
+/**
+ * GET /api/sequencer/campaigns/:id/leads/:leadId/overrides
+ * All overrides on the lead, newest first.
+ */
+export const listLeadOverrides = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const data = await leadOverrideService.listLeadOverrides(orgId, String(req.params.id), String(req.params.leadId));
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[LEAD_OVERRIDES] listLeadOverrides failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to list lead overrides');
+    }
+};
+
+/**
+ * POST /api/sequencer/campaigns/:id/leads/:leadId/overrides
+ * Body: { kind: 'edit', step_number, subject?, body_html }
+ *     | { kind: 'skip', step_number }
+ *     | { kind: 'inject', subject?, body_html }
+ */
+export const createLeadOverride = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const data = await leadOverrideService.createLeadOverride(
+            orgId, String(req.params.id), String(req.params.leadId), req.body || {}, actorOf(req),
+        );
+        return res.status(201).json({ success: true, data });
+    } catch (err) {
+        logger.error('[LEAD_OVERRIDES] createLeadOverride failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to create lead override');
+    }
+};
+
+/**
+ * DELETE /api/sequencer/campaigns/:id/leads/:leadId/overrides/:overrideId
+ * Cancels a pending override. Applied overrides are history and stay.
+ */
+export const cancelLeadOverride = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        await leadOverrideService.cancelLeadOverride(
+            orgId, String(req.params.id), String(req.params.leadId), String(req.params.overrideId), actorOf(req),
+        );
+        return res.json({ success: true });
+    } catch (err) {
+        logger.error('[LEAD_OVERRIDES] cancelLeadOverride failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to cancel lead override');
+    }
+};
+
+/**
+ * POST /api/sequencer/campaigns/:id/leads/:leadId/push
+ * Body: { days } - move the next send out without pausing the lead.
+ */
+export const pushLeadNextSend = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const data = await leadOverrideService.pushLeadNextSend(
+            orgId, String(req.params.id), String(req.params.leadId), req.body?.days, actorOf(req),
+        );
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[LEAD_OVERRIDES] pushLeadNextSend failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to push next send');
+    }
+};
+
+/**
+ * GET /api/sequencer/campaigns/:id/leads/:leadId/history?limit=100
+ * Audit trail of manual changes to the lead (who, what, when).
+ */
+export const getLeadHistory = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const limit = Number(req.query.limit) || 100;
+        const data = await leadOverrideService.getLeadHistory(orgId, String(req.params.id), String(req.params.leadId), limit);
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[LEAD_OVERRIDES] getLeadHistory failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to load lead history');
+    }
+};
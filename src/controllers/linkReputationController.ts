@@ -0,0 +1,57 @@
+/**
+ * Link Reputation Controller
+ *
+ * Blocklist status of tracking and link domains under /api/link-reputation,
+ * the steps held because of them, and an on-demand re-check. See
+ * linkReputationService.
+ */
+
+import { Request, Response } from 'express';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import * as linkReputationService from '../services/linkReputationService';
+
+/**
+ * GET /api/link-reputation/domains?status=&limit=
+ * Monitored domains, listed first.
+ */
+export const listDomains = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await linkReputationService.listDomains(getOrgId(req), {
+            status: req.query.status ? String(req.query.status) : undefined,
+            limit: req.query.limit ? Number(req.query.limit) || undefined : undefined,
+        });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[LINK_REPUTATION] listDomains failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to list link domains');
+    }
+};
+
+/**
+ * GET /api/link-reputation/paused-steps
+ */
+export const listPausedSteps = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await linkReputationService.listPausedSteps(getOrgId(req));
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[LINK_REPUTATION] listPausedSteps failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to list paused steps');
+    }
+};
+
+/**
+ * POST /api/link-reputation/check
+ * Re-check this org's domains now instead of waiting for the next sweep.
+ */
+export const checkNow = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await linkReputationService.runSweep(getOrgId(req));
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[LINK_REPUTATION] checkNow failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to check link domains');
+    }
+};
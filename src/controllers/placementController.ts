@@ -0,0 +1,137 @@
+/**
+ * Placement Controller
+ *
+ * Seed-list inbox placement tests under /api/placement: the seed inboxes,
+ * test runs, and per-mailbox placement history. See placementTestService.
+ */
+
+import { Request, Response } from 'express';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import * as placementTestService from '../services/placementTestService';
+import { runOnce as runPlacementWorker } from '../workers/placementTestWorker';
+
+const HISTORY_DEFAULT_DAYS = 90;
+
+/**
+ * GET /api/placement/seeds
+ */
+export const listSeeds = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await placementTestService.listSeeds(getOrgId(req));
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[PLACEMENT] listSeeds failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to list seed inboxes');
+    }
+};
+
+/**
+ * POST /api/placement/seeds
+ * Body: { email, imap_password, provider?, imap_host?, imap_port?, imap_username?, active? }
+ * imap_host defaults for Gmail / Outlook / Yahoo addresses. The login is
+ * checked before the seed is saved.
+ */
+export const createSeed = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await placementTestService.createSeed(getOrgId(req), req.body || {});
+        return res.status(201).json({ success: true, data });
+    } catch (err) {
+        logger.error('[PLACEMENT] createSeed failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to add seed inbox');
+    }
+};
+
+/**
+ * PATCH /api/placement/seeds/:id
+ */
+export const updateSeed = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await placementTestService.updateSeed(getOrgId(req), String(req.params.id), req.body || {});
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[PLACEMENT] updateSeed failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to update seed inbox');
+    }
+};
+
+/**
+ * DELETE /api/placement/seeds/:id
+ */
+export const deleteSeed = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        await placementTestService.deleteSeed(getOrgId(req), String(req.params.id));
+        return res.json({ success: true });
+    } catch (err) {
+        logger.error('[PLACEMENT] deleteSeed failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to remove seed inbox');
+    }
+};
+
+/**
+ * POST /api/placement/tests
+ * Body: { mailbox_id, sequence_step_id, campaign_lead_id? }
+ * Sends the step through the mailbox to every active seed. Poll
+ * GET /tests/:id for results as they come in.
+ */
+export const createTest = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const test = await placementTestService.createTest(orgId, {
+            mailboxId: req.body?.mailbox_id,
+            stepId: req.body?.sequence_step_id,
+            campaignLeadId: req.body?.campaign_lead_id,
+            userId: req.orgContext?.userId ?? null,
+        });
+        runPlacementWorker().catch(err => logger.error('[PLACEMENT] immediate run failed', err instanceof Error ? err : new Error(String(err))));
+        return res.status(201).json({ success: true, data: test });
+    } catch (err) {
+        logger.error('[PLACEMENT] createTest failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to start placement test');
+    }
+};
+
+/**
+ * GET /api/placement/tests?mailbox_id=&limit=
+ */
+export const listTests = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await placementTestService.listTests(getOrgId(req), {
+            mailboxId: req.query.mailbox_id ? String(req.query.mailbox_id) : undefined,
+            limit: req.query.limit ? Number(req.query.limit) || undefined : undefined,
+        });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[PLACEMENT] listTests failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to list placement tests');
+    }
+};
+
+/**
+ * GET /api/placement/tests/:id
+ */
+export const getTest = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await placementTestService.getTest(getOrgId(req), String(req.params.id));
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[PLACEMENT] getTest failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to load placement test');
+    }
+};
+
+/**
+ * GET /api/placement/mailboxes/:mailboxId/history?days=90
+ */
+export const getMailboxHistory = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const days = Math.min(Math.max(Number(req.query.days) || HISTORY_DEFAULT_DAYS, 1), 365);
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        const data = await placementTestService.getMailboxPlacementHistory(getOrgId(req), String(req.params.mailboxId), since);
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[PLACEMENT] getMailboxHistory failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to load placement history');
+    }
+};
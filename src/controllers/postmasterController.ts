@@ -7,6 +7,9 @@
  * - POST /api/postmaster/fetch-now         - admin trigger for ad-hoc fetch
  * - GET  /api/postmaster/status            - connection state for the dashboard
  * - GET  /api/dashboard/domains/:id/reputation?days=30 - time series for charts
+ * - POST /api/postmaster/snds              - store a Microsoft SNDS access key
+ * - POST /api/postmaster/snds/disconnect   - forget the SNDS key
+ * - GET  /api/dashboard/ip-reputation?days=30&ip= - SNDS per-IP time series
  */
 
 import { Request, Response } from 'express';
@@ -21,6 +24,8 @@ import {
     disconnect as svcDisconnect,
     fetchAllForOrg,
 } from '../services/postmasterToolsService';
+import * as sndsService from '../services/sndsService';
+import { respondWithError } from '../utils/httpErrorResponse';
 
 /** POST /api/postmaster/connect → returns the Google authorize URL the
  *  frontend should open in a new tab. */
@@ -109,12 +114,13 @@ export const disconnect = async (req: Request, res: Response) => {
     }
 };
 
-/** POST /api/postmaster/fetch-now - admin-triggered ad-hoc fetch. */
+/** POST /api/postmaster/fetch-now - admin-triggered ad-hoc fetch (Postmaster + SNDS). */
 export const fetchNow = async (req: Request, res: Response) => {
     try {
         const orgId = getOrgId(req);
         const result = await fetchAllForOrg(orgId);
-        res.json({ success: true, result });
+        const snds = await sndsService.fetchAllForOrg(orgId);
+        res.json({ success: true, result, snds });
     } catch (err: any) {
         logger.error('[POSTMASTER] fetchNow failed', err);
         res.status(500).json({ success: false, error: err.message || 'Failed to fetch' });
@@ -131,6 +137,9 @@ export const getStatus = async (req: Request, res: Response) => {
                 postmaster_connected_at: true,
                 postmaster_last_fetch_at: true,
                 postmaster_last_error: true,
+                snds_connected_at: true,
+                snds_last_fetch_at: true,
+                snds_last_error: true,
             },
         });
         res.json({
@@ -139,6 +148,12 @@ export const getStatus = async (req: Request, res: Response) => {
             connectedAt: org?.postmaster_connected_at,
             lastFetchAt: org?.postmaster_last_fetch_at,
             lastError: org?.postmaster_last_error,
+            snds: {
+                connected: !!org?.snds_connected_at,
+                connectedAt: org?.snds_connected_at,
+                lastFetchAt: org?.snds_last_fetch_at,
+                lastError: org?.snds_last_error,
+            },
         });
     } catch (err: any) {
         res.status(500).json({ success: false, error: err.message || 'Failed to read status' });
@@ -169,6 +184,7 @@ export const getDomainReputation = async (req: Request, res: Response) => {
                 date: true,
                 source: true,
                 reputation: true,
+                ip_reputation: true,
                 spam_rate: true,
                 authentication_dkim_pass_rate: true,
                 authentication_spf_pass_rate: true,
@@ -183,3 +199,44 @@ export const getDomainReputation = async (req: Request, res: Response) => {
         res.status(500).json({ success: false, error: err.message || 'Failed to read reputation' });
     }
 };
+
+/** POST /api/postmaster/snds - validate and store a Microsoft SNDS automated-access key. */
+export const connectSnds = async (req: Request, res: Response) => {
+    try {
+        const orgId = getOrgId(req);
+        await sndsService.connect(orgId, String(req.body?.key ?? ''));
+        const result = await sndsService.fetchAllForOrg(orgId);
+        return res.json({ success: true, result });
+    } catch (err) {
+        logger.error('[SNDS] connect failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to connect SNDS');
+    }
+};
+
+/** POST /api/postmaster/snds/disconnect */
+export const disconnectSnds = async (req: Request, res: Response) => {
+    try {
+        const orgId = getOrgId(req);
+        await sndsService.disconnect(orgId);
+        return res.json({ success: true });
+    } catch (err) {
+        logger.error('[SNDS] disconnect failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to disconnect SNDS');
+    }
+};
+
+/** GET /api/dashboard/ip-reputation?days=30&ip= - SNDS per-IP time series. */
+export const getIpReputation = async (req: Request, res: Response) => {
+    try {
+        const orgId = getOrgId(req);
+        const days = parseInt(String(req.query.days ?? '30'), 10);
+        const rows = await sndsService.listIpReputation(orgId, {
+            days: Number.isFinite(days) ? days : 30,
+            ip: typeof req.query.ip === 'string' ? req.query.ip : undefined,
+        });
+        return res.json({ success: true, data: rows });
+    } catch (err) {
+        logger.error('[SNDS] getIpReputation failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to read IP reputation');
+    }
+};
@@ -0,0 +1,100 @@
+/**
+ * Role Controller
+ *
+ * Custom roles for the agency Account under /api/roles, and assigning them
+ * to workspace members (/api/agency/workspaces/:id/members/:userId/role).
+ * See roleService.
+ */
+
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { getOrgId } from '../middleware/orgContext';
+import { CAPABILITY_KEYS } from '../middleware/requireCapability';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import { AppError } from '../utils/appError';
+import * as roleService from '../services/roleService';
+
+async function requireActor(req: Request): Promise<roleService.RoleActor> {
+    const userId = req.orgContext?.userId;
+    if (!userId) throw new AppError('Roles are managed by signed-in users', 401);
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { account_id: true } });
+    if (!user?.account_id) throw new AppError('Roles are available to agency accounts only', 404);
+    return { accountId: user.account_id, organizationId: getOrgId(req), userId };
+}
+
+/**
+ * GET /api/roles
+ * Roles with member counts, plus the capability catalog to build them from.
+ */
+export const listRoles = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { accountId } = await requireActor(req);
+        const roles = await roleService.listRoles(accountId);
+        return res.json({ success: true, data: { roles, capabilities: CAPABILITY_KEYS } });
+    } catch (err) {
+        logger.error('[ROLES] listRoles failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to load roles');
+    }
+};
+
+/**
+ * POST /api/roles
+ * Body: { name, description?, capabilities: string[] }
+ */
+export const createRole = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await roleService.createRole(await requireActor(req), req.body);
+        return res.status(201).json({ success: true, data });
+    } catch (err) {
+        logger.error('[ROLES] createRole failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to create role');
+    }
+};
+
+/**
+ * PATCH /api/roles/:id
+ * Body: any of { name, description, capabilities }. Applies to every member
+ * holding the role.
+ */
+export const updateRole = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await roleService.updateRole(await requireActor(req), String(req.params.id), req.body);
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[ROLES] updateRole failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to update role');
+    }
+};
+
+/**
+ * DELETE /api/roles/:id
+ * 409 while the role is still assigned.
+ */
+export const deleteRole = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        await roleService.deleteRole(await requireActor(req), String(req.params.id));
+        return res.json({ success: true, message: 'Role deleted' });
+    } catch (err) {
+        logger.error('[ROLES] deleteRole failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to delete role');
+    }
+};
+
+/**
+ * PUT /api/agency/workspaces/:id/members/:userId/role
+ * Body: { roleId: string | null }
+ */
+export const assignRole = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const roleId = req.body?.roleId ?? null;
+        if (roleId !== null && typeof roleId !== 'string') throw new AppError('roleId must be a string or null', 400);
+        const data = await roleService.assignRole(
+            await requireActor(req), String(req.params.id), String(req.params.userId), roleId,
+        );
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[ROLES] assignRole failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to assign role');
+    }
+};
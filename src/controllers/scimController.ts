@@ -0,0 +1,179 @@
+/**
+ * SCIM Controller
+ *
+ * The SCIM 2.0 protocol surface at /scim/v2 (Users, Groups, discovery) and
+ * its settings under /api/settings/scim (tokens, group -> capability
+ * mapping). The mechanics live in scimService.
+ *
+ * Protocol responses are application/scim+json and errors use the SCIM
+ * Error schema rather than { success, error } - IdPs parse them.
+ */
+
+import { Request, Response } from 'express';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError, classifyError } from '../utils/httpErrorResponse';
+import { AppError } from '../utils/appError';
+import * as scimService from '../services/scimService';
+import { ScimError, SCHEMAS } from '../services/scimService';
+
+function sendScim(res: Response, status: number, body: unknown): Response {
+    res.status(status).type('application/scim+json');
+    return res.send(JSON.stringify(body));
+}
+
+function respondWithScimError(res: Response, err: unknown, tag: string): Response {
+    const classified = classifyError(err);
+    if (!classified) logger.error(`[SCIM] ${tag} failed`, err instanceof Error ? err : new Error(String(err)));
+    const status = classified?.status ?? 500;
+    return sendScim(res, status, {
+        schemas: [SCHEMAS.ERROR],
+        status: String(status),
+        scimType: err instanceof ScimError ? err.scimType : undefined,
+        detail: classified?.message ?? 'Internal server error',
+    });
+}
+
+/** Wrap a protocol handler: org from the SCIM token, SCIM errors. */
+function scimHandler(tag: string, fn: (orgId: string, req: Request) => Promise<{ status?: number; body?: unknown }>) {
+    return async (req: Request, res: Response): Promise<Response> => {
+        try {
+            const { status = 200, body } = await fn(getOrgId(req), req);
+            return body === undefined ? res.status(status).end() : sendScim(res, status, body);
+        } catch (err) {
+            return respondWithScimError(res, err, tag);
+        }
+    };
+}
+
+// ─── Protocol (/scim/v2) ────────────────────────────────────────────────────
+
+/**
+ * GET /scim/v2/ServiceProviderConfig
+ */
+export const serviceProviderConfig = scimHandler('serviceProviderConfig', async () => ({
+    body: {
+        schemas: [SCHEMAS.SERVICE_PROVIDER_CONFIG],
+        patch: { supported: true },
+        bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+        filter: { supported: true, maxResults: 200 },
+        changePassword: { supported: false },
+        sort: { supported: false },
+        etag: { supported: false },
+        authenticationSchemes: [{
+            type: 'oauthbearertoken',
+            name: 'Bearer token',
+            description: 'A SCIM token from Settings -> SCIM provisioning',
+            primary: true,
+        }],
+        meta: { resourceType: 'ServiceProviderConfig', location: `${scimService.scimBaseUrl()}/ServiceProviderConfig` },
+    },
+}));
+
+/**
+ * GET /scim/v2/ResourceTypes
+ */
+export const resourceTypes = scimHandler('resourceTypes', async () => {
+    const types = [
+        { id: 'User', name: 'User', endpoint: '/Users', schema: SCHEMAS.USER },
+        { id: 'Group', name: 'Group', endpoint: '/Groups', schema: SCHEMAS.GROUP },
+    ].map(t => ({
+        schemas: [SCHEMAS.RESOURCE_TYPE],
+        ...t,
+        meta: { resourceType: 'ResourceType', location: `${scimService.scimBaseUrl()}/ResourceTypes/${t.id}` },
+    }));
+    return { body: { schemas: [SCHEMAS.LIST], totalResults: types.length, startIndex: 1, itemsPerPage: types.length, Resources: types } };
+});
+
+export const listUsers = scimHandler('listUsers', async (orgId, req) => ({ body: await scimService.listUsers(orgId, req.query) }));
+export const getUser = scimHandler('getUser', async (orgId, req) => ({ body: await scimService.getUser(orgId, String(req.params.id)) }));
+export const createUser = scimHandler('createUser', async (orgId, req) => ({ status: 201, body: await scimService.createUser(orgId, req.body) }));
+export const replaceUser = scimHandler('replaceUser', async (orgId, req) => ({ body: await scimService.replaceUser(orgId, String(req.params.id), req.body) }));
+export const patchUser = scimHandler('patchUser', async (orgId, req) => ({ body: await scimService.patchUser(orgId, String(req.params.id), req.body) }));
+export const deleteUser = scimHandler('deleteUser', async (orgId, req) => {
+    await scimService.deleteUser(orgId, String(req.params.id));
+    return { status: 204 };
+});
+
+export const listGroups = scimHandler('listGroups', async (orgId, req) => ({ body: await scimService.listGroups(orgId, req.query) }));
+export const getGroup = scimHandler('getGroup', async (orgId, req) => ({ body: await scimService.getGroup(orgId, String(req.params.id)) }));
+export const createGroup = scimHandler('createGroup', async (orgId, req) => ({ status: 201, body: await scimService.createGroup(orgId, req.body) }));
+export const replaceGroup = scimHandler('replaceGroup', async (orgId, req) => ({ body: await scimService.replaceGroup(orgId, String(req.params.id), req.body) }));
+export const patchGroup = scimHandler('patchGroup', async (orgId, req) => ({ body: await scimService.patchGroup(orgId, String(req.params.id), req.body) }));
+export const deleteGroup = scimHandler('deleteGroup', async (orgId, req) => {
+    await scimService.deleteGroup(orgId, String(req.params.id));
+    return { status: 204 };
+});
+
+/** Unknown paths under /scim/v2 answer in SCIM too. */
+export const notFound = (_req: Request, res: Response): Response =>
+    respondWithScimError(res, new ScimError('Resource not found', 404), 'notFound');
+
+// ─── Settings (/api/settings/scim) ──────────────────────────────────────────
+
+/**
+ * GET /api/settings/scim
+ * Base URL for the IdP, tokens (never the secret) and groups with their mapping.
+ */
+export const getSettings = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const [tokens, groups] = await Promise.all([
+            scimService.listTokens(orgId),
+            scimService.listGroupMappings(orgId),
+        ]);
+        return res.json({ success: true, data: { base_url: scimService.scimBaseUrl(), tokens, groups } });
+    } catch (err) {
+        logger.error('[SCIM] getSettings failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to load SCIM settings');
+    }
+};
+
+/**
+ * POST /api/settings/scim/tokens
+ * Body: { name }. The raw token is returned once.
+ */
+export const createToken = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+        if (!name) throw new AppError('name is required', 400);
+        const data = await scimService.createToken(getOrgId(req), name, req.orgContext?.userId ?? null);
+        return res.status(201).json({
+            success: true,
+            data,
+            warning: 'Save this token now. It will not be shown again.',
+        });
+    } catch (err) {
+        logger.error('[SCIM] createToken failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to create SCIM token');
+    }
+};
+
+/**
+ * DELETE /api/settings/scim/tokens/:id
+ */
+export const revokeToken = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        await scimService.revokeToken(getOrgId(req), String(req.params.id), req.orgContext?.userId ?? null);
+        return res.json({ success: true, message: 'SCIM token revoked' });
+    } catch (err) {
+        logger.error('[SCIM] revokeToken failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to revoke SCIM token');
+    }
+};
+
+/**
+ * PUT /api/settings/scim/groups/:id
+ * Body: { capabilities: string[] } - re-syncs every member of the group.
+ */
+export const updateGroupCapabilities = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await scimService.setGroupCapabilities(
+            getOrgId(req), String(req.params.id), req.body?.capabilities, req.orgContext?.userId ?? null,
+        );
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[SCIM] updateGroupCapabilities failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to update SCIM group capabilities');
+    }
+};
@@ -0,0 +1,91 @@
+/**
+ * Sequence Task Controller
+ *
+ * Rep task queue for manual sequence steps (call, LinkedIn, generic task)
+ * under /api/sequencer/tasks. Completing or skipping a task releases the
+ * lead to its next step. See sequenceTaskService.
+ */
+
+import { Request, Response } from 'express';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import * as sequenceTaskService from '../services/sequenceTaskService';
+
+function actorOf(req: Request): sequenceTaskService.TaskActor {
+    return { userId: req.orgContext?.userId, ipAddress: req.ip };
+}
+
+/**
+ * GET /api/sequencer/tasks
+ * Query: status (default open), type, campaign_id, assigned (me | unassigned | user id),
+ *        due_within_hours, include_inactive, limit
+ */
+export const listTasks = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const assigned = req.query.assigned ? String(req.query.assigned) : undefined;
+        const dueWithin = Number(req.query.due_within_hours) || 0;
+        const data = await sequenceTaskService.listTasks(orgId, {
+            status: req.query.status ? String(req.query.status) : undefined,
+            type: req.query.type ? String(req.query.type) : undefined,
+            campaignId: req.query.campaign_id ? String(req.query.campaign_id) : undefined,
+            assignedUserId: assigned === 'me'
+                ? req.orgContext?.userId ?? null
+                : assigned === 'unassigned' ? null : assigned,
+            dueBefore: dueWithin > 0 ? new Date(Date.now() + dueWithin * 60 * 60 * 1000) : undefined,
+            includeInactive: req.query.include_inactive === 'true',
+            limit: Number(req.query.limit) || undefined,
+        });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[SEQ_TASKS] listTasks failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to list tasks');
+    }
+};
+
+/**
+ * POST /api/sequencer/tasks/:taskId/complete
+ * Body: { outcome?, notes? } - outcome e.g. connected | meeting_booked | voicemail | no_answer
+ */
+export const completeTask = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const data = await sequenceTaskService.resolveTask(orgId, String(req.params.taskId), 'completed', req.body || {}, actorOf(req));
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[SEQ_TASKS] completeTask failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to complete task');
+    }
+};
+
+/**
+ * POST /api/sequencer/tasks/:taskId/skip
+ * Body: { notes? }
+ */
+export const skipTask = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const data = await sequenceTaskService.resolveTask(orgId, String(req.params.taskId), 'skipped', req.body || {}, actorOf(req));
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[SEQ_TASKS] skipTask failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to skip task');
+    }
+};
+
+/**
+ * PUT /api/sequencer/tasks/:taskId/assignee
+ * Body: { user_id: string | null }
+ */
+export const assignTask = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const userId = req.body?.user_id ? String(req.body.user_id) : null;
+        const data = await sequenceTaskService.assignTask(orgId, String(req.params.taskId), userId, actorOf(req));
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[SEQ_TASKS] assignTask failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to assign task');
+    }
+};
@@ -659,6 +659,57 @@ export const getReplyQuality = async (req: Request, res: Response): Promise<Resp
     }
 };
 
+/**
+ * GET /api/sequencer/analytics/variant-weights?campaign_id=…[&step_number=N]
+ *
+ * How the A/B optimizer moved traffic: every logged weight change (with the
+ * metric, per-variant sends / successes and probability-of-best behind it)
+ * plus each step's live counters and declared winner.
+ */
+export const getVariantWeightHistory = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const campaignId = String(req.query.campaign_id || '');
+        if (!campaignId) return res.status(400).json({ success: false, error: 'campaign_id is required' });
+        const stepRaw = req.query.step_number;
+        const stepNumber = stepRaw !== undefined ? parseInt(String(stepRaw), 10) : undefined;
+        if (stepNumber !== undefined && !Number.isInteger(stepNumber)) {
+            return res.status(400).json({ success: false, error: 'Invalid step_number' });
+        }
+        const { getWeightHistory } = await import('../services/variantOptimizerService');
+        const data = await getWeightHistory(orgId, campaignId, stepNumber);
+        if (!data) return res.status(404).json({ success: false, error: 'Campaign not found' });
+        return res.json({ success: true, data });
+    } catch (error: unknown) {
+        logger.error('[SEQ_ANALYTICS] Variant weight history failed', error instanceof Error ? error : new Error(String(error)));
+        return res.status(500).json({ success: false, error: 'Failed to load variant weight history' });
+    }
+};
+
+/**
+ * GET /api/sequencer/analytics/experiments?campaign_id=…[&metric=reply|open|click][&confidence=0.95]
+ *
+ * Per-step A/B significance: rate + Wilson interval per variant, p-value and
+ * probability-to-beat vs the control, sends still needed, and the winner
+ * (if any). Same payload as the `experiments` block of the v1 report.
+ */
+export const getExperimentReports = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const campaignId = String(req.query.campaign_id || '');
+        if (!campaignId) return res.status(400).json({ success: false, error: 'campaign_id is required' });
+        const { getCampaignExperimentReports, parseExperimentQuery } = await import('../services/experimentReportService');
+        const parsed = parseExperimentQuery(req.query);
+        if (typeof parsed === 'string') return res.status(400).json({ success: false, error: parsed });
+        const data = await getCampaignExperimentReports(orgId, campaignId, parsed);
+        if (!data) return res.status(404).json({ success: false, error: 'Campaign not found' });
+        return res.json({ success: true, data });
+    } catch (error: unknown) {
+        logger.error('[SEQ_ANALYTICS] Experiment report failed', error instanceof Error ? error : new Error(String(error)));
+        return res.status(500).json({ success: false, error: 'Failed to compute experiment report' });
+    }
+};
+
 function pct(n: number, total: number): number {
     if (!total) return 0;
     return Math.round((n / total) * 1000) / 10;
@@ -670,3 +721,26 @@ function snippetFromBody(text: string | null, html: string): string {
         : html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
     return raw.length > 200 ? raw.slice(0, 199) + '…' : raw;
 }
+
+/**
+ * GET /api/sequencer/analytics/send-times[?segment=domain|persona|esp|org]
+ *
+ * Learned send-time profiles: per segment, sends / replies in the 90-day
+ * window and the three best UTC hours-of-week by smoothed engagement rate.
+ * These are what send_time_optimization campaigns schedule against.
+ */
+export const getSendTimeProfiles = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const segment = req.query.segment !== undefined ? String(req.query.segment) : undefined;
+        if (segment !== undefined && !['domain', 'persona', 'esp', 'org'].includes(segment)) {
+            return res.status(400).json({ success: false, error: 'segment must be one of domain, persona, esp, org' });
+        }
+        const { getSendTimeReport } = await import('../services/sendTimeOptimizerService');
+        const data = await getSendTimeReport(orgId, segment as 'domain' | 'persona' | 'esp' | 'org' | undefined);
+        return res.json({ success: true, data });
+    } catch (error: unknown) {
+        logger.error('[SEQ_ANALYTICS] Send-time profiles failed', error instanceof Error ? error : new Error(String(error)));
+        return res.status(500).json({ success: false, error: 'Failed to load send-time profiles' });
+    }
+};
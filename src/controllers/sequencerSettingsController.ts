@@ -42,7 +42,7 @@ export const updateSettings = async (req: Request, res: Response): Promise<Respo
             defaultActiveDays, delayBetweenEmails, globalDailyMax, trackingDomain,
             defaultTrackOpens, defaultTrackClicks, defaultUnsubscribe,
             autoPauseOnBounce, bounceThreshold, stopOnReplyDefault,
-            notifyOnReply, notifyOnBounce, notifyOnComplete,
+            notifyOnReply, notifyOnBounce, notifyOnComplete, contentSpamThreshold,
             applyToExistingMailboxes, // when true, propagate default_daily_limit to all existing mailboxes
         } = req.body;
 
@@ -64,6 +64,12 @@ export const updateSettings = async (req: Request, res: Response): Promise<Respo
         if (notifyOnReply !== undefined) updateData.notify_on_reply = notifyOnReply;
         if (notifyOnBounce !== undefined) updateData.notify_on_bounce = notifyOnBounce;
         if (notifyOnComplete !== undefined) updateData.notify_on_complete = notifyOnComplete;
+        if (contentSpamThreshold !== undefined) {
+            if (contentSpamThreshold !== null && (!Number.isInteger(contentSpamThreshold) || contentSpamThreshold < 0 || contentSpamThreshold > 100)) {
+                return res.status(400).json({ success: false, error: 'contentSpamThreshold must be an integer 0-100, or null to disable' });
+            }
+            updateData.content_spam_threshold = contentSpamThreshold;
+        }
 
         const settings = await prisma.sequencerSettings.upsert({
             where: { organization_id: orgId },
@@ -0,0 +1,260 @@
+/**
+ * SSO Controller
+ *
+ * Public sign-in endpoints under /api/auth/sso (discover, start, SAML ACS,
+ * OIDC callback, SP metadata) and the agency owner's configuration under
+ * /api/sso. The mechanics live in ssoService / samlService.
+ *
+ * The sign-in endpoints are browser redirects, not JSON: failures bounce to
+ * the login page with ?error=, success sets the session cookie (or hands an
+ * enrolled user to the 2FA screen, like Google sign-in) and lands on the
+ * dashboard.
+ */
+
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import { AppError } from '../utils/appError';
+import * as ssoService from '../services/ssoService';
+import * as samlService from '../services/samlService';
+import * as twoFactorService from '../services/twoFactorService';
+import { generateToken, setTokenCookie } from '../services/tokenService';
+import { recordSecurityEvent, EVENT_TYPES } from '../services/securityAuditLog';
+
+// FRONTEND_URL for login errors, APP_URL for the dashboard - see googleAuthController.
+const frontendUrl = () => process.env.FRONTEND_URL || 'http://localhost:3000';
+const appUrl = () => process.env.APP_URL || frontendUrl();
+
+function loginErrorRedirect(res: Response, message: string): void {
+    res.redirect(`${frontendUrl()}/login?error=${encodeURIComponent(message)}`);
+}
+
+async function failLogin(req: Request, res: Response, connectionId: string, err: unknown): Promise<void> {
+    const message = err instanceof AppError ? err.message : 'Single sign-on failed';
+    logger.warn('[SSO] Sign-in failed', { connectionId, error: err instanceof Error ? err.message : String(err) });
+    await recordSecurityEvent({
+        actorKind: 'system', eventType: EVENT_TYPES.SSO_LOGIN_FAILED, target: connectionId,
+        metadata: { reason: message }, req,
+    });
+    loginErrorRedirect(res, message);
+}
+
+/** Resolve the user, then issue the session (or the 2FA challenge). */
+async function finishLogin(
+    req: Request,
+    res: Response,
+    result: Awaited<ReturnType<typeof ssoService.completeSamlLogin>>,
+): Promise<void> {
+    const { connection, identity } = result;
+    const { user, created } = await ssoService.provisionUser(connection, identity);
+
+    if (created) {
+        await recordSecurityEvent({
+            organizationId: user.organization_id, actorKind: 'system', target: user.id,
+            eventType: EVENT_TYPES.SSO_USER_PROVISIONED, metadata: { connection_id: connection.id, groups: identity.groups }, req,
+        });
+    }
+    await recordSecurityEvent({
+        organizationId: user.organization_id, actorKind: 'user', actorId: user.id,
+        eventType: EVENT_TYPES.SSO_LOGIN, metadata: { connection_id: connection.id, protocol: connection.protocol }, req,
+    });
+
+    // The IdP proves the first factor only, same as Google sign-in.
+    if (user.totp_enabled_at) {
+        const challenge = twoFactorService.issueLoginChallenge(user.id);
+        return res.redirect(`${appUrl()}/login/two-factor?challenge=${encodeURIComponent(challenge)}`);
+    }
+
+    await prisma.user.update({
+        where: { id: user.id },
+        data: { last_login_at: new Date(), failed_login_count: 0, locked_until: null },
+    });
+    if (user.scoped_organization_id) {
+        await prisma.workspaceMembership.updateMany({
+            where: { organization_id: user.scoped_organization_id, user_id: user.id },
+            data: { last_seen_at: new Date() },
+        });
+    }
+    logger.info('[SSO] User signed in', { userId: user.id, connectionId: connection.id, created });
+
+    setTokenCookie(res, generateToken(user));
+    res.redirect(`${appUrl()}/dashboard`);
+}
+
+/**
+ * GET /api/auth/sso/discover?email=
+ * Returns { sso: null } or { sso: { connection_id, protocol, start_url, enforced } }.
+ */
+export const discover = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const email = typeof req.query.email === 'string' ? req.query.email.trim().toLowerCase() : '';
+        if (!email) throw new AppError('email is required', 400);
+        return res.json({ success: true, data: { sso: await ssoService.discover(email) } });
+    } catch (err) {
+        logger.error('[SSO] discover failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to look up single sign-on');
+    }
+};
+
+/**
+ * GET /api/auth/sso/:connectionId/start
+ */
+export const start = async (req: Request, res: Response): Promise<void> => {
+    const connectionId = String(req.params.connectionId);
+    try {
+        res.redirect(await ssoService.beginLogin(connectionId));
+    } catch (err) {
+        await failLogin(req, res, connectionId, err);
+    }
+};
+
+/**
+ * POST /api/auth/sso/:connectionId/acs
+ * SAML HTTP-POST binding: form fields SAMLResponse + RelayState.
+ */
+export const assertionConsumer = async (req: Request, res: Response): Promise<void> => {
+    const connectionId = String(req.params.connectionId);
+    try {
+        const { SAMLResponse, RelayState } = req.body || {};
+        await finishLogin(req, res, await ssoService.completeSamlLogin(connectionId, SAMLResponse, RelayState));
+    } catch (err) {
+        await failLogin(req, res, connectionId, err);
+    }
+};
+
+/**
+ * GET /api/auth/sso/:connectionId/callback
+ * OIDC authorization-code redirect.
+ */
+export const oidcCallback = async (req: Request, res: Response): Promise<void> => {
+    const connectionId = String(req.params.connectionId);
+    try {
+        if (req.query.error) {
+            throw new AppError(`Sign-in was cancelled at your identity provider (${String(req.query.error)})`, 400);
+        }
+        await finishLogin(req, res, await ssoService.completeOidcLogin(connectionId, req.query.code, req.query.state));
+    } catch (err) {
+        await failLogin(req, res, connectionId, err);
+    }
+};
+
+/**
+ * GET /api/auth/sso/:connectionId/metadata
+ * SP metadata XML for the customer's IdP. Doubles as our entity ID.
+ */
+export const metadata = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const connectionId = String(req.params.connectionId);
+        const exists = await prisma.ssoConnection.findUnique({ where: { id: connectionId }, select: { id: true } });
+        if (!exists) throw new AppError('SSO connection not found', 404);
+        res.type('application/samlmetadata+xml');
+        return res.send(samlService.buildSpMetadata(ssoService.spEntityId(connectionId), ssoService.acsUrl(connectionId)));
+    } catch (err) {
+        logger.error('[SSO] metadata failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to build SAML metadata');
+    }
+};
+
+// ─── Configuration (/api/sso) ───────────────────────────────────────────────
+
+async function requireAccount(req: Request): Promise<{ accountId: string; userId: string }> {
+    const userId = req.orgContext?.userId;
+    if (!userId) throw new AppError('SSO is configured by signed-in users', 401);
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { account_id: true } });
+    if (!user?.account_id) throw new AppError('SSO is available to agency accounts only', 404);
+    return { accountId: user.account_id, userId };
+}
+
+async function recordConfigChange(req: Request, userId: string, action: string, extra: Record<string, unknown> = {}) {
+    await recordSecurityEvent({
+        organizationId: getOrgId(req), actorKind: 'user', actorId: userId,
+        eventType: EVENT_TYPES.SSO_CONFIG_CHANGED, metadata: { action, ...extra }, req,
+    });
+}
+
+/**
+ * GET /api/sso
+ */
+export const getConfig = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { accountId } = await requireAccount(req);
+        return res.json({ success: true, data: await ssoService.getConnection(accountId) });
+    } catch (err) {
+        logger.error('[SSO] getConfig failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to load SSO configuration');
+    }
+};
+
+/**
+ * PUT /api/sso
+ * Body: { protocol, saml_metadata_xml | oidc_discovery_url + oidc_client_id + oidc_client_secret,
+ *         default_organization_id, default_capabilities, group_mappings, groups_attribute,
+ *         enabled, enforce_sso } - all optional on update.
+ */
+export const updateConfig = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { accountId, userId } = await requireAccount(req);
+        const data = await ssoService.saveConnection(accountId, req.body || {});
+        await recordConfigChange(req, userId, 'update', {
+            fields: Object.keys(req.body || {}).filter(k => k !== 'oidc_client_secret' && k !== 'saml_metadata_xml'),
+            enabled: data.enabled,
+            enforce_sso: data.enforce_sso,
+        });
+        logger.info('[SSO] Configuration saved', { accountId, userId, protocol: data.protocol, enabled: data.enabled });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[SSO] updateConfig failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to save SSO configuration');
+    }
+};
+
+/**
+ * POST /api/sso/domains
+ * Body: { domain } - returns the TXT record to publish.
+ */
+export const addDomain = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { accountId, userId } = await requireAccount(req);
+        const data = await ssoService.addDomain(accountId, req.body?.domain);
+        await recordConfigChange(req, userId, 'add_domain', { domain: req.body?.domain });
+        return res.status(201).json({ success: true, data });
+    } catch (err) {
+        logger.error('[SSO] addDomain failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to add SSO domain');
+    }
+};
+
+/**
+ * POST /api/sso/domains/:domainId/verify
+ */
+export const verifyDomain = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { accountId, userId } = await requireAccount(req);
+        const { domain, view } = await ssoService.verifyDomain(accountId, String(req.params.domainId));
+        await recordSecurityEvent({
+            organizationId: getOrgId(req), actorKind: 'user', actorId: userId,
+            eventType: EVENT_TYPES.SSO_DOMAIN_VERIFIED, target: domain, req,
+        });
+        return res.json({ success: true, data: view });
+    } catch (err) {
+        logger.error('[SSO] verifyDomain failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to verify SSO domain');
+    }
+};
+
+/**
+ * DELETE /api/sso/domains/:domainId
+ */
+export const removeDomain = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { accountId, userId } = await requireAccount(req);
+        const data = await ssoService.removeDomain(accountId, String(req.params.domainId));
+        await recordConfigChange(req, userId, 'remove_domain', { domain_id: req.params.domainId });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[SSO] removeDomain failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to remove SSO domain');
+    }
+};
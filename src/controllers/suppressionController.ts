@@ -0,0 +1,173 @@
+/**
+ * Suppression Controller
+ *
+ * The org-wide suppression list under /api/suppressions: list, add (single
+ * or bulk), remove, CSV import / export, and a point check for one address.
+ * See suppressionService.
+ */
+
+import { Request, Response } from 'express';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import { AppError } from '../utils/appError';
+import * as suppressionService from '../services/suppressionService';
+
+function parseExpiry(raw: unknown): Date | null {
+    if (raw === undefined || raw === null || raw === '') return null;
+    const date = new Date(String(raw));
+    if (Number.isNaN(date.getTime())) throw new AppError('expires_at must be an ISO date', 400);
+    return date;
+}
+
+/**
+ * GET /api/suppressions?type=&source=&q=&include_expired=&limit=&offset=
+ */
+export const listSuppressions = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await suppressionService.listEntries(getOrgId(req), {
+            type: req.query.type ? String(req.query.type) : undefined,
+            source: req.query.source ? String(req.query.source) : undefined,
+            q: req.query.q ? String(req.query.q) : undefined,
+            includeExpired: req.query.include_expired === 'true',
+            limit: req.query.limit ? Number(req.query.limit) || undefined : undefined,
+            offset: req.query.offset ? Number(req.query.offset) || undefined : undefined,
+        });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[SUPPRESSION] list failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to list suppression entries');
+    }
+};
+
+/**
+ * POST /api/suppressions
+ * Body: { value, type?, reason?, expires_at? }
+ *   or  { entries: [{ value, type?, reason?, expires_at? }, ...] }
+ * type is inferred from value when omitted: "a@b.com" → email, "b.com" →
+ * domain, anything containing * or ? → pattern.
+ */
+export const addSuppressions = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const userId = req.orgContext?.userId ?? null;
+        const body = req.body || {};
+
+        if (Array.isArray(body.entries)) {
+            const inputs = body.entries.map((e: any, i: number) => ({
+                value: String(e?.value ?? ''),
+                type: e?.type ?? null,
+                reason: e?.reason ?? null,
+                expiresAt: parseExpiry(e?.expires_at),
+                line: i + 1,
+            }));
+            const data = await suppressionService.addEntries(orgId, inputs, { source: 'manual', userId });
+            return res.json({ success: true, data });
+        }
+
+        if (!body.value) throw new AppError('value is required', 400);
+        const data = await suppressionService.suppress(orgId, {
+            value: String(body.value),
+            type: body.type ?? null,
+            reason: body.reason ?? null,
+            expiresAt: parseExpiry(body.expires_at),
+        }, { source: 'manual', userId });
+        return res.status(201).json({ success: true, data });
+    } catch (err) {
+        logger.error('[SUPPRESSION] add failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to add suppression entry');
+    }
+};
+
+/**
+ * DELETE /api/suppressions/:id
+ */
+export const removeSuppression = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const removed = await suppressionService.removeEntries(getOrgId(req), [String(req.params.id)], {
+            userId: req.orgContext?.userId ?? null,
+        });
+        if (removed === 0) throw new AppError('Suppression entry not found', 404);
+        return res.json({ success: true });
+    } catch (err) {
+        logger.error('[SUPPRESSION] remove failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to remove suppression entry');
+    }
+};
+
+/**
+ * POST /api/suppressions/bulk-delete
+ * Body: { ids: string[] }
+ */
+export const bulkRemoveSuppressions = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const ids = req.body?.ids;
+        if (!Array.isArray(ids) || ids.length === 0) throw new AppError('ids must be a non-empty array', 400);
+        const removed = await suppressionService.removeEntries(getOrgId(req), ids.map(String), {
+            userId: req.orgContext?.userId ?? null,
+        });
+        return res.json({ success: true, data: { removed } });
+    } catch (err) {
+        logger.error('[SUPPRESSION] bulk remove failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to remove suppression entries');
+    }
+};
+
+/**
+ * POST /api/suppressions/import?reason=&expires_at=
+ * Body: raw text/csv, or JSON { csv, reason?, expires_at? }.
+ * Per-row reason / expires_at columns win over the request-level defaults.
+ */
+export const importSuppressions = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const isRaw = typeof req.body === 'string';
+        const csv = isRaw ? req.body : req.body?.csv;
+        if (typeof csv !== 'string' || !csv.trim()) throw new AppError('CSV body is required', 400);
+        const opts = isRaw ? req.query : (req.body || {});
+        const data = await suppressionService.importCsv(getOrgId(req), csv, {
+            userId: req.orgContext?.userId ?? null,
+            reason: opts.reason ? String(opts.reason) : null,
+            expiresAt: parseExpiry(opts.expires_at),
+        });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[SUPPRESSION] import failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to import suppression list');
+    }
+};
+
+/**
+ * GET /api/suppressions/export?include_expired=
+ */
+export const exportSuppressions = async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+        const csv = await suppressionService.exportCsv(getOrgId(req), {
+            includeExpired: req.query.include_expired === 'true',
+        });
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="superkabe-suppressions-${new Date().toISOString().slice(0, 10)}.csv"`);
+        return res.send(csv);
+    } catch (err) {
+        logger.error('[SUPPRESSION] export failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to export suppression list');
+    }
+};
+
+/**
+ * GET /api/suppressions/check?email=
+ * Whether an address is suppressed and which entry (or lead status) hits it.
+ */
+export const checkSuppression = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const email = req.query.email ? String(req.query.email).trim() : '';
+        if (!email) throw new AppError('email is required', 400);
+        const hit = await suppressionService.isSuppressed(getOrgId(req), email);
+        return res.json({
+            success: true,
+            data: { email: email.toLowerCase(), suppressed: !!hit, hit, description: hit ? suppressionService.describeHit(hit) : null },
+        });
+    } catch (err) {
+        logger.error('[SUPPRESSION] check failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to check suppression');
+    }
+};
@@ -15,6 +15,8 @@ import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { logger } from '../services/observabilityService';
 import { verifyTrackingToken, TrackingPayload } from '../utils/trackingToken';
+import { recordVariantEngagement } from '../services/variantOptimizerService';
+import * as suppressionService from '../services/suppressionService';
 
 const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
 
@@ -179,6 +181,11 @@ export const trackOpen = async (req: Request, res: Response): Promise<Response |
                     recipientEmail: lead.email,
                     sentAt: sendCtx?.lastSentAt ?? null,
                 });
+                // A/B optimizer signal - credited after the event row exists so
+                // the once-per-send check sees this open.
+                await recordVariantEngagement(lead.id, 'open', {
+                    msSinceSend: sendCtx ? Date.now() - sendCtx.lastSentAt.getTime() : null,
+                });
             })
             .catch((err) => {
                 logger.error('[TRACKING] Failed to record open', err instanceof Error ? err : new Error(String(err)));
@@ -251,6 +258,7 @@ export const trackClick = async (req: Request, res: Response): Promise<Response
                     sentAt: sendCtx?.lastSentAt ?? null,
                     url,
                 });
+                await recordVariantEngagement(lead.id, 'click');
             })
             .catch((err) => {
                 logger.error('[TRACKING] Failed to record click', err instanceof Error ? err : new Error(String(err)));
@@ -347,6 +355,7 @@ export const processUnsubscribe = async (req: Request, res: Response): Promise<R
         //   2. CampaignLead rows for ALL of this lead's campaigns in the org - every
         //      active membership becomes 'unsubscribed' so the dispatcher won't send.
         //   3. Increment unsubscribed_count on the campaign that surfaced the link.
+        // The address is then added to the org suppression list (layer 4).
         try {
             await prisma.$transaction([
                 // Layer 1 - org-wide Lead suppression (idempotent: updateMany handles
@@ -385,6 +394,22 @@ export const processUnsubscribe = async (req: Request, res: Response): Promise<R
             // tell the recipient their click didn't work).
         }
 
+        // Layer 4 - the org suppression list, so the address stays blocked for
+        // sequencer-only contacts and anything that never had a Lead row.
+        try {
+            await suppressionService.suppress(
+                orgId,
+                { value: recipientEmail, type: 'email', reason: 'recipient_request' },
+                { source: 'unsubscribe' },
+            );
+        } catch (supErr) {
+            logger.error(
+                '[TRACKING] Suppression list write failed on unsubscribe',
+                supErr instanceof Error ? supErr : new Error(String(supErr)),
+                { orgId, recipientEmail },
+            );
+        }
+
         return res.send(`
             <html><body style="font-family:sans-serif;text-align:center;padding:60px;">
                 <h1>Unsubscribed</h1>
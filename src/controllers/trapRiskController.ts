@@ -0,0 +1,112 @@
+/**
+ * Trap Risk Controller
+ *
+ * Spam-trap risk flags under /api/trap-risk: flagged import batches and
+ * leads, on-demand re-assessment, and the operator's clear / suppress
+ * decisions. See spamTrapRiskService.
+ */
+
+import { Request, Response } from 'express';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import { AppError } from '../utils/appError';
+import { prisma } from '../index';
+import * as spamTrapRiskService from '../services/spamTrapRiskService';
+
+/**
+ * GET /api/trap-risk/batches?level=&limit=
+ * Elevated and high batches unless ?level= picks one.
+ */
+export const listBatches = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await spamTrapRiskService.listBatches(getOrgId(req), {
+            level: req.query.level ? String(req.query.level) : undefined,
+            limit: req.query.limit ? Number(req.query.limit) || undefined : undefined,
+        });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[TRAP_RISK] listBatches failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to list flagged import batches');
+    }
+};
+
+/**
+ * GET /api/trap-risk/batches/:id
+ * The batch summary plus its elevated / high leads.
+ */
+export const getBatch = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await spamTrapRiskService.getBatch(getOrgId(req), String(req.params.id));
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[TRAP_RISK] getBatch failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to load import batch');
+    }
+};
+
+/**
+ * POST /api/trap-risk/batches/:id/assess
+ * Re-score the batch now instead of waiting for the next sweep.
+ */
+export const assessBatch = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const batchId = String(req.params.id);
+        const owned = await prisma.campaignLeadImport.findFirst({ where: { id: batchId, organization_id: orgId }, select: { id: true } });
+        if (!owned) throw new AppError('Import batch not found', 404);
+        const data = await spamTrapRiskService.assessImportBatch(batchId);
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[TRAP_RISK] assessBatch failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to assess import batch');
+    }
+};
+
+/**
+ * GET /api/trap-risk/leads?level=&include_cleared=&limit=&offset=
+ */
+export const listLeads = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await spamTrapRiskService.listFlaggedLeads(getOrgId(req), {
+            level: req.query.level ? String(req.query.level) : undefined,
+            includeCleared: req.query.include_cleared === 'true',
+            limit: req.query.limit ? Number(req.query.limit) || undefined : undefined,
+            offset: req.query.offset ? Number(req.query.offset) || undefined : undefined,
+        });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[TRAP_RISK] listLeads failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to list flagged leads');
+    }
+};
+
+/**
+ * POST /api/trap-risk/leads/clear
+ * Body: { lead_ids: string[] }
+ * Marks the leads reviewed and resumes campaign leads the detector paused.
+ */
+export const clearLeads = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await spamTrapRiskService.clearLeads(getOrgId(req), req.body?.lead_ids, req.orgContext?.userId ?? null);
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[TRAP_RISK] clearLeads failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to clear flagged leads');
+    }
+};
+
+/**
+ * POST /api/trap-risk/leads/suppress
+ * Body: { lead_ids: string[] }
+ * Adds the leads to the org suppression list.
+ */
+export const suppressLeads = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await spamTrapRiskService.suppressLeads(getOrgId(req), req.body?.lead_ids, req.orgContext?.userId ?? null);
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[TRAP_RISK] suppressLeads failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to suppress flagged leads');
+    }
+};
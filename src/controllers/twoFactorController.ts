@@ -0,0 +1,267 @@
+/**
+ * Two-Factor Controller
+ *
+ * TOTP enrollment, recovery codes, step-up and the org "require 2FA" policy.
+ * Completing a login challenge lives in authController (it issues the
+ * session). See twoFactorService for the mechanics.
+ */
+
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { getOrgId } from '../middleware/orgContext';
+import { logger } from '../services/observabilityService';
+import { respondWithError } from '../utils/httpErrorResponse';
+import { AppError } from '../utils/appError';
+import * as twoFactorService from '../services/twoFactorService';
+import { recordSecurityEvent, EVENT_TYPES } from '../services/securityAuditLog';
+
+function requireUserId(req: Request): string {
+    const userId = req.orgContext?.userId;
+    if (!userId) throw new AppError('Two-factor authentication is only available to signed-in users', 401);
+    return userId;
+}
+
+const MAX_FAILED_ATTEMPTS = 10;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Verify the `code` (TOTP) or `recovery_code` in the body, recording the
+ * outcome. Throws 400 on a wrong code - not 401, which would sign the
+ * dashboard out. Wrong codes count toward the same failed_login_count /
+ * locked_until lockout as the login challenge (authController), so a
+ * stolen session can't brute-force the TOTP here either.
+ */
+async function checkSecondFactor(req: Request, userId: string, context: string): Promise<twoFactorService.SecondFactorMethod> {
+    const { code, recovery_code } = req.body || {};
+    if (typeof code !== 'string' && typeof recovery_code !== 'string') {
+        throw new AppError('code or recovery_code is required', 400);
+    }
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { failed_login_count: true, locked_until: true },
+    });
+    if (!user) throw new AppError('User not found', 404);
+    if (user.locked_until && user.locked_until > new Date()) {
+        const minutesLeft = Math.ceil((user.locked_until.getTime() - Date.now()) / 60000);
+        throw new AppError(`Account temporarily locked. Try again in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}.`, 423);
+    }
+
+    const organizationId = req.orgContext?.organizationId ?? null;
+    const method = await twoFactorService.verifySecondFactor(userId, {
+        code: typeof code === 'string' ? code : null,
+        recoveryCode: typeof recovery_code === 'string' ? recovery_code : null,
+    });
+    if (!method) {
+        const attempts = (user.failed_login_count || 0) + 1;
+        const lockUntil = attempts >= MAX_FAILED_ATTEMPTS ? new Date(Date.now() + LOCKOUT_MS) : null;
+        await prisma.user.update({
+            where: { id: userId },
+            data: { failed_login_count: attempts, locked_until: lockUntil },
+        });
+        await recordSecurityEvent({
+            organizationId, actorKind: 'user', actorId: userId,
+            eventType: EVENT_TYPES.TWO_FACTOR_CHALLENGE_FAILED, metadata: { context, attempts }, req,
+        });
+        if (lockUntil) {
+            logger.warn('[2FA] Account locked after too many failed attempts', { userId, context, attempts });
+            throw new AppError('Too many failed attempts. Account locked for 15 minutes.', 423);
+        }
+        throw new AppError('Invalid authentication code', 400);
+    }
+    if (user.failed_login_count) {
+        await prisma.user.update({ where: { id: userId }, data: { failed_login_count: 0, locked_until: null } });
+    }
+    if (method === 'recovery_code') {
+        await recordSecurityEvent({
+            organizationId, actorKind: 'user', actorId: userId,
+            eventType: EVENT_TYPES.TWO_FACTOR_RECOVERY_CODE_USED, metadata: { context }, req,
+        });
+    }
+    return method;
+}
+
+/**
+ * GET /api/auth/2fa
+ */
+export const getStatus = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const data = await twoFactorService.getStatus(requireUserId(req), req.orgContext?.organizationId);
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[2FA] getStatus failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to load two-factor status');
+    }
+};
+
+/**
+ * POST /api/auth/2fa/enroll
+ * Returns { secret, otpauth_url } - the dashboard renders the URL as a QR code.
+ */
+export const beginEnrollment = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const userId = requireUserId(req);
+        const data = await twoFactorService.beginEnrollment(userId);
+        await recordSecurityEvent({
+            organizationId: getOrgId(req), actorKind: 'user', actorId: userId,
+            eventType: EVENT_TYPES.TWO_FACTOR_ENROLLMENT_STARTED, req,
+        });
+        return res.json({ success: true, data });
+    } catch (err) {
+        logger.error('[2FA] beginEnrollment failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to start two-factor enrollment');
+    }
+};
+
+/**
+ * POST /api/auth/2fa/enroll/confirm
+ * Body: { code }
+ * Returns { recovery_codes } - shown once.
+ */
+export const confirmEnrollment = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const userId = requireUserId(req);
+        const code = req.body?.code;
+        if (typeof code !== 'string') throw new AppError('code is required', 400);
+        const recoveryCodes = await twoFactorService.confirmEnrollment(userId, code);
+        await recordSecurityEvent({
+            organizationId: getOrgId(req), actorKind: 'user', actorId: userId,
+            eventType: EVENT_TYPES.TWO_FACTOR_ENABLED, req,
+        });
+        logger.info('[2FA] Enabled', { userId });
+        return res.json({ success: true, data: { recovery_codes: recoveryCodes } });
+    } catch (err) {
+        logger.error('[2FA] confirmEnrollment failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to confirm two-factor enrollment');
+    }
+};
+
+/**
+ * POST /api/auth/2fa/disable
+ * Body: { code } or { recovery_code }
+ * Refused while the organization requires 2FA.
+ */
+export const disable = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const userId = requireUserId(req);
+        const status = await twoFactorService.getStatus(userId, req.orgContext?.organizationId);
+        if (!status.enabled) throw new AppError('Two-factor authentication is not enabled', 400);
+        if (status.required_by_organization) {
+            throw new AppError('This workspace requires two-factor authentication', 403);
+        }
+        await checkSecondFactor(req, userId, 'disable');
+        await twoFactorService.disable(userId);
+        await recordSecurityEvent({
+            organizationId: getOrgId(req), actorKind: 'user', actorId: userId,
+            eventType: EVENT_TYPES.TWO_FACTOR_DISABLED, req,
+        });
+        logger.info('[2FA] Disabled', { userId });
+        return res.json({ success: true, data: { enabled: false } });
+    } catch (err) {
+        logger.error('[2FA] disable failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to disable two-factor authentication');
+    }
+};
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Body: { code } or { recovery_code }
+ * Replaces every outstanding recovery code.
+ */
+export const regenerateRecoveryCodes = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const userId = requireUserId(req);
+        if (!(await twoFactorService.isEnabled(userId))) {
+            throw new AppError('Two-factor authentication is not enabled', 400);
+        }
+        await checkSecondFactor(req, userId, 'recovery_codes');
+        const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(userId);
+        await recordSecurityEvent({
+            organizationId: getOrgId(req), actorKind: 'user', actorId: userId,
+            eventType: EVENT_TYPES.TWO_FACTOR_RECOVERY_CODES_REGENERATED, req,
+        });
+        return res.json({ success: true, data: { recovery_codes: recoveryCodes } });
+    } catch (err) {
+        logger.error('[2FA] regenerateRecoveryCodes failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to regenerate recovery codes');
+    }
+};
+
+/**
+ * POST /api/auth/2fa/step-up
+ * Body: { code } or { recovery_code }
+ * Returns { token, expires_at } for the X-Step-Up-Token header.
+ */
+export const stepUp = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const userId = requireUserId(req);
+        if (!(await twoFactorService.isEnabled(userId))) {
+            throw new AppError('Two-factor authentication is not enabled', 400);
+        }
+        const method = await checkSecondFactor(req, userId, 'step_up');
+        await recordSecurityEvent({
+            organizationId: getOrgId(req), actorKind: 'user', actorId: userId,
+            eventType: EVENT_TYPES.TWO_FACTOR_STEP_UP_PASSED, metadata: { method }, req,
+        });
+        return res.json({ success: true, data: twoFactorService.issueStepUpToken(userId) });
+    } catch (err) {
+        logger.error('[2FA] stepUp failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to verify authentication code');
+    }
+};
+
+/**
+ * GET /api/settings/two-factor
+ */
+export const getPolicy = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        // Everyone who can act in this workspace: active members, plus
+        // home-org users that predate memberships.
+        const inWorkspace = {
+            OR: [
+                { workspaceMemberships: { some: { organization_id: orgId, status: 'active' } } },
+                { organization_id: orgId, scoped_organization_id: null },
+            ],
+        };
+        const [org, members, enrolled] = await Promise.all([
+            prisma.organization.findUnique({ where: { id: orgId }, select: { require_two_factor: true } }),
+            prisma.user.count({ where: inWorkspace }),
+            prisma.user.count({ where: { ...inWorkspace, totp_enabled_at: { not: null } } }),
+        ]);
+        if (!org) throw new AppError('Organization not found', 404);
+        return res.json({
+            success: true,
+            data: { require_two_factor: org.require_two_factor, members, enrolled },
+        });
+    } catch (err) {
+        logger.error('[2FA] getPolicy failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to load two-factor policy');
+    }
+};
+
+/**
+ * PUT /api/settings/two-factor
+ * Body: { require_two_factor: boolean }
+ * The caller must have 2FA enabled before requiring it of everyone.
+ */
+export const updatePolicy = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const orgId = getOrgId(req);
+        const userId = requireUserId(req);
+        const required = req.body?.require_two_factor;
+        if (typeof required !== 'boolean') throw new AppError('require_two_factor must be a boolean', 400);
+        if (required && !(await twoFactorService.isEnabled(userId))) {
+            throw new AppError('Enable two-factor authentication on your own account first', 400);
+        }
+        await prisma.organization.update({ where: { id: orgId }, data: { require_two_factor: required } });
+        await recordSecurityEvent({
+            organizationId: orgId, actorKind: 'user', actorId: userId,
+            eventType: EVENT_TYPES.TWO_FACTOR_POLICY_CHANGED, metadata: { require_two_factor: required }, req,
+        });
+        logger.info('[2FA] Organization policy changed', { orgId, userId, required });
+        return res.json({ success: true, data: { require_two_factor: required } });
+    } catch (err) {
+        logger.error('[2FA] updatePolicy failed', err instanceof Error ? err : new Error(String(err)));
+        return respondWithError(res, err, 'Failed to update two-factor policy');
+    }
+};
@@ -14,6 +14,9 @@ import { TIER_LIMITS } from '../services/polarClient';
 import { classifyLeadHealth } from '../services/leadHealthService';
 import * as webhookBus from '../services/webhookEventBus';
 import { SlackAlertService } from '../services/SlackAlertService';
+import { getCampaignExperimentReports, parseExperimentQuery } from '../services/experimentReportService';
+import { stepTaskFields, validateStepTypes, channelForSteps } from '../services/sequenceTaskService';
+import { buildV1OpenApiDocument } from '../services/openApiService';
 
 // ────────────────────────────────────────────────────────────────────
 // Scope check helper
@@ -34,6 +37,18 @@ function requireScope(req: Request, res: Response, scope: string): boolean {
     return true;
 }
 
+// ────────────────────────────────────────────────────────────────────
+// SPEC
+// ────────────────────────────────────────────────────────────────────
+
+/**
+ * GET /api/v1/openapi.json
+ * OpenAPI 3.1 document for this API. Public - no key or scope required.
+ */
+export const getOpenApiSpec = async (_req: Request, res: Response): Promise<Response> => {
+    return res.json(buildV1OpenApiDocument());
+};
+
 // ────────────────────────────────────────────────────────────────────
 // LEADS
 // ────────────────────────────────────────────────────────────────────
@@ -273,6 +288,10 @@ export const createCampaign = async (req: Request, res: Response): Promise<Respo
     if (!Array.isArray(steps) || steps.length === 0) {
         return res.status(400).json({ success: false, error: 'At least one sequence step is required' });
     }
+    const stepTypeError = validateStepTypes(steps);
+    if (stepTypeError) {
+        return res.status(400).json({ success: false, error: stepTypeError });
+    }
 
     try {
         const campaign = await prisma.campaign.create({
@@ -281,7 +300,7 @@ export const createCampaign = async (req: Request, res: Response): Promise<Respo
                 organization_id: orgId,
                 name: name.trim(),
                 status: 'draft',
-                                channel: 'email',
+                channel: channelForSteps(steps),
                 schedule_timezone: schedule?.timezone || 'UTC',
                 schedule_start_time: schedule?.start_time || '09:00',
                 schedule_end_time: schedule?.end_time || '17:00',
@@ -303,6 +322,7 @@ export const createCampaign = async (req: Request, res: Response): Promise<Respo
                     subject: step.subject || '',
                     body_html: step.body_html || step.body || '',
                     body_text: step.body_text || '',
+                    ...stepTaskFields(step),
                 }
             });
 
@@ -558,13 +578,18 @@ export const pauseCampaign = async (req: Request, res: Response): Promise<Respon
 
 /**
  * GET /api/v1/campaigns/:id/report
- * Aggregate performance report for a campaign.
+ * Aggregate performance report for a campaign, plus per-step A/B experiment
+ * results (`experiments`). Optional query: metric=reply|open|click,
+ * confidence=0.8-0.99 - both apply to the experiments block only.
  */
 export const getCampaignReport = async (req: Request, res: Response): Promise<Response> => {
     if (!requireScope(req, res, 'reports:read')) return res as Response;
     const orgId = getOrgId(req);
 
     try {
+        const experimentQuery = parseExperimentQuery(req.query);
+        if (typeof experimentQuery === 'string') return res.status(400).json({ success: false, error: experimentQuery });
+
         const campaign = await prisma.campaign.findFirst({
             where: { id: req.params.id as string, organization_id: orgId },
             select: { id: true, name: true, status: true, created_at: true }
@@ -572,7 +597,7 @@ export const getCampaignReport = async (req: Request, res: Response): Promise<Re
 
         if (!campaign) return res.status(404).json({ success: false, error: 'Campaign not found' });
 
-        const [leadStats, sendEvents, replyEvents] = await Promise.all([
+        const [leadStats, sendEvents, replyEvents, experiments] = await Promise.all([
             prisma.campaignLead.groupBy({
                 by: ['status'],
                 where: { campaign_id: campaign.id },
@@ -584,6 +609,7 @@ export const getCampaignReport = async (req: Request, res: Response): Promise<Re
             prisma.replyEvent.count({
                 where: { campaign_id: campaign.id, organization_id: orgId }
             }),
+            getCampaignExperimentReports(orgId, campaign.id, experimentQuery),
         ]);
 
         const statusMap: Record<string, number> = {};
@@ -601,6 +627,7 @@ export const getCampaignReport = async (req: Request, res: Response): Promise<Re
                 emails_sent: sendEvents,
                 replies: replyEvents,
                 reply_rate: sendEvents > 0 ? ((replyEvents / sendEvents) * 100).toFixed(2) + '%' : '0%',
+                experiments: experiments ?? [],
                 created_at: campaign.created_at,
             }
         });
@@ -3,6 +3,8 @@ export interface DnsblListSeed {
     zone: string;
     tier: 'critical' | 'major' | 'minor';
     category: 'spam' | 'exploit' | 'policy' | 'general';
+    /** 'uri' lists key on domain names found in message bodies (SURBL, URIBL, DBL); default 'ip'. */
+    list_type?: 'ip' | 'uri';
     weight: number;
     requires_auth: boolean;
     auth_config_key?: string;
@@ -65,6 +67,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'multi.surbl.org',
         tier: 'critical',
         category: 'spam',
+        list_type: 'uri',
         weight: 10,
         requires_auth: false,
         rotation_group: 0,
@@ -366,6 +369,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'dbl.spamhaus.org',
         tier: 'major',
         category: 'spam',
+        list_type: 'uri',
         weight: 3,
         requires_auth: true,
         auth_config_key: 'SPAMHAUS_DQS_KEY',
@@ -437,6 +441,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'fresh.spameatingmonkey.net',
         tier: 'major',
         category: 'policy',
+        list_type: 'uri',
         weight: 3,
         requires_auth: false,
         rotation_group: 0,
@@ -448,6 +453,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'uribl.spameatingmonkey.net',
         tier: 'major',
         category: 'spam',
+        list_type: 'uri',
         weight: 3,
         requires_auth: false,
         rotation_group: 0,
@@ -501,6 +507,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'multi.uribl.com',
         tier: 'major',
         category: 'spam',
+        list_type: 'uri',
         weight: 3,
         requires_auth: false,
         rotation_group: 0,
@@ -699,6 +706,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'dblack.mail.abusix.zone',
         tier: 'minor',
         category: 'spam',
+        list_type: 'uri',
         weight: 1,
         requires_auth: false,
         rotation_group: 1,
@@ -777,6 +785,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'black.uribl.com',
         tier: 'minor',
         category: 'spam',
+        list_type: 'uri',
         weight: 1,
         requires_auth: false,
         rotation_group: 2,
@@ -786,7 +795,8 @@ export const dnsblLists: DnsblListSeed[] = [
         name: 'uribl_grey',
         zone: 'grey.uribl.com',
         tier: 'minor',
-        category: 'spam',
+        category: 'policy',
+        list_type: 'uri',
         weight: 1,
         requires_auth: false,
         rotation_group: 3,
@@ -797,6 +807,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'red.uribl.com',
         tier: 'minor',
         category: 'spam',
+        list_type: 'uri',
         weight: 1,
         requires_auth: false,
         rotation_group: 4,
@@ -809,11 +820,48 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'abuse.surbl.org',
         tier: 'minor',
         category: 'spam',
+        list_type: 'uri',
         weight: 1,
         requires_auth: false,
         rotation_group: 5,
         notes: 'SURBL abuse data - phishing/malware domains.',
     },
+    {
+        name: 'surbl_ph',
+        zone: 'ph.surbl.org',
+        tier: 'minor',
+        category: 'exploit',
+        list_type: 'uri',
+        weight: 1,
+        requires_auth: false,
+        rotation_group: 5,
+        delisting_url: 'https://www.surbl.org/surbl-analysis',
+        notes: 'SURBL PH - phishing link domains.',
+    },
+    {
+        name: 'surbl_mw',
+        zone: 'mw.surbl.org',
+        tier: 'minor',
+        category: 'exploit',
+        list_type: 'uri',
+        weight: 1,
+        requires_auth: false,
+        rotation_group: 6,
+        delisting_url: 'https://www.surbl.org/surbl-analysis',
+        notes: 'SURBL MW - malware-hosting link domains.',
+    },
+    {
+        name: 'surbl_cr',
+        zone: 'cr.surbl.org',
+        tier: 'minor',
+        category: 'exploit',
+        list_type: 'uri',
+        weight: 1,
+        requires_auth: false,
+        rotation_group: 0,
+        delisting_url: 'https://www.surbl.org/surbl-analysis',
+        notes: 'SURBL CR - cracked sites serving redirects to spam / malware.',
+    },
 
     // --- Spamhaus extended ---
     {
@@ -1091,6 +1139,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'dbl.nordspam.com',
         tier: 'minor',
         category: 'spam',
+        list_type: 'uri',
         weight: 1,
         requires_auth: false,
         rotation_group: 5,
@@ -1279,6 +1328,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'dbl.malwaredomains.com',
         tier: 'minor',
         category: 'exploit',
+        list_type: 'uri',
         weight: 1,
         requires_auth: false,
         rotation_group: 3,
@@ -1401,6 +1451,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'zrd.spamhaus.org',
         tier: 'minor',
         category: 'policy',
+        list_type: 'uri',
         weight: 1,
         requires_auth: true,
         auth_config_key: 'SPAMHAUS_DQS_KEY',
@@ -1889,6 +1940,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'fresh15.spameatingmonkey.net',
         tier: 'minor',
         category: 'policy',
+        list_type: 'uri',
         weight: 1,
         requires_auth: false,
         rotation_group: 3,
@@ -1899,6 +1951,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'fresh10.spameatingmonkey.net',
         tier: 'minor',
         category: 'policy',
+        list_type: 'uri',
         weight: 1,
         requires_auth: false,
         rotation_group: 4,
@@ -1909,6 +1962,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'fresh5.spameatingmonkey.net',
         tier: 'minor',
         category: 'policy',
+        list_type: 'uri',
         weight: 1,
         requires_auth: false,
         rotation_group: 5,
@@ -4480,6 +4534,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'fresh3.spameatingmonkey.net',
         tier: 'minor',
         category: 'policy',
+        list_type: 'uri',
         weight: 1,
         requires_auth: false,
         rotation_group: 6,
@@ -4490,6 +4545,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'fresh30.spameatingmonkey.net',
         tier: 'minor',
         category: 'policy',
+        list_type: 'uri',
         weight: 1,
         requires_auth: false,
         rotation_group: 1,
@@ -4512,6 +4568,7 @@ export const dnsblLists: DnsblListSeed[] = [
         zone: 'mixed.uribl.com',
         tier: 'minor',
         category: 'spam',
+        list_type: 'uri',
         weight: 1,
         requires_auth: false,
         rotation_group: 3,
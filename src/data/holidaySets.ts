@@ -0,0 +1,169 @@
+/**
+ * Bundled national public-holiday rules for blackout calendars
+ * (BlackoutRule.kind = 'holiday_set'). Stored as rules, not dates, so they
+ * never need a yearly refresh; blackoutCalendarService expands them per year.
+ *
+ * Scope is NATIONAL holidays only - regional ones (US state holidays,
+ * German Länder, Australian King's Birthday) vary too much to bundle; add
+ * those as explicit or recurring BlackoutRules.
+ *
+ * `observed` moves a weekend holiday onto a weekday:
+ *   - 'nearest'    Sat → Fri, Sun → Mon (US federal)
+ *   - 'substitute' next free weekday (UK / CA / AU substitute days)
+ */
+
+export type HolidayObservance = 'nearest' | 'substitute';
+
+export type HolidayRuleSeed =
+    | { name: string; month: number; day: number; observed?: HolidayObservance }
+    /** nth weekday of the month; nth = -1 is the last one. weekday 0 = Sunday. */
+    | { name: string; month: number; weekday: number; nth: number }
+    /** Last `weekday` on or before month/day (e.g. Victoria Day). */
+    | { name: string; month: number; weekday: number; onOrBefore: number }
+    /** Days relative to Western Easter Sunday. */
+    | { name: string; easterOffset: number };
+
+export interface HolidaySetSeed {
+    country_code: string;
+    name: string;
+    holidays: HolidayRuleSeed[];
+}
+
+export const holidaySets: HolidaySetSeed[] = [
+    {
+        country_code: 'us',
+        name: 'United States (federal)',
+        holidays: [
+            { name: "New Year's Day", month: 1, day: 1, observed: 'nearest' },
+            { name: 'Martin Luther King Jr. Day', month: 1, weekday: 1, nth: 3 },
+            { name: "Presidents' Day", month: 2, weekday: 1, nth: 3 },
+            { name: 'Memorial Day', month: 5, weekday: 1, nth: -1 },
+            { name: 'Juneteenth', month: 6, day: 19, observed: 'nearest' },
+            { name: 'Independence Day', month: 7, day: 4, observed: 'nearest' },
+            { name: 'Labor Day', month: 9, weekday: 1, nth: 1 },
+            { name: 'Columbus Day', month: 10, weekday: 1, nth: 2 },
+            { name: 'Veterans Day', month: 11, day: 11, observed: 'nearest' },
+            { name: 'Thanksgiving', month: 11, weekday: 4, nth: 4 },
+            { name: 'Christmas Day', month: 12, day: 25, observed: 'nearest' },
+        ],
+    },
+    {
+        country_code: 'gb',
+        name: 'United Kingdom (England & Wales bank holidays)',
+        holidays: [
+            { name: "New Year's Day", month: 1, day: 1, observed: 'substitute' },
+            { name: 'Good Friday', easterOffset: -2 },
+            { name: 'Easter Monday', easterOffset: 1 },
+            { name: 'Early May bank holiday', month: 5, weekday: 1, nth: 1 },
+            { name: 'Spring bank holiday', month: 5, weekday: 1, nth: -1 },
+            { name: 'Summer bank holiday', month: 8, weekday: 1, nth: -1 },
+            { name: 'Christmas Day', month: 12, day: 25, observed: 'substitute' },
+            { name: 'Boxing Day', month: 12, day: 26, observed: 'substitute' },
+        ],
+    },
+    {
+        country_code: 'ca',
+        name: 'Canada (federal)',
+        holidays: [
+            { name: "New Year's Day", month: 1, day: 1, observed: 'substitute' },
+            { name: 'Good Friday', easterOffset: -2 },
+            { name: 'Victoria Day', month: 5, weekday: 1, onOrBefore: 24 },
+            { name: 'Canada Day', month: 7, day: 1, observed: 'substitute' },
+            { name: 'Labour Day', month: 9, weekday: 1, nth: 1 },
+            { name: 'Thanksgiving', month: 10, weekday: 1, nth: 2 },
+            { name: 'Christmas Day', month: 12, day: 25, observed: 'substitute' },
+            { name: 'Boxing Day', month: 12, day: 26, observed: 'substitute' },
+        ],
+    },
+    {
+        country_code: 'au',
+        name: 'Australia (national)',
+        holidays: [
+            { name: "New Year's Day", month: 1, day: 1, observed: 'substitute' },
+            { name: 'Australia Day', month: 1, day: 26, observed: 'substitute' },
+            { name: 'Good Friday', easterOffset: -2 },
+            { name: 'Easter Monday', easterOffset: 1 },
+            { name: 'Anzac Day', month: 4, day: 25 },
+            { name: 'Christmas Day', month: 12, day: 25, observed: 'substitute' },
+            { name: 'Boxing Day', month: 12, day: 26, observed: 'substitute' },
+        ],
+    },
+    {
+        country_code: 'de',
+        name: 'Germany (national)',
+        holidays: [
+            { name: 'Neujahr', month: 1, day: 1 },
+            { name: 'Karfreitag', easterOffset: -2 },
+            { name: 'Ostermontag', easterOffset: 1 },
+            { name: 'Tag der Arbeit', month: 5, day: 1 },
+            { name: 'Christi Himmelfahrt', easterOffset: 39 },
+            { name: 'Pfingstmontag', easterOffset: 50 },
+            { name: 'Tag der Deutschen Einheit', month: 10, day: 3 },
+            { name: '1. Weihnachtstag', month: 12, day: 25 },
+            { name: '2. Weihnachtstag', month: 12, day: 26 },
+        ],
+    },
+    {
+        country_code: 'fr',
+        name: 'France',
+        holidays: [
+            { name: "Jour de l'an", month: 1, day: 1 },
+            { name: 'Lundi de Pâques', easterOffset: 1 },
+            { name: 'Fête du Travail', month: 5, day: 1 },
+            { name: 'Victoire 1945', month: 5, day: 8 },
+            { name: 'Ascension', easterOffset: 39 },
+            { name: 'Lundi de Pentecôte', easterOffset: 50 },
+            { name: 'Fête nationale', month: 7, day: 14 },
+            { name: 'Assomption', month: 8, day: 15 },
+            { name: 'Toussaint', month: 11, day: 1 },
+            { name: 'Armistice', month: 11, day: 11 },
+            { name: 'Noël', month: 12, day: 25 },
+        ],
+    },
+    {
+        country_code: 'nl',
+        name: 'Netherlands',
+        holidays: [
+            { name: 'Nieuwjaarsdag', month: 1, day: 1 },
+            { name: 'Tweede Paasdag', easterOffset: 1 },
+            { name: 'Koningsdag', month: 4, day: 27 },
+            { name: 'Hemelvaartsdag', easterOffset: 39 },
+            { name: 'Tweede Pinksterdag', easterOffset: 50 },
+            { name: 'Eerste Kerstdag', month: 12, day: 25 },
+            { name: 'Tweede Kerstdag', month: 12, day: 26 },
+        ],
+    },
+    {
+        country_code: 'es',
+        name: 'Spain (national)',
+        holidays: [
+            { name: 'Año Nuevo', month: 1, day: 1 },
+            { name: 'Epifanía', month: 1, day: 6 },
+            { name: 'Viernes Santo', easterOffset: -2 },
+            { name: 'Fiesta del Trabajo', month: 5, day: 1 },
+            { name: 'Asunción', month: 8, day: 15 },
+            { name: 'Fiesta Nacional', month: 10, day: 12 },
+            { name: 'Todos los Santos', month: 11, day: 1 },
+            { name: 'Día de la Constitución', month: 12, day: 6 },
+            { name: 'Inmaculada Concepción', month: 12, day: 8 },
+            { name: 'Navidad', month: 12, day: 25 },
+        ],
+    },
+    {
+        country_code: 'it',
+        name: 'Italy',
+        holidays: [
+            { name: 'Capodanno', month: 1, day: 1 },
+            { name: 'Epifania', month: 1, day: 6 },
+            { name: "Lunedì dell'Angelo", easterOffset: 1 },
+            { name: 'Festa della Liberazione', month: 4, day: 25 },
+            { name: 'Festa del Lavoro', month: 5, day: 1 },
+            { name: 'Festa della Repubblica', month: 6, day: 2 },
+            { name: 'Ferragosto', month: 8, day: 15 },
+            { name: 'Ognissanti', month: 11, day: 1 },
+            { name: 'Immacolata Concezione', month: 12, day: 8 },
+            { name: 'Natale', month: 12, day: 25 },
+            { name: 'Santo Stefano', month: 12, day: 26 },
+        ],
+    },
+];
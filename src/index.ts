@@ -86,6 +86,14 @@ import validationRoutes from './routes/validation';
 import uniboxRoutes from './routes/unibox';
 import sequencerRoutes from './routes/sequencer';
 import coldCallListRoutes from './routes/coldCallList';
+import complaintRoutes from './routes/complaints';
+import placementRoutes from './routes/placement';
+import suppressionRoutes from './routes/suppressions';
+import trapRiskRoutes from './routes/trapRisk';
+import linkReputationRoutes from './routes/linkReputation';
+import ssoRoutes from './routes/sso';
+import scimRoutes from './routes/scim';
+import roleRoutes from './routes/roles';
 import trackingRoutes from './routes/tracking';
 import infrastructureRoutes from './routes/infrastructure';
 import slackRoutes from './routes/slack';
@@ -98,6 +106,7 @@ import webhookRoutes from './routes/webhooks';
 
 import { checkSubscriptionStatus } from './middleware/featureGate';
 import { requireFreshConsent } from './middleware/requireFreshConsent';
+import { enforceTwoFactorPolicy } from './middleware/twoFactor';
 
 // Import controllers
 import * as monitoringController from './controllers/monitoringController';
@@ -123,6 +132,8 @@ import { startLeadScoringWorker, stopLeadScoringWorker } from './services/leadSc
 import { startTrialWorker, stopTrialWorker } from './services/trialWorker';
 import { scheduleWarmupTracking } from './workers/warmupTrackingWorker';
 import { scheduleSequencerSpikeWorker, stopSequencerSpikeWorker } from './workers/sequencerSpikeWorker';
+import { scheduleVariantOptimizerWorker, stopVariantOptimizerWorker } from './workers/variantOptimizerWorker';
+import { scheduleSendTimeProfileWorker, stopSendTimeProfileWorker } from './workers/sendTimeProfileWorker';
 import { scheduleEspPerformanceAggregation } from './workers/espPerformanceWorker';
 import { scheduleSendQueue } from './services/sendQueueService';
 import { scheduleImapPolling } from './workers/imapReplyWorker';
@@ -180,7 +191,7 @@ app.use(cors({
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Organization-ID', 'X-API-Key', 'Mcp-Session-Id', 'Mcp-Protocol-Version'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Organization-ID', 'X-API-Key', 'X-Step-Up-Token', 'Mcp-Session-Id', 'Mcp-Protocol-Version'],
     exposedHeaders: ['Mcp-Session-Id'],
 }));
 app.use(cookieParser());
@@ -298,6 +309,8 @@ app.use('/api', (req, res, next) => {
     // AWS SNS posts SES bounce/complaint events here without our auth - bypass
     // subscription gating entirely; the controller validates source via SourceArn.
     if (req.path === '/super-sender/ses-notification') return next();
+    // The public API's OpenAPI document is served without auth.
+    if (req.path === '/v1/openapi.json') return next();
     checkSubscriptionStatus(req, res, next);
 });
 
@@ -307,6 +320,10 @@ app.use('/api', (req, res, next) => {
 // re-acceptance modal that calls /api/auth/accept-current-terms to resolve.
 app.use('/api', requireFreshConsent);
 
+// Org "require 2FA" policy - 403 two_factor_enrollment_required for members
+// who haven't enrolled yet; /auth/2fa enrollment stays reachable.
+app.use('/api', enforceTwoFactorPolicy);
+
 // Slack Routes (Bypass /api and typical auth)
 app.use('/slack', slackRoutes);
 
@@ -331,10 +348,18 @@ app.use('/api/validation', validationRoutes);
 app.use('/api/unibox', uniboxRoutes);
 app.use('/api/sequencer', sequencerRoutes);
 app.use('/api/cold-call-list', coldCallListRoutes);
+app.use('/api/complaints', complaintRoutes);
+app.use('/api/placement', placementRoutes);
+app.use('/api/suppressions', suppressionRoutes);
+app.use('/api/trap-risk', trapRiskRoutes);
+app.use('/api/link-reputation', linkReputationRoutes);
+app.use('/api/sso', ssoRoutes);
+app.use('/api/roles', roleRoutes);
 app.use('/api/ai', aiRoutes);
 import superSenderRoutes from './routes/superSender';
 app.use('/api/super-sender', superSenderRoutes);
 app.use('/api/webhooks', webhookRoutes);
+app.use('/scim/v2', rateLimit, scimRoutes); // SCIM token auth, not orgContext - see routes/scim.ts
 app.use('/t', trackingRoutes); // public, no auth - tracking pixels + click redirects + unsubscribe
 
 // ── MCP OAuth 2.0 / DCR (RFC 7591) ──────────────────────────────────
@@ -593,6 +618,10 @@ app.post('/api/postmaster/disconnect', asyncHandler(postmasterController.disconn
 app.post('/api/postmaster/fetch-now', asyncHandler(postmasterController.fetchNow));
 app.get('/api/postmaster/status', asyncHandler(postmasterController.getStatus));
 app.get('/api/dashboard/domains/:id/reputation', asyncHandler(postmasterController.getDomainReputation));
+// Microsoft SNDS (Outlook.com per-IP reputation) - fetched by the same daily worker
+app.post('/api/postmaster/snds', asyncHandler(postmasterController.connectSnds));
+app.post('/api/postmaster/snds/disconnect', asyncHandler(postmasterController.disconnectSnds));
+app.get('/api/dashboard/ip-reputation', asyncHandler(postmasterController.getIpReputation));
 // Public OAuth callback - Google redirects here without our auth context.
 app.get('/oauth/callback/postmaster', asyncHandler(postmasterController.oauthCallback));
 
@@ -1039,6 +1068,18 @@ const server = app.listen(PORT, () => {
     import('./workers/warmupRecipientWorker').then(m => m.startWarmupRecipientWorker());
     import('./workers/warmupRampWorker').then(m => m.startWarmupRampWorker());
 
+    // Seed-list placement tests - sends queued tests, then IMAP-polls the
+    // seed inboxes for where each copy landed (every 2 min).
+    import('./workers/placementTestWorker').then(m => m.startPlacementTestWorker());
+
+    // Spam-trap risk - re-scores recent import batches and pauses queued
+    // leads that look like recycled traps (every 6h).
+    import('./workers/spamTrapRiskWorker').then(m => m.startSpamTrapRiskWorker());
+
+    // Link reputation - checks tracking and link domains in active steps
+    // against URI blocklists and pauses steps that carry a listed one (every 6h).
+    import('./workers/linkReputationWorker').then(m => m.startLinkReputationWorker());
+
     // Super Sender - drives DedicatedIp state machine (provisioning + ramp).
     // Stub-mode in dev/staging cycles a row through the full lifecycle in
     // ~10s; real-mode polls AWS SES and ramps daily over 30 days.
@@ -1095,6 +1136,14 @@ const server = app.listen(PORT, () => {
     scheduleSequencerSpikeWorker();
     logger.info('Sequencer spike detector started (hourly bounce + unsubscribe rate scans)');
 
+    // Start A/B variant optimizer (Thompson sampling on opted-in steps)
+    scheduleVariantOptimizerWorker();
+    logger.info('Variant optimizer started (re-weights opted-in A/B steps every 30m)');
+
+    // Start send-time profile rebuild (hour-of-week engagement per segment)
+    scheduleSendTimeProfileWorker();
+    logger.info('Send-time profile worker started (rebuilds engagement profiles every 12h)');
+
     // Start ESP performance aggregation worker
     scheduleEspPerformanceAggregation();
     logger.info('ESP performance worker started (runs every 6h for mailbox ESP scoring)');
@@ -1168,6 +1217,8 @@ async function gracefulShutdown(signal: string): Promise<void> {
     logger.info('Weekly digest worker stopped');
 
     stopSequencerSpikeWorker();
+    stopVariantOptimizerWorker();
+    stopSendTimeProfileWorker();
     logger.info('Sequencer spike detector stopped');
 
 
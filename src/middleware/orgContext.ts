@@ -108,6 +108,9 @@ export const extractOrgContext = async (
             '/auth/invite',           // GET /auth/invite?token= validates a magic link
             '/auth/invite/complete',  // POST sets password + creates the User row
             '/auth/login/client',     // workspace-scoped client login
+            '/auth/2fa/login',        // second step of a 2FA sign-in (challenge_token in the body)
+            '/auth/sso/',             // SAML / OIDC sign-in: discover, start, ACS, callback, SP metadata
+            '/v1/openapi.json',       // public API description
             '/ingest/clay', '/billing/polar-webhook', '/sequencer/accounts/google/callback', '/sequencer/accounts/microsoft/callback', '/oauth/callback/postmaster', '/oauth/consent/details', '/oauth/consent/deny', '/consent/cookies', '/integrations/hubspot/callback', '/integrations/salesforce/callback', '/integrations/outreach/callback', '/integrations/hubspot/webhooks',
             // SES SNS posts to this endpoint without our auth - verified by AWS
             // signing keys at the controller layer (TODO: add signature check).
@@ -146,6 +149,8 @@ export const extractOrgContext = async (
                         organization_id: true,
                         account_id: true,
                         password_changed_at: true,
+                        scoped_organization_id: true,
+                        workspaceMemberships: { where: { status: 'disabled' }, select: { organization_id: true } },
                     },
                 });
                 if (!user) {
@@ -193,6 +198,22 @@ export const extractOrgContext = async (
                     });
                     return;
                 }
+                // A client user whose workspace membership was disabled (by an
+                // owner or by SCIM deprovisioning) loses existing sessions too.
+                if (user.scoped_organization_id
+                    && user.workspaceMemberships.some(m => m.organization_id === user.scoped_organization_id)) {
+                    logger.warn('[ORG_CONTEXT] Workspace membership disabled - clearing cookie + 401', {
+                        userId: jwtPayload.userId,
+                        organizationId: user.scoped_organization_id,
+                    });
+                    clearTokenCookie(res);
+                    res.status(401).json({
+                        success: false,
+                        error: 'Access disabled',
+                        message: 'Your access to this workspace has been disabled.',
+                    });
+                    return;
+                }
                 if (user.password_changed_at && jwtPayload.iat) {
                     const tokenIssuedAt = new Date(jwtPayload.iat * 1000);
                     if (tokenIssuedAt < user.password_changed_at) {
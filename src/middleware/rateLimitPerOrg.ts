@@ -40,14 +40,16 @@ export interface RateLimitPerOrgOpts {
     windowMs: number;
     /** Key prefix so two limiters (e.g. connect vs export) don't share a bucket. */
     bucketKey: string;
+    /** Budget per org (default) or per signed-in user. */
+    keyBy?: 'org' | 'user';
 }
 
 export function rateLimitPerOrg(opts: RateLimitPerOrgOpts) {
     return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-        const orgId = req.orgContext?.organizationId;
+        const subject = opts.keyBy === 'user' ? req.orgContext?.userId : req.orgContext?.organizationId;
         // Unauthenticated / no-org requests are gated by auth middleware before
         // they reach here; nothing to throttle on the org boundary, so pass.
-        if (!orgId) {
+        if (!subject) {
             next();
             return;
         }
@@ -61,7 +63,7 @@ export function rateLimitPerOrg(opts: RateLimitPerOrgOpts) {
 
         const now = Date.now();
         const windowIndex = Math.floor(now / opts.windowMs);
-        const key = `ratelimit:${opts.bucketKey}:${orgId}:${windowIndex}`;
+        const key = `ratelimit:${opts.bucketKey}:${subject}:${windowIndex}`;
 
         let count: number;
         try {
@@ -169,3 +171,16 @@ export const assessmentRateLimit = rateLimitPerOrg({
     windowMs: 60_000,
     bucketKey: 'assessment-run',
 });
+
+/**
+ * Signed-in second-factor checks (2FA step-up, disable, recovery-code
+ * regeneration): 5/min/user. A stolen session must not be able to walk the
+ * 10^6 TOTP space; the failed-attempt lockout in twoFactorController is the
+ * backstop when Redis is down.
+ */
+export const secondFactorRateLimit = rateLimitPerOrg({
+    maxPerWindow: 5,
+    windowMs: 60_000,
+    bucketKey: 'second-factor',
+    keyBy: 'user',
+});
@@ -15,7 +15,8 @@
  *      → permit. Capability gating is a multi-tenant feature; we don't
  *      retroactively gate routes for legacy users that pre-date the model.
  *   3. Otherwise look up WorkspaceMembership(user, active org). If absent
- *      OR status != 'active' → 403. If capabilities contains '*' or the
+ *      OR status != 'active' → 403. If its effective capabilities (the
+ *      assigned Role's, else the membership's own list) contain '*' or the
  *      required capability → permit. Else → 403.
  *
  * Performance: each gated request adds one DB read (membership). For routes
@@ -27,6 +28,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../index';
 import { logger } from '../services/observabilityService';
+import { AppError } from '../utils/appError';
 
 export const CAPABILITY_KEYS = [
     'view_campaigns',
@@ -43,10 +45,36 @@ export const CAPABILITY_KEYS = [
     'connect_domains',
     'run_assessment',
     'access_integrations',
+    'manage_billing',
+    'manage_api_keys',
+    'manage_webhooks',
 ] as const;
 
 export type Capability = typeof CAPABILITY_KEYS[number];
 
+const CAPABILITY_SET = new Set<string>(CAPABILITY_KEYS);
+
+/** Validate a client-supplied capability list (deduplicated, '*' refused). */
+export function validateCapabilities(caps: unknown, field: string): string[] {
+    if (!Array.isArray(caps) || caps.some(c => typeof c !== 'string')) {
+        throw new AppError(`${field} must be an array of capability keys`, 400);
+    }
+    const unknown = caps.filter(c => !CAPABILITY_SET.has(c));
+    if (unknown.length) throw new AppError(`Unknown capabilities in ${field}: ${unknown.join(', ')}`, 400);
+    return Array.from(new Set(caps as string[]));
+}
+
+/** Select for a membership's effective capabilities - see membershipCapabilities. */
+const MEMBERSHIP_CAPABILITIES_SELECT = {
+    capabilities: true,
+    role: { select: { capabilities: true } },
+} as const;
+
+/** A membership's role capabilities when it has a role, else its own list. */
+export function membershipCapabilities(membership: { capabilities: string[]; role?: { capabilities: string[] } | null }): string[] {
+    return membership.role ? membership.role.capabilities : membership.capabilities;
+}
+
 /**
  * Build a middleware that requires the named capability on the active workspace.
  *
@@ -95,7 +123,7 @@ export function requireCapability(cap: Capability) {
                     organization_id: orgId,
                     status: 'active',
                 },
-                select: { capabilities: true },
+                select: MEMBERSHIP_CAPABILITIES_SELECT,
             });
             if (!membership) {
                 logger.warn('[CAPABILITY] Denied - no active membership', { userId, orgId, cap });
@@ -106,11 +134,12 @@ export function requireCapability(cap: Capability) {
                 return;
             }
 
-            if (membership.capabilities.includes('*') || membership.capabilities.includes(cap)) {
+            const capabilities = membershipCapabilities(membership);
+            if (capabilities.includes('*') || capabilities.includes(cap)) {
                 return next();
             }
 
-            logger.warn('[CAPABILITY] Denied - missing capability', { userId, orgId, cap, has: membership.capabilities });
+            logger.warn('[CAPABILITY] Denied - missing capability', { userId, orgId, cap, has: capabilities });
             res.status(403).json({
                 success: false,
                 error: `You don't have permission to perform this action.`,
@@ -166,8 +195,8 @@ export async function requireAgencyOwner(req: Request, res: Response, next: Next
  * doesn't have permission to use.
  *
  * Returns ['*'] for agency owners and legacy fallback users (mirroring the
- * fast-path above), the membership's capability list otherwise, or [] if
- * no active membership exists.
+ * fast-path above), the membership's effective capabilities otherwise, or
+ * [] if no active membership exists.
  */
 export async function resolveCapabilities(userId: string, orgId: string): Promise<string[]> {
     const user = await prisma.user.findUnique({
@@ -184,7 +213,7 @@ export async function resolveCapabilities(userId: string, orgId: string): Promis
 
     const membership = await prisma.workspaceMembership.findFirst({
         where: { user_id: userId, organization_id: orgId, status: 'active' },
-        select: { capabilities: true },
+        select: MEMBERSHIP_CAPABILITIES_SELECT,
     });
-    return membership?.capabilities ?? [];
+    return membership ? membershipCapabilities(membership) : [];
 }
@@ -27,6 +27,8 @@ const SKIP_PATH_PREFIXES = [
     '/auth/register',
     '/auth/refresh',
     '/auth/logout',
+    '/auth/2fa/login',
+    '/auth/sso/',
     '/auth/legal-versions',
     '/auth/accept-current-terms',  // the resolution endpoint itself
     '/auth/google',
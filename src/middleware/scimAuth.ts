@@ -0,0 +1,38 @@
+/**
+ * SCIM Auth Middleware
+ *
+ * requireScimToken - guards /scim/v2. The IdP sends a workspace's SCIM token
+ * (Authorization: Bearer scim_...); the request then runs in that workspace
+ * with scopes ['scim'], so interactive-only gates (2FA, step-up) treat it
+ * like an API key. SCIM tokens are accepted nowhere else, and JWTs / API
+ * keys are not accepted here.
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { logger } from '../services/observabilityService';
+import * as scimService from '../services/scimService';
+
+function unauthorized(res: Response, detail: string): void {
+    res.status(401).type('application/scim+json').set('WWW-Authenticate', 'Bearer realm="SCIM"');
+    res.send(JSON.stringify({ schemas: [scimService.SCHEMAS.ERROR], status: '401', detail }));
+}
+
+export const requireScimToken = (req: Request, res: Response, next: NextFunction): void => {
+    (async () => {
+        try {
+            const header = req.headers.authorization;
+            if (!header || !header.startsWith('Bearer ')) return unauthorized(res, 'SCIM bearer token required');
+
+            const auth = await scimService.authenticate(header.substring(7).trim());
+            if (!auth) {
+                logger.warn('[SCIM] Rejected token', { ip: req.ip, path: req.path });
+                return unauthorized(res, 'Invalid or revoked SCIM token');
+            }
+            req.orgContext = { organizationId: auth.organizationId, scopes: ['scim'] };
+            next();
+        } catch (err) {
+            logger.error('[SCIM] token check failed', err instanceof Error ? err : new Error(String(err)));
+            next(err);
+        }
+    })();
+};
@@ -0,0 +1,80 @@
+/**
+ * Two-Factor Middleware
+ *
+ * enforceTwoFactorPolicy - mounted on /api after the consent gate. When the
+ * workspace the request acts in requires 2FA (Organization.require_two_factor
+ * on orgContext.organizationId) and the user hasn't enrolled, every request outside the skip-paths gets 403
+ * `two_factor_enrollment_required`; the frontend routes them to enrollment,
+ * which lives under /auth/2fa and so stays reachable.
+ *
+ * requireStepUp - per-route gate for sensitive actions (API key creation,
+ * mailbox credential changes, data export, workspace deletion). A user with
+ * 2FA enabled must send a fresh step-up token (POST /api/auth/2fa/step-up) in
+ * the X-Step-Up-Token header; otherwise 403 `step_up_required`.
+ *
+ * Both apply only to interactive users. API keys and OAuth access tokens
+ * carry scopes instead of a second factor and pass straight through.
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { prisma } from '../index';
+import { logger } from '../services/observabilityService';
+import * as twoFactorService from '../services/twoFactorService';
+
+const POLICY_SKIP_PREFIXES = [
+    '/auth/',       // login, logout, refresh and the 2FA enrollment endpoints
+    '/consent/',
+    '/billing/polar-webhook',
+];
+
+function isInteractiveUser(req: Request): req is Request & { orgContext: { userId: string } } {
+    return !!req.orgContext?.userId && !req.orgContext.scopes;
+}
+
+export const enforceTwoFactorPolicy = (req: Request, res: Response, next: NextFunction): void => {
+    (async () => {
+        try {
+            if (POLICY_SKIP_PREFIXES.some(p => req.path.startsWith(p))) return next();
+            // The dashboard shell needs the user to render the enrollment screen.
+            if (req.path === '/user/me' && req.method === 'GET') return next();
+            if (!isInteractiveUser(req)) return next();
+
+            const [user, required] = await Promise.all([
+                prisma.user.findUnique({ where: { id: req.orgContext.userId }, select: { totp_enabled_at: true } }),
+                twoFactorService.isRequiredByOrganization(req.orgContext.organizationId),
+            ]);
+            if (!user || user.totp_enabled_at || !required) return next();
+
+            res.status(403).json({
+                success: false,
+                code: 'two_factor_enrollment_required',
+                error: 'This workspace requires two-factor authentication. Set it up to continue.',
+            });
+        } catch (err) {
+            logger.error('[2FA] policy check failed', err instanceof Error ? err : new Error(String(err)));
+            next(err);
+        }
+    })();
+};
+
+export const requireStepUp = (req: Request, res: Response, next: NextFunction): void => {
+    (async () => {
+        try {
+            if (!isInteractiveUser(req)) return next();
+            const userId = req.orgContext.userId;
+            if (!(await twoFactorService.isEnabled(userId))) return next();
+
+            const token = req.headers['x-step-up-token'];
+            if (typeof token === 'string' && twoFactorService.verifyStepUpToken(token, userId)) return next();
+
+            res.status(403).json({
+                success: false,
+                code: 'step_up_required',
+                error: 'Enter your authentication code to continue.',
+            });
+        } catch (err) {
+            logger.error('[2FA] step-up check failed', err instanceof Error ? err : new Error(String(err)));
+            next(err);
+        }
+    })();
+};
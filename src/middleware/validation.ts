@@ -267,3 +267,105 @@ export const auditLogQuerySchema = z.object({
     entity_id: z.string().optional(),
     action: z.string().optional()
 }).passthrough();
+
+// ============================================================================
+// SCHEMAS - Public API v1
+// ============================================================================
+// What /api/v1 accepts, published in the OpenAPI document
+// (services/openApiService) and enforced on the routes (routes/v1.ts), so
+// a request the document calls invalid gets a 400 before the controller.
+// The controllers keep their inline checks for MCP tools, which call them
+// without the route middleware. Query parameters arrive as strings, hence
+// z.coerce for the numeric ones.
+
+const v1LeadSchema = z.object({
+    email: z.string().email().describe('Lead email address'),
+    first_name: z.string().optional(),
+    last_name: z.string().optional(),
+    company: z.string().optional(),
+    title: z.string().optional(),
+    phone: z.string().optional(),
+    linkedin_url: z.string().optional(),
+    persona: z.string().optional().describe("Defaults to 'general'"),
+    source: z.string().optional().describe("Defaults to 'api'"),
+    lead_score: z.number().int().min(0).max(100).optional().describe('Defaults to 50'),
+});
+
+export const v1BulkLeadsSchema = z.object({
+    leads: z.array(v1LeadSchema).min(1).max(5000),
+});
+
+export const v1ValidateLeadsSchema = z.object({
+    lead_ids: z.array(z.string()).optional(),
+    emails: z.array(z.string()).optional().describe('Emails of leads already in Superkabe'),
+}).describe('Provide lead_ids or emails');
+
+export const v1ListLeadsQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).optional().describe('Defaults to 1'),
+    limit: z.coerce.number().int().min(1).max(100).optional().describe('Defaults to 50'),
+    status: z.string().optional().describe('held | active | paused | blocked'),
+    validation_status: z.string().optional().describe('valid | risky | invalid | unknown | pending'),
+    search: z.string().optional().describe('Case-insensitive email substring'),
+});
+
+// Same list as STEP_TYPES in services/sequenceTaskService.
+const V1_STEP_TYPES = ['email', 'call', 'linkedin_connect', 'linkedin_message', 'task'] as const;
+
+const v1StepSchema = z.object({
+    step_type: z.enum(V1_STEP_TYPES).optional().describe("Defaults to 'email'; other types create tasks for a rep"),
+    subject: z.string().optional().describe('Subject, or the task title for non-email steps'),
+    body_html: z.string().optional(),
+    body: z.string().optional().describe('Deprecated alias of body_html'),
+    body_text: z.string().optional(),
+    delay_days: z.number().int().min(0).optional().describe('0 for the first step, else defaults to 2'),
+    delay_hours: z.number().int().min(0).optional(),
+    task_due_hours: z.number().int().min(0).max(720).optional(),
+    task_assignee_user_id: z.string().nullable().optional(),
+    variants: z.array(z.object({
+        label: z.string().optional(),
+        subject: z.string().optional(),
+        body_html: z.string().optional(),
+        body: z.string().optional().describe('Deprecated alias of body_html'),
+        body_text: z.string().optional(),
+        weight: z.number().int().min(0).max(100).optional(),
+    })).optional(),
+});
+
+const v1ScheduleFields = {
+    schedule_timezone: z.string().optional(),
+    schedule_start_time: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+    schedule_end_time: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+    schedule_days: z.array(z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'])).optional(),
+};
+
+export const v1CreateCampaignSchema = z.object({
+    name: z.string().min(1),
+    steps: z.array(v1StepSchema).min(1),
+    lead_ids: z.array(z.string()).optional().describe('Leads to enroll; red-health leads are skipped'),
+    schedule: z.object({
+        timezone: v1ScheduleFields.schedule_timezone,
+        start_time: v1ScheduleFields.schedule_start_time,
+        end_time: v1ScheduleFields.schedule_end_time,
+        days: v1ScheduleFields.schedule_days,
+        daily_limit: z.number().int().min(1).optional(),
+        send_gap_minutes: z.number().int().min(0).optional(),
+    }).optional(),
+});
+
+export const v1UpdateCampaignSchema = z.object({
+    name: z.string().min(1).optional(),
+    daily_limit: z.number().int().min(1).optional(),
+    send_gap_minutes: z.number().int().min(0).optional(),
+    ...v1ScheduleFields,
+}).describe('Only draft or paused campaigns can be updated');
+
+export const v1CampaignReportQuerySchema = z.object({
+    metric: z.enum(['reply', 'open', 'click']).optional().describe('Experiment metric, defaults to reply'),
+    confidence: z.coerce.number().min(0.8).lt(1).optional().describe('Experiment confidence, defaults to 0.95'),
+});
+
+export const v1SendReplySchema = z.object({
+    thread_id: z.string().min(1),
+    body_html: z.string().optional(),
+    body_text: z.string().optional(),
+}).describe('body_html or body_text is required');
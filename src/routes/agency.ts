@@ -11,6 +11,9 @@
 import { Router } from 'express';
 import * as agencyController from '../controllers/agencyController';
 import * as inviteController from '../controllers/inviteController';
+import * as roleController from '../controllers/roleController';
+import { requireStepUp } from '../middleware/twoFactor';
+import { requireAgencyOwner } from '../middleware/requireCapability';
 
 const router = Router();
 
@@ -30,7 +33,7 @@ router.post('/workspaces', agencyController.createWorkspace);
 router.patch('/workspaces/:id', agencyController.updateWorkspace);
 
 // Delete a workspace (cascade-deletes child resources). Seed workspace blocked.
-router.delete('/workspaces/:id', agencyController.deleteWorkspace);
+router.delete('/workspaces/:id', requireStepUp, agencyController.deleteWorkspace);
 
 // Re-issue JWT scoped to a different workspace (agency owners only; clients
 // are JWT-locked to their scoped_organization_id).
@@ -39,4 +42,7 @@ router.post('/switch-workspace', agencyController.switchWorkspace);
 // Create a workspace invite - agency-owner only. Sends the magic-link email.
 router.post('/workspaces/:id/invites', inviteController.createWorkspaceInvite);
 
+// Custom role for a member (roleId null unassigns) - see roleService.
+router.put('/workspaces/:id/members/:userId/role', requireAgencyOwner, roleController.assignRole);
+
 export default router;
@@ -7,11 +7,13 @@
 import { Router } from 'express';
 import { asyncHandler } from '../middleware/asyncHandler';
 import * as apiKeyController from '../controllers/apiKeyController';
+import { requireStepUp } from '../middleware/twoFactor';
+import { requireCapability } from '../middleware/requireCapability';
 
 const router = Router();
 
 router.get('/', asyncHandler(apiKeyController.listApiKeys));
-router.post('/', asyncHandler(apiKeyController.createApiKey));
-router.delete('/:id', asyncHandler(apiKeyController.revokeApiKey));
+router.post('/', requireCapability('manage_api_keys'), requireStepUp, asyncHandler(apiKeyController.createApiKey));
+router.delete('/:id', requireCapability('manage_api_keys'), asyncHandler(apiKeyController.revokeApiKey));
 
 export default router;
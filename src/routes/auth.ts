@@ -2,6 +2,9 @@ import { Router } from 'express';
 import * as authController from '../controllers/authController';
 import * as googleAuthController from '../controllers/googleAuthController';
 import * as inviteController from '../controllers/inviteController';
+import * as twoFactorController from '../controllers/twoFactorController';
+import * as ssoController from '../controllers/ssoController';
+import { secondFactorRateLimit } from '../middleware/rateLimitPerOrg';
 import { validateBody, loginSchema, registerSchema, forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema, resendVerificationSchema } from '../middleware/validation';
 
 const router = Router();
@@ -21,6 +24,16 @@ router.post('/register', validateBody(registerSchema), authController.register);
 router.post('/refresh', authController.refreshToken);
 router.post('/logout', authController.logout);
 
+// TOTP two-factor. /2fa/login is public - it completes a password or Google
+// sign-in that returned a challenge_token. The rest act on the signed-in user.
+router.post('/2fa/login', authController.completeTwoFactorLogin);
+router.get('/2fa', twoFactorController.getStatus);
+router.post('/2fa/enroll', twoFactorController.beginEnrollment);
+router.post('/2fa/enroll/confirm', twoFactorController.confirmEnrollment);
+router.post('/2fa/disable', secondFactorRateLimit, twoFactorController.disable);
+router.post('/2fa/recovery-codes', secondFactorRateLimit, twoFactorController.regenerateRecoveryCodes);
+router.post('/2fa/step-up', secondFactorRateLimit, twoFactorController.stepUp);
+
 // Email verification (public - no auth required). New email/password signups
 // must verify before they can log in.
 router.post('/verify-email', validateBody(verifyEmailSchema), authController.verifyEmail);
@@ -37,6 +50,14 @@ router.post('/reset-password', validateBody(resetPasswordSchema), authController
 router.get('/google', googleAuthController.initiateGoogleAuth);
 router.get('/google/callback', googleAuthController.handleGoogleCallback);
 
+// SAML / OIDC single sign-on against an agency's own IdP (public - the IdP
+// round-trip is bound by a single-use state). Configuration is under /api/sso.
+router.get('/sso/discover', ssoController.discover);
+router.get('/sso/:connectionId/start', ssoController.start);
+router.post('/sso/:connectionId/acs', ssoController.assertionConsumer);
+router.get('/sso/:connectionId/callback', ssoController.oidcCallback);
+router.get('/sso/:connectionId/metadata', ssoController.metadata);
+
 // Workspace invite magic-link flow (public - no auth required).
 // 1. Validate token (used by /set-password to render the form).
 router.get('/invite', inviteController.validateInviteToken);
@@ -9,6 +9,7 @@ import { Router } from 'express';
 import * as billingController from '../controllers/billingController';
 import { validateBody, createCheckoutSchema, changePlanSchema, cancelSubscriptionSchema } from '../middleware/validation';
 import { billingOpsRateLimit } from '../middleware/rateLimitPerOrg';
+import { requireCapability } from '../middleware/requireCapability';
 
 const router = Router();
 
@@ -39,27 +40,27 @@ router.get('/subscription', billingController.getSubscriptionStatus);
  */
 router.get('/tiers', billingController.getTiers);
 
-router.post('/create-checkout', billingOpsRateLimit, validateBody(createCheckoutSchema), billingController.createCheckout);
+router.post('/create-checkout', billingOpsRateLimit, requireCapability('manage_billing'), validateBody(createCheckoutSchema), billingController.createCheckout);
 
 /**
  * POST /api/billing/change-plan
  * Change subscription plan (upgrade or downgrade).
  * Requires active subscription. Downgrades may return warnings requiring confirmation.
  */
-router.post('/change-plan', billingOpsRateLimit, validateBody(changePlanSchema), billingController.changePlan);
+router.post('/change-plan', billingOpsRateLimit, requireCapability('manage_billing'), validateBody(changePlanSchema), billingController.changePlan);
 
 /**
  * POST /api/billing/cancel
  * Cancel current subscription. Requires explicit data-retention consent
  * (GDPR/DPDP) - body must include `data_retention: 'keep' | 'delete'`.
  */
-router.post('/cancel', billingOpsRateLimit, validateBody(cancelSubscriptionSchema), billingController.cancelSubscription);
+router.post('/cancel', billingOpsRateLimit, requireCapability('manage_billing'), validateBody(cancelSubscriptionSchema), billingController.cancelSubscription);
 
 /**
  * POST /api/billing/refresh-usage
  * Manually refresh usage counts.
  */
-router.post('/refresh-usage', billingOpsRateLimit, billingController.refreshUsage);
+router.post('/refresh-usage', billingOpsRateLimit, requireCapability('manage_billing'), billingController.refreshUsage);
 
 /**
  * GET /api/billing/invoices
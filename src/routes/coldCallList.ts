@@ -22,6 +22,10 @@ router.get('/system/csv', controller.downloadSystemListCsv);
 router.post('/custom/generate', controller.generateCustomList);
 router.post('/custom/csv', controller.downloadCustomListCsv);
 
+// Open call tasks from multichannel sequences (SequenceStep.step_type 'call').
+router.get('/tasks', controller.getCallTasks);
+router.get('/tasks/csv', controller.downloadCallTasksCsv);
+
 // Manual trigger - useful for staging seeding. Same org-scoped middleware.
 router.post('/system/trigger', controller.triggerDailyForOrg);
 
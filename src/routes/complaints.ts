@@ -0,0 +1,27 @@
+/**
+ * Complaint routes - ARF (RFC 5965) spam complaints.
+ *
+ * Mounted at /api/complaints. Auth/org-context middleware is applied
+ * globally in index.ts, same as every other authenticated route file.
+ */
+
+import express, { Router } from 'express';
+import * as controller from '../controllers/complaintController';
+import { requireCapability } from '../middleware/requireCapability';
+import { MAX_RAW_BYTES } from '../services/complaintFeedbackService';
+
+const router = Router();
+
+router.get('/', controller.listComplaints);
+
+// Raw MIME upload. The global JSON parser leaves these content types alone.
+// An ingested complaint suppresses the recipient org-wide and counts against
+// the sending mailbox's health, so it takes the mailbox capability.
+router.post(
+    '/arf',
+    requireCapability('connect_mailboxes'),
+    express.text({ type: ['message/rfc822', 'message/feedback-report', 'multipart/report', 'text/plain'], limit: MAX_RAW_BYTES }),
+    controller.ingestArf,
+);
+
+export default router;
@@ -3,6 +3,7 @@ import * as dashboardController from '../controllers/dashboardController';
 import * as campaignController from '../controllers/campaignController';
 import { validateBody, validateQuery, routingRuleSchema, campaignActionSchema, paginationSchema, auditLogQuerySchema, resolveStalledCampaignSchema, applyLoadBalancingSchema, campaignRecommendationsBatchSchema } from '../middleware/validation';
 import { exportRateLimit, protectionConfigRateLimit } from '../middleware/rateLimitPerOrg';
+import { requireStepUp } from '../middleware/twoFactor';
 
 const router = Router();
 
@@ -29,7 +30,7 @@ router.post('/campaign/resume', protectionConfigRateLimit, validateBody(campaign
 router.post('/campaigns/pause-all', campaignController.pauseAllCampaigns);
 router.get('/campaigns/:id/stalled-context', campaignController.getStalledCampaignContext);
 router.post('/campaigns/:id/resolve-stalled', validateBody(resolveStalledCampaignSchema), campaignController.resolveStalledCampaign);
-router.get('/campaigns/:id/export-leads', exportRateLimit, campaignController.exportCampaignLeads);
+router.get('/campaigns/:id/export-leads', exportRateLimit, requireStepUp, campaignController.exportCampaignLeads);
 router.post('/campaigns/:id/archive', campaignController.archiveCampaign);
 
 // Load balancing endpoints
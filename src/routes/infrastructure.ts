@@ -1,5 +1,6 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import * as dashboardController from '../controllers/dashboardController';
+import * as dmarcReportController from '../controllers/dmarcReportController';
 import { requireCapability } from '../middleware/requireCapability';
 import { protectionConfigRateLimit } from '../middleware/rateLimitPerOrg';
 
@@ -12,4 +13,18 @@ router.post('/mailbox/resume', requireCapability('connect_mailboxes'), protectio
 // Domain management
 router.post('/domain/resume', requireCapability('connect_domains'), protectionConfigRateLimit, dashboardController.resumeDomain);
 
+// DMARC aggregate (RUA) reports - raw file upload (gzip / zip / xml / the
+// report email itself) and the alignment dashboard.
+router.get('/dmarc-reports', dmarcReportController.listReports);
+router.post(
+    '/dmarc-reports',
+    requireCapability('connect_domains'),
+    express.raw({
+        type: ['application/gzip', 'application/x-gzip', 'application/zip', 'application/x-zip-compressed', 'application/xml', 'text/xml', 'message/rfc822', 'application/octet-stream'],
+        limit: '20mb',
+    }),
+    dmarcReportController.uploadReport,
+);
+router.get('/dmarc/alignment', dmarcReportController.getAlignment);
+
 export default router;
@@ -0,0 +1,19 @@
+/**
+ * Link-reputation routes - blocklist status of tracking and link domains
+ * used in active sequence steps.
+ *
+ * Mounted at /api/link-reputation. Auth/org-context middleware is applied
+ * globally in index.ts, same as every other authenticated route file.
+ */
+
+import { Router } from 'express';
+import * as controller from '../controllers/linkReputationController';
+import { requireCapability } from '../middleware/requireCapability';
+
+const router = Router();
+
+router.get('/domains', controller.listDomains);
+router.get('/paused-steps', controller.listPausedSteps);
+router.post('/check', requireCapability('run_assessment'), controller.checkNow);
+
+export default router;
@@ -0,0 +1,25 @@
+/**
+ * Placement routes - seed-list inbox placement tests.
+ *
+ * Mounted at /api/placement. Auth/org-context middleware is applied
+ * globally in index.ts, same as every other authenticated route file.
+ */
+
+import { Router } from 'express';
+import * as controller from '../controllers/placementController';
+import { requireCapability } from '../middleware/requireCapability';
+
+const router = Router();
+
+router.get('/seeds', controller.listSeeds);
+router.post('/seeds', requireCapability('connect_mailboxes'), controller.createSeed);
+router.patch('/seeds/:id', requireCapability('connect_mailboxes'), controller.updateSeed);
+router.delete('/seeds/:id', requireCapability('connect_mailboxes'), controller.deleteSeed);
+
+router.get('/tests', controller.listTests);
+router.post('/tests', requireCapability('launch_pause_campaigns'), controller.createTest);
+router.get('/tests/:id', controller.getTest);
+
+router.get('/mailboxes/:mailboxId/history', controller.getMailboxHistory);
+
+export default router;
@@ -0,0 +1,19 @@
+/**
+ * Custom role routes - named capability sets for the agency Account.
+ *
+ * Mounted at /api/roles. Assignment to members lives with the workspace
+ * routes (routes/agency.ts). Account-wide, so mutations are agency-owner only.
+ */
+
+import { Router } from 'express';
+import * as controller from '../controllers/roleController';
+import { requireAgencyOwner } from '../middleware/requireCapability';
+
+const router = Router();
+
+router.get('/', controller.listRoles);
+router.post('/', requireAgencyOwner, controller.createRole);
+router.patch('/:id', requireAgencyOwner, controller.updateRole);
+router.delete('/:id', requireAgencyOwner, controller.deleteRole);
+
+export default router;
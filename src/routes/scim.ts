@@ -0,0 +1,39 @@
+/**
+ * SCIM 2.0 provisioning routes - Users, Groups and discovery for the
+ * customer's IdP.
+ *
+ * Mounted at /scim/v2, outside /api: authenticated by a workspace SCIM token
+ * (middleware/scimAuth) instead of orgContext, and IdPs send
+ * application/scim+json, which the app-wide JSON parser ignores. Tokens and
+ * the group -> capability mapping are managed under /api/settings/scim.
+ */
+
+import express, { Router } from 'express';
+import * as controller from '../controllers/scimController';
+import { requireScimToken } from '../middleware/scimAuth';
+
+const router = Router();
+
+router.use(express.json({ type: ['application/json', 'application/scim+json'], limit: '1mb' }));
+router.use(requireScimToken);
+
+router.get('/ServiceProviderConfig', controller.serviceProviderConfig);
+router.get('/ResourceTypes', controller.resourceTypes);
+
+router.get('/Users', controller.listUsers);
+router.post('/Users', controller.createUser);
+router.get('/Users/:id', controller.getUser);
+router.put('/Users/:id', controller.replaceUser);
+router.patch('/Users/:id', controller.patchUser);
+router.delete('/Users/:id', controller.deleteUser);
+
+router.get('/Groups', controller.listGroups);
+router.post('/Groups', controller.createGroup);
+router.get('/Groups/:id', controller.getGroup);
+router.put('/Groups/:id', controller.replaceGroup);
+router.patch('/Groups/:id', controller.patchGroup);
+router.delete('/Groups/:id', controller.deleteGroup);
+
+router.use(controller.notFound);
+
+export default router;
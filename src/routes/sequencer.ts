@@ -13,17 +13,23 @@ import * as sequencerAnalyticsController from '../controllers/sequencerAnalytics
 import * as signatureController from '../controllers/signatureController';
 import * as recipientPreviewController from '../controllers/recipientPreviewController';
 import * as zapmailController from '../controllers/zapmailController';
+import * as blackoutCalendarController from '../controllers/blackoutCalendarController';
+import * as leadOverrideController from '../controllers/leadOverrideController';
+import * as sequenceTaskController from '../controllers/sequenceTaskController';
+import * as campaignSimulatorController from '../controllers/campaignSimulatorController';
+import * as contentSpamController from '../controllers/contentSpamController';
 import { requireCapability, requireAgencyOwner } from '../middleware/requireCapability';
+import { requireStepUp } from '../middleware/twoFactor';
 
 const router = Router();
 
 // --- Connected Accounts (mailboxes) ---
 const accountRoutes = Router();
 accountRoutes.get('/', connectedAccountController.listAccounts);
-accountRoutes.post('/', requireCapability('connect_mailboxes'), connectedAccountController.createAccount);
-accountRoutes.post('/bulk', requireCapability('connect_mailboxes'), connectedAccountController.bulkCreateAccounts);
+accountRoutes.post('/', requireCapability('connect_mailboxes'), requireStepUp, connectedAccountController.createAccount);
+accountRoutes.post('/bulk', requireCapability('connect_mailboxes'), requireStepUp, connectedAccountController.bulkCreateAccounts);
 accountRoutes.delete('/:id', requireCapability('connect_mailboxes'), connectedAccountController.deleteAccount);
-accountRoutes.patch('/:id', requireCapability('connect_mailboxes'), connectedAccountController.updateAccount);
+accountRoutes.patch('/:id', requireCapability('connect_mailboxes'), requireStepUp, connectedAccountController.updateAccount);
 accountRoutes.post('/:id/test', requireCapability('connect_mailboxes'), connectedAccountController.testConnection);
 accountRoutes.get('/tracking-domain/check', connectedAccountController.checkTrackingDomainEndpoint);
 accountRoutes.post('/:id/tracking-domain', requireCapability('connect_domains'), connectedAccountController.setTrackingDomain);
@@ -48,7 +54,26 @@ campaignRoutes.get('/', campaignController2.listCampaigns);
 campaignRoutes.get('/lead-picker', campaignController2.listLeadsForSuppression);
 campaignRoutes.get('/:id', campaignController2.getCampaign);
 campaignRoutes.get('/:id/leads', campaignController2.listCampaignLeads);
+// Per-lead overrides: edit / skip / inject a step, push the next send, audit trail.
+campaignRoutes.get('/:id/leads/:leadId/overrides', leadOverrideController.listLeadOverrides);
+campaignRoutes.post('/:id/leads/:leadId/overrides', requireCapability('edit_sequences'), leadOverrideController.createLeadOverride);
+campaignRoutes.delete('/:id/leads/:leadId/overrides/:overrideId', requireCapability('edit_sequences'), leadOverrideController.cancelLeadOverride);
+campaignRoutes.post('/:id/leads/:leadId/push', requireCapability('edit_sequences'), leadOverrideController.pushLeadNextSend);
+campaignRoutes.get('/:id/leads/:leadId/history', leadOverrideController.getLeadHistory);
 campaignRoutes.get('/:id/suppression', campaignController2.getCampaignSuppression);
+campaignRoutes.get('/:id/personalization', campaignController2.getPersonalizationReport);
+// Dry run of the dispatcher - projected schedule and gate blocks, writes nothing.
+campaignRoutes.get('/:id/simulation', campaignSimulatorController.simulateCampaign);
+// Content spam score per step - the same report launch is gated on.
+campaignRoutes.get('/:id/spam-score', contentSpamController.scoreCampaign);
+campaignRoutes.get('/:id/graph', campaignController2.getSequenceGraph);
+campaignRoutes.put('/:id/graph', requireCapability('edit_sequences'), campaignController2.saveSequenceGraph);
+campaignRoutes.post('/:id/graph/migrate', requireCapability('edit_sequences'), campaignController2.migrateSequenceToGraph);
+campaignRoutes.put('/:id/steps/:stepNumber/optimizer', requireCapability('edit_sequences'), campaignController2.configureStepOptimizer);
+campaignRoutes.get('/:id/blackouts', blackoutCalendarController.listBlackouts);
+campaignRoutes.get('/:id/blackouts/upcoming', blackoutCalendarController.previewBlackouts);
+campaignRoutes.post('/:id/blackouts', requireCapability('edit_sequences'), blackoutCalendarController.createBlackout);
+campaignRoutes.delete('/:id/blackouts/:ruleId', requireCapability('edit_sequences'), blackoutCalendarController.deleteBlackout);
 campaignRoutes.post('/', requireCapability('create_campaigns'), campaignController2.createCampaign);
 campaignRoutes.patch('/:id', requireCapability('edit_sequences'), campaignController2.updateCampaign);
 campaignRoutes.delete('/:id', requireCapability('create_campaigns'), campaignController2.deleteCampaign);
@@ -65,11 +90,20 @@ campaignRoutes.post('/bulk-tag', requireCapability('edit_sequences'), campaignCo
 campaignRoutes.put('/:id/tags', requireCapability('edit_sequences'), campaignController2.setCampaignTags);
 router.use('/campaigns', campaignRoutes);
 
+// --- Manual sequence tasks (call / LinkedIn / task steps) ---
+const taskRoutes = Router();
+taskRoutes.get('/', sequenceTaskController.listTasks);
+taskRoutes.post('/:taskId/complete', requireCapability('reply_to_messages'), sequenceTaskController.completeTask);
+taskRoutes.post('/:taskId/skip', requireCapability('reply_to_messages'), sequenceTaskController.skipTask);
+taskRoutes.put('/:taskId/assignee', requireCapability('reply_to_messages'), sequenceTaskController.assignTask);
+router.use('/tasks', taskRoutes);
+
 // --- Templates ---
 const templateRoutes = Router();
 templateRoutes.get('/categories', templateController.listCategories);
 templateRoutes.get('/', templateController.listTemplates);
 templateRoutes.get('/:id', templateController.getTemplate);
+templateRoutes.get('/:id/spam-score', contentSpamController.scoreTemplate);
 templateRoutes.post('/', requireCapability('edit_sequences'), templateController.createTemplate);
 templateRoutes.patch('/:id', requireCapability('edit_sequences'), templateController.updateTemplate);
 templateRoutes.delete('/:id', requireCapability('edit_sequences'), templateController.deleteTemplate);
@@ -119,7 +153,7 @@ contactRoutes.post('/validate', requireCapability('add_leads'), contactControlle
 contactRoutes.post('/validate-preview', contactController.validateLeadsPreview);
 contactRoutes.post('/assign-campaign/preview', contactController.previewAssignToCampaign);
 contactRoutes.post('/assign-campaign', requireCapability('edit_sequences'), contactController.assignToCampaign);
-contactRoutes.get('/export', contactController.exportContacts);
+contactRoutes.get('/export', requireStepUp, contactController.exportContacts);
 contactRoutes.get('/:id', contactController.getContact);
 contactRoutes.patch('/:id/notes', requireCapability('edit_sequences'), contactController.updateContactNotes);
 contactRoutes.patch('/:id', requireCapability('edit_sequences'), contactController.updateContactDetails);
@@ -144,6 +178,18 @@ settingsRoutes.get('/', sequencerSettingsController.getSettings);
 settingsRoutes.patch('/', requireAgencyOwner, sequencerSettingsController.updateSettings);
 router.use('/settings', settingsRoutes);
 
+// --- Blackout calendars (workspace scope) ---
+// Holidays / shutdown days for every campaign in the workspace. Agency-owner
+// only, like the other workspace-wide sending knobs above. Literal paths
+// before /:ruleId.
+const blackoutRoutes = Router();
+blackoutRoutes.get('/', blackoutCalendarController.listBlackouts);
+blackoutRoutes.get('/holiday-sets', blackoutCalendarController.listHolidaySets);
+blackoutRoutes.get('/upcoming', blackoutCalendarController.previewBlackouts);
+blackoutRoutes.post('/', requireAgencyOwner, blackoutCalendarController.createBlackout);
+blackoutRoutes.delete('/:ruleId', requireAgencyOwner, blackoutCalendarController.deleteBlackout);
+router.use('/blackouts', blackoutRoutes);
+
 // --- Signatures ---
 const signatureRoutes = Router();
 signatureRoutes.get('/', signatureController.listSignatures);
@@ -160,6 +206,9 @@ analyticsRoutes.get('/mailboxes', sequencerAnalyticsController.getMailboxPerform
 analyticsRoutes.get('/forecast', sequencerAnalyticsController.getSendVolumeForecast);
 analyticsRoutes.get('/volume', sequencerAnalyticsController.getDailySendVolume);
 analyticsRoutes.get('/reply-quality', sequencerAnalyticsController.getReplyQuality);
+analyticsRoutes.get('/variant-weights', sequencerAnalyticsController.getVariantWeightHistory);
+analyticsRoutes.get('/experiments', sequencerAnalyticsController.getExperimentReports);
+analyticsRoutes.get('/send-times', sequencerAnalyticsController.getSendTimeProfiles);
 router.use('/analytics', analyticsRoutes);
 
 // --- Recipient Preview ---
@@ -168,6 +217,9 @@ previewRoutes.get('/clients', recipientPreviewController.listClients);
 previewRoutes.post('/', recipientPreviewController.generatePreview);
 router.use('/recipient-preview', previewRoutes);
 
+// --- Content spam score (unsaved editor content) ---
+router.post('/content-score', contentSpamController.scoreDraft);
+
 // --- Warmup Pool ---
 import * as warmupController from '../controllers/warmupController';
 const warmupRoutes = Router();
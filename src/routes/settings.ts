@@ -1,7 +1,10 @@
 import { Router } from 'express';
 import * as settingsController from '../controllers/settingsController';
+import * as twoFactorController from '../controllers/twoFactorController';
+import * as scimController from '../controllers/scimController';
 import { validateBody, updateSettingsSchema } from '../middleware/validation';
 import { requireAgencyOwner } from '../middleware/requireCapability';
+import { requireStepUp } from '../middleware/twoFactor';
 
 const router = Router();
 
@@ -12,4 +15,16 @@ router.get('/', settingsController.getSettings);
 router.post('/', requireAgencyOwner, validateBody(updateSettingsSchema), settingsController.updateSettings);
 router.get('/clay-webhook-url', settingsController.getClayWebhookUrl);
 
+// Org-wide "require 2FA" policy - agency owners only, like the settings above,
+// and behind step-up: switching it off drops 2FA for the whole org.
+router.get('/two-factor', twoFactorController.getPolicy);
+router.put('/two-factor', requireAgencyOwner, requireStepUp, twoFactorController.updatePolicy);
+
+// SCIM provisioning - tokens hand user/group administration to an IdP, so
+// minting one is owner-only behind step-up, like API keys.
+router.get('/scim', scimController.getSettings);
+router.post('/scim/tokens', requireAgencyOwner, requireStepUp, scimController.createToken);
+router.delete('/scim/tokens/:id', requireAgencyOwner, scimController.revokeToken);
+router.put('/scim/groups/:id', requireAgencyOwner, scimController.updateGroupCapabilities);
+
 export default router;
@@ -0,0 +1,21 @@
+/**
+ * SSO configuration routes - the agency Account's SAML / OIDC connection and
+ * its verified email domains.
+ *
+ * Mounted at /api/sso. The public sign-in endpoints live under /api/auth/sso
+ * (routes/auth.ts). Account-wide, so mutations are agency-owner only.
+ */
+
+import { Router } from 'express';
+import * as controller from '../controllers/ssoController';
+import { requireAgencyOwner } from '../middleware/requireCapability';
+
+const router = Router();
+
+router.get('/', controller.getConfig);
+router.put('/', requireAgencyOwner, controller.updateConfig);
+router.post('/domains', requireAgencyOwner, controller.addDomain);
+router.post('/domains/:domainId/verify', requireAgencyOwner, controller.verifyDomain);
+router.delete('/domains/:domainId', requireAgencyOwner, controller.removeDomain);
+
+export default router;
@@ -0,0 +1,31 @@
+/**
+ * Suppression routes - the org-wide do-not-contact list.
+ *
+ * Mounted at /api/suppressions. Auth/org-context middleware is applied
+ * globally in index.ts, same as every other authenticated route file.
+ */
+
+import express, { Router } from 'express';
+import * as controller from '../controllers/suppressionController';
+import { requireCapability } from '../middleware/requireCapability';
+import { requireStepUp } from '../middleware/twoFactor';
+
+const router = Router();
+
+router.get('/', controller.listSuppressions);
+router.get('/check', controller.checkSuppression);
+router.get('/export', requireStepUp, controller.exportSuppressions);
+router.post('/', requireCapability('remove_leads'), controller.addSuppressions);
+router.post('/bulk-delete', requireCapability('remove_leads'), controller.bulkRemoveSuppressions);
+
+// Raw CSV upload. The global JSON parser leaves text/csv alone; JSON { csv } also works.
+router.post(
+    '/import',
+    requireCapability('remove_leads'),
+    express.text({ type: ['text/csv', 'text/plain'], limit: '10mb' }),
+    controller.importSuppressions,
+);
+
+router.delete('/:id', requireCapability('remove_leads'), controller.removeSuppression);
+
+export default router;
@@ -0,0 +1,22 @@
+/**
+ * Trap-risk routes - spam-trap risk flags on leads and import batches.
+ *
+ * Mounted at /api/trap-risk. Auth/org-context middleware is applied
+ * globally in index.ts, same as every other authenticated route file.
+ */
+
+import { Router } from 'express';
+import * as controller from '../controllers/trapRiskController';
+import { requireCapability } from '../middleware/requireCapability';
+
+const router = Router();
+
+router.get('/batches', controller.listBatches);
+router.get('/batches/:id', controller.getBatch);
+router.post('/batches/:id/assess', requireCapability('run_assessment'), controller.assessBatch);
+
+router.get('/leads', controller.listLeads);
+router.post('/leads/clear', requireCapability('launch_pause_campaigns'), controller.clearLeads);
+router.post('/leads/suppress', requireCapability('remove_leads'), controller.suppressLeads);
+
+export default router;
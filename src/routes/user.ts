@@ -9,6 +9,7 @@ import * as userController from '../controllers/userController';
 import * as settingsController from '../controllers/settingsController';
 import { validateBody, updateUserSchema, changePasswordSchema } from '../middleware/validation';
 import { asyncHandler } from '../middleware/asyncHandler';
+import { requireCapability } from '../middleware/requireCapability';
 
 const router = Router();
 
@@ -20,6 +21,7 @@ router.get('/me', userController.getCurrentUser);
 router.patch('/me', validateBody(updateUserSchema), userController.updateCurrentUser);
 router.post('/change-password', validateBody(changePasswordSchema), userController.changePassword);
 
-router.post('/settings/slack/disconnect', asyncHandler(settingsController.disconnectSlack));
+// Same gate as the install / channel routes in apiSlack.ts.
+router.post('/settings/slack/disconnect', requireCapability('access_integrations'), asyncHandler(settingsController.disconnectSlack));
 
 export default router;
@@ -4,32 +4,49 @@
  * Versioned API for external integrations, MCP servers, and third-party tools.
  * Authenticated via API key (Authorization: Bearer sk_live_...) or OAuth token.
  * All responses follow { success, data?, error? } format.
+ * Every route here is described in services/openApiService.ts, and
+ * bodies / queries are validated against the schemas that document
+ * publishes (middleware/validation.ts).
  */
 
 import { Router } from 'express';
 import { asyncHandler } from '../middleware/asyncHandler';
 import * as v1Controller from '../controllers/v1Controller';
+import {
+    validateBody,
+    validateQuery,
+    v1BulkLeadsSchema,
+    v1ValidateLeadsSchema,
+    v1ListLeadsQuerySchema,
+    v1CreateCampaignSchema,
+    v1UpdateCampaignSchema,
+    v1CampaignReportQuerySchema,
+    v1SendReplySchema,
+} from '../middleware/validation';
 
 const router = Router();
 
+// ── Spec (public) ───────────────────────────────────────────────────
+router.get('/openapi.json', asyncHandler(v1Controller.getOpenApiSpec));
+
 // ── Leads ───────────────────────────────────────────────────────────
-router.post('/leads/bulk', asyncHandler(v1Controller.bulkImportLeads));
-router.post('/leads/validate', asyncHandler(v1Controller.validateLeads));
-router.get('/leads', asyncHandler(v1Controller.listLeads));
+router.post('/leads/bulk', validateBody(v1BulkLeadsSchema), asyncHandler(v1Controller.bulkImportLeads));
+router.post('/leads/validate', validateBody(v1ValidateLeadsSchema), asyncHandler(v1Controller.validateLeads));
+router.get('/leads', validateQuery(v1ListLeadsQuerySchema), asyncHandler(v1Controller.listLeads));
 router.get('/leads/:id', asyncHandler(v1Controller.getLead));
 
 // ── Campaigns ───────────────────────────────────────────────────────
-router.post('/campaigns', asyncHandler(v1Controller.createCampaign));
+router.post('/campaigns', validateBody(v1CreateCampaignSchema), asyncHandler(v1Controller.createCampaign));
 router.get('/campaigns', asyncHandler(v1Controller.listCampaigns));
 router.get('/campaigns/:id', asyncHandler(v1Controller.getCampaign));
-router.patch('/campaigns/:id', asyncHandler(v1Controller.updateCampaign));
+router.patch('/campaigns/:id', validateBody(v1UpdateCampaignSchema), asyncHandler(v1Controller.updateCampaign));
 router.post('/campaigns/:id/launch', asyncHandler(v1Controller.launchCampaign));
 router.post('/campaigns/:id/pause', asyncHandler(v1Controller.pauseCampaign));
-router.get('/campaigns/:id/report', asyncHandler(v1Controller.getCampaignReport));
+router.get('/campaigns/:id/report', validateQuery(v1CampaignReportQuerySchema), asyncHandler(v1Controller.getCampaignReport));
 router.get('/campaigns/:id/replies', asyncHandler(v1Controller.getCampaignReplies));
 
 // ── Replies ─────────────────────────────────────────────────────────
-router.post('/replies', asyncHandler(v1Controller.sendReply));
+router.post('/replies', validateBody(v1SendReplySchema), asyncHandler(v1Controller.sendReply));
 
 // ── Validation ──────────────────────────────────────────────────────
 router.get('/validation/results', asyncHandler(v1Controller.getValidationResults));
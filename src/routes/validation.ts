@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import * as validationController from '../controllers/validationController';
 import { requireCapability } from '../middleware/requireCapability';
+import { requireStepUp } from '../middleware/twoFactor';
 
 const router = Router();
 
@@ -18,7 +19,7 @@ router.get('/batches/:id', validationController.getBatchDetail);
 router.post('/batches/:id/route', requireCapability('edit_sequences'), validationController.routeLeadsToCampaign);
 
 // Export - read-only data export of leads the user already has access to. Open.
-router.post('/batches/:id/export', validationController.exportCSV);
+router.post('/batches/:id/export', requireStepUp, validationController.exportCSV);
 
 // Analytics
 router.get('/analytics', validationController.getAnalytics);
@@ -0,0 +1,172 @@
+/**
+ * ARF parser - RFC 5965 Abuse Reporting Format (feedback-loop complaints).
+ *
+ * When a recipient hits "Report spam", providers with a feedback loop (Yahoo,
+ * Microsoft JMRP, Comcast, Fastmail, ...) send a multipart/report message with
+ * `report-type=feedback-report`. It has three parts:
+ *
+ *   1. human-readable text (ignored)
+ *   2. `message/feedback-report` - Feedback-Type, User-Agent, Arrival-Date,
+ *      Original-Rcpt-To, Reporting-MTA, Source-IP
+ *   3. `message/rfc822` (or `text/rfc822-headers`) - the original message,
+ *      often with the recipient address redacted
+ *
+ * Like dsnParser this is regex-based and permissive: no MIME library, header
+ * continuations unfolded before scanning. Because many feedback loops redact
+ * the recipient, we also pull the original Message-ID and any of our signed
+ * `/t/{o,c,u}/<token>` tracking URLs out of the embedded message - the
+ * List-Unsubscribe header survives redaction and carries the CampaignLead id.
+ */
+
+export interface ArfResult {
+    isArf: boolean;
+    /** abuse | fraud | virus | other | not-spam (lowercased) */
+    feedbackType?: string;
+    userAgent?: string;
+    reportingMta?: string;
+    sourceIp?: string;
+    arrivalDate?: Date;
+    originalMailFrom?: string;
+    originalRcptTo?: string;
+    /** Message-ID of the report itself, from the top-level headers */
+    reportMessageId?: string;
+    /** Message-ID of the reported (original) message, brackets stripped */
+    originalMessageId?: string;
+    originalFrom?: string;
+    originalTo?: string;
+    /** Unfolded header block of the original message */
+    originalHeaders?: string;
+    /** Signed tracking tokens found in the original message (deduped) */
+    trackingTokens: string[];
+}
+
+const REPORT_CT_RE = /content-type:\s*multipart\/report[^\n]*report-type\s*=\s*"?feedback-report/i;
+const FEEDBACK_PART_RE = /content-type:\s*message\/feedback-report/i;
+const ORIGINAL_PART_RE = /content-type:\s*(?:message\/rfc822|text\/rfc822-headers)/i;
+const TRACKING_TOKEN_RE = /\/t\/[ouc]\/([A-Za-z0-9_-]+\.[A-Za-z0-9_-]+)/g;
+
+const FEEDBACK_FIELDS: Record<'feedbackType' | 'userAgent' | 'reportingMta' | 'sourceIp' | 'originalMailFrom' | 'originalRcptTo', RegExp> = {
+    feedbackType: /^feedback-type:\s*([^\s;]+)/im,
+    userAgent: /^user-agent:\s*([^\r\n]+)/im,
+    reportingMta: /^reporting-mta:\s*(?:dns;\s*)?([^\r\n]+)/im,
+    sourceIp: /^source-ip:\s*([^\s\r\n]+)/im,
+    originalMailFrom: /^original-mail-from:\s*([^\r\n]+)/im,
+    originalRcptTo: /^original-rcpt-to:\s*([^\r\n]+)/im,
+};
+
+/**
+ * Detect whether `raw` is an ARF report - the multipart/report Content-Type
+ * with report-type=feedback-report, or a `message/feedback-report` part for
+ * providers whose top-level headers don't follow the RFC.
+ */
+export function isArfMessage(raw: string): boolean {
+    if (!raw) return false;
+    return REPORT_CT_RE.test(raw) || FEEDBACK_PART_RE.test(raw);
+}
+
+function unfoldHeaders(raw: string): string {
+    return raw.replace(/\r?\n[ \t]+/g, ' ');
+}
+
+/** Text up to the first blank line (a header block). */
+function headerBlock(text: string): string {
+    const end = text.search(/\r?\n\r?\n/);
+    return end >= 0 ? text.slice(0, end) : text;
+}
+
+/** Body of the MIME part whose Content-Type header starts at `idx`. */
+function partBody(raw: string, idx: number): string {
+    const rest = raw.slice(idx);
+    const headerEnd = rest.search(/\r?\n\r?\n/);
+    if (headerEnd < 0) return '';
+    const body = rest.slice(headerEnd).replace(/^\r?\n\r?\n/, '');
+    const boundary = body.search(/\r?\n--[^\r\n]+/);
+    return boundary >= 0 ? body.slice(0, boundary) : body;
+}
+
+function header(block: string, name: string): string | undefined {
+    const match = block.match(new RegExp(`^${name}:\\s*([^\\r\\n]+)`, 'im'));
+    return match ? match[1].trim() : undefined;
+}
+
+function stripAngles(value: string): string {
+    return value.trim().replace(/^<|>$/g, '').trim();
+}
+
+/** Bare address out of `Name <addr>` / `rfc822; addr` / `<addr>`. */
+function address(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const angled = value.match(/<([^<>\s]+@[^<>\s]+)>/);
+    const bare = angled ? angled[1] : value.replace(/^rfc822;\s*/i, '').trim().split(/\s+/)[0];
+    return bare.includes('@') ? bare.toLowerCase() : undefined;
+}
+
+/** Undo quoted-printable soft breaks and `=3D` so URLs in QP bodies are contiguous. */
+function decodeQpSoftBreaks(text: string): string {
+    return text.replace(/=\r?\n/g, '').replace(/=3D/gi, '=');
+}
+
+/**
+ * Parse a raw ARF report. Returns `{ isArf: false }` if it doesn't look like
+ * one; otherwise whatever fields are present.
+ */
+export function parseArf(raw: string): ArfResult {
+    if (!raw || !isArfMessage(raw)) {
+        return { isArf: false, trackingTokens: [] };
+    }
+
+    const result: ArfResult = { isArf: true, trackingTokens: [] };
+
+    const topHeaders = unfoldHeaders(headerBlock(raw));
+    const reportMessageId = header(topHeaders, 'message-id');
+    if (reportMessageId) result.reportMessageId = stripAngles(reportMessageId);
+
+    const feedbackIdx = raw.search(FEEDBACK_PART_RE);
+    const feedback = unfoldHeaders(feedbackIdx >= 0 ? partBody(raw, feedbackIdx) : raw);
+    for (const [key, re] of Object.entries(FEEDBACK_FIELDS) as [keyof typeof FEEDBACK_FIELDS, RegExp][]) {
+        const match = feedback.match(re);
+        if (match) result[key] = match[1].trim();
+    }
+    if (result.feedbackType) result.feedbackType = result.feedbackType.toLowerCase();
+    result.originalMailFrom = address(result.originalMailFrom) ?? result.originalMailFrom;
+    result.originalRcptTo = address(result.originalRcptTo);
+    const arrival = header(feedback, 'arrival-date') ?? header(feedback, 'received-date');
+    if (arrival && !Number.isNaN(Date.parse(arrival))) result.arrivalDate = new Date(arrival);
+
+    // The original message: everything after its part header. Scanning to the
+    // end (not the next boundary) is fine - it is the last part.
+    const originalIdx = raw.slice(Math.max(feedbackIdx, 0)).search(ORIGINAL_PART_RE);
+    if (originalIdx >= 0) {
+        const original = raw.slice(Math.max(feedbackIdx, 0) + originalIdx);
+        const headerEnd = original.search(/\r?\n\r?\n/);
+        const embedded = headerEnd >= 0 ? original.slice(headerEnd).replace(/^\r?\n\r?\n/, '') : '';
+        const embeddedHeaders = unfoldHeaders(headerBlock(embedded));
+        result.originalHeaders = embeddedHeaders;
+
+        const messageId = header(embeddedHeaders, 'message-id');
+        if (messageId) result.originalMessageId = stripAngles(messageId);
+        result.originalFrom = address(header(embeddedHeaders, 'from'));
+        result.originalTo = address(header(embeddedHeaders, 'to'));
+
+        const tokens = new Set<string>();
+        for (const match of decodeQpSoftBreaks(embedded).matchAll(TRACKING_TOKEN_RE)) {
+            tokens.add(match[1]);
+        }
+        result.trackingTokens = [...tokens];
+    }
+
+    return result;
+}
+
+/** The complaining recipient: Original-Rcpt-To, else the original To header. */
+export function complainantAddress(arf: ArfResult): string | undefined {
+    return arf.originalRcptTo ?? arf.originalTo;
+}
+
+/**
+ * `not-spam` reports (RFC 6650 §3) mean the recipient rescued a message from
+ * their junk folder - positive signal, never a complaint.
+ */
+export function isComplaint(arf: ArfResult): boolean {
+    return arf.isArf && arf.feedbackType !== 'not-spam';
+}
@@ -64,6 +64,32 @@ export const logAction = async (params: LogActionParams): Promise<void> => {
     }
 };
 
+/**
+ * Log many actions in one insert - bulk operations (suppression CSV import,
+ * bulk delete) that must audit every row without one round-trip each.
+ */
+export const logActions = async (entries: LogActionParams[]): Promise<void> => {
+    if (entries.length === 0) return;
+    try {
+        await prisma.auditLog.createMany({
+            data: entries.map(e => ({
+                organization_id: e.organizationId,
+                entity: e.entity,
+                entity_id: e.entityId,
+                trigger: e.trigger,
+                action: e.action,
+                details: e.details,
+                correlation_id: e.correlationId,
+                user_id: e.userId,
+                ip_address: e.ipAddress,
+            })),
+        });
+        logger.info(`[AUDIT] ${entries.length} x ${entries[0].entity} | ${entries[0].trigger} -> ${entries[0].action}`);
+    } catch (error) {
+        logger.error('[AUDIT] Failed to log actions:', error as Error);
+    }
+};
+
 /**
  * Get audit logs for an entity.
  */
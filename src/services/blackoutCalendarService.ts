@@ -0,0 +1,273 @@
+/**
+ * Blackout Calendar Service
+ *
+ * Holiday and company-blackout days on top of schedule_days. Rules live in
+ * BlackoutRule at two scopes - workspace (campaign_id null, every campaign in
+ * the org) and campaign - and come in three kinds: explicit date ranges,
+ * recurring month-days, and bundled country holiday sets (src/data/holidaySets,
+ * expanded locally per year; nothing is fetched).
+ *
+ * compileBlackoutRules() turns rows into a DateBlackout the sendWindow helpers
+ * consume, so the dispatcher, canSendNow and calculateNextSendAt all agree on
+ * what a no-send day is.
+ */
+
+import { prisma } from '../index';
+import { AppError } from '../utils/appError';
+import type { DateBlackout } from '../utils/sendWindow';
+import { holidaySets, HolidayRuleSeed } from '../data/holidaySets';
+
+export const BLACKOUT_KINDS = ['date', 'recurring', 'holiday_set'] as const;
+export type BlackoutKind = typeof BLACKOUT_KINDS[number];
+
+export interface BlackoutRuleRow {
+    id?: string;
+    organization_id: string;
+    campaign_id: string | null;
+    kind: string;
+    start_date: string | null;
+    end_date: string | null;
+    month_day: string | null;
+    country_code: string | null;
+    label: string | null;
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_DAY_RE = /^\d{2}-\d{2}$/;
+/** Longest explicit range accepted - longer is almost certainly a typo'd year. */
+const MAX_RANGE_DAYS = 92;
+
+const utc = (y: number, m: number, d: number) => new Date(Date.UTC(y, m - 1, d));
+const keyOf = (date: Date) => date.toISOString().slice(0, 10);
+
+function isRealDate(dateKey: string): boolean {
+    if (!DATE_RE.test(dateKey)) return false;
+    const [y, m, d] = dateKey.split('-').map(Number);
+    return keyOf(utc(y, m, d)) === dateKey;
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Holiday expansion
+// ────────────────────────────────────────────────────────────────────
+
+/** Western (Gregorian) Easter Sunday - anonymous Gregorian algorithm. */
+export function easterSunday(year: number): Date {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return utc(year, month, day);
+}
+
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function ruleDate(rule: HolidayRuleSeed, year: number): Date {
+    if ('easterOffset' in rule) return addDays(easterSunday(year), rule.easterOffset);
+    if ('onOrBefore' in rule) {
+        const anchor = utc(year, rule.month, rule.onOrBefore);
+        return addDays(anchor, -((anchor.getUTCDay() - rule.weekday + 7) % 7));
+    }
+    if ('nth' in rule) {
+        if (rule.nth > 0) {
+            const first = utc(year, rule.month, 1);
+            return addDays(first, (rule.weekday - first.getUTCDay() + 7) % 7 + (rule.nth - 1) * 7);
+        }
+        const last = utc(year, rule.month + 1, 0);
+        return addDays(last, -((last.getUTCDay() - rule.weekday + 7) % 7));
+    }
+    return utc(year, rule.month, rule.day);
+}
+
+/**
+ * Public holidays for a bundled country in `year`, observed dates applied.
+ * Empty for countries without a bundled set.
+ */
+export function holidaysFor(countryCode: string, year: number): Array<{ date: string; name: string }> {
+    const set = holidaySets.find(s => s.country_code === countryCode.toLowerCase());
+    if (!set) return [];
+    const out: Array<{ date: string; name: string }> = [];
+    const taken = new Set<string>();
+    // Actual dates first so a substitute day never lands on another holiday.
+    const actual = set.holidays.map(rule => ({ rule, date: ruleDate(rule, year) }));
+    for (const { date } of actual) taken.add(keyOf(date));
+    for (const { rule, date } of actual) {
+        let observed = date;
+        const dow = date.getUTCDay();
+        const observance = 'day' in rule ? rule.observed : undefined;
+        if (observance === 'nearest' && (dow === 0 || dow === 6)) {
+            observed = addDays(date, dow === 6 ? -1 : 1);
+        } else if (observance === 'substitute' && (dow === 0 || dow === 6)) {
+            observed = addDays(date, dow === 6 ? 2 : 1);
+            while (taken.has(keyOf(observed)) || observed.getUTCDay() === 0 || observed.getUTCDay() === 6) {
+                observed = addDays(observed, 1);
+            }
+            taken.add(keyOf(observed));
+        }
+        out.push({ date: keyOf(observed), name: observed === date ? rule.name : `${rule.name} (observed)` });
+    }
+    return out.sort((x, y) => x.date.localeCompare(y.date));
+}
+
+/** Bundled sets, for the calendar picker. */
+export function listHolidaySets(): Array<{ country_code: string; name: string; holiday_count: number }> {
+    return holidaySets.map(s => ({ country_code: s.country_code, name: s.name, holiday_count: s.holidays.length }));
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Compilation
+// ────────────────────────────────────────────────────────────────────
+
+/** Build a date lookup from rule rows. Holiday sets are expanded lazily per year and memoized. */
+export function compileBlackoutRules(rules: BlackoutRuleRow[]): DateBlackout | null {
+    if (rules.length === 0) return null;
+    const ranges: Array<{ from: string; to: string; label: string }> = [];
+    const recurring = new Map<string, string>();
+    const countries: string[] = [];
+    for (const r of rules) {
+        if (r.kind === 'date' && r.start_date) {
+            ranges.push({ from: r.start_date, to: r.end_date || r.start_date, label: r.label || 'Blackout' });
+        } else if (r.kind === 'recurring' && r.month_day) {
+            recurring.set(r.month_day, r.label || 'Recurring blackout');
+        } else if (r.kind === 'holiday_set' && r.country_code) {
+            countries.push(r.country_code);
+        }
+    }
+    const holidaysByYear = new Map<number, Map<string, string>>();
+    const holidaysIn = (year: number) => {
+        let map = holidaysByYear.get(year);
+        if (!map) {
+            map = new Map();
+            for (const cc of countries) {
+                for (const h of holidaysFor(cc, year)) {
+                    if (!map.has(h.date)) map.set(h.date, `${h.name} (${cc.toUpperCase()})`);
+                }
+            }
+            holidaysByYear.set(year, map);
+        }
+        return map;
+    };
+    return {
+        match(dateKey: string): string | null {
+            for (const r of ranges) {
+                // ISO dates compare correctly as strings.
+                if (dateKey >= r.from && dateKey <= r.to) return r.label;
+            }
+            const recurringLabel = recurring.get(dateKey.slice(5));
+            if (recurringLabel) return recurringLabel;
+            if (countries.length > 0) return holidaysIn(Number(dateKey.slice(0, 4))).get(dateKey) ?? null;
+            return null;
+        },
+    };
+}
+
+/** Workspace + campaign rules from an org-wide prefetch (the dispatcher loads every org's rules in one query). */
+export function calendarForCampaign(rules: BlackoutRuleRow[], orgId: string, campaignId: string): DateBlackout | null {
+    return compileBlackoutRules(rules.filter(r =>
+        r.organization_id === orgId && (r.campaign_id === null || r.campaign_id === campaignId)));
+}
+
+/** Effective calendar for one campaign. */
+export async function loadCampaignCalendar(orgId: string, campaignId: string): Promise<DateBlackout | null> {
+    const rules = await prisma.blackoutRule.findMany({
+        where: { organization_id: orgId, OR: [{ campaign_id: null }, { campaign_id: campaignId }] },
+    });
+    return compileBlackoutRules(rules);
+}
+
+// ────────────────────────────────────────────────────────────────────
+// CRUD
+// ────────────────────────────────────────────────────────────────────
+
+/** Returns an error message for an invalid rule payload, or null. */
+export function validateBlackoutInput(input: Record<string, any>): string | null {
+    const kind = input.kind;
+    if (!BLACKOUT_KINDS.includes(kind)) return `kind must be one of ${BLACKOUT_KINDS.join(', ')}`;
+    if (kind === 'date') {
+        if (!isRealDate(String(input.start_date ?? ''))) return 'start_date must be a YYYY-MM-DD date';
+        if (input.end_date != null) {
+            if (!isRealDate(String(input.end_date))) return 'end_date must be a YYYY-MM-DD date';
+            if (input.end_date < input.start_date) return 'end_date must not be before start_date';
+            const span = (Date.parse(input.end_date) - Date.parse(input.start_date)) / 86_400_000;
+            if (span > MAX_RANGE_DAYS) return `Blackout ranges are limited to ${MAX_RANGE_DAYS} days`;
+        }
+    } else if (kind === 'recurring') {
+        const md = String(input.month_day ?? '');
+        // 2000 is a leap year, so 02-29 is accepted.
+        if (!MONTH_DAY_RE.test(md) || !isRealDate(`2000-${md}`)) return 'month_day must be MM-DD';
+    } else if (!holidaySets.some(s => s.country_code === String(input.country_code ?? '').toLowerCase())) {
+        return `country_code must be one of ${holidaySets.map(s => s.country_code).join(', ')}`;
+    }
+    return null;
+}
+
+async function assertCampaignInOrg(orgId: string, campaignId: string): Promise<void> {
+    const campaign = await prisma.campaign.findFirst({ where: { id: campaignId, organization_id: orgId }, select: { id: true } });
+    if (!campaign) throw new AppError('Campaign not found', 404);
+}
+
+/** Rules at one scope. campaignId null = workspace rules only. */
+export async function listBlackoutRules(orgId: string, campaignId: string | null) {
+    if (campaignId) await assertCampaignInOrg(orgId, campaignId);
+    return prisma.blackoutRule.findMany({
+        where: { organization_id: orgId, campaign_id: campaignId },
+        orderBy: { created_at: 'asc' },
+    });
+}
+
+export async function createBlackoutRule(orgId: string, campaignId: string | null, input: Record<string, any>) {
+    const error = validateBlackoutInput(input);
+    if (error) throw new AppError(error, 400);
+    if (campaignId) await assertCampaignInOrg(orgId, campaignId);
+    const kind = input.kind as BlackoutKind;
+    return prisma.blackoutRule.create({
+        data: {
+            organization_id: orgId,
+            campaign_id: campaignId,
+            kind,
+            start_date: kind === 'date' ? input.start_date : null,
+            end_date: kind === 'date' ? input.end_date ?? null : null,
+            month_day: kind === 'recurring' ? input.month_day : null,
+            country_code: kind === 'holiday_set' ? String(input.country_code).toLowerCase() : null,
+            label: typeof input.label === 'string' && input.label.trim() ? input.label.trim().slice(0, 120) : null,
+        },
+    });
+}
+
+export async function deleteBlackoutRule(orgId: string, campaignId: string | null, ruleId: string): Promise<void> {
+    const { count } = await prisma.blackoutRule.deleteMany({
+        where: { id: ruleId, organization_id: orgId, campaign_id: campaignId },
+    });
+    if (count === 0) throw new AppError('Blackout rule not found', 404);
+}
+
+/**
+ * Upcoming blacked-out dates for a campaign (workspace + campaign rules),
+ * for the calendar preview. `days` is capped at a year.
+ */
+export async function previewBlackoutDates(orgId: string, campaignId: string | null, days: number, from: Date = new Date()) {
+    if (campaignId) await assertCampaignInOrg(orgId, campaignId);
+    const calendar = campaignId
+        ? await loadCampaignCalendar(orgId, campaignId)
+        : compileBlackoutRules(await prisma.blackoutRule.findMany({ where: { organization_id: orgId, campaign_id: null } }));
+    if (!calendar) return [];
+    const out: Array<{ date: string; label: string }> = [];
+    const start = utc(from.getUTCFullYear(), from.getUTCMonth() + 1, from.getUTCDate());
+    for (let i = 0; i < Math.min(Math.max(1, days), 366); i++) {
+        const dateKey = keyOf(addDays(start, i));
+        const label = calendar.match(dateKey);
+        if (label) out.push({ date: dateKey, label });
+    }
+    return out;
+}
@@ -0,0 +1,612 @@
+/**
+ * Campaign Simulator Service
+ *
+ * Dry run of the dispatcher: projects a campaign's send schedule forward in
+ * virtual time without writing anything, so an operator can see what launch
+ * will do before pressing it. The simulation ticks every
+ * SIMULATION_TICK_MINUTES and applies the same rules sendQueueService does -
+ * resolveDeliverableStep for branching, the campaign (or recipient-local)
+ * send window with blackout dates, the campaign daily_limit, per-mailbox
+ * daily caps (mailboxDailyLimit: daily_send_limit, warmup_limit mid-recovery,
+ * the per-campaign override) plus the healing phase limit from
+ * getPhaseVolumeLimit, sticky mailbox assignment, follow-ups-first ordering,
+ * calculateNextSendAt delays, and the org's monthly tier limit.
+ *
+ * The gates are previewed read-only (canExecuteLead writes an audit row per
+ * call, so it isn't called): infrastructure assessment / transition gate,
+ * recipient-domain complaint rate, org-wide suppression, RED leads (lead
+ * health gate) and the YELLOW max-step cap.
+ *
+ * Assumptions, stated in the response where they matter: nobody replies,
+ * opens or clicks (conditions are evaluated on today's counters), manual
+ * tasks are completed at their due time, other campaigns sharing a mailbox
+ * use none of its capacity after today, recovery phases don't change over
+ * the horizon, and send-time optimization / pending per-lead overrides are
+ * not modelled. Graph-mode campaigns are not supported.
+ */
+
+import { prisma } from '../index';
+import { AppError } from '../utils/appError';
+import { isWithinSendingWindow, nextWindowOpening, resolveLeadTimezone, localDateKey, DateBlackout, SendWindowCampaign } from '../utils/sendWindow';
+import { inferLeadTimezone } from '../utils/timezoneInference';
+import { resolveDeliverableStep, calculateNextSendAt, mailboxDailyLimit, loadBusinessDayCalendar, BusinessDayCalendar } from './sendQueueService';
+import { getPhaseVolumeLimit, checkTransitionGate } from './healingService';
+import { getRecipientDomainComplaintRate } from './recipientDomainStatsService';
+import { isTaskStep } from './sequenceTaskService';
+import * as blackoutCalendar from './blackoutCalendarService';
+import { TIER_LIMITS } from './polarClient';
+import { MONITORING_THRESHOLDS, RecoveryPhase } from '../types';
+
+const { YELLOW_LEAD_MAX_STEP, RECIPIENT_DOMAIN_COMPLAINT_THRESHOLD } = MONITORING_THRESHOLDS;
+
+export const SIMULATION_TICK_MINUTES = 15;
+export const SIMULATION_DEFAULT_DAYS = 90;
+export const SIMULATION_MAX_DAYS = 365;
+/** Leads beyond this are left out of the projection (with a warning). */
+const MAX_SIMULATED_LEADS = 25_000;
+/** Blocked leads listed individually; the per-gate counts cover the rest. */
+const MAX_LISTED_BLOCKED = 500;
+/** Distinct recipient domains checked against the complaint-rate gate. */
+const MAX_COMPLAINT_DOMAINS = 200;
+
+// ────────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────────
+
+export interface SimCampaign extends SendWindowCampaign {
+    daily_limit: number | null;
+    send_in_recipient_timezone?: boolean | null;
+    recipient_fallback_timezone?: string | null;
+}
+
+export interface SimStep {
+    step_number: number;
+    delay_days: number;
+    delay_hours: number;
+    condition?: string | null;
+    branch_to_step_number?: number | null;
+    step_type?: string;
+    task_due_hours?: number;
+}
+
+export interface SimLead {
+    id: string;
+    email: string;
+    current_step: number;
+    /** When the lead is next due; null = due at the start of the simulation. */
+    due_at: Date | null;
+    /** Step of an open manual task the lead is parked on, due at due_at. */
+    held_step?: number | null;
+    /** Zone the send window is evaluated in (resolveLeadTimezone). */
+    timezone: string;
+    assigned_account_id: string | null;
+    health_classification?: string | null;
+    replied_at?: Date | null;
+    opened_count?: number | null;
+    clicked_count?: number | null;
+}
+
+export interface SimMailbox {
+    account_id: string;
+    email: string;
+    daily_cap: number;
+    /** Capacity left today (UTC) after sends already made by any campaign. */
+    remaining_today: number;
+}
+
+export type SimGate = 'execution' | 'lead_health' | 'suppression';
+
+export interface BlockedLead {
+    campaign_lead_id: string;
+    email: string;
+    gate: SimGate;
+    reason: string;
+    /** Last step delivered before the block (0 = never sent). */
+    at_step: number;
+}
+
+export interface SimulationInput {
+    campaign: SimCampaign;
+    steps: SimStep[];
+    leads: SimLead[];
+    mailboxes: SimMailbox[];
+    blackout?: DateBlackout | null;
+    businessDays?: BusinessDayCalendar | null;
+    /** Campaign sends already made today (UTC), counted against daily_limit. */
+    campaignSentToday?: number;
+    /** Org tier limit per calendar month (UTC); Infinity when uncapped. */
+    monthlyLimit?: number;
+    /** What's left of it this month after sends already made. */
+    monthlyRemaining?: number;
+}
+
+export interface SimulationDay {
+    date: string;
+    sends: number;
+    tasks: number;
+    completed: number;
+    by_mailbox: Record<string, number>;
+    by_step: Record<string, number>;
+}
+
+export interface SimulationProjection {
+    from: Date;
+    horizon_days: number;
+    tick_minutes: number;
+    totals: { leads: number; sends: number; tasks: number; completed: number; blocked: number; unfinished: number };
+    /** When the last simulated lead finishes; null if any is still mid-sequence at the horizon. */
+    estimated_completion_at: Date | null;
+    days: SimulationDay[];
+    sends_by_mailbox: Record<string, number>;
+    blocked: BlockedLead[];
+    monthly_limit_reached: boolean;
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Simulation core (pure)
+// ────────────────────────────────────────────────────────────────────
+
+interface LeadState {
+    lead: SimLead;
+    step: number;
+    dueAt: number;
+    heldStep: number | null;
+    account: string | null;
+    done: boolean;
+    finishedAt: number | null;
+}
+
+/**
+ * Run the dispatcher rules forward from `from` for `days` days. Pure: all
+ * state comes in through `input`, nothing is read or written.
+ */
+export function simulateSchedule(input: SimulationInput, opts: { from: Date; days: number }): SimulationProjection {
+    const { campaign, steps, blackout = null, businessDays = null } = input;
+    const tickMs = SIMULATION_TICK_MINUTES * 60 * 1000;
+    const start = opts.from.getTime();
+    const end = start + opts.days * 24 * 60 * 60 * 1000;
+    const reportZone = campaign.schedule_timezone || 'UTC';
+    const dailyLimit = campaign.daily_limit ?? 50;
+    const recipientLocal = !!campaign.send_in_recipient_timezone;
+
+    const states: LeadState[] = input.leads.map(lead => ({
+        lead,
+        step: lead.current_step,
+        dueAt: Math.max(start, lead.due_at?.getTime() ?? start),
+        heldStep: lead.held_step ?? null,
+        account: lead.assigned_account_id,
+        done: false,
+        finishedAt: null,
+    }));
+    const mailboxes = new Map(input.mailboxes.map(m => [m.account_id, { ...m, remaining: m.remaining_today }]));
+
+    const days = new Map<string, SimulationDay>();
+    let keyAt = { t: NaN, key: '' };
+    const dayOf = (t: number) => {
+        // Formatting the date is the costly part; every event in a tick shares it.
+        if (keyAt.t !== t) keyAt = { t, key: localDateKey(reportZone, new Date(t)) };
+        const key = keyAt.key;
+        let day = days.get(key);
+        if (!day) {
+            day = { date: key, sends: 0, tasks: 0, completed: 0, by_mailbox: {}, by_step: {} };
+            days.set(key, day);
+        }
+        return day;
+    };
+    const sendsByMailbox: Record<string, number> = {};
+    const blocked: BlockedLead[] = [];
+    let sends = 0;
+    let tasks = 0;
+    let completed = 0;
+
+    const finish = (s: LeadState, t: number) => {
+        s.done = true;
+        s.finishedAt = t;
+        completed++;
+        dayOf(t).completed++;
+    };
+
+    // Same as the post-send / advanceLeadPastStep scheduling: the delay of
+    // step N+1 (zero if missing), completion when no higher step exists.
+    const advance = (s: LeadState, stepNumber: number, t: number) => {
+        s.step = stepNumber;
+        s.heldStep = null;
+        if (!steps.some(st => st.step_number > stepNumber)) {
+            finish(s, t);
+            return;
+        }
+        const next = steps.find(st => st.step_number === stepNumber + 1);
+        s.dueAt = calculateNextSendAt(next ?? { delay_days: 0, delay_hours: 0 }, businessDays, new Date(t))!.getTime();
+    };
+
+    let campaignRemaining = dailyLimit - (input.campaignSentToday ?? 0);
+    const monthlyLimit = input.monthlyLimit ?? Number.POSITIVE_INFINITY;
+    let monthlyRemaining = input.monthlyRemaining ?? monthlyLimit;
+    let monthlyLimitReached = false;
+    let utcDay = new Date(start).toISOString().slice(0, 10);
+    let utcMonth = utcDay.slice(0, 7);
+    let pending = states;
+    // Next tick where anything can happen - idle ticks (closed window, caps
+    // used up, nobody due) are skipped without touching the leads.
+    let wakeAt = start;
+
+    for (let t = start; t < end && pending.length > 0; t += tickMs) {
+        const tickUtcDay = new Date(t).toISOString().slice(0, 10);
+        if (tickUtcDay !== utcDay) {
+            // Daily caps (campaign, mailbox, per-campaign mailbox usage) reset at UTC midnight.
+            utcDay = tickUtcDay;
+            campaignRemaining = dailyLimit;
+            for (const m of mailboxes.values()) m.remaining = m.daily_cap;
+            if (tickUtcDay.slice(0, 7) !== utcMonth) {
+                // A new month's tier allowance - as if this campaign had it to itself.
+                utcMonth = tickUtcDay.slice(0, 7);
+                monthlyRemaining = monthlyLimit;
+            }
+        }
+
+        if (t < wakeAt) continue;
+
+        // Tasks are worked whether or not the send window is open.
+        for (const s of pending) {
+            if (s.heldStep != null && s.dueAt <= t) advance(s, s.heldStep, t);
+        }
+
+        const nextUtcMidnight = Date.parse(`${utcDay}T00:00:00Z`) + 24 * 60 * 60 * 1000;
+        const windowOpen = recipientLocal || isWithinSendingWindow(campaign, { now: new Date(t), blackout });
+        let sendingBlockedUntil = windowOpen ? 0 : (nextWindowOpening(campaign, null, new Date(t), blackout)?.getTime() ?? end);
+        if (windowOpen && campaignRemaining > 0 && monthlyRemaining > 0) {
+            // Follow-ups first, then oldest-due - the dispatcher's ordering.
+            const due = pending
+                .filter(s => !s.done && s.heldStep == null && s.dueAt <= t)
+                .sort((a, b) => b.step - a.step || a.dueAt - b.dueAt);
+
+            for (const s of due) {
+                if (campaignRemaining <= 0) break;
+                if (monthlyRemaining <= 0) {
+                    monthlyLimitReached = true;
+                    break;
+                }
+                const now = new Date(t);
+                if (recipientLocal && !isWithinSendingWindow(campaign, { timezone: s.lead.timezone, now, blackout })) {
+                    s.dueAt = (nextWindowOpening(campaign, s.lead.timezone, now, blackout) ?? new Date(t + 24 * 60 * 60 * 1000)).getTime();
+                    continue;
+                }
+
+                const step = resolveDeliverableStep(s.step + 1, steps, s.lead);
+                if (!step) {
+                    finish(s, t);
+                    continue;
+                }
+                if (s.lead.health_classification === 'yellow' && s.step >= YELLOW_LEAD_MAX_STEP) {
+                    s.done = true;
+                    blocked.push({
+                        campaign_lead_id: s.lead.id,
+                        email: s.lead.email,
+                        gate: 'execution',
+                        reason: `YELLOW lead reached max step (${s.step}/${YELLOW_LEAD_MAX_STEP})`,
+                        at_step: s.step,
+                    });
+                    continue;
+                }
+                if (isTaskStep(step.step_type)) {
+                    tasks++;
+                    dayOf(t).tasks++;
+                    s.heldStep = step.step_number;
+                    s.dueAt = t + Math.max(0, step.task_due_hours ?? 24) * 60 * 60 * 1000;
+                    continue;
+                }
+
+                // Sticky mailbox when it's still on the campaign, otherwise the
+                // one with the most room left (the capacity-balanced pick).
+                let mailbox = s.account ? mailboxes.get(s.account) : undefined;
+                if (!mailbox) {
+                    for (const m of mailboxes.values()) {
+                        if (m.remaining > 0 && (!mailbox || m.remaining > mailbox.remaining)) mailbox = m;
+                    }
+                }
+                if (!mailbox || mailbox.remaining <= 0) continue;
+
+                mailbox.remaining--;
+                campaignRemaining--;
+                monthlyRemaining--;
+                sends++;
+                s.account = mailbox.account_id;
+                const day = dayOf(t);
+                day.sends++;
+                day.by_mailbox[mailbox.account_id] = (day.by_mailbox[mailbox.account_id] ?? 0) + 1;
+                day.by_step[step.step_number] = (day.by_step[step.step_number] ?? 0) + 1;
+                sendsByMailbox[mailbox.account_id] = (sendsByMailbox[mailbox.account_id] ?? 0) + 1;
+                advance(s, step.step_number, t);
+            }
+        }
+
+        if (windowOpen && (campaignRemaining <= 0 || monthlyRemaining <= 0 || ![...mailboxes.values()].some(m => m.remaining > 0))) {
+            sendingBlockedUntil = nextUtcMidnight;
+        }
+        pending = pending.filter(s => !s.done);
+        wakeAt = end;
+        for (const s of pending) {
+            wakeAt = Math.min(wakeAt, s.heldStep != null ? s.dueAt : Math.max(s.dueAt, sendingBlockedUntil));
+        }
+    }
+
+    const lastFinishedAt = states.reduce((max, s) => Math.max(max, s.finishedAt ?? 0), 0);
+    return {
+        from: opts.from,
+        horizon_days: opts.days,
+        tick_minutes: SIMULATION_TICK_MINUTES,
+        totals: {
+            leads: states.length,
+            sends,
+            tasks,
+            completed,
+            blocked: blocked.length,
+            unfinished: pending.length,
+        },
+        estimated_completion_at: pending.length === 0 && completed > 0 ? new Date(lastFinishedAt) : null,
+        days: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+        sends_by_mailbox: sendsByMailbox,
+        blocked,
+        monthly_limit_reached: monthlyLimitReached,
+    };
+}
+
+/**
+ * Daily cap for one mailbox on one campaign: the dispatcher's mailbox-wide
+ * cap, the per-campaign override, and the healing phase limit - whichever is
+ * smallest, with the name of the one that binds.
+ */
+export function mailboxCapFor(
+    acct: {
+        daily_send_limit: number;
+        mailbox?: { warmup_limit?: number | null; recovery_phase?: string | null } | null;
+    },
+    campaignOverride: number | null,
+    phaseLimit: number | null,
+): { cap: number; source: 'mailbox' | 'warmup' | 'campaign_override' | 'recovery_phase' } {
+    let cap = acct.daily_send_limit;
+    let source: 'mailbox' | 'warmup' | 'campaign_override' | 'recovery_phase' = 'mailbox';
+    const warmupCap = mailboxDailyLimit(acct);
+    if (warmupCap < cap) {
+        cap = warmupCap;
+        source = 'warmup';
+    }
+    if (campaignOverride != null && campaignOverride < cap) {
+        cap = campaignOverride;
+        source = 'campaign_override';
+    }
+    if (phaseLimit != null && phaseLimit < cap) {
+        cap = phaseLimit;
+        source = 'recovery_phase';
+    }
+    return { cap: Math.max(0, cap), source };
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Loader
+// ────────────────────────────────────────────────────────────────────
+
+/** Why the dispatcher would skip a mailbox outright, or null when it's eligible. */
+function mailboxExclusion(acct: any): string | null {
+    if (acct.connection_status !== 'active') return `connection ${acct.connection_status}`;
+    if (acct.mailbox?.domain?.status === 'paused') return 'domain paused';
+    if (acct.mailbox?.status === 'paused') return 'mailbox paused';
+    if (acct.mailbox?.infra_status === 'action_required' || acct.mailbox?.domain?.infra_status === 'action_required') {
+        return 'blacklisted (infrastructure action required)';
+    }
+    return null;
+}
+
+/**
+ * Project a campaign's schedule from now. Reads the campaign, its leads,
+ * mailboxes and today's usage; writes nothing.
+ */
+export async function simulateCampaign(orgId: string, campaignId: string, opts: { days?: number; from?: Date } = {}) {
+    const days = Math.min(Math.max(1, Math.floor(opts.days ?? SIMULATION_DEFAULT_DAYS)), SIMULATION_MAX_DAYS);
+    const from = opts.from ?? new Date();
+
+    const campaign = await prisma.campaign.findFirst({
+        where: { id: campaignId, organization_id: orgId },
+        include: {
+            steps: { orderBy: { step_number: 'asc' } },
+            accounts: {
+                include: {
+                    account: {
+                        include: {
+                            mailbox: {
+                                select: {
+                                    warmup_limit: true,
+                                    recovery_phase: true,
+                                    resilience_score: true,
+                                    status: true,
+                                    infra_status: true,
+                                    domain: { select: { status: true, infra_status: true } },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    });
+    if (!campaign) throw new AppError('Campaign not found', 404);
+    if (campaign.sequence_mode === 'graph') {
+        throw new AppError('Simulation supports linear sequences only', 400);
+    }
+
+    const warnings: string[] = [];
+    const todayUtc = new Date(from);
+    todayUtc.setUTCHours(0, 0, 0, 0);
+    const monthStart = new Date(todayUtc);
+    monthStart.setUTCDate(1);
+
+    const [leadRows, pausedLeads, openTasks, usageRows, campaignSentToday, org, monthlySent] = await Promise.all([
+        prisma.campaignLead.findMany({
+            where: { campaign_id: campaign.id, status: 'active' },
+            orderBy: { created_at: 'asc' },
+            take: MAX_SIMULATED_LEADS + 1,
+        }),
+        prisma.campaignLead.count({ where: { campaign_id: campaign.id, status: 'paused' } }),
+        prisma.sequenceTask.findMany({
+            where: { campaign_id: campaign.id, status: 'open' },
+            select: { campaign_lead_id: true, step_number: true, due_at: true },
+        }),
+        prisma.campaignAccountUsage.findMany({ where: { campaign_id: campaign.id } }),
+        prisma.sendEvent.count({ where: { campaign_id: campaign.id, sent_at: { gte: todayUtc } } }),
+        prisma.organization.findUnique({
+            where: { id: orgId },
+            select: { assessment_completed: true, subscription_tier: true },
+        }),
+        prisma.sendEvent.count({ where: { organization_id: orgId, sent_at: { gte: monthStart } } }),
+    ]);
+    if (leadRows.length > MAX_SIMULATED_LEADS) {
+        leadRows.length = MAX_SIMULATED_LEADS;
+        warnings.push(`Only the first ${MAX_SIMULATED_LEADS} active leads were simulated`);
+    }
+
+    // ── Gate preview (read-only) ──
+    const blocked: BlockedLead[] = [];
+    const block = (lead: { id: string; email: string; current_step: number }, gate: SimGate, reason: string) =>
+        blocked.push({ campaign_lead_id: lead.id, email: lead.email, gate, reason, at_step: lead.current_step });
+
+    let orgGateReason: string | null = null;
+    if (!org?.assessment_completed) {
+        orgGateReason = 'Infrastructure assessment in progress - gate locked until assessment completes';
+    } else {
+        const transition = await checkTransitionGate(orgId);
+        if (!transition.canTransition) orgGateReason = transition.message;
+    }
+
+    const contacts = await prisma.lead.findMany({
+        where: { organization_id: orgId, email: { in: leadRows.map(l => l.email) } },
+        select: { email: true, status: true, health_classification: true },
+    });
+    const contactByEmail = new Map(contacts.map(c => [c.email, c]));
+
+    const domains = [...new Set(leadRows.map(l => l.email.split('@')[1]?.toLowerCase()).filter((d): d is string => !!d))];
+    if (domains.length > MAX_COMPLAINT_DOMAINS) {
+        warnings.push(`Complaint-rate gate checked for the first ${MAX_COMPLAINT_DOMAINS} recipient domains only`);
+    }
+    const complainingDomains = new Map<string, number>();
+    for (const domain of domains.slice(0, MAX_COMPLAINT_DOMAINS)) {
+        const stats = await getRecipientDomainComplaintRate(orgId, domain);
+        if (stats.sufficientSample && stats.rate >= RECIPIENT_DOMAIN_COMPLAINT_THRESHOLD) complainingDomains.set(domain, stats.rate);
+    }
+
+    const heldByLead = new Map(openTasks.map(t => [t.campaign_lead_id, t]));
+    const simLeads: SimLead[] = [];
+    for (const lead of leadRows) {
+        const contact = contactByEmail.get(lead.email);
+        const domain = lead.email.split('@')[1]?.toLowerCase() ?? '';
+        if (orgGateReason) {
+            block(lead, 'execution', orgGateReason);
+            continue;
+        }
+        if (contact && (contact.status === 'unsubscribed' || contact.status === 'bounced')) {
+            block(lead, 'suppression', `Contact is ${contact.status}`);
+            continue;
+        }
+        if (contact?.health_classification === 'red') {
+            block(lead, 'lead_health', 'RED lead - blocked by the lead health gate');
+            continue;
+        }
+        if (complainingDomains.has(domain)) {
+            block(lead, 'execution', `Recipient domain ${domain} has high complaint rate (${(complainingDomains.get(domain)! * 100).toFixed(3)}%)`);
+            continue;
+        }
+        const held = heldByLead.get(lead.id);
+        const dueAt = lead.ooo_until && (!lead.next_send_at || lead.ooo_until > lead.next_send_at)
+            ? lead.ooo_until
+            : lead.next_send_at;
+        simLeads.push({
+            id: lead.id,
+            email: lead.email,
+            current_step: lead.current_step,
+            due_at: held ? held.due_at : dueAt,
+            held_step: held?.step_number ?? null,
+            timezone: resolveLeadTimezone(campaign, {
+                timezone: lead.timezone ?? (lead.timezone_source ? null : inferLeadTimezone(lead)?.timezone ?? null),
+            }),
+            assigned_account_id: lead.assigned_account_id,
+            health_classification: contact?.health_classification ?? null,
+            replied_at: lead.replied_at,
+            opened_count: lead.opened_count,
+            clicked_count: lead.clicked_count,
+        });
+    }
+
+    // ── Mailboxes: same eligibility and caps as the dispatcher ──
+    const usageByAccount = new Map(usageRows.map(u => [u.account_id, new Date(u.sends_reset_at) < todayUtc ? 0 : u.sends_today]));
+    const mailboxReport: Array<{ account_id: string; email: string; daily_cap: number; cap_source: string | null; excluded_reason: string | null }> = [];
+    const simMailboxes: SimMailbox[] = [];
+    for (const ca of campaign.accounts) {
+        const acct = ca.account as any;
+        const excluded = mailboxExclusion(acct);
+        if (excluded) {
+            mailboxReport.push({ account_id: acct.id, email: acct.email, daily_cap: 0, cap_source: null, excluded_reason: excluded });
+            continue;
+        }
+        const phaseLimit = acct.mailbox
+            ? getPhaseVolumeLimit(acct.mailbox.recovery_phase as RecoveryPhase, acct.mailbox.resilience_score ?? 50)
+            : null;
+        const { cap, source } = mailboxCapFor(acct, ca.daily_limit_override, phaseLimit);
+        const mailboxSentToday = new Date(acct.sends_reset_at) < todayUtc ? 0 : acct.sends_today;
+        const campaignUsage = usageByAccount.get(acct.id) ?? 0;
+        const mailboxWideLeft = Math.min(mailboxDailyLimit(acct), phaseLimit ?? Infinity) - mailboxSentToday;
+        const campaignLeft = (ca.daily_limit_override ?? acct.daily_send_limit) - campaignUsage;
+        simMailboxes.push({
+            account_id: acct.id,
+            email: acct.email,
+            daily_cap: cap,
+            remaining_today: Math.max(0, Math.min(mailboxWideLeft, campaignLeft)),
+        });
+        mailboxReport.push({ account_id: acct.id, email: acct.email, daily_cap: cap, cap_source: source, excluded_reason: null });
+    }
+    if (simMailboxes.every(m => m.daily_cap === 0) && simLeads.length > 0) {
+        warnings.push('No mailbox on this campaign can send - every connected mailbox is excluded or capped at 0');
+    }
+
+    const tier = org?.subscription_tier || 'trial';
+    const limits = TIER_LIMITS[tier] || TIER_LIMITS.trial;
+    if (campaign.send_time_optimization) {
+        warnings.push('Send-time optimization moves sends within the window; the projection uses the window only');
+    }
+
+    const projection = simulateSchedule({
+        campaign,
+        steps: campaign.steps,
+        leads: simLeads,
+        mailboxes: simMailboxes,
+        blackout: await blackoutCalendar.loadCampaignCalendar(orgId, campaign.id),
+        businessDays: await loadBusinessDayCalendar(campaign.id),
+        campaignSentToday,
+        monthlyLimit: limits.monthlySendLimit,
+        monthlyRemaining: Math.max(0, limits.monthlySendLimit - monthlySent),
+    }, { from, days });
+    if (projection.monthly_limit_reached) {
+        warnings.push(`The ${tier} plan's monthly send limit is reached during the projection`);
+    }
+    if (projection.totals.unfinished > 0) {
+        warnings.push(`${projection.totals.unfinished} lead(s) are still mid-sequence after ${days} days`);
+    }
+
+    const allBlocked = [...blocked, ...projection.blocked];
+    const blockedByGate: Record<SimGate, number> = { execution: 0, lead_health: 0, suppression: 0 };
+    for (const b of allBlocked) blockedByGate[b.gate]++;
+
+    return {
+        campaign_id: campaign.id,
+        campaign_status: campaign.status,
+        ...projection,
+        totals: {
+            ...projection.totals,
+            leads: leadRows.length,
+            blocked: allBlocked.length,
+            paused: pausedLeads,
+        },
+        mailboxes: mailboxReport.map(m => ({ ...m, projected_sends: projection.sends_by_mailbox[m.account_id] ?? 0 })),
+        blocked: allBlocked.slice(0, MAX_LISTED_BLOCKED),
+        blocked_by_gate: blockedByGate,
+        warnings,
+    };
+}
@@ -400,7 +400,8 @@ export async function generateProspectList(ctx: ScoringContext): Promise<Prospec
 
     // Pull subject text from SequenceStep + CampaignLead.current_step.
     const stepRows = await prisma.sequenceStep.findMany({
-        where: { campaign_id: { in: campaignIds } },
+        // Task steps' subject is a rep's task title, not an email subject.
+        where: { campaign_id: { in: campaignIds }, step_type: 'email' },
         select: { campaign_id: true, step_number: true, subject: true },
         orderBy: [{ campaign_id: 'asc' }, { step_number: 'asc' }],
     });
@@ -810,7 +811,8 @@ async function materializeFromIds(organizationId: string, ids: string[]): Promis
     }
 
     const stepRows = await prisma.sequenceStep.findMany({
-        where: { campaign_id: { in: campaignIds } },
+        // Task steps' subject is a rep's task title, not an email subject.
+        where: { campaign_id: { in: campaignIds }, step_type: 'email' },
         select: { campaign_id: true, step_number: true, subject: true },
         orderBy: [{ campaign_id: 'asc' }, { step_number: 'asc' }],
     });
@@ -874,3 +876,56 @@ async function materializeFromIds(organizationId: string, ids: string[]): Promis
         };
     });
 }
+
+// ─── Call tasks ──────────────────────────────────────────────────────────────
+
+export interface CallTaskRow extends ProspectRow {
+    task_id: string;
+    task_title: string;
+    task_due_at: Date;
+    task_step_number: number;
+    assigned_user_id: string | null;
+}
+
+/**
+ * Open call tasks from multichannel sequences (SequenceStep.step_type
+ * 'call'), as call-list rows so the page, CSV and JustCall export treat them
+ * like either list. Ordered by due date; only leads still in their sequence.
+ * `assignedUserId` undefined = every rep's tasks, null = unassigned only.
+ */
+export async function listCallTaskProspects(organizationId: string, opts: {
+    assignedUserId?: string | null;
+    dueBefore?: Date;
+    limit?: number;
+} = {}): Promise<CallTaskRow[]> {
+    const tasks = await prisma.sequenceTask.findMany({
+        where: {
+            organization_id: organizationId,
+            type: 'call',
+            status: 'open',
+            lead: { status: 'active' },
+            ...(opts.assignedUserId !== undefined && { assigned_user_id: opts.assignedUserId }),
+            ...(opts.dueBefore && { due_at: { lte: opts.dueBefore } }),
+        },
+        orderBy: { due_at: 'asc' },
+        take: Math.min(Math.max(1, opts.limit ?? 200), 1000),
+    });
+    if (tasks.length === 0) return [];
+    const rows = await materializeFromIds(organizationId, tasks.map((t) => t.campaign_lead_id));
+    const rowByLead = new Map(rows.map((r) => [r.campaign_lead_id, r]));
+    const out: CallTaskRow[] = [];
+    for (const t of tasks) {
+        const row = rowByLead.get(t.campaign_lead_id);
+        if (!row) continue;
+        out.push({
+            ...row,
+            reason: `Call task (step ${t.step_number}): ${t.title}`,
+            task_id: t.id,
+            task_title: t.title,
+            task_due_at: t.due_at,
+            task_step_number: t.step_number,
+            assigned_user_id: t.assigned_user_id,
+        });
+    }
+    return out;
+}
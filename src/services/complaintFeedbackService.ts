@@ -0,0 +1,269 @@
+/**
+ * Complaint Feedback Service
+ *
+ * Ingests RFC 5965 (ARF) spam complaints from provider feedback loops and
+ * feeds them into the Protection layer. Reports arrive two ways:
+ *
+ *   - 'imap': an ARF message lands in a mailbox the IMAP reply worker watches
+ *     (the FBL address registered with the provider, or the sending mailbox
+ *     itself). The worker hands the raw source here instead of the Unibox.
+ *   - 'api':  POST /api/complaints with the raw MIME, for FBLs delivered to an
+ *     address we don't poll (forwarding rule, ESP webhook relay).
+ *
+ * Per report:
+ *   1. parse (arfParser) - `not-spam` reports are acknowledged and dropped
+ *   2. match the reported message back to what we sent, strongest first:
+ *        tracking token (List-Unsubscribe / link URL) → CampaignLead
+ *        original Message-ID → outbound EmailMessage → EmailThread
+ *        complainer address → latest SendEvent to them
+ *   3. store a ComplaintEvent (deduped on the report's own Message-ID)
+ *   4. suppress the complainer org-wide - same cascade as an unsubscribe
+ *   5. monitoringService.recordComplaint on the sending mailbox, which drives
+ *      warn / pause / relapse off the complaint rate
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+import * as auditLogService from './auditLogService';
+import * as suppressionService from './suppressionService';
+import * as monitoringService from './monitoringService';
+import { verifyTrackingToken } from '../utils/trackingToken';
+import { AppError } from '../utils/appError';
+import { parseArf, complainantAddress, isComplaint, ArfResult } from './arfParser';
+import { recordDkimSelectors } from './dnsAuthLinter';
+
+export type ComplaintSource = 'imap' | 'api';
+
+export interface ComplaintMatch {
+    mailboxId: string | null;
+    campaignId: string | null;
+    campaignLeadId: string | null;
+    recipientEmail: string | null;
+    matchedBy: 'tracking_token' | 'message_id' | 'recipient' | null;
+}
+
+export interface IngestResult {
+    status: 'recorded' | 'duplicate' | 'not_spam' | 'unattributed';
+    complaintId?: string;
+    match?: ComplaintMatch;
+}
+
+/** Largest raw report accepted - also the body-parser limit on the upload route. */
+export const MAX_RAW_BYTES = 5 * 1024 * 1024;
+
+async function latestSendToLead(campaignLeadId: string) {
+    return prisma.sendEvent.findFirst({
+        where: { campaign_lead_id: campaignLeadId },
+        orderBy: { sent_at: 'desc' },
+        select: { mailbox_id: true },
+    });
+}
+
+/** Connected mailbox in the org whose address sent the original message. */
+async function senderMailboxId(orgId: string, arf: ArfResult): Promise<string | null> {
+    const sender = arf.originalFrom ?? arf.originalMailFrom;
+    if (!sender?.includes('@')) return null;
+    const account = await prisma.connectedAccount.findFirst({
+        where: { organization_id: orgId, email: { equals: sender, mode: 'insensitive' } },
+        select: { id: true },
+    });
+    return account?.id ?? null;
+}
+
+/**
+ * Resolve the reported message to the mailbox / campaign / lead that sent
+ * it. The mailbox a report arrived in is deliberately not used: an FBL
+ * address receives reports about mail from every mailbox in the org.
+ */
+export async function matchComplaint(orgId: string, arf: ArfResult): Promise<ComplaintMatch> {
+    const complainant = complainantAddress(arf) ?? null;
+
+    // 1. Signed tracking token - survives recipient redaction.
+    for (const token of arf.trackingTokens) {
+        const payload = verifyTrackingToken(token);
+        if (!payload) continue;
+        const lead = await prisma.campaignLead.findFirst({
+            where: { id: payload.lid, campaign: { organization_id: orgId } },
+            select: { id: true, email: true, campaign_id: true, assigned_account_id: true },
+        });
+        if (!lead) continue;
+        const send = await latestSendToLead(lead.id);
+        return {
+            mailboxId: send?.mailbox_id ?? lead.assigned_account_id ?? await senderMailboxId(orgId, arf),
+            campaignId: lead.campaign_id,
+            campaignLeadId: lead.id,
+            recipientEmail: lead.email.toLowerCase(),
+            matchedBy: 'tracking_token',
+        };
+    }
+
+    // 2. Our SMTP Message-ID on the outbound Unibox row.
+    if (arf.originalMessageId) {
+        const message = await prisma.emailMessage.findFirst({
+            where: {
+                direction: 'outbound',
+                message_id: { in: [arf.originalMessageId, `<${arf.originalMessageId}>`] },
+                thread: { organization_id: orgId },
+            },
+            select: { to_email: true, thread: { select: { account_id: true, campaign_id: true, lead_id: true } } },
+        });
+        if (message) {
+            return {
+                mailboxId: message.thread.account_id,
+                campaignId: message.thread.campaign_id,
+                campaignLeadId: message.thread.lead_id,
+                recipientEmail: message.to_email.toLowerCase(),
+                matchedBy: 'message_id',
+            };
+        }
+    }
+
+    // 3. Latest send to the complainer (unredacted reports only).
+    if (complainant) {
+        const send = await prisma.sendEvent.findFirst({
+            where: {
+                organization_id: orgId,
+                recipient_email: { equals: complainant, mode: 'insensitive' },
+            },
+            orderBy: { sent_at: 'desc' },
+            select: { mailbox_id: true, campaign_id: true, campaign_lead_id: true },
+        });
+        if (send) {
+            return {
+                mailboxId: send.mailbox_id,
+                campaignId: send.campaign_id,
+                campaignLeadId: send.campaign_lead_id,
+                recipientEmail: complainant,
+                matchedBy: 'recipient',
+            };
+        }
+    }
+
+    return { mailboxId: await senderMailboxId(orgId, arf), campaignId: null, campaignLeadId: null, recipientEmail: complainant, matchedBy: null };
+}
+
+/**
+ * Org-wide suppression of the complainer. Lead status 'unsubscribed' (not the
+ * BLOCKED lead state) because that is what the dispatcher's suppression check
+ * and the enrollment guard read; health goes RED alongside it. The address
+ * also lands on the org suppression list for contacts with no Lead row.
+ */
+async function suppressComplainer(orgId: string, email: string): Promise<void> {
+    const now = new Date();
+    await prisma.$transaction([
+        prisma.lead.updateMany({
+            where: { organization_id: orgId, email },
+            data: {
+                status: 'unsubscribed',
+                unsubscribed_at: now,
+                unsubscribed_reason: 'spam_complaint',
+                health_state: 'unhealthy',
+                health_classification: 'red',
+            },
+        }),
+        prisma.campaignLead.updateMany({
+            where: { email, campaign: { organization_id: orgId }, status: { not: 'unsubscribed' } },
+            data: { status: 'unsubscribed', unsubscribed_at: now, next_send_at: null },
+        }),
+    ]);
+    await suppressionService.suppress(
+        orgId,
+        { value: email, type: 'email', reason: 'spam_complaint' },
+        { source: 'complaint' },
+    );
+}
+
+/**
+ * Ingest one raw ARF report for an organization. Throws AppError(400) if the
+ * payload isn't an ARF report; everything else resolves to a status so FBL
+ * relays can be acknowledged with a 2xx.
+ */
+export async function ingestArfReport(
+    raw: string,
+    opts: { organizationId: string; source: ComplaintSource },
+): Promise<IngestResult> {
+    if (!raw || raw.length > MAX_RAW_BYTES) throw new AppError('Report must be a raw MIME message under 5MB', 400);
+    const arf = parseArf(raw);
+    if (!arf.isArf) throw new AppError('Not an ARF (RFC 5965) feedback report', 400);
+    if (!isComplaint(arf)) return { status: 'not_spam' };
+
+    const orgId = opts.organizationId;
+    const match = await matchComplaint(orgId, arf);
+    // The embedded original claims to be our own signed message; only its
+    // sending mailbox's domain in this org can learn a selector from it.
+    if (match.mailboxId && arf.originalHeaders) {
+        await recordDkimSelectors(arf.originalHeaders, { organizationId: orgId, accountId: match.mailboxId });
+    }
+    if (!match.recipientEmail && !match.mailboxId) {
+        logger.warn('[COMPLAINT] ARF report could not be attributed', { orgId, reportMessageId: arf.reportMessageId });
+        return { status: 'unattributed', match };
+    }
+
+    let complaintId: string;
+    try {
+        const complaint = await prisma.complaintEvent.create({
+            data: {
+                organization_id: orgId,
+                mailbox_id: match.mailboxId,
+                campaign_id: match.campaignId,
+                campaign_lead_id: match.campaignLeadId,
+                recipient_email: match.recipientEmail ?? '',
+                feedback_type: arf.feedbackType ?? 'abuse',
+                source: opts.source,
+                reporting_mta: arf.reportingMta?.slice(0, 255) ?? null,
+                user_agent: arf.userAgent?.slice(0, 255) ?? null,
+                original_message_id: arf.originalMessageId ?? null,
+                report_message_id: arf.reportMessageId ?? null,
+                arrival_date: arf.arrivalDate ?? null,
+                matched_by: match.matchedBy,
+            },
+        });
+        complaintId = complaint.id;
+    } catch (err) {
+        // Same report delivered twice (IMAP re-fetch, relay retry).
+        if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+            return { status: 'duplicate', match };
+        }
+        throw err;
+    }
+
+    if (match.recipientEmail) {
+        try {
+            await suppressComplainer(orgId, match.recipientEmail);
+        } catch (err) {
+            logger.error('[COMPLAINT] Org-wide suppression failed', err instanceof Error ? err : new Error(String(err)), { orgId });
+        }
+    }
+
+    if (match.mailboxId) {
+        await monitoringService.recordComplaint(match.mailboxId, match.campaignId, match.recipientEmail ?? undefined);
+    } else {
+        await auditLogService.logAction({
+            organizationId: orgId,
+            entity: 'lead',
+            trigger: 'feedback_loop',
+            action: 'spam_complaint_received',
+            details: `ARF ${arf.feedbackType ?? 'abuse'} report from ${arf.userAgent ?? arf.reportingMta ?? 'unknown'} - sending mailbox not identified`,
+        });
+    }
+
+    logger.info('[COMPLAINT] ARF complaint recorded', { orgId, complaintId, matchedBy: match.matchedBy, source: opts.source });
+    return { status: 'recorded', complaintId, match };
+}
+
+export async function listComplaints(
+    orgId: string,
+    filters: { mailboxId?: string; campaignId?: string; since?: Date; limit?: number } = {},
+) {
+    return prisma.complaintEvent.findMany({
+        where: {
+            organization_id: orgId,
+            ...(filters.mailboxId && { mailbox_id: filters.mailboxId }),
+            ...(filters.campaignId && { campaign_id: filters.campaignId }),
+            ...(filters.since && { received_at: { gte: filters.since } }),
+        },
+        orderBy: { received_at: 'desc' },
+        take: Math.min(Math.max(1, filters.limit ?? 100), 500),
+    });
+}
@@ -0,0 +1,595 @@
+/**
+ * Content Spam Service
+ *
+ * recipientPreviewService.detectIssues catches rendering problems; this
+ * scores the copy itself for spam-filter risk before a step goes out. Local
+ * heuristics only, plus a DNS lookup of link domains against the URI
+ * blocklists dnsblService already carries.
+ *
+ * Findings (CONTENT_FINDING_POINTS toward a 0-100 score):
+ *   spam_phrase           - SPAM_TRIGGER_WORDS and a few more, once per
+ *                           phrase; heavier when it sits in the subject.
+ *   link_text_ratio       - fewer than WORDS_PER_LINK visible words per link.
+ *   image_only            - images with next to no text around them.
+ *   url_shortener         - bit.ly & co. hide the destination.
+ *   mismatched_link_text  - the link text shows one domain, the href goes
+ *                           to another (classic phishing tell).
+ *   excessive_caps        - shouting subject or body.
+ *   excessive_punctuation - "!!!", "???", "$$$", several "!" in a subject.
+ *   missing_plain_text    - no text/plain body alongside the HTML.
+ *   blocklisted_link      - a link domain listed on a URI DNSBL.
+ *
+ * Every finding carries the field and 1-based line it came from so the
+ * editor can annotate it in place. A step with A/B variants scores as its
+ * worst variant. launchCampaign refuses to start a campaign while any step
+ * scores above SequencerSettings.content_spam_threshold.
+ */
+
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+import * as dnsblService from './dnsblService';
+import { SPAM_TRIGGER_WORDS } from './recipientPreviewService';
+import { getSequencerSettings } from './sequencerSettingsService';
+import { AppError } from '../utils/appError';
+
+export type ContentField = 'subject' | 'preheader' | 'body_html' | 'body_text';
+export type ContentSpamLevel = 'low' | 'medium' | 'high';
+export type ContentFindingCode =
+    | 'spam_phrase'
+    | 'link_text_ratio'
+    | 'image_only'
+    | 'url_shortener'
+    | 'mismatched_link_text'
+    | 'excessive_caps'
+    | 'excessive_punctuation'
+    | 'missing_plain_text'
+    | 'blocklisted_link';
+
+export interface ContentFinding {
+    code: ContentFindingCode;
+    severity: 'warning' | 'error';
+    /** Contribution to the score; repeat occurrences of a phrase carry 0. */
+    points: number;
+    message: string;
+    field: ContentField;
+    /** 1-based line within the field. */
+    line: number;
+    excerpt: string;
+}
+
+export interface ContentInput {
+    subject: string;
+    preheader?: string | null;
+    bodyHtml: string;
+    bodyText?: string | null;
+}
+
+export interface ContentScore {
+    score: number;
+    level: ContentSpamLevel;
+    findings: ContentFinding[];
+}
+
+export const CONTENT_FINDING_POINTS: Record<ContentFindingCode, number> = {
+    spam_phrase: 6,
+    link_text_ratio: 10,
+    image_only: 25,
+    url_shortener: 15,
+    mismatched_link_text: 20,
+    excessive_caps: 10,
+    excessive_punctuation: 8,
+    missing_plain_text: 5,
+    blocklisted_link: 35,
+};
+
+/** A trigger phrase in the subject weighs double. */
+const SUBJECT_PHRASE_POINTS = 12;
+/** Per-code ceilings so one noisy check can't carry the whole score. */
+const CODE_POINT_CAPS: Partial<Record<ContentFindingCode, number>> = {
+    spam_phrase: 30,
+    url_shortener: 30,
+    mismatched_link_text: 40,
+};
+
+const MEDIUM_SCORE = 30;
+const HIGH_SCORE = 60;
+
+const WORDS_PER_LINK = 25;
+const IMAGE_ONLY_MAX_WORDS = 20;
+const CAPS_WORD_MIN_LETTERS = 4;
+const SUBJECT_CAPS_RATIO = 0.5;
+const BODY_CAPS_RATIO = 0.3;
+const BODY_CAPS_WORDS = 5;
+const EXCERPT_MAX = 120;
+
+const EXTRA_SPAM_PHRASES = [
+    'buy now', 'order now', 'apply now', 'call now', 'once in a lifetime',
+    'no strings attached', 'double your', '100% guaranteed', 'satisfaction guaranteed',
+    'while supplies last', 'this is not spam', 'dear friend', 'lowest price',
+    'extra income', 'work from home',
+];
+const SPAM_PHRASES = Array.from(new Set([...SPAM_TRIGGER_WORDS, ...EXTRA_SPAM_PHRASES]));
+
+const URL_SHORTENERS = new Set([
+    'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly',
+    'rebrand.ly', 'cutt.ly', 'shorturl.at', 'tiny.cc', 'rb.gy', 'bl.ink',
+    't.ly', 's.id', 'lnkd.in',
+]);
+
+const LINK_DOMAIN_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+const FIELD_ORDER: ContentField[] = ['subject', 'preheader', 'body_html', 'body_text'];
+
+interface ContentLink {
+    href: string;
+    host: string;
+    field: ContentField;
+    line: number;
+    excerpt: string;
+}
+
+interface FieldText {
+    field: ContentField;
+    /** As authored - line numbers refer to this. */
+    raw: string;
+    /** Visible text only, markup blanked out offset-for-offset. */
+    visible: string;
+}
+
+// ─── Text helpers ────────────────────────────────────────────────────────────
+
+/**
+ * Replace markup, entities and merge tags with spaces of the same length so
+ * offsets (and therefore line numbers) in the visible text line up with the
+ * authored HTML.
+ */
+function maskMarkup(html: string): string {
+    const blank = (m: string) => m.replace(/[^\n]/g, ' ');
+    return html
+        .replace(/<(style|script)\b[\s\S]*?<\/\1\s*>/gi, blank)
+        .replace(/<!--[\s\S]*?-->/g, blank)
+        .replace(/<[^>]*>/g, blank)
+        .replace(/&[a-z0-9#]+;/gi, blank)
+        .replace(/\{\{[^}]*\}\}/g, blank);
+}
+
+function lineAt(text: string, index: number): number {
+    let line = 1;
+    for (let i = 0; i < index && i < text.length; i++) {
+        if (text.charCodeAt(i) === 10) line++;
+    }
+    return line;
+}
+
+/** The line around `index`, trimmed to a window when the line is long (one-line HTML). */
+function excerptAt(text: string, index: number, length: number): string {
+    const start = text.lastIndexOf('\n', index - 1) + 1;
+    const end = text.indexOf('\n', index) === -1 ? text.length : text.indexOf('\n', index);
+    const collapse = (s: string) => s.replace(/\s+/g, ' ').trim();
+    const whole = collapse(text.slice(start, end));
+    if (whole.length <= EXCERPT_MAX) return whole;
+    const pad = Math.max(0, Math.floor((EXCERPT_MAX - length) / 2));
+    const from = Math.max(start, index - pad);
+    const to = Math.min(end, index + length + pad);
+    return `${from > start ? '…' : ''}${collapse(text.slice(from, to))}${to < end ? '…' : ''}`;
+}
+
+function countWords(text: string): number {
+    return (text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || []).length;
+}
+
+function escapeRegExp(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function hostOf(url: string): string | null {
+    const trimmed = url.trim();
+    if (!/^https?:\/\//i.test(trimmed)) return null;
+    try {
+        return new URL(trimmed).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+        return null;
+    }
+}
+
+function sameSite(a: string, b: string): boolean {
+    return a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+}
+
+function fieldTexts(input: ContentInput): FieldText[] {
+    const fields: FieldText[] = [{ field: 'subject', raw: input.subject || '', visible: input.subject || '' }];
+    if (input.preheader) fields.push({ field: 'preheader', raw: input.preheader, visible: input.preheader });
+    if (input.bodyHtml?.trim()) {
+        fields.push({ field: 'body_html', raw: input.bodyHtml, visible: maskMarkup(input.bodyHtml) });
+    } else if (input.bodyText?.trim()) {
+        // Text-only step: the plain-text part is the body.
+        fields.push({ field: 'body_text', raw: input.bodyText, visible: input.bodyText.replace(/\{\{[^}]*\}\}/g, m => ' '.repeat(m.length)) });
+    }
+    return fields;
+}
+
+// ─── Checks ──────────────────────────────────────────────────────────────────
+
+function checkPhrases(fields: FieldText[], findings: ContentFinding[]): void {
+    const seen = new Set<string>();
+    for (const { field, raw, visible } of fields) {
+        const lower = visible.toLowerCase();
+        for (const phrase of SPAM_PHRASES) {
+            const re = new RegExp(`(?<![a-z0-9])${escapeRegExp(phrase)}(?![a-z0-9])`, 'g');
+            let m: RegExpExecArray | null;
+            while ((m = re.exec(lower)) !== null) {
+                const first = !seen.has(phrase);
+                seen.add(phrase);
+                findings.push({
+                    code: 'spam_phrase',
+                    severity: 'warning',
+                    points: first ? (field === 'subject' ? SUBJECT_PHRASE_POINTS : CONTENT_FINDING_POINTS.spam_phrase) : 0,
+                    message: `Spam-trigger phrase "${phrase}"`,
+                    field,
+                    line: lineAt(raw, m.index),
+                    excerpt: excerptAt(field === 'body_html' ? visible : raw, m.index, phrase.length),
+                });
+            }
+        }
+    }
+}
+
+function checkCaps(fields: FieldText[], findings: ContentFinding[]): void {
+    const capsWordRe = new RegExp(`\\b[A-Z]{${CAPS_WORD_MIN_LETTERS},}\\b`, 'g');
+    for (const { field, raw, visible } of fields) {
+        const letters = visible.match(/[A-Za-z]/g) || [];
+        const upper = letters.filter(c => c >= 'A' && c <= 'Z').length;
+        const ratio = letters.length ? upper / letters.length : 0;
+        const capsWords = Array.from(visible.matchAll(capsWordRe));
+
+        const isHeader = field === 'subject' || field === 'preheader';
+        const shouting = isHeader
+            ? (letters.length >= 10 && ratio > SUBJECT_CAPS_RATIO) || capsWords.length >= 2
+            : (letters.length >= 40 && ratio > BODY_CAPS_RATIO) || capsWords.length >= BODY_CAPS_WORDS;
+        if (!shouting) continue;
+
+        const at = capsWords[0]?.index ?? visible.search(/[A-Z]/);
+        findings.push({
+            code: 'excessive_caps',
+            severity: 'warning',
+            points: CONTENT_FINDING_POINTS.excessive_caps,
+            message: `Excessive capitals (${Math.round(ratio * 100)}% uppercase, ${capsWords.length} all-caps word${capsWords.length === 1 ? '' : 's'})`,
+            field,
+            line: lineAt(raw, Math.max(0, at)),
+            excerpt: excerptAt(field === 'body_html' ? visible : raw, Math.max(0, at), capsWords[0]?.[0].length ?? 0),
+        });
+    }
+}
+
+function checkPunctuation(fields: FieldText[], findings: ContentFinding[]): void {
+    let scored = false;
+    const flag = (f: FieldText, index: number, length: number, message: string) => {
+        findings.push({
+            code: 'excessive_punctuation',
+            severity: 'warning',
+            points: scored ? 0 : CONTENT_FINDING_POINTS.excessive_punctuation,
+            message,
+            field: f.field,
+            line: lineAt(f.raw, index),
+            excerpt: excerptAt(f.field === 'body_html' ? f.visible : f.raw, index, length),
+        });
+        scored = true;
+    };
+    for (const f of fields) {
+        for (const m of f.visible.matchAll(/[!?]{2,}|\${2,}/g)) {
+            flag(f, m.index ?? 0, m[0].length, `Repeated punctuation "${m[0]}"`);
+        }
+        if (f.field === 'subject' && !/[!?]{2,}/.test(f.visible) && (f.visible.match(/!/g) || []).length >= 2) {
+            flag(f, f.visible.indexOf('!'), 1, 'Several exclamation marks in the subject');
+        }
+    }
+}
+
+function collectLinks(fields: FieldText[]): { links: ContentLink[]; anchors: Array<ContentLink & { text: string }>; images: number[] } {
+    const links: ContentLink[] = [];
+    const anchors: Array<ContentLink & { text: string }> = [];
+    const images: number[] = [];
+    for (const { field, raw } of fields) {
+        if (field === 'body_html') {
+            for (const m of raw.matchAll(/<a\b[^>]*?\bhref\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a\s*>/gi)) {
+                const host = hostOf(m[2]);
+                if (!host) continue;
+                const link = { href: m[2].trim(), host, field, line: lineAt(raw, m.index ?? 0), excerpt: excerptAt(raw, m.index ?? 0, m[0].length) };
+                links.push(link);
+                anchors.push({ ...link, text: maskMarkup(m[3]).replace(/\s+/g, ' ').trim() });
+            }
+            for (const m of raw.matchAll(/<img\b[^>]*>/gi)) images.push(m.index ?? 0);
+        } else if (field === 'body_text') {
+            for (const m of raw.matchAll(/\bhttps?:\/\/[^\s<>"')\]]+/gi)) {
+                const host = hostOf(m[0]);
+                if (!host) continue;
+                links.push({ href: m[0], host, field, line: lineAt(raw, m.index ?? 0), excerpt: excerptAt(raw, m.index ?? 0, m[0].length) });
+            }
+        }
+    }
+    return { links, anchors, images };
+}
+
+function checkLinks(input: ContentInput, fields: FieldText[], findings: ContentFinding[]): ContentLink[] {
+    const body = fields.find(f => f.field === 'body_html' || f.field === 'body_text');
+    const { links, anchors, images } = collectLinks(fields);
+    const words = body ? countWords(body.visible) : 0;
+
+    if (body && links.length > 0 && words / links.length < WORDS_PER_LINK) {
+        findings.push({
+            code: 'link_text_ratio',
+            severity: 'warning',
+            points: CONTENT_FINDING_POINTS.link_text_ratio,
+            message: `${links.length} link${links.length === 1 ? '' : 's'} for ${words} words of text - aim for at least ${WORDS_PER_LINK} words per link`,
+            field: body.field,
+            line: links[0].line,
+            excerpt: links[0].excerpt,
+        });
+    }
+
+    if (body?.field === 'body_html' && images.length > 0 && words < IMAGE_ONLY_MAX_WORDS) {
+        findings.push({
+            code: 'image_only',
+            severity: 'error',
+            points: CONTENT_FINDING_POINTS.image_only,
+            message: `Body is ${images.length} image${images.length === 1 ? '' : 's'} with ${words} words of text - filters treat image-only mail as spam`,
+            field: 'body_html',
+            line: lineAt(body.raw, images[0]),
+            excerpt: excerptAt(body.raw, images[0], 0),
+        });
+    }
+
+    for (const link of links) {
+        if (!URL_SHORTENERS.has(link.host)) continue;
+        findings.push({
+            code: 'url_shortener',
+            severity: 'error',
+            points: CONTENT_FINDING_POINTS.url_shortener,
+            message: `URL shortener ${link.host} hides the destination - link the real URL`,
+            field: link.field,
+            line: link.line,
+            excerpt: link.excerpt,
+        });
+    }
+
+    for (const anchor of anchors) {
+        const shown = anchor.text.match(/^(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?:[/?#]\S*)?$/i);
+        if (!shown) continue;
+        const shownHost = shown[1].toLowerCase().replace(/^www\./, '');
+        if (sameSite(shownHost, anchor.host)) continue;
+        findings.push({
+            code: 'mismatched_link_text',
+            severity: 'error',
+            points: CONTENT_FINDING_POINTS.mismatched_link_text,
+            message: `Link text shows ${shownHost} but points to ${anchor.host}`,
+            field: anchor.field,
+            line: anchor.line,
+            excerpt: anchor.excerpt,
+        });
+    }
+
+    if (input.bodyHtml?.trim() && !input.bodyText?.trim()) {
+        findings.push({
+            code: 'missing_plain_text',
+            severity: 'warning',
+            points: CONTENT_FINDING_POINTS.missing_plain_text,
+            message: 'No plain-text version - HTML-only mail scores worse with content filters',
+            field: 'body_text',
+            line: 1,
+            excerpt: '',
+        });
+    }
+
+    return links;
+}
+
+function inspect(input: ContentInput): { findings: ContentFinding[]; links: ContentLink[] } {
+    const fields = fieldTexts(input);
+    const findings: ContentFinding[] = [];
+    checkPhrases(fields, findings);
+    checkCaps(fields, findings);
+    checkPunctuation(fields, findings);
+    const links = checkLinks(input, fields, findings);
+    return { findings, links };
+}
+
+export function levelForScore(score: number): ContentSpamLevel {
+    if (score >= HIGH_SCORE) return 'high';
+    if (score >= MEDIUM_SCORE) return 'medium';
+    return 'low';
+}
+
+function finalize(findings: ContentFinding[]): ContentScore {
+    const byCode = new Map<ContentFindingCode, number>();
+    for (const f of findings) byCode.set(f.code, (byCode.get(f.code) ?? 0) + f.points);
+    let total = 0;
+    for (const [code, points] of byCode) total += Math.min(points, CODE_POINT_CAPS[code] ?? Infinity);
+    const score = Math.min(100, total);
+    const sorted = [...findings].sort((a, b) =>
+        FIELD_ORDER.indexOf(a.field) - FIELD_ORDER.indexOf(b.field) || a.line - b.line);
+    return { score, level: levelForScore(score), findings: sorted };
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Score content with the local heuristics only (no DNS). Pure - used by the
+ * tests and as the first half of scoreContent.
+ */
+export function analyzeContent(input: ContentInput): ContentScore {
+    return finalize(inspect(input).findings);
+}
+
+/**
+ * Distinct http(s) link hosts in the content (www. stripped) - anchors in the
+ * HTML body, bare URLs in a text-only body.
+ */
+export function linkDomains(input: ContentInput): string[] {
+    return Array.from(new Set(collectLinks(fieldTexts(input)).links.map(l => l.host)));
+}
+
+const linkDomainCache = new Map<string, { listedOn: string[]; checkedAt: number }>();
+
+/** Link domains listed on a URI DNSBL, with the list names. Cached per domain. */
+async function listedLinkDomains(domains: string[]): Promise<Map<string, string[]>> {
+    const listed = new Map<string, string[]>();
+    if (domains.length === 0) return listed;
+
+    const now = Date.now();
+    const stale = domains.filter(d => {
+        const hit = linkDomainCache.get(d);
+        return !hit || now - hit.checkedAt > LINK_DOMAIN_CACHE_TTL_MS;
+    });
+    if (stale.length > 0) {
+        const lists = await dnsblService.getUriLists();
+        await Promise.all(stale.map(async domain => {
+            try {
+                const results = await dnsblService.checkLinkDomainBlacklists(domain, lists);
+                linkDomainCache.set(domain, {
+                    listedOn: results.filter(r => r.status === 'CONFIRMED').map(r => r.listName),
+                    checkedAt: now,
+                });
+            } catch (err) {
+                logger.warn('[CONTENT_SPAM] Link domain lookup failed', { domain, error: err instanceof Error ? err.message : String(err) });
+            }
+        }));
+    }
+
+    for (const domain of domains) {
+        const hit = linkDomainCache.get(domain);
+        if (hit && hit.listedOn.length > 0) listed.set(domain, hit.listedOn);
+    }
+    return listed;
+}
+
+export function clearLinkDomainCache(): void {
+    linkDomainCache.clear();
+}
+
+/**
+ * Full score: the local heuristics plus a URI-DNSBL lookup of every link
+ * domain. A lookup failure drops that domain's check, not the score.
+ */
+export async function scoreContent(input: ContentInput): Promise<ContentScore> {
+    const { findings, links } = inspect(input);
+    const listed = await listedLinkDomains(Array.from(new Set(links.map(l => l.host))));
+    const scoredDomains = new Set<string>();
+    for (const link of links) {
+        const lists = listed.get(link.host);
+        if (!lists) continue;
+        findings.push({
+            code: 'blocklisted_link',
+            severity: 'error',
+            points: scoredDomains.has(link.host) ? 0 : CONTENT_FINDING_POINTS.blocklisted_link,
+            message: `${link.host} is listed on ${lists.join(', ')}`,
+            field: link.field,
+            line: link.line,
+            excerpt: link.excerpt,
+        });
+        scoredDomains.add(link.host);
+    }
+    return finalize(findings);
+}
+
+export interface VariantContentScore extends ContentScore {
+    variant_id: string;
+    variant_label: string;
+}
+
+export interface StepContentScore extends ContentScore {
+    step_id: string;
+    step_number: number;
+    /** Empty when the step has no A/B variants - the step content is what sends. */
+    variants: VariantContentScore[];
+    over_threshold: boolean;
+}
+
+export interface CampaignContentReport {
+    campaign_id: string;
+    threshold: number | null;
+    max_score: number;
+    blocked: boolean;
+    steps: StepContentScore[];
+}
+
+/**
+ * Score every email step of a campaign. With variants the step takes its
+ * worst variant's score and findings - the dispatcher sends variant content,
+ * not the step's own, whenever variants exist.
+ */
+export async function scoreCampaign(orgId: string, campaignId: string): Promise<CampaignContentReport> {
+    const campaign = await prisma.campaign.findFirst({
+        where: { id: campaignId, organization_id: orgId },
+        select: { id: true },
+    });
+    if (!campaign) throw new AppError('Campaign not found', 404);
+
+    const [steps, settings] = await Promise.all([
+        prisma.sequenceStep.findMany({
+            where: { campaign_id: campaignId, step_type: 'email' },
+            orderBy: { step_number: 'asc' },
+            select: {
+                id: true, step_number: true, subject: true, preheader: true, body_html: true, body_text: true,
+                variants: {
+                    orderBy: { variant_label: 'asc' },
+                    select: { id: true, variant_label: true, subject: true, preheader: true, body_html: true, body_text: true },
+                },
+            },
+        }),
+        getSequencerSettings(orgId),
+    ]);
+    const threshold = settings.content_spam_threshold;
+
+    const scored: StepContentScore[] = [];
+    for (const step of steps) {
+        const variants: VariantContentScore[] = [];
+        for (const v of step.variants) {
+            const result = await scoreContent({
+                subject: v.subject,
+                preheader: v.preheader || step.preheader,
+                bodyHtml: v.body_html,
+                bodyText: v.body_text,
+            });
+            variants.push({ variant_id: v.id, variant_label: v.variant_label, ...result });
+        }
+        const worst: ContentScore = variants.length > 0
+            ? variants.reduce((a, b) => (b.score > a.score ? b : a))
+            : await scoreContent({ subject: step.subject, preheader: step.preheader, bodyHtml: step.body_html, bodyText: step.body_text });
+        scored.push({
+            step_id: step.id,
+            step_number: step.step_number,
+            score: worst.score,
+            level: worst.level,
+            findings: worst.findings,
+            variants,
+            over_threshold: threshold !== null && worst.score > threshold,
+        });
+    }
+
+    return {
+        campaign_id: campaignId,
+        threshold,
+        max_score: scored.reduce((max, s) => Math.max(max, s.score), 0),
+        blocked: scored.some(s => s.over_threshold),
+        steps: scored,
+    };
+}
+
+/**
+ * Score a saved template.
+ */
+export async function scoreTemplate(orgId: string, templateId: string): Promise<ContentScore & { template_id: string }> {
+    const template = await prisma.emailTemplate.findFirst({
+        where: { id: templateId, organization_id: orgId },
+        select: { id: true, subject: true, preheader: true, body_html: true, body_text: true },
+    });
+    if (!template) throw new AppError('Template not found', 404);
+
+    const result = await scoreContent({
+        subject: template.subject,
+        preheader: template.preheader,
+        bodyHtml: template.body_html,
+        bodyText: template.body_text,
+    });
+    return { template_id: template.id, ...result };
+}
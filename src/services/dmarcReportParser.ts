@@ -0,0 +1,233 @@
+/**
+ * DMARC aggregate (RUA) report parser - RFC 7489 Appendix C.
+ *
+ * Receivers (Google, Microsoft, Yahoo, ...) mail a daily XML summary to the
+ * domain's `rua=` address, usually as a .xml.gz or .zip attachment. Each
+ * <record> is one (source IP, header-from, evaluated result) row with a
+ * message count. We need the DMARC-aligned SPF / DKIM verdicts
+ * (<policy_evaluated>) per source IP; the raw <auth_results> are kept only
+ * for display.
+ *
+ * Like dsnParser / arfParser this avoids pulling in a MIME, XML or zip
+ * library: the aggregate schema is flat and fixed, attachments are base64
+ * parts we can slice out, and zlib handles both gzip and zip's deflate.
+ */
+
+import zlib from 'zlib';
+
+export interface DmarcRecord {
+    sourceIp: string;
+    count: number;
+    headerFrom: string;
+    disposition: string;
+    /** DMARC-aligned DKIM verdict (policy_evaluated) */
+    dkimAligned: boolean;
+    /** DMARC-aligned SPF verdict (policy_evaluated) */
+    spfAligned: boolean;
+    /** auth_results summaries, e.g. "example.com:pass" */
+    dkimResults: string[];
+    spfResults: string[];
+}
+
+export interface DmarcAggregateReport {
+    orgName: string;
+    reporterEmail?: string;
+    reportId: string;
+    dateBegin: Date;
+    dateEnd: Date;
+    domain: string;
+    policy?: string;
+    subdomainPolicy?: string;
+    pct?: number;
+    records: DmarcRecord[];
+}
+
+const MAX_DECOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+const REPORT_SUBJECT_RE = /^subject:[^\r\n]*report[ -]domain:/im;
+const ATTACHMENT_CT_RE = /content-type:\s*(?:application\/(?:x-)?gzip|application\/(?:x-)?zip(?:-compressed)?|application\/xml|text\/xml|application\/octet-stream)/i;
+const REPORT_FILENAME_RE = /name\s*=\s*"?[^"\r\n;]*\.(?:xml|xml\.gz|gz|zip)"?/i;
+
+// ─── XML ─────────────────────────────────────────────────────────────────────
+
+function decodeEntities(s: string): string {
+    return s
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+/** Text of the first <tag>…</tag> inside `xml` (namespace prefixes tolerated). */
+function tag(xml: string, name: string): string | undefined {
+    const match = xml.match(new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`, 'i'));
+    return match ? decodeEntities(match[1].trim()) : undefined;
+}
+
+/** Every <tag>…</tag> block inside `xml`. */
+function tags(xml: string, name: string): string[] {
+    const re = new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`, 'gi');
+    return [...xml.matchAll(re)].map(m => m[1]);
+}
+
+function epoch(value: string | undefined): Date | null {
+    const n = Number(value);
+    return value && Number.isFinite(n) ? new Date(n * 1000) : null;
+}
+
+/**
+ * Parse aggregate report XML. Returns null when the document isn't a DMARC
+ * aggregate report (no <feedback>, no report_id or no policy domain).
+ */
+export function parseAggregateReport(xml: string): DmarcAggregateReport | null {
+    const feedback = tag(xml, 'feedback') ?? null;
+    if (!feedback) return null;
+
+    const metadata = tag(feedback, 'report_metadata') ?? '';
+    const policy = tag(feedback, 'policy_published') ?? '';
+    const reportId = tag(metadata, 'report_id');
+    const domain = tag(policy, 'domain')?.toLowerCase();
+    const range = tag(metadata, 'date_range') ?? '';
+    const dateBegin = epoch(tag(range, 'begin'));
+    const dateEnd = epoch(tag(range, 'end'));
+    if (!reportId || !domain || !dateBegin || !dateEnd) return null;
+
+    const pct = Number(tag(policy, 'pct'));
+    const records: DmarcRecord[] = [];
+    for (const record of tags(feedback, 'record')) {
+        const row = tag(record, 'row') ?? '';
+        const evaluated = tag(row, 'policy_evaluated') ?? '';
+        const sourceIp = tag(row, 'source_ip');
+        const count = Number(tag(row, 'count'));
+        if (!sourceIp || !Number.isFinite(count)) continue;
+        const auth = tag(record, 'auth_results') ?? '';
+        const summarize = (block: string) => `${tag(block, 'domain') ?? '?'}:${(tag(block, 'result') ?? 'none').toLowerCase()}`;
+        records.push({
+            sourceIp,
+            count,
+            headerFrom: (tag(tag(record, 'identifiers') ?? '', 'header_from') ?? domain).toLowerCase(),
+            disposition: (tag(evaluated, 'disposition') ?? 'none').toLowerCase(),
+            dkimAligned: tag(evaluated, 'dkim')?.toLowerCase() === 'pass',
+            spfAligned: tag(evaluated, 'spf')?.toLowerCase() === 'pass',
+            dkimResults: tags(auth, 'dkim').map(summarize),
+            spfResults: tags(auth, 'spf').map(summarize),
+        });
+    }
+
+    return {
+        orgName: tag(metadata, 'org_name') ?? 'unknown',
+        reporterEmail: tag(metadata, 'email'),
+        reportId,
+        dateBegin,
+        dateEnd,
+        domain,
+        policy: tag(policy, 'p')?.toLowerCase(),
+        subdomainPolicy: tag(policy, 'sp')?.toLowerCase(),
+        pct: Number.isFinite(pct) && tag(policy, 'pct') !== undefined ? pct : undefined,
+        records,
+    };
+}
+
+// ─── Compressed files ────────────────────────────────────────────────────────
+
+/** First .xml entry of a zip archive, read via the central directory. */
+function unzipFirstXml(buf: Buffer): Buffer | null {
+    // End of central directory: scan back over the (≤64KB) trailing comment.
+    let eocd = -1;
+    for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+        if (buf.readUInt32LE(i) === 0x06054b50) { eocd = i; break; }
+    }
+    if (eocd < 0) return null;
+
+    const entries = buf.readUInt16LE(eocd + 10);
+    let offset = buf.readUInt32LE(eocd + 16);
+    for (let n = 0; n < entries && offset + 46 <= buf.length; n++) {
+        if (buf.readUInt32LE(offset) !== 0x02014b50) return null;
+        const method = buf.readUInt16LE(offset + 10);
+        const compressedSize = buf.readUInt32LE(offset + 20);
+        const nameLen = buf.readUInt16LE(offset + 28);
+        const extraLen = buf.readUInt16LE(offset + 30);
+        const commentLen = buf.readUInt16LE(offset + 32);
+        const localOffset = buf.readUInt32LE(offset + 42);
+        const name = buf.subarray(offset + 46, offset + 46 + nameLen).toString('utf8');
+        offset += 46 + nameLen + extraLen + commentLen;
+        if (!/\.xml$/i.test(name)) continue;
+
+        const dataStart = localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28);
+        const data = buf.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) return data;
+        if (method === 8) return zlib.inflateRawSync(data, { maxOutputLength: MAX_DECOMPRESSED_BYTES });
+        return null;
+    }
+    return null;
+}
+
+/**
+ * Report file → XML text. Sniffs gzip (1f 8b) and zip (PK\3\4) by magic
+ * bytes because senders label attachments inconsistently.
+ */
+export function decodeReportFile(buf: Buffer): string | null {
+    if (buf.length >= 2 && buf[0] === 0x1f && buf[1] === 0x8b) {
+        return zlib.gunzipSync(buf, { maxOutputLength: MAX_DECOMPRESSED_BYTES }).toString('utf8');
+    }
+    if (buf.length >= 4 && buf.readUInt32LE(0) === 0x04034b50) {
+        return unzipFirstXml(buf)?.toString('utf8') ?? null;
+    }
+    const text = buf.toString('utf8');
+    return /<feedback[\s>]/i.test(text) ? text : null;
+}
+
+// ─── Email wrapper ───────────────────────────────────────────────────────────
+
+/**
+ * Does this raw email look like a DMARC aggregate report? RFC 7489 §7.2.1.1
+ * fixes the subject ("Report Domain: … Submitter: … Report-ID: …"); some
+ * receivers deviate, so an attachment following the §7.2.1.1 filename
+ * convention (receiver!policy-domain!begin!end.xml.gz) counts too.
+ */
+export function isDmarcReportEmail(raw: string): boolean {
+    if (!raw) return false;
+    const headers = raw.slice(0, 16 * 1024);
+    if (REPORT_SUBJECT_RE.test(headers)) return true;
+    return ATTACHMENT_CT_RE.test(raw) && /name\s*=\s*"?[^"\r\n;]*![^"\r\n;]*\.(?:xml|xml\.gz|zip)/i.test(raw);
+}
+
+/**
+ * Base64 attachment payloads of a raw email that could be reports (by
+ * Content-Type or filename). Decoded but not decompressed.
+ */
+export function extractReportAttachments(raw: string): Buffer[] {
+    const out: Buffer[] = [];
+    const parts = raw.split(/\r?\n--[^\r\n]+\r?\n/);
+    for (const part of parts) {
+        const headerEnd = part.search(/\r?\n\r?\n/);
+        if (headerEnd < 0) continue;
+        const headers = part.slice(0, headerEnd).replace(/\r?\n[ \t]+/g, ' ');
+        if (!ATTACHMENT_CT_RE.test(headers) && !REPORT_FILENAME_RE.test(headers)) continue;
+        const body = part.slice(headerEnd).replace(/\r?\n--[^\r\n]*--\s*$/, '');
+        if (/content-transfer-encoding:\s*base64/i.test(headers)) {
+            out.push(Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64'));
+        } else {
+            out.push(Buffer.from(body.trim(), 'utf8'));
+        }
+    }
+    return out;
+}
+
+/**
+ * Every aggregate report in an upload: a bare XML / .gz / .zip file, or a
+ * whole email with report attachments.
+ */
+export function parseReportPayload(buf: Buffer): DmarcAggregateReport[] {
+    const direct = decodeReportFile(buf);
+    if (direct) {
+        const report = parseAggregateReport(direct);
+        return report ? [report] : [];
+    }
+    const reports: DmarcAggregateReport[] = [];
+    for (const attachment of extractReportAttachments(buf.toString('utf8'))) {
+        const xml = decodeReportFile(attachment);
+        const report = xml ? parseAggregateReport(xml) : null;
+        if (report) reports.push(report);
+    }
+    return reports;
+}
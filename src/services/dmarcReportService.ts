@@ -0,0 +1,371 @@
+/**
+ * DMARC Report Service
+ *
+ * Stores DMARC aggregate (RUA) reports and turns them into per-domain,
+ * per-source-IP authentication results. checkDMARC only tells us a policy
+ * is published; these reports tell us what receivers actually saw.
+ *
+ * Reports arrive from a mailbox the IMAP worker watches (the rua= address
+ * points at a connected mailbox) or from POST /api/infrastructure/dmarc-reports.
+ * Only reports for domains the organization owns are kept.
+ *
+ * Source classification over the lookback window:
+ *   - authorized:   the IP passed DMARC (aligned SPF or DKIM) at least once,
+ *                   or is a known sending IP of one of the domain's mailboxes
+ *   - unauthorized: never passed and not ours - someone else sending as us
+ * Failures from authorized sources are misalignment we can fix (wrong
+ * envelope domain, missing DKIM signature); unauthorized volume is spoofing.
+ * assessDomainAuth turns both into findings + a score penalty for the
+ * infrastructure assessment.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+import { AppError } from '../utils/appError';
+import { parseReportPayload, DmarcAggregateReport } from './dmarcReportParser';
+
+export const DMARC_LOOKBACK_DAYS = 30;
+/** Below this many reported messages a domain's pass rate isn't judged. */
+export const DMARC_MIN_MESSAGES = 20;
+/** DMARC pass rate of authorized sources below which a domain is misaligned. */
+export const DMARC_PASS_RATE_WARNING = 0.98;
+export const DMARC_PASS_RATE_CRITICAL = 0.9;
+
+const MAX_PAYLOAD_BYTES = 20 * 1024 * 1024;
+
+export type DmarcSource = 'imap' | 'upload';
+
+export interface IngestedReport {
+    reportId: string;
+    orgName: string;
+    domain: string;
+    status: 'stored' | 'duplicate' | 'unknown_domain';
+    messages: number;
+}
+
+export interface AuthRecordRow {
+    domain_id: string;
+    source_ip: string;
+    count: number;
+    spf_aligned: boolean;
+    dkim_aligned: boolean;
+    disposition: string;
+}
+
+export interface SourceSummary {
+    sourceIp: string;
+    messages: number;
+    spfAligned: number;
+    dkimAligned: number;
+    dmarcPass: number;
+    quarantined: number;
+    rejected: number;
+    authorized: boolean;
+}
+
+export interface DomainAuthSummary {
+    domainId: string;
+    messages: number;
+    dmarcPass: number;
+    /** DMARC pass rate of authorized sources only - what we can fix */
+    authorizedPassRate: number | null;
+    unauthorizedMessages: number;
+    sources: SourceSummary[];
+}
+
+export interface DmarcAuthFinding {
+    severity: 'critical' | 'warning' | 'info';
+    title: string;
+    details: string;
+    message: string;
+    remediation: string;
+}
+
+// ─── Ingestion ───────────────────────────────────────────────────────────────
+
+async function storeReport(orgId: string, domainId: string, report: DmarcAggregateReport, source: DmarcSource) {
+    const messages = report.records.reduce((sum, r) => sum + r.count, 0);
+    await prisma.dmarcReport.create({
+        data: {
+            organization_id: orgId,
+            domain_id: domainId,
+            org_name: report.orgName.slice(0, 255),
+            reporter_email: report.reporterEmail?.slice(0, 255) ?? null,
+            report_id: report.reportId.slice(0, 255),
+            date_begin: report.dateBegin,
+            date_end: report.dateEnd,
+            policy: report.policy ?? null,
+            subdomain_policy: report.subdomainPolicy ?? null,
+            pct: report.pct ?? null,
+            source,
+            message_count: messages,
+            records: {
+                create: report.records.map(r => ({
+                    organization_id: orgId,
+                    domain_id: domainId,
+                    source_ip: r.sourceIp,
+                    header_from: r.headerFrom,
+                    count: r.count,
+                    disposition: r.disposition,
+                    dkim_aligned: r.dkimAligned,
+                    spf_aligned: r.spfAligned,
+                    dkim_results: r.dkimResults.slice(0, 10),
+                    spf_results: r.spfResults.slice(0, 10),
+                    date_begin: report.dateBegin,
+                })),
+            },
+        },
+    });
+    return messages;
+}
+
+/**
+ * Ingest every aggregate report in `payload` - a bare .xml / .xml.gz / .zip
+ * or a whole report email. Throws AppError(400) if nothing parseable is in
+ * it; per-report outcomes (stored, duplicate, not our domain) are returned.
+ */
+export async function ingestDmarcPayload(orgId: string, payload: Buffer, source: DmarcSource): Promise<IngestedReport[]> {
+    if (!payload.length || payload.length > MAX_PAYLOAD_BYTES) {
+        throw new AppError('Report must be a DMARC aggregate XML, .gz or .zip file under 20MB', 400);
+    }
+    let reports: DmarcAggregateReport[];
+    try {
+        reports = parseReportPayload(payload);
+    } catch (err) {
+        // zlib on a truncated / corrupt archive
+        throw new AppError(`Could not decompress report: ${(err as Error).message}`, 400);
+    }
+    if (reports.length === 0) throw new AppError('No DMARC aggregate report found in payload', 400);
+
+    const domains = await prisma.domain.findMany({
+        where: { organization_id: orgId, domain: { in: reports.map(r => r.domain) } },
+        select: { id: true, domain: true },
+    });
+    const domainIds = new Map(domains.map(d => [d.domain.toLowerCase(), d.id]));
+
+    const results: IngestedReport[] = [];
+    for (const report of reports) {
+        const base = { reportId: report.reportId, orgName: report.orgName, domain: report.domain };
+        const domainId = domainIds.get(report.domain);
+        if (!domainId) {
+            results.push({ ...base, status: 'unknown_domain', messages: 0 });
+            continue;
+        }
+        try {
+            const messages = await storeReport(orgId, domainId, report, source);
+            results.push({ ...base, status: 'stored', messages });
+        } catch (err) {
+            // Receivers resend; the same report can also arrive by mail and upload.
+            if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+                results.push({ ...base, status: 'duplicate', messages: 0 });
+                continue;
+            }
+            throw err;
+        }
+    }
+
+    logger.info('[DMARC] Aggregate reports ingested', {
+        orgId,
+        source,
+        stored: results.filter(r => r.status === 'stored').length,
+        skipped: results.filter(r => r.status !== 'stored').length,
+    });
+    return results;
+}
+
+// ─── Aggregation ─────────────────────────────────────────────────────────────
+
+/**
+ * Fold report rows into per-domain, per-source-IP summaries. `knownIps` maps
+ * domain id → sending IPs of its own mailboxes (authorized even when every
+ * message from them failed).
+ */
+export function summarizeAuthRecords(
+    rows: AuthRecordRow[],
+    knownIps: Map<string, Set<string>> = new Map(),
+): Map<string, DomainAuthSummary> {
+    const byDomain = new Map<string, Map<string, SourceSummary>>();
+    for (const row of rows) {
+        let sources = byDomain.get(row.domain_id);
+        if (!sources) byDomain.set(row.domain_id, sources = new Map());
+        let s = sources.get(row.source_ip);
+        if (!s) {
+            s = { sourceIp: row.source_ip, messages: 0, spfAligned: 0, dkimAligned: 0, dmarcPass: 0, quarantined: 0, rejected: 0, authorized: false };
+            sources.set(row.source_ip, s);
+        }
+        s.messages += row.count;
+        if (row.spf_aligned) s.spfAligned += row.count;
+        if (row.dkim_aligned) s.dkimAligned += row.count;
+        if (row.spf_aligned || row.dkim_aligned) s.dmarcPass += row.count;
+        if (row.disposition === 'quarantine') s.quarantined += row.count;
+        if (row.disposition === 'reject') s.rejected += row.count;
+    }
+
+    const out = new Map<string, DomainAuthSummary>();
+    for (const [domainId, sourceMap] of byDomain) {
+        const known = knownIps.get(domainId);
+        const sources = [...sourceMap.values()].sort((a, b) => b.messages - a.messages);
+        let messages = 0, dmarcPass = 0, authorizedMessages = 0, authorizedPass = 0, unauthorizedMessages = 0;
+        for (const s of sources) {
+            s.authorized = s.dmarcPass > 0 || !!known?.has(s.sourceIp);
+            messages += s.messages;
+            dmarcPass += s.dmarcPass;
+            if (s.authorized) {
+                authorizedMessages += s.messages;
+                authorizedPass += s.dmarcPass;
+            } else {
+                unauthorizedMessages += s.messages;
+            }
+        }
+        out.set(domainId, {
+            domainId,
+            messages,
+            dmarcPass,
+            authorizedPassRate: authorizedMessages > 0 ? authorizedPass / authorizedMessages : null,
+            unauthorizedMessages,
+            sources,
+        });
+    }
+    return out;
+}
+
+/** Per-domain summaries for an org over the last `days` of reports. */
+export async function getDomainAuthSummaries(
+    orgId: string,
+    opts: { days?: number; domainId?: string } = {},
+): Promise<Map<string, DomainAuthSummary>> {
+    const since = new Date(Date.now() - (opts.days ?? DMARC_LOOKBACK_DAYS) * 24 * 60 * 60 * 1000);
+    const [rows, mailboxes] = await Promise.all([
+        prisma.dmarcRecord.groupBy({
+            by: ['domain_id', 'source_ip', 'spf_aligned', 'dkim_aligned', 'disposition'],
+            where: { organization_id: orgId, date_begin: { gte: since }, ...(opts.domainId && { domain_id: opts.domainId }) },
+            _sum: { count: true },
+        }),
+        prisma.mailbox.findMany({
+            where: { organization_id: orgId, sending_ip: { not: null }, ...(opts.domainId && { domain_id: opts.domainId }) },
+            select: { domain_id: true, sending_ip: true },
+        }),
+    ]);
+
+    const knownIps = new Map<string, Set<string>>();
+    for (const m of mailboxes) {
+        if (!m.domain_id || !m.sending_ip) continue;
+        if (!knownIps.has(m.domain_id)) knownIps.set(m.domain_id, new Set());
+        knownIps.get(m.domain_id)!.add(m.sending_ip);
+    }
+    return summarizeAuthRecords(
+        rows.map(r => ({ ...r, count: r._sum.count ?? 0 })),
+        knownIps,
+    );
+}
+
+/**
+ * Alignment dashboard: every domain with report data, its pass rates and
+ * sources, plus the reports that fed it.
+ */
+export async function getAlignmentDashboard(orgId: string, opts: { days?: number; domainId?: string } = {}) {
+    const days = Math.min(Math.max(1, opts.days ?? DMARC_LOOKBACK_DAYS), 365);
+    const summaries = await getDomainAuthSummaries(orgId, { days, domainId: opts.domainId });
+    const domains = await prisma.domain.findMany({
+        where: { organization_id: orgId, id: { in: [...summaries.keys()] } },
+        select: { id: true, domain: true, dmarc_policy: true },
+    });
+    const reportCounts = await prisma.dmarcReport.groupBy({
+        by: ['domain_id'],
+        where: {
+            organization_id: orgId,
+            date_begin: { gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) },
+            domain_id: { in: [...summaries.keys()] },
+        },
+        _count: { _all: true },
+        _max: { date_end: true },
+    });
+    const reportsByDomain = new Map(reportCounts.map(r => [r.domain_id, r]));
+
+    return {
+        days,
+        domains: domains.map(d => {
+            const s = summaries.get(d.id)!;
+            const reports = reportsByDomain.get(d.id);
+            return {
+                domain_id: d.id,
+                domain: d.domain,
+                dmarc_policy: d.dmarc_policy,
+                reports: reports?._count._all ?? 0,
+                latest_report_end: reports?._max.date_end ?? null,
+                messages: s.messages,
+                dmarc_pass_rate: s.messages > 0 ? s.dmarcPass / s.messages : null,
+                authorized_pass_rate: s.authorizedPassRate,
+                unauthorized_messages: s.unauthorizedMessages,
+                findings: assessDomainAuth(s, d.dmarc_policy).findings,
+                sources: s.sources,
+            };
+        }).sort((a, b) => b.messages - a.messages),
+    };
+}
+
+export async function listReports(orgId: string, opts: { domainId?: string; limit?: number } = {}) {
+    return prisma.dmarcReport.findMany({
+        where: { organization_id: orgId, ...(opts.domainId && { domain_id: opts.domainId }) },
+        orderBy: { date_begin: 'desc' },
+        take: Math.min(Math.max(1, opts.limit ?? 50), 200),
+        include: { domain: { select: { domain: true } } },
+    });
+}
+
+// ─── Assessment ──────────────────────────────────────────────────────────────
+
+function pct(rate: number): string {
+    return `${(rate * 100).toFixed(1)}%`;
+}
+
+/**
+ * Findings and a domain-score penalty from real authentication results.
+ * `policy` is the currently published DMARC p= (spoofing under p=none
+ * reaches inboxes; under quarantine/reject receivers already drop it).
+ */
+export function assessDomainAuth(
+    summary: DomainAuthSummary,
+    policy: string | null,
+): { findings: DmarcAuthFinding[]; penalty: number } {
+    const findings: DmarcAuthFinding[] = [];
+    let penalty = 0;
+    if (summary.messages < DMARC_MIN_MESSAGES) return { findings, penalty };
+
+    const rate = summary.authorizedPassRate;
+    if (rate !== null && rate < DMARC_PASS_RATE_WARNING) {
+        const failing = summary.sources
+            .filter(s => s.authorized && s.dmarcPass < s.messages)
+            .slice(0, 3)
+            .map(s => `${s.sourceIp} (${s.messages - s.dmarcPass}/${s.messages} failed; SPF aligned ${s.spfAligned}, DKIM aligned ${s.dkimAligned})`);
+        const critical = rate < DMARC_PASS_RATE_CRITICAL;
+        penalty += critical ? 15 : 5;
+        findings.push({
+            severity: critical ? 'critical' : 'warning',
+            title: 'DMARC Alignment Failures',
+            details: `Receivers report ${pct(rate)} DMARC pass rate from your own sending sources over the last ${DMARC_LOOKBACK_DAYS} days. Failing: ${failing.join(', ')}.`,
+            message: `${pct(1 - rate)} of mail from authorized sources fails SPF/DKIM alignment at receivers.`,
+            remediation: 'Sign with DKIM using a d= domain that matches the From domain, and make sure the envelope sender (Return-Path) is on the same domain so SPF aligns.',
+        });
+    }
+
+    if (summary.unauthorizedMessages > 0) {
+        const spoofers = summary.sources.filter(s => !s.authorized);
+        const enforcing = policy === 'quarantine' || policy === 'reject';
+        if (!enforcing) penalty += 10;
+        findings.push({
+            severity: enforcing ? 'info' : 'warning',
+            title: 'Unauthorized Senders',
+            details: `${summary.unauthorizedMessages} message(s) from ${spoofers.length} source(s) that never pass SPF or DKIM alignment: ${spoofers.slice(0, 5).map(s => `${s.sourceIp} (${s.messages})`).join(', ')}.`,
+            message: enforcing
+                ? `Spoofed mail is being sent as this domain; receivers are ${policy === 'reject' ? 'rejecting' : 'quarantining'} it.`
+                : 'Spoofed mail is being sent as this domain and the published policy lets it through.',
+            remediation: enforcing
+                ? 'No action required unless one of these sources is a legitimate service - if so, add it to SPF or enable DKIM signing there.'
+                : 'If these sources are not yours, move DMARC to p=quarantine (then p=reject). If one is a legitimate service, authorize it in SPF/DKIM first.',
+        });
+    }
+
+    return { findings, penalty };
+}
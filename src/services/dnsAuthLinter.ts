@@ -0,0 +1,749 @@
+/**
+ * DNS Authentication Linter
+ *
+ * Goes beyond the presence checks in infrastructureAssessmentService
+ * ("is there a v=spf1 record?") and evaluates whether each record actually
+ * works the way receivers will evaluate it:
+ *
+ *   SPF      duplicate records, recursive include / redirect expansion
+ *            against the RFC 7208 §4.6.4 10-lookup and 2-void-lookup limits,
+ *            +all / ?all / missing all, ptr, missing provider include
+ *   DKIM     common + discovered selectors, RSA key length, revoked keys,
+ *            selectors seen signing our mail that aren't published
+ *   DMARC    duplicate records, p / sp / pct, rua presence and RFC 7489 §7.1
+ *            external-destination authorization
+ *   MTA-STS  _mta-sts TXT + policy file mode
+ *   TLS-RPT  _smtp._tls reporting record
+ *   BIMI     default._bimi, which receivers only honour under enforcement
+ *
+ * Every finding carries a severity and, where we can derive it, the exact
+ * TXT record to publish. The linter never throws; DNS failures become
+ * findings. Lookups go through an injected resolver so the assessment can
+ * share its cached resolver and tests can run without DNS.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type LintCheck = 'spf' | 'dkim' | 'dmarc' | 'mta_sts' | 'tls_rpt' | 'bimi';
+export type LintSeverity = 'critical' | 'warning' | 'info';
+
+export interface SuggestedRecord {
+    type: 'TXT';
+    host: string;
+    value: string;
+}
+
+export interface LintFinding {
+    check: LintCheck;
+    /** Stable machine code, e.g. 'spf_too_many_lookups' */
+    code: string;
+    severity: LintSeverity;
+    title: string;
+    details: string;
+    remediation: string;
+    record?: SuggestedRecord;
+}
+
+export interface DkimKeyInfo {
+    selector: string;
+    keyType: string;
+    /** RSA modulus length; null for ed25519 or unparseable keys */
+    bits: number | null;
+    revoked: boolean;
+}
+
+export interface DnsAuthLintResult {
+    domain: string;
+    spf: { record: string; lookups: number; voidLookups: number; all: string | null } | null;
+    dkim: DkimKeyInfo[];
+    dmarc: Record<string, string> | null;
+    mtaStsMode: string | null;
+    tlsRpt: boolean;
+    bimi: boolean;
+    findings: LintFinding[];
+    /** Score deduction on top of the presence penalties in assessDomainDNS */
+    penalty: number;
+}
+
+export interface LintResolver {
+    /** TXT records for a host, each joined from its character-strings. Throws with err.code on failure. */
+    resolveTxt(host: string): Promise<string[]>;
+    /** HTTPS GET returning the body, or null when unreachable. Omit to skip MTA-STS policy fetches. */
+    fetchText?(url: string): Promise<string | null>;
+}
+
+export interface LintContext {
+    /** DKIM selectors to probe (discovered first, then common ones) */
+    selectors: string[];
+    /** Selectors seen in DKIM-Signature headers on our own mail */
+    discoveredSelectors?: string[];
+    /** ConnectedAccount.provider values sending from this domain */
+    providers?: string[];
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const SPF_MAX_LOOKUPS = 10;
+const SPF_MAX_VOID_LOOKUPS = 2;
+const SPF_MAX_DEPTH = 10;
+const DKIM_MIN_BITS = 1024;
+const DKIM_RECOMMENDED_BITS = 2048;
+
+/** SPF include each sending provider publishes its outbound ranges under. */
+export const PROVIDER_SPF_INCLUDES: Record<string, string> = {
+    google: '_spf.google.com',
+    microsoft: 'spf.protection.outlook.com',
+};
+
+/** Findings already scored by the presence checks in assessDomainDNS. */
+const PRESENCE_CODES = new Set(['spf_missing', 'spf_dns_error', 'dkim_missing', 'dmarc_missing', 'dmarc_monitor_only']);
+const PENALTY = { critical: 10, warning: 5, info: 0 } as const;
+const MAX_PENALTY = 25;
+
+const NOT_FOUND_CODES = new Set(['ENODATA', 'ENOTFOUND', 'NXDOMAIN']);
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function isNotFound(err: unknown): boolean {
+    return NOT_FOUND_CODES.has((err as NodeJS.ErrnoException)?.code ?? '');
+}
+
+/** TXT records at `host`; [] when the name or record doesn't exist, null on DNS failure. */
+async function txt(resolver: LintResolver, host: string): Promise<string[] | null> {
+    try {
+        return await resolver.resolveTxt(host);
+    } catch (err) {
+        return isNotFound(err) ? [] : null;
+    }
+}
+
+/** `k=v; k=v` tag list (DKIM / DMARC / MTA-STS / TLS-RPT / BIMI). Keys lowercased. */
+export function parseTags(record: string): Record<string, string> {
+    const tags: Record<string, string> = {};
+    for (const part of record.split(';')) {
+        const eq = part.indexOf('=');
+        if (eq < 0) continue;
+        const key = part.slice(0, eq).trim().toLowerCase();
+        if (key && !(key in tags)) tags[key] = part.slice(eq + 1).trim();
+    }
+    return tags;
+}
+
+function formatTags(tags: Record<string, string>, order: string[]): string {
+    const keys = [...order.filter(k => k in tags), ...Object.keys(tags).filter(k => !order.includes(k))];
+    return keys.map(k => `${k}=${tags[k]}`).join('; ');
+}
+
+// ─── SPF ─────────────────────────────────────────────────────────────────────
+
+const SPF_LOOKUP_MECHANISMS = new Set(['include', 'a', 'mx', 'ptr', 'exists']);
+
+interface SpfTerm {
+    qualifier: string;
+    name: string;
+    value: string | null;
+    modifier: boolean;
+}
+
+function parseSpfTerms(record: string): SpfTerm[] {
+    return record.trim().split(/\s+/).slice(1).filter(Boolean).map(raw => {
+        const modifier = /^[a-z][a-z0-9_.-]*=/i.test(raw);
+        if (modifier) {
+            const eq = raw.indexOf('=');
+            return { qualifier: '', name: raw.slice(0, eq).toLowerCase(), value: raw.slice(eq + 1), modifier };
+        }
+        const qualifier = /^[+\-~?]/.test(raw) ? raw[0] : '';
+        const body = qualifier ? raw.slice(1) : raw;
+        const sep = body.search(/[:/]/);
+        const name = (sep < 0 ? body : body.slice(0, sep)).toLowerCase();
+        const value = sep >= 0 && body[sep] === ':' ? body.slice(sep + 1) : null;
+        return { qualifier, name, value, modifier };
+    });
+}
+
+interface SpfWalk {
+    lookups: number;
+    voidLookups: number;
+    ptr: boolean;
+    /** Every include/redirect target reached, lowercased */
+    targets: Set<string>;
+    /** Lookups charged to each top-level include/redirect */
+    costs: Map<string, number>;
+    failed: string[];
+}
+
+/**
+ * Count DNS-querying terms in `record`, recursing into include: and
+ * redirect=. a / mx / ptr / exists count but aren't followed; the MX host
+ * A lookups they trigger have their own separate limit we don't model.
+ */
+async function walkSpf(resolver: LintResolver, record: string, walk: SpfWalk, depth: number, charge: string | null): Promise<void> {
+    const terms = parseSpfTerms(record);
+    const hasAll = terms.some(t => !t.modifier && t.name === 'all');
+    for (const term of terms) {
+        const follows = term.modifier ? term.name === 'redirect' && !hasAll : term.name === 'include';
+        if (!follows && !(SPF_LOOKUP_MECHANISMS.has(term.name) && !term.modifier)) continue;
+
+        walk.lookups++;
+        const bucket = charge ?? `${term.name}${term.value ? (term.modifier ? '=' : ':') + term.value : ''}`;
+        walk.costs.set(bucket, (walk.costs.get(bucket) ?? 0) + 1);
+        if (term.name === 'ptr') walk.ptr = true;
+        if (!follows || !term.value || depth >= SPF_MAX_DEPTH || walk.lookups > SPF_MAX_LOOKUPS * 2) continue;
+
+        const target = term.value.toLowerCase();
+        if (target.includes('%')) continue; // macro - expands per message
+        walk.targets.add(target);
+        const records = await txt(resolver, target);
+        if (records === null) { walk.failed.push(target); continue; }
+        const spf = records.filter(r => /^v=spf1(\s|$)/i.test(r.trim()));
+        if (spf.length === 0) { walk.voidLookups++; continue; }
+        await walkSpf(resolver, spf[0], walk, depth + 1, bucket);
+    }
+}
+
+/** `record` with provider includes added and the all term set to `~all` unless already `-all`. */
+function suggestSpf(record: string | null, missingIncludes: string[]): string {
+    const terms = record ? record.trim().split(/\s+/).slice(1) : [];
+    const kept = terms.filter(t => !/^[+\-~?]?all$/i.test(t));
+    const strict = terms.some(t => t.toLowerCase() === '-all');
+    const includes = missingIncludes.map(h => `include:${h}`).filter(t => !kept.some(k => k.toLowerCase() === t));
+    return ['v=spf1', ...includes, ...kept, strict ? '-all' : '~all'].join(' ');
+}
+
+export async function lintSpf(domain: string, resolver: LintResolver, providers: string[] = []) {
+    const findings: LintFinding[] = [];
+    const add = (f: Omit<LintFinding, 'check'>) => findings.push({ check: 'spf', ...f });
+    const expected = [...new Set(providers.map(p => PROVIDER_SPF_INCLUDES[p]).filter(Boolean))];
+
+    const records = await txt(resolver, domain);
+    if (records === null) {
+        add({
+            code: 'spf_dns_error', severity: 'warning', title: 'SPF Check Failed',
+            details: 'DNS unreachable - cannot verify SPF. Trigger manual re-assessment.',
+            remediation: 'Verify DNS configuration is accessible. Trigger manual re-assessment.',
+        });
+        return { summary: null, findings };
+    }
+
+    const spf = records.filter(r => /^v=spf1(\s|$)/i.test(r.trim()));
+    if (spf.length === 0) {
+        const value = suggestSpf(null, expected.length ? expected : [PROVIDER_SPF_INCLUDES.google]);
+        add({
+            code: 'spf_missing', severity: 'warning', title: 'Missing SPF',
+            details: `No SPF record found. Add a TXT record: "${value}"`,
+            remediation: `Add a TXT record to your DNS: "${value}"${expected.length ? '' : ' (adjust for your email provider)'}.`,
+            record: { type: 'TXT', host: domain, value },
+        });
+        return { summary: null, findings };
+    }
+
+    if (spf.length > 1) {
+        // Merge every term into one record - receivers return permerror on duplicates.
+        const merged = suggestSpf(`v=spf1 ${[...new Set(spf.flatMap(r => r.trim().split(/\s+/).slice(1)))].join(' ')}`, expected);
+        add({
+            code: 'spf_multiple_records', severity: 'critical', title: 'Multiple SPF Records',
+            details: `${spf.length} v=spf1 records are published. Receivers treat this as a permanent error and SPF fails for every message.`,
+            remediation: `Delete all but one SPF record and publish the merged record: "${merged}"`,
+            record: { type: 'TXT', host: domain, value: merged },
+        });
+    }
+
+    const record = spf[0].trim();
+    const terms = parseSpfTerms(record);
+    const allTerm = terms.find(t => !t.modifier && t.name === 'all');
+    const redirect = terms.find(t => t.modifier && t.name === 'redirect');
+    const walk: SpfWalk = { lookups: 0, voidLookups: 0, ptr: false, targets: new Set(), costs: new Map(), failed: [] };
+    await walkSpf(resolver, record, walk, 0, null);
+
+    if (allTerm && (allTerm.qualifier === '' || allTerm.qualifier === '+')) {
+        const value = suggestSpf(record, []);
+        add({
+            code: 'spf_pass_all', severity: 'critical', title: 'SPF Allows Any Sender',
+            details: `"${allTerm.qualifier}all" authorizes every IP on the internet to send as ${domain}. Receivers treat it as a spoofing signal.`,
+            remediation: `Replace "${allTerm.qualifier}all" with "~all": "${value}"`,
+            record: { type: 'TXT', host: domain, value },
+        });
+    } else if (allTerm?.qualifier === '?') {
+        const value = suggestSpf(record, []);
+        add({
+            code: 'spf_neutral_all', severity: 'warning', title: 'Neutral SPF Policy',
+            details: '"?all" gives unlisted senders a neutral result, so SPF provides no protection against spoofing.',
+            remediation: `Replace "?all" with "~all": "${value}"`,
+            record: { type: 'TXT', host: domain, value },
+        });
+    } else if (!allTerm && !redirect) {
+        const value = suggestSpf(record, []);
+        add({
+            code: 'spf_no_all', severity: 'warning', title: 'SPF Record Has No "all" Term',
+            details: 'Without an "all" term, mail from unlisted IPs gets a neutral result.',
+            remediation: `End the record with "~all": "${value}"`,
+            record: { type: 'TXT', host: domain, value },
+        });
+    }
+
+    if (walk.lookups > SPF_MAX_LOOKUPS) {
+        const breakdown = [...walk.costs.entries()].sort((a, b) => b[1] - a[1]).map(([term, n]) => `${term} (${n})`).join(', ');
+        add({
+            code: 'spf_too_many_lookups', severity: 'critical', title: 'SPF Lookup Limit Exceeded',
+            details: `SPF needs ${walk.lookups} DNS lookups after expanding includes; the limit is ${SPF_MAX_LOOKUPS}. Receivers return permerror and SPF fails. Cost by term: ${breakdown}.`,
+            remediation: 'Remove includes for services that no longer send as this domain, or move them to a subdomain. Flattening includes into ip4:/ip6: ranges also works but must be kept in sync with the provider.',
+        });
+    } else if (walk.lookups >= SPF_MAX_LOOKUPS - 2) {
+        add({
+            code: 'spf_near_lookup_limit', severity: 'info', title: 'SPF Close to Lookup Limit',
+            details: `SPF needs ${walk.lookups} of ${SPF_MAX_LOOKUPS} allowed DNS lookups. One more include will break SPF.`,
+            remediation: 'Audit the includes before adding another sending service.',
+        });
+    }
+
+    if (walk.voidLookups > SPF_MAX_VOID_LOOKUPS) {
+        add({
+            code: 'spf_void_lookups', severity: 'warning', title: 'SPF Void Lookups',
+            details: `${walk.voidLookups} included names publish no SPF record (limit ${SPF_MAX_VOID_LOOKUPS}). Receivers may return permerror.`,
+            remediation: 'Remove includes that point at names without a v=spf1 record.',
+        });
+    }
+
+    if (walk.ptr) {
+        add({
+            code: 'spf_ptr', severity: 'info', title: 'SPF Uses "ptr"',
+            details: 'The ptr mechanism is deprecated (RFC 7208 §5.5) and ignored by some receivers.',
+            remediation: 'Replace ptr with ip4:/ip6: ranges or the provider include.',
+        });
+    }
+
+    const missing = expected.filter(h => !walk.targets.has(h));
+    if (missing.length > 0) {
+        const value = suggestSpf(record, missing);
+        add({
+            code: 'spf_missing_provider', severity: 'warning', title: 'SPF Missing Provider Include',
+            details: `Mailboxes on this domain send through ${missing.join(', ')}, which the SPF record doesn't authorize. Their mail fails SPF.`,
+            remediation: `Publish: "${value}"`,
+            record: { type: 'TXT', host: domain, value },
+        });
+    }
+
+    if (walk.failed.length > 0) {
+        add({
+            code: 'spf_include_unresolved', severity: 'info', title: 'SPF Include Not Resolved',
+            details: `Could not resolve ${walk.failed.join(', ')} - the lookup count may be understated.`,
+            remediation: 'Trigger a manual re-assessment later.',
+        });
+    }
+
+    return {
+        summary: { record, lookups: walk.lookups, voidLookups: walk.voidLookups, all: allTerm ? `${allTerm.qualifier}all` : null },
+        findings,
+    };
+}
+
+// ─── DKIM ────────────────────────────────────────────────────────────────────
+
+/** RSA modulus length of a base64 DKIM p= value (SPKI, or bare PKCS#1 as some providers publish). */
+export function dkimKeyBits(p: string): number | null {
+    const der = Buffer.from(p.replace(/\s+/g, ''), 'base64');
+    for (const type of ['spki', 'pkcs1'] as const) {
+        try {
+            const key = crypto.createPublicKey({ key: der, format: 'der', type });
+            return key.asymmetricKeyDetails?.modulusLength ?? null;
+        } catch {
+            // try the next encoding
+        }
+    }
+    return null;
+}
+
+export async function lintDkim(domain: string, resolver: LintResolver, selectors: string[], discovered: string[] = []) {
+    const findings: LintFinding[] = [];
+    const add = (f: Omit<LintFinding, 'check'>) => findings.push({ check: 'dkim', ...f });
+    const keys: DkimKeyInfo[] = [];
+    const probe = [...new Set([...discovered, ...selectors].map(s => s.toLowerCase()))];
+
+    const results = await Promise.all(probe.map(async selector => ({
+        selector,
+        records: await txt(resolver, `${selector}._domainkey.${domain}`),
+    })));
+
+    for (const { selector, records } of results) {
+        const record = records?.find(r => /(^|;)\s*(v=DKIM1|p=)/i.test(r));
+        if (!record) continue;
+        const tags = parseTags(record);
+        const keyType = (tags.k ?? 'rsa').toLowerCase();
+        const revoked = !tags.p;
+        const bits = !revoked && keyType === 'rsa' ? dkimKeyBits(tags.p) : null;
+        keys.push({ selector, keyType, bits, revoked });
+        const host = `${selector}._domainkey.${domain}`;
+
+        if (revoked) {
+            add({
+                code: 'dkim_revoked_key', severity: discovered.includes(selector) ? 'critical' : 'info',
+                title: 'Revoked DKIM Key',
+                details: `Selector "${selector}" publishes an empty p= tag (revoked). Messages signed with it fail DKIM.`,
+                remediation: `Rotate signing to a selector with a published key, or publish the current public key at ${host}.`,
+            });
+        } else if (keyType === 'rsa' && bits === null) {
+            add({
+                code: 'dkim_invalid_key', severity: 'warning', title: 'Unreadable DKIM Key',
+                details: `The public key at ${host} could not be parsed. Receivers will fail DKIM for this selector.`,
+                remediation: 'Re-copy the DKIM record from your email provider; long keys must be split into 255-character strings without stray quotes or spaces.',
+            });
+        } else if (bits !== null && bits < DKIM_MIN_BITS) {
+            add({
+                code: 'dkim_weak_key', severity: 'critical', title: 'DKIM Key Too Short',
+                details: `Selector "${selector}" uses a ${bits}-bit RSA key. Receivers reject keys under ${DKIM_MIN_BITS} bits.`,
+                remediation: `Generate a ${DKIM_RECOMMENDED_BITS}-bit key in your email provider and publish it at ${host}.`,
+            });
+        } else if (bits !== null && bits < DKIM_RECOMMENDED_BITS) {
+            add({
+                code: 'dkim_short_key', severity: 'info', title: `${bits}-bit DKIM Key`,
+                details: `Selector "${selector}" uses a ${bits}-bit RSA key. ${DKIM_RECOMMENDED_BITS}-bit is the current recommendation.`,
+                remediation: `Rotate to a ${DKIM_RECOMMENDED_BITS}-bit key in your email provider when convenient.`,
+            });
+        }
+        if (!revoked && /(^|:)y(:|$)/i.test(tags.t ?? '')) {
+            add({
+                code: 'dkim_testing', severity: 'info', title: 'DKIM in Test Mode',
+                details: `Selector "${selector}" has t=y, asking receivers not to treat failures differently from unsigned mail.`,
+                remediation: `Remove t=y from ${host} once signing is confirmed working.`,
+            });
+        }
+    }
+
+    for (const selector of discovered) {
+        const result = results.find(r => r.selector === selector.toLowerCase());
+        if (result?.records && !keys.some(k => k.selector === result.selector)) {
+            add({
+                code: 'dkim_selector_unpublished', severity: 'critical', title: 'DKIM Selector Not Published',
+                details: `Our mail is signed with selector "${selector}" but ${selector}._domainkey.${domain} has no key, so every signature fails.`,
+                remediation: `Publish the public key for selector "${selector}" from your email provider at ${selector}._domainkey.${domain}.`,
+                record: { type: 'TXT', host: `${selector}._domainkey.${domain}`, value: 'v=DKIM1; k=rsa; p=<public key from your email provider>' },
+            });
+        }
+    }
+
+    if (keys.length === 0 && !findings.some(f => f.code === 'dkim_selector_unpublished')) {
+        add({
+            code: 'dkim_missing', severity: 'warning', title: 'Missing DKIM',
+            details: `No DKIM record found on ${probe.length} selectors (${probe.join(', ')}). Enable DKIM signing in your email provider.`,
+            remediation: 'Enable DKIM signing in your email provider and add the DKIM TXT record to DNS.',
+        });
+    }
+
+    return { keys, findings };
+}
+
+// ─── DMARC ───────────────────────────────────────────────────────────────────
+
+const DMARC_POLICIES = new Set(['none', 'quarantine', 'reject']);
+const POLICY_RANK: Record<string, number> = { none: 0, quarantine: 1, reject: 2 };
+const DMARC_TAG_ORDER = ['v', 'p', 'sp', 'pct', 'rua', 'ruf', 'adkim', 'aspf', 'fo'];
+
+/** Organizational domain approximation - last two labels. */
+function orgDomain(host: string): string {
+    return host.toLowerCase().split('.').slice(-2).join('.');
+}
+
+export async function lintDmarc(domain: string, resolver: LintResolver) {
+    const findings: LintFinding[] = [];
+    const add = (f: Omit<LintFinding, 'check'>) => findings.push({ check: 'dmarc', ...f });
+    const host = `_dmarc.${domain}`;
+    const defaultRua = `mailto:dmarc@${domain}`;
+
+    const records = ((await txt(resolver, host)) ?? []).filter(r => /^v=DMARC1\s*(;|$)/i.test(r.trim()));
+    if (records.length === 0) {
+        const value = `v=DMARC1; p=quarantine; rua=${defaultRua}`;
+        add({
+            code: 'dmarc_missing', severity: 'info', title: 'Missing DMARC',
+            details: `Add a DMARC record at ${host} to improve deliverability.`,
+            remediation: `Add a TXT record at ${host}: "${value}"`,
+            record: { type: 'TXT', host, value },
+        });
+        return { tags: null, findings };
+    }
+
+    const tags = parseTags(records[0]);
+    const suggested: Record<string, string> = { ...tags, v: 'DMARC1' };
+    const p = tags.p?.toLowerCase();
+    const sp = tags.sp?.toLowerCase();
+    const pct = tags.pct !== undefined ? Number(tags.pct) : 100;
+
+    if (records.length > 1) {
+        add({
+            code: 'dmarc_multiple_records', severity: 'critical', title: 'Multiple DMARC Records',
+            details: `${records.length} DMARC records are published at ${host}. Receivers ignore DMARC entirely when more than one exists.`,
+            remediation: `Delete all but one record at ${host}.`,
+        });
+    }
+
+    if (!p || !DMARC_POLICIES.has(p)) {
+        suggested.p = 'none';
+        add({
+            code: 'dmarc_invalid_policy', severity: 'critical', title: 'Invalid DMARC Policy',
+            details: `The record has ${p ? `an unknown policy "p=${tags.p}"` : 'no p= tag'}, so receivers discard it.`,
+            remediation: `Publish: "${formatTags(suggested, DMARC_TAG_ORDER)}"`,
+            record: { type: 'TXT', host, value: formatTags(suggested, DMARC_TAG_ORDER) },
+        });
+    } else if (p === 'none') {
+        const value = formatTags({ ...suggested, p: 'quarantine' }, DMARC_TAG_ORDER);
+        add({
+            code: 'dmarc_monitor_only', severity: 'info', title: 'Weak DMARC',
+            details: "Policy set to 'none' (monitoring only). Upgrade to p=quarantine or p=reject.",
+            remediation: `Once SPF and DKIM are stable, publish: "${value}"`,
+            record: { type: 'TXT', host, value },
+        });
+    }
+
+    if (p && p !== 'none' && Number.isFinite(pct) && pct < 100) {
+        const value = formatTags({ ...suggested, pct: '100' }, DMARC_TAG_ORDER);
+        add({
+            code: 'dmarc_partial_pct', severity: 'info', title: 'Partial DMARC Enforcement',
+            details: `pct=${tags.pct} applies p=${p} to only ${pct}% of failing mail; the rest is treated as p=none.`,
+            remediation: `Raise to pct=100 once alignment is confirmed: "${value}"`,
+            record: { type: 'TXT', host, value },
+        });
+    }
+
+    if (p && sp && DMARC_POLICIES.has(p) && (POLICY_RANK[sp] ?? 0) < POLICY_RANK[p]) {
+        const { sp: _sp, ...rest } = suggested;
+        const value = formatTags(rest, DMARC_TAG_ORDER);
+        add({
+            code: 'dmarc_weak_subdomain_policy', severity: 'info', title: 'Weaker Subdomain Policy',
+            details: `sp=${sp} is weaker than p=${p}, so spoofed subdomains of ${domain} aren't ${p === 'reject' ? 'rejected' : 'quarantined'}.`,
+            remediation: `Drop sp= (it inherits p=) unless a subdomain genuinely needs it: "${value}"`,
+            record: { type: 'TXT', host, value },
+        });
+    }
+
+    const rua = (tags.rua ?? '').split(',').map(u => u.trim()).filter(u => /^mailto:/i.test(u));
+    if (rua.length === 0) {
+        const value = formatTags({ ...suggested, rua: defaultRua }, DMARC_TAG_ORDER);
+        add({
+            code: 'dmarc_no_rua', severity: 'info', title: 'No Aggregate Report Address',
+            details: 'Without rua= receivers send no aggregate reports, so alignment failures and spoofing stay invisible.',
+            remediation: `Add rua= pointing at a mailbox connected here: "${value}"`,
+            record: { type: 'TXT', host, value },
+        });
+    }
+
+    // RFC 7489 §7.1 - a report address outside the domain must opt in.
+    for (const uri of rua) {
+        const ruaDomain = uri.replace(/^mailto:/i, '').split('!')[0].split('@')[1]?.toLowerCase();
+        if (!ruaDomain || orgDomain(ruaDomain) === orgDomain(domain)) continue;
+        const authHost = `${domain}._report._dmarc.${ruaDomain}`;
+        const auth = await txt(resolver, authHost);
+        if (auth && !auth.some(r => /^v=DMARC1/i.test(r.trim()))) {
+            add({
+                code: 'dmarc_rua_unauthorized', severity: 'info', title: 'External Report Address Not Authorized',
+                details: `rua=${uri} is outside ${domain} and ${ruaDomain} doesn't publish ${authHost}, so receivers won't send it reports.`,
+                remediation: `Have the owner of ${ruaDomain} publish a TXT record at ${authHost}: "v=DMARC1"`,
+                record: { type: 'TXT', host: authHost, value: 'v=DMARC1' },
+            });
+        }
+    }
+
+    return { tags, findings };
+}
+
+// ─── MTA-STS / TLS-RPT / BIMI ────────────────────────────────────────────────
+
+function stsId(now = new Date()): string {
+    return now.toISOString().replace(/\D/g, '').slice(0, 14);
+}
+
+export async function lintMtaSts(domain: string, resolver: LintResolver) {
+    const findings: LintFinding[] = [];
+    const add = (f: Omit<LintFinding, 'check'>) => findings.push({ check: 'mta_sts', ...f });
+    const host = `_mta-sts.${domain}`;
+    const policyUrl = `https://mta-sts.${domain}/.well-known/mta-sts.txt`;
+
+    const record = ((await txt(resolver, host)) ?? []).find(r => /^v=STSv1/i.test(r.trim()));
+    if (!record) {
+        add({
+            code: 'mta_sts_missing', severity: 'info', title: 'No MTA-STS Policy',
+            details: 'MTA-STS makes senders require TLS when delivering to this domain, protecting replies from downgrade attacks.',
+            remediation: `Serve a policy at ${policyUrl} ("version: STSv1", "mode: testing", one "mx:" line per MX host, "max_age: 604800"), then publish the TXT record.`,
+            record: { type: 'TXT', host, value: `v=STSv1; id=${stsId()}` },
+        });
+        return { mode: null, findings };
+    }
+
+    if (!parseTags(record).id) {
+        add({
+            code: 'mta_sts_no_id', severity: 'info', title: 'MTA-STS Record Missing id',
+            details: `${host} has no id= tag, so senders never notice policy changes.`,
+            remediation: `Publish: "v=STSv1; id=${stsId()}" and bump id whenever the policy file changes.`,
+            record: { type: 'TXT', host, value: `v=STSv1; id=${stsId()}` },
+        });
+    }
+
+    if (!resolver.fetchText) return { mode: null, findings };
+    const policy = await resolver.fetchText(policyUrl);
+    const mode = policy?.match(/^mode:\s*(\w+)/im)?.[1].toLowerCase() ?? null;
+    if (!mode) {
+        add({
+            code: 'mta_sts_policy_unreachable', severity: 'info', title: 'MTA-STS Policy Unreachable',
+            details: `${host} is published but ${policyUrl} could not be fetched or has no mode: line. Senders ignore the policy.`,
+            remediation: `Serve the policy file over HTTPS with a valid certificate for mta-sts.${domain}.`,
+        });
+    } else if (mode !== 'enforce') {
+        add({
+            code: 'mta_sts_not_enforced', severity: 'info', title: `MTA-STS in ${mode} Mode`,
+            details: `The policy is in "${mode}" mode, so senders still deliver over unverified connections.`,
+            remediation: 'Switch to "mode: enforce" once TLS-RPT reports show no failures, and bump the id= in the TXT record.',
+        });
+    }
+    return { mode, findings };
+}
+
+export async function lintTlsRpt(domain: string, resolver: LintResolver) {
+    const host = `_smtp._tls.${domain}`;
+    const record = ((await txt(resolver, host)) ?? []).find(r => /^v=TLSRPTv1/i.test(r.trim()));
+    if (record && parseTags(record).rua) return { present: true, findings: [] as LintFinding[] };
+    const value = `v=TLSRPTv1; rua=mailto:tls-reports@${domain}`;
+    return {
+        present: false,
+        findings: [{
+            check: 'tls_rpt' as const,
+            code: record ? 'tls_rpt_no_rua' : 'tls_rpt_missing',
+            severity: 'info' as const,
+            title: record ? 'TLS-RPT Record Missing rua' : 'No TLS-RPT Record',
+            details: 'TLS-RPT asks senders to report TLS delivery failures to this domain - needed to roll out MTA-STS safely.',
+            remediation: `Add a TXT record at ${host}: "${value}"`,
+            record: { type: 'TXT' as const, host, value },
+        }],
+    };
+}
+
+export async function lintBimi(domain: string, resolver: LintResolver, dmarc: Record<string, string> | null) {
+    const findings: LintFinding[] = [];
+    const add = (f: Omit<LintFinding, 'check'>) => findings.push({ check: 'bimi', ...f });
+    const host = `default._bimi.${domain}`;
+    const p = dmarc?.p?.toLowerCase();
+    const enforcing = (p === 'quarantine' || p === 'reject') && (dmarc?.pct === undefined || Number(dmarc.pct) === 100);
+
+    const record = ((await txt(resolver, host)) ?? []).find(r => /^v=BIMI1/i.test(r.trim()));
+    if (!record) {
+        if (enforcing) {
+            add({
+                code: 'bimi_missing', severity: 'info', title: 'No BIMI Record',
+                details: 'DMARC is enforcing, so this domain qualifies for BIMI - a brand logo next to messages in supporting inboxes.',
+                remediation: `Host an SVG Tiny PS logo over HTTPS and publish a TXT record at ${host}. Gmail also requires a VMC (a=).`,
+                record: { type: 'TXT', host, value: `v=BIMI1; l=https://${domain}/bimi/logo.svg` },
+            });
+        }
+        return { present: false, findings };
+    }
+
+    if (!enforcing) {
+        add({
+            code: 'bimi_requires_enforcement', severity: 'info', title: 'BIMI Ignored Without Enforcement',
+            details: 'A BIMI record is published but the DMARC policy is not p=quarantine or p=reject at pct=100, so receivers ignore it.',
+            remediation: 'Move DMARC to p=quarantine or p=reject at pct=100.',
+        });
+    }
+    const logo = parseTags(record).l;
+    if (logo && !/^https:\/\//i.test(logo)) {
+        add({
+            code: 'bimi_insecure_logo', severity: 'info', title: 'BIMI Logo Not HTTPS',
+            details: `l=${logo} must be an https:// URL.`,
+            remediation: `Publish: "v=BIMI1; l=https://${domain}/bimi/logo.svg"`,
+            record: { type: 'TXT', host, value: `v=BIMI1; l=https://${domain}/bimi/logo.svg` },
+        });
+    }
+    return { present: true, findings };
+}
+
+// ─── Entry point ─────────────────────────────────────────────────────────────
+
+/**
+ * Lint every authentication record for `domain`. Findings are ordered
+ * SPF, DKIM, DMARC, MTA-STS, TLS-RPT, BIMI.
+ */
+export async function lintDomainAuth(domain: string, resolver: LintResolver, ctx: LintContext): Promise<DnsAuthLintResult> {
+    const name = domain.toLowerCase();
+    const [spf, dkim, dmarc, mtaSts, tlsRpt] = await Promise.all([
+        lintSpf(name, resolver, ctx.providers ?? []),
+        lintDkim(name, resolver, ctx.selectors, ctx.discoveredSelectors ?? []),
+        lintDmarc(name, resolver),
+        lintMtaSts(name, resolver),
+        lintTlsRpt(name, resolver),
+    ]);
+    const bimi = await lintBimi(name, resolver, dmarc.tags);
+
+    const findings = [...spf.findings, ...dkim.findings, ...dmarc.findings, ...mtaSts.findings, ...tlsRpt.findings, ...bimi.findings];
+    const penalty = Math.min(MAX_PENALTY, findings
+        .filter(f => !PRESENCE_CODES.has(f.code))
+        .reduce((sum, f) => sum + PENALTY[f.severity], 0));
+
+    return {
+        domain: name,
+        spf: spf.summary,
+        dkim: dkim.keys,
+        dmarc: dmarc.tags,
+        mtaStsMode: mtaSts.mode,
+        tlsRpt: tlsRpt.present,
+        bimi: bimi.present,
+        findings,
+        penalty,
+    };
+}
+
+// ─── Selector discovery ──────────────────────────────────────────────────────
+
+/** (d=, s=) pairs from the DKIM-Signature headers of a raw message. */
+export function extractDkimSignatures(raw: string): Array<{ domain: string; selector: string }> {
+    const end = raw.search(/\r?\n\r?\n/);
+    const headers = (end < 0 ? raw : raw.slice(0, end)).replace(/\r?\n[ \t]+/g, ' ');
+    const out: Array<{ domain: string; selector: string }> = [];
+    for (const match of headers.matchAll(/^dkim-signature:(.*)$/gim)) {
+        const tags = parseTags(match[1]);
+        const domain = tags.d?.toLowerCase();
+        const selector = tags.s?.toLowerCase();
+        if (domain && selector && /^[a-z0-9._-]+$/.test(selector) && /^[a-z0-9.-]+$/.test(domain)) {
+            out.push({ domain, selector });
+        }
+    }
+    return out;
+}
+
+/** Upper bound on remembered selectors per domain - each one is a DNS probe on every lint. */
+export const MAX_DKIM_SELECTORS = 10;
+
+/**
+ * Remember the DKIM selectors our own mail was signed with, so the linter
+ * probes them instead of guessing. The headers are unverified, so a
+ * selector is only kept when the sending address is a connected mailbox of
+ * `organizationId` and the signature's d= is that mailbox's own domain;
+ * it is written to that org's Domain row only, up to MAX_DKIM_SELECTORS.
+ * Best effort - never throws.
+ */
+export async function recordDkimSelectors(
+    raw: string,
+    sender: { organizationId: string; accountId?: string; email?: string },
+): Promise<void> {
+    try {
+        const account = sender.accountId || sender.email
+            ? await prisma.connectedAccount.findFirst({
+                where: {
+                    organization_id: sender.organizationId,
+                    ...(sender.accountId ? { id: sender.accountId } : { email: { equals: sender.email, mode: 'insensitive' } }),
+                },
+                select: { email: true },
+            })
+            : null;
+        const senderDomain = account?.email.split('@')[1]?.toLowerCase();
+        if (!senderDomain) return;
+
+        const selectors = new Set(extractDkimSignatures(raw).filter(s => s.domain === senderDomain).map(s => s.selector));
+        for (const selector of selectors) {
+            // Atomic so concurrent writers can't push past the cap or add a duplicate.
+            await prisma.$executeRaw`UPDATE "Domain" SET dkim_selectors = array_append(dkim_selectors, ${selector}::text) WHERE organization_id = ${sender.organizationId} AND domain = ${senderDomain} AND NOT (${selector}::text = ANY(dkim_selectors)) AND cardinality(dkim_selectors) < ${MAX_DKIM_SELECTORS}`;
+        }
+    } catch (err) {
+        logger.warn('[DNS-LINT] Failed to record DKIM selectors', { organizationId: sender.organizationId, error: String(err) });
+    }
+}
@@ -374,6 +374,50 @@ export async function checkDomainBlacklists(
   };
 }
 
+/**
+ * Enabled URI/domain-based lists (list_type 'uri') that mean "bad domain" -
+ * the ones that apply to links in content. Policy lists (newly registered
+ * domains, URIBL grey) are informational and left out.
+ */
+export async function getUriLists(): Promise<DnsblList[]> {
+  return prisma.dnsblList.findMany({
+    where: { list_type: 'uri', enabled: true, category: { not: 'policy' } },
+  });
+}
+
+/**
+ * Check a link domain against URI/domain-based lists. These are queried with
+ * the domain name itself (`example.com.multi.surbl.org`), not a reversed IP;
+ * non-URI lists in `lists` are ignored. Used by the content spam analyzer and
+ * link reputation monitoring.
+ */
+export async function checkLinkDomainBlacklists(
+  domainName: string,
+  lists: DnsblList[]
+): Promise<SingleListResult[]> {
+  const uriLists = lists.filter((list) => list.list_type === 'uri');
+  const domain = domainName.toLowerCase().replace(/\.$/, '');
+
+  return Promise.all(
+    uriLists.map(async (list) => {
+      await semaphore.acquire();
+      try {
+        const { status, responseCode } = await queryDnsbl(domain, list);
+        return {
+          listId: list.id,
+          listName: list.name,
+          zone: list.zone,
+          tier: list.tier,
+          status,
+          responseCode,
+        };
+      } finally {
+        semaphore.release();
+      }
+    })
+  );
+}
+
 /**
  * Check a pre-resolved IP directly. Mirrors checkDomainBlacklists but
  * skips the DNS resolution step - used by the mailbox-IP blacklist worker
@@ -501,6 +545,22 @@ export async function persistResults(
   penalty: number,
   summary: BlacklistSummary
 ): Promise<void> {
+  // listed_at marks when the current listing started (spam-trap correlation
+  // needs the onset, not the last check), so carry it over while a list
+  // stays CONFIRMED and clear it once the domain drops off.
+  const now = new Date();
+  const previous = await prisma.dnsblResult.findMany({
+    where: { domain_id: domainId, listed_at: { not: null } },
+    select: { dnsbl_list_id: true, listed_at: true },
+  });
+  const listedSince = new Map(previous.map((p) => [p.dnsbl_list_id, p.listed_at]));
+  const listedAt = (r: SingleListResult): Date | null => {
+    if (r.status === 'CONFIRMED') return listedSince.get(r.listId) ?? now;
+    // An unreachable list says nothing about whether the listing ended.
+    if (r.status === 'UNREACHABLE') return listedSince.get(r.listId) ?? null;
+    return null;
+  };
+
   // Upsert each result into DnsblResult
   const upserts = results
     .filter((r) => r.status !== 'SKIPPED')
@@ -517,11 +577,13 @@ export async function persistResults(
           dnsbl_list_id: r.listId,
           status: r.status,
           response_code: r.responseCode,
+          listed_at: listedAt(r),
         },
         update: {
           status: r.status,
           response_code: r.responseCode,
-          checked_at: new Date(),
+          checked_at: now,
+          listed_at: listedAt(r),
         },
       })
     );
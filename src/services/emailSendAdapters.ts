@@ -202,6 +202,9 @@ export interface SendOptions {
      *  required by Gmail's bulk-sender requirements (Feb 2024) and Yahoo's
      *  parallel rules. Null/undefined = no headers (transactional mail). */
     unsubscribeUrl?: string | null;
+    /** Extra X- headers to stamp on the message (placement-test correlation).
+     *  Graph only accepts X- prefixed custom headers, so keep to those. */
+    headers?: Record<string, string> | null;
 }
 
 export async function sendViaSMTP(
@@ -235,6 +238,7 @@ export async function sendViaSMTP(
         ...(options?.references ? { references: options.references } : {}),
         headers: {
             'X-Mailer': 'Superkabe/1.0',
+            ...(options?.headers || {}),
             // RFC 2369 + RFC 8058 one-click unsubscribe headers - Gmail/Yahoo
             // bulk-sender compliance.
             ...(options?.unsubscribeUrl
@@ -426,9 +430,12 @@ export async function sendEmail(
                     to,
                     subject,
                     bodyHtml,
-                    headers: options?.unsubscribeUrl ? {
-                        'List-Unsubscribe': `<${options.unsubscribeUrl}>`,
-                        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+                    headers: options?.unsubscribeUrl || options?.headers ? {
+                        ...(options.headers || {}),
+                        ...(options.unsubscribeUrl ? {
+                            'List-Unsubscribe': `<${options.unsubscribeUrl}>`,
+                            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+                        } : {}),
                     } : undefined,
                 });
                 if (!result.success) {
@@ -18,7 +18,8 @@ import * as healingService from './healingService';
 import * as notificationService from './notificationService';
 import * as inactivityService from './inactivityService';
 import * as recipientDomainStats from './recipientDomainStatsService';
-import { isWithinSendingWindow } from '../utils/sendWindow';
+import { isWithinSendingWindow, resolveLeadTimezone, localDateKey } from '../utils/sendWindow';
+import * as blackoutCalendar from './blackoutCalendarService';
 import { logger } from './observabilityService';
 import {
     SystemMode,
@@ -615,6 +616,7 @@ export const canSendNow = async (
     campaignId: string,
     mailboxId: string,
     leadEmail: string,
+    campaignLeadId?: string,
 ): Promise<SendNowResult> => {
     // 1. Re-fetch mailbox + parent domain state (closes TOCTOU window).
     const mailbox = await prisma.mailbox.findUnique({
@@ -686,10 +688,34 @@ export const canSendNow = async (
             schedule_start_time: true,
             schedule_end_time: true,
             schedule_days: true,
+            send_in_recipient_timezone: true,
+            recipient_fallback_timezone: true,
         },
     });
     if (campaign) {
-        if (!isWithinSendingWindow(campaign)) {
+        // Recipient-timezone campaigns evaluate the window in the lead's own zone.
+        let windowTz: string | null = null;
+        if (campaign.send_in_recipient_timezone) {
+            const cl = await prisma.campaignLead.findFirst({
+                where: campaignLeadId
+                    ? { id: campaignLeadId }
+                    : { campaign_id: campaignId, email: { equals: leadEmail, mode: 'insensitive' } },
+                select: { timezone: true },
+            });
+            windowTz = resolveLeadTimezone(campaign, { timezone: cl?.timezone });
+        }
+        // Holiday / blackout dates close the window for the whole local day.
+        const blackout = await blackoutCalendar.loadCampaignCalendar(organizationId, campaignId);
+        const blackoutLabel = blackout?.match(localDateKey(windowTz || campaign.schedule_timezone || 'UTC', new Date())) ?? null;
+        if (blackoutLabel) {
+            return {
+                allowed: false,
+                reason: `Blackout date: ${blackoutLabel}`,
+                deferrable: true,
+                deferMinutes: 120,
+            };
+        }
+        if (!isWithinSendingWindow(campaign, { timezone: windowTz })) {
             return {
                 allowed: false,
                 reason: 'Outside campaign sending window',
@@ -0,0 +1,193 @@
+/**
+ * Experiment Report Service
+ *
+ * Per-step A/B significance report built from the StepVariant counters:
+ * Wilson confidence intervals, two-proportion z-test p-values and Bayesian
+ * probability-to-beat against the control (first variant by label), the
+ * sample size still needed, and a winner flag.
+ *
+ * Shared by the dashboard (GET /api/sequencer/analytics/experiments) and the
+ * public API (GET /api/v1/campaigns/:id/report) so both always agree.
+ */
+
+import { prisma } from '../index';
+import {
+    wilsonInterval,
+    twoProportionPValue,
+    probabilityToBeat,
+    requiredSampleSize,
+} from '../utils/abStats';
+
+export type ExperimentMetric = 'reply' | 'open' | 'click';
+export const EXPERIMENT_METRICS: ExperimentMetric[] = ['reply', 'open', 'click'];
+
+/** Below this many sends on any arm, the report says so instead of guessing. */
+const MIN_SENDS_PER_ARM = 30;
+/** Relative lift the "sends needed" estimate targets when arms are tied. */
+const MIN_DETECTABLE_LIFT = 0.2;
+const POWER = 0.8;
+
+interface VariantInput {
+    id: string;
+    variant_label: string;
+    weight: number;
+    sends: number;
+    opens: number;
+    machine_opens: number;
+    clicks: number;
+    replies: number;
+}
+
+export interface VariantReport {
+    variant_id: string;
+    label: string;
+    is_control: boolean;
+    weight: number;
+    sends: number;
+    successes: number;
+    rate: number;
+    ci_low: number;
+    ci_high: number;
+    lift_vs_control: number | null;
+    p_value: number | null;
+    probability_to_beat_control: number | null;
+    significant: boolean;
+}
+
+export interface StepExperimentReport {
+    step_number: number;
+    metric: ExperimentMetric;
+    confidence: number;
+    status: 'insufficient_data' | 'running' | 'significant';
+    control_variant_id: string;
+    winner: { variant_id: string; label: string } | null;
+    /** Sends per arm to detect a MIN_DETECTABLE_LIFT relative lift over the control. */
+    required_sends_per_variant: number | null;
+    optimizer: { enabled: boolean; winner_variant_id: string | null };
+    variants: VariantReport[];
+}
+
+function successesFor(v: VariantInput, metric: ExperimentMetric): number {
+    if (metric === 'reply') return v.replies;
+    if (metric === 'click') return v.clicks;
+    // Machine-prefetch opens carry no preference signal.
+    return Math.max(0, v.opens - v.machine_opens);
+}
+
+const round = (n: number, places = 4) => Math.round(n * 10 ** places) / 10 ** places;
+
+/**
+ * Pure report for one step's variants. The control is the first variant by
+ * label. With k > 2 arms each comparison is Bonferroni-corrected (alpha /
+ * (k-1)) so adding variants doesn't inflate false winners.
+ */
+export function buildStepReport(
+    stepNumber: number,
+    variants: VariantInput[],
+    metric: ExperimentMetric,
+    confidence: number,
+    optimizer: { enabled: boolean; winner_variant_id: string | null } = { enabled: false, winner_variant_id: null },
+): StepExperimentReport {
+    const sorted = [...variants].sort((a, b) => a.variant_label.localeCompare(b.variant_label));
+    const control = sorted[0];
+    const alpha = (1 - confidence) / Math.max(1, sorted.length - 1);
+    const cS = successesFor(control, metric);
+    const cRate = control.sends > 0 ? cS / control.sends : 0;
+
+    const reports: VariantReport[] = sorted.map(v => {
+        const s = successesFor(v, metric);
+        const rate = v.sends > 0 ? s / v.sends : 0;
+        const ci = wilsonInterval(s, v.sends, confidence);
+        const isControl = v.id === control.id;
+        const pValue = isControl ? null : twoProportionPValue(cS, control.sends, s, v.sends);
+        const pBeat = isControl ? null : probabilityToBeat(cS, control.sends, s, v.sends);
+        return {
+            variant_id: v.id,
+            label: v.variant_label,
+            is_control: isControl,
+            weight: v.weight,
+            sends: v.sends,
+            successes: s,
+            rate: round(rate),
+            ci_low: round(ci.low),
+            ci_high: round(ci.high),
+            lift_vs_control: isControl || cRate === 0 ? null : round((rate - cRate) / cRate),
+            p_value: pValue === null ? null : round(pValue, 6),
+            probability_to_beat_control: pBeat === null ? null : round(pBeat),
+            significant: pValue !== null && pValue < alpha,
+        };
+    });
+
+    const enoughData = sorted.length >= 2 && sorted.every(v => v.sends >= MIN_SENDS_PER_ARM)
+        && reports.some(r => r.successes > 0);
+
+    let winner: StepExperimentReport['winner'] = null;
+    if (enoughData) {
+        const challengers = reports.filter(r => !r.is_control);
+        const best = [...challengers].sort((a, b) => b.rate - a.rate)[0];
+        if (best && best.significant && (best.probability_to_beat_control ?? 0) >= confidence) {
+            winner = { variant_id: best.variant_id, label: best.label };
+        } else if (challengers.every(r => r.significant && (r.probability_to_beat_control ?? 1) <= 1 - confidence)) {
+            // Control beat every challenger decisively.
+            winner = { variant_id: control.id, label: control.variant_label };
+        }
+    }
+
+    const target = cRate > 0 ? Math.min(0.999, cRate * (1 + MIN_DETECTABLE_LIFT)) : null;
+    return {
+        step_number: stepNumber,
+        metric,
+        confidence,
+        status: !enoughData ? 'insufficient_data' : winner ? 'significant' : 'running',
+        control_variant_id: control.id,
+        winner,
+        required_sends_per_variant: target !== null ? requiredSampleSize(cRate, target, 1 - confidence, POWER) : null,
+        optimizer,
+        variants: reports,
+    };
+}
+
+/** Reports for every step of a campaign that has 2+ variants. null = campaign not in org. */
+export async function getCampaignExperimentReports(
+    orgId: string,
+    campaignId: string,
+    opts: { metric?: ExperimentMetric; confidence?: number } = {},
+): Promise<StepExperimentReport[] | null> {
+    const campaign = await prisma.campaign.findFirst({
+        where: { id: campaignId, organization_id: orgId },
+        select: {
+            steps: {
+                orderBy: { step_number: 'asc' },
+                select: {
+                    step_number: true,
+                    optimizer_enabled: true,
+                    optimizer_winner_id: true,
+                    variants: {
+                        select: {
+                            id: true, variant_label: true, weight: true, sends: true,
+                            opens: true, machine_opens: true, clicks: true, replies: true,
+                        },
+                    },
+                },
+            },
+        },
+    });
+    if (!campaign) return null;
+    const metric = opts.metric ?? 'reply';
+    const confidence = opts.confidence ?? 0.95;
+    return campaign.steps
+        .filter(s => s.variants.length >= 2)
+        .map(s => buildStepReport(s.step_number, s.variants, metric, confidence, {
+            enabled: s.optimizer_enabled,
+            winner_variant_id: s.optimizer_winner_id,
+        }));
+}
+
+/** Parse ?metric= / ?confidence= shared by both endpoints. Returns an error string on bad input. */
+export function parseExperimentQuery(query: Record<string, any>): { metric: ExperimentMetric; confidence: number } | string {
+    const metric = String(query.metric || 'reply') as ExperimentMetric;
+    if (!EXPERIMENT_METRICS.includes(metric)) return `metric must be one of ${EXPERIMENT_METRICS.join(', ')}`;
+    const confidence = query.confidence !== undefined ? Number(query.confidence) : 0.95;
+    if (!(confidence >= 0.8 && confidence < 1)) return 'confidence must be between 0.8 and 1';
+    return { metric, confidence };
+}
@@ -200,6 +200,7 @@ export async function sendEmailViaGmailApi(
          *  required by Gmail's bulk-sender requirements (Feb 2024) and Yahoo's
          *  parallel rules. Pass null to omit headers (e.g., transactional mail). */
         unsubscribeUrl?: string | null;
+        headers?: Record<string, string> | null;
     }
 ): Promise<{ messageId: string }> {
     const oauth2Client = new google.auth.OAuth2();
@@ -227,6 +228,10 @@ export async function sendEmailViaGmailApi(
         headerLines.push('List-Unsubscribe-Post: List-Unsubscribe=One-Click');
     }
 
+    for (const [name, value] of Object.entries(options?.headers || {})) {
+        headerLines.push(`${name}: ${value}`);
+    }
+
     headerLines.push('MIME-Version: 1.0', 'Content-Type: text/html; charset=utf-8');
 
     const mime = [...headerLines, '', bodyHtml].join('\r\n');
@@ -393,7 +393,7 @@ async function checkQuarantineToRestricted(
     // consecutive failures, escalate to manual intervention.
     let dnsCheckSucceeded = false;
     try {
-        const dnsResult = await assessDomainDNS(domain.domain, domain.id);
+        const dnsResult = await assessDomainDNS(domain.domain, domain.id, undefined, { dkimSelectors: domain.dkim_selectors });
         await prisma.domain.update({
             where: { id: domain.id },
             data: {
@@ -24,6 +24,9 @@ import * as eventService from './eventService';
 import * as rotationService from './rotationService';
 import { SlackAlertService } from './SlackAlertService';
 import * as dnsblService from './dnsblService';
+import * as dmarcReportService from './dmarcReportService';
+import * as dnsAuthLinter from './dnsAuthLinter';
+import { safeFetch } from '../utils/safeFetch';
 import { MailboxState, DomainState, TriggerType, EventType, MONITORING_THRESHOLDS } from '../types';
 import { logger } from './observabilityService';
 
@@ -152,9 +155,20 @@ interface DomainDNSResult {
     mxValid: boolean;
     blacklistResults: Record<string, BlacklistStatus>;
     score: number;
+    /** Full SPF/DKIM/DMARC/MTA-STS/TLS-RPT/BIMI lint (see dnsAuthLinter) */
+    authLint: dnsAuthLinter.DnsAuthLintResult;
     _dnsblCheckResult?: dnsblService.DnsblCheckResult | null;
 }
 
+/** Linter resolver backed by the cached, retrying resolveTxt above. */
+const lintResolver: dnsAuthLinter.LintResolver = {
+    resolveTxt: async (host) => (await resolveTxt(host, 1)).map(r => r.join('')),
+    fetchText: async (url) => {
+        const res = await safeFetch(url, { timeoutMs: 5000, maxBytes: 16 * 1024, maxRedirects: 0 });
+        return res.ok && res.status === 200 ? res.body : null;
+    },
+};
+
 /**
  * Resolve a domain's MX records. Returns sorted [{priority, exchange}].
  * Treats NXDOMAIN / no-records as "no MX" (empty array, mxValid=false) - not
@@ -187,6 +201,8 @@ interface Finding {
     details: string;
     message: string;
     remediation: string;
+    /** Exact DNS record to publish, when the fix is a record change */
+    record?: dnsAuthLinter.SuggestedRecord;
 }
 
 interface Recommendation {
@@ -314,11 +330,12 @@ async function checkSPF(domainName: string): Promise<boolean | null> {
 }
 
 /**
- * Check if a domain has a DKIM record by trying common selectors in parallel.
+ * Check if a domain has a DKIM record by trying selectors in parallel -
+ * common ones plus any discovered from our own sent mail.
  */
-async function checkDKIM(domainName: string): Promise<boolean | null> {
+async function checkDKIM(domainName: string, selectors: string[] = DKIM_SELECTORS): Promise<boolean | null> {
     const results = await Promise.allSettled(
-        DKIM_SELECTORS.map(selector => resolveTxt(`${selector}._domainkey.${domainName}`))
+        selectors.map(selector => resolveTxt(`${selector}._domainkey.${domainName}`))
     );
 
     for (const result of results) {
@@ -365,18 +382,27 @@ async function checkDMARC(domainName: string): Promise<string | null> {
  * @param domainName - The domain to assess
  * @param domainId - The domain's database ID (for DNSBL result persistence)
  * @param dnsblLists - Pre-fetched DNSBL lists for this run (from dnsblService.getListsForRun)
+ * @param auth - Discovered DKIM selectors and sending providers for the auth linter
  */
 export async function assessDomainDNS(
     domainName: string,
     domainId?: string,
-    dnsblLists?: import('@prisma/client').DnsblList[]
+    dnsblLists?: import('@prisma/client').DnsblList[],
+    auth: { dkimSelectors?: string[]; providers?: string[] } = {}
 ): Promise<DomainDNSResult> {
+    const selectors = [...new Set([...(auth.dkimSelectors ?? []), ...DKIM_SELECTORS])];
     const [spfValid, dkimValid, dmarcPolicy, mxRecords] = await Promise.all([
         checkSPF(domainName),
-        checkDKIM(domainName),
+        checkDKIM(domainName, selectors),
         checkDMARC(domainName),
         resolveMxRecords(domainName),
     ]);
+    // Runs after the presence checks so it reads their TXT answers from cache.
+    const authLint = await dnsAuthLinter.lintDomainAuth(domainName, lintResolver, {
+        selectors,
+        discoveredSelectors: auth.dkimSelectors,
+        providers: auth.providers,
+    });
     const mxValid = mxRecords.length > 0;
 
     // Check blacklists via dnsblService (tiered, throttled, 400+ lists)
@@ -427,6 +453,9 @@ export async function assessDomainDNS(
     if (dmarcPolicy === null) score -= 15;
     else if (dmarcPolicy === 'none') score -= 10;
 
+    // Record-quality penalty (lookup limit, +all, weak keys, ...)
+    score -= authLint.penalty;
+
     // Blacklist penalty (weighted, from dnsblService)
     score += blacklistPenalty; // penalty is already negative
 
@@ -441,6 +470,7 @@ export async function assessDomainDNS(
         mxValid,
         blacklistResults,
         score,
+        authLint,
         _dnsblCheckResult: dnsblCheckResult, // Attach for tier-aware pause logic
     };
 }
@@ -489,6 +519,27 @@ export async function assessInfrastructure(
 
         const domainSummary = { total: domains.length, healthy: 0, warning: 0, paused: 0 };
 
+        // Receiver-reported SPF/DKIM alignment from DMARC aggregate reports.
+        // Domains without reports are judged on DNS records alone.
+        const dmarcAuth = await dmarcReportService.getDomainAuthSummaries(organizationId).catch(err => {
+            logger.warn('[ASSESSMENT] DMARC report summary failed', { error: String(err), organizationId });
+            return new Map<string, dmarcReportService.DomainAuthSummary>();
+        });
+
+        // Sending providers per domain - the SPF lint checks their includes.
+        const providerRows = await prisma.mailbox.findMany({
+            where: { organization_id: organizationId, connectedAccount: { isNot: null } },
+            select: { domain_id: true, connectedAccount: { select: { provider: true } } },
+        });
+        const domainProviders = new Map<string, string[]>();
+        for (const row of providerRows) {
+            const provider = row.connectedAccount?.provider;
+            if (!provider) continue;
+            const list = domainProviders.get(row.domain_id) ?? [];
+            if (!list.includes(provider)) list.push(provider);
+            domainProviders.set(row.domain_id, list);
+        }
+
         // DNSBL coverage is comprehensive for every org regardless of tier.
         const dnsblLists = await dnsblService.getListsForRun('comprehensive');
         dnsblService.clearIpCache(); // Fresh cache for each assessment run
@@ -499,7 +550,10 @@ export async function assessInfrastructure(
         for (let b = 0; b < domains.length; b += DOMAIN_BATCH_SIZE) {
             const batch = domains.slice(b, b + DOMAIN_BATCH_SIZE);
             const batchResults = await Promise.allSettled(
-                batch.map(domain => assessDomainDNS(domain.domain, domain.id, dnsblLists))
+                batch.map(domain => assessDomainDNS(domain.domain, domain.id, dnsblLists, {
+                    dkimSelectors: domain.dkim_selectors,
+                    providers: domainProviders.get(domain.id),
+                }))
             );
             dnsResults.push(...batchResults);
         }
@@ -620,76 +674,41 @@ export async function assessInfrastructure(
                 }
             }
 
-            // Missing SPF → warning
-            if (dnsResult.spfValid === false) {
-                if (domainState === 'healthy') domainState = 'warning';
-                findings.push({
-                    severity: 'warning',
-                    category: 'domain_dns',
-                    entity: 'domain',
-                    entityId: domain.id,
-                    entityName: domain.domain,
-                    title: `Missing SPF: ${domain.domain}`,
-                    details: `No SPF record found. Add a TXT record: "v=spf1 include:_spf.google.com ~all"`,
-                    message: `Domain ${domain.domain} has no SPF record configured.`,
-                    remediation: `Add a TXT record to your DNS: "v=spf1 include:_spf.google.com ~all" (adjust for your email provider).`,
-                });
-            } else if (dnsResult.spfValid === null) {
-                if (domainState === 'healthy') domainState = 'warning';
-                findings.push({
-                    severity: 'warning',
-                    category: 'domain_dns',
-                    entity: 'domain',
-                    entityId: domain.id,
-                    entityName: domain.domain,
-                    title: `SPF Check Failed: ${domain.domain}`,
-                    details: `DNS unreachable - cannot verify SPF. Trigger manual re-assessment.`,
-                    message: `Domain ${domain.domain}: SPF record check failed (DNS unreachable).`,
-                    remediation: `Verify DNS configuration is accessible. Trigger manual re-assessment.`,
-                });
-            }
-
-            // Missing DKIM → warning
-            if (dnsResult.dkimValid === false) {
-                if (domainState === 'healthy') domainState = 'warning';
+            // SPF / DKIM / DMARC / MTA-STS / TLS-RPT / BIMI record lint
+            for (const f of dnsResult.authLint.findings) {
+                if (f.severity !== 'info' && domainState === 'healthy') domainState = 'warning';
                 findings.push({
-                    severity: 'warning',
+                    severity: f.severity,
                     category: 'domain_dns',
                     entity: 'domain',
                     entityId: domain.id,
                     entityName: domain.domain,
-                    title: `Missing DKIM: ${domain.domain}`,
-                    details: `No DKIM record found on common selectors. Enable DKIM signing in your email provider.`,
-                    message: `Domain ${domain.domain} has no DKIM record configured (checked common selectors).`,
-                    remediation: `Enable DKIM signing in your email provider and add the DKIM TXT record to DNS.`,
+                    title: `${f.title}: ${domain.domain}`,
+                    details: f.details,
+                    message: `Domain ${domain.domain}: ${f.title}.`,
+                    remediation: f.remediation,
+                    ...(f.record && { record: f.record }),
                 });
             }
 
-            // Missing DMARC → info (not as critical, but worth noting)
-            if (dnsResult.dmarcPolicy === null) {
-                findings.push({
-                    severity: 'info',
-                    category: 'domain_dns',
-                    entity: 'domain',
-                    entityId: domain.id,
-                    entityName: domain.domain,
-                    title: `Missing DMARC: ${domain.domain}`,
-                    details: `Add a DMARC record at _dmarc.${domain.domain} to improve deliverability.`,
-                    message: `Domain ${domain.domain} has no DMARC policy configured.`,
-                    remediation: `Add a TXT record at _dmarc.${domain.domain}: "v=DMARC1; p=quarantine; rua=mailto:dmarc@${domain.domain}"`,
-                });
-            } else if (dnsResult.dmarcPolicy === 'none') {
-                findings.push({
-                    severity: 'info',
-                    category: 'domain_dns',
-                    entity: 'domain',
-                    entityId: domain.id,
-                    entityName: domain.domain,
-                    title: `Weak DMARC: ${domain.domain}`,
-                    details: `DMARC set to 'none' (monitoring only). Upgrade to p=quarantine or p=reject.`,
-                    message: `Domain ${domain.domain} has DMARC policy set to 'none' (monitoring only, not enforcing).`,
-                    remediation: `Consider upgrading to p=quarantine or p=reject once SPF and DKIM are stable.`,
-                });
+            // DMARC aggregate results - misalignment and spoofing seen by receivers
+            let domainScore = dnsResult.score;
+            const authSummary = dmarcAuth.get(domain.id);
+            if (authSummary) {
+                const { findings: authFindings, penalty } = dmarcReportService.assessDomainAuth(authSummary, dnsResult.dmarcPolicy);
+                domainScore = Math.max(0, domainScore - penalty);
+                for (const f of authFindings) {
+                    if (f.severity !== 'info' && domainState === 'healthy') domainState = 'warning';
+                    findings.push({
+                        ...f,
+                        category: 'domain_dns',
+                        entity: 'domain',
+                        entityId: domain.id,
+                        entityName: domain.domain,
+                        title: `${f.title}: ${domain.domain}`,
+                        message: `Domain ${domain.domain}: ${f.message}`,
+                    });
+                }
             }
 
             // Update domain DNS results (operational fields)
@@ -704,7 +723,7 @@ export async function assessInfrastructure(
                     mx_records: dnsResult.mxRecords,
                     mx_valid: dnsResult.mxValid,
                     dns_checked_at: new Date(),
-                    initial_assessment_score: dnsResult.score,
+                    initial_assessment_score: domainScore,
                     // Door B: a blocking blacklist listing gates sending via infra_status, NOT via
                     // status/recovery_phase. Writing 'ready' when not blocked also means a later
                     // re-assessment auto-clears the flag once the domain is delisted.
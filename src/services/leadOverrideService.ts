@@ -0,0 +1,303 @@
+/**
+ * Lead Override Service
+ *
+ * Per-lead deviations from a campaign sequence, made by an SDR working one
+ * hot lead without touching the campaign:
+ *
+ *   - edit   - replace the subject/body of one upcoming step for this lead
+ *   - skip   - don't send one upcoming step; continue with the next
+ *   - inject - send a one-off manual email on the lead's next due tick,
+ *              then resume the regular sequence
+ *   - push   - move the lead's next send out by N days without pausing it
+ *
+ * edit/skip/inject are LeadStepOverride rows the dispatcher consumes via
+ * planLeadDispatch(); push is a direct next_send_at update. Every change is
+ * written to AuditLog (entity 'campaign_lead', entity_id = CampaignLead.id)
+ * with the acting user, so GET .../history answers "who changed what".
+ */
+
+import { prisma } from '../index';
+import { AppError } from '../utils/appError';
+import * as auditLogService from './auditLogService';
+import { isTaskStep } from './sequenceTaskService';
+
+export const OVERRIDE_KINDS = ['edit', 'skip', 'inject'] as const;
+export type OverrideKind = typeof OVERRIDE_KINDS[number];
+
+/** Leads the dispatcher will never send to again - overrides on them could not apply. */
+const CLOSED_LEAD_STATUSES = ['replied', 'bounced', 'unsubscribed', 'completed'];
+const MAX_PUSH_DAYS = 90;
+/** An injected email holds the regular sequence back at least this long. */
+export const INJECT_RESUME_MIN_DAYS = 1;
+const AUDIT_ENTITY = 'campaign_lead';
+
+export interface PendingOverride {
+    id: string;
+    kind: string;
+    step_number: number | null;
+    subject: string | null;
+    body_html: string | null;
+    created_at: Date;
+}
+
+export type LeadDispatchPlan =
+    | { action: 'inject' | 'skip' | 'edit'; override: PendingOverride }
+    | { action: 'none' };
+
+export interface OverrideActor {
+    userId?: string;
+    ipAddress?: string;
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Dispatcher side
+// ────────────────────────────────────────────────────────────────────
+
+/**
+ * What the dispatcher does with a due lead, given its pending overrides and
+ * the step it is about to send (null when the sequence has nothing left).
+ * An injected email always goes first - it is the SDR's "send this now" -
+ * then a skip of the resolved step, then the newest edit of it.
+ */
+export function planLeadDispatch(pending: PendingOverride[], stepNumber: number | null): LeadDispatchPlan {
+    const byAge = [...pending].sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+    const inject = byAge.find(o => o.kind === 'inject');
+    if (inject) return { action: 'inject', override: inject };
+    if (stepNumber === null) return { action: 'none' };
+    const skip = byAge.find(o => o.kind === 'skip' && o.step_number === stepNumber);
+    if (skip) return { action: 'skip', override: skip };
+    const edit = byAge.filter(o => o.kind === 'edit' && o.step_number === stepNumber).pop();
+    if (edit) return { action: 'edit', override: edit };
+    return { action: 'none' };
+}
+
+/** Pending overrides for a batch of due leads, grouped by lead. One query per campaign tick. */
+export async function loadPendingOverrides(leadIds: string[]): Promise<Map<string, PendingOverride[]>> {
+    const byLead = new Map<string, PendingOverride[]>();
+    if (leadIds.length === 0) return byLead;
+    const rows = await prisma.leadStepOverride.findMany({
+        where: { campaign_lead_id: { in: leadIds }, status: 'pending' },
+        select: { id: true, kind: true, step_number: true, subject: true, body_html: true, created_at: true, campaign_lead_id: true },
+    });
+    for (const { campaign_lead_id, ...row } of rows) {
+        const list = byLead.get(campaign_lead_id) ?? [];
+        list.push(row);
+        byLead.set(campaign_lead_id, list);
+    }
+    return byLead;
+}
+
+/** Mark a skip consumed. Guarded on 'pending' so a concurrent cancel wins cleanly. */
+export async function markOverrideApplied(overrideId: string): Promise<boolean> {
+    const { count } = await prisma.leadStepOverride.updateMany({
+        where: { id: overrideId, status: 'pending' },
+        data: { status: 'applied', applied_at: new Date() },
+    });
+    return count > 0;
+}
+
+// ────────────────────────────────────────────────────────────────────
+// API side
+// ────────────────────────────────────────────────────────────────────
+
+/**
+ * Returns an error message for an invalid override payload, or null.
+ * `stepNumbers` are the campaign's steps; `currentStep` is the lead's last
+ * sent step. Graph sequences can't skip by step number - a node may be
+ * revisited, or never reached - so skips are linear-only. Manual task steps
+ * have no email to edit; skip them or complete the task instead.
+ */
+export function validateOverrideInput(
+    input: Record<string, any>,
+    ctx: { stepNumbers: number[]; currentStep: number; graphMode: boolean; taskStepNumbers?: number[] },
+): string | null {
+    const kind = input.kind;
+    if (!OVERRIDE_KINDS.includes(kind)) return `kind must be one of ${OVERRIDE_KINDS.join(', ')}`;
+    if (input.subject != null && typeof input.subject !== 'string') return 'subject must be a string';
+    const subject = typeof input.subject === 'string' ? input.subject.trim() : '';
+    const body = typeof input.body_html === 'string' ? input.body_html.trim() : '';
+
+    if (kind === 'inject') {
+        if (!body) return 'body_html is required';
+        // Nothing sent yet = no thread to inherit a subject from.
+        if (!subject && ctx.currentStep === 0) return 'subject is required before the first step has been sent';
+        return null;
+    }
+
+    const stepNumber = input.step_number;
+    if (!Number.isInteger(stepNumber) || !ctx.stepNumbers.includes(stepNumber)) {
+        return 'step_number must be a step of this campaign';
+    }
+    if (!ctx.graphMode && stepNumber <= ctx.currentStep) return `Step ${stepNumber} has already been sent to this lead`;
+    if (kind === 'skip') {
+        return ctx.graphMode ? 'Skipping steps is not supported for graph sequences' : null;
+    }
+    if (ctx.taskStepNumbers?.includes(stepNumber)) return `Step ${stepNumber} is a manual task step, not an email`;
+    if (!body) return 'body_html is required';
+    if (!subject && stepNumber === 1) return 'subject is required for step 1';
+    return null;
+}
+
+async function loadLead(orgId: string, campaignId: string, leadId: string) {
+    const lead = await prisma.campaignLead.findFirst({
+        where: { id: leadId, campaign_id: campaignId, campaign: { organization_id: orgId } },
+        select: {
+            id: true, email: true, status: true, current_step: true, next_send_at: true,
+            campaign: { select: { sequence_mode: true, steps: { select: { step_number: true, step_type: true } } } },
+        },
+    });
+    if (!lead) throw new AppError('Lead not found', 404);
+    return lead;
+}
+
+function audit(orgId: string, leadId: string, action: string, details: Record<string, unknown>, actor: OverrideActor) {
+    return auditLogService.logAction({
+        organizationId: orgId,
+        entity: AUDIT_ENTITY,
+        entityId: leadId,
+        trigger: 'user_action',
+        action,
+        details: JSON.stringify(details),
+        userId: actor.userId,
+        ipAddress: actor.ipAddress,
+    });
+}
+
+/** Every override on the lead, newest first (pending, applied and cancelled). */
+export async function listLeadOverrides(orgId: string, campaignId: string, leadId: string) {
+    await loadLead(orgId, campaignId, leadId);
+    return prisma.leadStepOverride.findMany({
+        where: { campaign_lead_id: leadId },
+        orderBy: { created_at: 'desc' },
+    });
+}
+
+/** Audit trail of manual changes to the lead. */
+export async function getLeadHistory(orgId: string, campaignId: string, leadId: string, limit = 100) {
+    await loadLead(orgId, campaignId, leadId);
+    return auditLogService.getLogsForEntity(orgId, AUDIT_ENTITY, leadId, Math.min(Math.max(1, limit), 500));
+}
+
+export async function createLeadOverride(
+    orgId: string,
+    campaignId: string,
+    leadId: string,
+    input: Record<string, any>,
+    actor: OverrideActor,
+) {
+    const lead = await loadLead(orgId, campaignId, leadId);
+    if (CLOSED_LEAD_STATUSES.includes(lead.status)) {
+        throw new AppError(`Lead is ${lead.status} - no further emails will be sent`, 409);
+    }
+    const error = validateOverrideInput(input, {
+        stepNumbers: lead.campaign.steps.map(s => s.step_number),
+        currentStep: lead.current_step,
+        graphMode: lead.campaign.sequence_mode === 'graph',
+        taskStepNumbers: lead.campaign.steps.filter(s => isTaskStep(s.step_type)).map(s => s.step_number),
+    });
+    if (error) throw new AppError(error, 400);
+
+    const kind = input.kind as OverrideKind;
+    const stepNumber = kind === 'inject' ? null : input.step_number as number;
+    let replaced = 0;
+    if (kind !== 'inject') {
+        const existing = await prisma.leadStepOverride.findMany({
+            where: { campaign_lead_id: leadId, status: 'pending', step_number: stepNumber, kind: { in: ['edit', 'skip'] } },
+            select: { id: true, kind: true },
+        });
+        if (kind === 'skip' && existing.some(o => o.kind === 'skip')) {
+            throw new AppError(`Step ${stepNumber} is already being skipped for this lead`, 409);
+        }
+        // A newer edit replaces the previous one for the same step.
+        const staleEdits = existing.filter(o => o.kind === 'edit').map(o => o.id);
+        if (kind === 'edit' && staleEdits.length > 0) {
+            replaced = (await prisma.leadStepOverride.updateMany({
+                where: { id: { in: staleEdits }, status: 'pending' },
+                data: { status: 'cancelled' },
+            })).count;
+        }
+    }
+
+    const override = await prisma.leadStepOverride.create({
+        data: {
+            organization_id: orgId,
+            campaign_id: campaignId,
+            campaign_lead_id: leadId,
+            kind,
+            step_number: stepNumber,
+            subject: kind === 'skip' ? null : (typeof input.subject === 'string' ? input.subject.trim() : null) || null,
+            body_html: kind === 'skip' ? null : String(input.body_html),
+            created_by_user_id: actor.userId ?? null,
+        },
+    });
+
+    // An injected email goes out on the next dispatcher tick rather than
+    // waiting for the lead's regular next send.
+    if (kind === 'inject' && lead.status === 'active' && (!lead.next_send_at || lead.next_send_at > new Date())) {
+        await prisma.campaignLead.update({
+            where: { id: leadId },
+            data: { next_send_at: new Date(), sto_slot_at: null },
+        });
+    }
+
+    await audit(orgId, leadId, `lead_override_${kind}`, {
+        campaign_id: campaignId,
+        override_id: override.id,
+        step_number: stepNumber,
+        subject: override.subject,
+        ...(replaced > 0 && { replaced }),
+    }, actor);
+    return override;
+}
+
+export async function cancelLeadOverride(
+    orgId: string,
+    campaignId: string,
+    leadId: string,
+    overrideId: string,
+    actor: OverrideActor,
+): Promise<void> {
+    await loadLead(orgId, campaignId, leadId);
+    const { count } = await prisma.leadStepOverride.updateMany({
+        where: { id: overrideId, campaign_lead_id: leadId, status: 'pending' },
+        data: { status: 'cancelled' },
+    });
+    if (count === 0) throw new AppError('Pending override not found', 404);
+    await audit(orgId, leadId, 'lead_override_cancelled', { campaign_id: campaignId, override_id: overrideId }, actor);
+}
+
+/**
+ * Push the lead's next send out by `days` from its current schedule (or
+ * from now, if it was already due). The lead stays active.
+ */
+export async function pushLeadNextSend(
+    orgId: string,
+    campaignId: string,
+    leadId: string,
+    days: unknown,
+    actor: OverrideActor,
+): Promise<{ next_send_at: Date }> {
+    if (!Number.isInteger(days) || (days as number) < 1 || (days as number) > MAX_PUSH_DAYS) {
+        throw new AppError(`days must be a whole number between 1 and ${MAX_PUSH_DAYS}`, 400);
+    }
+    const lead = await loadLead(orgId, campaignId, leadId);
+    if (lead.status !== 'active') throw new AppError(`Only active leads can be pushed (lead is ${lead.status})`, 409);
+
+    const now = new Date();
+    const from = lead.next_send_at && lead.next_send_at > now ? lead.next_send_at : now;
+    const nextSendAt = new Date(from.getTime() + (days as number) * 24 * 60 * 60 * 1000);
+    // Guarded on the value we read so a send landing in between isn't rewound.
+    const { count } = await prisma.campaignLead.updateMany({
+        where: { id: leadId, status: 'active', next_send_at: lead.next_send_at },
+        data: { next_send_at: nextSendAt, sto_slot_at: null },
+    });
+    if (count === 0) throw new AppError('Lead changed while updating - reload and try again', 409);
+
+    await audit(orgId, leadId, 'lead_send_pushed', {
+        campaign_id: campaignId,
+        days,
+        from: lead.next_send_at?.toISOString() ?? null,
+        to: nextSendAt.toISOString(),
+    }, actor);
+    return { next_send_at: nextSendAt };
+}
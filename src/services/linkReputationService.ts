@@ -0,0 +1,416 @@
+/**
+ * Link Reputation Service
+ *
+ * trackingDomainVerifierService only proves a custom tracking host CNAMEs to
+ * us; nothing watched whether that host - or the domains our steps link to -
+ * later landed on a blocklist. A listed link domain gets every message that
+ * carries it filtered, whatever the sender's own reputation.
+ *
+ * Each sweep (linkReputationWorker, every 6 hours, or on demand per org):
+ *   1. Collect, per org, the tracking domains in use by active campaigns
+ *      (verified mailbox-level hosts, else the campaign-level host) and every
+ *      http(s) link domain in their email steps and variants.
+ *   2. Check each distinct domain once against the URI blocklists
+ *      (dnsblService.getUriLists) and the local Safe-Browsing-style lists in
+ *      LINK_BLOCKLIST_FILES - one domain or URL per line, '#' comments; a
+ *      listed domain covers its subdomains.
+ *   3. Upsert LinkDomainReputation. Steps carrying a listed domain are paused
+ *      (SequenceStep.paused_reason 'link_blacklisted') and the dispatcher
+ *      parks leads due on them; a step resumes on a later sweep once none of
+ *      its domains is listed - delisted, or edited out of the step.
+ *
+ * A newly listed domain notifies the org and fires email.link_blacklisted;
+ * a delisting fires email.link_cleared.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+import * as dnsblService from './dnsblService';
+import * as auditLogService from './auditLogService';
+import * as notificationService from './notificationService';
+import * as webhookBus from './webhookEventBus';
+import { linkDomains } from './contentSpamService';
+
+export type LinkDomainKind = 'tracking' | 'link';
+export type LinkDomainStatus = 'clean' | 'listed' | 'unknown';
+
+export interface LinkListing {
+    source: 'dnsbl' | 'local';
+    list: string;
+}
+
+export const LINK_PAUSE_REASON = 'link_blacklisted';
+
+const LOCAL_LIST_FILES = (process.env.LINK_BLOCKLIST_FILES || '')
+    .split(',')
+    .map(f => f.trim())
+    .filter(Boolean);
+
+interface StepUsage {
+    id: string;
+    campaign_id: string;
+    campaign_name: string;
+    step_number: number;
+    paused_reason: string | null;
+    paused: boolean;
+    domains: Set<string>;
+}
+
+interface OrgUsage {
+    /** domain → kind; tracking wins when a domain is both. */
+    domains: Map<string, LinkDomainKind>;
+    steps: StepUsage[];
+}
+
+// ─── Local lists ─────────────────────────────────────────────────────────────
+
+function normalizeDomain(value: string): string | null {
+    let v = value.trim().toLowerCase();
+    if (!v) return null;
+    if (v.includes('://')) {
+        try {
+            v = new URL(v).hostname;
+        } catch {
+            return null;
+        }
+    }
+    v = v.replace(/^\*\./, '').replace(/^www\./, '').replace(/\.$/, '');
+    return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(v) ? v : null;
+}
+
+/**
+ * Parse one local list: a domain or URL per line, blank lines and '#'
+ * comments ignored.
+ */
+export function parseLocalList(text: string): string[] {
+    const out: string[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const domain = normalizeDomain(line.replace(/#.*$/, ''));
+        if (domain) out.push(domain);
+    }
+    return out;
+}
+
+/** domain → list name (file basename), across every LINK_BLOCKLIST_FILES file. */
+async function loadLocalLists(files: string[] = LOCAL_LIST_FILES): Promise<Map<string, string>> {
+    const entries = new Map<string, string>();
+    for (const file of files) {
+        try {
+            const name = path.basename(file).replace(/\.[^.]+$/, '');
+            for (const domain of parseLocalList(await fs.readFile(file, 'utf8'))) {
+                if (!entries.has(domain)) entries.set(domain, name);
+            }
+        } catch (err) {
+            logger.warn('[LINK_REPUTATION] Local list unreadable', { file, error: err instanceof Error ? err.message : String(err) });
+        }
+    }
+    return entries;
+}
+
+/**
+ * Local-list names covering `domain` - an entry matches the domain itself
+ * and any subdomain of it, Safe-Browsing host-suffix style.
+ */
+export function matchLocalLists(domain: string, entries: Map<string, string>): string[] {
+    const labels = domain.split('.');
+    const lists = new Set<string>();
+    for (let i = 0; i <= labels.length - 2; i++) {
+        const list = entries.get(labels.slice(i).join('.'));
+        if (list) lists.add(list);
+    }
+    return Array.from(lists);
+}
+
+// ─── Step holds ──────────────────────────────────────────────────────────────
+
+/**
+ * Which steps to pause and which to resume, given the domains currently
+ * listed. Only holds this service placed are lifted.
+ */
+export function planStepHolds(
+    steps: Array<{ id: string; paused: boolean; paused_reason: string | null; domains: Set<string> }>,
+    listed: Set<string>,
+): { pause: string[]; resume: string[] } {
+    const pause: string[] = [];
+    const resume: string[] = [];
+    for (const step of steps) {
+        const carriesListed = Array.from(step.domains).some(d => listed.has(d));
+        if (carriesListed && !step.paused) pause.push(step.id);
+        else if (!carriesListed && step.paused && step.paused_reason === LINK_PAUSE_REASON) resume.push(step.id);
+    }
+    return { pause, resume };
+}
+
+// ─── Sweep ───────────────────────────────────────────────────────────────────
+
+async function collectUsage(orgId?: string): Promise<Map<string, OrgUsage>> {
+    const campaigns = await prisma.campaign.findMany({
+        where: { status: 'active', ...(orgId ? { organization_id: orgId } : {}) },
+        select: {
+            id: true,
+            organization_id: true,
+            name: true,
+            tracking_domain: true,
+            track_opens: true,
+            track_clicks: true,
+            accounts: { select: { account: { select: { tracking_domain: true, tracking_domain_verified: true } } } },
+            steps: {
+                where: { step_type: 'email' },
+                select: {
+                    id: true, step_number: true, subject: true, preheader: true, body_html: true, body_text: true,
+                    paused_at: true, paused_reason: true,
+                    variants: { select: { subject: true, preheader: true, body_html: true, body_text: true } },
+                },
+            },
+        },
+    });
+
+    const byOrg = new Map<string, OrgUsage>();
+    for (const campaign of campaigns) {
+        const usage: OrgUsage = byOrg.get(campaign.organization_id) ?? { domains: new Map(), steps: [] };
+        byOrg.set(campaign.organization_id, usage);
+
+        // Same precedence as the send path: a verified mailbox-level host,
+        // else the campaign-level host.
+        const tracking = new Set<string>();
+        if ((campaign.track_opens ?? true) || (campaign.track_clicks ?? true)) {
+            let fallsBack = campaign.accounts.length === 0;
+            for (const { account } of campaign.accounts) {
+                const host = account.tracking_domain_verified && account.tracking_domain ? normalizeDomain(account.tracking_domain) : null;
+                if (host) tracking.add(host);
+                else fallsBack = true;
+            }
+            const campaignHost = fallsBack && campaign.tracking_domain ? normalizeDomain(campaign.tracking_domain) : null;
+            if (campaignHost) tracking.add(campaignHost);
+        }
+        for (const host of tracking) usage.domains.set(host, 'tracking');
+
+        for (const step of campaign.steps) {
+            const contents = step.variants.length > 0 ? step.variants : [step];
+            const domains = new Set<string>(tracking);
+            for (const c of contents) {
+                for (const host of linkDomains({ subject: c.subject, preheader: c.preheader, bodyHtml: c.body_html, bodyText: c.body_text })) {
+                    domains.add(host);
+                    if (!usage.domains.has(host)) usage.domains.set(host, 'link');
+                }
+            }
+            usage.steps.push({
+                id: step.id,
+                campaign_id: campaign.id,
+                campaign_name: campaign.name,
+                step_number: step.step_number,
+                paused_reason: step.paused_reason,
+                paused: step.paused_at !== null,
+                domains,
+            });
+        }
+    }
+    return byOrg;
+}
+
+/**
+ * Listings for one domain, or null when no check came back conclusive (every
+ * DNSBL unreachable and no local hit) - the previous status then stands.
+ */
+async function checkDomain(
+    domain: string,
+    lists: Awaited<ReturnType<typeof dnsblService.getUriLists>>,
+    local: Map<string, string>,
+): Promise<LinkListing[] | null> {
+    const listings: LinkListing[] = matchLocalLists(domain, local).map(list => ({ source: 'local', list }));
+    let conclusive = listings.length > 0 || lists.length === 0;
+    try {
+        const results = await dnsblService.checkLinkDomainBlacklists(domain, lists);
+        for (const r of results) {
+            if (r.status === 'CONFIRMED') listings.push({ source: 'dnsbl', list: r.listName });
+            if (r.status === 'CONFIRMED' || r.status === 'NOT_LISTED') conclusive = true;
+        }
+    } catch (err) {
+        logger.warn('[LINK_REPUTATION] DNSBL lookup failed', { domain, error: err instanceof Error ? err.message : String(err) });
+    }
+    return conclusive ? listings : null;
+}
+
+export interface LinkSweepResult {
+    domains: number;
+    listed: number;
+    paused: number;
+    resumed: number;
+}
+
+/**
+ * Re-check every tracking and link domain in active campaigns (one org, or
+ * all) and pause / resume the steps that carry them.
+ */
+export async function runSweep(orgId?: string): Promise<LinkSweepResult> {
+    const usageByOrg = await collectUsage(orgId);
+    const allDomains = new Set<string>();
+    for (const usage of usageByOrg.values()) for (const d of usage.domains.keys()) allDomains.add(d);
+
+    const [lists, local] = await Promise.all([dnsblService.getUriLists(), loadLocalLists()]);
+    const checked = new Map<string, LinkListing[] | null>();
+    for (const domain of allDomains) checked.set(domain, await checkDomain(domain, lists, local));
+
+    const result: LinkSweepResult = { domains: allDomains.size, listed: 0, paused: 0, resumed: 0 };
+    for (const [org, usage] of usageByOrg) {
+        const r = await applyOrgResults(org, usage, checked);
+        result.listed += r.listed;
+        result.paused += r.paused;
+        result.resumed += r.resumed;
+    }
+    return result;
+}
+
+async function applyOrgResults(
+    orgId: string,
+    usage: OrgUsage,
+    checked: Map<string, LinkListing[] | null>,
+): Promise<{ listed: number; paused: number; resumed: number }> {
+    const now = new Date();
+    const existing = await prisma.linkDomainReputation.findMany({
+        where: { organization_id: orgId },
+        select: { domain: true, status: true, listed_at: true },
+    });
+    const previous = new Map(existing.map(r => [r.domain, r]));
+
+    const listed = new Set<string>();
+    const newlyListed: Array<{ domain: string; kind: LinkDomainKind; lists: string[] }> = [];
+    const newlyCleared: Array<{ domain: string; kind: LinkDomainKind }> = [];
+
+    for (const [domain, kind] of usage.domains) {
+        const listings = checked.get(domain) ?? null;
+        const prev = previous.get(domain);
+        const stepCount = usage.steps.filter(s => s.domains.has(domain)).length;
+
+        if (listings === null) {
+            // Inconclusive - keep the last verdict, refresh usage only.
+            if (prev?.status === 'listed') listed.add(domain);
+            await prisma.linkDomainReputation.upsert({
+                where: { organization_id_domain: { organization_id: orgId, domain } },
+                create: { organization_id: orgId, domain, kind, status: 'unknown', step_count: stepCount },
+                update: { kind, step_count: stepCount },
+            });
+            continue;
+        }
+
+        const status: LinkDomainStatus = listings.length > 0 ? 'listed' : 'clean';
+        if (status === 'listed') {
+            listed.add(domain);
+            if (prev?.status !== 'listed') newlyListed.push({ domain, kind, lists: listings.map(l => l.list) });
+        } else if (prev?.status === 'listed') {
+            newlyCleared.push({ domain, kind });
+        }
+        const listedAt = status === 'listed' ? (prev?.status === 'listed' ? prev.listed_at : now) : null;
+        await prisma.linkDomainReputation.upsert({
+            where: { organization_id_domain: { organization_id: orgId, domain } },
+            create: {
+                organization_id: orgId, domain, kind, status,
+                listed_on: listings as any, listed_at: listedAt, step_count: stepCount, last_checked_at: now,
+            },
+            update: { kind, status, listed_on: listings as any, listed_at: listedAt, step_count: stepCount, last_checked_at: now },
+        });
+    }
+
+    // Domains no longer used by any active step keep their history.
+    await prisma.linkDomainReputation.updateMany({
+        where: { organization_id: orgId, domain: { notIn: Array.from(usage.domains.keys()) }, step_count: { gt: 0 } },
+        data: { step_count: 0 },
+    });
+
+    const { pause, resume } = planStepHolds(usage.steps, listed);
+    const stepsById = new Map(usage.steps.map(s => [s.id, s]));
+    if (pause.length > 0) {
+        await prisma.sequenceStep.updateMany({
+            where: { id: { in: pause }, paused_at: null },
+            data: { paused_at: now, paused_reason: LINK_PAUSE_REASON },
+        });
+    }
+    if (resume.length > 0) {
+        await prisma.sequenceStep.updateMany({
+            where: { id: { in: resume }, paused_reason: LINK_PAUSE_REASON },
+            data: { paused_at: null, paused_reason: null },
+        });
+    }
+
+    const listedIn = (step: StepUsage) => Array.from(step.domains).filter(d => listed.has(d));
+    await auditLogService.logActions([
+        ...pause.map(id => {
+            const step = stepsById.get(id)!;
+            return {
+                organizationId: orgId,
+                entity: 'sequence_step',
+                entityId: id,
+                trigger: 'link_reputation',
+                action: 'step_paused',
+                details: `Campaign "${step.campaign_name}" step ${step.step_number} paused: ${listedIn(step).join(', ')} blocklisted`,
+            };
+        }),
+        ...resume.map(id => {
+            const step = stepsById.get(id)!;
+            return {
+                organizationId: orgId,
+                entity: 'sequence_step',
+                entityId: id,
+                trigger: 'link_reputation',
+                action: 'step_resumed',
+                details: `Campaign "${step.campaign_name}" step ${step.step_number} resumed: no blocklisted link or tracking domains left`,
+            };
+        }),
+    ]);
+
+    const stepRefs = (ids: string[], domain: string) => ids
+        .map(id => stepsById.get(id)!)
+        .filter(s => s.domains.has(domain))
+        .map(s => ({ campaign_id: s.campaign_id, step_id: s.id, step_number: s.step_number }));
+
+    for (const hit of newlyListed) {
+        const steps = stepRefs(pause, hit.domain);
+        webhookBus.emitLinkBlacklisted(orgId, hit, hit.lists, steps);
+        await notificationService.createNotificationIfAbsent(orgId, {
+            type: 'WARNING',
+            title: `${hit.kind === 'tracking' ? 'Tracking' : 'Link'} domain ${hit.domain} is blocklisted`,
+            message: `${hit.domain} is listed on ${hit.lists.join(', ')}. `
+                + (steps.length > 0
+                    ? `${steps.length} sequence step${steps.length === 1 ? ' was' : 's were'} paused until it is delisted or removed from the step.`
+                    : 'Steps using it stay paused until it is delisted or removed.'),
+        });
+        logger.warn('[LINK_REPUTATION] Domain listed', { organizationId: orgId, domain: hit.domain, kind: hit.kind, lists: hit.lists, pausedSteps: steps.length });
+    }
+    for (const clear of newlyCleared) {
+        webhookBus.emitLinkCleared(orgId, clear, stepRefs(resume, clear.domain));
+        logger.info('[LINK_REPUTATION] Domain delisted', { organizationId: orgId, domain: clear.domain });
+    }
+
+    return { listed: newlyListed.length, paused: pause.length, resumed: resume.length };
+}
+
+// ─── Reads ───────────────────────────────────────────────────────────────────
+
+/**
+ * Monitored domains for an org, listed first. `status` narrows to one status.
+ */
+export async function listDomains(orgId: string, opts: { status?: string; limit?: number } = {}) {
+    const status = opts.status && ['clean', 'listed', 'unknown'].includes(opts.status) ? opts.status : undefined;
+    const rows = await prisma.linkDomainReputation.findMany({
+        where: { organization_id: orgId, ...(status ? { status } : {}) },
+        orderBy: { domain: 'asc' },
+        take: Math.min(Math.max(opts.limit ?? 200, 1), 1000),
+    });
+    return rows.sort((a, b) => Number(b.status === 'listed') - Number(a.status === 'listed'));
+}
+
+/**
+ * Steps currently held for blocklisted links, with their campaign.
+ */
+export async function listPausedSteps(orgId: string) {
+    return prisma.sequenceStep.findMany({
+        where: { paused_reason: LINK_PAUSE_REASON, campaign: { organization_id: orgId } },
+        select: {
+            id: true, step_number: true, paused_at: true,
+            campaign: { select: { id: true, name: true, status: true } },
+        },
+        orderBy: { paused_at: 'desc' },
+    });
+}
@@ -220,6 +220,7 @@ export async function sendEmailViaGraph(
         /** RFC 2369 + RFC 8058 unsubscribe URL - populates List-Unsubscribe headers
          *  required by Gmail's bulk-sender requirements (Feb 2024). */
         unsubscribeUrl?: string | null;
+        headers?: Record<string, string> | null;
     }
 ): Promise<{ messageId: string }> {
     const messageId = `<${crypto.randomUUID()}@superkabe.com>`;
@@ -234,6 +235,10 @@ export async function sendEmailViaGraph(
         internetMessageHeaders.push({ name: 'List-Unsubscribe-Post', value: 'List-Unsubscribe=One-Click' });
     }
 
+    for (const [name, value] of Object.entries(options?.headers || {})) {
+        internetMessageHeaders.push({ name, value });
+    }
+
     const buildBody = (headers: Array<{ name: string; value: string }>) => JSON.stringify({
         message: {
             subject,
@@ -322,6 +322,88 @@ export const recordBounce = async (
     }
 };
 
+/**
+ * Record a spam complaint (ARF feedback-loop report) against a mailbox.
+ *
+ * A complaint during quarantine / restricted send / warm recovery is a
+ * relapse, exactly like a health-degrading bounce. Otherwise the mailbox's
+ * complaint rate over COMPLAINT_RATE_WINDOW_DAYS decides: at or above the
+ * relapse threshold it pauses, at or above the healthy threshold it warns.
+ * Below COMPLAINT_RATE_MIN_SENDS the rate isn't meaningful yet, so any
+ * complaint just moves a healthy mailbox to WARNING.
+ */
+export const recordComplaint = async (
+    mailboxId: string,
+    campaignId: string | null,
+    recipientEmail?: string
+): Promise<void> => {
+    const mailbox = await prisma.mailbox.findUnique({ where: { id: mailboxId } });
+    if (!mailbox) return;
+
+    const orgId = mailbox.organization_id;
+
+    await eventService.storeEvent({
+        organizationId: orgId,
+        eventType: EventType.SPAM_COMPLAINT,
+        entityType: 'mailbox',
+        entityId: mailboxId,
+        payload: { mailboxId, campaignId, source: 'arf' }
+    });
+
+    const updatedMailbox = await prisma.mailbox.update({
+        where: { id: mailboxId },
+        data: { spam_count: { increment: 1 }, last_activity_at: new Date() }
+    });
+
+    const windowStart = new Date(Date.now() - MONITORING_THRESHOLDS.COMPLAINT_RATE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const [windowComplaints, windowSends] = await Promise.all([
+        prisma.complaintEvent.count({ where: { mailbox_id: mailboxId, received_at: { gte: windowStart } } }),
+        prisma.sendEvent.count({ where: { mailbox_id: mailboxId, sent_at: { gte: windowStart } } }),
+    ]);
+    const complaintRate = windowSends > 0 ? windowComplaints / windowSends : 0;
+    const rateLabel = `${windowComplaints}/${windowSends} (${(complaintRate * 100).toFixed(2)}%) over ${MONITORING_THRESHOLDS.COMPLAINT_RATE_WINDOW_DAYS}d`;
+
+    await auditLogService.logAction({
+        organizationId: orgId,
+        entity: 'mailbox',
+        entityId: mailboxId,
+        trigger: 'feedback_loop',
+        action: 'spam_complaint_received',
+        details: `Spam complaint from ${recipientEmail || 'unknown'}${campaignId ? ` in campaign ${campaignId}` : ''}. Complaints: ${rateLabel}`
+    });
+
+    const recoveryPhases = [
+        RecoveryPhase.QUARANTINE,
+        RecoveryPhase.RESTRICTED_SEND,
+        RecoveryPhase.WARM_RECOVERY,
+    ];
+    const currentPhase = updatedMailbox.recovery_phase as RecoveryPhase;
+
+    if (recoveryPhases.includes(currentPhase)) {
+        await healingService.resetCleanSends('mailbox', mailboxId);
+        await healingService.handleRelapse(
+            'mailbox',
+            mailboxId,
+            orgId,
+            currentPhase,
+            `Spam complaint during ${currentPhase}: ${rateLabel}`
+        );
+        return;
+    }
+
+    if (windowSends >= MONITORING_THRESHOLDS.COMPLAINT_RATE_MIN_SENDS) {
+        if (complaintRate >= MONITORING_THRESHOLDS.COMPLAINT_RATE_RELAPSE_THRESHOLD) {
+            if (updatedMailbox.status !== 'paused') {
+                await pauseMailbox(mailboxId, `Complaint rate ${rateLabel} exceeds ${(MONITORING_THRESHOLDS.COMPLAINT_RATE_RELAPSE_THRESHOLD * 100).toFixed(1)}%`);
+            }
+        } else if (complaintRate >= MONITORING_THRESHOLDS.COMPLAINT_RATE_HEALTHY_THRESHOLD && updatedMailbox.status === 'healthy') {
+            await warnMailbox(mailboxId, `Complaint rate ${rateLabel} exceeds ${(MONITORING_THRESHOLDS.COMPLAINT_RATE_HEALTHY_THRESHOLD * 100).toFixed(1)}%`);
+        }
+    } else if (updatedMailbox.status === 'healthy') {
+        await warnMailbox(mailboxId, `Spam complaint on low volume: ${rateLabel}`);
+    }
+};
+
 /**
  * Record a sent email event for a mailbox.
  * May trigger window reset if threshold reached.
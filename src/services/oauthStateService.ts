@@ -30,7 +30,8 @@ const DEFAULT_TTL_MS = 10 * 60 * 1000; // 10 minutes
 export type OAuthPurpose =
     | 'postmaster_oauth'
     | 'sequencer_google_oauth'
-    | 'user_login_oauth';
+    | 'user_login_oauth'
+    | 'sso_login';
 
 interface CreateArgs {
     purpose: OAuthPurpose;
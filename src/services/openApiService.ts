@@ -0,0 +1,417 @@
+/**
+ * OpenAPI Service
+ *
+ * Builds the OpenAPI 3.1 document for /api/v1, served at
+ * GET /api/v1/openapi.json. Nothing here is hand-written JSON Schema:
+ *   - request bodies and query parameters come from the v1 zod schemas in
+ *     middleware/validation.ts;
+ *   - responses come from the zod schemas below, which mirror what each
+ *     v1Controller handler sends (__tests__/v1Contract.test.ts runs every
+ *     handler and fails when a response drifts from its schema);
+ *   - every operation names the API-key scope its handler requires
+ *     (one of AVAILABLE_SCOPES), as the security requirement's scope and as
+ *     `x-required-scope`.
+ *
+ * Response objects are strict (additionalProperties: false) except where a
+ * handler returns a whole database row (getLead, getCampaign) - those list
+ * the stable fields and allow the rest.
+ */
+
+import { z } from 'zod';
+import { AVAILABLE_SCOPES } from '../controllers/apiKeyController';
+import { getPublicBackendUrl } from '../utils/publicBackendUrl';
+import {
+    v1BulkLeadsSchema,
+    v1ValidateLeadsSchema,
+    v1ListLeadsQuerySchema,
+    v1CreateCampaignSchema,
+    v1UpdateCampaignSchema,
+    v1CampaignReportQuerySchema,
+    v1SendReplySchema,
+} from '../middleware/validation';
+
+export type ApiScope = typeof AVAILABLE_SCOPES[number];
+
+// ─── Response schemas ───────────────────────────────────────────────────────
+
+const timestamp = z.iso.datetime();
+const count = z.number().int().min(0);
+
+function envelope<T extends z.ZodType>(data: T) {
+    return z.strictObject({ success: z.literal(true), data });
+}
+
+const errorResponse = z.object({
+    success: z.literal(false),
+    error: z.string(),
+});
+
+const leadSummary = z.strictObject({
+    id: z.string(),
+    email: z.string(),
+    persona: z.string(),
+    status: z.string(),
+    lead_score: z.number().int(),
+    source: z.string(),
+    validation_status: z.string().nullable(),
+    validation_score: z.number().int().nullable(),
+    is_catch_all: z.boolean().nullable(),
+    is_disposable: z.boolean().nullable(),
+    emails_sent: count,
+    emails_opened: count,
+    emails_clicked: count,
+    emails_replied: count,
+    last_activity_at: timestamp.nullable(),
+    created_at: timestamp,
+});
+
+const lead = z.looseObject({
+    id: z.string(),
+    email: z.string(),
+    first_name: z.string().nullable(),
+    last_name: z.string().nullable(),
+    company: z.string().nullable(),
+    title: z.string().nullable(),
+    persona: z.string(),
+    status: z.string(),
+    lead_score: z.number().int(),
+    source: z.string(),
+    validation_status: z.string().nullable(),
+    created_at: timestamp,
+    updated_at: timestamp,
+});
+
+const campaignSummary = z.strictObject({
+    id: z.string(),
+    name: z.string(),
+    status: z.string(),
+    daily_limit: z.number().int().nullable(),
+    schedule_timezone: z.string().nullable(),
+    leads_count: count,
+    steps_count: count,
+    created_at: timestamp,
+    updated_at: timestamp,
+});
+
+const campaign = z.looseObject({
+    id: z.string(),
+    name: z.string(),
+    status: z.string(),
+    channel: z.string(),
+    created_at: timestamp,
+    steps: z.array(z.looseObject({
+        id: z.string(),
+        step_number: z.number().int(),
+        subject: z.string(),
+        delay_days: z.number().int(),
+        variants: z.array(z.looseObject({ id: z.string(), variant_label: z.string(), weight: z.number().int() })),
+    })),
+    leads: z.array(z.strictObject({
+        id: z.string(),
+        email: z.string(),
+        status: z.string(),
+        current_step: z.number().int(),
+        last_sent_at: timestamp.nullable(),
+    })).describe('First 100 enrolled leads'),
+    _count: z.strictObject({ leads: count }),
+});
+
+const experimentReport = z.strictObject({
+    step_number: z.number().int(),
+    metric: z.enum(['reply', 'open', 'click']),
+    confidence: z.number(),
+    status: z.enum(['insufficient_data', 'running', 'significant']),
+    control_variant_id: z.string(),
+    winner: z.strictObject({ variant_id: z.string(), label: z.string() }).nullable(),
+    required_sends_per_variant: z.number().int().nullable(),
+    optimizer: z.strictObject({ enabled: z.boolean(), winner_variant_id: z.string().nullable() }),
+    variants: z.array(z.strictObject({
+        variant_id: z.string(),
+        label: z.string(),
+        is_control: z.boolean(),
+        weight: z.number().int(),
+        sends: count,
+        successes: count,
+        rate: z.number(),
+        ci_low: z.number(),
+        ci_high: z.number(),
+        lift_vs_control: z.number().nullable(),
+        p_value: z.number().nullable(),
+        probability_to_beat_control: z.number().nullable(),
+        significant: z.boolean(),
+    })),
+});
+
+const mailbox = z.strictObject({
+    id: z.string(),
+    email: z.string(),
+    status: z.string(),
+    smtp_status: z.boolean(),
+    imap_status: z.boolean(),
+    total_sent_count: count,
+    hard_bounce_count: count,
+    warmup_status: z.string().nullable(),
+    warmup_reputation: z.string().nullable(),
+    recovery_phase: z.string(),
+    resilience_score: z.number().int(),
+});
+
+const domain = z.strictObject({
+    id: z.string(),
+    domain: z.string(),
+    status: z.string(),
+    total_sent_lifetime: count,
+    total_opens: count,
+    total_clicks: count,
+    total_replies: count,
+    aggregated_bounce_rate_trend: z.number(),
+    warning_count: count,
+    recovery_phase: z.string(),
+    resilience_score: z.number().int(),
+});
+
+// ─── Operations ─────────────────────────────────────────────────────────────
+
+export interface V1Operation {
+    method: 'get' | 'post' | 'patch';
+    /** Express-style, relative to /api/v1 (e.g. /campaigns/:id). */
+    path: string;
+    /** The v1Controller export that handles it. */
+    operationId: string;
+    summary: string;
+    tag: string;
+    /** API-key scope the handler requires; null = public. */
+    scope: ApiScope | null;
+    query?: z.ZodObject;
+    body?: z.ZodType;
+    status: number;
+    response: z.ZodType;
+}
+
+export const V1_OPERATIONS: V1Operation[] = [
+    {
+        method: 'get', path: '/openapi.json', operationId: 'getOpenApiSpec', tag: 'Meta', scope: null,
+        summary: 'This OpenAPI document', status: 200,
+        response: z.looseObject({ openapi: z.literal('3.1.0') }),
+    },
+    {
+        method: 'post', path: '/leads/bulk', operationId: 'bulkImportLeads', tag: 'Leads', scope: 'leads:write',
+        summary: 'Import up to 5000 leads', body: v1BulkLeadsSchema, status: 200,
+        response: envelope(z.strictObject({
+            total: count,
+            created: count,
+            duplicates: count,
+            errors: count,
+            results: z.array(z.strictObject({
+                email: z.string(),
+                id: z.string().optional(),
+                status: z.enum(['created', 'duplicate', 'rejected', 'error']),
+                error: z.string().optional(),
+            })),
+        })),
+    },
+    {
+        method: 'post', path: '/leads/validate', operationId: 'validateLeads', tag: 'Validation', scope: 'validation:trigger',
+        summary: 'Queue email validation for existing leads', body: v1ValidateLeadsSchema, status: 200,
+        response: envelope(z.strictObject({ queued: count, lead_ids: z.array(z.string()), message: z.string() })),
+    },
+    {
+        method: 'get', path: '/leads', operationId: 'listLeads', tag: 'Leads', scope: 'leads:read',
+        summary: 'List leads', query: v1ListLeadsQuerySchema, status: 200,
+        response: z.strictObject({
+            success: z.literal(true),
+            data: z.array(leadSummary),
+            meta: z.strictObject({ total: count, page: z.number().int(), limit: z.number().int(), totalPages: count }),
+        }),
+    },
+    {
+        method: 'get', path: '/leads/:id', operationId: 'getLead', tag: 'Leads', scope: 'leads:read',
+        summary: 'Get a lead', status: 200, response: envelope(lead),
+    },
+    {
+        method: 'post', path: '/campaigns', operationId: 'createCampaign', tag: 'Campaigns', scope: 'campaigns:write',
+        summary: 'Create a draft campaign with its steps and leads', body: v1CreateCampaignSchema, status: 201,
+        response: envelope(z.strictObject({
+            id: z.string(),
+            name: z.string(),
+            status: z.string(),
+            steps_count: count,
+            leads_assigned: count,
+            leads_blocked: count,
+        })),
+    },
+    {
+        method: 'get', path: '/campaigns', operationId: 'listCampaigns', tag: 'Campaigns', scope: 'campaigns:read',
+        summary: 'List campaigns', status: 200, response: envelope(z.array(campaignSummary)),
+    },
+    {
+        method: 'get', path: '/campaigns/:id', operationId: 'getCampaign', tag: 'Campaigns', scope: 'campaigns:read',
+        summary: 'Get a campaign with its steps, variants and first 100 leads', status: 200, response: envelope(campaign),
+    },
+    {
+        method: 'patch', path: '/campaigns/:id', operationId: 'updateCampaign', tag: 'Campaigns', scope: 'campaigns:write',
+        summary: 'Update a campaign that is not active', body: v1UpdateCampaignSchema, status: 200,
+        response: envelope(z.strictObject({ id: z.string(), name: z.string(), status: z.string() })),
+    },
+    {
+        method: 'post', path: '/campaigns/:id/launch', operationId: 'launchCampaign', tag: 'Campaigns', scope: 'campaigns:write',
+        summary: 'Launch a campaign', status: 200,
+        response: envelope(z.strictObject({ id: z.string(), status: z.literal('active'), leads: count, steps: count })),
+    },
+    {
+        method: 'post', path: '/campaigns/:id/pause', operationId: 'pauseCampaign', tag: 'Campaigns', scope: 'campaigns:write',
+        summary: 'Pause an active campaign', status: 200,
+        response: envelope(z.strictObject({ id: z.string(), status: z.literal('paused') })),
+    },
+    {
+        method: 'get', path: '/campaigns/:id/report', operationId: 'getCampaignReport', tag: 'Campaigns', scope: 'reports:read',
+        summary: 'Campaign performance and A/B experiment results', query: v1CampaignReportQuerySchema, status: 200,
+        response: envelope(z.strictObject({
+            campaign_id: z.string(),
+            campaign_name: z.string(),
+            status: z.string(),
+            total_leads: count,
+            lead_status_breakdown: z.record(z.string(), count),
+            emails_sent: count,
+            replies: count,
+            reply_rate: z.string().regex(/^\d+(\.\d+)?%$/).describe("Percentage string, e.g. '4.20%'"),
+            experiments: z.array(experimentReport),
+            created_at: timestamp,
+        })),
+    },
+    {
+        method: 'get', path: '/campaigns/:id/replies', operationId: 'getCampaignReplies', tag: 'Replies', scope: 'replies:read',
+        summary: 'Latest reply on each of the 100 most recent replied threads', status: 200,
+        response: envelope(z.strictObject({
+            total_replies: count,
+            replies: z.array(z.strictObject({
+                thread_id: z.string(),
+                contact_email: z.string(),
+                contact_name: z.string().nullable(),
+                subject: z.string(),
+                body_text: z.string().nullable(),
+                received_at: timestamp,
+            })),
+        })),
+    },
+    {
+        method: 'post', path: '/replies', operationId: 'sendReply', tag: 'Replies', scope: 'replies:send',
+        summary: "Reply on a thread from the thread's mailbox", body: v1SendReplySchema, status: 200,
+        response: envelope(z.strictObject({
+            message_id: z.string(),
+            thread_id: z.string(),
+            from: z.string(),
+            to: z.string(),
+            status: z.literal('sent'),
+        })),
+    },
+    {
+        method: 'get', path: '/validation/results', operationId: 'getValidationResults', tag: 'Validation', scope: 'validation:read',
+        summary: 'Validation totals by status', status: 200,
+        response: envelope(z.strictObject({ total_validated: count, status_breakdown: z.record(z.string(), count) })),
+    },
+    {
+        method: 'get', path: '/mailboxes', operationId: 'listMailboxes', tag: 'Infrastructure', scope: 'mailboxes:read',
+        summary: 'List mailboxes with health', status: 200, response: envelope(z.array(mailbox)),
+    },
+    {
+        method: 'get', path: '/domains', operationId: 'listDomains', tag: 'Infrastructure', scope: 'domains:read',
+        summary: 'List sending domains with health', status: 200, response: envelope(z.array(domain)),
+    },
+    {
+        method: 'get', path: '/account', operationId: 'getAccount', tag: 'Account', scope: 'account:read',
+        summary: 'Plan, 30-day usage and limits', status: 200,
+        response: envelope(z.strictObject({
+            id: z.string(),
+            name: z.string(),
+            slug: z.string(),
+            tier: z.string(),
+            status: z.string(),
+            usage: z.strictObject({ monthly_sends: count, validation_credits: count }),
+            limits: z.strictObject({
+                monthly_sends: z.number().int().nullable(),
+                validation_credits: z.number().int().nullable(),
+            }).describe('null = unlimited'),
+        })),
+    },
+];
+
+// ─── Document ───────────────────────────────────────────────────────────────
+
+function jsonSchema(schema: z.ZodType, io: 'input' | 'output'): Record<string, unknown> {
+    const { $schema: _dialect, ...rest } = z.toJSONSchema(schema, { target: 'draft-2020-12', io, unrepresentable: 'any' });
+    return rest;
+}
+
+const ERROR_REF = { $ref: '#/components/schemas/Error' };
+const errorContent = (description: string) => ({ description, content: { 'application/json': { schema: ERROR_REF } } });
+
+function toOperation(op: V1Operation) {
+    const pathParams = [...op.path.matchAll(/:(\w+)/g)].map(m => m[1]);
+    const query = op.query ? jsonSchema(op.query, 'input') as { properties?: Record<string, any>; required?: string[] } : null;
+
+    const parameters = [
+        ...pathParams.map(name => ({ name, in: 'path', required: true, schema: { type: 'string' } })),
+        ...Object.entries(query?.properties ?? {}).map(([name, schema]) => {
+            const { description, ...rest } = schema;
+            return { name, in: 'query', required: query?.required?.includes(name) ?? false, description, schema: rest };
+        }),
+    ];
+
+    const responses: Record<string, unknown> = {
+        [op.status]: {
+            description: op.summary,
+            content: { 'application/json': { schema: jsonSchema(op.response, 'output') } },
+        },
+    };
+    if (op.body || op.query) responses[400] = errorContent('Invalid request');
+    if (op.scope) {
+        responses[401] = errorContent('Missing or invalid API key');
+        responses[403] = errorContent(`API key lacks the ${op.scope} scope`);
+    }
+    if (pathParams.length) responses[404] = errorContent('Not found in this organization');
+    if (op.scope) responses[500] = errorContent('Server error');
+
+    return {
+        operationId: op.operationId,
+        summary: op.summary,
+        tags: [op.tag],
+        security: op.scope ? [{ apiKey: [op.scope] }] : [],
+        'x-required-scope': op.scope,
+        ...(parameters.length ? { parameters } : {}),
+        ...(op.body ? { requestBody: { required: true, content: { 'application/json': { schema: jsonSchema(op.body, 'input') } } } } : {}),
+        responses,
+    };
+}
+
+export function buildV1OpenApiDocument() {
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const op of V1_OPERATIONS) {
+        const path = op.path.replace(/:(\w+)/g, '{$1}');
+        paths[path] = { ...paths[path], [op.method]: toOperation(op) };
+    }
+
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: 'Superkabe API',
+            version: '1.0.0',
+            description: 'Leads, campaigns, replies, validation and infrastructure health. '
+                + 'Authenticate with an API key (Authorization: Bearer sk_live_...) or an OAuth access token; '
+                + 'each operation lists the scope it needs. Responses use the { success, data, error } envelope.',
+        },
+        servers: [{ url: `${getPublicBackendUrl()}/api/v1` }],
+        tags: Array.from(new Set(V1_OPERATIONS.map(op => op.tag))).map(name => ({ name })),
+        components: {
+            securitySchemes: {
+                apiKey: {
+                    type: 'http',
+                    scheme: 'bearer',
+                    description: `API key or OAuth access token. Scopes: ${AVAILABLE_SCOPES.join(', ')}`,
+                },
+            },
+            schemas: { Error: jsonSchema(errorResponse, 'output') },
+        },
+        paths,
+    };
+}
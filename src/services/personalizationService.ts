@@ -0,0 +1,203 @@
+/**
+ * Personalization Service
+ *
+ * Binds the sequence template engine (utils/templateEngine) to sequencer
+ * data: builds the variable map for a CampaignLead and runs the pre-launch
+ * validation that reports, per lead, every token that would render blank.
+ *
+ * The send path (sendQueueService.composeFinalEmail) and the validation
+ * endpoint both go through renderForLead, so "validation passed" and "the
+ * dispatcher will send it" cannot disagree.
+ */
+
+import { prisma } from '../index';
+import { renderTemplate, validateTemplate, TemplateIssue, TemplateRenderOptions } from '../utils/templateEngine';
+import { emailDomain, isFreeEmailDomain } from '../utils/workEmail';
+
+export interface PersonalizationLead {
+    first_name: string | null;
+    last_name: string | null;
+    company: string | null;
+    email: string;
+    title: string | null;
+    custom_variables: any;
+}
+
+/**
+ * Company website for {{website}}: the lead's email domain, unless it is a
+ * free / disposable provider (gmail.com is nobody's website). A `website`
+ * custom variable overrides it.
+ */
+function websiteFromEmail(email: string): string {
+    const domain = emailDomain(email);
+    return domain && !isFreeEmailDomain(email) ? domain : '';
+}
+
+/**
+ * Variable map for one lead. Keys are lowercased: the engine lowercases the
+ * template token, so a custom variable stored as "SubjectLine" must be
+ * reachable as "subjectline". Internal bookkeeping keys (leading underscore,
+ * e.g. _health_reasons) are not exposed to templates.
+ */
+export function buildLeadVariables(lead: PersonalizationLead): Record<string, string> {
+    const fullName = [lead.first_name, lead.last_name].filter(Boolean).join(' ');
+    const vars: Record<string, string> = {
+        first_name: lead.first_name || '',
+        last_name: lead.last_name || '',
+        full_name: fullName || '',
+        company: lead.company || '',
+        email: lead.email || '',
+        title: lead.title || '',
+        website: websiteFromEmail(lead.email),
+    };
+    if (lead.custom_variables && typeof lead.custom_variables === 'object') {
+        for (const [key, value] of Object.entries(lead.custom_variables as Record<string, any>)) {
+            if (key.startsWith('_')) continue;
+            if (value !== null && typeof value === 'object') continue;
+            vars[key.toLowerCase()] = String(value ?? '');
+        }
+    }
+    return vars;
+}
+
+export function renderForLead(template: string, lead: PersonalizationLead, opts: TemplateRenderOptions = {}) {
+    return renderTemplate(template, buildLeadVariables(lead), opts);
+}
+
+// ─── Pre-launch validation ──────────────────────────────────────────────────
+
+const LEAD_PAGE_SIZE = 500;
+const MAX_REPORTED_LEADS = 1000;
+
+interface ContentPiece {
+    step_number: number;
+    variant_label: string | null;
+    field: 'subject' | 'preheader' | 'body';
+    template: string;
+}
+
+export interface StepTemplateIssue extends TemplateIssue {
+    step_number: number;
+    variant_label: string | null;
+    field: ContentPiece['field'];
+}
+
+export interface LeadUnresolvedReport {
+    lead_id: string;
+    email: string;
+    status: string;
+    unresolved: Array<{ step_number: number; variant_label: string | null; field: ContentPiece['field']; tokens: string[] }>;
+}
+
+export interface CampaignPersonalizationReport {
+    /**
+     * What the dispatcher does with a listed lead. Sending is fail-closed: a
+     * token that renders blank with no `| default:` pauses the lead instead
+     * of sending "Hi ,".
+     */
+    on_unresolved: { action: 'pause_lead'; paused_reason: 'unresolved_tokens'; message: string };
+    template_issues: StepTemplateIssue[];
+    leads_checked: number;
+    leads_with_unresolved: number;
+    /** token -> number of leads missing it, for the "fix your CSV" summary. */
+    token_counts: Record<string, number>;
+    leads: LeadUnresolvedReport[];
+    truncated: boolean;
+}
+
+/**
+ * Render every step / variant for every not-yet-finished lead in the campaign
+ * and report what is unresolved. Read-only.
+ *
+ * Only leads that can still receive mail are checked (active / paused); a
+ * lead that already completed or replied will never render these templates
+ * again. Step-1 subject blanks are reported like any other token miss.
+ */
+export async function validateCampaignPersonalization(orgId: string, campaignId: string): Promise<CampaignPersonalizationReport | null> {
+    const campaign = await prisma.campaign.findFirst({
+        where: { id: campaignId, organization_id: orgId },
+        select: {
+            id: true,
+            schedule_timezone: true,
+            steps: { orderBy: { step_number: 'asc' }, include: { variants: true } },
+        },
+    });
+    if (!campaign) return null;
+
+    const pieces: ContentPiece[] = [];
+    for (const step of campaign.steps) {
+        const base = { step_number: step.step_number };
+        if (step.variants.length === 0) {
+            pieces.push({ ...base, variant_label: null, field: 'subject', template: step.subject });
+            pieces.push({ ...base, variant_label: null, field: 'preheader', template: step.preheader });
+            pieces.push({ ...base, variant_label: null, field: 'body', template: step.body_html });
+        }
+        for (const v of step.variants) {
+            pieces.push({ ...base, variant_label: v.variant_label, field: 'subject', template: v.subject });
+            pieces.push({ ...base, variant_label: v.variant_label, field: 'preheader', template: v.preheader || step.preheader });
+            pieces.push({ ...base, variant_label: v.variant_label, field: 'body', template: v.body_html });
+        }
+    }
+
+    const templateIssues: StepTemplateIssue[] = [];
+    for (const p of pieces) {
+        for (const issue of validateTemplate(p.template)) {
+            templateIssues.push({ ...issue, step_number: p.step_number, variant_label: p.variant_label, field: p.field });
+        }
+    }
+
+    const report: CampaignPersonalizationReport = {
+        on_unresolved: {
+            action: 'pause_lead',
+            paused_reason: 'unresolved_tokens',
+            message: 'Leads listed here are paused instead of sent when they reach the step. '
+                + 'A blank value counts as unresolved unless the token has a default, e.g. {{first_name | default: "there"}}.',
+        },
+        template_issues: templateIssues,
+        leads_checked: 0,
+        leads_with_unresolved: 0,
+        token_counts: {},
+        leads: [],
+        truncated: false,
+    };
+
+    const opts: TemplateRenderOptions = { timezone: campaign.schedule_timezone };
+    let cursor: string | undefined;
+    for (;;) {
+        const page = await prisma.campaignLead.findMany({
+            where: { campaign_id: campaignId, status: { in: ['active', 'paused'] } },
+            orderBy: { id: 'asc' },
+            take: LEAD_PAGE_SIZE,
+            ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+            select: {
+                id: true, email: true, status: true, first_name: true, last_name: true,
+                company: true, title: true, custom_variables: true,
+            },
+        });
+        if (page.length === 0) break;
+        cursor = page[page.length - 1].id;
+
+        for (const lead of page) {
+            report.leads_checked++;
+            const misses: LeadUnresolvedReport['unresolved'] = [];
+            const leadTokens = new Set<string>();
+            for (const p of pieces) {
+                const { unresolved } = renderForLead(p.template, lead, opts);
+                if (unresolved.length === 0) continue;
+                misses.push({ step_number: p.step_number, variant_label: p.variant_label, field: p.field, tokens: unresolved });
+                unresolved.forEach(t => leadTokens.add(t));
+            }
+            if (misses.length === 0) continue;
+            report.leads_with_unresolved++;
+            for (const t of leadTokens) report.token_counts[t] = (report.token_counts[t] || 0) + 1;
+            if (report.leads.length < MAX_REPORTED_LEADS) {
+                report.leads.push({ lead_id: lead.id, email: lead.email, status: lead.status, unresolved: misses });
+            } else {
+                report.truncated = true;
+            }
+        }
+        if (page.length < LEAD_PAGE_SIZE) break;
+    }
+
+    return report;
+}
@@ -0,0 +1,623 @@
+/**
+ * Placement Test Service
+ *
+ * Seed-list inbox placement: before pushing volume through a mailbox, send
+ * one sequence step to a set of operator-owned test inboxes at Gmail,
+ * Outlook, Yahoo etc. and see which folder each copy lands in.
+ *
+ *   1. The operator registers seeds (IMAP credentials, same shape as the
+ *      warmup pool's RecipientCredentials).
+ *   2. createTest() validates the step renders and creates one
+ *      PlacementResult per active seed.
+ *   3. placementTestWorker sends each copy through the real send path
+ *      (sendEmail + composeFinalEmail, so tracking links, footer and SES
+ *      routing all match what a lead would get), stamped with
+ *      X-Superkabe-Placement: <result id>.
+ *   4. The worker IMAP-searches each seed for that header across INBOX /
+ *      Promotions / Spam (engagementService.locateMessageByHeader) and marks
+ *      copies not seen within SEARCH_WINDOW_MS as missing.
+ *
+ * Placement sends never create SendEvent rows and never touch campaign or
+ * mailbox counters - a test must not look like campaign traffic to the
+ * health pipeline.
+ */
+
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+import { AppError } from '../utils/appError';
+import { encrypt } from '../utils/encryption';
+import { sendEmail } from './emailSendAdapters';
+import { composeFinalEmail } from './sendQueueService';
+import { locateMessageByHeader, verifyImapLogin, RecipientCredentials } from './warmup/engagementService';
+
+export const PLACEMENT_HEADER = 'X-Superkabe-Placement';
+
+/** Copies not found by then are recorded as missing (blocked or still deferred). */
+export const SEARCH_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+const MAX_SEEDS_PER_ORG = 50;
+
+export type SeedProvider = 'gmail' | 'outlook' | 'yahoo' | 'other';
+
+const SEED_PROVIDERS: SeedProvider[] = ['gmail', 'outlook', 'yahoo', 'other'];
+
+/** IMAP host used when the operator only gives an address at a public provider. */
+const DEFAULT_IMAP_HOSTS: Record<Exclude<SeedProvider, 'other'>, string> = {
+    gmail: 'imap.gmail.com',
+    outlook: 'outlook.office365.com',
+    yahoo: 'imap.mail.yahoo.com',
+};
+
+const PROVIDER_DOMAINS: Array<[SeedProvider, RegExp]> = [
+    ['gmail', /^(gmail|googlemail)\.com$/],
+    ['outlook', /^(outlook|hotmail|live|msn)\.[a-z.]+$/],
+    ['yahoo', /^(yahoo|ymail|rocketmail|aol)\.[a-z.]+$/],
+];
+
+const PROVIDER_IMAP_HOSTS: Array<[SeedProvider, RegExp]> = [
+    ['gmail', /(^|\.)gmail\.com$/],
+    ['outlook', /(^|\.)(office365|outlook)\.com$/],
+    ['yahoo', /(^|\.)(yahoo|aol)\.com$/],
+];
+
+/**
+ * Bucket a seed by mailbox provider. The IMAP host wins over the address
+ * domain so Google Workspace / Microsoft 365 seeds on custom domains are
+ * reported with the consumer provider they're filtered by.
+ */
+export function inferSeedProvider(email: string, imapHost?: string | null): SeedProvider {
+    const host = (imapHost || '').trim().toLowerCase();
+    for (const [provider, re] of PROVIDER_IMAP_HOSTS) {
+        if (host && re.test(host)) return provider;
+    }
+    const domain = email.split('@')[1]?.toLowerCase() || '';
+    for (const [provider, re] of PROVIDER_DOMAINS) {
+        if (re.test(domain)) return provider;
+    }
+    return 'other';
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Summary
+// ────────────────────────────────────────────────────────────────────
+
+export interface PlacementResultRow {
+    provider: string;
+    status: string;
+    landed_in: string | null;
+}
+
+export interface PlacementCounts {
+    total: number;
+    inbox: number;
+    promotions: number;
+    spam: number;
+    missing: number;
+    pending: number;
+    send_failed: number;
+    /** Inbox share of copies with a verdict (found or missing); null until one exists. */
+    inbox_rate: number | null;
+    spam_rate: number | null;
+}
+
+export interface PlacementSummary extends PlacementCounts {
+    by_provider: Record<string, PlacementCounts>;
+}
+
+function emptyCounts(): PlacementCounts {
+    return { total: 0, inbox: 0, promotions: 0, spam: 0, missing: 0, pending: 0, send_failed: 0, inbox_rate: null, spam_rate: null };
+}
+
+function tally(c: PlacementCounts, row: PlacementResultRow): void {
+    c.total++;
+    if (row.status === 'found') {
+        // 'unknown' folders only happen for custom layouts; count them as
+        // inbox-adjacent rather than inventing a fourth bucket.
+        if (row.landed_in === 'spam') c.spam++;
+        else if (row.landed_in === 'promotions') c.promotions++;
+        else c.inbox++;
+    } else if (row.status === 'missing') c.missing++;
+    else if (row.status === 'send_failed') c.send_failed++;
+    else c.pending++;
+}
+
+function finishRates(c: PlacementCounts): void {
+    const judged = c.inbox + c.promotions + c.spam + c.missing;
+    c.inbox_rate = judged > 0 ? c.inbox / judged : null;
+    c.spam_rate = judged > 0 ? c.spam / judged : null;
+}
+
+/**
+ * Folder counts overall and per provider. Missing copies count against the
+ * inbox rate (a copy the provider silently dropped is worse than spam);
+ * pending and send failures don't, since they say nothing about filtering.
+ */
+export function summarizePlacement(rows: PlacementResultRow[]): PlacementSummary {
+    const summary: PlacementSummary = { ...emptyCounts(), by_provider: {} };
+    for (const row of rows) {
+        tally(summary, row);
+        const bucket = summary.by_provider[row.provider] ??= emptyCounts();
+        tally(bucket, row);
+    }
+    finishRates(summary);
+    for (const bucket of Object.values(summary.by_provider)) finishRates(bucket);
+    return summary;
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Seeds
+// ────────────────────────────────────────────────────────────────────
+
+const SEED_SELECT = {
+    id: true,
+    email: true,
+    provider: true,
+    imap_host: true,
+    imap_port: true,
+    imap_username: true,
+    active: true,
+    created_at: true,
+    updated_at: true,
+} as const;
+
+export interface SeedInput {
+    email?: unknown;
+    provider?: unknown;
+    imap_host?: unknown;
+    imap_port?: unknown;
+    imap_username?: unknown;
+    imap_password?: unknown;
+    active?: unknown;
+}
+
+function optionalString(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parsePort(value: unknown): number {
+    if (value === undefined || value === null || value === '') return 993;
+    const port = Number(value);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) throw new AppError('imap_port must be a valid port', 400);
+    return port;
+}
+
+function parseProvider(value: unknown, email: string, imapHost: string | null): SeedProvider {
+    if (value === undefined || value === null || value === '') return inferSeedProvider(email, imapHost);
+    if (!SEED_PROVIDERS.includes(value as SeedProvider)) {
+        throw new AppError(`provider must be one of ${SEED_PROVIDERS.join(', ')}`, 400);
+    }
+    return value as SeedProvider;
+}
+
+function seedCredentials(seed: { email: string; imap_host: string; imap_port: number; imap_username: string | null; imap_password: string }): RecipientCredentials {
+    return {
+        email: seed.email,
+        imapHost: seed.imap_host,
+        imapPort: seed.imap_port,
+        imapUser: seed.imap_username || seed.email,
+        imapPassword: seed.imap_password,
+    };
+}
+
+/** Seeds are checked on save - a wrong password would otherwise only show up
+ *  as every copy going "missing" two hours later. */
+async function assertSeedLogin(seed: Parameters<typeof seedCredentials>[0]): Promise<void> {
+    const error = await verifyImapLogin(seedCredentials(seed));
+    if (error) throw new AppError(`Could not log in to ${seed.email} over IMAP: ${error}`, 400);
+}
+
+export async function listSeeds(organizationId: string) {
+    return prisma.placementSeed.findMany({
+        where: { organization_id: organizationId },
+        select: SEED_SELECT,
+        orderBy: [{ provider: 'asc' }, { email: 'asc' }],
+    });
+}
+
+export async function createSeed(organizationId: string, input: SeedInput) {
+    const email = optionalString(input.email)?.toLowerCase();
+    if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new AppError('A valid seed email is required', 400);
+    const password = optionalString(input.imap_password);
+    if (!password) throw new AppError('imap_password is required', 400);
+
+    const givenHost = optionalString(input.imap_host);
+    const provider = parseProvider(input.provider, email, givenHost);
+    const imapHost = givenHost || (provider !== 'other' ? DEFAULT_IMAP_HOSTS[provider] : null);
+    if (!imapHost) throw new AppError('imap_host is required for seeds outside Gmail, Outlook and Yahoo', 400);
+
+    const count = await prisma.placementSeed.count({ where: { organization_id: organizationId } });
+    if (count >= MAX_SEEDS_PER_ORG) throw new AppError(`Seed lists are limited to ${MAX_SEEDS_PER_ORG} inboxes`, 400);
+
+    const existing = await prisma.placementSeed.findUnique({
+        where: { organization_id_email: { organization_id: organizationId, email } },
+        select: { id: true },
+    });
+    if (existing) throw new AppError('This seed is already registered', 409);
+
+    const creds = {
+        email,
+        imap_host: imapHost,
+        imap_port: parsePort(input.imap_port),
+        imap_username: optionalString(input.imap_username),
+        imap_password: encrypt(password),
+    };
+    await assertSeedLogin(creds);
+
+    return prisma.placementSeed.create({
+        data: {
+            organization_id: organizationId,
+            ...creds,
+            provider,
+            active: input.active === undefined ? true : input.active === true,
+        },
+        select: SEED_SELECT,
+    });
+}
+
+export async function updateSeed(organizationId: string, seedId: string, input: SeedInput) {
+    const seed = await prisma.placementSeed.findFirst({ where: { id: seedId, organization_id: organizationId } });
+    if (!seed) throw new AppError('Seed not found', 404);
+
+    const data: Record<string, unknown> = {};
+    if (input.imap_host !== undefined) {
+        const host = optionalString(input.imap_host);
+        if (!host) throw new AppError('imap_host cannot be empty', 400);
+        data.imap_host = host;
+    }
+    if (input.imap_port !== undefined) data.imap_port = parsePort(input.imap_port);
+    if (input.imap_username !== undefined) data.imap_username = optionalString(input.imap_username);
+    if (input.imap_password !== undefined) {
+        const password = optionalString(input.imap_password);
+        if (!password) throw new AppError('imap_password cannot be empty', 400);
+        data.imap_password = encrypt(password);
+    }
+    if (input.provider !== undefined) data.provider = parseProvider(input.provider, seed.email, (data.imap_host as string) ?? seed.imap_host);
+    if (input.active !== undefined) data.active = input.active === true;
+    if (data.imap_host || data.imap_port || data.imap_username !== undefined || data.imap_password) {
+        await assertSeedLogin({ ...seed, ...data } as Parameters<typeof seedCredentials>[0]);
+    }
+
+    return prisma.placementSeed.update({ where: { id: seed.id }, data, select: SEED_SELECT });
+}
+
+export async function deleteSeed(organizationId: string, seedId: string): Promise<void> {
+    const { count } = await prisma.placementSeed.deleteMany({ where: { id: seedId, organization_id: organizationId } });
+    if (count === 0) throw new AppError('Seed not found', 404);
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Tests
+// ────────────────────────────────────────────────────────────────────
+
+interface StepContent {
+    subject: string;
+    body_html: string;
+    preheader: string;
+}
+
+interface CampaignSettings {
+    track_opens: boolean | null;
+    track_clicks: boolean | null;
+    include_unsubscribe: boolean | null;
+    tracking_domain: string | null;
+    eu_compliance_mode: boolean | null;
+    schedule_timezone: string | null;
+}
+
+interface RenderLead {
+    first_name: string | null;
+    last_name: string | null;
+    company: string | null;
+    email: string;
+    title: string | null;
+    custom_variables: any;
+}
+
+/** Render one seed's copy through the dispatcher's pipeline. */
+function composeCopy(args: {
+    step: StepContent;
+    campaign: CampaignSettings;
+    lead: RenderLead;
+    resultId: string;
+    trackingDomain: string | null;
+    mailingAddress: string | null;
+}) {
+    return composeFinalEmail({
+        rawSubject: args.step.subject,
+        rawBody: args.step.body_html,
+        rawPreheader: args.step.preheader,
+        lead: args.lead,
+        // Tracking ids point at the result, not a CampaignLead, so a seed
+        // clicking through never credits (or unsubscribes) a real lead.
+        leadId: args.resultId,
+        trackOpens: args.campaign.track_opens ?? true,
+        trackClicks: args.campaign.track_clicks ?? true,
+        includeUnsubscribe: args.campaign.include_unsubscribe ?? true,
+        trackingDomain: args.trackingDomain,
+        euComplianceMode: args.campaign.eu_compliance_mode ?? false,
+        mailingAddress: args.mailingAddress,
+        timezone: args.campaign.schedule_timezone,
+    });
+}
+
+/** Without a sample lead, seeds render with their own address and no other data. */
+function seedLead(email: string, sample: RenderLead | null): RenderLead {
+    return sample ?? { first_name: null, last_name: null, company: null, email, title: null, custom_variables: {} };
+}
+
+export async function createTest(organizationId: string, input: {
+    mailboxId?: unknown;
+    stepId?: unknown;
+    campaignLeadId?: unknown;
+    userId?: string | null;
+}) {
+    const mailboxId = optionalString(input.mailboxId);
+    const stepId = optionalString(input.stepId);
+    if (!mailboxId || !stepId) throw new AppError('mailbox_id and sequence_step_id are required', 400);
+
+    const [account, step, seeds] = await Promise.all([
+        prisma.connectedAccount.findFirst({
+            where: { id: mailboxId, organization_id: organizationId },
+            select: { id: true, email: true },
+        }),
+        prisma.sequenceStep.findFirst({
+            where: { id: stepId, campaign: { organization_id: organizationId } },
+            select: { id: true, campaign_id: true, subject: true, body_html: true, preheader: true },
+        }),
+        prisma.placementSeed.findMany({
+            where: { organization_id: organizationId, active: true },
+            select: { id: true, email: true, provider: true },
+        }),
+    ]);
+    if (!account) throw new AppError('Mailbox not found', 404);
+    if (!step) throw new AppError('Sequence step not found', 404);
+    if (seeds.length === 0) throw new AppError('Register at least one active seed inbox first', 400);
+
+    let sample: RenderLead | null = null;
+    const campaignLeadId = optionalString(input.campaignLeadId);
+    if (campaignLeadId) {
+        sample = await prisma.campaignLead.findFirst({
+            where: { id: campaignLeadId, campaign_id: step.campaign_id },
+            select: { first_name: true, last_name: true, company: true, email: true, title: true, custom_variables: true },
+        });
+        if (!sample) throw new AppError('Sample lead not found in this campaign', 404);
+    }
+
+    const campaign = await prisma.campaign.findUnique({
+        where: { id: step.campaign_id },
+        select: {
+            track_opens: true, track_clicks: true, include_unsubscribe: true,
+            tracking_domain: true, eu_compliance_mode: true, schedule_timezone: true,
+        },
+    });
+    if (!campaign) throw new AppError('Sequence step not found', 404);
+
+    // Same fail-closed rule as the dispatcher: a test of "Hi ," says nothing
+    // about how the real email places.
+    const probe = composeCopy({
+        step, campaign, lead: seedLead(seeds[0].email, sample), resultId: 'probe',
+        trackingDomain: campaign.tracking_domain, mailingAddress: null,
+    });
+    if (probe.templateIssues.length > 0) {
+        throw new AppError(`Step template has errors: ${probe.templateIssues.join('; ')}`, 400);
+    }
+    if (probe.unresolvedTokens.length > 0) {
+        throw new AppError(
+            `Step uses ${probe.unresolvedTokens.join(', ')} with no default - pass campaign_lead_id to render with a real lead`,
+            400,
+        );
+    }
+
+    return prisma.placementTest.create({
+        data: {
+            organization_id: organizationId,
+            mailbox_id: account.id,
+            campaign_id: step.campaign_id,
+            sequence_step_id: step.id,
+            campaign_lead_id: sample ? campaignLeadId : null,
+            subject: probe.subject,
+            created_by: input.userId ?? null,
+            results: {
+                create: seeds.map(s => ({ seed_id: s.id, seed_email: s.email, provider: s.provider })),
+            },
+        },
+        include: { results: true },
+    });
+}
+
+/**
+ * Send every unsent copy of a 'sending' test, then move it to 'polling'.
+ * Called by the worker; safe to re-run after a crash because only results
+ * without sent_at are sent.
+ */
+export async function sendTest(testId: string): Promise<{ sent: number; failed: number }> {
+    const test = await prisma.placementTest.findUnique({
+        where: { id: testId },
+        include: { results: { where: { status: 'pending', sent_at: null } } },
+    });
+    if (!test || test.status !== 'sending') return { sent: 0, failed: 0 };
+
+    const fail = async (error: string) => {
+        await prisma.placementTest.update({ where: { id: test.id }, data: { status: 'failed', error, completed_at: new Date() } });
+        await prisma.placementResult.updateMany({ where: { test_id: test.id, status: 'pending' }, data: { status: 'send_failed', error } });
+        return { sent: 0, failed: test.results.length };
+    };
+
+    const [account, step, campaign, org] = await Promise.all([
+        prisma.connectedAccount.findUnique({ where: { id: test.mailbox_id } }),
+        prisma.sequenceStep.findUnique({
+            where: { id: test.sequence_step_id },
+            select: { subject: true, body_html: true, preheader: true },
+        }),
+        prisma.campaign.findUnique({
+            where: { id: test.campaign_id },
+            select: {
+                track_opens: true, track_clicks: true, include_unsubscribe: true,
+                tracking_domain: true, eu_compliance_mode: true, schedule_timezone: true,
+            },
+        }),
+        prisma.organization.findUnique({ where: { id: test.organization_id }, select: { mailing_address: true } }),
+    ]);
+    if (!account) return fail('Mailbox no longer exists');
+    if (!step || !campaign) return fail('Sequence step no longer exists');
+
+    const sample = test.campaign_lead_id
+        ? await prisma.campaignLead.findUnique({
+            where: { id: test.campaign_lead_id },
+            select: { first_name: true, last_name: true, company: true, email: true, title: true, custom_variables: true },
+        })
+        : null;
+
+    const trackingDomain = (account.tracking_domain && account.tracking_domain_verified)
+        ? account.tracking_domain
+        : campaign.tracking_domain;
+
+    let sent = 0;
+    let failed = 0;
+    for (const result of test.results) {
+        const copy = composeCopy({
+            step, campaign, lead: seedLead(result.seed_email, sample), resultId: result.id,
+            trackingDomain, mailingAddress: org?.mailing_address || null,
+        });
+        const outcome = await sendEmail(account, result.seed_email, copy.subject, copy.bodyHtml, {
+            unsubscribeUrl: copy.unsubscribeUrl || null,
+            headers: { [PLACEMENT_HEADER]: result.id },
+        });
+        if (outcome.success) {
+            sent++;
+            await prisma.placementResult.update({ where: { id: result.id }, data: { sent_at: new Date() } });
+        } else {
+            failed++;
+            await prisma.placementResult.update({
+                where: { id: result.id },
+                data: { status: 'send_failed', error: outcome.error || 'Send failed' },
+            });
+        }
+    }
+
+    if (sent === 0 && failed > 0) return fail('Every seed send failed - check the mailbox connection');
+    await prisma.placementTest.update({ where: { id: test.id }, data: { status: 'polling', sent_at: new Date() } });
+    logger.info('[PLACEMENT] Test sent', { testId: test.id, mailboxId: test.mailbox_id, sent, failed });
+    return { sent, failed };
+}
+
+/**
+ * Look for each sent-but-unfound copy in its seed inbox. One IMAP session
+ * per copy (locateMessageByHeader owns the connection). Returns how many
+ * were found.
+ */
+export async function pollResults(limit: number): Promise<{ found: number; missing: number }> {
+    const pending = await prisma.placementResult.findMany({
+        where: { status: 'pending', sent_at: { not: null }, test: { status: 'polling' } },
+        orderBy: { sent_at: 'asc' },
+        take: limit,
+    });
+    if (pending.length === 0) return { found: 0, missing: 0 };
+
+    const seeds = await prisma.placementSeed.findMany({ where: { id: { in: Array.from(new Set(pending.map(r => r.seed_id))) } } });
+    const seedById = new Map(seeds.map(s => [s.id, s]));
+
+    let found = 0;
+    let missing = 0;
+    for (const result of pending) {
+        const seed = seedById.get(result.seed_id);
+        const expired = Date.now() - result.sent_at!.getTime() > SEARCH_WINDOW_MS;
+        if (!seed) {
+            await prisma.placementResult.update({ where: { id: result.id }, data: { status: 'missing', error: 'Seed was removed' } });
+            missing++;
+            continue;
+        }
+
+        const location = await locateMessageByHeader({
+            creds: seedCredentials(seed),
+            headerName: PLACEMENT_HEADER,
+            headerValue: result.id,
+        });
+        if (location) {
+            found++;
+            await prisma.placementResult.update({
+                where: { id: result.id },
+                data: { status: 'found', landed_in: location.landedIn, folder: location.folder, found_at: new Date() },
+            });
+        } else if (expired) {
+            missing++;
+            await prisma.placementResult.update({
+                where: { id: result.id },
+                data: { status: 'missing', error: `Not found in INBOX, Promotions or Spam within ${SEARCH_WINDOW_MS / 3600_000}h` },
+            });
+        }
+    }
+    return { found, missing };
+}
+
+/** Close out polling tests with nothing left pending and store their summary. */
+export async function completeFinishedTests(): Promise<number> {
+    const tests = await prisma.placementTest.findMany({
+        where: { status: 'polling', results: { none: { status: 'pending' } } },
+        include: { results: { select: { provider: true, status: true, landed_in: true } } },
+    });
+    for (const test of tests) {
+        await prisma.placementTest.update({
+            where: { id: test.id },
+            data: {
+                status: 'completed',
+                completed_at: new Date(),
+                summary: summarizePlacement(test.results) as any,
+            },
+        });
+    }
+    return tests.length;
+}
+
+function withSummary<T extends { status: string; summary: unknown; results: PlacementResultRow[] }>(test: T) {
+    // Running tests get a live summary; completed ones keep the stored one.
+    return test.status === 'completed' ? test : { ...test, summary: summarizePlacement(test.results) };
+}
+
+export async function listTests(organizationId: string, opts: { mailboxId?: string; limit?: number }) {
+    const tests = await prisma.placementTest.findMany({
+        where: { organization_id: organizationId, ...(opts.mailboxId ? { mailbox_id: opts.mailboxId } : {}) },
+        include: { results: { select: { provider: true, status: true, landed_in: true } } },
+        orderBy: { created_at: 'desc' },
+        take: Math.min(Math.max(opts.limit ?? 25, 1), 100),
+    });
+    return tests.map(t => {
+        const { results: _results, ...rest } = withSummary(t);
+        return rest;
+    });
+}
+
+export async function getTest(organizationId: string, testId: string) {
+    const test = await prisma.placementTest.findFirst({
+        where: { id: testId, organization_id: organizationId },
+        include: { results: { orderBy: [{ provider: 'asc' }, { seed_email: 'asc' }] } },
+    });
+    if (!test) throw new AppError('Placement test not found', 404);
+    return withSummary(test);
+}
+
+/**
+ * Placement over time for one mailbox: each finished test's summary plus
+ * the per-provider totals across the window.
+ */
+export async function getMailboxPlacementHistory(organizationId: string, mailboxId: string, since: Date) {
+    const tests = await prisma.placementTest.findMany({
+        where: { organization_id: organizationId, mailbox_id: mailboxId, status: 'completed', created_at: { gte: since } },
+        include: { results: { select: { provider: true, status: true, landed_in: true } } },
+        orderBy: { created_at: 'asc' },
+    });
+    return {
+        mailbox_id: mailboxId,
+        since,
+        overall: summarizePlacement(tests.flatMap(t => t.results)),
+        tests: tests.map(t => ({
+            id: t.id,
+            campaign_id: t.campaign_id,
+            sequence_step_id: t.sequence_step_id,
+            subject: t.subject,
+            created_at: t.created_at,
+            completed_at: t.completed_at,
+            summary: summarizePlacement(t.results),
+        })),
+    };
+}
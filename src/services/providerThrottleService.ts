@@ -0,0 +1,295 @@
+/**
+ * Provider Throttle Service
+ *
+ * bounceClassifier already tells us which provider deferred a message and
+ * that a 4xx is transient, but the send queue used to keep pacing a mailbox
+ * the same way while Microsoft or Yahoo were answering 421/451 "try again
+ * later". Retrying into a throttle prolongs it and reads as volume abuse.
+ *
+ * This keeps one ProviderThrottle row per (sending mailbox, recipient
+ * provider), learned from those deferrals:
+ *   - normal      no limit (the default; most pairs never get a row).
+ *   - backoff     a rate-limit deferral stops all sends to that provider from
+ *                 that mailbox until backoff_until. The pause doubles with
+ *                 each consecutive deferral (15 min → 8 h cap).
+ *   - recovering  once the backoff lapses, sends resume slow-start: 2 per
+ *                 hour-long window, doubling after each window without a
+ *                 deferral, back to normal at 32. A deferral mid-recovery
+ *                 drops straight back to a (longer) backoff.
+ *
+ * The dispatcher skips throttled pairs when assigning leads and the batch
+ * worker re-checks right before each send, parking the lead until the pair
+ * can take mail again. The transition logic is pure so both sides, and the
+ * tests, share it; rows are written only on deferrals and on sends while a
+ * pair is not normal.
+ */
+
+import { prisma } from '../index';
+import { logger, maskEmail } from './observabilityService';
+import { classifyFailureType, resolveProvider } from './bounceClassifier';
+import { BounceFailureType, EmailProvider } from '../types';
+
+export type ThrottleState = 'normal' | 'backoff' | 'recovering';
+
+export interface ThrottleSnapshot {
+    state: ThrottleState;
+    consecutive_deferrals: number;
+    backoff_until: Date | null;
+    window_limit: number | null;
+    window_started_at: Date | null;
+    window_sent: number;
+}
+
+export type ThrottleGate = { allowed: true } | { allowed: false; retryAt: Date };
+
+/** Providers whose deferrals drive adaptive throttling. */
+export const ADAPTIVE_PROVIDERS: ReadonlySet<string> = new Set([EmailProvider.MICROSOFT, EmailProvider.YAHOO]);
+
+export const BACKOFF_BASE_MS = 15 * 60 * 1000;
+export const BACKOFF_MAX_MS = 8 * 60 * 60 * 1000;
+export const SLOW_START_WINDOW_MS = 60 * 60 * 1000;
+export const SLOW_START_INITIAL = 2;
+export const SLOW_START_CEILING = 32;
+
+const DEFERRAL_CODES = new Set([421, 451]);
+
+const NORMAL: ThrottleSnapshot = {
+    state: 'normal',
+    consecutive_deferrals: 0,
+    backoff_until: null,
+    window_limit: null,
+    window_started_at: null,
+    window_sent: 0,
+};
+
+export function throttleKey(mailboxId: string, provider: string): string {
+    return `${mailboxId}:${provider}`;
+}
+
+/**
+ * The recipient's provider when it is one we throttle adaptively, else null.
+ * The lead's MX-derived esp_bucket catches hosted business domains that the
+ * consumer-domain map in bounceClassifier doesn't know.
+ */
+export function adaptiveProvider(recipientEmail: string, espBucket?: string | null): string | null {
+    const provider = espBucket && ADAPTIVE_PROVIDERS.has(espBucket)
+        ? espBucket
+        : resolveProvider(recipientEmail);
+    return ADAPTIVE_PROVIDERS.has(provider) ? provider : null;
+}
+
+/**
+ * A 421/451 deferral, or any other 4xx the classifier reads as provider
+ * throttling. Without an SMTP code the leading code of the response is used.
+ */
+export function isRateLimitDeferral(smtpCode?: string | null, smtpResponse?: string | null): boolean {
+    const text = smtpResponse || '';
+    const raw = smtpCode ? smtpCode.split('.')[0] : text.trim().slice(0, 3);
+    const code = parseInt(raw, 10);
+    if (!(code >= 400 && code < 500)) return false;
+    return DEFERRAL_CODES.has(code) || classifyFailureType(text) === BounceFailureType.PROVIDER_THROTTLE;
+}
+
+export function backoffMs(consecutiveDeferrals: number): number {
+    const exponent = Math.max(0, consecutiveDeferrals - 1);
+    return Math.min(BACKOFF_BASE_MS * 2 ** exponent, BACKOFF_MAX_MS);
+}
+
+/** State as of `now`: a lapsed backoff is already recovering. */
+export function effectiveState(snapshot: ThrottleSnapshot, now: Date): ThrottleState {
+    if (snapshot.state === 'backoff' && snapshot.backoff_until && snapshot.backoff_until <= now) {
+        return 'recovering';
+    }
+    return snapshot.state;
+}
+
+export function applyDeferral(snapshot: ThrottleSnapshot | null, now: Date): ThrottleSnapshot {
+    const consecutive = (snapshot?.consecutive_deferrals ?? 0) + 1;
+    return {
+        state: 'backoff',
+        consecutive_deferrals: consecutive,
+        backoff_until: new Date(now.getTime() + backoffMs(consecutive)),
+        window_limit: SLOW_START_INITIAL,
+        window_started_at: null,
+        window_sent: 0,
+    };
+}
+
+export function admit(snapshot: ThrottleSnapshot | null | undefined, now: Date): ThrottleGate {
+    if (!snapshot || snapshot.state === 'normal') return { allowed: true };
+    if (effectiveState(snapshot, now) === 'backoff') {
+        return { allowed: false, retryAt: snapshot.backoff_until! };
+    }
+    const windowStart = snapshot.state === 'recovering' ? snapshot.window_started_at : null;
+    if (!windowStart || now.getTime() - windowStart.getTime() >= SLOW_START_WINDOW_MS) {
+        return { allowed: true };
+    }
+    if (snapshot.window_sent < (snapshot.window_limit ?? SLOW_START_INITIAL)) return { allowed: true };
+    return { allowed: false, retryAt: new Date(windowStart.getTime() + SLOW_START_WINDOW_MS) };
+}
+
+/**
+ * Count one accepted send. Opens a new slow-start window when the last one
+ * has closed, doubling the limit after each clean window; reaching the
+ * ceiling returns the pair to normal. Normal snapshots come back unchanged.
+ */
+export function applySend(snapshot: ThrottleSnapshot, now: Date): ThrottleSnapshot {
+    if (snapshot.state === 'normal') return snapshot;
+
+    const recovering = snapshot.state === 'recovering';
+    const windowStart = recovering ? snapshot.window_started_at : null;
+    if (windowStart && now.getTime() - windowStart.getTime() < SLOW_START_WINDOW_MS) {
+        return { ...snapshot, window_sent: snapshot.window_sent + 1 };
+    }
+
+    const limit = snapshot.window_limit ?? SLOW_START_INITIAL;
+    const nextLimit = windowStart ? limit * 2 : limit;
+    if (nextLimit >= SLOW_START_CEILING) return { ...NORMAL };
+
+    return {
+        ...snapshot,
+        state: 'recovering',
+        backoff_until: null,
+        window_limit: nextLimit,
+        window_started_at: now,
+        window_sent: 1,
+    };
+}
+
+function toSnapshot(row: {
+    state: string;
+    consecutive_deferrals: number;
+    backoff_until: Date | null;
+    window_limit: number | null;
+    window_started_at: Date | null;
+    window_sent: number;
+}): ThrottleSnapshot {
+    return {
+        state: row.state as ThrottleState,
+        consecutive_deferrals: row.consecutive_deferrals,
+        backoff_until: row.backoff_until,
+        window_limit: row.window_limit,
+        window_started_at: row.window_started_at,
+        window_sent: row.window_sent,
+    };
+}
+
+/**
+ * Throttled pairs for the given mailboxes, keyed by throttleKey. Normal rows
+ * are left out - a missing entry means unthrottled.
+ */
+export async function loadThrottles(mailboxIds: string[]): Promise<Map<string, ThrottleSnapshot>> {
+    const map = new Map<string, ThrottleSnapshot>();
+    if (mailboxIds.length === 0) return map;
+    const rows = await prisma.providerThrottle.findMany({
+        where: { mailbox_id: { in: mailboxIds }, state: { not: 'normal' } },
+    });
+    for (const row of rows) map.set(throttleKey(row.mailbox_id, row.provider), toSnapshot(row));
+    return map;
+}
+
+/**
+ * Record a rate-limit deferral and return the new (backoff) snapshot.
+ * `current` is the caller's cached snapshot; null/undefined means normal.
+ */
+export async function recordDeferral(params: {
+    organizationId: string;
+    mailboxId: string;
+    provider: string;
+    recipientEmail: string;
+    smtpCode?: string | null;
+    smtpResponse?: string | null;
+    current?: ThrottleSnapshot | null;
+}): Promise<ThrottleSnapshot> {
+    const now = new Date();
+    const next = applyDeferral(params.current ?? null, now);
+    const deferral = {
+        last_deferral_at: now,
+        last_smtp_code: params.smtpCode ?? null,
+        last_smtp_response: params.smtpResponse ? params.smtpResponse.slice(0, 500) : null,
+    };
+    await prisma.providerThrottle.upsert({
+        where: { mailbox_id_provider: { mailbox_id: params.mailboxId, provider: params.provider } },
+        create: {
+            organization_id: params.organizationId,
+            mailbox_id: params.mailboxId,
+            provider: params.provider,
+            ...next,
+            ...deferral,
+            total_deferrals: 1,
+        },
+        update: { ...next, ...deferral, total_deferrals: { increment: 1 } },
+    });
+    logger.warn(`[PROVIDER-THROTTLE] ${params.provider} deferred ${maskEmail(params.recipientEmail)} from mailbox ${params.mailboxId} - backing off until ${next.backoff_until!.toISOString()}`, {
+        organizationId: params.organizationId,
+        consecutiveDeferrals: next.consecutive_deferrals,
+        smtpCode: params.smtpCode,
+    });
+    return next;
+}
+
+/**
+ * Count an accepted send against a throttled pair. Writes only when the pair
+ * is throttled; returns the updated snapshot (or the input when normal).
+ */
+export async function recordSend(mailboxId: string, provider: string, current: ThrottleSnapshot): Promise<ThrottleSnapshot> {
+    const next = applySend(current, new Date());
+    if (next === current) return current;
+    const recovered = next.state === 'normal';
+    await prisma.providerThrottle.update({
+        where: { mailbox_id_provider: { mailbox_id: mailboxId, provider } },
+        data: { ...next, ...(recovered ? { recovered_at: new Date() } : {}) },
+    });
+    if (recovered) {
+        logger.info(`[PROVIDER-THROTTLE] Mailbox ${mailboxId} recovered full pace to ${provider}`);
+    }
+    return next;
+}
+
+export interface ProviderThrottleView {
+    provider: string;
+    state: ThrottleState;
+    backoff_until: Date | null;
+    window_limit: number | null;
+    window_sent: number;
+    consecutive_deferrals: number;
+    total_deferrals: number;
+    last_deferral_at: Date | null;
+    last_smtp_code: string | null;
+    last_smtp_response: string | null;
+    recovered_at: Date | null;
+}
+
+/**
+ * Dashboard view of every learned throttle for the given mailboxes, keyed by
+ * mailbox_id. Includes pairs back at normal so the last deferral stays visible.
+ */
+export async function listForMailboxes(orgId: string, mailboxIds: string[]): Promise<Map<string, ProviderThrottleView[]>> {
+    const byMailbox = new Map<string, ProviderThrottleView[]>();
+    if (mailboxIds.length === 0) return byMailbox;
+    const now = new Date();
+    const rows = await prisma.providerThrottle.findMany({
+        where: { organization_id: orgId, mailbox_id: { in: mailboxIds } },
+        orderBy: { provider: 'asc' },
+    });
+    for (const row of rows) {
+        const state = effectiveState(toSnapshot(row), now);
+        const view: ProviderThrottleView = {
+            provider: row.provider,
+            state,
+            backoff_until: state === 'backoff' ? row.backoff_until : null,
+            window_limit: state === 'recovering' ? row.window_limit ?? SLOW_START_INITIAL : null,
+            window_sent: state === 'recovering' && row.state === 'recovering' ? row.window_sent : 0,
+            consecutive_deferrals: row.consecutive_deferrals,
+            total_deferrals: row.total_deferrals,
+            last_deferral_at: row.last_deferral_at,
+            last_smtp_code: row.last_smtp_code,
+            last_smtp_response: row.last_smtp_response,
+            recovered_at: row.recovered_at,
+        };
+        const list = byMailbox.get(row.mailbox_id) || [];
+        list.push(view);
+        byMailbox.set(row.mailbox_id, list);
+    }
+    return byMailbox;
+}
@@ -399,7 +399,7 @@ export interface PreviewIssue {
     affectsClients?: ClientKey[];
 }
 
-const SPAM_TRIGGER_WORDS = [
+export const SPAM_TRIGGER_WORDS = [
     'free', 'free trial', 'guarantee', 'no obligation', 'risk free', 'click here',
     'act now', 'limited time', 'urgent', 'congratulations', 'winner', 'cash',
     'earn money', 'make $', 'best price', '100% free', 'no cost', 'discount',
@@ -10,14 +10,16 @@
  * action shouldn't block the rest of the IMAP worker's processing.
  *
  * Action kinds:
- *   'suppress'   - add to OrgReplySuppression. Future campaign creates +
- *                  addLeads consult this list and drop matching emails.
+ *   'suppress'   - add the contact to the org suppression list
+ *                  (suppressionService); intake, enrollment and dispatch
+ *                  all consult it.
  *   'pause_lead' - set CampaignLead.status='paused', clear next_send_at.
  *   'alert'      - create a Notification row for the org owner.
  */
 
 import { prisma } from '../index';
 import { logger } from './observabilityService';
+import * as suppressionService from './suppressionService';
 
 export interface ReplyActionContext {
     organizationId: string;
@@ -117,21 +119,11 @@ export async function applyReplyActions(ctx: ReplyActionContext): Promise<void>
         try {
             switch (rule.action_kind) {
                 case 'suppress':
-                    await prisma.orgReplySuppression.upsert({
-                        where: {
-                            organization_id_email: {
-                                organization_id: ctx.organizationId,
-                                email: ctx.contactEmail.toLowerCase(),
-                            },
-                        },
-                        create: {
-                            organization_id: ctx.organizationId,
-                            email: ctx.contactEmail.toLowerCase(),
-                            reason: `reply_${ctx.replyClass}`,
-                            source_thread_id: ctx.threadId,
-                        },
-                        update: { reason: `reply_${ctx.replyClass}`, source_thread_id: ctx.threadId },
-                    });
+                    await suppressionService.suppress(
+                        ctx.organizationId,
+                        { value: ctx.contactEmail, type: 'email', reason: `reply_${ctx.replyClass}` },
+                        { source: 'reply_action', sourceThreadId: ctx.threadId },
+                    );
                     logger.info('[REPLY_ACTION] Suppressed', { email: ctx.contactEmail, class: ctx.replyClass });
                     break;
 
@@ -178,28 +170,3 @@ export async function applyReplyActions(ctx: ReplyActionContext): Promise<void>
         }
     }
 }
-
-/** Check the org-wide reply suppression list. Used by both the
- *  sequencer dispatch path and the campaign-create lead intake to
- *  drop emails that have replied negatively in the past. */
-export async function isOrgSuppressed(organizationId: string, email: string): Promise<boolean> {
-    const norm = email.trim().toLowerCase();
-    if (!norm) return false;
-    const row = await prisma.orgReplySuppression.findUnique({
-        where: { organization_id_email: { organization_id: organizationId, email: norm } },
-        select: { id: true },
-    });
-    return Boolean(row);
-}
-
-/** Bulk variant - used by lead-import flows. */
-export async function getSuppressedEmailSet(organizationId: string, emails: string[]): Promise<Set<string>> {
-    if (emails.length === 0) return new Set();
-    const lower = Array.from(new Set(emails.map(e => e.trim().toLowerCase()).filter(Boolean)));
-    if (lower.length === 0) return new Set();
-    const rows = await prisma.orgReplySuppression.findMany({
-        where: { organization_id: organizationId, email: { in: lower } },
-        select: { email: true },
-    });
-    return new Set(rows.map(r => r.email.toLowerCase()));
-}
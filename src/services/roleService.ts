@@ -0,0 +1,175 @@
+/**
+ * Role Service
+ *
+ * Custom roles: named capability sets an agency Account defines once
+ * ("SDR", "Deliverability Admin", "Client Viewer") and assigns to
+ * memberships in any of its workspaces, directly or through an invite.
+ *
+ * A membership with a role is permissioned by the role's current
+ * capabilities (requireCapability resolves them per request), so editing a
+ * role takes effect for every member immediately. Unassigning copies the
+ * role's capabilities onto the membership so access doesn't change
+ * underneath the member.
+ *
+ * SCIM-managed memberships take their capabilities from SCIM groups and
+ * can't be given a role.
+ */
+
+import { prisma } from '../index';
+import * as auditLogService from './auditLogService';
+import { AppError } from '../utils/appError';
+import { validateCapabilities } from '../middleware/requireCapability';
+
+const MAX_ROLES_PER_ACCOUNT = 50;
+const MAX_NAME_LENGTH = 60;
+
+/** Who is acting: roles are account-wide, audit rows go to the active workspace. */
+export interface RoleActor {
+    accountId: string;
+    organizationId: string;
+    userId: string;
+}
+
+export interface RoleInput {
+    name: string;
+    description: string | null;
+    capabilities: string[];
+}
+
+/** Validate a create (all fields) or update (partial) body. */
+export function parseRoleInput(body: any, partial: boolean): Partial<RoleInput> {
+    const input: Partial<RoleInput> = {};
+    if (!partial || body?.name !== undefined) {
+        const name = typeof body?.name === 'string' ? body.name.trim() : '';
+        if (!name) throw new AppError('name is required', 400);
+        if (name.length > MAX_NAME_LENGTH) throw new AppError(`name must be at most ${MAX_NAME_LENGTH} characters`, 400);
+        input.name = name;
+    }
+    if (body?.description !== undefined) {
+        if (body.description !== null && typeof body.description !== 'string') {
+            throw new AppError('description must be a string', 400);
+        }
+        input.description = body.description?.trim() || null;
+    }
+    if (!partial || body?.capabilities !== undefined) {
+        input.capabilities = validateCapabilities(body?.capabilities, 'capabilities');
+    }
+    return input;
+}
+
+function audit(actor: RoleActor, entity: string, entityId: string, action: string, details: string) {
+    return auditLogService.logAction({
+        organizationId: actor.organizationId, entity, entityId, trigger: 'manual', action, details, userId: actor.userId,
+    });
+}
+
+async function assertNameFree(accountId: string, name: string, exceptRoleId?: string): Promise<void> {
+    const taken = await prisma.role.findFirst({
+        where: { account_id: accountId, name: { equals: name, mode: 'insensitive' }, ...(exceptRoleId ? { id: { not: exceptRoleId } } : {}) },
+        select: { id: true },
+    });
+    if (taken) throw new AppError(`A role named "${name}" already exists`, 409);
+}
+
+async function requireRole(accountId: string, roleId: string) {
+    const role = await prisma.role.findFirst({ where: { id: roleId, account_id: accountId } });
+    if (!role) throw new AppError('Role not found', 404);
+    return role;
+}
+
+export function listRoles(accountId: string) {
+    return prisma.role.findMany({
+        where: { account_id: accountId },
+        include: { _count: { select: { memberships: true } } },
+        orderBy: { name: 'asc' },
+    });
+}
+
+export async function createRole(actor: RoleActor, body: unknown) {
+    const input = parseRoleInput(body, false) as RoleInput;
+    const count = await prisma.role.count({ where: { account_id: actor.accountId } });
+    if (count >= MAX_ROLES_PER_ACCOUNT) throw new AppError(`Maximum ${MAX_ROLES_PER_ACCOUNT} roles per account`, 400);
+    await assertNameFree(actor.accountId, input.name);
+
+    const role = await prisma.role.create({
+        data: { account_id: actor.accountId, name: input.name, description: input.description ?? null, capabilities: input.capabilities },
+    });
+    await audit(actor, 'role', role.id, 'created', `Role "${role.name}" created: ${role.capabilities.join(', ') || '(no capabilities)'}`);
+    return role;
+}
+
+export async function updateRole(actor: RoleActor, roleId: string, body: unknown) {
+    const role = await requireRole(actor.accountId, roleId);
+    const input = parseRoleInput(body, true);
+    if (input.name !== undefined && input.name !== role.name) await assertNameFree(actor.accountId, input.name, role.id);
+
+    const updated = await prisma.role.update({
+        where: { id: role.id },
+        data: input,
+        include: { _count: { select: { memberships: true } } },
+    });
+    if (input.capabilities) {
+        await audit(actor, 'role', role.id, 'capabilities_changed',
+            `Role "${updated.name}" now grants: ${updated.capabilities.join(', ') || '(no capabilities)'} (${updated._count.memberships} member(s))`);
+    } else {
+        await audit(actor, 'role', role.id, 'updated', `Role "${updated.name}" updated`);
+    }
+    return updated;
+}
+
+export async function deleteRole(actor: RoleActor, roleId: string): Promise<void> {
+    const role = await requireRole(actor.accountId, roleId);
+    const assigned = await prisma.workspaceMembership.count({ where: { role_id: role.id } });
+    if (assigned > 0) {
+        throw new AppError(`Role "${role.name}" is assigned to ${assigned} member(s). Reassign them first.`, 409);
+    }
+    await prisma.role.delete({ where: { id: role.id } });
+    await audit(actor, 'role', role.id, 'deleted', `Role "${role.name}" deleted`);
+}
+
+/**
+ * Assign (roleId) or unassign (null) a role on a member of one of the
+ * account's workspaces.
+ */
+export async function assignRole(actor: RoleActor, workspaceId: string, memberUserId: string, roleId: string | null) {
+    const membership = await prisma.workspaceMembership.findFirst({
+        where: { organization_id: workspaceId, user_id: memberUserId, organization: { account_id: actor.accountId } },
+        include: { role: true, user: { select: { email: true, is_agency_owner: true } } },
+    });
+    if (!membership) throw new AppError('Member not found', 404);
+    if (membership.user.is_agency_owner) throw new AppError('Agency owners have every capability and cannot be given a role', 400);
+    if (membership.scim_managed && roleId) {
+        throw new AppError('This member is provisioned over SCIM; their capabilities come from SCIM group mappings', 409);
+    }
+
+    if (roleId) {
+        const role = await requireRole(actor.accountId, roleId);
+        await prisma.workspaceMembership.update({ where: { id: membership.id }, data: { role_id: role.id } });
+        await auditLogService.logAction({
+            organizationId: workspaceId, entity: 'workspace_member', entityId: memberUserId, trigger: 'manual',
+            action: 'role_assigned', details: `${membership.user.email} assigned role "${role.name}"`, userId: actor.userId,
+        });
+    } else if (membership.role) {
+        await prisma.workspaceMembership.update({
+            where: { id: membership.id },
+            data: { role_id: null, capabilities: membership.role.capabilities },
+        });
+        await auditLogService.logAction({
+            organizationId: workspaceId, entity: 'workspace_member', entityId: memberUserId, trigger: 'manual',
+            action: 'role_unassigned', details: `${membership.user.email} removed from role "${membership.role.name}"`, userId: actor.userId,
+        });
+    }
+
+    return prisma.workspaceMembership.findUniqueOrThrow({
+        where: { id: membership.id },
+        select: { organization_id: true, user_id: true, status: true, capabilities: true, role: { select: { id: true, name: true, capabilities: true } } },
+    });
+}
+
+/** The role's id if it belongs to the account (invite validation). */
+export async function resolveRoleForAccount(accountId: string, roleId: unknown): Promise<{ id: string; name: string } | null> {
+    if (roleId === undefined || roleId === null || roleId === '') return null;
+    if (typeof roleId !== 'string') throw new AppError('roleId must be a string', 400);
+    const role = await requireRole(accountId, roleId);
+    return { id: role.id, name: role.name };
+}
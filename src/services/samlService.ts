@@ -0,0 +1,322 @@
+/**
+ * SAML Service
+ *
+ * The SAML 2.0 service-provider side of SSO (ssoService drives the flow):
+ *   - AuthnRequest over the HTTP-Redirect binding.
+ *   - Response validation from the HTTP-POST binding.
+ *   - IdP metadata parsing and our own SP metadata.
+ *
+ * Signature verification, canonicalization and the assertion conditions
+ * (time window, audience, InResponseTo) are @node-saml/node-saml's job, on
+ * top of xml-crypto and @xmldom/xmldom - we don't verify XML signatures
+ * ourselves. Around that we refuse DTDs, encrypted assertions and anything
+ * IdP-initiated, check the envelope (Destination, status) and read the
+ * identity only from the assertion node-saml hands back as verified, never
+ * from the raw document.
+ */
+
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { DOMParser } from '@xmldom/xmldom';
+import { SAML, ValidateInResponseTo, type CacheProvider } from '@node-saml/node-saml';
+
+export const NS = {
+    DSIG: 'http://www.w3.org/2000/09/xmldsig#',
+    PROTOCOL: 'urn:oasis:names:tc:SAML:2.0:protocol',
+    ASSERTION: 'urn:oasis:names:tc:SAML:2.0:assertion',
+    METADATA: 'urn:oasis:names:tc:SAML:2.0:metadata',
+} as const;
+
+const STATUS_SUCCESS = 'urn:oasis:names:tc:SAML:2.0:status:Success';
+const BEARER = 'urn:oasis:names:tc:SAML:2.0:cm:bearer';
+const BINDING_REDIRECT = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+const BINDING_POST = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST';
+const NAMEID_EMAIL = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+
+const DEFAULT_CLOCK_SKEW_MS = 3 * 60 * 1000;
+const MAX_RESPONSE_BYTES = 512 * 1024;
+
+const EMAIL_ATTRIBUTES = [
+    'email',
+    'mail',
+    'emailaddress',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+    'urn:oid:0.9.2342.19200300.100.1.3',
+];
+const NAME_ATTRIBUTES = [
+    'name',
+    'displayname',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name',
+    'http://schemas.microsoft.com/identity/claims/displayname',
+    'urn:oid:2.16.840.1.113730.3.1.241',
+];
+
+export class SamlError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SamlError';
+    }
+}
+
+// ─── DOM helpers ────────────────────────────────────────────────────────────
+
+/** Parse with xmldom, refusing DTDs outright (no XXE / entity expansion). */
+function parseDocument(xml: string): Document {
+    if (/<!DOCTYPE|<!ENTITY/i.test(xml)) throw new SamlError('DOCTYPE and entity declarations are not allowed');
+    const fail = (message: string) => {
+        throw new SamlError(`Malformed XML: ${message}`);
+    };
+    const doc = new DOMParser({ errorHandler: { warning: () => undefined, error: fail, fatalError: fail } })
+        .parseFromString(xml, 'text/xml');
+    if (!doc?.documentElement) throw new SamlError('Empty XML document');
+    return doc;
+}
+
+function isElement(node: Node | null | undefined, ns: string, local: string): boolean {
+    return !!node && node.nodeType === 1 && (node as Element).namespaceURI === ns && (node as Element).localName === local;
+}
+
+function childElements(parent: Element | null | undefined, ns: string, local: string): Element[] {
+    return parent ? Array.from(parent.childNodes).filter((c): c is Element => isElement(c, ns, local)) : [];
+}
+
+function firstChild(parent: Element | null | undefined, ns: string, local: string): Element | null {
+    return childElements(parent, ns, local)[0] ?? null;
+}
+
+function attribute(el: Element | null | undefined, name: string): string | null {
+    return el && el.hasAttribute(name) ? el.getAttribute(name) : null;
+}
+
+function text(el: Element | null | undefined): string {
+    return el?.textContent?.trim() ?? '';
+}
+
+export function certificateToPem(base64Der: string): string {
+    const body = base64Der.replace(/\s+/g, '');
+    const lines = body.match(/.{1,64}/g) ?? [];
+    return `-----BEGIN CERTIFICATE-----\n${lines.join('\n')}\n-----END CERTIFICATE-----`;
+}
+
+// ─── Response validation ────────────────────────────────────────────────────
+
+export interface SamlValidationOptions {
+    idpEntityId: string;
+    certificates: string[];
+    spEntityId: string;
+    acsUrl: string;
+    /** ID of the AuthnRequest we sent; IdP-initiated responses are refused. */
+    requestId: string;
+    groupsAttribute?: string;
+    clockSkewMs?: number;
+}
+
+export interface SamlIdentity {
+    nameId: string;
+    email: string | null;
+    name: string | null;
+    groups: string[];
+    attributes: Record<string, string[]>;
+}
+
+function looksLikeEmail(value: string): boolean {
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+/**
+ * node-saml checks InResponseTo against a cache of the request IDs it
+ * issued. Ours is already bound to the sign-in state, so the "cache" knows
+ * exactly that one ID.
+ */
+function requestIdCache(requestId: string): CacheProvider {
+    const issuedAt = new Date().toISOString();
+    return {
+        saveAsync: async () => null,
+        getAsync: async key => (key === requestId ? issuedAt : null),
+        removeAsync: async () => null,
+    };
+}
+
+/**
+ * Validate a base64 SAMLResponse and return the asserted identity. Throws
+ * SamlError on anything that doesn't check out.
+ */
+export async function validateResponse(samlResponse: string, options: SamlValidationOptions): Promise<SamlIdentity> {
+    if (samlResponse.length > MAX_RESPONSE_BYTES * 2) throw new SamlError('SAML response too large');
+    const xml = Buffer.from(samlResponse, 'base64').toString('utf8');
+    if (xml.length > MAX_RESPONSE_BYTES) throw new SamlError('SAML response too large');
+
+    const response = parseDocument(xml).documentElement;
+    if (!isElement(response, NS.PROTOCOL, 'Response')) throw new SamlError('Not a SAML Response');
+
+    const destination = attribute(response, 'Destination');
+    if (destination !== null && destination !== options.acsUrl) throw new SamlError('Response Destination mismatch');
+    if (attribute(response, 'InResponseTo') !== options.requestId) throw new SamlError('Response is not for our AuthnRequest');
+
+    const statusCode = attribute(firstChild(firstChild(response, NS.PROTOCOL, 'Status'), NS.PROTOCOL, 'StatusCode'), 'Value');
+    if (statusCode !== STATUS_SUCCESS) throw new SamlError(`IdP returned status ${statusCode ?? 'unknown'}`);
+
+    if (childElements(response, NS.ASSERTION, 'EncryptedAssertion').length) {
+        throw new SamlError('Encrypted assertions are not supported - disable assertion encryption at the IdP');
+    }
+    const signed = [response, ...childElements(response, NS.ASSERTION, 'Assertion')]
+        .some(el => firstChild(el, NS.DSIG, 'Signature'));
+    if (!signed) throw new SamlError('SAML response is not signed');
+
+    const saml = new SAML({
+        callbackUrl: options.acsUrl,
+        issuer: options.spEntityId,
+        audience: options.spEntityId,
+        idpCert: options.certificates,
+        idpIssuer: options.idpEntityId,
+        // Either the Response or the Assertion signature may carry the trust.
+        wantAuthnResponseSigned: false,
+        wantAssertionsSigned: false,
+        validateInResponseTo: ValidateInResponseTo.always,
+        cacheProvider: requestIdCache(options.requestId),
+        acceptedClockSkewMs: options.clockSkewMs ?? DEFAULT_CLOCK_SKEW_MS,
+    });
+
+    let verifiedXml: string | undefined;
+    try {
+        const { profile } = await saml.validatePostResponseAsync({ SAMLResponse: samlResponse });
+        verifiedXml = profile?.getAssertionXml?.();
+    } catch (err) {
+        throw new SamlError(err instanceof Error ? err.message : 'Invalid SAML response');
+    }
+    if (!verifiedXml) throw new SamlError('Response carries no assertion');
+
+    // From here on, only the signature-verified assertion is read.
+    const assertion = parseDocument(verifiedXml).documentElement;
+    if (text(firstChild(assertion, NS.ASSERTION, 'Issuer')) !== options.idpEntityId) {
+        throw new SamlError('Assertion Issuer mismatch');
+    }
+
+    const subject = firstChild(assertion, NS.ASSERTION, 'Subject');
+    const nameIdElement = firstChild(subject, NS.ASSERTION, 'NameID');
+    const nameId = text(nameIdElement);
+    if (!nameId) throw new SamlError('Assertion has no NameID');
+
+    // node-saml checks the confirmation's time window and InResponseTo, not where it was meant to land.
+    const bearerOk = childElements(subject, NS.ASSERTION, 'SubjectConfirmation').some(sc =>
+        attribute(sc, 'Method') === BEARER
+        && attribute(firstChild(sc, NS.ASSERTION, 'SubjectConfirmationData'), 'Recipient') === options.acsUrl);
+    if (!bearerOk) throw new SamlError('No bearer SubjectConfirmation for this ACS URL');
+
+    const attributes: Record<string, string[]> = {};
+    for (const statement of childElements(assertion, NS.ASSERTION, 'AttributeStatement')) {
+        for (const attr of childElements(statement, NS.ASSERTION, 'Attribute')) {
+            const name = attribute(attr, 'Name');
+            if (!name) continue;
+            const values = childElements(attr, NS.ASSERTION, 'AttributeValue').map(v => text(v)).filter(Boolean);
+            attributes[name] = [...(attributes[name] ?? []), ...values];
+        }
+    }
+    const lookup = (names: string[]): string[] => {
+        const wanted = names.map(n => n.toLowerCase());
+        return Object.entries(attributes).filter(([k]) => wanted.includes(k.toLowerCase())).flatMap(([, v]) => v);
+    };
+
+    const emailFromNameId = attribute(nameIdElement, 'Format') === NAMEID_EMAIL || looksLikeEmail(nameId) ? nameId : null;
+    const email = [emailFromNameId, ...lookup(EMAIL_ATTRIBUTES)].find((v): v is string => !!v && looksLikeEmail(v)) ?? null;
+
+    return {
+        nameId,
+        email: email ? email.toLowerCase() : null,
+        name: lookup(NAME_ATTRIBUTES)[0] ?? null,
+        groups: lookup([options.groupsAttribute || 'groups']),
+        attributes,
+    };
+}
+
+// ─── AuthnRequest ───────────────────────────────────────────────────────────
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+        .replace(/\t/g, '&#x9;').replace(/\n/g, '&#xA;').replace(/\r/g, '&#xD;');
+}
+
+/** SAML IDs must be NCNames - never start with a digit. */
+export function newRequestId(): string {
+    return `_${crypto.randomBytes(20).toString('hex')}`;
+}
+
+export function buildAuthnRequest(args: {
+    id: string;
+    spEntityId: string;
+    acsUrl: string;
+    destination: string;
+    now?: Date;
+}): string {
+    const issueInstant = (args.now ?? new Date()).toISOString();
+    return `<samlp:AuthnRequest xmlns:samlp="${NS.PROTOCOL}" xmlns:saml="${NS.ASSERTION}"`
+        + ` ID="${escapeXml(args.id)}" Version="2.0" IssueInstant="${issueInstant}"`
+        + ` Destination="${escapeXml(args.destination)}" AssertionConsumerServiceURL="${escapeXml(args.acsUrl)}"`
+        + ` ProtocolBinding="${BINDING_POST}">`
+        + `<saml:Issuer>${escapeXml(args.spEntityId)}</saml:Issuer>`
+        + `<samlp:NameIDPolicy Format="${NAMEID_EMAIL}" AllowCreate="true"/>`
+        + `</samlp:AuthnRequest>`;
+}
+
+/** IdP URL carrying the request over the HTTP-Redirect binding. */
+export function redirectBindingUrl(ssoUrl: string, authnRequestXml: string, relayState: string): string {
+    const url = new URL(ssoUrl);
+    url.searchParams.set('SAMLRequest', zlib.deflateRawSync(Buffer.from(authnRequestXml)).toString('base64'));
+    url.searchParams.set('RelayState', relayState);
+    return url.toString();
+}
+
+// ─── Metadata ───────────────────────────────────────────────────────────────
+
+export interface IdpMetadata {
+    entityId: string;
+    ssoUrl: string;
+    certificates: string[];
+}
+
+/** Pull the entity ID, redirect-binding SSO URL and signing certs from IdP metadata. */
+export function parseIdpMetadata(xml: string): IdpMetadata {
+    const root = parseDocument(xml).documentElement;
+    const entity = isElement(root, NS.METADATA, 'EntityDescriptor')
+        ? root
+        : isElement(root, NS.METADATA, 'EntitiesDescriptor')
+            ? Array.from(root.getElementsByTagNameNS(NS.METADATA, 'EntityDescriptor'))
+                .find(e => firstChild(e, NS.METADATA, 'IDPSSODescriptor')) ?? null
+            : null;
+    const idp = firstChild(entity, NS.METADATA, 'IDPSSODescriptor');
+    if (!entity || !idp) throw new SamlError('Metadata has no IdP EntityDescriptor');
+
+    const entityId = attribute(entity, 'entityID');
+    const ssoUrl = attribute(
+        childElements(idp, NS.METADATA, 'SingleSignOnService').find(s => attribute(s, 'Binding') === BINDING_REDIRECT),
+        'Location',
+    );
+    const certificates = childElements(idp, NS.METADATA, 'KeyDescriptor')
+        .filter(k => (attribute(k, 'use') ?? 'signing') === 'signing')
+        .flatMap(k => Array.from(k.getElementsByTagNameNS(NS.DSIG, 'X509Certificate')))
+        .map(c => certificateToPem(text(c)));
+
+    if (!entityId) throw new SamlError('Metadata has no entityID');
+    if (!ssoUrl) throw new SamlError('Metadata has no HTTP-Redirect SingleSignOnService');
+    if (!certificates.length) throw new SamlError('Metadata has no signing certificate');
+    for (const cert of certificates) {
+        try {
+            new crypto.X509Certificate(cert);
+        } catch {
+            throw new SamlError('Metadata contains an unreadable certificate');
+        }
+    }
+    return { entityId, ssoUrl, certificates };
+}
+
+/** Our SP metadata, for the customer to upload to their IdP. */
+export function buildSpMetadata(spEntityId: string, acsUrl: string): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>\n`
+        + `<md:EntityDescriptor xmlns:md="${NS.METADATA}" entityID="${escapeXml(spEntityId)}">`
+        + `<md:SPSSODescriptor AuthnRequestsSigned="false" WantAssertionsSigned="true" protocolSupportEnumeration="${NS.PROTOCOL}">`
+        + `<md:NameIDFormat>${NAMEID_EMAIL}</md:NameIDFormat>`
+        + `<md:AssertionConsumerService Binding="${BINDING_POST}" Location="${escapeXml(acsUrl)}" index="0" isDefault="true"/>`
+        + `</md:SPSSODescriptor>`
+        + `</md:EntityDescriptor>`;
+}
@@ -0,0 +1,716 @@
+/**
+ * SCIM Service
+ *
+ * SCIM 2.0 (RFC 7643 / 7644) provisioning for one workspace, driven by the
+ * customer's IdP with a ScimToken:
+ *   - Users are the workspace's client users (User.scoped_organization_id =
+ *     the workspace) - the same population invites create. Agency-side users
+ *     are never visible or writable here.
+ *   - active=false sets WorkspaceMembership.status = 'disabled' (sign-in and
+ *     existing sessions stop working); DELETE removes the user outright.
+ *   - Groups are ScimGroup rows. An agency owner maps each one to a
+ *     capability set in settings; a SCIM-managed member's capabilities are
+ *     recomputed as the union of their groups' whenever membership or a
+ *     mapping changes.
+ *
+ * Every change is written to AuditLog with trigger 'scim'.
+ *
+ * Filters: the `attr eq "value"` form IdPs use to look resources up
+ * (userName, externalId, emails.value; displayName, externalId for groups).
+ */
+
+import crypto from 'crypto';
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+import * as auditLogService from './auditLogService';
+import { AppError } from '../utils/appError';
+import { getPublicBackendUrl } from '../utils/publicBackendUrl';
+import { CAPABILITY_KEYS, validateCapabilities } from '../middleware/requireCapability';
+
+export const SCHEMAS = {
+    USER: 'urn:ietf:params:scim:schemas:core:2.0:User',
+    GROUP: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+    LIST: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+    PATCH: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+    ERROR: 'urn:ietf:params:scim:api:messages:2.0:Error',
+    SERVICE_PROVIDER_CONFIG: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+    RESOURCE_TYPE: 'urn:ietf:params:scim:schemas:core:2.0:ResourceType',
+} as const;
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 200;
+const MAX_ACTIVE_TOKENS = 5;
+
+/** AppError carrying the RFC 7644 §3.12 scimType. */
+export class ScimError extends AppError {
+    public readonly scimType?: string;
+
+    constructor(message: string, statusCode: number, scimType?: string) {
+        super(message, statusCode);
+        this.scimType = scimType;
+    }
+}
+
+export function scimBaseUrl(): string {
+    return `${getPublicBackendUrl()}/scim/v2`;
+}
+
+// ─── Tokens ─────────────────────────────────────────────────────────────────
+
+export function hashToken(raw: string): string {
+    return crypto.createHash('sha256').update(raw).digest('hex');
+}
+
+/** The workspace a bearer token provisions, or null. Touches last_used_at. */
+export async function authenticate(rawToken: string): Promise<{ organizationId: string; tokenId: string } | null> {
+    if (!rawToken.startsWith('scim_')) return null;
+    const token = await prisma.scimToken.findUnique({ where: { token_hash: hashToken(rawToken) } });
+    if (!token || token.revoked_at) return null;
+    await prisma.scimToken.update({ where: { id: token.id }, data: { last_used_at: new Date() } }).catch(() => undefined);
+    return { organizationId: token.organization_id, tokenId: token.id };
+}
+
+export async function createToken(organizationId: string, name: string, userId: string | null) {
+    const active = await prisma.scimToken.count({ where: { organization_id: organizationId, revoked_at: null } });
+    if (active >= MAX_ACTIVE_TOKENS) throw new AppError(`Maximum ${MAX_ACTIVE_TOKENS} active SCIM tokens per workspace`, 400);
+
+    const random = crypto.randomBytes(32).toString('hex');
+    const raw = `scim_${random}`;
+    const token = await prisma.scimToken.create({
+        data: {
+            organization_id: organizationId,
+            name,
+            token_hash: hashToken(raw),
+            token_prefix: `scim_${random.slice(0, 8)}...`,
+            created_by_user_id: userId,
+        },
+    });
+    await auditLogService.logAction({
+        organizationId, entity: 'scim_token', entityId: token.id, trigger: 'manual', action: 'created',
+        details: `SCIM token "${name}" created`, userId: userId ?? undefined,
+    });
+    return { id: token.id, name: token.name, token: raw, prefix: token.token_prefix, created_at: token.created_at };
+}
+
+export function listTokens(organizationId: string) {
+    return prisma.scimToken.findMany({
+        where: { organization_id: organizationId },
+        select: { id: true, name: true, token_prefix: true, last_used_at: true, revoked_at: true, created_at: true },
+        orderBy: { created_at: 'desc' },
+    });
+}
+
+export async function revokeToken(organizationId: string, tokenId: string, userId: string | null): Promise<void> {
+    const revoked = await prisma.scimToken.updateMany({
+        where: { id: tokenId, organization_id: organizationId, revoked_at: null },
+        data: { revoked_at: new Date() },
+    });
+    if (revoked.count === 0) throw new AppError('SCIM token not found', 404);
+    await auditLogService.logAction({
+        organizationId, entity: 'scim_token', entityId: tokenId, trigger: 'manual', action: 'revoked',
+        details: 'SCIM token revoked', userId: userId ?? undefined,
+    });
+}
+
+// ─── Request parsing (pure) ─────────────────────────────────────────────────
+
+export interface ScimFilter {
+    attribute: string;
+    value: string;
+}
+
+/** Parse `attr eq "value"`; attribute names match case-insensitively. */
+export function parseFilter(filter: unknown, allowed: string[]): ScimFilter | null {
+    if (filter === undefined || filter === '') return null;
+    const match = typeof filter === 'string' ? /^\s*([\w.]+)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*$/i.exec(filter) : null;
+    const attribute = match ? allowed.find(a => a.toLowerCase() === match[1].toLowerCase()) : undefined;
+    if (!match || !attribute) {
+        throw new ScimError(`Unsupported filter. Use: ${allowed.map(a => `${a} eq "..."`).join(' | ')}`, 400, 'invalidFilter');
+    }
+    return { attribute, value: match[2].replace(/\\(.)/g, '$1') };
+}
+
+export function parsePagination(query: { startIndex?: unknown; count?: unknown }): { startIndex: number; count: number } {
+    const startIndex = Math.max(1, parseInt(String(query.startIndex ?? '1'), 10) || 1);
+    const requested = parseInt(String(query.count ?? DEFAULT_PAGE_SIZE), 10);
+    const count = Math.min(MAX_PAGE_SIZE, Math.max(0, Number.isFinite(requested) ? requested : DEFAULT_PAGE_SIZE));
+    return { startIndex, count };
+}
+
+function toBoolean(value: unknown, field: string): boolean {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'string' && /^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+    throw new ScimError(`${field} must be a boolean`, 400, 'invalidValue');
+}
+
+function optionalString(value: unknown, field: string): string | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value !== 'string') throw new ScimError(`${field} must be a string`, 400, 'invalidValue');
+    return value.trim() || null;
+}
+
+/** Changes to a user, from a full resource (POST/PUT) or PATCH operations. */
+export interface UserChanges {
+    userName?: string;
+    givenName?: string | null;
+    familyName?: string | null;
+    formatted?: string | null;
+    displayName?: string | null;
+    active?: boolean;
+    externalId?: string | null;
+}
+
+function applyUserAttribute(changes: UserChanges, path: string, value: unknown): void {
+    switch (path.toLowerCase()) {
+        case 'username': {
+            const v = optionalString(value, 'userName');
+            if (!v) throw new ScimError('userName cannot be empty', 400, 'invalidValue');
+            changes.userName = v;
+            break;
+        }
+        case 'active': changes.active = toBoolean(value, 'active'); break;
+        case 'externalid': changes.externalId = optionalString(value, 'externalId'); break;
+        case 'displayname': changes.displayName = optionalString(value, 'displayName'); break;
+        case 'name.givenname': changes.givenName = optionalString(value, 'name.givenName'); break;
+        case 'name.familyname': changes.familyName = optionalString(value, 'name.familyName'); break;
+        case 'name.formatted': changes.formatted = optionalString(value, 'name.formatted'); break;
+        case 'name':
+            if (value && typeof value === 'object') {
+                for (const [k, v] of Object.entries(value)) applyUserAttribute(changes, `name.${k}`, v);
+            }
+            break;
+        default:
+            // Attributes we don't store (title, locale, phoneNumbers, emails -
+            // userName is the email) are accepted and ignored, as IdPs send
+            // their whole profile.
+            break;
+    }
+}
+
+/** UserChanges from a POST / PUT body. */
+export function userChangesFromResource(body: any): UserChanges {
+    if (!body || typeof body !== 'object') throw new ScimError('Request body must be a SCIM User', 400, 'invalidSyntax');
+    const changes: UserChanges = { active: true };
+    const primaryEmail = Array.isArray(body.emails)
+        ? (body.emails.find((e: any) => e?.primary === true || e?.primary === 'true') ?? body.emails[0])?.value
+        : undefined;
+    applyUserAttribute(changes, 'userName', body.userName ?? primaryEmail);
+    for (const key of ['active', 'externalId', 'displayName', 'name']) {
+        if (body[key] !== undefined) applyUserAttribute(changes, key, body[key]);
+    }
+    return changes;
+}
+
+function patchOperations(body: any): Array<{ op: string; path?: string; value?: unknown }> {
+    if (!body || !Array.isArray(body.Operations)) {
+        throw new ScimError('PATCH body must carry Operations', 400, 'invalidSyntax');
+    }
+    return body.Operations.map((o: any) => {
+        const op = typeof o?.op === 'string' ? o.op.toLowerCase() : '';
+        if (!['add', 'replace', 'remove'].includes(op)) throw new ScimError(`Unsupported PATCH op "${o?.op}"`, 400, 'invalidSyntax');
+        return { op, path: typeof o.path === 'string' ? o.path : undefined, value: o.value };
+    });
+}
+
+/** UserChanges from a PATCH body. Path-less ops carry an attribute map. */
+export function userChangesFromPatch(body: any): UserChanges {
+    const changes: UserChanges = {};
+    for (const { op, path, value } of patchOperations(body)) {
+        if (op === 'remove') {
+            if (path && ['externalid', 'displayname', 'name.givenname', 'name.familyname', 'name.formatted'].includes(path.toLowerCase())) {
+                applyUserAttribute(changes, path, null);
+            }
+            continue;
+        }
+        if (path) {
+            applyUserAttribute(changes, path, value);
+        } else if (value && typeof value === 'object') {
+            for (const [k, v] of Object.entries(value)) applyUserAttribute(changes, k, v);
+        }
+    }
+    return changes;
+}
+
+/** Membership and name changes to a group. */
+export interface GroupChanges {
+    displayName?: string;
+    externalId?: string | null;
+    /** Full member list (POST / PUT / replace members). */
+    members?: string[];
+    add: string[];
+    remove: string[];
+}
+
+function memberIds(value: unknown): string[] {
+    if (value === undefined || value === null) return [];
+    const list = Array.isArray(value) ? value : [value];
+    return list.map((m: any) => {
+        if (typeof m?.value !== 'string' || !m.value) throw new ScimError('Each member needs a value', 400, 'invalidValue');
+        return m.value;
+    });
+}
+
+export function groupChangesFromResource(body: any): GroupChanges {
+    if (!body || typeof body !== 'object') throw new ScimError('Request body must be a SCIM Group', 400, 'invalidSyntax');
+    const displayName = optionalString(body.displayName, 'displayName');
+    if (!displayName) throw new ScimError('displayName is required', 400, 'invalidValue');
+    return {
+        displayName,
+        externalId: optionalString(body.externalId, 'externalId'),
+        members: memberIds(body.members),
+        add: [],
+        remove: [],
+    };
+}
+
+export function groupChangesFromPatch(body: any): GroupChanges {
+    const changes: GroupChanges = { add: [], remove: [] };
+    for (const { op, path, value } of patchOperations(body)) {
+        const target = path?.toLowerCase();
+        const filtered = path ? /^members\[\s*value\s+eq\s+"([^"]+)"\s*\]$/i.exec(path) : null;
+
+        if (op === 'remove') {
+            if (filtered) changes.remove.push(filtered[1]);
+            else if (target === 'members' && value !== undefined) changes.remove.push(...memberIds(value));
+            else if (target === 'members') changes.members = [];
+            else if (target === 'externalid') changes.externalId = null;
+            continue;
+        }
+
+        const attributes: Record<string, unknown> = path ? { [path]: value } : (value && typeof value === 'object' ? value as Record<string, unknown> : {});
+        for (const [key, v] of Object.entries(attributes)) {
+            switch (key.toLowerCase()) {
+                case 'members':
+                    if (op === 'add') changes.add.push(...memberIds(v));
+                    else changes.members = memberIds(v);
+                    break;
+                case 'displayname': {
+                    const name = optionalString(v, 'displayName');
+                    if (!name) throw new ScimError('displayName cannot be empty', 400, 'invalidValue');
+                    changes.displayName = name;
+                    break;
+                }
+                case 'externalid': changes.externalId = optionalString(v, 'externalId'); break;
+                default: break;
+            }
+        }
+    }
+    return changes;
+}
+
+/** Union of the groups' capabilities, in CAPABILITY_KEYS order. */
+export function capabilitiesForGroups(groups: Array<{ capabilities: string[] }>): string[] {
+    const granted = new Set(groups.flatMap(g => g.capabilities));
+    return CAPABILITY_KEYS.filter(c => granted.has(c));
+}
+
+// ─── Resources ──────────────────────────────────────────────────────────────
+
+const USER_INCLUDE = (organizationId: string) => ({
+    workspaceMemberships: { where: { organization_id: organizationId } },
+    scimGroupMemberships: { where: { group: { organization_id: organizationId } }, include: { group: true } },
+});
+
+type ScimUserRow = NonNullable<Awaited<ReturnType<typeof findUser>>>;
+
+function findUser(organizationId: string, id: string) {
+    return prisma.user.findFirst({
+        where: { id, scoped_organization_id: organizationId },
+        include: USER_INCLUDE(organizationId),
+    });
+}
+
+async function requireUser(organizationId: string, id: string): Promise<ScimUserRow> {
+    const user = await findUser(organizationId, id);
+    if (!user) throw new ScimError(`User ${id} not found`, 404);
+    return user;
+}
+
+function splitName(name: string | null): { givenName: string | null; familyName: string | null } {
+    if (!name) return { givenName: null, familyName: null };
+    const idx = name.indexOf(' ');
+    return idx === -1 ? { givenName: name, familyName: null } : { givenName: name.slice(0, idx), familyName: name.slice(idx + 1) };
+}
+
+export function toScimUser(user: ScimUserRow) {
+    const membership = user.workspaceMemberships[0];
+    const { givenName, familyName } = splitName(user.name);
+    return {
+        schemas: [SCHEMAS.USER],
+        id: user.id,
+        externalId: membership?.scim_external_id ?? undefined,
+        userName: user.email,
+        name: { formatted: user.name ?? undefined, givenName: givenName ?? undefined, familyName: familyName ?? undefined },
+        displayName: user.name ?? undefined,
+        emails: [{ value: user.email, type: 'work', primary: true }],
+        active: membership?.status !== 'disabled',
+        groups: user.scimGroupMemberships.map(m => ({
+            value: m.group_id,
+            display: m.group.display_name,
+            $ref: `${scimBaseUrl()}/Groups/${m.group_id}`,
+        })),
+        meta: {
+            resourceType: 'User',
+            created: user.created_at,
+            lastModified: user.updated_at,
+            location: `${scimBaseUrl()}/Users/${user.id}`,
+        },
+    };
+}
+
+function listResponse<T>(resources: T[], totalResults: number, startIndex: number) {
+    return { schemas: [SCHEMAS.LIST], totalResults, startIndex, itemsPerPage: resources.length, Resources: resources };
+}
+
+function normalizedEmail(userName: string): string {
+    const email = userName.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new ScimError('userName must be an email address', 400, 'invalidValue');
+    return email;
+}
+
+function nameFrom(changes: UserChanges, current: string | null): string | null | undefined {
+    if (changes.formatted !== undefined) return changes.formatted;
+    if (changes.givenName !== undefined || changes.familyName !== undefined) {
+        const parts = splitName(current);
+        const given = changes.givenName !== undefined ? changes.givenName : parts.givenName;
+        const family = changes.familyName !== undefined ? changes.familyName : parts.familyName;
+        return [given, family].filter(Boolean).join(' ') || null;
+    }
+    if (changes.displayName !== undefined) return changes.displayName;
+    return undefined;
+}
+
+async function assertEmailFree(organizationId: string, email: string, exceptUserId?: string): Promise<void> {
+    const taken = await prisma.user.findFirst({
+        where: { scoped_organization_id: organizationId, email, ...(exceptUserId ? { id: { not: exceptUserId } } : {}) },
+        select: { id: true },
+    });
+    if (taken) throw new ScimError(`A user with userName ${email} already exists`, 409, 'uniqueness');
+}
+
+function audit(organizationId: string, entity: string, entityId: string, action: string, details: string) {
+    return auditLogService.logAction({ organizationId, entity, entityId, trigger: 'scim', action, details });
+}
+
+export async function listUsers(organizationId: string, query: { filter?: unknown; startIndex?: unknown; count?: unknown }) {
+    const filter = parseFilter(query.filter, ['userName', 'externalId', 'emails.value']);
+    const { startIndex, count } = parsePagination(query);
+    const where: Record<string, unknown> = { scoped_organization_id: organizationId };
+    if (filter?.attribute === 'externalId') {
+        where.workspaceMemberships = { some: { organization_id: organizationId, scim_external_id: filter.value } };
+    } else if (filter) {
+        where.email = filter.value.trim().toLowerCase();
+    }
+
+    const [total, users] = await Promise.all([
+        prisma.user.count({ where }),
+        prisma.user.findMany({
+            where,
+            include: USER_INCLUDE(organizationId),
+            orderBy: { created_at: 'asc' },
+            skip: startIndex - 1,
+            take: count,
+        }),
+    ]);
+    return listResponse(users.map(toScimUser), total, startIndex);
+}
+
+export async function getUser(organizationId: string, id: string) {
+    return toScimUser(await requireUser(organizationId, id));
+}
+
+export async function createUser(organizationId: string, body: unknown) {
+    const changes = userChangesFromResource(body);
+    const email = normalizedEmail(changes.userName!);
+    await assertEmailFree(organizationId, email);
+
+    const user = await prisma.$transaction(async (tx) => {
+        const created = await tx.user.create({
+            data: {
+                email,
+                name: nameFrom(changes, null) ?? null,
+                password_hash: null, // signs in through SSO or a password reset
+                role: 'viewer',
+                organization_id: organizationId,
+                account_id: null,
+                is_agency_owner: false,
+                scoped_organization_id: organizationId,
+                email_verified: true, // the IdP owns the address
+            },
+        });
+        await tx.workspaceMembership.create({
+            data: {
+                organization_id: organizationId,
+                user_id: created.id,
+                capabilities: [],
+                status: changes.active === false ? 'disabled' : 'active',
+                scim_managed: true,
+                scim_external_id: changes.externalId ?? null,
+            },
+        });
+        return created;
+    });
+
+    await audit(organizationId, 'workspace_member', user.id, 'created', `SCIM provisioned ${email}${changes.active === false ? ' (inactive)' : ''}`);
+    logger.info('[SCIM] User provisioned', { organizationId, userId: user.id });
+    return toScimUser(await requireUser(organizationId, user.id));
+}
+
+/**
+ * Apply changes to an existing user. PUT passes the full resource, so
+ * attributes it leaves out are cleared; PATCH only touches what it names.
+ */
+export async function updateUser(organizationId: string, id: string, changes: UserChanges) {
+    const user = await requireUser(organizationId, id);
+    const membership = user.workspaceMemberships[0];
+    const notes: string[] = [];
+
+    const data: Record<string, unknown> = {};
+    if (changes.userName !== undefined) {
+        const email = normalizedEmail(changes.userName);
+        if (email !== user.email) {
+            await assertEmailFree(organizationId, email, user.id);
+            data.email = email;
+            notes.push(`userName ${user.email} -> ${email}`);
+        }
+    }
+    const name = nameFrom(changes, user.name);
+    if (name !== undefined && name !== user.name) {
+        data.name = name;
+        notes.push('name changed');
+    }
+    if (Object.keys(data).length) await prisma.user.update({ where: { id: user.id }, data });
+
+    const membershipData: Record<string, unknown> = { scim_managed: true };
+    if (changes.externalId !== undefined) membershipData.scim_external_id = changes.externalId;
+    let action = 'updated';
+    if (changes.active !== undefined) {
+        const wasActive = membership?.status !== 'disabled';
+        if (changes.active !== wasActive) {
+            membershipData.status = changes.active ? 'active' : 'disabled';
+            action = changes.active ? 'reactivated' : 'deactivated';
+        }
+    }
+    await prisma.workspaceMembership.upsert({
+        where: { organization_id_user_id: { organization_id: organizationId, user_id: user.id } },
+        create: { organization_id: organizationId, user_id: user.id, capabilities: [], status: 'active', ...membershipData },
+        update: membershipData,
+    });
+
+    if (action !== 'updated' || notes.length) {
+        await audit(organizationId, 'workspace_member', user.id, action, `SCIM ${action} ${data.email ?? user.email}${notes.length ? `: ${notes.join(', ')}` : ''}`);
+    }
+    return toScimUser(await requireUser(organizationId, user.id));
+}
+
+export function replaceUser(organizationId: string, id: string, body: unknown) {
+    const changes = userChangesFromResource(body);
+    return updateUser(organizationId, id, {
+        ...changes,
+        externalId: changes.externalId ?? null,
+        formatted: nameFrom(changes, null) ?? null,
+    });
+}
+
+export function patchUser(organizationId: string, id: string, body: unknown) {
+    return updateUser(organizationId, id, userChangesFromPatch(body));
+}
+
+export async function deleteUser(organizationId: string, id: string): Promise<void> {
+    const user = await requireUser(organizationId, id);
+    await prisma.user.delete({ where: { id: user.id } });
+    await audit(organizationId, 'workspace_member', user.id, 'deleted', `SCIM deleted ${user.email}`);
+    logger.info('[SCIM] User deleted', { organizationId, userId: user.id });
+}
+
+// ─── Groups ─────────────────────────────────────────────────────────────────
+
+type ScimGroupRow = NonNullable<Awaited<ReturnType<typeof findGroup>>>;
+
+function findGroup(organizationId: string, id: string) {
+    return prisma.scimGroup.findFirst({
+        where: { id, organization_id: organizationId },
+        include: { members: { include: { user: { select: { id: true, email: true } } } } },
+    });
+}
+
+async function requireGroup(organizationId: string, id: string): Promise<ScimGroupRow> {
+    const group = await findGroup(organizationId, id);
+    if (!group) throw new ScimError(`Group ${id} not found`, 404);
+    return group;
+}
+
+export function toScimGroup(group: ScimGroupRow) {
+    return {
+        schemas: [SCHEMAS.GROUP],
+        id: group.id,
+        externalId: group.external_id ?? undefined,
+        displayName: group.display_name,
+        members: group.members.map(m => ({
+            value: m.user_id,
+            display: m.user.email,
+            $ref: `${scimBaseUrl()}/Users/${m.user_id}`,
+        })),
+        meta: {
+            resourceType: 'Group',
+            created: group.created_at,
+            lastModified: group.updated_at,
+            location: `${scimBaseUrl()}/Groups/${group.id}`,
+        },
+    };
+}
+
+/**
+ * Recompute membership capabilities for SCIM-managed users from their
+ * groups. Users no longer in any group end up with none.
+ */
+export async function syncCapabilities(organizationId: string, userIds: string[]): Promise<void> {
+    for (const userId of new Set(userIds)) {
+        const groups = await prisma.scimGroup.findMany({
+            where: { organization_id: organizationId, members: { some: { user_id: userId } } },
+            select: { capabilities: true },
+        });
+        await prisma.workspaceMembership.updateMany({
+            where: { organization_id: organizationId, user_id: userId },
+            // Group mappings replace any custom role an owner had assigned.
+            data: { capabilities: capabilitiesForGroups(groups), scim_managed: true, role_id: null },
+        });
+    }
+}
+
+async function assertMembersExist(organizationId: string, ids: string[]): Promise<void> {
+    if (!ids.length) return;
+    const unique = Array.from(new Set(ids));
+    const found = await prisma.user.count({ where: { id: { in: unique }, scoped_organization_id: organizationId } });
+    if (found !== unique.length) throw new ScimError('One or more members are not users of this workspace', 400, 'invalidValue');
+}
+
+async function assertGroupNameFree(organizationId: string, displayName: string, exceptGroupId?: string): Promise<void> {
+    const taken = await prisma.scimGroup.findFirst({
+        where: { organization_id: organizationId, display_name: displayName, ...(exceptGroupId ? { id: { not: exceptGroupId } } : {}) },
+        select: { id: true },
+    });
+    if (taken) throw new ScimError(`A group named ${displayName} already exists`, 409, 'uniqueness');
+}
+
+export async function listGroups(organizationId: string, query: { filter?: unknown; startIndex?: unknown; count?: unknown }) {
+    const filter = parseFilter(query.filter, ['displayName', 'externalId']);
+    const { startIndex, count } = parsePagination(query);
+    const where: Record<string, unknown> = { organization_id: organizationId };
+    if (filter?.attribute === 'displayName') where.display_name = filter.value;
+    if (filter?.attribute === 'externalId') where.external_id = filter.value;
+
+    const [total, groups] = await Promise.all([
+        prisma.scimGroup.count({ where }),
+        prisma.scimGroup.findMany({
+            where,
+            include: { members: { include: { user: { select: { id: true, email: true } } } } },
+            orderBy: { created_at: 'asc' },
+            skip: startIndex - 1,
+            take: count,
+        }),
+    ]);
+    return listResponse(groups.map(toScimGroup), total, startIndex);
+}
+
+export async function getGroup(organizationId: string, id: string) {
+    return toScimGroup(await requireGroup(organizationId, id));
+}
+
+export async function createGroup(organizationId: string, body: unknown) {
+    const changes = groupChangesFromResource(body);
+    await assertGroupNameFree(organizationId, changes.displayName!);
+    const members = Array.from(new Set(changes.members ?? []));
+    await assertMembersExist(organizationId, members);
+
+    const group = await prisma.scimGroup.create({
+        data: {
+            organization_id: organizationId,
+            display_name: changes.displayName!,
+            external_id: changes.externalId ?? null,
+            members: { create: members.map(user_id => ({ user_id })) },
+        },
+    });
+    await syncCapabilities(organizationId, members);
+    await audit(organizationId, 'scim_group', group.id, 'created', `SCIM group "${group.display_name}" created with ${members.length} member(s)`);
+    return toScimGroup(await requireGroup(organizationId, group.id));
+}
+
+async function updateGroup(organizationId: string, id: string, changes: GroupChanges) {
+    const group = await requireGroup(organizationId, id);
+    const before = new Set(group.members.map(m => m.user_id));
+
+    const after = new Set(changes.members ?? before);
+    changes.add.forEach(u => after.add(u));
+    changes.remove.forEach(u => after.delete(u));
+    const added = [...after].filter(u => !before.has(u));
+    const removed = [...before].filter(u => !after.has(u));
+    await assertMembersExist(organizationId, added);
+
+    const data: Record<string, unknown> = {};
+    if (changes.displayName !== undefined && changes.displayName !== group.display_name) {
+        await assertGroupNameFree(organizationId, changes.displayName, group.id);
+        data.display_name = changes.displayName;
+    }
+    if (changes.externalId !== undefined) data.external_id = changes.externalId;
+
+    await prisma.$transaction([
+        prisma.scimGroup.update({ where: { id: group.id }, data }),
+        prisma.scimGroupMember.deleteMany({ where: { group_id: group.id, user_id: { in: removed } } }),
+        prisma.scimGroupMember.createMany({ data: added.map(user_id => ({ group_id: group.id, user_id })), skipDuplicates: true }),
+    ]);
+    await syncCapabilities(organizationId, [...added, ...removed]);
+
+    if (added.length || removed.length || data.display_name) {
+        const parts = [
+            data.display_name ? `renamed to "${data.display_name}"` : null,
+            added.length ? `+${added.length} member(s)` : null,
+            removed.length ? `-${removed.length} member(s)` : null,
+        ].filter(Boolean);
+        await audit(organizationId, 'scim_group', group.id, 'updated', `SCIM group "${group.display_name}" ${parts.join(', ')}`);
+    }
+    return toScimGroup(await requireGroup(organizationId, group.id));
+}
+
+export function replaceGroup(organizationId: string, id: string, body: unknown) {
+    const changes = groupChangesFromResource(body);
+    return updateGroup(organizationId, id, { ...changes, externalId: changes.externalId ?? null });
+}
+
+export function patchGroup(organizationId: string, id: string, body: unknown) {
+    return updateGroup(organizationId, id, groupChangesFromPatch(body));
+}
+
+export async function deleteGroup(organizationId: string, id: string): Promise<void> {
+    const group = await requireGroup(organizationId, id);
+    await prisma.scimGroup.delete({ where: { id: group.id } });
+    await syncCapabilities(organizationId, group.members.map(m => m.user_id));
+    await audit(organizationId, 'scim_group', group.id, 'deleted', `SCIM group "${group.display_name}" deleted`);
+}
+
+// ─── Capability mapping (settings) ──────────────────────────────────────────
+
+export function listGroupMappings(organizationId: string) {
+    return prisma.scimGroup.findMany({
+        where: { organization_id: organizationId },
+        select: { id: true, display_name: true, external_id: true, capabilities: true, _count: { select: { members: true } } },
+        orderBy: { display_name: 'asc' },
+    });
+}
+
+export async function setGroupCapabilities(organizationId: string, groupId: string, capabilities: unknown, userId: string | null) {
+    const caps = validateCapabilities(capabilities, 'capabilities');
+    const group = await prisma.scimGroup.findFirst({
+        where: { id: groupId, organization_id: organizationId },
+        include: { members: { select: { user_id: true } } },
+    });
+    if (!group) throw new AppError('SCIM group not found', 404);
+
+    await prisma.scimGroup.update({ where: { id: group.id }, data: { capabilities: caps } });
+    await syncCapabilities(organizationId, group.members.map(m => m.user_id));
+    await auditLogService.logAction({
+        organizationId, entity: 'scim_group', entityId: group.id, trigger: 'manual', action: 'capabilities_changed',
+        details: `SCIM group "${group.display_name}" mapped to: ${caps.join(', ') || '(none)'}`, userId: userId ?? undefined,
+    });
+    return { id: group.id, display_name: group.display_name, capabilities: caps };
+}
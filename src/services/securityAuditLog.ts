@@ -1,6 +1,7 @@
 /**
- * Security audit log writer - the ONE place OAuth/MCP security events are
- * recorded to the durable SecurityAuditLog table (API/MCP audit G6).
+ * Security audit log writer - the ONE place OAuth/MCP, two-factor and SSO
+ * security events are recorded to the durable SecurityAuditLog table
+ * (API/MCP audit G6).
  *
  * Before this, the only record of client registrations, token mints,
  * revocations and auth-code-reuse detections was logger.info / logger.warn,
@@ -26,6 +27,20 @@ export const EVENT_TYPES = {
     OAUTH_TOKEN_MINTED: 'oauth.token.minted',
     OAUTH_TOKEN_REVOKED: 'oauth.token.revoked',
     OAUTH_CODE_REUSE_DETECTED: 'oauth.code.reuse_detected',
+    TWO_FACTOR_ENROLLMENT_STARTED: 'auth.2fa.enrollment_started',
+    TWO_FACTOR_ENABLED: 'auth.2fa.enabled',
+    TWO_FACTOR_DISABLED: 'auth.2fa.disabled',
+    TWO_FACTOR_CHALLENGE_PASSED: 'auth.2fa.challenge_passed',
+    TWO_FACTOR_CHALLENGE_FAILED: 'auth.2fa.challenge_failed',
+    TWO_FACTOR_RECOVERY_CODE_USED: 'auth.2fa.recovery_code_used',
+    TWO_FACTOR_RECOVERY_CODES_REGENERATED: 'auth.2fa.recovery_codes_regenerated',
+    TWO_FACTOR_STEP_UP_PASSED: 'auth.2fa.step_up_passed',
+    TWO_FACTOR_POLICY_CHANGED: 'auth.2fa.policy_changed',
+    SSO_CONFIG_CHANGED: 'auth.sso.config_changed',
+    SSO_DOMAIN_VERIFIED: 'auth.sso.domain_verified',
+    SSO_LOGIN: 'auth.sso.login',
+    SSO_LOGIN_FAILED: 'auth.sso.login_failed',
+    SSO_USER_PROVISIONED: 'auth.sso.user_provisioned',
 } as const;
 export type SecurityEventType = typeof EVENT_TYPES[keyof typeof EVENT_TYPES];
 
@@ -38,6 +38,15 @@ import { SlackAlertService } from './SlackAlertService';
 import * as webhookBus from './webhookEventBus';
 import { applyTracking } from './trackingService';
 import { resolveSpintax } from '../utils/spintax';
+import { renderForLead } from './personalizationService';
+import * as suppressionService from './suppressionService';
+import * as sequenceGraph from './sequenceGraphService';
+import { stepConditionMatches } from './sequenceGraphService';
+import * as blackoutCalendar from './blackoutCalendarService';
+import * as sendTimeOptimizer from './sendTimeOptimizerService';
+import * as leadOverrides from './leadOverrideService';
+import * as sequenceTasks from './sequenceTaskService';
+import * as providerThrottle from './providerThrottleService';
 import { MONITORING_THRESHOLDS } from '../types';
 
 const { ROLLING_WINDOW_SIZE } = MONITORING_THRESHOLDS;
@@ -62,6 +71,14 @@ const DISPATCH_LOCK_TTL_SECONDS = 300;
 // large only delays retry of a genuinely lost batch.
 const DISPATCH_CLAIM_MARGIN_MS = 10 * 60 * 1000;
 
+// Send-time optimization: a predicted best slot closer than this is "now" -
+// parking a lead for a few minutes costs a DB write and gains nothing.
+const STO_SEND_NOW_MS = 5 * 60 * 1000;
+
+// A lead due on a paused step (SequenceStep.paused_at - e.g. a link domain in
+// it went onto a blocklist) is parked this long and then re-checked.
+const PAUSED_STEP_RECHECK_MS = 60 * 60 * 1000;
+
 /**
  * Build the In-Reply-To / References pair for a step-N send (N > 1).
  *
@@ -171,6 +188,12 @@ interface SequenceStepWithVariants {
     /** Subsequence branching - see schema docs on SequenceStep. */
     condition?: string | null;
     branch_to_step_number?: number | null;
+    /** 'email' or a manual task type - see sequenceTaskService. */
+    step_type?: string;
+    task_due_hours?: number;
+    task_assignee_user_id?: string | null;
+    /** Step-level hold - see schema docs on SequenceStep.paused_at. */
+    paused_at?: Date | null;
 }
 
 interface AccountData {
@@ -220,6 +243,18 @@ interface EmailInBatch {
     nextStepDelayDays: number;
     nextStepDelayHours: number;
     isLastStep: boolean;
+    /** Graph mode only: the email node being delivered. The worker picks the
+     *  outgoing edge after the send and parks the lead on the successor. */
+    graphNodeId?: string | null;
+    /** LeadStepOverride ('edit' or 'inject') whose content this email carries.
+     *  Re-read at send time; flipped to 'applied' with the SendEvent. */
+    overrideId?: string | null;
+    /** One-off manual email (an 'inject' override) rather than a sequence
+     *  step: SendEvent.step_number stays NULL and current_step doesn't move. */
+    injected?: boolean;
+    /** Recipient provider when it is adaptively throttled (Microsoft, Yahoo);
+     *  the worker gates and learns deferrals per (mailbox, provider) on it. */
+    recipientProvider?: string | null;
 }
 
 interface BatchJobData {
@@ -302,46 +337,25 @@ function injectPreheader(bodyHtml: string, preheader: string): string {
     return hidden + bodyHtml;
 }
 
-function personalizeEmail(
-    template: string,
-    lead: { first_name: string | null; last_name: string | null; company: string | null; email: string; title: string | null; custom_variables: any }
-): string {
-    const fullName = [lead.first_name, lead.last_name].filter(Boolean).join(' ');
-    const tokens: Record<string, string> = {
-        first_name: lead.first_name || '',
-        last_name: lead.last_name || '',
-        full_name: fullName || '',
-        company: lead.company || '',
-        email: lead.email || '',
-        title: lead.title || '',
-        website: '',
-    };
-    if (lead.custom_variables && typeof lead.custom_variables === 'object') {
-        for (const [key, value] of Object.entries(lead.custom_variables as Record<string, any>)) {
-            // Lowercase the key: the token lookup below lowercases the template token,
-            // so a custom variable stored as "SubjectLine" must be reachable as
-            // "subjectline" or it silently renders as empty string.
-            tokens[key.toLowerCase()] = String(value ?? '');
-        }
-    }
-    return template.replace(/\{\{(\w+)\}\}/g, (_m, token: string) => tokens[token.toLowerCase()] ?? '');
-}
-
 /**
- * Final email composition - THE single pipeline, used in two places:
+ * Final email composition - THE single pipeline, used in three places:
  *   1. The dispatcher, at enqueue time (blank-guard input + fallback snapshot).
  *   2. processBatchJob, immediately before each SMTP send, with FRESH step /
  *      lead / campaign state - so a user editing content while a batch drains
  *      (batches span hours at send_gap_minutes pacing) still reaches every
- *      not-yet-sent email. One function, so the two sites cannot drift.
+ *      not-yet-sent email. One function, so the sites cannot drift.
+ *   3. placementTestService, so a seed-list test sends exactly what a lead
+ *      would receive (tracking links, footer, preheader included).
  * Order matters: personalize → spintax → tracking → preheader.
- * - Personalize first so {{tokens}} inside spintax options are substituted.
+ * - Personalize first so {{tokens}} inside spintax options are substituted
+ *   (and so `{{x | default: "y"}}` filter pipes never reach the spintax
+ *   resolver).
  * - Spintax second so each lead receives a different lexical variant,
  *   breaking ISP pattern-fingerprinting on bulk sequence sends.
  * - Tracking third so the open pixel + click wrappers see the final URL set.
  * - Preheader last (invisible div ahead of the visible body).
  */
-function composeFinalEmail(args: {
+export function composeFinalEmail(args: {
     rawSubject: string;
     rawBody: string;
     rawPreheader: string;
@@ -353,18 +367,31 @@ function composeFinalEmail(args: {
     trackingDomain: string | null;
     euComplianceMode: boolean;
     mailingAddress: string | null;
-}): { subject: string; bodyHtml: string; unsubscribeUrl: string; bodyTextProbe: string } {
-    const subject = resolveSpintax(personalizeEmail(args.rawSubject, args.lead));
-    const personalizedBody = resolveSpintax(personalizeEmail(args.rawBody, args.lead));
+    /** Campaign schedule_timezone - drives the template `date` filter. */
+    timezone: string | null;
+}): {
+    subject: string;
+    bodyHtml: string;
+    unsubscribeUrl: string;
+    bodyTextProbe: string;
+    /** Tokens with no value and no default - callers must not send when non-empty. */
+    unresolvedTokens: string[];
+    /** Template syntax problems (unclosed {% if %}, unknown filter) - same rule. */
+    templateIssues: string[];
+} {
+    const renderOpts = { timezone: args.timezone };
+    const subjectRender = renderForLead(args.rawSubject, args.lead, renderOpts);
+    const bodyRender = renderForLead(args.rawBody, args.lead, renderOpts);
+    const preheaderRender = renderForLead(args.rawPreheader || '', args.lead, renderOpts);
+    const subject = resolveSpintax(subjectRender.output);
+    const personalizedBody = resolveSpintax(bodyRender.output);
     // Visible-text probe for the blank-email guard (strip tags + nbsp).
     const bodyTextProbe = personalizedBody
         .replace(/<[^>]*>/g, ' ')
         .replace(/&nbsp;/gi, ' ')
         .replace(/\s+/g, ' ')
         .trim();
-    const personalizedPreheader = args.rawPreheader
-        ? resolveSpintax(personalizeEmail(args.rawPreheader, args.lead))
-        : '';
+    const personalizedPreheader = args.rawPreheader ? resolveSpintax(preheaderRender.output) : '';
     const trackedBody = applyTracking(personalizedBody, {
         leadId: args.leadId,
         trackOpens: args.trackOpens,
@@ -376,40 +403,16 @@ function composeFinalEmail(args: {
     });
     const bodyHtml = injectPreheader(trackedBody, personalizedPreheader);
     const unsubscribeUrl = args.includeUnsubscribe ? buildUnsubscribeUrl(args.leadId, args.trackingDomain) : '';
-    return { subject, bodyHtml, unsubscribeUrl, bodyTextProbe };
+    const renders = [subjectRender, bodyRender, preheaderRender];
+    const unresolvedTokens = Array.from(new Set(renders.flatMap(r => r.unresolved)));
+    const templateIssues = renders.flatMap(r => r.issues.map(i => i.message));
+    return { subject, bodyHtml, unsubscribeUrl, bodyTextProbe, unresolvedTokens, templateIssues };
 }
 
 // Moved to utils/sendWindow so the send-time gate (executionGateService.canSendNow)
 // can enforce the same window when queued batches drain - without a circular import.
-import { isWithinSendingWindow } from '../utils/sendWindow';
-
-/**
- * Evaluate a step's branching condition against a lead's CampaignLead state.
- * Returns true if the step should be sent. Unknown conditions fail-open
- * (treated as no condition) so a typo on the schema enum doesn't silently
- * stop the whole sequence.
- */
-function stepConditionMatches(
-    condition: string | null | undefined,
-    lead: {
-        replied_at?: Date | null;
-        opened_count?: number | null;
-        clicked_count?: number | null;
-    },
-): boolean {
-    if (!condition) return true;
-    const opens = lead.opened_count || 0;
-    const clicks = lead.clicked_count || 0;
-    switch (condition) {
-        case 'if_no_reply':    return !lead.replied_at;
-        case 'if_replied':     return !!lead.replied_at;
-        case 'if_opened':      return opens > 0;
-        case 'if_not_opened':  return opens === 0;
-        case 'if_clicked':     return clicks > 0;
-        case 'if_not_clicked': return clicks === 0;
-        default:               return true;
-    }
-}
+import { isWithinSendingWindow, nextWindowOpening, resolveLeadTimezone, addBusinessDays, DateBlackout } from '../utils/sendWindow';
+import { inferLeadTimezone } from '../utils/timezoneInference';
 
 /**
  * Walk the sequence from `startNumber`, honoring per-step `condition` and
@@ -420,18 +423,15 @@ function stepConditionMatches(
  * Safety: capped at 10 hops to defang accidental loops (a step that branches
  * to itself, or two steps that ping-pong via mutual branches).
  */
-function resolveDeliverableStep(
+export function resolveDeliverableStep<S extends { step_number: number; condition?: string | null; branch_to_step_number?: number | null }>(
     startNumber: number,
-    steps: SequenceStepWithVariants[],
+    steps: S[],
     lead: { replied_at?: Date | null; opened_count?: number | null; clicked_count?: number | null },
-): SequenceStepWithVariants | null {
+): S | null {
     let current: number | null = startNumber;
     let safety = 10;
     while (current != null && safety-- > 0) {
-        const step = steps.find(s => s.step_number === current) as SequenceStepWithVariants & {
-            condition?: string | null;
-            branch_to_step_number?: number | null;
-        } | undefined;
+        const step = steps.find(s => s.step_number === current);
         if (!step) return null;
         if (stepConditionMatches(step.condition, lead)) return step;
         // Condition failed - try the branch if defined and not self-pointing.
@@ -442,14 +442,167 @@ function resolveDeliverableStep(
     return null;
 }
 
-function calculateNextSendAt(nextStep: { delay_days: number; delay_hours: number } | null): Date | null {
+/**
+ * When the campaign counts delays in business days (delay_business_days),
+ * delay_days skips non-send weekdays and blackout dates in the campaign zone.
+ */
+export interface BusinessDayCalendar {
+    timezone: string | null;
+    sendDays: string[];
+    blackout: DateBlackout | null;
+}
+
+export function calculateNextSendAt(
+    nextStep: { delay_days: number; delay_hours: number } | null,
+    businessDays: BusinessDayCalendar | null = null,
+    from: Date = new Date(),
+): Date | null {
     if (!nextStep) return null;
-    const next = new Date();
-    next.setDate(next.getDate() + nextStep.delay_days);
+    let next = new Date(from);
+    if (businessDays && nextStep.delay_days > 0) {
+        next = addBusinessDays(next, nextStep.delay_days, businessDays);
+    } else {
+        next.setDate(next.getDate() + nextStep.delay_days);
+    }
     next.setHours(next.getHours() + nextStep.delay_hours);
     return next;
 }
 
+/** Business-day calendar for a campaign, or null when it counts calendar days. */
+export async function loadBusinessDayCalendar(campaignId: string): Promise<BusinessDayCalendar | null> {
+    const campaign = await prisma.campaign.findUnique({
+        where: { id: campaignId },
+        select: { organization_id: true, delay_business_days: true, schedule_timezone: true, schedule_days: true },
+    });
+    if (!campaign?.delay_business_days) return null;
+    return {
+        timezone: campaign.schedule_timezone,
+        sendDays: campaign.schedule_days,
+        blackout: await blackoutCalendar.loadCampaignCalendar(campaign.organization_id, campaignId),
+    };
+}
+
+/**
+ * Latest open / click per CampaignLead. Graph wait_for_event nodes need "did
+ * it happen since the lead arrived here", which lifetime counters can't say.
+ */
+async function loadLastEngagementAt(campaignLeadIds: string[]): Promise<{ opened: Map<string, Date>; clicked: Map<string, Date> }> {
+    const opened = new Map<string, Date>();
+    const clicked = new Map<string, Date>();
+    if (campaignLeadIds.length === 0) return { opened, clicked };
+    const [opens, clicks] = await Promise.all([
+        prisma.emailOpenEvent.groupBy({
+            by: ['campaign_lead_id'],
+            where: { campaign_lead_id: { in: campaignLeadIds } },
+            _max: { opened_at: true },
+        }),
+        prisma.emailClickEvent.groupBy({
+            by: ['campaign_lead_id'],
+            where: { campaign_lead_id: { in: campaignLeadIds } },
+            _max: { clicked_at: true },
+        }),
+    ]);
+    for (const o of opens) if (o._max.opened_at) opened.set(o.campaign_lead_id, o._max.opened_at);
+    for (const c of clicks) if (c._max.clicked_at) clicked.set(c.campaign_lead_id, c._max.clicked_at);
+    return { opened, clicked };
+}
+
+/**
+ * Post-send CampaignLead position for a graph-mode email. Leaves the email
+ * node by its first matching edge and resolves forward to the next wait /
+ * email / exit - so a lead whose next hop is "wait 3 days" lands on that wait
+ * with next_send_at already set, and one that hits an exit completes now.
+ */
+function graphAdvanceAfterSend(
+    graph: sequenceGraph.SequenceGraph,
+    fromNodeId: string,
+    lead: { replied_at: Date | null; opened_count: number; clicked_count: number },
+): { current_node_id: string | null; node_entered_at: Date; next_send_at: Date | null; status: string } {
+    const now = new Date();
+    const state = { ...lead, current_node_id: fromNodeId, node_entered_at: now };
+    const successor = sequenceGraph.chooseSuccessor(graph, fromNodeId, state);
+    if (!successor) return { current_node_id: fromNodeId, node_entered_at: now, next_send_at: null, status: 'completed' };
+    const resolution = sequenceGraph.resolveGraphPosition(graph, { ...state, current_node_id: successor.id }, now);
+    switch (resolution.action) {
+        case 'complete':
+            return { current_node_id: resolution.nodeId, node_entered_at: now, next_send_at: null, status: 'completed' };
+        case 'wait':
+            return { current_node_id: resolution.node.id, node_entered_at: resolution.enteredAt, next_send_at: resolution.wakeAt, status: 'active' };
+        case 'send':
+            return { current_node_id: resolution.node.id, node_entered_at: resolution.enteredAt, next_send_at: now, status: 'active' };
+    }
+}
+
+/**
+ * Move a lead past a step that finished without an email from this worker - a
+ * completed or skipped manual task, or a step skipped by a per-lead override.
+ * Same scheduling as after a send: linear leads wait the next step's delay
+ * (business days if configured), graph leads leave the node by its first
+ * matching edge. Guarded on status='active'; false when the lead had left.
+ */
+export async function advanceLeadPastStep(
+    campaignId: string,
+    leadId: string,
+    stepNumber: number,
+    graphNodeId: string | null,
+): Promise<boolean> {
+    let position: { next_send_at: Date | null; status: string; current_node_id?: string | null; node_entered_at?: Date };
+    if (graphNodeId) {
+        const [graph, leadState] = await Promise.all([
+            sequenceGraph.loadCampaignGraph(campaignId),
+            prisma.campaignLead.findUnique({
+                where: { id: leadId },
+                select: { replied_at: true, opened_count: true, clicked_count: true },
+            }),
+        ]);
+        position = graphAdvanceAfterSend(graph, graphNodeId, leadState ?? { replied_at: null, opened_count: 0, clicked_count: 0 });
+    } else {
+        const steps = await prisma.sequenceStep.findMany({
+            where: { campaign_id: campaignId, step_number: { gt: stepNumber } },
+            select: { step_number: true, delay_days: true, delay_hours: true },
+        });
+        const next = steps.find(s => s.step_number === stepNumber + 1);
+        position = steps.length === 0
+            ? { next_send_at: null, status: 'completed' }
+            : {
+                next_send_at: calculateNextSendAt(next ?? { delay_days: 0, delay_hours: 0 }, await loadBusinessDayCalendar(campaignId)),
+                status: 'active',
+            };
+    }
+    const { count } = await prisma.campaignLead.updateMany({
+        where: { id: leadId, status: 'active' },
+        data: { current_step: stepNumber, sto_slot_at: null, ...position },
+    });
+    return count > 0;
+}
+
+/**
+ * Mailbox-wide daily cap - normally ConnectedAccount.daily_send_limit, but the
+ * 5-phase recovery pipeline lowers it via Mailbox.warmup_limit during
+ * RESTRICTED_SEND / WARM_RECOVERY phases. The smaller of the two takes effect
+ * so recovering mailboxes don't dispatch at full volume mid-pipeline.
+ *
+ * Defense-in-depth: only honor warmup_limit while the mailbox is actually in a
+ * recovery phase. A fully graduated mailbox should never be capped by stale
+ * warmup data; if its phase is HEALTHY (or null/legacy), warmup_limit is
+ * ignored and the dispatcher sends at the configured daily_send_limit.
+ */
+export function mailboxDailyLimit(acct: {
+    daily_send_limit: number;
+    mailbox?: { warmup_limit?: number | null; recovery_phase?: string | null } | null;
+}): number {
+    const recoveryPhase = acct.mailbox?.recovery_phase;
+    const inRecovery =
+        recoveryPhase === 'quarantine' ||
+        recoveryPhase === 'restricted_send' ||
+        recoveryPhase === 'warm_recovery' ||
+        recoveryPhase === 'paused';
+    const recoveryCap = (inRecovery && acct.mailbox?.warmup_limit && acct.mailbox.warmup_limit > 0)
+        ? acct.mailbox.warmup_limit
+        : Number.POSITIVE_INFINITY;
+    return Math.min(acct.daily_send_limit, recoveryCap);
+}
+
 async function resetDailySendsIfNeeded(accountId: string, sendsResetAt: Date): Promise<number> {
     const today = new Date();
     today.setUTCHours(0, 0, 0, 0);
@@ -628,7 +781,7 @@ async function dispatch(): Promise<void> {
 
         // 2. Batch-load org tiers + monthly send counts
         const orgIds = [...new Set(activeCampaigns.map(c => c.organization_id))];
-        const [orgs, orgMonthlySends, campaignDailySends] = await Promise.all([
+        const [orgs, orgMonthlySends, campaignDailySends, blackoutRules] = await Promise.all([
             prisma.organization.findMany({
                 where: { id: { in: orgIds } },
                 select: { id: true, subscription_tier: true },
@@ -643,6 +796,9 @@ async function dispatch(): Promise<void> {
                 where: { campaign_id: { in: activeCampaigns.map(c => c.id) }, sent_at: { gte: (() => { const d = new Date(); d.setUTCHours(0, 0, 0, 0); return d; })() } },
                 _count: true,
             }),
+            // Holiday / blackout rules for every org in one query; split per
+            // campaign (workspace + campaign scope) inside the loop.
+            prisma.blackoutRule.findMany({ where: { organization_id: { in: orgIds } } }),
         ]);
 
         const orgTierMap = new Map(orgs.map(o => [o.id, o.subscription_tier]));
@@ -687,8 +843,11 @@ async function dispatch(): Promise<void> {
                 const monthlySent = orgMonthlyMap.get(campaign.organization_id) || 0;
                 if (limits.monthlySendLimit !== Infinity && monthlySent >= limits.monthlySendLimit) continue;
 
-                // Check sending window
-                if (!isWithinSendingWindow(campaign)) continue;
+                // Check sending window (blackout dates close it for the whole
+                // day). Recipient-local campaigns have no single window - it's
+                // evaluated per lead once the due leads are loaded.
+                const blackout = blackoutCalendar.calendarForCampaign(blackoutRules, campaign.organization_id, campaign.id);
+                if (!campaign.send_in_recipient_timezone && !isWithinSendingWindow(campaign, { blackout })) continue;
 
                 // Daily limit is nullable for historical reasons. Fall back to a
                 // safe SequencerSettings-style default of 50 if somehow unset.
@@ -706,6 +865,8 @@ async function dispatch(): Promise<void> {
                         status: 'active',
                         current_step: 0,
                         next_send_at: null,
+                        // A step-1 manual task parks the lead with next_send_at null too.
+                        tasks: { none: { status: 'open' } },
                     },
                     data: { next_send_at: now },
                 });
@@ -735,40 +896,193 @@ async function dispatch(): Promise<void> {
                 // Org-wide suppression check (defense in depth) - required for
                 // CAN-SPAM § 5(a)(4)(A), CASL § 11(3), GDPR Art. 21. The
                 // CampaignLead.status='unsubscribed' cascade catches the click-
-                // unsubscribe path, and the per-row suppression catches anything
-                // else that may have touched Lead.status without cascading
+                // unsubscribe path; this catches everything else on the org
+                // suppression list (domain / pattern entries, CRM opt-outs,
+                // complaints) plus Lead.status changes that never cascaded
                 // (admin override, hard-bounce automation, future paths).
-                const suppressedEmails = new Set(
-                    (await prisma.lead.findMany({
-                        where: {
-                            organization_id: campaign.organization_id,
-                            email: { in: dueLeadsRaw.map(l => l.email) },
-                            status: { in: ['unsubscribed', 'bounced'] },
-                        },
-                        select: { email: true },
-                    })).map(l => l.email),
+                const suppressed = await suppressionService.findSuppressed(
+                    campaign.organization_id,
+                    dueLeadsRaw.map(l => l.email),
                 );
 
-                const dueLeads = dueLeadsRaw.filter(l => !suppressedEmails.has(l.email));
-
-                if (suppressedEmails.size > 0) {
-                    // Cascade the suppression onto the CampaignLead rows so future
-                    // dispatches don't re-fetch+re-filter the same set every cycle.
-                    const suppressedIds = dueLeadsRaw
-                        .filter(l => suppressedEmails.has(l.email))
-                        .map(l => l.id);
-                    await prisma.campaignLead.updateMany({
-                        where: { id: { in: suppressedIds } },
-                        data: { status: 'unsubscribed', next_send_at: null },
-                    });
-                    logger.info('[SEND-QUEUE] Suppressed dispatch - org-wide lead status', {
+                let dueLeads = dueLeadsRaw.filter(l => !suppressed.has(l.email.toLowerCase()));
+
+                if (suppressed.size > 0) {
+                    // Cascade onto the CampaignLead rows so future dispatches don't
+                    // re-fetch + re-filter the same set every cycle. Permanent
+                    // suppressions end the sequence; an entry with an expiry only
+                    // parks the lead until it lapses, then the check runs again.
+                    const permanentIds: string[] = [];
+                    const parkedUntil = new Map<number, string[]>();
+                    for (const l of dueLeadsRaw) {
+                        const hit = suppressed.get(l.email.toLowerCase());
+                        if (!hit) continue;
+                        if (hit.expiresAt) {
+                            const key = hit.expiresAt.getTime();
+                            parkedUntil.set(key, [...(parkedUntil.get(key) || []), l.id]);
+                        } else {
+                            permanentIds.push(l.id);
+                        }
+                    }
+                    if (permanentIds.length > 0) {
+                        await prisma.campaignLead.updateMany({
+                            where: { id: { in: permanentIds } },
+                            data: { status: 'unsubscribed', next_send_at: null },
+                        });
+                    }
+                    for (const [until, ids] of parkedUntil) {
+                        await prisma.campaignLead.updateMany({
+                            where: { id: { in: ids } },
+                            data: { next_send_at: new Date(until) },
+                        });
+                    }
+                    logger.info('[SEND-QUEUE] Suppressed dispatch - org-wide suppression', {
                         campaignId: campaign.id,
-                        suppressedCount: suppressedEmails.size,
+                        suppressedCount: suppressed.size,
+                        parked: suppressed.size - permanentIds.length,
                     });
                 }
 
                 if (dueLeads.length === 0) continue;
 
+                // ── RECIPIENT-LOCAL SEND WINDOW ──
+                // Infer + cache each lead's zone on first sight, then park leads
+                // whose local window is closed until it next opens, so they
+                // neither consume a mailbox slot nor get re-fetched every tick.
+                if (campaign.send_in_recipient_timezone) {
+                    const inWindow: typeof dueLeads = [];
+                    for (const lead of dueLeads) {
+                        if (!lead.timezone_source) {
+                            const inferred = inferLeadTimezone(lead);
+                            lead.timezone = inferred?.timezone ?? null;
+                            lead.timezone_source = inferred?.source ?? 'fallback';
+                            await prisma.campaignLead.update({
+                                where: { id: lead.id },
+                                data: { timezone: lead.timezone, timezone_source: lead.timezone_source },
+                            }).catch(() => { /* re-inferred next tick */ });
+                        }
+                        const tz = resolveLeadTimezone(campaign, lead);
+                        if (isWithinSendingWindow(campaign, { timezone: tz, now, blackout })) {
+                            inWindow.push(lead);
+                            continue;
+                        }
+                        const opensAt = nextWindowOpening(campaign, tz, now, blackout) ?? new Date(now.getTime() + 24 * 60 * 60 * 1000);
+                        await prisma.campaignLead.update({
+                            where: { id: lead.id },
+                            data: { next_send_at: opensAt },
+                        }).catch(() => { /* tolerable - lead is simply re-checked next tick */ });
+                    }
+                    dueLeads = inWindow;
+                    if (dueLeads.length === 0) continue;
+                }
+
+                // ── SEND-TIME OPTIMIZATION ──
+                // Opted-in campaigns park each newly-due lead at its predicted
+                // best slot (sendTimeOptimizerService). A lead already parked
+                // (sto_slot_at set) sends when due. No learned profile, or a
+                // best slot within the next few minutes, sends as usual.
+                if (campaign.send_time_optimization) {
+                    const profiles = await sendTimeOptimizer.getOrgProfiles(campaign.organization_id);
+                    const ready: typeof dueLeads = [];
+                    for (const lead of dueLeads) {
+                        if (lead.sto_slot_at) {
+                            ready.push(lead);
+                            continue;
+                        }
+                        const slot = sendTimeOptimizer.pickSendSlot(profiles, lead, {
+                            campaign,
+                            timezone: resolveLeadTimezone(campaign, lead),
+                            blackout,
+                            from: now,
+                        });
+                        if (!slot || slot.getTime() - now.getTime() < STO_SEND_NOW_MS) {
+                            ready.push(lead);
+                            continue;
+                        }
+                        await prisma.campaignLead.update({
+                            where: { id: lead.id },
+                            data: { next_send_at: slot, sto_slot_at: slot },
+                        }).catch(() => { /* tolerable - lead is simply re-checked next tick */ });
+                    }
+                    dueLeads = ready;
+                    if (dueLeads.length === 0) continue;
+                }
+
+                // ── GRAPH-MODE POSITION RESOLUTION ──
+                // Graph campaigns walk SequenceNode / SequenceEdge instead of
+                // step_number. Resolve every due lead up front: leads whose walk
+                // ends on a wait are re-parked (next_send_at = wake time) and
+                // leads that hit an exit / dead end complete - neither should
+                // consume a mailbox slot this tick.
+                const graphNodeByLead = new Map<string, sequenceGraph.GraphNode>();
+                if (campaign.sequence_mode === 'graph') {
+                    const graph = await sequenceGraph.loadCampaignGraph(campaign.id);
+                    const lastEventAt = await loadLastEngagementAt(dueLeads.map(l => l.id));
+                    const sendable: typeof dueLeads = [];
+                    for (const lead of dueLeads) {
+                        const resolution = sequenceGraph.resolveGraphPosition(graph, {
+                            ...lead,
+                            last_opened_at: lastEventAt.opened.get(lead.id) ?? null,
+                            last_clicked_at: lastEventAt.clicked.get(lead.id) ?? null,
+                        }, now);
+                        if (resolution.action === 'complete') {
+                            await prisma.campaignLead.update({
+                                where: { id: lead.id },
+                                data: { status: 'completed', next_send_at: null, current_node_id: resolution.nodeId },
+                            });
+                            continue;
+                        }
+                        const moved = resolution.node.id !== lead.current_node_id;
+                        if (resolution.action === 'wait') {
+                            await prisma.campaignLead.update({
+                                where: { id: lead.id },
+                                data: {
+                                    current_node_id: resolution.node.id,
+                                    node_entered_at: resolution.enteredAt,
+                                    next_send_at: resolution.wakeAt,
+                                },
+                            });
+                            continue;
+                        }
+                        if (moved) {
+                            await prisma.campaignLead.update({
+                                where: { id: lead.id },
+                                data: { current_node_id: resolution.node.id, node_entered_at: resolution.enteredAt },
+                            });
+                        }
+                        graphNodeByLead.set(lead.id, resolution.node);
+                        sendable.push(lead);
+                    }
+                    dueLeads = sendable;
+                    if (dueLeads.length === 0) continue;
+                }
+
+                // ── MANUAL TASK STEPS ──
+                // A lead due on a call / LinkedIn / task step gets a SequenceTask
+                // for a rep and waits on it (next_send_at null) - it doesn't use
+                // a mailbox slot. Per-lead overrides load here: an injected email
+                // or a skip of the step takes precedence over opening the task.
+                const overridesByLead = await leadOverrides.loadPendingOverrides(dueLeads.map(l => l.id));
+                if ((campaign.steps as SequenceStepWithVariants[]).some(s => sequenceTasks.isTaskStep(s.step_type))) {
+                    const emailDue: typeof dueLeads = [];
+                    for (const lead of dueLeads) {
+                        const graphNode = graphNodeByLead.get(lead.id) ?? null;
+                        const step = graphNode
+                            ? (campaign.steps as SequenceStepWithVariants[]).find(s => s.step_number === graphNode.step_number) ?? null
+                            : resolveDeliverableStep(lead.current_step + 1, campaign.steps as SequenceStepWithVariants[], lead);
+                        const plan = leadOverrides.planLeadDispatch(overridesByLead.get(lead.id) ?? [], step?.step_number ?? null);
+                        if (step && sequenceTasks.isTaskStep(step.step_type) && plan.action !== 'inject' && plan.action !== 'skip') {
+                            await sequenceTasks.holdLeadAtTask(campaign, lead.id, step, graphNode?.id ?? null, now).catch((err) => {
+                                logger.warn(`[${LOG_TAG}] Task step ${step.step_number} for lead ${lead.id} not opened: ${err?.message}`);
+                            });
+                            continue;
+                        }
+                        emailDue.push(lead);
+                    }
+                    dueLeads = emailDue;
+                    if (dueLeads.length === 0) continue;
+                }
+
                 // ── BUILD ELIGIBLE ACCOUNTS WITH CAPACITY-AWARE FILTERING ──
                 //
                 // For each account in this campaign we compute the SMALLEST of three
@@ -845,28 +1159,8 @@ async function dispatch(): Promise<void> {
                     const resetResult = await resetDailySendsIfNeeded(acct.id, acct.sends_reset_at);
                     const mailboxSendsToday = resetResult === 0 ? 0 : acct.sends_today;
 
-                    // Mailbox-wide daily cap - normally ConnectedAccount.daily_send_limit,
-                    // but the 5-phase recovery pipeline lowers it via Mailbox.warmup_limit
-                    // during RESTRICTED_SEND / WARM_RECOVERY phases. The smaller of the
-                    // two takes effect so recovering mailboxes don't dispatch at full
-                    // volume mid-pipeline.
-                    //
-                    // Defense-in-depth: only honor warmup_limit while the mailbox is
-                    // actually in a recovery phase. A fully graduated mailbox should
-                    // never be capped by stale warmup data; if its phase is HEALTHY
-                    // (or null/legacy), warmup_limit is ignored and the dispatcher
-                    // sends at the configured ConnectedAccount.daily_send_limit.
-                    const recoveryPhase = acct.mailbox?.recovery_phase;
-                    const inRecovery =
-                        recoveryPhase === 'quarantine' ||
-                        recoveryPhase === 'restricted_send' ||
-                        recoveryPhase === 'warm_recovery' ||
-                        recoveryPhase === 'paused';
-                    const recoveryCap = (inRecovery && acct.mailbox?.warmup_limit && acct.mailbox.warmup_limit > 0)
-                        ? acct.mailbox.warmup_limit
-                        : Number.POSITIVE_INFINITY;
-                    const effectiveDailyLimit = Math.min(acct.daily_send_limit, recoveryCap);
-                    const mailboxRemaining = effectiveDailyLimit - mailboxSendsToday;
+                    // Mailbox-wide daily cap, lowered by warmup_limit mid-recovery.
+                    const mailboxRemaining = mailboxDailyLimit(acct) - mailboxSendsToday;
 
                     const campaignCap = ca.daily_limit_override ?? acct.daily_send_limit;
                     const campaignUsageToday = usageMap.get(acct.id) ?? 0;
@@ -918,6 +1212,18 @@ async function dispatch(): Promise<void> {
                     }
                 }
 
+                // ── PROVIDER THROTTLES ──
+                // Mailbox × recipient-provider pairs backing off after 421/451
+                // deferrals (providerThrottleService). A throttled pair takes no
+                // new leads; each assignment below counts against its slow-start
+                // window so one tick can't overfill it.
+                const throttles = await providerThrottle.loadThrottles(accounts.map(a => a.id));
+                const throttleRetryAt = (acctId: string, provider: string | null): Date | null => {
+                    if (!provider) return null;
+                    const gate = providerThrottle.admit(throttles.get(providerThrottle.throttleKey(acctId, provider)), now);
+                    return gate.allowed ? null : gate.retryAt;
+                };
+
                 // ── ASSIGN LEADS TO MAILBOXES (sticky-per-lead + capacity-balanced + ESP-aware) ──
                 //
                 // Stickiness: every lead is pinned to ONE mailbox for the entire
@@ -961,7 +1267,7 @@ async function dispatch(): Promise<void> {
                 // for every sibling lead; later dueLeads on the same mailbox just skip.
                 const lostMailboxesHandled = new Set<string>();
 
-                const pickBestByScore = (lead: { esp_bucket: string | null }): typeof accounts[0] | null => {
+                const pickBestByScore = (lead: { esp_bucket: string | null }, provider: string | null): typeof accounts[0] | null => {
                     let best: typeof accounts[0] | null = null;
                     let bestScore = -Infinity;
                     const leadEsp = lead.esp_bucket || 'other';
@@ -969,6 +1275,7 @@ async function dispatch(): Promise<void> {
                     for (const acct of accounts) {
                         const assigned = accountCounts.get(acct.id) || 0;
                         if (assigned >= acct.remainingCapacity) continue;
+                        if (throttleRetryAt(acct.id, provider)) continue;
 
                         const capacityScore = (acct.remainingCapacity - assigned) / acct.remainingCapacity;
                         let score: number;
@@ -1006,6 +1313,7 @@ async function dispatch(): Promise<void> {
                 for (const lead of dueLeads) {
                     let chosenAccount: typeof accounts[0] | null = null;
                     let stickyOverride = false;
+                    const leadProvider = providerThrottle.adaptiveProvider(lead.email, lead.esp_bucket);
 
                     const stickyId: string | null = (lead as any).assigned_account_id ?? null;
 
@@ -1054,10 +1362,28 @@ async function dispatch(): Promise<void> {
                         }
                     } else {
                         // First send for this lead - pick best mailbox + bind sticky.
-                        chosenAccount = pickBestByScore(lead);
+                        chosenAccount = pickBestByScore(lead, leadProvider);
                         stickyOverride = !!chosenAccount;
                     }
 
+                    // Provider throttle: a sticky mailbox backing off from this
+                    // lead's provider, or every mailbox with capacity left doing
+                    // so for a fresh lead, parks the lead until the earliest pair
+                    // can take mail again - without stopping the rest of the tick.
+                    const throttledUntil = chosenAccount
+                        ? throttleRetryAt(chosenAccount.id, leadProvider)
+                        : accounts
+                            .filter(a => (accountCounts.get(a.id) || 0) < a.remainingCapacity)
+                            .map(a => throttleRetryAt(a.id, leadProvider))
+                            .reduce<Date | null>((min, at) => (at && (!min || at < min) ? at : min), null);
+                    if (throttledUntil) {
+                        await prisma.campaignLead.update({
+                            where: { id: lead.id },
+                            data: { next_send_at: throttledUntil },
+                        }).catch(() => { /* tolerable */ });
+                        continue;
+                    }
+
                     if (!chosenAccount) break; // All accounts at capacity for this tick
 
                     // Time-of-day refinement: if we're in business hours and the chosen
@@ -1069,7 +1395,8 @@ async function dispatch(): Promise<void> {
                         if (chosenLoadFraction > 0.7) {
                             const lessLoaded = accounts.filter(a =>
                                 a.id !== chosenAccount!.id &&
-                                (accountCounts.get(a.id) || 0) < a.remainingCapacity * 0.5
+                                (accountCounts.get(a.id) || 0) < a.remainingCapacity * 0.5 &&
+                                !throttleRetryAt(a.id, leadProvider)
                             );
                             if (lessLoaded.length > 0) {
                                 // Pick the least-loaded among them
@@ -1096,27 +1423,67 @@ async function dispatch(): Promise<void> {
                     // resolveDeliverableStep walks the branch chain and returns either
                     // the actual step to send, or null when no branch can satisfy the
                     // lead's current state (in which case the sequence ends here).
+                    // Graph mode already resolved the node above; its step_number
+                    // names the SequenceStep holding the content.
+                    const graphNode = graphNodeByLead.get(lead.id) ?? null;
                     const sendingStepNumber = lead.current_step + 1;
-                    const step = resolveDeliverableStep(sendingStepNumber, campaign.steps as SequenceStepWithVariants[], {
-                        replied_at: (lead as any).replied_at,
-                        opened_count: (lead as any).opened_count,
-                        clicked_count: (lead as any).clicked_count,
-                    });
+                    const step = graphNode
+                        ? (campaign.steps as SequenceStepWithVariants[]).find(s => s.step_number === graphNode.step_number) ?? null
+                        : resolveDeliverableStep(sendingStepNumber, campaign.steps as SequenceStepWithVariants[], {
+                            replied_at: (lead as any).replied_at,
+                            opened_count: (lead as any).opened_count,
+                            clicked_count: (lead as any).clicked_count,
+                        });
+
+                    // ── PER-LEAD OVERRIDES ──
+                    // An SDR's injected manual email goes out ahead of the step
+                    // (which stays due after it); a skip consumes the step without
+                    // sending; an edit swaps in this lead's own subject/body.
+                    const overridePlan = leadOverrides.planLeadDispatch(overridesByLead.get(lead.id) ?? [], step?.step_number ?? null);
+                    const injected = overridePlan.action === 'inject';
+
+                    if (step && overridePlan.action === 'skip') {
+                        if (await leadOverrides.markOverrideApplied(overridePlan.override.id)) {
+                            // In graph mode the node carries the position: advance along its edge.
+                            await advanceLeadPastStep(campaign.id, lead.id, step.step_number, graphNode?.id ?? null);
+                            logger.info(`[${LOG_TAG}] Step ${step.step_number} skipped for lead ${lead.id} (override ${overridePlan.override.id})`);
+                        }
+                        continue;
+                    }
 
-                    if (!step) {
+                    if (!step && !injected) {
                         await prisma.campaignLead.update({
                             where: { id: lead.id },
                             data: { status: 'completed', next_send_at: null },
                         });
                         continue;
                     }
+
+                    // ── STEP HOLD ──
+                    // linkReputationService paused this step because a link or
+                    // tracking domain in it is blocklisted. Park the lead rather
+                    // than pausing it - the step resumes on its own once the
+                    // domain is delisted or edited out. An injected email is the
+                    // SDR's own content and still goes out.
+                    if (step && !injected && step.paused_at) {
+                        await prisma.campaignLead.update({
+                            where: { id: lead.id },
+                            data: { next_send_at: new Date(Date.now() + PAUSED_STEP_RECHECK_MS) },
+                        }).catch(() => { /* tolerable - lead is simply re-checked next tick */ });
+                        continue;
+                    }
                     // The step we resolved may have a different step_number than the
                     // candidate (when we followed a branch). Use the resolved step's
                     // number going forward so current_step gets the actual delivered
-                    // step and the next dispatch starts from N+1.
-                    const deliveredStepNumber = step.step_number;
+                    // step and the next dispatch starts from N+1. An injected email
+                    // takes the slot of the step it precedes, so threading and the
+                    // step-1 subject rule treat it the same way.
+                    const deliveredStepNumber = injected ? sendingStepNumber : step!.step_number;
 
-                    const { subject: rawSubject, bodyHtml: rawBody, preheader: rawPreheader, variantId } = pickVariant(step);
+                    const override = overridePlan.action === 'none' ? null : overridePlan.override;
+                    const { subject: rawSubject, bodyHtml: rawBody, preheader: rawPreheader, variantId } = override
+                        ? { subject: override.subject ?? '', bodyHtml: override.body_html ?? '', preheader: step?.preheader ?? '', variantId: null }
+                        : pickVariant(step!);
 
                     // Enqueue-time composition via the shared pipeline. NOTE: this is a
                     // SNAPSHOT - processBatchJob re-runs composeFinalEmail with fresh
@@ -1129,7 +1496,7 @@ async function dispatch(): Promise<void> {
                         ? bestAccount.tracking_domain
                         : campaign.tracking_domain;
                     const orgMailingAddress = mailingAddressByOrg.get(campaign.organization_id) || null;
-                    const { subject, bodyHtml, unsubscribeUrl, bodyTextProbe } = composeFinalEmail({
+                    const { subject, bodyHtml, unsubscribeUrl, bodyTextProbe, unresolvedTokens, templateIssues } = composeFinalEmail({
                         rawSubject,
                         rawBody,
                         rawPreheader,
@@ -1148,8 +1515,31 @@ async function dispatch(): Promise<void> {
                         trackingDomain: effectiveTrackingDomain,
                         euComplianceMode: campaign.eu_compliance_mode ?? false,
                         mailingAddress: orgMailingAddress,
+                        timezone: resolveLeadTimezone(campaign, lead),
                     });
 
+                    // ── FAIL-CLOSED PERSONALIZATION GUARD ─────────────────────────
+                    // A token with no value and no `| default:` fallback used to
+                    // render as '' and ship "Hi ," emails. Pause the lead with a
+                    // reason instead; GET /campaigns/:id/personalization lists
+                    // every affected lead + token so the operator can fix the data
+                    // (or add a default) and resume.
+                    if (templateIssues.length > 0 || unresolvedTokens.length > 0) {
+                        const reason = templateIssues.length > 0 ? 'template_error' : 'unresolved_tokens';
+                        logger.warn(`[${LOG_TAG}] PERSONALIZATION GUARD: ${reason} for lead ${lead.id} (step ${deliveredStepNumber}) - lead paused, not sent`, {
+                            campaignId: campaign.id,
+                            leadId: lead.id,
+                            step: deliveredStepNumber,
+                            tokens: unresolvedTokens,
+                            issues: templateIssues,
+                        });
+                        await prisma.campaignLead.update({
+                            where: { id: lead.id },
+                            data: { status: 'paused', paused_reason: reason, next_send_at: null },
+                        }).catch(() => { /* tolerable - lead simply retries and re-pauses */ });
+                        continue;
+                    }
+
                     // ── FAIL-CLOSED BLANK-EMAIL GUARD ─────────────────────────────
                     // If personalization left the visible body empty (a {{variable}}
                     // with no stored value renders as ''), NEVER send. Shipping a
@@ -1165,10 +1555,10 @@ async function dispatch(): Promise<void> {
                     const subjectMissing = !subject.trim() && deliveredStepNumber === 1;
                     if (subjectMissing || !bodyTextProbe) {
                         const missing = subjectMissing ? 'subject' : 'body';
-                        logger.warn(`[${LOG_TAG}] BLANK-EMAIL GUARD: ${missing} rendered empty for lead ${lead.id} (step ${step.step_number}) - lead paused, not sent`, {
+                        logger.warn(`[${LOG_TAG}] BLANK-EMAIL GUARD: ${missing} rendered empty for lead ${lead.id} (step ${deliveredStepNumber}) - lead paused, not sent`, {
                             campaignId: campaign.id,
                             leadId: lead.id,
-                            step: step.step_number,
+                            step: deliveredStepNumber,
                         });
                         await prisma.campaignLead.update({
                             where: { id: lead.id },
@@ -1200,15 +1590,27 @@ async function dispatch(): Promise<void> {
                         bodyHtml,
                         unsubscribeUrl,
                         stepNumber: deliveredStepNumber,
-                        stepId: step.id,
+                        stepId: step?.id ?? '',
                         variantId,
-                        nextStepNumber: deliveredStepNumber, // written to current_step after send
-                        nextStepDelayDays: nextStep ? (nextStep as any).delay_days : 0,
-                        nextStepDelayHours: nextStep ? (nextStep as any).delay_hours : 0,
-                        isLastStep: !anyHigherStep,
+                        // written to current_step after send
+                        nextStepNumber: injected ? lead.current_step : deliveredStepNumber,
+                        nextStepDelayDays: injected ? leadOverrides.INJECT_RESUME_MIN_DAYS : nextStep ? (nextStep as any).delay_days : 0,
+                        nextStepDelayHours: injected ? 0 : nextStep ? (nextStep as any).delay_hours : 0,
+                        // The regular step is still due after an injected email.
+                        isLastStep: injected ? !step : !anyHigherStep,
+                        // An injected email leaves the lead parked on its graph node.
+                        graphNodeId: injected ? null : graphNode?.id ?? null,
+                        overrideId: override && override.kind !== 'skip' ? override.id : null,
+                        injected,
+                        recipientProvider: leadProvider,
                     });
 
                     accountCounts.set(bestAccount.id, (accountCounts.get(bestAccount.id) || 0) + 1);
+                    if (leadProvider) {
+                        const key = providerThrottle.throttleKey(bestAccount.id, leadProvider);
+                        const throttle = throttles.get(key);
+                        if (throttle) throttles.set(key, providerThrottle.applySend(throttle, now));
+                    }
                     // Bump the cross-campaign tracker so the NEXT campaign in this
                     // dispatcher tick sees this assignment when computing remaining
                     // capacity for the same mailbox.
@@ -1378,8 +1780,51 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
     let sentCount = 0;
     let failedCount = 0;
 
+    // Where the lead goes after this email. Linear: the precomputed next-step
+    // delay (in business days if the campaign counts them). Graph: pick the
+    // email node's outgoing edge against the lead's CURRENT engagement state
+    // (a reply that landed mid-batch must count). The graph and business-day
+    // calendar are loaded once per batch, on first use.
+    let batchGraph: Promise<sequenceGraph.SequenceGraph> | null = null;
+    let batchBusinessDays: Promise<BusinessDayCalendar | null> | null = null;
+    const leadAdvanceFor = async (email: EmailInBatch) => {
+        if (!email.graphNodeId) {
+            if (!email.isLastStep) batchBusinessDays ??= loadBusinessDayCalendar(campaignId);
+            return {
+                next_send_at: email.isLastStep ? null : calculateNextSendAt({
+                    delay_days: email.nextStepDelayDays,
+                    delay_hours: email.nextStepDelayHours,
+                }, await batchBusinessDays),
+                status: email.isLastStep ? 'completed' : 'active',
+                sto_slot_at: null,
+            };
+        }
+        batchGraph ??= sequenceGraph.loadCampaignGraph(campaignId);
+        const [graph, leadState] = await Promise.all([
+            batchGraph,
+            prisma.campaignLead.findUnique({
+                where: { id: email.leadId },
+                select: { replied_at: true, opened_count: true, clicked_count: true },
+            }),
+        ]);
+        return {
+            ...graphAdvanceAfterSend(graph, email.graphNodeId, leadState ?? { replied_at: null, opened_count: 0, clicked_count: 0 }),
+            sto_slot_at: null,
+        };
+    };
+
+    // Provider throttles for this mailbox, kept current through the batch as
+    // deferrals and accepted sends move them (providerThrottleService).
+    const throttles = await providerThrottle.loadThrottles([account.id]).catch((err) => {
+        logger.warn(`[${LOG_TAG}] Provider throttle load failed for ${account.email}`, { error: err?.message });
+        return new Map<string, providerThrottle.ThrottleSnapshot>();
+    });
+
     for (let i = 0; i < emails.length; i++) {
         const email = emails[i];
+        const throttleKey = email.recipientProvider
+            ? providerThrottle.throttleKey(account.id, email.recipientProvider)
+            : null;
 
         // ── SEND-TIME SPREADING: wait between emails ──
         if (i > 0) {
@@ -1398,20 +1843,31 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
             // payload without stepId, transient DB error) - a refresh
             // problem must never block or alter an otherwise-valid send.
             // The A/B variant ASSIGNMENT stays frozen (variantId from
-            // enqueue); only its current content is re-read.
-            if (email.stepId) {
+            // enqueue); only its current content is re-read. A per-lead
+            // override is re-read the same way; an edit cancelled since
+            // enqueue falls back to the step's own content.
+            if (email.stepId || email.overrideId) {
                 try {
-                    const [freshStep, freshLead, freshCampaign, freshAccount] = await Promise.all([
-                        prisma.sequenceStep.findUnique({ where: { id: email.stepId }, include: { variants: true } }),
+                    const [freshStep, freshOverride, freshLead, freshCampaign, freshAccount] = await Promise.all([
+                        email.stepId
+                            ? prisma.sequenceStep.findUnique({ where: { id: email.stepId }, include: { variants: true } })
+                            : null,
+                        email.overrideId
+                            ? prisma.leadStepOverride.findFirst({
+                                where: { id: email.overrideId, status: 'pending' },
+                                select: { subject: true, body_html: true },
+                            })
+                            : null,
                         prisma.campaignLead.findUnique({
                             where: { id: email.leadId },
-                            select: { first_name: true, last_name: true, company: true, email: true, title: true, custom_variables: true },
+                            select: { first_name: true, last_name: true, company: true, email: true, title: true, custom_variables: true, timezone: true },
                         }),
                         prisma.campaign.findUnique({
                             where: { id: campaignId },
                             select: {
                                 track_opens: true, track_clicks: true, include_unsubscribe: true,
-                                tracking_domain: true, eu_compliance_mode: true,
+                                tracking_domain: true, eu_compliance_mode: true, schedule_timezone: true,
+                                send_in_recipient_timezone: true, recipient_fallback_timezone: true,
                                 organization: { select: { mailing_address: true } },
                             },
                         }),
@@ -1420,15 +1876,22 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
                             select: { tracking_domain: true, tracking_domain_verified: true },
                         }),
                     ]);
-                    if (freshStep && freshLead && freshCampaign) {
-                        const variant = email.variantId ? freshStep.variants.find(v => v.id === email.variantId) : null;
+                    const variant = email.variantId && freshStep ? freshStep.variants.find(v => v.id === email.variantId) : null;
+                    const content = freshOverride
+                        ? { subject: freshOverride.subject ?? '', body: freshOverride.body_html ?? '', preheader: freshStep?.preheader ?? '' }
+                        : variant && freshStep
+                            ? { subject: variant.subject, body: variant.body_html, preheader: variant.preheader || freshStep.preheader }
+                            : freshStep && !email.injected
+                                ? { subject: freshStep.subject, body: freshStep.body_html, preheader: freshStep.preheader }
+                                : null;
+                    if (content && freshLead && freshCampaign) {
                         const trackingDomain = (freshAccount?.tracking_domain && freshAccount.tracking_domain_verified)
                             ? freshAccount.tracking_domain
                             : freshCampaign.tracking_domain;
                         const fresh = composeFinalEmail({
-                            rawSubject: variant ? variant.subject : freshStep.subject,
-                            rawBody: variant ? variant.body_html : freshStep.body_html,
-                            rawPreheader: variant ? (variant.preheader || freshStep.preheader) : freshStep.preheader,
+                            rawSubject: content.subject,
+                            rawBody: content.body,
+                            rawPreheader: content.preheader,
                             lead: freshLead,
                             leadId: email.leadId,
                             trackOpens: freshCampaign.track_opens ?? true,
@@ -1437,7 +1900,22 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
                             trackingDomain,
                             euComplianceMode: freshCampaign.eu_compliance_mode ?? false,
                             mailingAddress: freshCampaign.organization?.mailing_address ?? null,
+                            timezone: resolveLeadTimezone(freshCampaign, freshLead),
                         });
+                        // An edit that introduces an unresolvable token or a
+                        // broken {% if %} pauses the lead, same as the dispatcher.
+                        if (fresh.templateIssues.length > 0 || fresh.unresolvedTokens.length > 0) {
+                            const reason = fresh.templateIssues.length > 0 ? 'template_error' : 'unresolved_tokens';
+                            logger.warn(`[${LOG_TAG}] PERSONALIZATION GUARD (send-time): ${reason} for ${maskEmail(email.leadEmail)} (step ${email.stepNumber}) - lead paused, not sent`, {
+                                campaignId, leadId: email.leadId, step: email.stepNumber, tokens: fresh.unresolvedTokens,
+                            });
+                            await prisma.campaignLead.update({
+                                where: { id: email.leadId },
+                                data: { status: 'paused', paused_reason: reason, next_send_at: null },
+                            }).catch(() => { /* tolerable */ });
+                            failedCount++;
+                            continue;
+                        }
                         // Same blank rules as the dispatcher guard: an edit that
                         // blanks the body (any step) or the subject (step 1) must
                         // pause the lead, not ship a blank email.
@@ -1489,6 +1967,7 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
                 campaignId,
                 mailboxId,
                 email.leadEmail,
+                email.leadId,
             );
             if (!gate.allowed) {
                 if (gate.deferrable) {
@@ -1516,6 +1995,23 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
                 continue;
             }
 
+            // ── PROVIDER THROTTLE ──
+            // A deferral earlier in this batch (or a slow-start window filled
+            // since dispatch) parks the lead until the pair can take mail.
+            if (throttleKey) {
+                const throttleGate = providerThrottle.admit(throttles.get(throttleKey), new Date());
+                if (!throttleGate.allowed) {
+                    await prisma.campaignLead.updateMany({
+                        where: { id: email.leadId, status: 'active' },
+                        data: { next_send_at: throttleGate.retryAt },
+                    }).catch((err) => {
+                        logger.warn(`[${LOG_TAG}] Throttle defer write failed for ${email.leadId}: ${err.message}`);
+                    });
+                    logger.info(`[${LOG_TAG}] Send deferred to ${throttleGate.retryAt.toISOString()} for ${maskEmail(email.leadEmail)}: ${email.recipientProvider} throttled for ${account.email}`);
+                    continue;
+                }
+            }
+
             // ── IDEMPOTENCY: already-delivered guard ──
             // SendEvent(campaign_lead_id, step_number) is data-layer-unique.
             // If a row already exists for this (lead, step) the step was already
@@ -1524,7 +2020,19 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
             // step (guarded on status='active') so it doesn't loop, then move
             // on. The unique constraint on the create below is the race backstop
             // if two workers clear this check at once.
-            const priorSend = await prisma.sendEvent.findFirst({
+            //
+            // An injected email has no step identity; its override row is the
+            // guard instead - once applied (or cancelled) it never sends again.
+            if (email.injected) {
+                const stillPending = email.overrideId
+                    ? await prisma.leadStepOverride.count({ where: { id: email.overrideId, status: 'pending' } })
+                    : 0;
+                if (!stillPending) {
+                    logger.info(`[${LOG_TAG}] Injected email for lead ${email.leadId} was already sent or cancelled - skipping`, { campaignId });
+                    continue;
+                }
+            }
+            const priorSend = email.injected ? null : await prisma.sendEvent.findFirst({
                 where: { campaign_lead_id: email.leadId, step_number: email.stepNumber },
                 select: { id: true },
             });
@@ -1537,11 +2045,7 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
                     data: {
                         current_step: email.nextStepNumber,
                         last_sent_at: new Date(),
-                        next_send_at: email.isLastStep ? null : calculateNextSendAt({
-                            delay_days: email.nextStepDelayDays,
-                            delay_hours: email.nextStepDelayHours,
-                        }),
-                        status: email.isLastStep ? 'completed' : 'active',
+                        ...(await leadAdvanceFor(email)),
                     },
                 }).catch((err) => {
                     logger.warn(`[${LOG_TAG}] Post-dedupe advance failed for ${email.leadId}: ${err?.message}`);
@@ -1600,9 +2104,25 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
                     mailboxId, orgId, campaignId, email.leadEmail,
                     result.error || 'unknown', result.smtpCode, result.smtpResponse,
                 );
+                if (throttleKey && providerThrottle.isRateLimitDeferral(result.smtpCode, result.smtpResponse || result.error)) {
+                    await providerThrottle.recordDeferral({
+                        organizationId: orgId,
+                        mailboxId: account.id,
+                        provider: email.recipientProvider!,
+                        recipientEmail: email.leadEmail,
+                        smtpCode: result.smtpCode,
+                        smtpResponse: result.smtpResponse || result.error,
+                        current: throttles.get(throttleKey),
+                    }).then(
+                        (next) => { throttles.set(throttleKey, next); },
+                        (err) => logger.warn(`[${LOG_TAG}] Provider throttle write failed for ${account.email}`, { error: err?.message }),
+                    );
+                }
                 continue;
             }
 
+            const leadAdvance = await leadAdvanceFor(email);
+
             // Write all updates in one transaction
             await prisma.$transaction([
                 prisma.sendEvent.create({
@@ -1618,7 +2138,8 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
                         // even if two writers interleave. The guard above is the
                         // fast path; this create is the race backstop.
                         campaign_lead_id: email.leadId,
-                        step_number: email.stepNumber,
+                        step_number: email.injected ? null : email.stepNumber,
+                        variant_id: email.variantId,
                     },
                 }),
                 // Guarded on status='active'. canSendNow re-checks status
@@ -1636,11 +2157,7 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
                     data: {
                         current_step: email.nextStepNumber,
                         last_sent_at: new Date(),
-                        next_send_at: email.isLastStep ? null : calculateNextSendAt({
-                            delay_days: email.nextStepDelayDays,
-                            delay_hours: email.nextStepDelayHours,
-                        }),
-                        status: email.isLastStep ? 'completed' : 'active',
+                        ...leadAdvance,
                     },
                 }),
                 prisma.connectedAccount.update({
@@ -1686,6 +2203,12 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
                         data: { sends: { increment: 1 } },
                     })]
                     : []),
+                ...(email.overrideId
+                    ? [prisma.leadStepOverride.updateMany({
+                        where: { id: email.overrideId, status: 'pending' },
+                        data: { status: 'applied', applied_at: new Date() },
+                    })]
+                    : []),
             ]);
 
             // Outbound webhook fan-out - fires email.sent for any subscribers.
@@ -1700,7 +2223,9 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
                     recipient_email: email.leadEmail,
                     lead_id: email.leadId,
                 },
-                `${campaignId}-${email.leadId}-${email.nextStepNumber}`,
+                email.injected
+                    ? `${campaignId}-${email.leadId}-override-${email.overrideId}`
+                    : `${campaignId}-${email.leadId}-${email.nextStepNumber}`,
             );
 
             // Post-send Protection bookkeeping. Replaces the deprecated
@@ -1838,6 +2363,15 @@ async function processBatchJob(data: BatchJobData): Promise<void> {
 
             sentCount++;
 
+            // Advance slow-start recovery for a throttled pair.
+            const throttle = throttleKey ? throttles.get(throttleKey) : undefined;
+            if (throttle) {
+                await providerThrottle.recordSend(account.id, email.recipientProvider!, throttle).then(
+                    (next) => { throttles.set(throttleKey!, next); },
+                    (err) => logger.warn(`[${LOG_TAG}] Provider throttle write failed for ${account.email}`, { error: err?.message }),
+                );
+            }
+
             logger.info(`[${LOG_TAG}] Sent step ${email.stepNumber} → ${maskEmail(email.leadEmail)} via ${account.email}`, {
                 campaignId,
                 batch: `${i + 1}/${emails.length}`,
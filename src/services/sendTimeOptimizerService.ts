@@ -0,0 +1,415 @@
+/**
+ * Send-Time Optimizer Service
+ *
+ * Learns when each audience responds and lets opted-in campaigns
+ * (Campaign.send_time_optimization) send each lead's step at its predicted
+ * best hour instead of on the next dispatcher tick.
+ *
+ * Model: per segment, engagement per send bucketed by the UTC hour-of-week
+ * the email was SENT (168 buckets). Engagement is weighted - reply 1, click
+ * 0.3, human open 0.05 (opens within MACHINE_OPEN_MS of the send are
+ * prefetch and ignored). Segments, most specific first: recipient domain,
+ * persona (bucketed job title), ESP bucket, whole org. A lead uses the most
+ * specific segment with enough sends; its per-hour rates are shrunk toward
+ * the org profile (PRIOR_SENDS pseudo-sends), so hours we rarely send in
+ * inherit the org's behavior rather than a noisy 1-of-2.
+ *
+ * Scheduling: pickSendSlot scans the next HORIZON_HOURS for hours inside the
+ * campaign's window (campaign / recipient zone, blackouts) and picks the
+ * best-scoring one, earliest on ties. Each lead gets a stable minute offset
+ * inside the hour so a popular slot doesn't become one burst.
+ *
+ * Profiles are rebuilt by workers/sendTimeProfileWorker; reads go through a
+ * 1h in-process cache like recipientDomainStatsService.
+ */
+
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+import { isWithinSendingWindow, SendWindowCampaign, DateBlackout } from '../utils/sendWindow';
+
+const LOG_TAG = 'SEND-TIME';
+
+export const HOURS_PER_WEEK = 168;
+const LOOKBACK_DAYS = 90;
+/** Opens within this many ms of the send are machine prefetch (matches coldCallListService). */
+const MACHINE_OPEN_MS = 30_000;
+const WEIGHTS = { reply: 1, click: 0.3, open: 0.05 };
+/** Pseudo-sends pulling a segment's hourly rate toward its parent. */
+const PRIOR_SENDS = 50;
+/** Sends a segment needs before it is trusted (and stored). */
+export const MIN_SEGMENT_SENDS: Record<SegmentType, number> = { domain: 100, persona: 200, esp: 200, org: 300 };
+/** How far past the due time a step may be moved. */
+const HORIZON_HOURS = 48;
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const PAGE_SIZE = 5000;
+
+export type SegmentType = 'domain' | 'persona' | 'esp' | 'org';
+const SEGMENT_ORDER: SegmentType[] = ['domain', 'persona', 'esp', 'org'];
+
+export interface SendTimeProfileData {
+    segment_type: SegmentType;
+    segment_key: string;
+    sends: number[];
+    engagements: number[];
+    total_sends: number;
+    total_replies: number;
+}
+
+/** Profiles for one org keyed `${segment_type}:${segment_key}`. */
+export type OrgProfiles = Map<string, SendTimeProfileData>;
+
+export interface StoLead {
+    id: string;
+    email: string;
+    title?: string | null;
+    esp_bucket?: string | null;
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Pure helpers
+// ────────────────────────────────────────────────────────────────────
+
+/** UTC hour-of-week, Sunday 00:00 = 0. */
+export function hourOfWeek(at: Date): number {
+    return at.getUTCDay() * 24 + at.getUTCHours();
+}
+
+const PERSONA_KEYWORDS: Array<[string, RegExp]> = [
+    ['executive', /\b(ceo|cto|cfo|coo|cmo|cro|chief|founder|co-founder|owner|president|partner|managing director|vp|vice president|head of)\b/],
+    ['engineering', /\b(engineer|engineering|developer|devops|architect|software|it|technical)\b/],
+    ['sales', /\b(sales|account executive|business development|bdr|sdr|revenue)\b/],
+    ['marketing', /\b(marketing|growth|brand|content|seo|demand gen|communications)\b/],
+    ['finance', /\b(finance|financial|accounting|accountant|controller|procurement|purchasing)\b/],
+    ['hr', /\b(hr|human resources|people|talent|recruit(er|ing)?)\b/],
+    ['operations', /\b(operations|ops|supply chain|logistics|customer success|support)\b/],
+];
+
+/** Coarse persona from a job title; null when the title says nothing usable. */
+export function personaBucket(title: string | null | undefined): string | null {
+    const t = (title || '').toLowerCase().trim();
+    if (!t) return null;
+    for (const [bucket, re] of PERSONA_KEYWORDS) {
+        if (re.test(t)) return bucket;
+    }
+    return 'other';
+}
+
+function segmentKeys(email: string, title: string | null | undefined, esp: string | null | undefined): Array<[SegmentType, string]> {
+    const keys: Array<[SegmentType, string]> = [];
+    const domain = email.split('@')[1]?.toLowerCase().trim();
+    if (domain) keys.push(['domain', domain]);
+    const persona = personaBucket(title);
+    if (persona) keys.push(['persona', persona]);
+    if (esp) keys.push(['esp', esp]);
+    keys.push(['org', '*']);
+    return keys;
+}
+
+/** Smoothed engagement-per-send for each hour. The org profile shrinks toward its own flat mean. */
+export function smoothedRates(profile: SendTimeProfileData, parent: number[] | null): number[] {
+    const total = profile.engagements.reduce((s, v) => s + v, 0);
+    const flat = profile.total_sends > 0 ? total / profile.total_sends : 0;
+    return profile.sends.map((sends, h) => {
+        const prior = parent ? parent[h] : flat;
+        return (profile.engagements[h] + PRIOR_SENDS * prior) / (sends + PRIOR_SENDS);
+    });
+}
+
+/** Hourly rates for a lead from its most specific trusted segment, or null when nothing is trusted. */
+export function ratesForLead(profiles: OrgProfiles, lead: StoLead): { rates: number[]; segment: string } | null {
+    const org = profiles.get('org:*');
+    if (!org || org.total_sends < MIN_SEGMENT_SENDS.org) return null;
+    const orgRates = smoothedRates(org, null);
+    for (const [type, key] of segmentKeys(lead.email, lead.title, lead.esp_bucket)) {
+        if (type === 'org') break;
+        const profile = profiles.get(`${type}:${key}`);
+        if (profile && profile.total_sends >= MIN_SEGMENT_SENDS[type]) {
+            return { rates: smoothedRates(profile, orgRates), segment: `${type}:${key}` };
+        }
+    }
+    return { rates: orgRates, segment: 'org:*' };
+}
+
+/** Stable 0-59 minute offset per lead - spreads a popular hour instead of bursting it. */
+function minuteOffset(leadId: string): number {
+    let h = 0;
+    for (let i = 0; i < leadId.length; i++) h = (h * 31 + leadId.charCodeAt(i)) >>> 0;
+    return h % 60;
+}
+
+/**
+ * Best send instant for a lead at or after `from`, within HORIZON_HOURS and
+ * the campaign's window. null = no learned profile or no open slot - the
+ * caller sends as it would without optimization.
+ */
+export function pickSendSlot(
+    profiles: OrgProfiles,
+    lead: StoLead,
+    opts: { campaign: SendWindowCampaign; timezone: string | null; blackout?: DateBlackout | null; from: Date },
+): Date | null {
+    const learned = ratesForLead(profiles, lead);
+    if (!learned) return null;
+    const hourStart = new Date(opts.from);
+    hourStart.setUTCMinutes(0, 0, 0);
+    const offsetMs = minuteOffset(lead.id) * 60_000;
+    let best: { at: Date; score: number } | null = null;
+    for (let h = 0; h <= HORIZON_HOURS; h++) {
+        const slotStart = new Date(hourStart.getTime() + h * 3600_000);
+        // The current hour is usable from `from` onward; later hours at the lead's offset.
+        const at = h === 0 ? new Date(Math.max(opts.from.getTime(), slotStart.getTime() + offsetMs)) : new Date(slotStart.getTime() + offsetMs);
+        if (at.getTime() >= slotStart.getTime() + 3600_000) continue;
+        if (!isWithinSendingWindow(opts.campaign, { timezone: opts.timezone, now: at, blackout: opts.blackout })) continue;
+        const score = learned.rates[hourOfWeek(slotStart)];
+        if (!best || score > best.score) best = { at, score };
+    }
+    return best?.at ?? null;
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Profile cache
+// ────────────────────────────────────────────────────────────────────
+
+const cache = new Map<string, { profiles: OrgProfiles; fetchedAt: number }>();
+
+export async function getOrgProfiles(orgId: string): Promise<OrgProfiles> {
+    const cached = cache.get(orgId);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.profiles;
+    const rows = await prisma.sendTimeProfile.findMany({ where: { organization_id: orgId } });
+    const profiles: OrgProfiles = new Map();
+    for (const r of rows) {
+        profiles.set(`${r.segment_type}:${r.segment_key}`, {
+            segment_type: r.segment_type as SegmentType,
+            segment_key: r.segment_key,
+            sends: r.sends as number[],
+            engagements: r.engagements as number[],
+            total_sends: r.total_sends,
+            total_replies: r.total_replies,
+        });
+    }
+    cache.set(orgId, { profiles, fetchedAt: Date.now() });
+    return profiles;
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Learning
+// ────────────────────────────────────────────────────────────────────
+
+/** Accumulates sends / engagements per segment and hour-of-week. */
+export class ProfileAccumulator {
+    private readonly segments = new Map<string, SendTimeProfileData>();
+
+    private bucket(type: SegmentType, key: string): SendTimeProfileData {
+        const id = `${type}:${key}`;
+        let p = this.segments.get(id);
+        if (!p) {
+            p = {
+                segment_type: type, segment_key: key,
+                sends: new Array(HOURS_PER_WEEK).fill(0),
+                engagements: new Array(HOURS_PER_WEEK).fill(0),
+                total_sends: 0, total_replies: 0,
+            };
+            this.segments.set(id, p);
+        }
+        return p;
+    }
+
+    addSend(email: string, title: string | null | undefined, esp: string | null | undefined, sentAt: Date): void {
+        const h = hourOfWeek(sentAt);
+        for (const [type, key] of segmentKeys(email, title, esp)) {
+            const p = this.bucket(type, key);
+            p.sends[h]++;
+            p.total_sends++;
+        }
+    }
+
+    addEngagement(kind: 'reply' | 'click' | 'open', email: string, title: string | null | undefined, esp: string | null | undefined, sentAt: Date): void {
+        const h = hourOfWeek(sentAt);
+        for (const [type, key] of segmentKeys(email, title, esp)) {
+            const p = this.bucket(type, key);
+            p.engagements[h] += WEIGHTS[kind];
+            if (kind === 'reply') p.total_replies++;
+        }
+    }
+
+    /** Segments with enough sends to be trusted, rounded for storage. */
+    trusted(): SendTimeProfileData[] {
+        return Array.from(this.segments.values())
+            .filter(p => p.total_sends >= MIN_SEGMENT_SENDS[p.segment_type])
+            .map(p => ({ ...p, engagements: p.engagements.map(v => Math.round(v * 100) / 100) }));
+    }
+}
+
+type LeadAttrs = Map<string, { title: string | null; esp_bucket: string | null }>;
+
+async function loadLeadAttrs(ids: Array<string | null>): Promise<LeadAttrs> {
+    const unique = Array.from(new Set(ids.filter((id): id is string => !!id)));
+    if (unique.length === 0) return new Map();
+    const rows = await prisma.campaignLead.findMany({
+        where: { id: { in: unique } },
+        select: { id: true, title: true, esp_bucket: true },
+    });
+    return new Map(rows.map(r => [r.id, { title: r.title, esp_bucket: r.esp_bucket }] as const));
+}
+
+/**
+ * Rebuild every profile for one org from the last LOOKBACK_DAYS. Sends are
+ * streamed in pages; replies are attributed to the latest earlier send to the
+ * same recipient (same campaign when known); opens / clicks carry
+ * ms_since_send, so their send time is exact.
+ */
+export async function rebuildOrgProfiles(orgId: string): Promise<number> {
+    const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const acc = new ProfileAccumulator();
+
+    // 1. Sends.
+    let cursor: string | undefined;
+    for (;;) {
+        const page = await prisma.sendEvent.findMany({
+            where: { organization_id: orgId, sent_at: { gte: since } },
+            select: { id: true, recipient_email: true, recipient_esp: true, sent_at: true, campaign_lead_id: true },
+            orderBy: { id: 'asc' },
+            take: PAGE_SIZE,
+            ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+        if (page.length === 0) break;
+        const attrs = await loadLeadAttrs(page.map(s => s.campaign_lead_id));
+        for (const s of page) {
+            const a = s.campaign_lead_id ? attrs.get(s.campaign_lead_id) : undefined;
+            acc.addSend(s.recipient_email, a?.title, s.recipient_esp ?? a?.esp_bucket, s.sent_at);
+        }
+        cursor = page[page.length - 1].id;
+        if (page.length < PAGE_SIZE) break;
+    }
+
+    // 2. Replies → the send that earned them.
+    const replies = await prisma.replyEvent.findMany({
+        where: { organization_id: orgId, replied_at: { gte: since } },
+        select: { recipient_email: true, campaign_id: true, replied_at: true },
+    });
+    for (let i = 0; i < replies.length; i += 500) {
+        const chunk = replies.slice(i, i + 500);
+        const emails = Array.from(new Set(chunk.flatMap(r => [r.recipient_email, r.recipient_email.toLowerCase()])));
+        const sends = await prisma.sendEvent.findMany({
+            where: { organization_id: orgId, recipient_email: { in: emails }, sent_at: { gte: since } },
+            select: { recipient_email: true, recipient_esp: true, campaign_id: true, sent_at: true, campaign_lead_id: true },
+            orderBy: { sent_at: 'asc' },
+        });
+        const attrs = await loadLeadAttrs(sends.map(s => s.campaign_lead_id));
+        for (const r of chunk) {
+            const email = r.recipient_email.toLowerCase();
+            let match: typeof sends[number] | undefined;
+            for (const s of sends) {
+                if (s.sent_at > r.replied_at) break;
+                if (s.recipient_email.toLowerCase() !== email) continue;
+                if (r.campaign_id && s.campaign_id && s.campaign_id !== r.campaign_id) continue;
+                match = s;
+            }
+            if (!match) continue;
+            const a = match.campaign_lead_id ? attrs.get(match.campaign_lead_id) : undefined;
+            acc.addEngagement('reply', match.recipient_email, a?.title, match.recipient_esp ?? a?.esp_bucket, match.sent_at);
+        }
+    }
+
+    // 3. Clicks and human opens, once per (lead, send).
+    for (const kind of ['click', 'open'] as const) {
+        const seen = new Set<string>();
+        let eventCursor: string | undefined;
+        for (;;) {
+            const where = { organization_id: orgId, ms_since_send: { gt: kind === 'open' ? MACHINE_OPEN_MS : -1 } };
+            const page: Array<{ id: string; campaign_lead_id: string; recipient_email: string; ms_since_send: number | null; at: Date }> = kind === 'click'
+                ? (await prisma.emailClickEvent.findMany({
+                    where: { ...where, clicked_at: { gte: since } },
+                    select: { id: true, campaign_lead_id: true, recipient_email: true, ms_since_send: true, clicked_at: true },
+                    orderBy: { id: 'asc' }, take: PAGE_SIZE,
+                    ...(eventCursor ? { cursor: { id: eventCursor }, skip: 1 } : {}),
+                })).map(e => ({ ...e, at: e.clicked_at }))
+                : (await prisma.emailOpenEvent.findMany({
+                    where: { ...where, opened_at: { gte: since } },
+                    select: { id: true, campaign_lead_id: true, recipient_email: true, ms_since_send: true, opened_at: true },
+                    orderBy: { id: 'asc' }, take: PAGE_SIZE,
+                    ...(eventCursor ? { cursor: { id: eventCursor }, skip: 1 } : {}),
+                })).map(e => ({ ...e, at: e.opened_at }));
+            if (page.length === 0) break;
+            const attrs = await loadLeadAttrs(page.map(e => e.campaign_lead_id));
+            for (const e of page) {
+                if (e.ms_since_send === null) continue;
+                const sentAt = new Date(e.at.getTime() - e.ms_since_send);
+                const dedupe = `${e.campaign_lead_id}|${Math.floor(sentAt.getTime() / 60_000)}`;
+                if (seen.has(dedupe)) continue;
+                seen.add(dedupe);
+                const a = attrs.get(e.campaign_lead_id);
+                acc.addEngagement(kind, e.recipient_email, a?.title, a?.esp_bucket, sentAt);
+            }
+            eventCursor = page[page.length - 1].id;
+            if (page.length < PAGE_SIZE) break;
+        }
+    }
+
+    const trusted = acc.trusted();
+    await prisma.$transaction([
+        prisma.sendTimeProfile.deleteMany({ where: { organization_id: orgId } }),
+        prisma.sendTimeProfile.createMany({
+            data: trusted.map(p => ({
+                organization_id: orgId,
+                segment_type: p.segment_type,
+                segment_key: p.segment_key,
+                sends: p.sends,
+                engagements: p.engagements,
+                total_sends: p.total_sends,
+                total_replies: p.total_replies,
+            })),
+        }),
+    ]);
+    cache.delete(orgId);
+    return trusted.length;
+}
+
+/** Rebuild profiles for every org with sends in the lookback window. */
+export async function runProfileSweep(): Promise<{ orgs: number; profiles: number }> {
+    const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const orgs = await prisma.sendEvent.groupBy({ by: ['organization_id'], where: { sent_at: { gte: since } } });
+    let profiles = 0;
+    for (const { organization_id: orgId } of orgs) {
+        try {
+            profiles += await rebuildOrgProfiles(orgId);
+        } catch (err) {
+            logger.error(`[${LOG_TAG}] Profile rebuild failed for org ${orgId}`, err instanceof Error ? err : new Error(String(err)));
+        }
+    }
+    return { orgs: orgs.length, profiles };
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Reporting
+// ────────────────────────────────────────────────────────────────────
+
+/**
+ * Learned profiles for the analytics page: per segment, the top hours by
+ * smoothed rate. Filter with `segmentType`; domains are capped to the 50
+ * highest-volume.
+ */
+export async function getSendTimeReport(orgId: string, segmentType?: SegmentType) {
+    const profiles = await getOrgProfiles(orgId);
+    const org = profiles.get('org:*');
+    const orgRates = org ? smoothedRates(org, null) : null;
+    const rows = Array.from(profiles.values())
+        .filter(p => !segmentType || p.segment_type === segmentType)
+        .sort((a, b) => SEGMENT_ORDER.indexOf(a.segment_type) - SEGMENT_ORDER.indexOf(b.segment_type) || b.total_sends - a.total_sends);
+    let domains = 0;
+    return rows
+        .filter(p => p.segment_type !== 'domain' || ++domains <= 50)
+        .map(p => {
+            const rates = smoothedRates(p, p.segment_type === 'org' ? null : orgRates);
+            const best = rates
+                .map((rate, h) => ({ hour_of_week: h, day: h / 24 | 0, hour_utc: h % 24, rate: Math.round(rate * 10000) / 10000 }))
+                .sort((a, b) => b.rate - a.rate)
+                .slice(0, 3);
+            return {
+                segment_type: p.segment_type,
+                segment_key: p.segment_key,
+                total_sends: p.total_sends,
+                total_replies: p.total_replies,
+                best_hours: best,
+            };
+        });
+}
@@ -0,0 +1,563 @@
+/**
+ * Sequence Graph Service
+ *
+ * General node/edge sequence model for campaigns with
+ * Campaign.sequence_mode='graph'. The linear model (SequenceStep.condition +
+ * branch_to_step_number) allows one fallback edge per step; the graph allows
+ * any number of guarded edges out of any node, plus non-email nodes:
+ * wait_until, wait_for_event, ab_split and exit. Schema docs on SequenceNode
+ * / SequenceEdge define the vocabulary.
+ *
+ * Three layers:
+ *   1. Pure evaluation - resolveGraphPosition / chooseSuccessor. The
+ *      dispatcher calls these per CampaignLead; no I/O, so the walk is unit-
+ *      testable and the dry-run simulator can reuse it.
+ *   2. Definition - validateGraphDefinition (DAG, one entry, edges point at
+ *      real nodes, email nodes point at real steps) + saveCampaignGraph.
+ *   3. Migration - migrateLinearCampaign rewrites a linear campaign into an
+ *      equivalent graph and repositions every in-flight lead.
+ */
+
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+import { AppError } from '../utils/appError';
+
+const LOG_TAG = 'SEQUENCE-GRAPH';
+
+/** Safety cap on zero-time hops (splits, elapsed waits) per resolution. */
+const MAX_HOPS = 25;
+/** How often a lead parked on wait_for_event is re-checked for the event. */
+const WAIT_EVENT_RECHECK_MS = 60 * 60 * 1000;
+
+export const NODE_TYPES = ['email', 'wait_until', 'wait_for_event', 'ab_split', 'exit'] as const;
+export type NodeType = typeof NODE_TYPES[number];
+
+export const LEAD_CONDITIONS = ['if_no_reply', 'if_replied', 'if_opened', 'if_not_opened', 'if_clicked', 'if_not_clicked'] as const;
+export const EDGE_CONDITIONS = ['always', ...LEAD_CONDITIONS, 'event_occurred', 'timeout'] as const;
+
+export interface GraphNode {
+    id: string;
+    node_key: string;
+    type: NodeType;
+    step_number: number | null;
+    config: any;
+    is_entry: boolean;
+}
+
+export interface GraphEdge {
+    id: string;
+    from_node_id: string;
+    to_node_id: string;
+    condition: string | null;
+    weight: number | null;
+    priority: number;
+}
+
+export interface SequenceGraph {
+    nodes: Map<string, GraphNode>;
+    /** Outgoing edges per node, pre-sorted by priority. */
+    outgoing: Map<string, GraphEdge[]>;
+    entryId: string | null;
+}
+
+export interface GraphLeadState {
+    current_node_id: string | null;
+    node_entered_at: Date | null;
+    replied_at?: Date | null;
+    opened_count?: number | null;
+    clicked_count?: number | null;
+    /** Latest EmailOpenEvent / EmailClickEvent timestamps - wait_for_event needs "since arrival", not lifetime counts. */
+    last_opened_at?: Date | null;
+    last_clicked_at?: Date | null;
+}
+
+export type GraphResolution =
+    | { action: 'send'; node: GraphNode; enteredAt: Date }
+    | { action: 'wait'; node: GraphNode; enteredAt: Date; wakeAt: Date }
+    | { action: 'complete'; nodeId: string | null; reason: 'exit' | 'dead_end' | 'missing_node' | 'hop_limit' };
+
+export function buildGraph(nodes: GraphNode[], edges: GraphEdge[]): SequenceGraph {
+    const graph: SequenceGraph = { nodes: new Map(), outgoing: new Map(), entryId: null };
+    for (const n of nodes) {
+        graph.nodes.set(n.id, n);
+        if (n.is_entry) graph.entryId = n.id;
+    }
+    for (const e of [...edges].sort((a, b) => a.priority - b.priority)) {
+        const list = graph.outgoing.get(e.from_node_id) || [];
+        list.push(e);
+        graph.outgoing.set(e.from_node_id, list);
+    }
+    return graph;
+}
+
+/**
+ * Evaluate a lead-state condition. Shared by the linear walker (SequenceStep.
+ * condition) and graph edges. Unknown conditions fail-open (treated as no
+ * condition) so a typo on the schema enum doesn't silently stop the whole
+ * sequence.
+ */
+export function stepConditionMatches(
+    condition: string | null | undefined,
+    lead: { replied_at?: Date | null; opened_count?: number | null; clicked_count?: number | null },
+): boolean {
+    if (!condition) return true;
+    const opens = lead.opened_count || 0;
+    const clicks = lead.clicked_count || 0;
+    switch (condition) {
+        case 'if_no_reply':    return !lead.replied_at;
+        case 'if_replied':     return !!lead.replied_at;
+        case 'if_opened':      return opens > 0;
+        case 'if_not_opened':  return opens === 0;
+        case 'if_clicked':     return clicks > 0;
+        case 'if_not_clicked': return clicks === 0;
+        default:               return true;
+    }
+}
+
+/**
+ * Pick the edge a lead leaves `fromNodeId` by. ab_split: weighted random over
+ * all edges. Everything else: first edge in priority order whose condition
+ * holds. `eventOccurred` is only defined when leaving a wait_for_event node.
+ */
+export function chooseSuccessor(
+    graph: SequenceGraph,
+    fromNodeId: string,
+    lead: GraphLeadState,
+    ctx: { eventOccurred?: boolean } = {},
+    random: () => number = Math.random,
+): GraphNode | null {
+    const from = graph.nodes.get(fromNodeId);
+    const edges = graph.outgoing.get(fromNodeId) || [];
+    if (!from || edges.length === 0) return null;
+
+    if (from.type === 'ab_split') {
+        const total = edges.reduce((sum, e) => sum + Math.max(0, e.weight ?? 0), 0);
+        if (total <= 0) return graph.nodes.get(edges[0].to_node_id) ?? null;
+        const roll = random() * total;
+        let cumulative = 0;
+        for (const e of edges) {
+            cumulative += Math.max(0, e.weight ?? 0);
+            if (roll < cumulative) return graph.nodes.get(e.to_node_id) ?? null;
+        }
+        return graph.nodes.get(edges[edges.length - 1].to_node_id) ?? null;
+    }
+
+    for (const e of edges) {
+        const cond = e.condition;
+        let ok: boolean;
+        if (!cond || cond === 'always') ok = true;
+        else if (cond === 'event_occurred') ok = ctx.eventOccurred === true;
+        else if (cond === 'timeout') ok = ctx.eventOccurred === false;
+        else ok = stepConditionMatches(cond, lead);
+        if (ok) return graph.nodes.get(e.to_node_id) ?? null;
+    }
+    return null;
+}
+
+function waitUntilWake(config: any, enteredAt: Date): Date {
+    if (config?.until) {
+        const abs = new Date(config.until);
+        if (!isNaN(abs.getTime())) return abs;
+    }
+    const days = Number(config?.delay_days) || 0;
+    const hours = Number(config?.delay_hours) || 0;
+    return new Date(enteredAt.getTime() + (days * 24 + hours) * 60 * 60 * 1000);
+}
+
+function eventSince(lead: GraphLeadState, event: string, since: Date): boolean {
+    const at = event === 'reply' ? lead.replied_at
+        : event === 'open' ? lead.last_opened_at
+            : event === 'click' ? lead.last_clicked_at
+                : null;
+    return !!at && at.getTime() >= since.getTime();
+}
+
+/**
+ * Walk the graph from the lead's current position until something has to
+ * happen in real time: an email to send, a wait that hasn't elapsed, or the
+ * end of the sequence. Zero-time nodes (splits, elapsed waits) are passed
+ * through in one call; the caller persists the returned node as the lead's
+ * new position.
+ */
+export function resolveGraphPosition(
+    graph: SequenceGraph,
+    lead: GraphLeadState,
+    now: Date,
+    random: () => number = Math.random,
+): GraphResolution {
+    let nodeId: string | null = lead.current_node_id ?? graph.entryId;
+    let enteredAt: Date = lead.current_node_id ? (lead.node_entered_at ?? now) : now;
+
+    for (let hops = 0; hops < MAX_HOPS; hops++) {
+        const node = nodeId ? graph.nodes.get(nodeId) : undefined;
+        if (!node) return { action: 'complete', nodeId, reason: 'missing_node' };
+
+        let next: GraphNode | null;
+        switch (node.type) {
+            case 'exit':
+                return { action: 'complete', nodeId: node.id, reason: 'exit' };
+            case 'email':
+                return { action: 'send', node, enteredAt };
+            case 'wait_until': {
+                const wakeAt = waitUntilWake(node.config, enteredAt);
+                if (wakeAt.getTime() > now.getTime()) return { action: 'wait', node, enteredAt, wakeAt };
+                next = chooseSuccessor(graph, node.id, lead, {}, random);
+                break;
+            }
+            case 'wait_for_event': {
+                const withinMs = (Number(node.config?.within_days) || 0) * 24 * 60 * 60 * 1000;
+                const deadline = new Date(enteredAt.getTime() + withinMs);
+                const occurred = eventSince(lead, node.config?.event, enteredAt);
+                if (!occurred && deadline.getTime() > now.getTime()) {
+                    const recheck = new Date(Math.min(deadline.getTime(), now.getTime() + WAIT_EVENT_RECHECK_MS));
+                    return { action: 'wait', node, enteredAt, wakeAt: recheck };
+                }
+                next = chooseSuccessor(graph, node.id, lead, { eventOccurred: occurred }, random);
+                break;
+            }
+            case 'ab_split':
+                next = chooseSuccessor(graph, node.id, lead, {}, random);
+                break;
+            default:
+                return { action: 'complete', nodeId: node.id, reason: 'missing_node' };
+        }
+        if (!next) return { action: 'complete', nodeId: node.id, reason: 'dead_end' };
+        nodeId = next.id;
+        enteredAt = now;
+    }
+    return { action: 'complete', nodeId, reason: 'hop_limit' };
+}
+
+// ─── Definition + validation ────────────────────────────────────────────────
+
+export interface GraphNodeInput {
+    key: string;
+    type: string;
+    step_number?: number | null;
+    config?: any;
+    is_entry?: boolean;
+    position?: { x?: number; y?: number };
+}
+
+export interface GraphEdgeInput {
+    from: string;
+    to: string;
+    condition?: string | null;
+    weight?: number | null;
+    priority?: number;
+}
+
+/**
+ * Structural rules for a saveable graph. Returns every problem at once so the
+ * builder can highlight all of them. Empty array = valid.
+ */
+export function validateGraphDefinition(nodes: GraphNodeInput[], edges: GraphEdgeInput[], stepNumbers: number[]): string[] {
+    const errors: string[] = [];
+    const byKey = new Map<string, GraphNodeInput>();
+    for (const n of nodes) {
+        if (!n.key) { errors.push('Every node needs a key'); continue; }
+        if (byKey.has(n.key)) errors.push(`Duplicate node key "${n.key}"`);
+        byKey.set(n.key, n);
+        if (!(NODE_TYPES as readonly string[]).includes(n.type)) {
+            errors.push(`Node "${n.key}" has unknown type "${n.type}"`);
+            continue;
+        }
+        if (n.type === 'email' && (n.step_number == null || !stepNumbers.includes(n.step_number))) {
+            errors.push(`Email node "${n.key}" must reference an existing step_number`);
+        }
+        if (n.type === 'wait_until') {
+            const hasDelay = [n.config?.delay_days, n.config?.delay_hours].some(v => v != null && Number(v) >= 0);
+            const hasUntil = !!n.config?.until && !isNaN(new Date(n.config.until).getTime());
+            if (!hasDelay && !hasUntil) errors.push(`Wait node "${n.key}" needs delay_days / delay_hours or an until date`);
+        }
+        if (n.type === 'wait_for_event') {
+            if (!['reply', 'open', 'click'].includes(n.config?.event)) errors.push(`Wait-for-event node "${n.key}" needs event reply | open | click`);
+            if (!(Number(n.config?.within_days) > 0)) errors.push(`Wait-for-event node "${n.key}" needs within_days > 0`);
+        }
+    }
+    const entries = nodes.filter(n => n.is_entry);
+    if (entries.length !== 1) errors.push(`Graph needs exactly one entry node (found ${entries.length})`);
+
+    const out = new Map<string, GraphEdgeInput[]>();
+    for (const e of edges) {
+        if (!byKey.has(e.from) || !byKey.has(e.to)) {
+            errors.push(`Edge ${e.from} -> ${e.to} references a missing node`);
+            continue;
+        }
+        const from = byKey.get(e.from)!;
+        if (from.type === 'exit') errors.push(`Exit node "${e.from}" cannot have outgoing edges`);
+        if (e.condition && !(EDGE_CONDITIONS as readonly string[]).includes(e.condition)) {
+            errors.push(`Edge ${e.from} -> ${e.to} has unknown condition "${e.condition}"`);
+        }
+        if ((e.condition === 'event_occurred' || e.condition === 'timeout') && from.type !== 'wait_for_event') {
+            errors.push(`Edge ${e.from} -> ${e.to}: ${e.condition} is only valid out of a wait_for_event node`);
+        }
+        if (from.type === 'ab_split' && !(Number(e.weight) > 0)) {
+            errors.push(`A/B split edge ${e.from} -> ${e.to} needs a weight > 0`);
+        }
+        const list = out.get(e.from) || [];
+        list.push(e);
+        out.set(e.from, list);
+    }
+    for (const n of nodes) {
+        if (n.type === 'wait_for_event' && !(out.get(n.key) || []).some(e => e.condition === 'timeout' || !e.condition || e.condition === 'always')) {
+            errors.push(`Wait-for-event node "${n.key}" needs a timeout path`);
+        }
+    }
+
+    // DAG check - a cycle would re-deliver (or, with idempotency, silently skip) the same step forever.
+    const state = new Map<string, 'visiting' | 'done'>();
+    const visit = (key: string): boolean => {
+        if (state.get(key) === 'done') return false;
+        if (state.get(key) === 'visiting') return true;
+        state.set(key, 'visiting');
+        for (const e of out.get(key) || []) if (visit(e.to)) return true;
+        state.set(key, 'done');
+        return false;
+    };
+    for (const n of nodes) {
+        if (n.key && visit(n.key)) { errors.push('Graph contains a cycle'); break; }
+    }
+    return errors;
+}
+
+// ─── Persistence ────────────────────────────────────────────────────────────
+
+export async function loadCampaignGraph(campaignId: string): Promise<SequenceGraph> {
+    const [nodes, edges] = await Promise.all([
+        prisma.sequenceNode.findMany({ where: { campaign_id: campaignId } }),
+        prisma.sequenceEdge.findMany({ where: { campaign_id: campaignId } }),
+    ]);
+    return buildGraph(nodes as GraphNode[], edges);
+}
+
+/** API shape: keys instead of row ids so the builder round-trips cleanly. */
+export async function getCampaignGraph(campaignId: string) {
+    const [campaign, nodes, edges] = await Promise.all([
+        prisma.campaign.findUnique({ where: { id: campaignId }, select: { sequence_mode: true } }),
+        prisma.sequenceNode.findMany({ where: { campaign_id: campaignId }, orderBy: { created_at: 'asc' } }),
+        prisma.sequenceEdge.findMany({ where: { campaign_id: campaignId }, orderBy: { priority: 'asc' } }),
+    ]);
+    const keyById = new Map(nodes.map(n => [n.id, n.node_key]));
+    return {
+        sequence_mode: campaign?.sequence_mode ?? 'linear',
+        nodes: nodes.map(n => ({
+            key: n.node_key,
+            type: n.type,
+            step_number: n.step_number,
+            config: n.config,
+            is_entry: n.is_entry,
+            position: { x: n.position_x, y: n.position_y },
+        })),
+        edges: edges.map(e => ({
+            from: keyById.get(e.from_node_id),
+            to: keyById.get(e.to_node_id),
+            condition: e.condition,
+            weight: e.weight,
+            priority: e.priority,
+        })),
+    };
+}
+
+/**
+ * Replace a campaign's graph and switch it to graph mode. Nodes are upserted
+ * by node_key so in-flight leads keep their position; removing a node that
+ * leads are currently parked on is refused (409) rather than silently
+ * teleporting them.
+ */
+export async function saveCampaignGraph(campaignId: string, nodes: GraphNodeInput[], edges: GraphEdgeInput[]): Promise<void> {
+    const steps = await prisma.sequenceStep.findMany({ where: { campaign_id: campaignId }, select: { step_number: true } });
+    const errors = validateGraphDefinition(nodes, edges, steps.map(s => s.step_number));
+    if (errors.length > 0) throw new AppError(`Invalid sequence graph: ${errors.join('; ')}`, 400);
+
+    const keep = new Set(nodes.map(n => n.key));
+    const existing = await prisma.sequenceNode.findMany({ where: { campaign_id: campaignId }, select: { id: true, node_key: true } });
+    const removedIds = existing.filter(n => !keep.has(n.node_key)).map(n => n.id);
+    if (removedIds.length > 0) {
+        const parked = await prisma.campaignLead.count({
+            where: { campaign_id: campaignId, current_node_id: { in: removedIds }, status: { in: ['active', 'paused'] } },
+        });
+        if (parked > 0) {
+            throw new AppError(`${parked} lead(s) are currently on nodes this edit removes. Keep those nodes or move the leads first.`, 409);
+        }
+    }
+
+    await prisma.$transaction(async (tx) => {
+        await tx.sequenceEdge.deleteMany({ where: { campaign_id: campaignId } });
+        if (removedIds.length > 0) await tx.sequenceNode.deleteMany({ where: { id: { in: removedIds } } });
+
+        const idByKey = new Map<string, string>();
+        for (const n of nodes) {
+            const data = {
+                type: n.type,
+                step_number: n.type === 'email' ? (n.step_number ?? null) : null,
+                config: n.config ?? undefined,
+                is_entry: !!n.is_entry,
+                position_x: Number(n.position?.x) || 0,
+                position_y: Number(n.position?.y) || 0,
+            };
+            const row = await tx.sequenceNode.upsert({
+                where: { campaign_id_node_key: { campaign_id: campaignId, node_key: n.key } },
+                create: { campaign_id: campaignId, node_key: n.key, ...data },
+                update: data,
+                select: { id: true },
+            });
+            idByKey.set(n.key, row.id);
+        }
+        if (edges.length > 0) {
+            await tx.sequenceEdge.createMany({
+                data: edges.map((e, i) => ({
+                    campaign_id: campaignId,
+                    from_node_id: idByKey.get(e.from)!,
+                    to_node_id: idByKey.get(e.to)!,
+                    condition: e.condition && e.condition !== 'always' ? e.condition : null,
+                    weight: e.weight ?? null,
+                    priority: e.priority ?? i,
+                })),
+            });
+        }
+        await tx.campaign.update({ where: { id: campaignId }, data: { sequence_mode: 'graph' } });
+    });
+}
+
+/**
+ * Pure linear → graph translation. Reproduces resolveDeliverableStep exactly:
+ *
+ *   step N (N>1)  → wait_until(delay_N) → [gate_N] → email_N → next step's wait | exit
+ *   step 1        → entry is gate_1 / email_1 (linear never delays step 1)
+ *
+ * gate_N exists only when step N has a condition: a zero-delay wait_until
+ * with edge `condition → email_N` and a fallback to the branch target's gate
+ * (or email, or exit) - the branch jump skips the target's delay, as the
+ * linear walker does.
+ */
+export function linearToGraph(steps: Array<{
+    step_number: number;
+    delay_days: number;
+    delay_hours: number;
+    condition?: string | null;
+    branch_to_step_number?: number | null;
+}>): { nodes: GraphNodeInput[]; edges: GraphEdgeInput[]; positionForStep: (currentStep: number) => string } {
+    const sorted = [...steps].sort((a, b) => a.step_number - b.step_number);
+    const nodes: GraphNodeInput[] = [];
+    const edges: GraphEdgeInput[] = [];
+    const exitKey = 'exit';
+    const has = new Set(sorted.map(s => s.step_number));
+    const gateKey = (n: number) => `gate_${n}`;
+    const emailKey = (n: number) => `email_${n}`;
+    const waitKey = (n: number) => `wait_${n}`;
+    const byNumber = new Map(sorted.map(s => [s.step_number, s]));
+
+    // Where a lead lands when it "arrives at step N" without its delay.
+    const arrivalKey = (n: number | null | undefined): string => {
+        if (n == null || !has.has(n)) return exitKey;
+        return byNumber.get(n)!.condition ? gateKey(n) : emailKey(n);
+    };
+    // Where a lead lands after step N-1 was delivered (delay applies).
+    const afterSendKey = (n: number): string => {
+        if (!has.has(n)) return exitKey;
+        const s = byNumber.get(n)!;
+        return (s.delay_days > 0 || s.delay_hours > 0) ? waitKey(n) : arrivalKey(n);
+    };
+
+    sorted.forEach((s, i) => {
+        const y = i * 200;
+        if (i > 0 && (s.delay_days > 0 || s.delay_hours > 0)) {
+            nodes.push({ key: waitKey(s.step_number), type: 'wait_until', config: { delay_days: s.delay_days, delay_hours: s.delay_hours }, position: { x: 0, y: y - 100 } });
+            edges.push({ from: waitKey(s.step_number), to: arrivalKey(s.step_number) });
+        }
+        if (s.condition) {
+            // A gate is a wait_until of zero length: it exists to host the
+            // guarded edge + the branch fallback.
+            nodes.push({ key: gateKey(s.step_number), type: 'wait_until', config: { delay_hours: 0 }, position: { x: 0, y: y - 50 } });
+            edges.push({ from: gateKey(s.step_number), to: emailKey(s.step_number), condition: s.condition, priority: 0 });
+            const branch = s.branch_to_step_number;
+            edges.push({ from: gateKey(s.step_number), to: branch != null && branch !== s.step_number ? arrivalKey(branch) : exitKey, priority: 1 });
+        }
+        nodes.push({ key: emailKey(s.step_number), type: 'email', step_number: s.step_number, position: { x: 0, y } });
+        edges.push({ from: emailKey(s.step_number), to: afterSendKey(s.step_number + 1) });
+    });
+    nodes.push({ key: exitKey, type: 'exit', position: { x: 0, y: sorted.length * 200 } });
+
+    const entry = sorted.length > 0 ? arrivalKey(sorted[0].step_number) : exitKey;
+    const entryNode = nodes.find(n => n.key === entry);
+    if (entryNode) entryNode.is_entry = true;
+
+    return {
+        nodes,
+        edges,
+        // current_step = last step SENT. Next position is "after sending it".
+        positionForStep: (currentStep: number) => (currentStep <= 0 ? entry : afterSendKey(currentStep + 1)),
+    };
+}
+
+/**
+ * Convert a linear campaign to graph mode in place. Existing SequenceStep
+ * rows are untouched (email nodes reference them by step_number); every
+ * active / paused lead is parked on the node that corresponds to its
+ * current_step, with node_entered_at = last_sent_at so pending delays keep
+ * counting from the real send time.
+ */
+export async function migrateLinearCampaign(campaignId: string): Promise<{ nodes: number; edges: number; leadsRepositioned: number }> {
+    const campaign = await prisma.campaign.findUnique({
+        where: { id: campaignId },
+        select: {
+            sequence_mode: true,
+            steps: { select: { step_number: true, delay_days: true, delay_hours: true, condition: true, branch_to_step_number: true } },
+        },
+    });
+    if (!campaign) throw new AppError('Campaign not found', 404);
+    if (campaign.sequence_mode === 'graph') throw new AppError('Campaign already uses the sequence graph', 409);
+    if (campaign.steps.length === 0) throw new AppError('Campaign has no sequence steps to migrate', 400);
+
+    const { nodes, edges, positionForStep } = linearToGraph(campaign.steps);
+    // Linear branches may point backwards (the linear walker caps them at 10
+    // hops); the graph is a strict DAG, so those sequences need a manual rebuild.
+    const errors = validateGraphDefinition(nodes, edges, campaign.steps.map(s => s.step_number));
+    if (errors.length > 0) throw new AppError(`Sequence cannot be migrated automatically: ${errors.join('; ')}`, 400);
+
+    const idByKey = new Map<string, string>();
+    let leadsRepositioned = 0;
+    await prisma.$transaction(async (tx) => {
+        await tx.sequenceEdge.deleteMany({ where: { campaign_id: campaignId } });
+        await tx.sequenceNode.deleteMany({ where: { campaign_id: campaignId } });
+        for (const n of nodes) {
+            const row = await tx.sequenceNode.create({
+                data: {
+                    campaign_id: campaignId,
+                    node_key: n.key,
+                    type: n.type,
+                    step_number: n.step_number ?? null,
+                    config: n.config ?? undefined,
+                    is_entry: !!n.is_entry,
+                    position_x: n.position?.x ?? 0,
+                    position_y: n.position?.y ?? 0,
+                },
+                select: { id: true },
+            });
+            idByKey.set(n.key, row.id);
+        }
+        await tx.sequenceEdge.createMany({
+            data: edges.map((e, i) => ({
+                campaign_id: campaignId,
+                from_node_id: idByKey.get(e.from)!,
+                to_node_id: idByKey.get(e.to)!,
+                condition: e.condition ?? null,
+                priority: e.priority ?? i,
+            })),
+        });
+
+        // Park in-flight leads before the flip: a dispatch tick that sees graph
+        // mode with no current_node_id restarts the lead at the entry node.
+        // One UPDATE per step; current_step 0 (not started) stays null = entry.
+        for (const stepNumber of new Set(campaign.steps.map(s => s.step_number))) {
+            if (stepNumber <= 0) continue;
+            const nodeId = idByKey.get(positionForStep(stepNumber)) ?? null;
+            leadsRepositioned += await tx.$executeRaw`UPDATE "CampaignLead" SET current_node_id = ${nodeId}, node_entered_at = COALESCE(last_sent_at, NOW()) WHERE campaign_id = ${campaignId} AND current_step = ${stepNumber} AND status IN ('active', 'paused')`;
+        }
+        await tx.campaign.update({ where: { id: campaignId }, data: { sequence_mode: 'graph' } });
+    });
+
+    logger.info(`[${LOG_TAG}] Migrated campaign ${campaignId} to graph mode`, { nodes: nodes.length, edges: edges.length, leadsRepositioned });
+    return { nodes: nodes.length, edges: edges.length, leadsRepositioned };
+}
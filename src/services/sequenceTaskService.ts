@@ -0,0 +1,243 @@
+/**
+ * Sequence Task Service
+ *
+ * Non-email steps in a multichannel cadence. A SequenceStep with step_type
+ * 'call', 'linkedin_connect', 'linkedin_message' or 'task' isn't sent: when
+ * the dispatcher finds a lead due on one it opens a SequenceTask for a rep
+ * (holdLeadAtTask) and parks the lead - next_send_at null, status still
+ * 'active'. Completing or skipping the task moves the lead past the step with
+ * the same scheduling as after a send (sendQueueService.advanceLeadPastStep),
+ * so branches, delays, business days and graph edges all behave as they do
+ * for email.
+ *
+ * Open call tasks also surface on the cold-call page and can be pushed to a
+ * JustCall sales-dialer campaign (source_kind 'call_tasks') - see
+ * coldCallListService.listCallTaskProspects and justcallExportWorker.
+ */
+
+import { prisma } from '../index';
+import { AppError } from '../utils/appError';
+import * as auditLogService from './auditLogService';
+
+export const TASK_STEP_TYPES = ['call', 'linkedin_connect', 'linkedin_message', 'task'] as const;
+export type TaskStepType = typeof TASK_STEP_TYPES[number];
+export const STEP_TYPES = ['email', ...TASK_STEP_TYPES] as const;
+
+/** Suggested call outcomes. Free text is accepted too - reps' dialers vary. */
+export const CALL_OUTCOMES = ['connected', 'meeting_booked', 'voicemail', 'no_answer', 'wrong_number', 'not_interested'] as const;
+
+const DEFAULT_TITLES: Record<TaskStepType, string> = {
+    call: 'Call',
+    linkedin_connect: 'Send LinkedIn connection request',
+    linkedin_message: 'Send LinkedIn message',
+    task: 'Follow-up task',
+};
+const MAX_DUE_HOURS = 24 * 30;
+
+export interface TaskStepRow {
+    step_number: number;
+    step_type?: string;
+    subject: string;
+    body_html: string;
+    task_due_hours?: number;
+    task_assignee_user_id?: string | null;
+}
+
+export interface TaskActor {
+    userId?: string;
+    ipAddress?: string;
+}
+
+export function isTaskStep(stepType: string | null | undefined): stepType is TaskStepType {
+    return !!stepType && (TASK_STEP_TYPES as readonly string[]).includes(stepType);
+}
+
+/** Task fields for a lead reaching `step` at `now`. Title falls back to the step type. */
+export function buildTaskFromStep(step: TaskStepRow, now: Date = new Date()) {
+    const type = isTaskStep(step.step_type) ? step.step_type : 'task';
+    const dueHours = Math.min(Math.max(0, step.task_due_hours ?? 24), MAX_DUE_HOURS);
+    return {
+        type,
+        title: step.subject.trim() || DEFAULT_TITLES[type],
+        instructions: step.body_html.trim() || null,
+        due_at: new Date(now.getTime() + dueHours * 60 * 60 * 1000),
+        assigned_user_id: step.task_assignee_user_id ?? null,
+    };
+}
+
+/**
+ * Step-payload fields for the campaign save paths (snake_case or camelCase).
+ * Unknown step types are rejected by validateStepTypes before the save.
+ */
+export function stepTaskFields(step: any): { step_type?: string; task_due_hours?: number; task_assignee_user_id?: string | null } {
+    const type = step.step_type ?? step.stepType;
+    const dueHours = Number(step.task_due_hours ?? step.taskDueHours);
+    const assignee = step.task_assignee_user_id ?? step.taskAssigneeUserId;
+    return {
+        ...(typeof type === 'string' ? { step_type: type } : {}),
+        ...(Number.isInteger(dueHours) && dueHours >= 0 && dueHours <= MAX_DUE_HOURS ? { task_due_hours: dueHours } : {}),
+        ...(assignee !== undefined ? { task_assignee_user_id: assignee || null } : {}),
+    };
+}
+
+/** Returns an error message if any step payload has an unknown step_type, or null. */
+export function validateStepTypes(steps: any[]): string | null {
+    for (const step of steps) {
+        const type = step?.step_type ?? step?.stepType;
+        if (type !== undefined && !(STEP_TYPES as readonly string[]).includes(type)) {
+            return `step_type must be one of ${STEP_TYPES.join(', ')}`;
+        }
+    }
+    return null;
+}
+
+/** Campaign.channel for a step list - 'multichannel' once any step isn't an email. */
+export function channelForSteps(steps: any[]): 'email' | 'multichannel' {
+    return steps.some(s => isTaskStep(s?.step_type ?? s?.stepType)) ? 'multichannel' : 'email';
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Dispatcher side
+// ────────────────────────────────────────────────────────────────────
+
+/**
+ * Open (or find) the lead's task for `step` and park the lead on it. A task
+ * that already exists and is finished - a graph loop back to the step, or a
+ * lead re-released by a campaign resume - moves the lead straight past it.
+ */
+export async function holdLeadAtTask(
+    campaign: { id: string; organization_id: string },
+    leadId: string,
+    step: TaskStepRow,
+    graphNodeId: string | null,
+    now: Date = new Date(),
+): Promise<'held' | 'advanced'> {
+    const task = await prisma.sequenceTask.upsert({
+        where: { campaign_lead_id_step_number: { campaign_lead_id: leadId, step_number: step.step_number } },
+        create: {
+            organization_id: campaign.organization_id,
+            campaign_id: campaign.id,
+            campaign_lead_id: leadId,
+            step_number: step.step_number,
+            graph_node_id: graphNodeId,
+            ...buildTaskFromStep(step, now),
+        },
+        update: {},
+    });
+    if (task.status === 'open') {
+        await prisma.campaignLead.updateMany({
+            where: { id: leadId, status: 'active' },
+            data: { next_send_at: null, sto_slot_at: null },
+        });
+        return 'held';
+    }
+    const { advanceLeadPastStep } = await import('./sendQueueService');
+    await advanceLeadPastStep(campaign.id, leadId, step.step_number, graphNodeId);
+    return 'advanced';
+}
+
+// ────────────────────────────────────────────────────────────────────
+// API side
+// ────────────────────────────────────────────────────────────────────
+
+export interface TaskFilters {
+    status?: string;
+    type?: string;
+    campaignId?: string;
+    /** 'me' is resolved by the controller; 'unassigned' = no assignee. */
+    assignedUserId?: string | null;
+    dueBefore?: Date;
+    /** Include tasks whose lead has left the sequence (replied, bounced...). */
+    includeInactive?: boolean;
+    limit?: number;
+}
+
+export async function listTasks(orgId: string, filters: TaskFilters = {}) {
+    return prisma.sequenceTask.findMany({
+        where: {
+            organization_id: orgId,
+            status: filters.status ?? 'open',
+            ...(filters.type && { type: filters.type }),
+            ...(filters.campaignId && { campaign_id: filters.campaignId }),
+            ...(filters.assignedUserId !== undefined && { assigned_user_id: filters.assignedUserId }),
+            ...(filters.dueBefore && { due_at: { lte: filters.dueBefore } }),
+            ...(!filters.includeInactive && { lead: { status: 'active' } }),
+        },
+        include: {
+            lead: { select: { email: true, first_name: true, last_name: true, company: true, title: true, status: true } },
+        },
+        orderBy: { due_at: 'asc' },
+        take: Math.min(Math.max(1, filters.limit ?? 100), 500),
+    });
+}
+
+async function loadTask(orgId: string, taskId: string) {
+    const task = await prisma.sequenceTask.findFirst({ where: { id: taskId, organization_id: orgId } });
+    if (!task) throw new AppError('Task not found', 404);
+    return task;
+}
+
+function audit(orgId: string, leadId: string, action: string, details: Record<string, unknown>, actor: TaskActor) {
+    return auditLogService.logAction({
+        organizationId: orgId,
+        entity: 'campaign_lead',
+        entityId: leadId,
+        trigger: 'user_action',
+        action,
+        details: JSON.stringify(details),
+        userId: actor.userId,
+        ipAddress: actor.ipAddress,
+    });
+}
+
+/** Complete or skip an open task and release the lead to the next step. */
+export async function resolveTask(
+    orgId: string,
+    taskId: string,
+    status: 'completed' | 'skipped',
+    input: { outcome?: unknown; notes?: unknown },
+    actor: TaskActor,
+) {
+    const task = await loadTask(orgId, taskId);
+    const outcome = typeof input.outcome === 'string' && input.outcome.trim() ? input.outcome.trim().slice(0, 64) : null;
+    const notes = typeof input.notes === 'string' && input.notes.trim() ? input.notes.trim().slice(0, 5000) : null;
+
+    // Guarded on 'open' so a double-click can't advance the lead twice.
+    const { count } = await prisma.sequenceTask.updateMany({
+        where: { id: task.id, status: 'open' },
+        data: { status, outcome, notes, completed_at: new Date(), completed_by_user_id: actor.userId ?? null },
+    });
+    if (count === 0) throw new AppError(`Task is already ${task.status}`, 409);
+
+    const { advanceLeadPastStep } = await import('./sendQueueService');
+    const advanced = await advanceLeadPastStep(task.campaign_id, task.campaign_lead_id, task.step_number, task.graph_node_id);
+    await audit(orgId, task.campaign_lead_id, `task_${status}`, {
+        campaign_id: task.campaign_id,
+        task_id: task.id,
+        type: task.type,
+        step_number: task.step_number,
+        outcome,
+    }, actor);
+    return { ...task, status, outcome, notes, lead_advanced: advanced };
+}
+
+/** Assign (or unassign, with null) an open task to a member of the workspace. */
+export async function assignTask(orgId: string, taskId: string, userId: string | null, actor: TaskActor) {
+    const task = await loadTask(orgId, taskId);
+    if (task.status !== 'open') throw new AppError(`Task is already ${task.status}`, 409);
+    if (userId) {
+        const member = await prisma.user.findFirst({
+            where: { id: userId, OR: [{ organization_id: orgId }, { scoped_organization_id: orgId }] },
+            select: { id: true },
+        });
+        if (!member) throw new AppError('User is not a member of this workspace', 400);
+    }
+    const updated = await prisma.sequenceTask.update({ where: { id: task.id }, data: { assigned_user_id: userId } });
+    await audit(orgId, task.campaign_lead_id, 'task_assigned', {
+        campaign_id: task.campaign_id,
+        task_id: task.id,
+        from: task.assigned_user_id,
+        to: userId,
+    }, actor);
+    return updated;
+}
@@ -19,6 +19,7 @@
 
 import { prisma } from '../index';
 import { logger } from './observabilityService';
+import * as suppressionService from './suppressionService';
 
 export interface SequencerEnrollmentInput {
     email: string;
@@ -70,25 +71,24 @@ export async function enrollLeadInSequencerCampaign(
 
         const normalizedEmail = lead.email.toLowerCase().trim();
 
-        // Org-wide suppression guard - refuse to enroll any lead whose org-scoped
-        // Lead row carries an opt-out or hard-bounce marker. This is required by
-        // CAN-SPAM § 5(a)(4)(A), CASL § 11(3), and GDPR Art. 21: once a recipient
-        // objects (or has been classified as undeliverable), no further sends.
-        const suppression = await prisma.lead.findUnique({
-            where: { organization_id_email: { organization_id: organizationId, email: normalizedEmail } },
-            select: { status: true, unsubscribed_reason: true },
-        });
-        if (suppression && (suppression.status === 'unsubscribed' || suppression.status === 'bounced')) {
+        // Org-wide suppression guard - refuse to enroll any address on the
+        // org's suppression list (opt-outs, complaints, hard_no replies,
+        // operator domain / pattern entries) or whose Lead row carries an
+        // opt-out or hard-bounce marker. Required by CAN-SPAM § 5(a)(4)(A),
+        // CASL § 11(3), and GDPR Art. 21: once a recipient objects (or has
+        // been classified as undeliverable), no further sends.
+        const suppression = await suppressionService.isSuppressed(organizationId, normalizedEmail);
+        if (suppression) {
             logger.info('[SEQUENCER_ENROLL] Refused - org-wide suppression', {
                 organizationId,
                 campaignId,
                 email: normalizedEmail,
-                leadStatus: suppression.status,
-                reason: suppression.unsubscribed_reason,
+                source: suppression.source,
+                reason: suppression.reason,
             });
             return {
                 success: false,
-                error: `Recipient is suppressed at the organization level (${suppression.status}). Cannot enroll in any campaign.`,
+                error: `Recipient is suppressed at the organization level (${suppressionService.describeHit(suppression)}). Cannot enroll in any campaign.`,
             };
         }
 
@@ -22,6 +22,8 @@ export interface SequencerSettingsDefaults {
     bounce_threshold: number;
     stop_on_reply_default: boolean;
     tracking_domain: string | null;
+    /** Launch is blocked when any step's content spam score exceeds this; null disables the gate. */
+    content_spam_threshold: number | null;
 }
 
 const FALLBACK_DEFAULTS: SequencerSettingsDefaults = {
@@ -39,6 +41,7 @@ const FALLBACK_DEFAULTS: SequencerSettingsDefaults = {
     bounce_threshold: 3,
     stop_on_reply_default: true,
     tracking_domain: null,
+    content_spam_threshold: 60,
 };
 
 /**
@@ -66,5 +69,7 @@ export async function getSequencerSettings(orgId: string): Promise<SequencerSett
         bounce_threshold: settings.bounce_threshold ?? FALLBACK_DEFAULTS.bounce_threshold,
         stop_on_reply_default: settings.stop_on_reply_default ?? FALLBACK_DEFAULTS.stop_on_reply_default,
         tracking_domain: settings.tracking_domain ?? FALLBACK_DEFAULTS.tracking_domain,
+        // null is a deliberate "never block", so no fallback here.
+        content_spam_threshold: settings.content_spam_threshold,
     };
 }
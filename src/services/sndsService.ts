@@ -0,0 +1,407 @@
+/**
+ * Microsoft SNDS (Smart Network Data Services) integration.
+ *
+ * Postmaster Tools only covers Gmail. SNDS is the Outlook.com / Hotmail
+ * equivalent, keyed per sending IP rather than per domain. The org registers
+ * its IPs at sendersupport.olc.protection.outlook.com/snds, enables
+ * Automated Access and pastes the access key here.
+ *
+ * Two CSV feeds, neither with a header row:
+ *   data.aspx?key=…      one line per IP for the most recent day:
+ *                        IP, activity start, activity end, RCPT commands,
+ *                        DATA commands, message recipients, filter result
+ *                        (GREEN < 10% spam, YELLOW 10-90%, RED > 90%),
+ *                        complaint rate, trap period start, trap period end,
+ *                        trap hits, sample HELO, sample MAIL FROM, comments
+ *   ipStatus.aspx?key=…  one line per blocked range:
+ *                        first IP, last IP, blocked, reason
+ *
+ * Each IP becomes an IpReputation row (linked to its DedicatedIp when we own
+ * it), and each domain whose mailboxes send from a reported IP gets an
+ * 'snds' DomainReputation row next to the Postmaster one. The daily run is
+ * driven by postmasterToolsWorker.
+ */
+
+import axios from 'axios';
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+import { encrypt, decrypt, isEncrypted } from '../utils/encryption';
+import { AppError } from '../utils/appError';
+
+const SNDS_BASE = 'https://sendersupport.olc.protection.outlook.com/snds';
+const KEY_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type SndsFilterResult = 'GREEN' | 'YELLOW' | 'RED';
+
+const FILTER_RANK: Record<SndsFilterResult, number> = { GREEN: 0, YELLOW: 1, RED: 2 };
+
+export interface SndsDataRow {
+    ip: string;
+    /** Activity day, YYYY-MM-DD */
+    date: string;
+    rcptCommands: number | null;
+    dataCommands: number | null;
+    messageRecipients: number | null;
+    filterResult: SndsFilterResult | null;
+    /** 0.0–1.0; "< 0.1%" is reported as 0 */
+    complaintRate: number | null;
+    trapHits: number | null;
+    sampleHelo: string | null;
+    sampleMailFrom: string | null;
+    comments: string | null;
+}
+
+export interface SndsBlockedRange {
+    first: string;
+    last: string;
+    reason: string;
+}
+
+// ─── CSV parsing ─────────────────────────────────────────────────────────────
+
+function int(value: string | undefined): number | null {
+    const n = parseInt((value ?? '').trim(), 10);
+    return Number.isFinite(n) ? n : null;
+}
+
+/** "M/D/YYYY h:mm AM" → "YYYY-MM-DD" */
+function sndsDate(value: string | undefined): string | null {
+    const match = (value ?? '').trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+    if (!match) return null;
+    return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+}
+
+/** "< 0.1%" → 0, "1.5%" → 0.015, "" → null */
+function complaintRate(value: string | undefined): number | null {
+    const text = (value ?? '').trim();
+    if (!text) return null;
+    if (text.startsWith('<')) return 0;
+    const n = parseFloat(text.replace('%', ''));
+    return Number.isFinite(n) ? n / 100 : null;
+}
+
+function ipv4ToInt(ip: string): number | null {
+    const parts = ip.trim().split('.');
+    if (parts.length !== 4) return null;
+    let n = 0;
+    for (const part of parts) {
+        const octet = Number(part);
+        if (!/^\d{1,3}$/.test(part) || octet > 255) return null;
+        n = n * 256 + octet;
+    }
+    return n;
+}
+
+/** Parse the data.aspx CSV. Malformed lines are skipped. */
+export function parseSndsData(csv: string): SndsDataRow[] {
+    const rows: SndsDataRow[] = [];
+    for (const line of csv.split(/\r?\n/)) {
+        const cols = line.split(',');
+        if (cols.length < 11 || ipv4ToInt(cols[0]) === null) continue;
+        const date = sndsDate(cols[1]);
+        if (!date) continue;
+        const filter = cols[6]?.trim().toUpperCase();
+        rows.push({
+            ip: cols[0].trim(),
+            date,
+            rcptCommands: int(cols[3]),
+            dataCommands: int(cols[4]),
+            messageRecipients: int(cols[5]),
+            filterResult: filter && filter in FILTER_RANK ? filter as SndsFilterResult : null,
+            complaintRate: complaintRate(cols[7]),
+            trapHits: int(cols[10]),
+            sampleHelo: cols[11]?.trim() || null,
+            sampleMailFrom: cols[12]?.trim() || null,
+            comments: cols.slice(13).join(',').trim() || null,
+        });
+    }
+    return rows;
+}
+
+/** Parse the ipStatus.aspx CSV (blocked ranges only). */
+export function parseSndsIpStatus(csv: string): SndsBlockedRange[] {
+    const ranges: SndsBlockedRange[] = [];
+    for (const line of csv.split(/\r?\n/)) {
+        const cols = line.split(',');
+        if (cols.length < 3 || ipv4ToInt(cols[0]) === null || ipv4ToInt(cols[1]) === null) continue;
+        if (!/^yes$/i.test(cols[2].trim())) continue;
+        ranges.push({ first: cols[0].trim(), last: cols[1].trim(), reason: cols.slice(3).join(',').trim() });
+    }
+    return ranges;
+}
+
+export function isBlocked(ip: string, ranges: SndsBlockedRange[]): boolean {
+    const n = ipv4ToInt(ip);
+    if (n === null) return false;
+    return ranges.some(r => n >= ipv4ToInt(r.first)! && n <= ipv4ToInt(r.last)!);
+}
+
+// ─── Reputation summary ──────────────────────────────────────────────────────
+
+export interface IpReputationRow {
+    ip: string;
+    date: Date;
+    filter_result: string | null;
+    complaint_rate: number | null;
+    trap_hits: number | null;
+    blocked: boolean;
+}
+
+export interface MicrosoftReputation {
+    /** Worst filter result across IPs, latest day per IP */
+    filterResult: SndsFilterResult | null;
+    /** Any IP currently on the SNDS block list */
+    blocked: boolean;
+    /** Highest daily complaint rate across the rows */
+    complaintRate: number | null;
+    /** Trap hits summed across the rows */
+    trapHits: number;
+    ips: string[];
+}
+
+/**
+ * Collapse IpReputation rows: filter result and block state come from each
+ * IP's latest day (an IP that recovered to GREEN isn't held back by last
+ * week), while trap hits and the complaint rate cover the whole window.
+ */
+export function summarizeIpReputation(rows: IpReputationRow[]): MicrosoftReputation | null {
+    if (rows.length === 0) return null;
+    const latest = new Map<string, IpReputationRow>();
+    for (const row of rows) {
+        const seen = latest.get(row.ip);
+        if (!seen || row.date > seen.date) latest.set(row.ip, row);
+    }
+
+    let filterResult: SndsFilterResult | null = null;
+    for (const row of latest.values()) {
+        const filter = row.filter_result as SndsFilterResult | null;
+        if (filter && filter in FILTER_RANK && (filterResult === null || FILTER_RANK[filter] > FILTER_RANK[filterResult])) {
+            filterResult = filter;
+        }
+    }
+    const rates = rows.map(r => r.complaint_rate).filter((r): r is number => r !== null);
+
+    return {
+        filterResult,
+        blocked: [...latest.values()].some(r => r.blocked),
+        complaintRate: rates.length ? Math.max(...rates) : null,
+        trapHits: rows.reduce((sum, r) => sum + (r.trap_hits ?? 0), 0),
+        ips: [...latest.keys()],
+    };
+}
+
+/**
+ * Microsoft reputation for the IPs a mailbox sends from: its resolved
+ * sending IP (SMTP providers only - OAuth mailboxes share Google / Microsoft
+ * pools SNDS won't report on) plus the org's dedicated IPs. Null when SNDS
+ * has nothing for those IPs since `since`.
+ */
+export async function getMailboxMicrosoftReputation(mailboxId: string, since: Date): Promise<MicrosoftReputation | null> {
+    const mailbox = await prisma.mailbox.findUnique({
+        where: { id: mailboxId },
+        select: { organization_id: true, sending_ip: true, sending_ip_source: true },
+    });
+    if (!mailbox) return null;
+
+    const ips = new Set<string>();
+    if (mailbox.sending_ip && mailbox.sending_ip_source !== 'oauth_shared') ips.add(mailbox.sending_ip);
+    const dedicated = await prisma.dedicatedIp.findMany({
+        where: { organization_id: mailbox.organization_id, state: { in: ['warming', 'active'] }, ses_ip_address: { not: null } },
+        select: { ses_ip_address: true },
+    });
+    for (const d of dedicated) ips.add(d.ses_ip_address!);
+    if (ips.size === 0) return null;
+
+    const rows = await prisma.ipReputation.findMany({
+        where: {
+            organization_id: mailbox.organization_id,
+            source: 'snds',
+            ip: { in: [...ips] },
+            date: { gte: new Date(`${since.toISOString().slice(0, 10)}T00:00:00Z`) },
+        },
+        select: { ip: true, date: true, filter_result: true, complaint_rate: true, trap_hits: true, blocked: true },
+    });
+    return summarizeIpReputation(rows);
+}
+
+// ─── Connection ──────────────────────────────────────────────────────────────
+
+async function fetchFeed(feed: 'data' | 'ipStatus', key: string): Promise<string> {
+    const res = await axios.get(`${SNDS_BASE}/${feed}.aspx`, {
+        params: { key },
+        timeout: 15_000,
+        responseType: 'text',
+        maxContentLength: 5 * 1024 * 1024,
+    });
+    const body = String(res.data ?? '');
+    // An invalid key returns an HTML error page with 200.
+    if (/<html/i.test(body)) throw new AppError('SNDS rejected the access key', 400);
+    return body;
+}
+
+async function orgKey(orgId: string): Promise<string | null> {
+    const org = await prisma.organization.findUnique({ where: { id: orgId }, select: { snds_key: true } });
+    if (!org?.snds_key) return null;
+    return isEncrypted(org.snds_key) ? decrypt(org.snds_key) : org.snds_key;
+}
+
+/** Validate an SNDS automated-access key against the live feed, then store it encrypted. */
+export async function connect(orgId: string, key: string): Promise<void> {
+    const trimmed = (key ?? '').trim();
+    if (!KEY_RE.test(trimmed)) {
+        throw new AppError('SNDS access key must be the GUID shown under Automated Access', 400);
+    }
+    await fetchFeed('data', trimmed);
+    await prisma.organization.update({
+        where: { id: orgId },
+        data: { snds_key: encrypt(trimmed), snds_connected_at: new Date(), snds_last_error: null },
+    });
+    logger.info('[SNDS] Connected', { orgId });
+}
+
+export async function disconnect(orgId: string): Promise<void> {
+    await prisma.organization.update({
+        where: { id: orgId },
+        data: { snds_key: null, snds_connected_at: null, snds_last_fetch_at: null, snds_last_error: null },
+    });
+    logger.info('[SNDS] Disconnected', { orgId });
+}
+
+// ─── Daily fetch ─────────────────────────────────────────────────────────────
+
+/**
+ * Pull both SNDS feeds for an org, upsert one IpReputation row per IP and
+ * roll the mailbox IPs up into 'snds' DomainReputation rows. Idempotent on
+ * (organization_id, ip, source, date).
+ */
+export async function fetchAllForOrg(orgId: string): Promise<{ ipsFound: number; rowsWritten: number; errors: number }> {
+    const key = await orgKey(orgId);
+    if (!key) return { ipsFound: 0, rowsWritten: 0, errors: 0 };
+
+    let data: SndsDataRow[];
+    let blocked: SndsBlockedRange[];
+    try {
+        const [dataCsv, statusCsv] = await Promise.all([fetchFeed('data', key), fetchFeed('ipStatus', key)]);
+        data = parseSndsData(dataCsv);
+        blocked = parseSndsIpStatus(statusCsv);
+    } catch (err: any) {
+        logger.warn('[SNDS] Feed fetch failed', { orgId, error: err.message });
+        await prisma.organization.update({
+            where: { id: orgId },
+            data: { snds_last_error: `Feed fetch failed: ${String(err.message).slice(0, 200)}` },
+        }).catch(() => {});
+        return { ipsFound: 0, rowsWritten: 0, errors: 1 };
+    }
+
+    const [dedicated, mailboxes] = await Promise.all([
+        prisma.dedicatedIp.findMany({
+            where: { organization_id: orgId, ses_ip_address: { not: null } },
+            select: { id: true, ses_ip_address: true },
+        }),
+        prisma.mailbox.findMany({
+            where: { organization_id: orgId, sending_ip: { not: null }, sending_ip_source: { not: 'oauth_shared' } },
+            select: { domain_id: true, sending_ip: true },
+        }),
+    ]);
+    const dedicatedByIp = new Map(dedicated.map(d => [d.ses_ip_address!, d.id]));
+
+    // Known IPs on the block list that sent nothing that day still get a row.
+    const fallbackDate = data[0]?.date ?? new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const rows: Array<SndsDataRow & { blocked: boolean }> = data.map(r => ({ ...r, blocked: isBlocked(r.ip, blocked) }));
+    const known = new Set([...dedicatedByIp.keys(), ...mailboxes.map(m => m.sending_ip!)]);
+    for (const ip of known) {
+        if (!rows.some(r => r.ip === ip) && isBlocked(ip, blocked)) {
+            rows.push({
+                ip, date: fallbackDate, rcptCommands: null, dataCommands: null, messageRecipients: null,
+                filterResult: null, complaintRate: null, trapHits: null, sampleHelo: null, sampleMailFrom: null,
+                comments: null, blocked: true,
+            });
+        }
+    }
+
+    let rowsWritten = 0;
+    let errors = 0;
+    for (const row of rows) {
+        const date = new Date(`${row.date}T00:00:00Z`);
+        const fields = {
+            fetched_at: new Date(),
+            dedicated_ip_id: dedicatedByIp.get(row.ip) ?? null,
+            filter_result: row.filterResult,
+            complaint_rate: row.complaintRate,
+            trap_hits: row.trapHits,
+            rcpt_commands: row.rcptCommands,
+            data_commands: row.dataCommands,
+            message_recipients: row.messageRecipients,
+            blocked: row.blocked,
+            raw_payload: JSON.parse(JSON.stringify(row)),
+        };
+        try {
+            await prisma.ipReputation.upsert({
+                where: { organization_id_ip_source_date: { organization_id: orgId, ip: row.ip, source: 'snds', date } },
+                create: { organization_id: orgId, ip: row.ip, source: 'snds', date, ...fields },
+                update: fields,
+            });
+            rowsWritten++;
+        } catch (err: any) {
+            errors++;
+            logger.warn('[SNDS] IpReputation upsert failed', { orgId, ip: row.ip, error: err.message });
+        }
+    }
+
+    // Domain roll-up: worst filter result and highest complaint rate across
+    // the domain's mailbox IPs, stored next to the Postmaster rows.
+    const domainIps = new Map<string, Set<string>>();
+    for (const m of mailboxes) {
+        if (!domainIps.has(m.domain_id)) domainIps.set(m.domain_id, new Set());
+        domainIps.get(m.domain_id)!.add(m.sending_ip!);
+    }
+    for (const [domainId, ips] of domainIps) {
+        const domainRows = rows.filter(r => ips.has(r.ip));
+        if (domainRows.length === 0) continue;
+        const summary = summarizeIpReputation(domainRows.map(r => ({
+            ip: r.ip, date: new Date(`${r.date}T00:00:00Z`), filter_result: r.filterResult,
+            complaint_rate: r.complaintRate, trap_hits: r.trapHits, blocked: r.blocked,
+        })))!;
+        const date = new Date(`${domainRows[0].date}T00:00:00Z`);
+        const fields = {
+            fetched_at: new Date(),
+            ip_reputation: summary.blocked ? 'BLOCKED' : summary.filterResult,
+            spam_rate: summary.complaintRate,
+            raw_payload: JSON.parse(JSON.stringify({ ...summary, rows: domainRows })),
+        };
+        try {
+            await prisma.domainReputation.upsert({
+                where: { domain_id_source_date: { domain_id: domainId, source: 'snds', date } },
+                create: { organization_id: orgId, domain_id: domainId, source: 'snds', date, ...fields },
+                update: fields,
+            });
+        } catch (err: any) {
+            errors++;
+            logger.warn('[SNDS] DomainReputation roll-up failed', { orgId, domainId, error: err.message });
+        }
+    }
+
+    await prisma.organization.update({
+        where: { id: orgId },
+        data: { snds_last_fetch_at: new Date(), snds_last_error: errors > 0 ? `Partial: ${errors} rows errored` : null },
+    }).catch(() => {});
+
+    return { ipsFound: rows.length, rowsWritten, errors };
+}
+
+/** IpReputation time series for the dashboard. */
+export async function listIpReputation(orgId: string, opts: { days?: number; ip?: string } = {}) {
+    const days = Math.min(180, Math.max(1, opts.days ?? 30));
+    return prisma.ipReputation.findMany({
+        where: {
+            organization_id: orgId,
+            ...(opts.ip && { ip: opts.ip }),
+            date: { gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) },
+        },
+        orderBy: [{ date: 'asc' }, { ip: 'asc' }],
+        select: {
+            ip: true, date: true, source: true, dedicated_ip_id: true, filter_result: true,
+            complaint_rate: true, trap_hits: true, message_recipients: true, blocked: true,
+        },
+    });
+}
@@ -0,0 +1,648 @@
+/**
+ * Spam-Trap Risk Service
+ *
+ * bounceClassifier only sees addresses that fail. Recycled spam traps accept
+ * everything and never engage, so the damage shows up later as blocklist
+ * listings and Outlook trap hits, not bounces. This service infers trap risk
+ * from signals we already hold and flags the leads - and the import batches
+ * (CampaignLeadImport) they arrived in - before they are mailed again.
+ *
+ * Per-lead signals (TRAP_SIGNAL_WEIGHTS):
+ *   dormant_revival  - Lead row older than DORMANT_DAYS, not mailed in that
+ *                      long, re-imported by this batch.
+ *   role_account     - info@, sales@, postmaster@ ... (leadHealthService list).
+ *   catch_all        - domain accepts any mailbox (Lead.is_catch_all).
+ *   zero_engagement  - ZERO_ENGAGEMENT_SENDS+ sends with no open, click or
+ *                      reply anywhere in the org. Opens undercount when
+ *                      tracking is off, hence the send floor.
+ *   batch_listing    - a domain that mailed this batch landed on a critical /
+ *                      major DNSBL within LISTING_WINDOW_DAYS of the batch's
+ *                      first send (DnsblResult.listed_at).
+ *   batch_trap_hits  - SNDS reported trap hits for a sending IP of this batch
+ *                      in the same window.
+ *
+ * Score >= HIGH_SCORE marks the lead 'high' and pauses its active
+ * CampaignLead rows (paused_reason 'trap_risk') across the org until an
+ * operator clears or suppresses it. The batch gets its own level from the
+ * share of risky leads and the listing / trap-hit correlation.
+ * spamTrapRiskWorker sweeps every 6 hours; new batches are assessed right
+ * after import.
+ */
+
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+import * as auditLogService from './auditLogService';
+import * as notificationService from './notificationService';
+import * as suppressionService from './suppressionService';
+import { isRoleBasedEmail } from './leadHealthService';
+import { AppError } from '../utils/appError';
+
+export type TrapRiskLevel = 'low' | 'elevated' | 'high';
+export type TrapRiskSignal =
+    | 'dormant_revival'
+    | 'role_account'
+    | 'catch_all'
+    | 'zero_engagement'
+    | 'batch_listing'
+    | 'batch_trap_hits';
+
+export const TRAP_SIGNAL_WEIGHTS: Record<TrapRiskSignal, number> = {
+    dormant_revival: 30,
+    role_account: 20,
+    catch_all: 15,
+    zero_engagement: 25,
+    batch_listing: 25,
+    batch_trap_hits: 25,
+};
+
+/** Extra weight once zero engagement reaches HEAVY_ZERO_ENGAGEMENT_SENDS. */
+const HEAVY_ZERO_ENGAGEMENT_BONUS = 10;
+/** Both batch signals together are one piece of evidence, not two. */
+const BATCH_SIGNAL_CAP = 30;
+
+const ELEVATED_SCORE = 35;
+const HIGH_SCORE = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DORMANT_DAYS = 365;
+const ZERO_ENGAGEMENT_SENDS = 4;
+const HEAVY_ZERO_ENGAGEMENT_SENDS = 8;
+const LISTING_WINDOW_DAYS = 7;
+const LISTING_TIERS = ['critical', 'major'];
+/** Batches younger than this, or with active leads, are re-assessed each sweep. */
+const BATCH_LOOKBACK_DAYS = 90;
+
+/** Batch-level thresholds (rateBatch). */
+const BATCH_HIGH_SHARE = 0.05;
+const BATCH_ELEVATED_SHARE = 0.1;
+const BATCH_MIN_SCORED = 20;
+
+const LOOKUP_CHUNK = 1000;
+export const TRAP_RISK_PAUSE_REASON = 'trap_risk';
+
+// ────────────────────────────────────────────────────────────────────
+// Scoring (pure)
+// ────────────────────────────────────────────────────────────────────
+
+export interface LeadTrapSignals {
+    email: string;
+    /** Lead.created_at; null when the address has no Lead row. */
+    leadCreatedAt: Date | null;
+    /** Latest send to the address before the batch was imported. */
+    lastSendBeforeImport: Date | null;
+    importedAt: Date;
+    isCatchAll: boolean | null;
+    sends: number;
+    /** Opens + clicks + replies across the org. */
+    engagements: number;
+    batchListing: boolean;
+    batchTrapHits: boolean;
+}
+
+export interface TrapRiskScore {
+    score: number;
+    level: TrapRiskLevel;
+    reasons: TrapRiskSignal[];
+}
+
+export function levelForScore(score: number): TrapRiskLevel {
+    if (score >= HIGH_SCORE) return 'high';
+    if (score >= ELEVATED_SCORE) return 'elevated';
+    return 'low';
+}
+
+export function scoreTrapRisk(s: LeadTrapSignals): TrapRiskScore {
+    const reasons: TrapRiskSignal[] = [];
+    let score = 0;
+
+    const dormantMs = DORMANT_DAYS * DAY_MS;
+    const importedAt = s.importedAt.getTime();
+    if (
+        s.leadCreatedAt && importedAt - s.leadCreatedAt.getTime() >= dormantMs
+        && (!s.lastSendBeforeImport || importedAt - s.lastSendBeforeImport.getTime() >= dormantMs)
+    ) {
+        reasons.push('dormant_revival');
+        score += TRAP_SIGNAL_WEIGHTS.dormant_revival;
+    }
+
+    const localPart = s.email.split('@')[0] || '';
+    if (localPart && isRoleBasedEmail(localPart)) {
+        reasons.push('role_account');
+        score += TRAP_SIGNAL_WEIGHTS.role_account;
+    }
+
+    if (s.isCatchAll) {
+        reasons.push('catch_all');
+        score += TRAP_SIGNAL_WEIGHTS.catch_all;
+    }
+
+    if (s.engagements === 0 && s.sends >= ZERO_ENGAGEMENT_SENDS) {
+        reasons.push('zero_engagement');
+        score += TRAP_SIGNAL_WEIGHTS.zero_engagement
+            + (s.sends >= HEAVY_ZERO_ENGAGEMENT_SENDS ? HEAVY_ZERO_ENGAGEMENT_BONUS : 0);
+    }
+
+    let batchScore = 0;
+    if (s.batchListing) {
+        reasons.push('batch_listing');
+        batchScore += TRAP_SIGNAL_WEIGHTS.batch_listing;
+    }
+    if (s.batchTrapHits) {
+        reasons.push('batch_trap_hits');
+        batchScore += TRAP_SIGNAL_WEIGHTS.batch_trap_hits;
+    }
+    score += Math.min(batchScore, BATCH_SIGNAL_CAP);
+
+    score = Math.min(score, 100);
+    return { score, level: levelForScore(score), reasons };
+}
+
+/**
+ * Level for a whole import batch. A listing or trap hit that lines up with
+ * the batch's first sends is enough on its own; otherwise it is the share of
+ * risky leads.
+ */
+export function rateBatch(stats: { scored: number; elevated: number; high: number; listed: boolean; trapHits: number }): TrapRiskLevel {
+    if (stats.listed || stats.trapHits > 0) return 'high';
+    if (stats.scored >= BATCH_MIN_SCORED && stats.high / stats.scored >= BATCH_HIGH_SHARE) return 'high';
+    if (stats.high > 0) return 'elevated';
+    if (stats.scored > 0 && (stats.elevated + stats.high) / stats.scored >= BATCH_ELEVATED_SHARE) return 'elevated';
+    return 'low';
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Batch correlation
+// ────────────────────────────────────────────────────────────────────
+
+export interface BatchListing {
+    domain: string;
+    list: string;
+    tier: string;
+    listed_at: string;
+}
+
+export interface BatchTrapHit {
+    ip: string;
+    date: string;
+    trap_hits: number;
+}
+
+export interface BatchTrapSummary {
+    scored: number;
+    elevated: number;
+    high: number;
+    paused: number;
+    signals: Partial<Record<TrapRiskSignal, number>>;
+    first_send_at: string | null;
+    listings: BatchListing[];
+    trap_hits: BatchTrapHit[];
+}
+
+function chunks<T>(items: T[], size: number = LOOKUP_CHUNK): T[][] {
+    const out: T[][] = [];
+    for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+    return out;
+}
+
+/**
+ * DNSBL listings and SNDS trap hits on the infrastructure that mailed this
+ * batch, inside LISTING_WINDOW_DAYS of its first send. Earlier findings are
+ * kept - a listing that has since been delisted still happened.
+ */
+async function correlateBatch(
+    organizationId: string,
+    campaignLeadIds: string[],
+    previous: BatchTrapSummary | null,
+): Promise<{ firstSendAt: Date | null; listings: BatchListing[]; trapHits: BatchTrapHit[] }> {
+    const firstByMailbox = new Map<string, Date>();
+    for (const chunk of chunks(campaignLeadIds)) {
+        const rows = await prisma.sendEvent.groupBy({
+            by: ['mailbox_id'],
+            where: { organization_id: organizationId, campaign_lead_id: { in: chunk } },
+            _min: { sent_at: true },
+        });
+        for (const r of rows) {
+            const at = r._min.sent_at;
+            if (!at) continue;
+            const prev = firstByMailbox.get(r.mailbox_id);
+            if (!prev || at < prev) firstByMailbox.set(r.mailbox_id, at);
+        }
+    }
+
+    const listings = new Map<string, BatchListing>((previous?.listings || []).map(l => [`${l.domain}:${l.list}`, l]));
+    const trapHits = new Map<string, BatchTrapHit>((previous?.trap_hits || []).map(t => [`${t.ip}:${t.date}`, t]));
+    if (firstByMailbox.size === 0) {
+        return { firstSendAt: null, listings: Array.from(listings.values()), trapHits: Array.from(trapHits.values()) };
+    }
+
+    const firstSendAt = new Date(Math.min(...Array.from(firstByMailbox.values()).map(d => d.getTime())));
+    const windowEnd = new Date(firstSendAt.getTime() + LISTING_WINDOW_DAYS * DAY_MS);
+
+    const mailboxes = await prisma.mailbox.findMany({
+        where: { id: { in: Array.from(firstByMailbox.keys()) } },
+        select: { domain_id: true, sending_ip: true, domain: { select: { domain: true } } },
+    });
+    const domainIds = Array.from(new Set(mailboxes.map(m => m.domain_id)));
+    const ips = Array.from(new Set(mailboxes.map(m => m.sending_ip).filter((ip): ip is string => !!ip)));
+
+    if (domainIds.length > 0) {
+        const listed = await prisma.dnsblResult.findMany({
+            where: {
+                domain_id: { in: domainIds },
+                status: 'CONFIRMED',
+                listed_at: { gte: firstSendAt, lte: windowEnd },
+                dnsblList: { tier: { in: LISTING_TIERS } },
+            },
+            select: { listed_at: true, domain: { select: { domain: true } }, dnsblList: { select: { name: true, tier: true } } },
+        });
+        for (const l of listed) {
+            listings.set(`${l.domain.domain}:${l.dnsblList.name}`, {
+                domain: l.domain.domain,
+                list: l.dnsblList.name,
+                tier: l.dnsblList.tier,
+                listed_at: l.listed_at!.toISOString(),
+            });
+        }
+    }
+
+    if (ips.length > 0) {
+        const dayStart = new Date(Date.UTC(firstSendAt.getUTCFullYear(), firstSendAt.getUTCMonth(), firstSendAt.getUTCDate()));
+        const hits = await prisma.ipReputation.findMany({
+            where: {
+                organization_id: organizationId,
+                ip: { in: ips },
+                date: { gte: dayStart, lte: windowEnd },
+                trap_hits: { gt: 0 },
+            },
+            select: { ip: true, date: true, trap_hits: true },
+        });
+        for (const h of hits) {
+            const date = h.date.toISOString().slice(0, 10);
+            trapHits.set(`${h.ip}:${date}`, { ip: h.ip, date, trap_hits: h.trap_hits ?? 0 });
+        }
+    }
+
+    return { firstSendAt, listings: Array.from(listings.values()), trapHits: Array.from(trapHits.values()) };
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Assessment
+// ────────────────────────────────────────────────────────────────────
+
+/** Both spellings, since older CampaignLead rows kept the caller's casing. */
+function emailVariants(emails: string[]): string[] {
+    return Array.from(new Set(emails.flatMap(e => [e, e.toLowerCase()])));
+}
+
+/**
+ * Score every lead of one import batch, persist the lead and batch flags,
+ * and pause high-risk leads that are still queued anywhere in the org.
+ */
+export async function assessImportBatch(batchId: string): Promise<{ level: TrapRiskLevel; summary: BatchTrapSummary }> {
+    const batch = await prisma.campaignLeadImport.findUnique({
+        where: { id: batchId },
+        select: { id: true, organization_id: true, campaign_id: true, created_at: true, source_file: true, source_label: true, trap_risk_level: true, trap_risk_summary: true },
+    });
+    if (!batch) throw new AppError('Import batch not found', 404);
+    const orgId = batch.organization_id;
+    const previous = (batch.trap_risk_summary as BatchTrapSummary | null) ?? null;
+
+    const campaignLeads = await prisma.campaignLead.findMany({
+        where: { import_id: batch.id },
+        select: { id: true, email: true },
+    });
+    const correlation = await correlateBatch(orgId, campaignLeads.map(cl => cl.id), previous);
+    const batchListing = correlation.listings.length > 0;
+    const batchTrapHits = correlation.trapHits.length > 0;
+
+    const rawEmails = Array.from(new Set(campaignLeads.map(cl => cl.email)));
+    const emails = Array.from(new Set(rawEmails.map(e => e.toLowerCase().trim())));
+
+    type LeadRow = { id: string; email: string; created_at: Date; is_catch_all: boolean | null; emails_sent: number; emails_opened: number; emails_clicked: number; emails_replied: number; trap_risk_score: number | null; trap_risk_level: string | null; trap_risk_reasons: unknown; trap_risk_cleared_at: Date | null };
+    const leads = new Map<string, LeadRow>();
+    const sends = new Map<string, number>();
+    const lastSendBefore = new Map<string, Date>();
+    const engagement = new Map<string, number>();
+
+    for (const chunk of chunks(emailVariants(rawEmails))) {
+        const [leadRows, sendCounts, priorSends, clStats] = await Promise.all([
+            prisma.lead.findMany({
+                where: { organization_id: orgId, email: { in: chunk } },
+                select: {
+                    id: true, email: true, created_at: true, is_catch_all: true,
+                    emails_sent: true, emails_opened: true, emails_clicked: true, emails_replied: true,
+                    trap_risk_score: true, trap_risk_level: true, trap_risk_reasons: true, trap_risk_cleared_at: true,
+                },
+            }),
+            prisma.sendEvent.groupBy({
+                by: ['recipient_email'],
+                where: { organization_id: orgId, recipient_email: { in: chunk } },
+                _count: { _all: true },
+            }),
+            prisma.sendEvent.groupBy({
+                by: ['recipient_email'],
+                where: { organization_id: orgId, recipient_email: { in: chunk }, sent_at: { lt: batch.created_at } },
+                _max: { sent_at: true },
+            }),
+            prisma.campaignLead.groupBy({
+                by: ['email'],
+                where: { email: { in: chunk }, campaign: { organization_id: orgId } },
+                _sum: { opened_count: true, clicked_count: true },
+                _count: { replied_at: true },
+            }),
+        ]);
+        for (const l of leadRows) leads.set(l.email.toLowerCase(), l);
+        for (const r of sendCounts) {
+            const key = r.recipient_email.toLowerCase();
+            sends.set(key, (sends.get(key) ?? 0) + r._count._all);
+        }
+        for (const r of priorSends) {
+            const key = r.recipient_email.toLowerCase();
+            const at = r._max.sent_at;
+            if (at && (!lastSendBefore.has(key) || at > lastSendBefore.get(key)!)) lastSendBefore.set(key, at);
+        }
+        for (const r of clStats) {
+            const key = r.email.toLowerCase();
+            const n = (r._sum.opened_count ?? 0) + (r._sum.clicked_count ?? 0) + r._count.replied_at;
+            engagement.set(key, (engagement.get(key) ?? 0) + n);
+        }
+    }
+
+    const summary: BatchTrapSummary = {
+        scored: 0, elevated: 0, high: 0, paused: 0, signals: {},
+        first_send_at: correlation.firstSendAt?.toISOString() ?? null,
+        listings: correlation.listings,
+        trap_hits: correlation.trapHits,
+    };
+    const toPause: string[] = [];
+    const leadUpdates = new Map<string, { data: TrapRiskScore; ids: string[] }>();
+
+    for (const email of emails) {
+        const lead = leads.get(email);
+        const result = scoreTrapRisk({
+            email,
+            leadCreatedAt: lead?.created_at ?? null,
+            lastSendBeforeImport: lastSendBefore.get(email) ?? null,
+            importedAt: batch.created_at,
+            isCatchAll: lead?.is_catch_all ?? null,
+            sends: Math.max(sends.get(email) ?? 0, lead?.emails_sent ?? 0),
+            engagements: (engagement.get(email) ?? 0)
+                + (lead ? lead.emails_opened + lead.emails_clicked + lead.emails_replied : 0),
+            batchListing,
+            batchTrapHits,
+        });
+
+        summary.scored += 1;
+        if (result.level === 'elevated') summary.elevated += 1;
+        if (result.level === 'high') summary.high += 1;
+        for (const r of result.reasons) summary.signals[r] = (summary.signals[r] ?? 0) + 1;
+        if (result.level === 'high' && !lead?.trap_risk_cleared_at) toPause.push(email);
+
+        if (lead && (
+            lead.trap_risk_score !== result.score
+            || lead.trap_risk_level !== result.level
+            || JSON.stringify(lead.trap_risk_reasons ?? []) !== JSON.stringify(result.reasons)
+        )) {
+            const key = JSON.stringify(result);
+            const group = leadUpdates.get(key) ?? { data: result, ids: [] };
+            group.ids.push(lead.id);
+            leadUpdates.set(key, group);
+        }
+    }
+
+    const now = new Date();
+    for (const { data, ids } of leadUpdates.values()) {
+        for (const chunk of chunks(ids)) {
+            await prisma.lead.updateMany({
+                where: { id: { in: chunk } },
+                data: { trap_risk_score: data.score, trap_risk_level: data.level, trap_risk_reasons: data.reasons, trap_risk_checked_at: now },
+            });
+        }
+    }
+
+    if (toPause.length > 0) {
+        const rawByLower = new Map<string, string[]>();
+        for (const raw of rawEmails) rawByLower.set(raw.toLowerCase(), [...(rawByLower.get(raw.toLowerCase()) || []), raw]);
+        const pauseVariants = emailVariants(toPause.flatMap(e => rawByLower.get(e) || [e]));
+        for (const chunk of chunks(pauseVariants)) {
+            const paused = await prisma.campaignLead.updateMany({
+                where: { email: { in: chunk }, status: 'active', campaign: { organization_id: orgId } },
+                data: { status: 'paused', paused_reason: TRAP_RISK_PAUSE_REASON, next_send_at: null },
+            });
+            summary.paused += paused.count;
+        }
+    }
+
+    const level = rateBatch({
+        scored: summary.scored,
+        elevated: summary.elevated,
+        high: summary.high,
+        listed: batchListing,
+        trapHits: correlation.trapHits.reduce((n, t) => n + t.trap_hits, 0),
+    });
+    await prisma.campaignLeadImport.update({
+        where: { id: batch.id },
+        data: { trap_risk_level: level, trap_risk_summary: summary as any, trap_risk_checked_at: now },
+    });
+
+    const label = batch.source_label || batch.source_file || batch.id;
+    if (level !== batch.trap_risk_level && level !== 'low') {
+        await auditLogService.logAction({
+            organizationId: orgId,
+            entity: 'campaign_lead_import',
+            entityId: batch.id,
+            trigger: 'spam_trap_detector',
+            action: `trap_risk_${level}`,
+            details: `Import "${label}": ${summary.high} high / ${summary.elevated} elevated of ${summary.scored} leads`
+                + (batchListing ? `; listed on ${correlation.listings.map(l => l.list).join(', ')} after first send` : '')
+                + (batchTrapHits ? `; SNDS trap hits on ${correlation.trapHits.map(t => t.ip).join(', ')}` : ''),
+        });
+        if (level === 'high') {
+            await notificationService.createNotificationIfAbsent(orgId, {
+                type: 'WARNING',
+                title: `Import "${label}" looks like it contains spam traps`,
+                message: `${summary.high} of ${summary.scored} leads are high spam-trap risk`
+                    + (batchListing ? ' and a sending domain was blocklisted right after the first sends' : '')
+                    + `. ${summary.paused} queued leads were paused - review them under Trap Risk before resuming.`,
+            });
+        }
+    }
+    if (summary.paused > 0) {
+        await auditLogService.logAction({
+            organizationId: orgId,
+            entity: 'campaign_lead_import',
+            entityId: batch.id,
+            trigger: 'spam_trap_detector',
+            action: 'leads_paused',
+            details: `Paused ${summary.paused} queued campaign leads with high spam-trap risk from import "${label}"`,
+        });
+    }
+
+    logger.info('[TRAP_RISK] Batch assessed', { batchId: batch.id, organizationId: orgId, level, scored: summary.scored, high: summary.high, paused: summary.paused });
+    return { level, summary };
+}
+
+/**
+ * Re-assess every recent batch and every batch that still has queued
+ * leads. Engagement and listings keep arriving, so scores move over time.
+ * Oldest first, so a lead imported more than once ends up carrying the
+ * score from its latest batch.
+ */
+export async function runSweep(): Promise<{ batches: number; flagged: number; paused: number }> {
+    const since = new Date(Date.now() - BATCH_LOOKBACK_DAYS * DAY_MS);
+    const batches = await prisma.campaignLeadImport.findMany({
+        where: { OR: [{ created_at: { gte: since } }, { leads: { some: { status: 'active' } } }] },
+        select: { id: true },
+        orderBy: { created_at: 'asc' },
+    });
+    let flagged = 0;
+    let paused = 0;
+    for (const b of batches) {
+        try {
+            const { level, summary } = await assessImportBatch(b.id);
+            if (level !== 'low') flagged += 1;
+            paused += summary.paused;
+        } catch (err) {
+            logger.error(`[TRAP_RISK] assessment failed for batch ${b.id}`, err instanceof Error ? err : new Error(String(err)));
+        }
+    }
+    return { batches: batches.length, flagged, paused };
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Operator views + actions
+// ────────────────────────────────────────────────────────────────────
+
+export async function listBatches(organizationId: string, opts: { level?: string; limit?: number } = {}) {
+    return prisma.campaignLeadImport.findMany({
+        where: {
+            organization_id: organizationId,
+            ...(opts.level ? { trap_risk_level: opts.level } : { trap_risk_level: { in: ['elevated', 'high'] } }),
+        },
+        orderBy: { created_at: 'desc' },
+        take: Math.min(Math.max(opts.limit ?? 50, 1), 200),
+        select: {
+            id: true, campaign_id: true, source: true, source_file: true, source_label: true,
+            added_count: true, created_at: true,
+            trap_risk_level: true, trap_risk_summary: true, trap_risk_checked_at: true,
+            campaign: { select: { name: true } },
+        },
+    });
+}
+
+export async function getBatch(organizationId: string, batchId: string) {
+    const batch = await prisma.campaignLeadImport.findFirst({
+        where: { id: batchId, organization_id: organizationId },
+        include: { campaign: { select: { name: true } } },
+    });
+    if (!batch) throw new AppError('Import batch not found', 404);
+    const campaignLeads = await prisma.campaignLead.findMany({
+        where: { import_id: batch.id },
+        select: { id: true, email: true, status: true, paused_reason: true },
+    });
+    const flagged: Array<{ id: string; email: string; trap_risk_score: number | null; trap_risk_level: string | null; trap_risk_reasons: unknown; trap_risk_cleared_at: Date | null }> = [];
+    for (const chunk of chunks(emailVariants(campaignLeads.map(cl => cl.email)))) {
+        const rows = await prisma.lead.findMany({
+            where: { organization_id: organizationId, email: { in: chunk }, trap_risk_level: { in: ['elevated', 'high'] } },
+            select: { id: true, email: true, trap_risk_score: true, trap_risk_level: true, trap_risk_reasons: true, trap_risk_cleared_at: true },
+        });
+        flagged.push(...rows);
+    }
+    const statusByEmail = new Map(campaignLeads.map(cl => [cl.email.toLowerCase(), { status: cl.status, paused_reason: cl.paused_reason }]));
+    return {
+        batch,
+        flagged_leads: flagged
+            .map(l => ({ ...l, campaign_lead: statusByEmail.get(l.email.toLowerCase()) ?? null }))
+            .sort((a, b) => (b.trap_risk_score ?? 0) - (a.trap_risk_score ?? 0)),
+    };
+}
+
+export async function listFlaggedLeads(organizationId: string, opts: { level?: string; includeCleared?: boolean; limit?: number; offset?: number } = {}) {
+    const where = {
+        organization_id: organizationId,
+        trap_risk_level: opts.level ? opts.level : { in: ['elevated', 'high'] },
+        ...(opts.includeCleared ? {} : { trap_risk_cleared_at: null }),
+    };
+    const [leads, total] = await Promise.all([
+        prisma.lead.findMany({
+            where,
+            orderBy: [{ trap_risk_score: 'desc' }, { trap_risk_checked_at: 'desc' }],
+            take: Math.min(Math.max(opts.limit ?? 100, 1), 500),
+            skip: Math.max(opts.offset ?? 0, 0),
+            select: {
+                id: true, email: true, status: true, created_at: true,
+                trap_risk_score: true, trap_risk_level: true, trap_risk_reasons: true,
+                trap_risk_checked_at: true, trap_risk_cleared_at: true,
+            },
+        }),
+        prisma.lead.count({ where }),
+    ]);
+    return { leads, total };
+}
+
+async function loadLeads(organizationId: string, leadIds: string[]) {
+    if (!Array.isArray(leadIds) || leadIds.length === 0) throw new AppError('lead_ids must be a non-empty array', 400);
+    return prisma.lead.findMany({
+        where: { organization_id: organizationId, id: { in: leadIds.map(String) } },
+        select: { id: true, email: true, trap_risk_level: true },
+    });
+}
+
+/**
+ * Operator reviewed the leads and wants them mailed: mark them cleared (the
+ * detector won't pause them again) and resume rows it had paused.
+ */
+export async function clearLeads(organizationId: string, leadIds: string[], userId?: string | null): Promise<{ cleared: number; resumed: number }> {
+    const leads = await loadLeads(organizationId, leadIds);
+    if (leads.length === 0) return { cleared: 0, resumed: 0 };
+    const now = new Date();
+    await prisma.lead.updateMany({
+        where: { id: { in: leads.map(l => l.id) } },
+        data: { trap_risk_cleared_at: now },
+    });
+    const resumed = await prisma.campaignLead.updateMany({
+        where: {
+            email: { in: emailVariants(leads.map(l => l.email)) },
+            status: 'paused',
+            paused_reason: TRAP_RISK_PAUSE_REASON,
+            campaign: { organization_id: organizationId },
+        },
+        data: { status: 'active', paused_reason: null, next_send_at: now },
+    });
+    await auditLogService.logActions(leads.map(l => ({
+        organizationId,
+        entity: 'lead',
+        entityId: l.id,
+        trigger: 'manual',
+        action: 'trap_risk_cleared',
+        details: `Spam-trap risk (${l.trap_risk_level ?? 'unscored'}) cleared by operator`,
+        userId: userId ?? undefined,
+    })));
+    return { cleared: leads.length, resumed: resumed.count };
+}
+
+/**
+ * Put the leads on the org suppression list and end the sequences the
+ * detector paused. Queued rows elsewhere are caught by the dispatcher's
+ * suppression check.
+ */
+export async function suppressLeads(organizationId: string, leadIds: string[], userId?: string | null) {
+    const leads = await loadLeads(organizationId, leadIds);
+    const result = await suppressionService.addEntries(
+        organizationId,
+        leads.map(l => ({ value: l.email, type: 'email', reason: 'spam_trap_risk' })),
+        { source: 'manual', userId },
+    );
+    if (leads.length > 0) {
+        await prisma.campaignLead.updateMany({
+            where: {
+                email: { in: emailVariants(leads.map(l => l.email)) },
+                status: 'paused',
+                paused_reason: TRAP_RISK_PAUSE_REASON,
+                campaign: { organization_id: organizationId },
+            },
+            data: { status: 'unsubscribed', paused_reason: null, next_send_at: null },
+        });
+    }
+    return result;
+}
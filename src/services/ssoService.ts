@@ -0,0 +1,652 @@
+/**
+ * SSO Service
+ *
+ * Per-Account single sign-on against the agency's own IdP - SAML 2.0
+ * (configured by uploading IdP metadata) or OpenID Connect (configured from
+ * a discovery URL). See SsoConnection in the schema for the data model.
+ *
+ * Flow (all under the public /api/auth/sso routes):
+ *   1. discover?email= - the login page asks whether the email's domain has
+ *      an enabled connection and gets its start URL.
+ *   2. /:id/start - mints a single-use state row (oauthStateService, purpose
+ *      'sso_login') carrying the SAML request ID or the OIDC nonce + PKCE
+ *      verifier, and redirects to the IdP.
+ *   3. /:id/acs (SAML POST binding) or /:id/callback (OIDC code) - consumes
+ *      the state, validates the assertion / id_token, and resolves the user.
+ *
+ * Trust rules:
+ *   - The asserted email's domain must be a verified SsoDomain of the same
+ *     connection; an IdP can't sign anyone into addresses it doesn't own.
+ *   - Existing agency-side users of the Account sign in as themselves.
+ *     Everyone else is a client user of default_organization_id, created
+ *     just-in-time with default_capabilities + group-mapped capabilities,
+ *     and re-synced to the mapping on every sign-in - unless SCIM manages
+ *     the membership, in which case its groups decide. A membership an
+ *     owner (or SCIM) disabled stays disabled.
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+import { AppError } from '../utils/appError';
+import { encrypt, decrypt } from '../utils/encryption';
+import { safeFetch } from '../utils/safeFetch';
+import { getPublicBackendUrl } from '../utils/publicBackendUrl';
+import { emailDomain, isFreeEmailDomain } from '../utils/workEmail';
+import { CAPABILITY_KEYS, validateCapabilities } from '../middleware/requireCapability';
+import { createState, consumeState } from './oauthStateService';
+import * as samlService from './samlService';
+
+export type SsoProtocol = 'saml' | 'oidc';
+
+export interface GroupMapping {
+    group: string;
+    capabilities: string[];
+}
+
+export interface SsoIdentity {
+    email: string;
+    name: string | null;
+    groups: string[];
+}
+
+export interface SsoUser {
+    id: string;
+    email: string;
+    name: string | null;
+    role: string;
+    organization_id: string;
+    account_id: string | null;
+    is_agency_owner: boolean;
+    scoped_organization_id: string | null;
+    totp_enabled_at: Date | null;
+}
+
+export const DOMAIN_VERIFICATION_PREFIX = 'superkabe-sso-verification=';
+const OIDC_SCOPES = 'openid email profile';
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+const DISCOVERY_MAX_BYTES = 256 * 1024;
+
+type Connection = NonNullable<Awaited<ReturnType<typeof findConnection>>>;
+
+function findConnection(where: { id: string } | { account_id: string }) {
+    return prisma.ssoConnection.findUnique({
+        where: where as any,
+        include: { domains: { orderBy: { created_at: 'asc' } } },
+    });
+}
+
+// ─── URLs we hand to the IdP ────────────────────────────────────────────────
+
+export function spEntityId(connectionId: string): string {
+    return `${getPublicBackendUrl()}/api/auth/sso/${connectionId}/metadata`;
+}
+
+export function acsUrl(connectionId: string): string {
+    return `${getPublicBackendUrl()}/api/auth/sso/${connectionId}/acs`;
+}
+
+export function oidcRedirectUri(connectionId: string): string {
+    return `${getPublicBackendUrl()}/api/auth/sso/${connectionId}/callback`;
+}
+
+export function startUrl(connectionId: string): string {
+    return `${getPublicBackendUrl()}/api/auth/sso/${connectionId}/start`;
+}
+
+// ─── Pure helpers ───────────────────────────────────────────────────────────
+
+export function normalizeDomain(input: string): string | null {
+    const domain = input.trim().toLowerCase().replace(/^@/, '').replace(/\.$/, '');
+    return /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/.test(domain) ? domain : null;
+}
+
+export function parseGroupMappings(input: unknown): GroupMapping[] {
+    if (!Array.isArray(input)) throw new AppError('group_mappings must be an array', 400);
+    return input.map((m, i) => {
+        const group = typeof m?.group === 'string' ? m.group.trim() : '';
+        if (!group) throw new AppError(`group_mappings[${i}].group is required`, 400);
+        return { group, capabilities: validateCapabilities(m.capabilities, `group_mappings[${i}].capabilities`) };
+    });
+}
+
+/**
+ * Capabilities for a user in the given IdP groups: the defaults plus every
+ * mapping whose group matches (case-insensitively), limited to
+ * CAPABILITY_KEYS.
+ */
+export function mapGroupsToCapabilities(groups: string[], mappings: GroupMapping[], defaults: string[]): string[] {
+    const memberOf = new Set(groups.map(g => g.trim().toLowerCase()));
+    const granted = new Set(defaults);
+    for (const mapping of mappings) {
+        if (memberOf.has(mapping.group.toLowerCase())) mapping.capabilities.forEach(c => granted.add(c));
+    }
+    return CAPABILITY_KEYS.filter(c => granted.has(c));
+}
+
+function base64url(buf: Buffer): string {
+    return buf.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function asStringArray(value: unknown): string[] {
+    if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+    return typeof value === 'string' && value ? [value] : [];
+}
+
+// ─── Configuration ──────────────────────────────────────────────────────────
+
+export interface ConnectionInput {
+    protocol?: unknown;
+    enabled?: unknown;
+    enforce_sso?: unknown;
+    saml_metadata_xml?: unknown;
+    oidc_discovery_url?: unknown;
+    oidc_client_id?: unknown;
+    oidc_client_secret?: unknown;
+    default_organization_id?: unknown;
+    default_capabilities?: unknown;
+    group_mappings?: unknown;
+    groups_attribute?: unknown;
+}
+
+/** The connection as the settings page sees it - never the client secret. */
+export function toView(connection: Connection) {
+    return {
+        id: connection.id,
+        protocol: connection.protocol,
+        enabled: connection.enabled,
+        enforce_sso: connection.enforce_sso,
+        saml_idp_entity_id: connection.saml_idp_entity_id,
+        saml_sso_url: connection.saml_sso_url,
+        saml_certificate_count: connection.saml_certificates.length,
+        oidc_discovery_url: connection.oidc_discovery_url,
+        oidc_issuer: connection.oidc_issuer,
+        oidc_client_id: connection.oidc_client_id,
+        has_oidc_client_secret: !!connection.oidc_client_secret,
+        default_organization_id: connection.default_organization_id,
+        default_capabilities: connection.default_capabilities,
+        group_mappings: connection.group_mappings,
+        groups_attribute: connection.groups_attribute,
+        domains: connection.domains.map(d => ({
+            id: d.id,
+            domain: d.domain,
+            verified: !!d.verified_at,
+            verified_at: d.verified_at,
+            txt_record: `${DOMAIN_VERIFICATION_PREFIX}${d.verification_token}`,
+        })),
+        service_provider: {
+            entity_id: spEntityId(connection.id),
+            acs_url: acsUrl(connection.id),
+            metadata_url: spEntityId(connection.id),
+            oidc_redirect_uri: oidcRedirectUri(connection.id),
+            start_url: startUrl(connection.id),
+        },
+        updated_at: connection.updated_at,
+    };
+}
+
+export async function getConnection(accountId: string) {
+    const connection = await findConnection({ account_id: accountId });
+    return connection ? toView(connection) : null;
+}
+
+interface OidcDiscovery {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+}
+
+export async function discoverOidc(discoveryUrl: string): Promise<OidcDiscovery> {
+    if (!/^https:\/\//i.test(discoveryUrl)) throw new AppError('oidc_discovery_url must be an https URL', 400);
+    const result = await safeFetch(discoveryUrl, {
+        method: 'GET',
+        headers: { Accept: 'application/json' },
+        maxBytes: DISCOVERY_MAX_BYTES,
+    });
+    if (!result.ok || result.status !== 200) {
+        throw new AppError(`Could not fetch the OIDC discovery document (${result.ok ? `HTTP ${result.status}` : result.reason})`, 400);
+    }
+    let doc: Record<string, unknown>;
+    try {
+        doc = JSON.parse(result.body);
+    } catch {
+        throw new AppError('OIDC discovery document is not valid JSON', 400);
+    }
+    const fields = ['issuer', 'authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const;
+    for (const field of fields) {
+        if (typeof doc[field] !== 'string' || !doc[field]) throw new AppError(`OIDC discovery document has no ${field}`, 400);
+    }
+    return doc as unknown as OidcDiscovery;
+}
+
+/**
+ * Create or update the Account's connection. Metadata XML / a discovery URL
+ * are resolved here so sign-in never depends on refetching them.
+ */
+export async function saveConnection(accountId: string, input: ConnectionInput) {
+    const existing = await findConnection({ account_id: accountId });
+    const protocol = input.protocol ?? existing?.protocol;
+    if (protocol !== 'saml' && protocol !== 'oidc') throw new AppError("protocol must be 'saml' or 'oidc'", 400);
+
+    const data: Record<string, unknown> = { protocol };
+
+    if (input.saml_metadata_xml !== undefined) {
+        if (typeof input.saml_metadata_xml !== 'string') throw new AppError('saml_metadata_xml must be a string', 400);
+        let metadata: samlService.IdpMetadata;
+        try {
+            metadata = samlService.parseIdpMetadata(input.saml_metadata_xml);
+        } catch (err) {
+            throw new AppError(`Invalid SAML metadata: ${err instanceof Error ? err.message : String(err)}`, 400);
+        }
+        data.saml_idp_entity_id = metadata.entityId;
+        data.saml_sso_url = metadata.ssoUrl;
+        data.saml_certificates = metadata.certificates;
+    }
+
+    if (input.oidc_discovery_url !== undefined) {
+        if (typeof input.oidc_discovery_url !== 'string') throw new AppError('oidc_discovery_url must be a string', 400);
+        const discovery = await discoverOidc(input.oidc_discovery_url.trim());
+        data.oidc_discovery_url = input.oidc_discovery_url.trim();
+        data.oidc_issuer = discovery.issuer;
+        data.oidc_authorization_endpoint = discovery.authorization_endpoint;
+        data.oidc_token_endpoint = discovery.token_endpoint;
+        data.oidc_jwks_uri = discovery.jwks_uri;
+    }
+    if (input.oidc_client_id !== undefined) {
+        if (typeof input.oidc_client_id !== 'string' || !input.oidc_client_id.trim()) {
+            throw new AppError('oidc_client_id must be a non-empty string', 400);
+        }
+        data.oidc_client_id = input.oidc_client_id.trim();
+    }
+    if (input.oidc_client_secret !== undefined) {
+        if (typeof input.oidc_client_secret !== 'string' || !input.oidc_client_secret) {
+            throw new AppError('oidc_client_secret must be a non-empty string', 400);
+        }
+        data.oidc_client_secret = encrypt(input.oidc_client_secret);
+    }
+
+    if (input.default_organization_id !== undefined) {
+        const orgId = input.default_organization_id;
+        if (typeof orgId !== 'string') throw new AppError('default_organization_id must be a workspace id', 400);
+        const org = await prisma.organization.findFirst({ where: { id: orgId, account_id: accountId }, select: { id: true } });
+        if (!org) throw new AppError('default_organization_id is not a workspace of this account', 400);
+        data.default_organization_id = orgId;
+    }
+    if (input.default_capabilities !== undefined) {
+        data.default_capabilities = validateCapabilities(input.default_capabilities, 'default_capabilities');
+    }
+    if (input.group_mappings !== undefined) {
+        data.group_mappings = parseGroupMappings(input.group_mappings) as any;
+    }
+    if (input.groups_attribute !== undefined) {
+        if (typeof input.groups_attribute !== 'string' || !input.groups_attribute.trim()) {
+            throw new AppError('groups_attribute must be a non-empty string', 400);
+        }
+        data.groups_attribute = input.groups_attribute.trim();
+    }
+    for (const flag of ['enabled', 'enforce_sso'] as const) {
+        if (input[flag] === undefined) continue;
+        if (typeof input[flag] !== 'boolean') throw new AppError(`${flag} must be a boolean`, 400);
+        data[flag] = input[flag];
+    }
+
+    const merged = { ...existing, ...data } as Record<string, any>;
+    if (merged.enabled) {
+        const missing = protocol === 'saml'
+            ? ['saml_idp_entity_id', 'saml_sso_url'].filter(f => !merged[f]).concat(merged.saml_certificates?.length ? [] : ['saml_certificates'])
+            : ['oidc_issuer', 'oidc_client_id', 'oidc_client_secret', 'oidc_token_endpoint', 'oidc_jwks_uri'].filter(f => !merged[f]);
+        if (!merged.default_organization_id) missing.push('default_organization_id');
+        if (missing.length) throw new AppError(`Cannot enable SSO until configured: ${missing.join(', ')}`, 400);
+    }
+
+    const saved = existing
+        ? await prisma.ssoConnection.update({ where: { id: existing.id }, data: data as any })
+        : await prisma.ssoConnection.create({ data: { ...(data as any), account_id: accountId } });
+    return toView((await findConnection({ id: saved.id }))!);
+}
+
+// ─── Domains ────────────────────────────────────────────────────────────────
+
+async function connectionForAccount(accountId: string): Promise<Connection> {
+    const connection = await findConnection({ account_id: accountId });
+    if (!connection) throw new AppError('Configure SSO first', 404);
+    return connection;
+}
+
+export async function addDomain(accountId: string, rawDomain: unknown) {
+    const connection = await connectionForAccount(accountId);
+    const domain = typeof rawDomain === 'string' ? normalizeDomain(rawDomain) : null;
+    if (!domain) throw new AppError('domain must be a valid domain name', 400);
+    if (isFreeEmailDomain(`user@${domain}`)) throw new AppError('Free and personal email domains cannot use SSO', 400);
+    if (connection.domains.some(d => d.domain === domain)) throw new AppError('Domain already added', 409);
+
+    await prisma.ssoDomain.create({
+        data: { connection_id: connection.id, domain, verification_token: crypto.randomBytes(16).toString('hex') },
+    });
+    return toView((await findConnection({ id: connection.id }))!);
+}
+
+/**
+ * Look for the TXT record on the domain. A domain another Account has
+ * already verified can't be claimed.
+ */
+export async function verifyDomain(accountId: string, domainId: string) {
+    const connection = await connectionForAccount(accountId);
+    const domain = connection.domains.find(d => d.id === domainId);
+    if (!domain) throw new AppError('Domain not found', 404);
+
+    if (!domain.verified_at) {
+        const claimed = await prisma.ssoDomain.findFirst({
+            where: { domain: domain.domain, verified_at: { not: null }, connection_id: { not: connection.id } },
+            select: { id: true },
+        });
+        if (claimed) throw new AppError('This domain is already verified by another account', 409);
+
+        let records: string[][] = [];
+        try {
+            records = await dns.promises.resolveTxt(domain.domain);
+        } catch (err) {
+            logger.warn('[SSO] TXT lookup failed', { domain: domain.domain, error: err instanceof Error ? err.message : String(err) });
+        }
+        const expected = `${DOMAIN_VERIFICATION_PREFIX}${domain.verification_token}`;
+        if (!records.some(chunks => chunks.join('').trim() === expected)) {
+            throw new AppError(`TXT record ${expected} not found on ${domain.domain}`, 400);
+        }
+        await prisma.ssoDomain.update({ where: { id: domain.id }, data: { verified_at: new Date() } });
+    }
+    return { domain: domain.domain, view: toView((await findConnection({ id: connection.id }))!) };
+}
+
+export async function removeDomain(accountId: string, domainId: string) {
+    const connection = await connectionForAccount(accountId);
+    const removed = await prisma.ssoDomain.deleteMany({ where: { id: domainId, connection_id: connection.id } });
+    if (removed.count === 0) throw new AppError('Domain not found', 404);
+    return toView((await findConnection({ id: connection.id }))!);
+}
+
+// ─── Sign-in ────────────────────────────────────────────────────────────────
+
+/** The enabled connection owning the email's verified domain, if any. */
+async function connectionForEmail(email: string) {
+    const domain = emailDomain(email);
+    if (!domain) return null;
+    const match = await prisma.ssoDomain.findFirst({
+        where: { domain, verified_at: { not: null }, connection: { enabled: true } },
+        select: { connection: { select: { id: true, protocol: true, enforce_sso: true } } },
+    });
+    return match?.connection ?? null;
+}
+
+export async function discover(email: string): Promise<{ connection_id: string; protocol: string; start_url: string; enforced: boolean } | null> {
+    const connection = await connectionForEmail(email);
+    if (!connection) return null;
+    return {
+        connection_id: connection.id,
+        protocol: connection.protocol,
+        start_url: startUrl(connection.id),
+        enforced: connection.enforce_sso,
+    };
+}
+
+/** Start URL when password login is disabled for this email, else null. */
+export async function enforcedSsoStartUrl(email: string): Promise<string | null> {
+    const connection = await connectionForEmail(email);
+    return connection?.enforce_sso ? startUrl(connection.id) : null;
+}
+
+export interface SsoLoginBlock {
+    success: false;
+    code: 'sso_required';
+    sso_url: string;
+    error: string;
+}
+
+/**
+ * The single enforced-SSO check for every sign-in that doesn't go through
+ * the IdP - password, client password, Google, email verification. Returns
+ * the sso_required rejection when the email's domain enforces SSO, else
+ * null. Call it before issuing a session or a 2FA challenge (and, for the
+ * password paths, only after a correct password so it doesn't leak which
+ * addresses exist). The agency owner keeps non-SSO sign-in as a break-glass
+ * for a misconfigured IdP.
+ */
+export async function ssoLoginBlock(user: { email: string; is_agency_owner?: boolean }): Promise<SsoLoginBlock | null> {
+    if (user.is_agency_owner) return null;
+    const url = await enforcedSsoStartUrl(user.email);
+    return url
+        ? { success: false, code: 'sso_required', sso_url: url, error: 'Your organization requires signing in with single sign-on.' }
+        : null;
+}
+
+async function enabledConnection(connectionId: string): Promise<Connection> {
+    const connection = await findConnection({ id: connectionId });
+    if (!connection || !connection.enabled) throw new AppError('SSO is not enabled for this connection', 404);
+    return connection;
+}
+
+/** The IdP URL to send the browser to. */
+export async function beginLogin(connectionId: string): Promise<string> {
+    const connection = await enabledConnection(connectionId);
+
+    if (connection.protocol === 'saml') {
+        const requestId = samlService.newRequestId();
+        const state = await createState({ purpose: 'sso_login', metadata: { connectionId, requestId } });
+        const request = samlService.buildAuthnRequest({
+            id: requestId,
+            spEntityId: spEntityId(connectionId),
+            acsUrl: acsUrl(connectionId),
+            destination: connection.saml_sso_url!,
+        });
+        return samlService.redirectBindingUrl(connection.saml_sso_url!, request, state);
+    }
+
+    const nonce = base64url(crypto.randomBytes(24));
+    const codeVerifier = base64url(crypto.randomBytes(32));
+    const state = await createState({ purpose: 'sso_login', metadata: { connectionId, nonce, codeVerifier } });
+    const url = new URL(connection.oidc_authorization_endpoint!);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', connection.oidc_client_id!);
+    url.searchParams.set('redirect_uri', oidcRedirectUri(connectionId));
+    url.searchParams.set('scope', OIDC_SCOPES);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', base64url(crypto.createHash('sha256').update(codeVerifier).digest()));
+    url.searchParams.set('code_challenge_method', 'S256');
+    return url.toString();
+}
+
+async function consumeLoginState(connectionId: string, state: unknown): Promise<Record<string, any>> {
+    const consumed = typeof state === 'string' ? await consumeState(state, 'sso_login') : null;
+    if (!consumed || consumed.metadata.connectionId !== connectionId) {
+        throw new AppError('SSO sign-in expired or was not started here', 400);
+    }
+    return consumed.metadata;
+}
+
+export async function completeSamlLogin(connectionId: string, samlResponse: unknown, relayState: unknown): Promise<{ connection: Connection; identity: SsoIdentity }> {
+    const connection = await enabledConnection(connectionId);
+    if (connection.protocol !== 'saml') throw new AppError('Not a SAML connection', 400);
+    if (typeof samlResponse !== 'string' || !samlResponse) throw new AppError('SAMLResponse is required', 400);
+    const { requestId } = await consumeLoginState(connectionId, relayState);
+
+    let assertion: samlService.SamlIdentity;
+    try {
+        assertion = await samlService.validateResponse(samlResponse, {
+            idpEntityId: connection.saml_idp_entity_id!,
+            certificates: connection.saml_certificates,
+            spEntityId: spEntityId(connectionId),
+            acsUrl: acsUrl(connectionId),
+            requestId,
+            groupsAttribute: connection.groups_attribute,
+        });
+    } catch (err) {
+        if (err instanceof samlService.SamlError) throw new AppError(`SAML response rejected: ${err.message}`, 401);
+        throw err;
+    }
+    if (!assertion.email) throw new AppError('The IdP did not send an email address', 401);
+    return { connection, identity: { email: assertion.email, name: assertion.name, groups: assertion.groups } };
+}
+
+async function fetchJwk(jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> {
+    const result = await safeFetch(jwksUri, { method: 'GET', headers: { Accept: 'application/json' }, maxBytes: DISCOVERY_MAX_BYTES });
+    if (!result.ok || result.status !== 200) throw new AppError('Could not fetch the IdP signing keys', 502);
+    const keys: Array<Record<string, unknown>> = (() => {
+        try {
+            return JSON.parse(result.body).keys ?? [];
+        } catch {
+            return [];
+        }
+    })();
+    const signingKeys = keys.filter(k => k.use === undefined || k.use === 'sig');
+    const jwk = kid ? signingKeys.find(k => k.kid === kid) : signingKeys.length === 1 ? signingKeys[0] : undefined;
+    if (!jwk) throw new AppError('The id_token was signed with an unknown key', 401);
+    return crypto.createPublicKey({ key: jwk as any, format: 'jwk' });
+}
+
+export async function completeOidcLogin(connectionId: string, code: unknown, state: unknown): Promise<{ connection: Connection; identity: SsoIdentity }> {
+    const connection = await enabledConnection(connectionId);
+    if (connection.protocol !== 'oidc') throw new AppError('Not an OIDC connection', 400);
+    if (typeof code !== 'string' || !code) throw new AppError('Authorization code is required', 400);
+    const { nonce, codeVerifier } = await consumeLoginState(connectionId, state);
+
+    const tokenResult = await safeFetch(connection.oidc_token_endpoint!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+        body: new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: oidcRedirectUri(connectionId),
+            client_id: connection.oidc_client_id!,
+            client_secret: decrypt(connection.oidc_client_secret!),
+            code_verifier: codeVerifier,
+        }).toString(),
+    });
+    if (!tokenResult.ok || tokenResult.status !== 200) {
+        throw new AppError(`Token exchange with the IdP failed (${tokenResult.ok ? `HTTP ${tokenResult.status}` : tokenResult.reason})`, 401);
+    }
+    let idToken: unknown;
+    try {
+        idToken = JSON.parse(tokenResult.body).id_token;
+    } catch {
+        idToken = undefined;
+    }
+    if (typeof idToken !== 'string') throw new AppError('The IdP did not return an id_token', 401);
+
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded) throw new AppError('Malformed id_token', 401);
+    const key = await fetchJwk(connection.oidc_jwks_uri!, decoded.header.kid);
+
+    let claims: jwt.JwtPayload;
+    try {
+        claims = jwt.verify(idToken, key, {
+            algorithms: ID_TOKEN_ALGORITHMS,
+            issuer: connection.oidc_issuer!,
+            audience: connection.oidc_client_id!,
+        }) as jwt.JwtPayload;
+    } catch (err) {
+        throw new AppError(`id_token rejected: ${err instanceof Error ? err.message : String(err)}`, 401);
+    }
+    if (claims.nonce !== nonce) throw new AppError('id_token nonce mismatch', 401);
+    if (typeof claims.email !== 'string' || !claims.email.includes('@')) {
+        throw new AppError('The IdP did not send an email address', 401);
+    }
+    if (claims.email_verified === false) throw new AppError('The IdP reports this email as unverified', 401);
+
+    return {
+        connection,
+        identity: {
+            email: claims.email.trim().toLowerCase(),
+            name: typeof claims.name === 'string' ? claims.name : null,
+            groups: asStringArray(claims[connection.groups_attribute]),
+        },
+    };
+}
+
+const USER_SELECT = {
+    id: true,
+    email: true,
+    name: true,
+    role: true,
+    organization_id: true,
+    account_id: true,
+    is_agency_owner: true,
+    scoped_organization_id: true,
+    totp_enabled_at: true,
+} as const;
+
+/**
+ * Resolve (or just-in-time create) the user an SSO identity signs in as.
+ * `created` is true when a new User + WorkspaceMembership was provisioned.
+ */
+export async function provisionUser(connection: Connection, identity: SsoIdentity): Promise<{ user: SsoUser; created: boolean }> {
+    const domain = emailDomain(identity.email);
+    if (!domain || !connection.domains.some(d => d.domain === domain && d.verified_at)) {
+        throw new AppError(`${domain ?? 'This email domain'} is not a verified domain for this SSO connection`, 403);
+    }
+
+    const agencyUser = await prisma.user.findFirst({
+        where: { email: identity.email, scoped_organization_id: null },
+        select: USER_SELECT,
+    });
+    if (agencyUser) {
+        if (agencyUser.account_id !== connection.account_id) {
+            throw new AppError('This email belongs to a different Superkabe account', 403);
+        }
+        return { user: agencyUser, created: false };
+    }
+
+    const orgId = connection.default_organization_id;
+    if (!orgId) throw new AppError('SSO has no default workspace configured', 400);
+    const capabilities = mapGroupsToCapabilities(
+        identity.groups,
+        parseGroupMappings(connection.group_mappings ?? []),
+        connection.default_capabilities,
+    );
+
+    const existing = await prisma.user.findFirst({
+        where: { email: identity.email, scoped_organization_id: orgId },
+        select: { ...USER_SELECT, workspaceMemberships: { where: { organization_id: orgId }, select: { id: true, status: true, scim_managed: true } } },
+    });
+    if (existing) {
+        const membership = existing.workspaceMemberships[0];
+        if (membership?.status === 'disabled') throw new AppError('Your access to this workspace has been disabled', 403);
+        // SCIM group membership owns capabilities once the IdP provisions the user.
+        if (!membership?.scim_managed) await prisma.workspaceMembership.upsert({
+            where: { organization_id_user_id: { organization_id: orgId, user_id: existing.id } },
+            create: { organization_id: orgId, user_id: existing.id, capabilities, status: 'active' },
+            // Group mappings replace any custom role, or the role would keep overriding them.
+            update: { capabilities, status: 'active', role_id: null },
+        });
+        if (!existing.name && identity.name) {
+            await prisma.user.update({ where: { id: existing.id }, data: { name: identity.name } });
+        }
+        const { workspaceMemberships: _memberships, ...user } = existing;
+        return { user, created: false };
+    }
+
+    const user = await prisma.$transaction(async (tx) => {
+        const created = await tx.user.create({
+            data: {
+                email: identity.email,
+                name: identity.name,
+                password_hash: null, // SSO-only
+                role: 'viewer',
+                organization_id: orgId,
+                account_id: null,
+                is_agency_owner: false,
+                scoped_organization_id: orgId,
+                email_verified: true, // asserted by the IdP for a verified domain
+            },
+            select: USER_SELECT,
+        });
+        await tx.workspaceMembership.create({
+            data: { organization_id: orgId, user_id: created.id, capabilities, status: 'active' },
+        });
+        return created;
+    });
+    logger.info('[SSO] Provisioned user', { userId: user.id, orgId, connectionId: connection.id, capabilities });
+    return { user, created: true };
+}
@@ -0,0 +1,539 @@
+/**
+ * Suppression Service
+ *
+ * The org-wide do-not-contact list. Every path that can put an address in
+ * front of a mailbox - ingestion (processLead), campaign lead intake,
+ * sequencerEnrollmentService and the dispatcher - asks findSuppressed() /
+ * isSuppressed() and nothing else, so "suppressed" means the same thing
+ * everywhere.
+ *
+ * Entry types (SuppressionEntry.type):
+ *   'email'   - exact address.
+ *   'domain'  - the domain and all of its subdomains.
+ *   'pattern' - `*` / `?` glob over the whole address ("*@competitor.com").
+ *
+ * Writers: operators (API / CSV import), reply actions, the unsubscribe
+ * link, ARF complaints and the CRM opt-out sync. Lead.status
+ * 'unsubscribed' / 'bounced' is still honoured by the check for rows that
+ * predate the list. Entries past expires_at stop suppressing but are kept.
+ *
+ * Every add, update and remove is written to the audit log under entity
+ * 'suppression' with entity_id "<type>:<value>".
+ */
+
+import { parse } from 'csv-parse/sync';
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+import * as auditLogService from './auditLogService';
+import { AppError } from '../utils/appError';
+import { escapeCsvField } from '../utils/csv';
+
+export type SuppressionType = 'email' | 'domain' | 'pattern';
+export type SuppressionSource = 'manual' | 'csv_import' | 'reply_action' | 'unsubscribe' | 'complaint' | 'crm';
+
+const SUPPRESSION_TYPES: SuppressionType[] = ['email', 'domain', 'pattern'];
+
+/** Lead statuses that suppress on their own (legacy rows without a list entry). */
+const SUPPRESSING_LEAD_STATUSES = ['unsubscribed', 'bounced'];
+
+const MAX_IMPORT_ROWS = 50_000;
+const LOOKUP_CHUNK = 1000;
+const MAX_PATTERN_WILDCARDS = 3;
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DOMAIN_RE = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z0-9-]{2,63}$/;
+const PATTERN_CHARS_RE = /^[a-z0-9._%+\-@*?]+$/;
+
+// ────────────────────────────────────────────────────────────────────
+// Normalization + matching (pure)
+// ────────────────────────────────────────────────────────────────────
+
+export function normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+/**
+ * Parse one operator-supplied value into a typed entry. Without an explicit
+ * type: wildcards make a pattern, an @ makes an email, anything else is a
+ * domain ("@competitor.com" is read as the domain).
+ */
+export function parseSuppressionValue(raw: string, type?: string | null): { type: SuppressionType; value: string } | { error: string } {
+    let value = String(raw ?? '').trim().toLowerCase();
+    if (!value) return { error: 'Empty value' };
+
+    let resolved: SuppressionType;
+    if (type) {
+        if (!SUPPRESSION_TYPES.includes(type as SuppressionType)) return { error: `Unknown type "${type}"` };
+        resolved = type as SuppressionType;
+    } else if (/[*?]/.test(value)) {
+        resolved = 'pattern';
+    } else if (value.includes('@') && !value.startsWith('@')) {
+        resolved = 'email';
+    } else {
+        resolved = 'domain';
+    }
+
+    if (resolved === 'email') {
+        if (!EMAIL_RE.test(value)) return { error: `"${value}" is not a valid email address` };
+    } else if (resolved === 'domain') {
+        value = value.replace(/^@/, '').replace(/\.$/, '');
+        if (!DOMAIN_RE.test(value)) return { error: `"${value}" is not a valid domain` };
+    } else {
+        value = value.replace(/\*+/g, '*');
+        if (!PATTERN_CHARS_RE.test(value) || value.split('@').length !== 2) {
+            return { error: `"${value}" is not a valid pattern - use one @ with * or ? wildcards, e.g. *@competitor.com` };
+        }
+        // "*@*" and friends would suppress the whole org.
+        if (value.replace(/[*?@]/g, '').length < 2) return { error: `"${value}" matches almost every address` };
+        if ((value.match(/\*/g) || []).length > MAX_PATTERN_WILDCARDS) {
+            return { error: `"${value}" has too many * wildcards (max ${MAX_PATTERN_WILDCARDS})` };
+        }
+    }
+    return { type: resolved, value };
+}
+
+/**
+ * Glob match over the whole address: `*` = any run, `?` = one character.
+ * Greedy two-pointer that backtracks only to the last `*`, so the worst
+ * case is pattern x address steps. A `.*`-per-star regex backtracks
+ * exponentially on patterns like "*a*a*a*...@x.com", and this runs for
+ * every lead in the dispatcher.
+ */
+function globMatch(pattern: string, text: string): boolean {
+    let p = 0;
+    let t = 0;
+    let star = -1;
+    let mark = 0;
+    while (t < text.length) {
+        if (p < pattern.length && (pattern[p] === '?' || pattern[p] === text[t])) {
+            p++;
+            t++;
+        } else if (p < pattern.length && pattern[p] === '*') {
+            star = p++;
+            mark = t;
+        } else if (star !== -1) {
+            p = star + 1;
+            t = ++mark;
+        } else {
+            return false;
+        }
+    }
+    while (p < pattern.length && pattern[p] === '*') p++;
+    return p === pattern.length;
+}
+
+export function matchesPattern(pattern: string, email: string): boolean {
+    return globMatch(pattern, normalizeEmail(email));
+}
+
+/** The address's domain and each parent domain down to two labels. */
+export function domainCandidates(email: string): string[] {
+    const domain = normalizeEmail(email).split('@')[1];
+    if (!domain) return [];
+    const labels = domain.split('.');
+    const out: string[] = [];
+    for (let i = 0; i <= labels.length - 2; i++) out.push(labels.slice(i).join('.'));
+    return out;
+}
+
+export interface MatchableEntry {
+    id: string;
+    type: string;
+    value: string;
+    reason: string | null;
+    source: string;
+    expires_at: Date | null;
+}
+
+const TYPE_PRECEDENCE: Record<string, number> = { email: 0, domain: 1, pattern: 2 };
+
+/**
+ * Map each suppressed address to the entry that suppresses it. An exact
+ * email entry wins over a domain, a domain over a pattern, so the UI shows
+ * the most specific reason. Expired entries never match.
+ */
+export function matchSuppressions(emails: string[], entries: MatchableEntry[], now: Date = new Date()): Map<string, MatchableEntry> {
+    const live = entries
+        .filter(e => !e.expires_at || e.expires_at > now)
+        .sort((a, b) => (TYPE_PRECEDENCE[a.type] ?? 9) - (TYPE_PRECEDENCE[b.type] ?? 9));
+    const byEmail = new Map<string, MatchableEntry>();
+    const byDomain = new Map<string, MatchableEntry>();
+    const patterns: MatchableEntry[] = [];
+    for (const e of live) {
+        if (e.type === 'email') byEmail.set(e.value, e);
+        else if (e.type === 'domain') byDomain.set(e.value, e);
+        else if (e.type === 'pattern') patterns.push(e);
+    }
+
+    const hits = new Map<string, MatchableEntry>();
+    for (const raw of emails) {
+        const email = normalizeEmail(raw);
+        if (!email || hits.has(email)) continue;
+        const hit = byEmail.get(email)
+            ?? domainCandidates(email).map(d => byDomain.get(d)).find(Boolean)
+            ?? patterns.find(p => globMatch(p.value, email));
+        if (hit) hits.set(email, hit);
+    }
+    return hits;
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Check
+// ────────────────────────────────────────────────────────────────────
+
+export interface SuppressionHit {
+    email: string;
+    /** 'list' = a SuppressionEntry; 'lead_status' = Lead.status alone. */
+    kind: 'list' | 'lead_status';
+    entryId: string | null;
+    type: string | null;
+    value: string | null;
+    reason: string | null;
+    source: string;
+    expiresAt: Date | null;
+}
+
+const ENTRY_SELECT = { id: true, type: true, value: true, reason: true, source: true, expires_at: true } as const;
+
+/**
+ * Which of these addresses may not be contacted by this org, keyed by the
+ * lowercased address. The one check every send and intake path uses.
+ */
+export async function findSuppressed(organizationId: string, emails: string[]): Promise<Map<string, SuppressionHit>> {
+    const unique = Array.from(new Set(emails.map(normalizeEmail).filter(Boolean)));
+    const hits = new Map<string, SuppressionHit>();
+    if (unique.length === 0) return hits;
+    const now = new Date();
+
+    const patterns = await prisma.suppressionEntry.findMany({
+        where: { organization_id: organizationId, type: 'pattern', OR: [{ expires_at: null }, { expires_at: { gt: now } }] },
+        select: ENTRY_SELECT,
+    });
+
+    for (let i = 0; i < unique.length; i += LOOKUP_CHUNK) {
+        const chunk = unique.slice(i, i + LOOKUP_CHUNK);
+        const domains = Array.from(new Set(chunk.flatMap(domainCandidates)));
+        const [entries, leads] = await Promise.all([
+            prisma.suppressionEntry.findMany({
+                where: {
+                    organization_id: organizationId,
+                    AND: [
+                        { OR: [{ type: 'email', value: { in: chunk } }, { type: 'domain', value: { in: domains } }] },
+                        { OR: [{ expires_at: null }, { expires_at: { gt: now } }] },
+                    ],
+                },
+                select: ENTRY_SELECT,
+            }),
+            prisma.lead.findMany({
+                where: { organization_id: organizationId, email: { in: chunk }, status: { in: SUPPRESSING_LEAD_STATUSES } },
+                select: { email: true, status: true, unsubscribed_reason: true },
+            }),
+        ]);
+
+        for (const [email, entry] of matchSuppressions(chunk, [...entries, ...patterns], now)) {
+            hits.set(email, {
+                email, kind: 'list', entryId: entry.id, type: entry.type, value: entry.value,
+                reason: entry.reason, source: entry.source, expiresAt: entry.expires_at,
+            });
+        }
+        for (const lead of leads) {
+            const email = normalizeEmail(lead.email);
+            if (hits.has(email)) continue;
+            hits.set(email, {
+                email, kind: 'lead_status', entryId: null, type: null, value: null,
+                reason: lead.unsubscribed_reason || lead.status, source: 'lead_status', expiresAt: null,
+            });
+        }
+    }
+    return hits;
+}
+
+export async function isSuppressed(organizationId: string, email: string): Promise<SuppressionHit | null> {
+    const hits = await findSuppressed(organizationId, [email]);
+    return hits.get(normalizeEmail(email)) ?? null;
+}
+
+/** Short human description of a hit for logs, errors and API responses. */
+export function describeHit(hit: SuppressionHit): string {
+    if (hit.kind === 'lead_status') return `lead ${hit.reason}`;
+    const what = hit.type === 'email' ? 'address' : `${hit.type} ${hit.value}`;
+    return `${what} on suppression list${hit.reason ? ` (${hit.reason})` : ''}`;
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Writes
+// ────────────────────────────────────────────────────────────────────
+
+export interface SuppressionWriteContext {
+    source: SuppressionSource;
+    userId?: string | null;
+    sourceThreadId?: string | null;
+}
+
+function auditEntry(organizationId: string, entry: { type: string; value: string; reason?: string | null; expires_at?: Date | null }, action: 'added' | 'updated' | 'removed', ctx: { source: string; userId?: string | null }) {
+    const parts = [`${entry.type} ${entry.value}`];
+    if (entry.reason) parts.push(`reason: ${entry.reason}`);
+    if (entry.expires_at) parts.push(`expires ${entry.expires_at.toISOString()}`);
+    return {
+        organizationId,
+        entity: 'suppression',
+        entityId: `${entry.type}:${entry.value}`,
+        trigger: ctx.source,
+        action,
+        details: `Suppression ${action} (${ctx.source}): ${parts.join(', ')}`,
+        userId: ctx.userId ?? undefined,
+    };
+}
+
+/**
+ * Add or refresh one entry. Automatic writers (unsubscribe, complaint,
+ * reply action, CRM) call this with no expiry, which also makes an
+ * existing temporary entry permanent.
+ */
+export async function suppress(organizationId: string, input: {
+    value: string;
+    type?: string | null;
+    reason?: string | null;
+    expiresAt?: Date | null;
+}, ctx: SuppressionWriteContext) {
+    const parsed = parseSuppressionValue(input.value, input.type);
+    if ('error' in parsed) throw new AppError(parsed.error, 400);
+
+    const key = { organization_id_type_value: { organization_id: organizationId, type: parsed.type, value: parsed.value } };
+    const existing = await prisma.suppressionEntry.findUnique({ where: key, select: { id: true } });
+    const data = {
+        reason: input.reason ?? null,
+        source: ctx.source,
+        expires_at: input.expiresAt ?? null,
+        source_thread_id: ctx.sourceThreadId ?? null,
+    };
+    const entry = await prisma.suppressionEntry.upsert({
+        where: key,
+        create: { organization_id: organizationId, type: parsed.type, value: parsed.value, created_by: ctx.userId ?? null, ...data },
+        update: data,
+    });
+    await auditLogService.logAction(auditEntry(organizationId, entry, existing ? 'updated' : 'added', ctx));
+    return entry;
+}
+
+export interface BulkEntryInput {
+    value: string;
+    type?: string | null;
+    reason?: string | null;
+    expiresAt?: Date | null;
+    /** Row / index reported back on validation failure. */
+    line?: number;
+}
+
+export interface BulkAddResult {
+    added: number;
+    updated: number;
+    unchanged: number;
+    invalid: Array<{ line: number; value: string; error: string }>;
+}
+
+/**
+ * Add many entries (CSV import, multi-add). New entries go in with one
+ * createMany; existing ones are only touched when reason or expiry changed.
+ */
+export async function addEntries(organizationId: string, inputs: BulkEntryInput[], ctx: SuppressionWriteContext): Promise<BulkAddResult> {
+    const result: BulkAddResult = { added: 0, updated: 0, unchanged: 0, invalid: [] };
+    const wanted = new Map<string, { type: SuppressionType; value: string; reason: string | null; expires_at: Date | null }>();
+    inputs.forEach((input, i) => {
+        const parsed = parseSuppressionValue(input.value, input.type);
+        if ('error' in parsed) {
+            result.invalid.push({ line: input.line ?? i + 1, value: String(input.value ?? ''), error: parsed.error });
+            return;
+        }
+        wanted.set(`${parsed.type}:${parsed.value}`, { ...parsed, reason: input.reason ?? null, expires_at: input.expiresAt ?? null });
+    });
+    if (wanted.size === 0) return result;
+
+    const rows = Array.from(wanted.values());
+    const existing = new Map<string, { id: string; reason: string | null; expires_at: Date | null }>();
+    for (let i = 0; i < rows.length; i += LOOKUP_CHUNK) {
+        const chunk = rows.slice(i, i + LOOKUP_CHUNK);
+        const found = await prisma.suppressionEntry.findMany({
+            where: { organization_id: organizationId, OR: chunk.map(r => ({ type: r.type, value: r.value })) },
+            select: { id: true, type: true, value: true, reason: true, expires_at: true },
+        });
+        for (const f of found) existing.set(`${f.type}:${f.value}`, f);
+    }
+
+    const toCreate = rows.filter(r => !existing.has(`${r.type}:${r.value}`));
+    const toUpdate = rows.filter(r => {
+        const prev = existing.get(`${r.type}:${r.value}`);
+        return prev && (prev.reason !== r.reason || (prev.expires_at?.getTime() ?? null) !== (r.expires_at?.getTime() ?? null));
+    });
+
+    if (toCreate.length > 0) {
+        const created = await prisma.suppressionEntry.createMany({
+            data: toCreate.map(r => ({
+                organization_id: organizationId,
+                type: r.type,
+                value: r.value,
+                reason: r.reason,
+                source: ctx.source,
+                expires_at: r.expires_at,
+                created_by: ctx.userId ?? null,
+            })),
+            skipDuplicates: true,
+        });
+        result.added = created.count;
+    }
+    for (const r of toUpdate) {
+        await prisma.suppressionEntry.update({
+            where: { id: existing.get(`${r.type}:${r.value}`)!.id },
+            data: { reason: r.reason, expires_at: r.expires_at, source: ctx.source },
+        });
+    }
+    result.updated = toUpdate.length;
+    result.unchanged = rows.length - toCreate.length - toUpdate.length;
+
+    await auditLogService.logActions([
+        ...toCreate.map(r => auditEntry(organizationId, r, 'added', ctx)),
+        ...toUpdate.map(r => auditEntry(organizationId, r, 'updated', ctx)),
+    ]);
+    logger.info('[SUPPRESSION] Bulk add', { organizationId, source: ctx.source, ...result, invalid: result.invalid.length });
+    return result;
+}
+
+export async function removeEntries(organizationId: string, ids: string[], ctx: { userId?: string | null }): Promise<number> {
+    if (ids.length === 0) return 0;
+    const entries = await prisma.suppressionEntry.findMany({
+        where: { organization_id: organizationId, id: { in: ids } },
+        select: { id: true, type: true, value: true, reason: true, expires_at: true },
+    });
+    if (entries.length === 0) return 0;
+    await prisma.suppressionEntry.deleteMany({ where: { organization_id: organizationId, id: { in: entries.map(e => e.id) } } });
+    await auditLogService.logActions(entries.map(e => auditEntry(organizationId, e, 'removed', { source: 'manual', userId: ctx.userId })));
+    return entries.length;
+}
+
+// ────────────────────────────────────────────────────────────────────
+// Listing, CSV
+// ────────────────────────────────────────────────────────────────────
+
+export async function listEntries(organizationId: string, opts: {
+    type?: string;
+    source?: string;
+    q?: string;
+    includeExpired?: boolean;
+    limit?: number;
+    offset?: number;
+}) {
+    const now = new Date();
+    const where = {
+        organization_id: organizationId,
+        ...(opts.type ? { type: opts.type } : {}),
+        ...(opts.source ? { source: opts.source } : {}),
+        ...(opts.q ? { value: { contains: opts.q.trim().toLowerCase() } } : {}),
+        ...(opts.includeExpired ? {} : { OR: [{ expires_at: null }, { expires_at: { gt: now } }] }),
+    };
+    const [entries, total] = await Promise.all([
+        prisma.suppressionEntry.findMany({
+            where,
+            orderBy: { created_at: 'desc' },
+            take: Math.min(Math.max(opts.limit ?? 100, 1), 500),
+            skip: Math.max(opts.offset ?? 0, 0),
+        }),
+        prisma.suppressionEntry.count({ where }),
+    ]);
+    return { entries, total };
+}
+
+const VALUE_COLUMNS = ['value', 'entry', 'email', 'domain', 'pattern', 'email address'];
+
+export interface ParsedCsvRow {
+    line: number;
+    value: string;
+    type: string | null;
+    reason: string | null;
+    expiresAt: Date | null;
+}
+
+/**
+ * Read a suppression CSV. With a header row, the value comes from a
+ * value / email / domain / pattern column (the column name sets the type
+ * unless a `type` column does) and optional `reason` and `expires_at`
+ * columns are honoured. Without one, the first column is the value.
+ */
+export function parseSuppressionCsv(text: string): { rows: ParsedCsvRow[]; invalid: Array<{ line: number; value: string; error: string }> } {
+    const records: string[][] = parse(text, { bom: true, relax_column_count: true, skip_empty_lines: true, trim: true });
+    const rows: ParsedCsvRow[] = [];
+    const invalid: Array<{ line: number; value: string; error: string }> = [];
+    if (records.length === 0) return { rows, invalid };
+
+    const header = records[0].map(h => h.toLowerCase());
+    const valueIdx = header.findIndex(h => VALUE_COLUMNS.includes(h));
+    const hasHeader = valueIdx !== -1;
+    const typeIdx = hasHeader ? header.indexOf('type') : -1;
+    const reasonIdx = hasHeader ? header.indexOf('reason') : -1;
+    const expiresIdx = hasHeader ? header.findIndex(h => h === 'expires_at' || h === 'expires' || h === 'expiry') : -1;
+    const columnType = hasHeader && ['email', 'domain', 'pattern'].includes(header[valueIdx]) ? header[valueIdx] : null;
+
+    records.slice(hasHeader ? 1 : 0).forEach((record, i) => {
+        const line = i + (hasHeader ? 2 : 1);
+        const value = record[hasHeader ? valueIdx : 0] || '';
+        if (!value) return;
+        let expiresAt: Date | null = null;
+        const rawExpiry = expiresIdx !== -1 ? record[expiresIdx] : '';
+        if (rawExpiry) {
+            expiresAt = new Date(rawExpiry);
+            if (Number.isNaN(expiresAt.getTime())) {
+                invalid.push({ line, value, error: `Unreadable expires_at "${rawExpiry}"` });
+                return;
+            }
+        }
+        rows.push({
+            line,
+            value,
+            type: (typeIdx !== -1 && record[typeIdx]) ? record[typeIdx].toLowerCase() : columnType,
+            reason: (reasonIdx !== -1 && record[reasonIdx]) || null,
+            expiresAt,
+        });
+    });
+    return { rows, invalid };
+}
+
+export async function importCsv(organizationId: string, text: string, opts: {
+    userId?: string | null;
+    reason?: string | null;
+    expiresAt?: Date | null;
+}): Promise<BulkAddResult> {
+    let parsed: ReturnType<typeof parseSuppressionCsv>;
+    try {
+        parsed = parseSuppressionCsv(text);
+    } catch (err) {
+        throw new AppError(`Could not read CSV: ${(err as Error).message}`, 400);
+    }
+    if (parsed.rows.length + parsed.invalid.length === 0) throw new AppError('The CSV has no entries', 400);
+    if (parsed.rows.length > MAX_IMPORT_ROWS) {
+        throw new AppError(`Max ${MAX_IMPORT_ROWS} entries per import. Split the file.`, 400);
+    }
+    const result = await addEntries(organizationId, parsed.rows.map(r => ({
+        value: r.value,
+        type: r.type,
+        reason: r.reason ?? opts.reason ?? null,
+        expiresAt: r.expiresAt ?? opts.expiresAt ?? null,
+        line: r.line,
+    })), { source: 'csv_import', userId: opts.userId });
+    result.invalid = [...parsed.invalid, ...result.invalid].sort((a, b) => a.line - b.line);
+    return result;
+}
+
+export async function exportCsv(organizationId: string, opts: { includeExpired?: boolean } = {}): Promise<string> {
+    const now = new Date();
+    const entries = await prisma.suppressionEntry.findMany({
+        where: {
+            organization_id: organizationId,
+            ...(opts.includeExpired ? {} : { OR: [{ expires_at: null }, { expires_at: { gt: now } }] }),
+        },
+        orderBy: [{ type: 'asc' }, { value: 'asc' }],
+    });
+    const header = ['value', 'type', 'reason', 'source', 'expires_at', 'created_at'];
+    const lines = entries.map(e => [
+        e.value, e.type, e.reason, e.source, e.expires_at?.toISOString() ?? '', e.created_at.toISOString(),
+    ].map(escapeCsvField).join(','));
+    return [header.join(','), ...lines].join('\n');
+}
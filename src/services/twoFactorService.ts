@@ -0,0 +1,332 @@
+/**
+ * Two-Factor Service
+ *
+ * TOTP second factor for dashboard users (RFC 6238: HMAC-SHA1, 6 digits,
+ * 30-second steps, ±1 step of clock drift), one-time recovery codes, and the
+ * short-lived tokens that carry a passed challenge:
+ *   - login challenge: a password or Google sign-in for an enrolled user
+ *     returns one instead of a session; POST /auth/2fa/login trades it plus a
+ *     code for the session.
+ *   - step-up: POST /auth/2fa/step-up mints one that sensitive routes
+ *     (middleware/twoFactor requireStepUp) accept in the X-Step-Up-Token
+ *     header for 10 minutes.
+ * Both are JWTs signed with JWT_SECRET but carry no orgId claim, so
+ * orgContext never accepts one as a session.
+ *
+ * Enrollment is two-phase: the new secret sits in totp_pending_secret until
+ * the user proves their authenticator produces matching codes, so a
+ * half-finished enrollment can never lock anyone out.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../index';
+import { encrypt, decrypt } from '../utils/encryption';
+import { JWT_SECRET } from '../utils/jwtSecret';
+import { AppError } from '../utils/appError';
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = process.env.TOTP_ISSUER || 'Superkabe';
+
+const LOGIN_CHALLENGE_TTL_SECONDS = 5 * 60;
+const STEP_UP_TTL_SECONDS = 10 * 60;
+
+export type SecondFactorMethod = 'totp' | 'recovery_code';
+type ChallengePurpose = '2fa_login' | '2fa_step_up';
+
+// ─── TOTP primitives ────────────────────────────────────────────────────────
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buf: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let out = '';
+    for (const byte of buf) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return out;
+}
+
+export function base32Decode(input: string): Buffer {
+    const clean = input.toUpperCase().replace(/[^A-Z2-7]/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const ch of clean) {
+        value = (value << 5) | BASE32_ALPHABET.indexOf(ch);
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+export function generateSecret(): string {
+    return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+export function timeStep(now: Date = new Date()): number {
+    return Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS);
+}
+
+/** The code for one time step (RFC 4226 HOTP over the step counter). */
+export function totpCode(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = ((hmac[offset] & 0x7f) << 24)
+        | (hmac[offset + 1] << 16)
+        | (hmac[offset + 2] << 8)
+        | hmac[offset + 3];
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * The time step a code matches within the drift window, or null. Steps at
+ * or before `lastStep` are refused so an accepted code can't be replayed.
+ */
+export function verifyTotp(secret: string, code: string, now: Date, lastStep?: number | null): number | null {
+    const normalized = code.replace(/\s+/g, '');
+    if (!/^\d{6}$/.test(normalized)) return null;
+    const current = timeStep(now);
+    for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+        if (lastStep != null && step <= lastStep) continue;
+        const expected = totpCode(secret, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return step;
+    }
+    return null;
+}
+
+/** otpauth:// URI an authenticator app reads from the enrollment QR code. */
+export function otpauthUrl(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: ISSUER,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_STEP_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// ─── Recovery codes ─────────────────────────────────────────────────────────
+
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+    return Array.from({ length: count }, () => {
+        const raw = crypto.randomBytes(5).toString('hex');
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+}
+
+/** Codes are matched case- and dash-insensitively. */
+export function hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+// ─── Challenge / step-up tokens ─────────────────────────────────────────────
+
+function issueToken(userId: string, purpose: ChallengePurpose, ttlSeconds: number): string {
+    return jwt.sign({ sub: userId, purpose }, JWT_SECRET, { expiresIn: ttlSeconds });
+}
+
+function verifyToken(token: string, purpose: ChallengePurpose): string | null {
+    try {
+        const decoded = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+        return decoded.purpose === purpose && typeof decoded.sub === 'string' ? decoded.sub : null;
+    } catch {
+        return null;
+    }
+}
+
+export function issueLoginChallenge(userId: string): string {
+    return issueToken(userId, '2fa_login', LOGIN_CHALLENGE_TTL_SECONDS);
+}
+
+/** The user id a login challenge was issued to, or null if invalid/expired. */
+export function verifyLoginChallenge(token: string): string | null {
+    return verifyToken(token, '2fa_login');
+}
+
+export function issueStepUpToken(userId: string): { token: string; expires_at: Date } {
+    return {
+        token: issueToken(userId, '2fa_step_up', STEP_UP_TTL_SECONDS),
+        expires_at: new Date(Date.now() + STEP_UP_TTL_SECONDS * 1000),
+    };
+}
+
+export function verifyStepUpToken(token: string, userId: string): boolean {
+    return verifyToken(token, '2fa_step_up') === userId;
+}
+
+// ─── Enrollment and verification ────────────────────────────────────────────
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    enabled_at: Date | null;
+    pending_enrollment: boolean;
+    recovery_codes_remaining: number;
+    required_by_organization: boolean;
+}
+
+async function loadUser(userId: string) {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+            id: true,
+            email: true,
+            totp_secret: true,
+            totp_pending_secret: true,
+            totp_enabled_at: true,
+            totp_last_step: true,
+            totp_recovery_codes: true,
+        },
+    });
+    if (!user) throw new AppError('User not found', 404);
+    return user;
+}
+
+/**
+ * Whether the workspace requires 2FA. Always the workspace the request acts
+ * in (orgContext.organizationId) - the one the policy is set on - never the
+ * user's home organization, which differs for agency and invited members.
+ */
+export async function isRequiredByOrganization(organizationId: string | null | undefined): Promise<boolean> {
+    if (!organizationId) return false;
+    const org = await prisma.organization.findUnique({ where: { id: organizationId }, select: { require_two_factor: true } });
+    return !!org?.require_two_factor;
+}
+
+export async function getStatus(userId: string, organizationId: string | null | undefined): Promise<TwoFactorStatus> {
+    const [user, required] = await Promise.all([loadUser(userId), isRequiredByOrganization(organizationId)]);
+    return {
+        enabled: !!user.totp_enabled_at,
+        enabled_at: user.totp_enabled_at,
+        pending_enrollment: !!user.totp_pending_secret,
+        recovery_codes_remaining: user.totp_enabled_at ? user.totp_recovery_codes.length : 0,
+        required_by_organization: required,
+    };
+}
+
+export async function isEnabled(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { totp_enabled_at: true } });
+    return !!user?.totp_enabled_at;
+}
+
+/**
+ * Start (or restart) enrollment. Returns the secret for manual entry and the
+ * otpauth URI the dashboard renders as a QR code.
+ */
+export async function beginEnrollment(userId: string): Promise<{ secret: string; otpauth_url: string }> {
+    const user = await loadUser(userId);
+    if (user.totp_enabled_at) throw new AppError('Two-factor authentication is already enabled', 409);
+    const secret = generateSecret();
+    await prisma.user.update({
+        where: { id: userId },
+        data: { totp_pending_secret: encrypt(secret) },
+    });
+    return { secret, otpauth_url: otpauthUrl(secret, user.email) };
+}
+
+/**
+ * Confirm enrollment with a code from the new authenticator. Returns the
+ * recovery codes - the only time they are shown in plain text.
+ */
+export async function confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await loadUser(userId);
+    if (user.totp_enabled_at) throw new AppError('Two-factor authentication is already enabled', 409);
+    if (!user.totp_pending_secret) throw new AppError('Start enrollment first', 400);
+
+    const secret = decrypt(user.totp_pending_secret);
+    const step = verifyTotp(secret, code, new Date());
+    if (step === null) throw new AppError('Invalid authentication code', 400);
+
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.user.update({
+        where: { id: userId },
+        data: {
+            totp_secret: user.totp_pending_secret,
+            totp_pending_secret: null,
+            totp_enabled_at: new Date(),
+            totp_last_step: step,
+            totp_recovery_codes: recoveryCodes.map(hashRecoveryCode),
+        },
+    });
+    return recoveryCodes;
+}
+
+/**
+ * Check a TOTP code or a recovery code for an enrolled user. A TOTP match
+ * advances totp_last_step; a recovery code is consumed. Returns the method
+ * that passed, or null.
+ */
+export async function verifySecondFactor(
+    userId: string,
+    input: { code?: string | null; recoveryCode?: string | null },
+): Promise<SecondFactorMethod | null> {
+    const user = await loadUser(userId);
+    if (!user.totp_enabled_at || !user.totp_secret) return null;
+
+    if (input.code) {
+        const step = verifyTotp(decrypt(user.totp_secret), input.code, new Date(), user.totp_last_step);
+        if (step === null) return null;
+        // Guarded on the step we read so two concurrent submissions of the
+        // same code can't both pass.
+        const claimed = await prisma.user.updateMany({
+            where: { id: userId, totp_last_step: user.totp_last_step },
+            data: { totp_last_step: step },
+        });
+        return claimed.count === 1 ? 'totp' : null;
+    }
+
+    if (input.recoveryCode) {
+        const hash = hashRecoveryCode(input.recoveryCode);
+        if (!user.totp_recovery_codes.includes(hash)) return null;
+        // Removed in the database, not written back from the array we read:
+        // two concurrent requests spending codes A and B would otherwise
+        // both pass, and the second write would restore A.
+        const claimed = await prisma.$executeRaw`
+            UPDATE "User" SET totp_recovery_codes = array_remove(totp_recovery_codes, ${hash}::text)
+            WHERE id = ${userId} AND ${hash}::text = ANY(totp_recovery_codes)`;
+        return claimed === 1 ? 'recovery_code' : null;
+    }
+
+    return null;
+}
+
+export async function disable(userId: string): Promise<void> {
+    await prisma.user.update({
+        where: { id: userId },
+        data: {
+            totp_secret: null,
+            totp_pending_secret: null,
+            totp_enabled_at: null,
+            totp_last_step: null,
+            totp_recovery_codes: [],
+        },
+    });
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.user.update({
+        where: { id: userId },
+        data: { totp_recovery_codes: recoveryCodes.map(hashRecoveryCode) },
+    });
+    return recoveryCodes;
+}
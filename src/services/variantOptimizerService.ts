@@ -0,0 +1,408 @@
+/**
+ * Variant Optimizer Service
+ *
+ * Opt-in per-step multi-armed bandit over StepVariant.weight. pickVariant in
+ * the dispatcher keeps reading static weights - this service is what moves
+ * them, on a schedule (workers/variantOptimizerWorker).
+ *
+ * Algorithm: Thompson sampling. Each variant is a Beta(1 + successes,
+ * 1 + failures) posterior; the new weight of a variant is the Monte Carlo
+ * probability that it is the best arm, floored so losing arms keep a trickle
+ * of traffic until a winner is declared.
+ *
+ * Signal: reply rate. Replies are sparse, so until the step has
+ * MIN_REPLIES_FOR_SIGNAL unique replies the optimizer falls back to HUMAN
+ * open rate - but only while opens are trustworthy (tracking on and machine
+ * prefetch opens a minority). Otherwise it waits.
+ *
+ * Counters: StepVariant.sends is bumped by the send worker; opens / clicks /
+ * replies / machine_opens are credited here via recordVariantEngagement,
+ * through SendEvent.variant_id of the lead's most recent send.
+ */
+
+import { prisma } from '../index';
+import { logger } from './observabilityService';
+import { AppError } from '../utils/appError';
+
+const LOG_TAG = 'VARIANT-OPTIMIZER';
+
+/** Unique replies on a step before reply rate is trusted over open rate. */
+const MIN_REPLIES_FOR_SIGNAL = 10;
+/** Opens within this many ms of the send are treated as machine prefetch (matches coldCallListService). */
+const MACHINE_OPEN_MS = 30_000;
+/** Open rate is unusable once machine opens reach this share of all opens. */
+const MAX_MACHINE_OPEN_SHARE = 0.5;
+/** Minimum weight (percent) a non-winning arm keeps while the test runs. */
+const EXPLORATION_FLOOR = 5;
+const MONTE_CARLO_DRAWS = 4000;
+
+export type OptimizerMetric = 'reply' | 'open';
+
+export interface VariantCounters {
+    id: string;
+    variant_label: string;
+    weight: number;
+    sends: number;
+    opens: number;
+    replies: number;
+    machine_opens: number;
+}
+
+export interface ArmEvaluation {
+    variant_id: string;
+    label: string;
+    sends: number;
+    successes: number;
+    p_best: number;
+    from: number;
+    to: number;
+}
+
+export interface StepEvaluation {
+    metric: OptimizerMetric | null;
+    arms: ArmEvaluation[];
+    winnerId: string | null;
+}
+
+// ─── Sampling ───────────────────────────────────────────────────────────────
+
+function sampleNormal(random: () => number): number {
+    let u = 0;
+    while (u === 0) u = random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Marsaglia-Tsang. Shape >= 1 always holds here (Beta(1,1) prior). */
+function sampleGamma(shape: number, random: () => number): number {
+    if (shape < 1) return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+        let x: number;
+        let v: number;
+        do {
+            x = sampleNormal(random);
+            v = 1 + c * x;
+        } while (v <= 0);
+        v = v * v * v;
+        const u = random();
+        if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+        if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+    }
+}
+
+export function sampleBeta(alpha: number, beta: number, random: () => number = Math.random): number {
+    const x = sampleGamma(alpha, random);
+    const y = sampleGamma(beta, random);
+    return x / (x + y);
+}
+
+/** Share of posterior draws in which each arm has the highest rate. */
+export function probabilityBest(
+    arms: Array<{ sends: number; successes: number }>,
+    draws = MONTE_CARLO_DRAWS,
+    random: () => number = Math.random,
+): number[] {
+    const wins = new Array(arms.length).fill(0);
+    for (let i = 0; i < draws; i++) {
+        let best = -1;
+        let bestIdx = 0;
+        arms.forEach((a, idx) => {
+            const failures = Math.max(0, a.sends - a.successes);
+            const sample = sampleBeta(1 + a.successes, 1 + failures, random);
+            if (sample > best) { best = sample; bestIdx = idx; }
+        });
+        wins[bestIdx]++;
+    }
+    return wins.map(w => w / draws);
+}
+
+/**
+ * Integer percentages summing to 100, proportional to p_best, with every
+ * arm held at >= floor. Largest-remainder rounding keeps the total exact.
+ */
+export function weightsFromProbabilities(pBest: number[], floor = EXPLORATION_FLOOR): number[] {
+    const n = pBest.length;
+    if (n === 0) return [];
+    const effectiveFloor = Math.min(floor, Math.floor(100 / n));
+    const spare = 100 - effectiveFloor * n;
+    const raw = pBest.map(p => effectiveFloor + p * spare);
+    const floored = raw.map(Math.floor);
+    let remainder = 100 - floored.reduce((a, b) => a + b, 0);
+    const order = raw.map((r, i) => ({ i, frac: r - Math.floor(r) })).sort((a, b) => b.frac - a.frac);
+    for (const { i } of order) {
+        if (remainder <= 0) break;
+        floored[i]++;
+        remainder--;
+    }
+    return floored;
+}
+
+/**
+ * Which signal to optimize on right now. null = neither is usable yet
+ * (too few replies, and opens are untracked or dominated by prefetch).
+ */
+export function chooseMetric(variants: VariantCounters[], trackOpens: boolean): OptimizerMetric | null {
+    const replies = variants.reduce((s, v) => s + v.replies, 0);
+    if (replies >= MIN_REPLIES_FOR_SIGNAL) return 'reply';
+    const opens = variants.reduce((s, v) => s + v.opens, 0);
+    const machine = variants.reduce((s, v) => s + v.machine_opens, 0);
+    if (trackOpens && opens > 0 && machine / opens < MAX_MACHINE_OPEN_SHARE) return 'open';
+    return null;
+}
+
+/**
+ * Pure decision for one step: new weights + winner (if any). The winner needs
+ * p_best >= confidence AND every arm past minSends, so an early lucky streak
+ * on a small sample can't end the test.
+ */
+export function evaluateStep(
+    variants: VariantCounters[],
+    opts: { trackOpens: boolean; confidence: number; minSends: number },
+    random: () => number = Math.random,
+): StepEvaluation {
+    const metric = chooseMetric(variants, opts.trackOpens);
+    if (!metric || variants.length < 2) {
+        return {
+            metric,
+            arms: variants.map(v => ({ variant_id: v.id, label: v.variant_label, sends: v.sends, successes: 0, p_best: 0, from: v.weight, to: v.weight })),
+            winnerId: null,
+        };
+    }
+    const successes = variants.map(v => metric === 'reply' ? v.replies : Math.max(0, v.opens - v.machine_opens));
+    const pBest = probabilityBest(variants.map((v, i) => ({ sends: v.sends, successes: successes[i] })), MONTE_CARLO_DRAWS, random);
+    const bestIdx = pBest.indexOf(Math.max(...pBest));
+    const allSampled = variants.every(v => v.sends >= opts.minSends);
+    const winnerIdx = allSampled && pBest[bestIdx] >= opts.confidence ? bestIdx : -1;
+    const weights = winnerIdx >= 0
+        ? variants.map((_, i) => (i === winnerIdx ? 100 : 0))
+        : weightsFromProbabilities(pBest);
+    return {
+        metric,
+        arms: variants.map((v, i) => ({
+            variant_id: v.id,
+            label: v.variant_label,
+            sends: v.sends,
+            successes: successes[i],
+            p_best: Math.round(pBest[i] * 1000) / 1000,
+            from: v.weight,
+            to: weights[i],
+        })),
+        winnerId: winnerIdx >= 0 ? variants[winnerIdx].id : null,
+    };
+}
+
+// ─── Engagement attribution ─────────────────────────────────────────────────
+
+/**
+ * Credit an open / click / reply to the variant of the lead's most recent
+ * send. Opens and clicks count once per send (the event row for THIS hit is
+ * already written by the caller, so "first" means exactly one since the
+ * send); replies count once per lead (caller passes firstReply).
+ *
+ * Best-effort - never throws into the tracking / reply paths.
+ */
+export async function recordVariantEngagement(
+    campaignLeadId: string,
+    kind: 'open' | 'click' | 'reply',
+    opts: { msSinceSend?: number | null; firstReply?: boolean } = {},
+): Promise<void> {
+    try {
+        if (kind === 'reply' && !opts.firstReply) return;
+        const lastSend = await prisma.sendEvent.findFirst({
+            where: { campaign_lead_id: campaignLeadId },
+            orderBy: { sent_at: 'desc' },
+            select: { variant_id: true, sent_at: true },
+        });
+        if (!lastSend?.variant_id) return;
+
+        if (kind === 'open' || kind === 'click') {
+            const since = { campaign_lead_id: campaignLeadId };
+            const hits = kind === 'open'
+                ? await prisma.emailOpenEvent.count({ where: { ...since, opened_at: { gte: lastSend.sent_at } } })
+                : await prisma.emailClickEvent.count({ where: { ...since, clicked_at: { gte: lastSend.sent_at } } });
+            if (hits !== 1) return;
+        }
+
+        const data = kind === 'open'
+            ? {
+                opens: { increment: 1 },
+                ...(opts.msSinceSend != null && opts.msSinceSend <= MACHINE_OPEN_MS ? { machine_opens: { increment: 1 } } : {}),
+            }
+            : kind === 'click'
+                ? { clicks: { increment: 1 } }
+                : { replies: { increment: 1 } };
+        await prisma.stepVariant.updateMany({ where: { id: lastSend.variant_id }, data });
+    } catch (err) {
+        logger.warn(`[${LOG_TAG}] Failed to credit ${kind} to variant`, { campaignLeadId, error: (err as Error).message });
+    }
+}
+
+// ─── Persistence ────────────────────────────────────────────────────────────
+
+/**
+ * Re-evaluate one step and persist the result. Writes (and logs) only when a
+ * weight actually changes, so an idle step doesn't flood the history.
+ */
+export async function optimizeStep(stepId: string, random: () => number = Math.random): Promise<StepEvaluation | null> {
+    const step = await prisma.sequenceStep.findUnique({
+        where: { id: stepId },
+        include: {
+            variants: { orderBy: { variant_label: 'asc' } },
+            campaign: { select: { organization_id: true, track_opens: true } },
+        },
+    });
+    if (!step || !step.optimizer_enabled || step.optimizer_winner_id || step.variants.length < 2) return null;
+
+    const evaluation = evaluateStep(step.variants, {
+        trackOpens: step.campaign.track_opens ?? true,
+        confidence: step.optimizer_confidence,
+        minSends: step.optimizer_min_sends,
+    }, random);
+    if (!evaluation.metric) return evaluation;
+    const changed = evaluation.arms.filter(a => a.from !== a.to);
+    if (changed.length === 0 && !evaluation.winnerId) return evaluation;
+
+    await prisma.$transaction([
+        ...changed.map(a => prisma.stepVariant.update({ where: { id: a.variant_id }, data: { weight: a.to } })),
+        ...(evaluation.winnerId
+            ? [prisma.sequenceStep.update({
+                where: { id: step.id },
+                data: { optimizer_winner_id: evaluation.winnerId, optimizer_decided_at: new Date() },
+            })]
+            : []),
+        prisma.variantWeightLog.create({
+            data: {
+                organization_id: step.campaign.organization_id,
+                campaign_id: step.campaign_id,
+                step_number: step.step_number,
+                reason: evaluation.winnerId ? 'winner' : 'rebalance',
+                metric: evaluation.metric,
+                weights: evaluation.arms as any,
+                winner_variant_id: evaluation.winnerId,
+            },
+        }),
+    ]);
+
+    if (evaluation.winnerId) {
+        const winner = evaluation.arms.find(a => a.variant_id === evaluation.winnerId);
+        logger.info(`[${LOG_TAG}] Winner declared on campaign ${step.campaign_id} step ${step.step_number}: variant ${winner?.label}`, {
+            metric: evaluation.metric,
+            p_best: winner?.p_best,
+        });
+    }
+    return evaluation;
+}
+
+/** One sweep over every enabled, undecided step in an active campaign. */
+export async function runOptimizerSweep(): Promise<{ evaluated: number; winners: number }> {
+    const steps = await prisma.sequenceStep.findMany({
+        where: { optimizer_enabled: true, optimizer_winner_id: null, campaign: { status: 'active' } },
+        select: { id: true },
+    });
+    let winners = 0;
+    for (const s of steps) {
+        try {
+            const result = await optimizeStep(s.id);
+            if (result?.winnerId) winners++;
+        } catch (err) {
+            logger.error(`[${LOG_TAG}] Step optimization failed`, err instanceof Error ? err : new Error(String(err)), { stepId: s.id });
+        }
+    }
+    return { evaluated: steps.length, winners };
+}
+
+/**
+ * Switch the optimizer on / off for one step, or change its thresholds.
+ * Enabling (re)starts the test: any previous winner is cleared and the
+ * current weights are logged as the starting point of the timeline.
+ */
+export async function configureStepOptimizer(
+    orgId: string,
+    campaignId: string,
+    stepNumber: number,
+    settings: { enabled?: boolean; confidence?: number; min_sends?: number },
+) {
+    const step = await prisma.sequenceStep.findFirst({
+        where: { campaign_id: campaignId, step_number: stepNumber, campaign: { organization_id: orgId } },
+        include: { variants: { orderBy: { variant_label: 'asc' } } },
+    });
+    if (!step) throw new AppError('Sequence step not found', 404);
+    if (settings.confidence !== undefined && !(settings.confidence > 0.5 && settings.confidence < 1)) {
+        throw new AppError('confidence must be between 0.5 and 1 (exclusive)', 400);
+    }
+    if (settings.min_sends !== undefined && !(Number.isInteger(settings.min_sends) && settings.min_sends >= 1)) {
+        throw new AppError('min_sends must be a positive integer', 400);
+    }
+    if (settings.enabled && step.variants.length < 2) {
+        throw new AppError('The optimizer needs at least two variants on the step', 400);
+    }
+
+    const starting = settings.enabled === true && !step.optimizer_enabled;
+    const updated = await prisma.sequenceStep.update({
+        where: { id: step.id },
+        data: {
+            ...(settings.enabled !== undefined ? { optimizer_enabled: settings.enabled } : {}),
+            ...(settings.confidence !== undefined ? { optimizer_confidence: settings.confidence } : {}),
+            ...(settings.min_sends !== undefined ? { optimizer_min_sends: settings.min_sends } : {}),
+            ...(starting ? { optimizer_winner_id: null, optimizer_decided_at: null } : {}),
+        },
+        select: {
+            step_number: true, optimizer_enabled: true, optimizer_confidence: true,
+            optimizer_min_sends: true, optimizer_winner_id: true, optimizer_decided_at: true,
+        },
+    });
+    if (starting) {
+        await prisma.variantWeightLog.create({
+            data: {
+                organization_id: orgId,
+                campaign_id: campaignId,
+                step_number: stepNumber,
+                reason: 'enabled',
+                metric: 'reply',
+                weights: step.variants.map(v => ({
+                    variant_id: v.id, label: v.variant_label, from: v.weight, to: v.weight,
+                    sends: v.sends, successes: v.replies, p_best: null,
+                })) as any,
+            },
+        });
+    }
+    return updated;
+}
+
+/** Weight-change timeline + live counters for a campaign's optimized steps. */
+export async function getWeightHistory(orgId: string, campaignId: string, stepNumber?: number) {
+    const campaign = await prisma.campaign.findFirst({ where: { id: campaignId, organization_id: orgId }, select: { id: true } });
+    if (!campaign) return null;
+    const [steps, history] = await Promise.all([
+        prisma.sequenceStep.findMany({
+            where: { campaign_id: campaignId, ...(stepNumber !== undefined ? { step_number: stepNumber } : {}) },
+            orderBy: { step_number: 'asc' },
+            select: {
+                step_number: true, optimizer_enabled: true, optimizer_confidence: true,
+                optimizer_min_sends: true, optimizer_winner_id: true, optimizer_decided_at: true,
+                variants: {
+                    orderBy: { variant_label: 'asc' },
+                    select: { id: true, variant_label: true, weight: true, sends: true, opens: true, machine_opens: true, clicks: true, replies: true },
+                },
+            },
+        }),
+        prisma.variantWeightLog.findMany({
+            where: { campaign_id: campaignId, ...(stepNumber !== undefined ? { step_number: stepNumber } : {}) },
+            orderBy: { created_at: 'asc' },
+            take: 1000,
+        }),
+    ]);
+    return {
+        steps: steps.filter(s => s.variants.length > 0),
+        history: history.map(h => ({
+            step_number: h.step_number,
+            reason: h.reason,
+            metric: h.metric,
+            weights: h.weights,
+            winner_variant_id: h.winner_variant_id,
+            created_at: h.created_at,
+        })),
+    };
+}
@@ -59,7 +59,7 @@ export interface RecipientCredentials {
     imapPassword: string;
 }
 
-interface FoundMessage {
+export interface FoundMessage {
     folder: string;
     uid: number;
     landedIn: 'inbox' | 'spam' | 'promotions' | 'unknown';
@@ -94,11 +94,23 @@ async function tryOpenMailbox(client: ImapFlow, name: string): Promise<boolean>
     }
 }
 
-/** Search a folder for a warmup email by its X-Superkabe-Warmup header
- *  value. Returns the UID if found. */
-async function searchByWarmupHeader(client: ImapFlow, headerValue: string): Promise<number | null> {
+/** Log in and out again. Returns the failure message, or null when the
+ *  credentials work - used to validate placement seeds on save. */
+export async function verifyImapLogin(creds: RecipientCredentials): Promise<string | null> {
     try {
-        const uids = await client.search({ header: { [getWarmupHeaderName()]: headerValue } });
+        const client = await connect(creds);
+        try { await client.logout(); } catch { /* swallow */ }
+        return null;
+    } catch (err) {
+        return (err as Error)?.message || 'IMAP login failed';
+    }
+}
+
+/** Search the open folder for a message carrying `headerName: headerValue`.
+ *  Returns the UID if found. */
+async function searchByHeader(client: ImapFlow, headerName: string, headerValue: string): Promise<number | null> {
+    try {
+        const uids = await client.search({ header: { [headerName]: headerValue } });
         if (Array.isArray(uids) && uids.length > 0) return uids[0];
         return null;
     } catch (err) {
@@ -108,15 +120,17 @@ async function searchByWarmupHeader(client: ImapFlow, headerValue: string): Prom
 }
 
 /**
- * Find a warmup message across the candidate folders. Used by the
- * recipient worker after a send to determine where the message landed
- * AND to capture the UID for the subsequent mark-read / move actions.
+ * Find a message by one of our correlation headers across INBOX, then
+ * Promotions, then Spam/Junk. Shared by warmup (X-Superkabe-Warmup) and
+ * seed-list placement tests (X-Superkabe-Placement) so both report
+ * folders the same way.
  *
  * Returns `null` if the message hasn't been delivered yet (still in
- * transit, recipient ISP delaying). Caller retries on next tick.
+ * transit, recipient ISP delaying) or the mailbox can't be reached.
  */
-export async function locateWarmupMessage(opts: {
+export async function locateMessageByHeader(opts: {
     creds: RecipientCredentials;
+    headerName: string;
     headerValue: string;
 }): Promise<FoundMessage | null> {
     const client = await connect(opts.creds).catch(err => {
@@ -129,7 +143,7 @@ export async function locateWarmupMessage(opts: {
         // Inbox first - most messages should land here for an opted-in
         // pool member by definition.
         if (await tryOpenMailbox(client, INBOX_FOLDER_NAME)) {
-            const uid = await searchByWarmupHeader(client, opts.headerValue);
+            const uid = await searchByHeader(client, opts.headerName, opts.headerValue);
             if (uid != null) return { folder: INBOX_FOLDER_NAME, uid, landedIn: 'inbox' };
         }
 
@@ -137,14 +151,14 @@ export async function locateWarmupMessage(opts: {
         // outcome for spam-rate accounting.
         for (const folder of PROMOTIONS_FOLDER_NAMES) {
             if (!(await tryOpenMailbox(client, folder))) continue;
-            const uid = await searchByWarmupHeader(client, opts.headerValue);
+            const uid = await searchByHeader(client, opts.headerName, opts.headerValue);
             if (uid != null) return { folder, uid, landedIn: 'promotions' };
         }
 
         // Spam / Junk - the "recover from spam" target.
         for (const folder of SPAM_FOLDER_NAMES) {
             if (!(await tryOpenMailbox(client, folder))) continue;
-            const uid = await searchByWarmupHeader(client, opts.headerValue);
+            const uid = await searchByHeader(client, opts.headerName, opts.headerValue);
             if (uid != null) return { folder, uid, landedIn: 'spam' };
         }
 
@@ -154,6 +168,21 @@ export async function locateWarmupMessage(opts: {
     }
 }
 
+/**
+ * Find a warmup message across the candidate folders. Used by the
+ * recipient worker after a send to determine where the message landed
+ * AND to capture the UID for the subsequent mark-read / move actions.
+ *
+ * Returns `null` if the message hasn't been delivered yet (still in
+ * transit, recipient ISP delaying). Caller retries on next tick.
+ */
+export async function locateWarmupMessage(opts: {
+    creds: RecipientCredentials;
+    headerValue: string;
+}): Promise<FoundMessage | null> {
+    return locateMessageByHeader({ creds: opts.creds, headerName: getWarmupHeaderName(), headerValue: opts.headerValue });
+}
+
 /** Mark a message as read (\Seen flag). Idempotent - re-marking is a
  *  no-op. */
 export async function markRead(opts: {
@@ -27,6 +27,7 @@
 import { prisma } from '../index';
 import { logger } from './observabilityService';
 import * as notificationService from './notificationService';
+import * as sndsService from './sndsService';
 import { RecoveryPhase, GRADUATION_CRITERIA, MONITORING_THRESHOLDS } from '../types';
 
 /**
@@ -328,6 +329,12 @@ export const disableWarmup = async (
     }
 };
 
+/** SNDS block-list entry or a filter verdict in `blocking` holds graduation. */
+function sndsBlocksGraduation(rep: sndsService.MicrosoftReputation | null, blocking: readonly string[]): boolean {
+    if (!rep) return false;
+    return rep.blocked || (rep.filterResult !== null && blocking.includes(rep.filterResult));
+}
+
 /**
  * Check if mailbox is ready to graduate based on warmup progress.
  * Called by warmup tracking worker.
@@ -380,9 +387,13 @@ export const checkGraduationCriteria = async (
     // BounceEvent counts since phase_entered_at, comparing against the
     // baselines stored when the mailbox entered this phase.
     const phaseStart = mailbox.phase_entered_at || new Date(0);
-    const [phaseSends, phaseBounces] = await Promise.all([
+    const [phaseSends, phaseBounces, phaseComplaints, microsoft] = await Promise.all([
         prisma.sendEvent.count({ where: { mailbox_id: mailboxId, sent_at: { gte: phaseStart } } }),
         prisma.bounceEvent.count({ where: { mailbox_id: mailboxId, bounced_at: { gte: phaseStart }, bounce_type: 'hard_bounce' } }),
+        prisma.complaintEvent.count({ where: { mailbox_id: mailboxId, received_at: { gte: phaseStart } } }),
+        // Outlook.com / Hotmail reputation of the sending IPs (SNDS). Null
+        // for OAuth mailboxes and orgs without an SNDS key - no gate then.
+        sndsService.getMailboxMicrosoftReputation(mailboxId, phaseStart),
     ]);
     const totalSent = phaseSends;
     const totalSpam = phaseBounces;
@@ -408,14 +419,20 @@ export const checkGraduationCriteria = async (
             ? GRADUATION_CRITERIA.restricted_to_warm.repeatMinDays
             : GRADUATION_CRITERIA.restricted_to_warm.firstOffenseMinDays;
 
+        const microsoftOk = !sndsBlocksGraduation(microsoft, GRADUATION_CRITERIA.restricted_to_warm.blockingSndsFilters);
+
         const readyForGraduation =
             totalSent >= targetSends &&
             totalSpam === 0 &&
+            phaseComplaints === 0 &&
+            microsoftOk &&
             daysInPhase >= minDays;
 
         const reasonParts: string[] = [];
         if (totalSent < targetSends) reasonParts.push(`${targetSends - totalSent} more sends`);
         if (totalSpam > 0) reasonParts.push('hard bounce - relapse path will fire');
+        if (phaseComplaints > 0) reasonParts.push('spam complaint - relapse path will fire');
+        if (!microsoftOk) reasonParts.push(`Microsoft SNDS ${microsoft!.blocked ? 'block' : microsoft!.filterResult} on ${microsoft!.ips.join(', ')}`);
         if (daysInPhase < minDays) reasonParts.push(`${minDays - daysInPhase} more days`);
 
         return {
@@ -451,7 +468,7 @@ export const checkGraduationCriteria = async (
             });
             if (domain && domain.total_sent_lifetime >= MONITORING_THRESHOLDS.COMPLAINT_RATE_MIN_SENDS) {
                 const latestRep = await prisma.domainReputation.findFirst({
-                    where: { domain_id: mailbox.domain_id, spam_rate: { not: null } },
+                    where: { domain_id: mailbox.domain_id, source: 'postmaster_tools', spam_rate: { not: null } },
                     orderBy: { date: 'desc' },
                     select: { spam_rate: true }
                 });
@@ -461,18 +478,41 @@ export const checkGraduationCriteria = async (
                 }
             }
         }
+        // Mailbox-level ARF complaints since the phase started - a feedback
+        // loop sees what Postmaster's domain-wide rate can average away.
+        if (totalSent >= MONITORING_THRESHOLDS.COMPLAINT_RATE_MIN_SENDS) {
+            const arfRate = phaseComplaints / totalSent;
+            if (complaintRate == null || arfRate > complaintRate) {
+                complaintRate = arfRate;
+                complaintRateOk = complaintRate <= GRADUATION_CRITERIA.warm_to_healthy.maxComplaintRate;
+            }
+        }
+
+        // Microsoft SNDS - filter verdict, block list, trap hits, and its
+        // complaint rate folded into the same max-of-sources gate.
+        const criteria = GRADUATION_CRITERIA.warm_to_healthy;
+        const microsoftFilterOk = !sndsBlocksGraduation(microsoft, criteria.blockingSndsFilters);
+        const trapHitsOk = !microsoft || microsoft.trapHits <= criteria.maxSndsTrapHits;
+        if (microsoft?.complaintRate != null && (complaintRate == null || microsoft.complaintRate > complaintRate)) {
+            complaintRate = microsoft.complaintRate;
+            complaintRateOk = complaintRate <= criteria.maxComplaintRate;
+        }
 
         const readyForGraduation =
             totalSent >= targetSends &&
             daysInPhase >= minDays &&
             bounceRateOk &&
-            complaintRateOk;
+            complaintRateOk &&
+            microsoftFilterOk &&
+            trapHitsOk;
 
         const reasonParts: string[] = [];
         if (totalSent < targetSends) reasonParts.push(`${targetSends - totalSent} more sends`);
         if (daysInPhase < minDays) reasonParts.push(`${minDays - daysInPhase} more days`);
         if (!bounceRateOk) reasonParts.push(`bounce rate ${(bounceRate * 100).toFixed(2)}% > 2%`);
         if (!complaintRateOk && complaintRate != null) reasonParts.push(`complaint rate ${(complaintRate * 100).toFixed(2)}% > 0.1%`);
+        if (!microsoftFilterOk) reasonParts.push(`Microsoft SNDS ${microsoft!.blocked ? 'block' : microsoft!.filterResult} on ${microsoft!.ips.join(', ')}`);
+        if (!trapHitsOk) reasonParts.push(`${microsoft!.trapHits} Microsoft SNDS trap hit(s)`);
 
         return {
             readyForGraduation,
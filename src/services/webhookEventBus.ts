@@ -175,6 +175,34 @@ export function emitDomainDnsblCleared(orgId: string, domain: DomainLite, cleare
     });
 }
 
+interface LinkStepLite {
+    campaign_id: string;
+    step_id: string;
+    step_number: number;
+}
+
+/**
+ * A link or tracking domain used in active steps went onto (or came off) a
+ * URI blocklist. Fired by linkReputationService with the steps it paused
+ * (blacklisted) or resumed (cleared).
+ */
+export function emitLinkBlacklisted(orgId: string, link: { domain: string; kind: string }, lists: string[], pausedSteps: LinkStepLite[]): void {
+    safeFire(orgId, 'email.link_blacklisted', {
+        domain: link.domain,
+        kind: link.kind,
+        listed_on: lists,
+        paused_steps: pausedSteps,
+    });
+}
+
+export function emitLinkCleared(orgId: string, link: { domain: string; kind: string }, resumedSteps: LinkStepLite[]): void {
+    safeFire(orgId, 'email.link_cleared', {
+        domain: link.domain,
+        kind: link.kind,
+        resumed_steps: resumedSteps,
+    });
+}
+
 // ────────────────────────────────────────────────────────────────────
 // Lead transitions
 // ────────────────────────────────────────────────────────────────────
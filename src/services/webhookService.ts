@@ -66,6 +66,10 @@ export const WEBHOOK_EVENTS = [
     'domain.dnsbl_cleared',
     'domain.dns_failed',
 
+    // Link / tracking-domain reputation
+    'email.link_blacklisted',
+    'email.link_cleared',
+
     // Send / engagement
     'email.sent',
     'email.bounced',
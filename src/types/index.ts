@@ -43,6 +43,7 @@ export enum EventType {
     HARD_BOUNCE = 'HardBounce',
     SOFT_BOUNCE = 'SoftBounce',
     DELIVERY_FAILURE = 'DeliveryFailure',
+    SPAM_COMPLAINT = 'SpamComplaint',
 
     // Pause events
     MAILBOX_PAUSED = 'MailboxPaused',
@@ -139,6 +140,7 @@ export const GRADUATION_CRITERIA = {
         repeatCleanSends: 25,
         firstOffenseMinDays: 3,              // Time floor - prevents same-day burst graduation
         repeatMinDays: 7,                    // Repeat offenders held longer at low volume
+        blockingSndsFilters: ['RED'],        // Microsoft SNDS: >90% of the IP's mail filtered as spam
     },
     warm_to_healthy: {
         minSends: 50,                        // 50 sends minimum
@@ -146,6 +148,8 @@ export const GRADUATION_CRITERIA = {
         repeatMinDays: 14,                   // Repeat offenders held longer
         maxBounceRate: 0.02,                 // Below 2% bounce rate (industry standard)
         maxComplaintRate: 0.001,             // Below 0.1% spam-complaint rate (Gmail/Yahoo target)
+        blockingSndsFilters: ['RED', 'YELLOW'], // Microsoft SNDS: ≥10% filtered as spam
+        maxSndsTrapHits: 0,                  // Any Outlook.com spam-trap hit during the phase
     },
     rehabMultipliers: {
         sendMultiplier: 2.0,                 // Rehab entities need 2× clean sends
@@ -545,6 +549,7 @@ export const MONITORING_THRESHOLDS = {
     COMPLAINT_RATE_HEALTHY_THRESHOLD: 0.001,   // 0.1% - required for HEALTHY graduation
     COMPLAINT_RATE_RELAPSE_THRESHOLD: 0.003,   // 0.3% - triggers relapse during recovery
     COMPLAINT_RATE_MIN_SENDS: 1000,            // Minimum sample size before complaint-rate gate applies
+    COMPLAINT_RATE_WINDOW_DAYS: 30,            // Trailing window for per-mailbox ARF complaint rate
 
     // =========================================================================
     // Soft-bounce spike detection (Microsoft RP-001/002/003 throttling signal)
@@ -0,0 +1,95 @@
+/**
+ * Two-proportion statistics for A/B reporting.
+ *
+ * Deterministic closed forms only (no sampling) so a report pulled twice
+ * returns the same numbers - BI tools diff these. The bandit in
+ * variantOptimizerService uses Monte Carlo for traffic allocation; reporting
+ * deliberately does not.
+ */
+
+/** Abramowitz-Stegun 7.1.26 erf, |error| < 1.5e-7. */
+function erf(x: number): number {
+    const sign = x < 0 ? -1 : 1;
+    const a = Math.abs(x);
+    const t = 1 / (1 + 0.3275911 * a);
+    const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-a * a);
+    return sign * y;
+}
+
+export function normalCdf(z: number): number {
+    return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+/** Inverse standard normal CDF (Acklam's rational approximation). */
+export function normalQuantile(p: number): number {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+    const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+    const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+    const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+    const low = 0.02425;
+    if (p < low) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - low) return -normalQuantile(1 - p);
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/** Wilson score interval - well-behaved at 0 successes and small n, unlike Wald. */
+export function wilsonInterval(successes: number, trials: number, confidence = 0.95): { low: number; high: number } {
+    if (trials <= 0) return { low: 0, high: 0 };
+    const z = normalQuantile(1 - (1 - confidence) / 2);
+    const p = successes / trials;
+    const denom = 1 + (z * z) / trials;
+    const centre = (p + (z * z) / (2 * trials)) / denom;
+    const half = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denom;
+    return { low: Math.max(0, centre - half), high: Math.min(1, centre + half) };
+}
+
+/** Two-sided pooled two-proportion z-test. null when either arm is empty or the pooled rate is degenerate. */
+export function twoProportionPValue(s1: number, n1: number, s2: number, n2: number): number | null {
+    if (n1 <= 0 || n2 <= 0) return null;
+    const pooled = (s1 + s2) / (n1 + n2);
+    if (pooled <= 0 || pooled >= 1) return null;
+    const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+    const z = (s2 / n2 - s1 / n1) / se;
+    return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * P(rate_B > rate_A) under independent Beta(1+s, 1+n-s) posteriors, via the
+ * normal approximation to each posterior. Accurate enough for reporting once
+ * either arm has a few dozen trials; at tiny n it stays near 0.5, which is
+ * the honest answer.
+ */
+export function probabilityToBeat(sA: number, nA: number, sB: number, nB: number): number {
+    const moments = (s: number, n: number) => {
+        const a = 1 + s;
+        const b = 1 + Math.max(0, n - s);
+        const mean = a / (a + b);
+        const variance = (a * b) / ((a + b) * (a + b) * (a + b + 1));
+        return { mean, variance };
+    };
+    const A = moments(sA, nA);
+    const B = moments(sB, nB);
+    return normalCdf((B.mean - A.mean) / Math.sqrt(A.variance + B.variance));
+}
+
+/**
+ * Sends needed PER ARM to detect the difference between p1 and p2 with a
+ * two-sided test at `alpha` and the given power. null when the two rates are
+ * equal (no finite sample detects a zero effect) or out of range.
+ */
+export function requiredSampleSize(p1: number, p2: number, alpha = 0.05, power = 0.8): number | null {
+    if (p1 <= 0 && p2 <= 0) return null;
+    if (p1 === p2 || p1 < 0 || p2 < 0 || p1 >= 1 || p2 >= 1) return null;
+    const zA = normalQuantile(1 - alpha / 2);
+    const zB = normalQuantile(power);
+    const pBar = (p1 + p2) / 2;
+    const num = zA * Math.sqrt(2 * pBar * (1 - pBar)) + zB * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
+    return Math.ceil((num * num) / ((p1 - p2) * (p1 - p2)));
+}
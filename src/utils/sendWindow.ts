@@ -1,13 +1,18 @@
 /**
- * Campaign sending-window evaluation, in the campaign's own timezone.
+ * Campaign sending-window evaluation, in the campaign's own timezone - or,
+ * for campaigns with send_in_recipient_timezone, in each lead's timezone.
  *
  * Shared by the dispatcher (skip scheduling outside the window) AND the
  * send-time gate canSendNow (defer queued batch emails that would otherwise
  * drain out past the window end - incident 2026-07-05: batches enqueued
  * inside a 10:00-16:30 Istanbul window kept sending until ~18:00 because
  * only enqueue time was checked, not drain time).
+ *
+ * Blackout dates (holidays, company shutdowns - see blackoutCalendarService)
+ * close the window for the whole local calendar day.
  */
-export function isWithinSendingWindow(campaign: {
+
+export interface SendWindowCampaign {
     // Schedule fields are nullable on Campaign post-merge (legacy platform-synced rows
     // have no schedule since the external platform owns it). Sequencer rows explicitly
     // populate these. Null timezone / times / days default to "always-open" below.
@@ -15,44 +20,143 @@ export function isWithinSendingWindow(campaign: {
     schedule_start_time: string | null;
     schedule_end_time: string | null;
     schedule_days: string[];
-}): boolean {
-    // Interpret schedule in the campaign's timezone, not UTC. Prior bug: a user in
-    // ET who set "09:00-17:00 America/New_York" had their window compared against
-    // UTC hours, so sending only happened between 04:00-12:00 ET (or not at all).
-    const tz = campaign.schedule_timezone || 'UTC';
-    const now = new Date();
+}
+
+/** Calendar-date blackout lookup; returns the matching label, or null when the date is open. */
+export interface DateBlackout {
+    match(dateKey: string): string | null;
+}
+
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WEEKDAY_MAP: Record<string, string> = {
+    Sun: 'sun', Mon: 'mon', Tue: 'tue', Wed: 'wed', Thu: 'thu', Fri: 'fri', Sat: 'sat',
+};
+const MAX_LOOKAHEAD_DAYS = 45;
+const BUSINESS_DAYS_DEFAULT = ['mon', 'tue', 'wed', 'thu', 'fri'];
 
-    let currentDay = 'sun';
-    let hour = 0;
-    let minute = 0;
+/** Weekday, minute-of-day and "YYYY-MM-DD" date in `tz`. Invalid zones fall back to UTC. */
+function localClock(tz: string, now: Date): { dayIdx: number; minuteOfDay: number; dateKey: string } {
     try {
         const parts = new Intl.DateTimeFormat('en-US', {
             timeZone: tz,
             weekday: 'short',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
             hour: '2-digit',
             minute: '2-digit',
             hourCycle: 'h23',
         }).formatToParts(now);
-        const weekdayMap: Record<string, string> = {
-            Sun: 'sun', Mon: 'mon', Tue: 'tue', Wed: 'wed', Thu: 'thu', Fri: 'fri', Sat: 'sat',
-        };
-        currentDay = weekdayMap[parts.find(p => p.type === 'weekday')?.value || 'Sun'] || 'sun';
-        hour = Number(parts.find(p => p.type === 'hour')?.value || '0');
-        minute = Number(parts.find(p => p.type === 'minute')?.value || '0');
+        const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+        const day = WEEKDAY_MAP[part('weekday') || 'Sun'] || 'sun';
+        const hour = Number(part('hour') || '0');
+        const minute = Number(part('minute') || '0');
+        return { dayIdx: DAYS.indexOf(day), minuteOfDay: hour * 60 + minute, dateKey: `${part('year')}-${part('month')}-${part('day')}` };
     } catch {
         // Invalid timezone string - fall back to UTC
-        const days = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
-        currentDay = days[now.getUTCDay()];
-        hour = now.getUTCHours();
-        minute = now.getUTCMinutes();
+        return {
+            dayIdx: now.getUTCDay(),
+            minuteOfDay: now.getUTCHours() * 60 + now.getUTCMinutes(),
+            dateKey: now.toISOString().slice(0, 10),
+        };
     }
+}
+
+/** "YYYY-MM-DD" calendar date in `tz` - the key DateBlackout matches on. */
+export function localDateKey(tz: string, now: Date = new Date()): string {
+    return localClock(tz, now).dateKey;
+}
 
-    if (campaign.schedule_days.length > 0 && !campaign.schedule_days.includes(currentDay)) return false;
+function parseHm(hm: string): number {
+    const [h, m] = hm.split(':').map(Number);
+    return h * 60 + m;
+}
+
+export function isWithinSendingWindow(
+    campaign: SendWindowCampaign,
+    opts: { timezone?: string | null; now?: Date; blackout?: DateBlackout | null } = {},
+): boolean {
+    // Interpret schedule in the campaign's timezone, not UTC. Prior bug: a user in
+    // ET who set "09:00-17:00 America/New_York" had their window compared against
+    // UTC hours, so sending only happened between 04:00-12:00 ET (or not at all).
+    const tz = opts.timezone || campaign.schedule_timezone || 'UTC';
+    const { dayIdx, minuteOfDay, dateKey } = localClock(tz, opts.now ?? new Date());
+
+    if (opts.blackout?.match(dateKey)) return false;
+    if (campaign.schedule_days.length > 0 && !campaign.schedule_days.includes(DAYS[dayIdx])) return false;
     if (campaign.schedule_start_time && campaign.schedule_end_time) {
-        const nowMin = hour * 60 + minute;
-        const [sH, sM] = campaign.schedule_start_time.split(':').map(Number);
-        const [eH, eM] = campaign.schedule_end_time.split(':').map(Number);
-        if (nowMin < sH * 60 + sM || nowMin > eH * 60 + eM) return false;
+        if (minuteOfDay < parseHm(campaign.schedule_start_time) || minuteOfDay > parseHm(campaign.schedule_end_time)) return false;
     }
     return true;
 }
+
+/**
+ * Earliest instant at or after `now` when the window is open in `tz`. Used to
+ * park recipient-timezone leads until their local morning instead of
+ * re-fetching them every tick. Minute-of-day arithmetic ignores a DST shift
+ * inside the gap; canSendNow re-checks at send time, so the worst case is an
+ * hour's deferral. Blacked-out dates are skipped (up to MAX_LOOKAHEAD_DAYS,
+ * enough for a year-end shutdown). Returns null when no allowed day exists.
+ */
+export function nextWindowOpening(
+    campaign: SendWindowCampaign,
+    tz: string | null,
+    now: Date = new Date(),
+    blackout: DateBlackout | null = null,
+): Date | null {
+    if (isWithinSendingWindow(campaign, { timezone: tz, now, blackout })) return now;
+    const zone = tz || campaign.schedule_timezone || 'UTC';
+    const { dayIdx, minuteOfDay } = localClock(zone, now);
+    const start = campaign.schedule_start_time && campaign.schedule_end_time ? parseHm(campaign.schedule_start_time) : 0;
+    for (let d = 0; d <= MAX_LOOKAHEAD_DAYS; d++) {
+        const day = DAYS[(dayIdx + d) % 7];
+        if (campaign.schedule_days.length > 0 && !campaign.schedule_days.includes(day)) continue;
+        const offsetMin = d * 1440 + start - minuteOfDay;
+        if (offsetMin <= 0) continue;
+        const opensAt = new Date(now.getTime() + offsetMin * 60 * 1000);
+        if (blackout?.match(localClock(zone, opensAt).dateKey)) continue;
+        return opensAt;
+    }
+    return null;
+}
+
+/**
+ * `from` moved forward by `days` business days, keeping the time of day.
+ * A business day is one of `sendDays` (Mon-Fri when empty) in `tz` that is
+ * not blacked out. Used by calculateNextSendAt when the campaign counts
+ * follow-up delays in business days.
+ */
+export function addBusinessDays(
+    from: Date,
+    days: number,
+    opts: { timezone: string | null; sendDays: string[]; blackout?: DateBlackout | null },
+): Date {
+    const zone = opts.timezone || 'UTC';
+    const allowed = opts.sendDays.length > 0 ? opts.sendDays : BUSINESS_DAYS_DEFAULT;
+    let cursor = from;
+    let counted = 0;
+    // Bounded so a calendar that blacks out every day can't spin forever.
+    for (let guard = 0; counted < days && guard < 366 * 2; guard++) {
+        cursor = new Date(cursor.getTime() + 24 * 60 * 60 * 1000);
+        const { dayIdx, dateKey } = localClock(zone, cursor);
+        if (!allowed.includes(DAYS[dayIdx])) continue;
+        if (opts.blackout?.match(dateKey)) continue;
+        counted++;
+    }
+    return cursor;
+}
+
+/**
+ * Zone to evaluate the window in for one lead. Campaign zone unless the
+ * campaign sends in recipient local time, then the lead's cached zone, then
+ * the campaign's recipient fallback, then the campaign zone.
+ */
+export function resolveLeadTimezone(
+    campaign: { schedule_timezone: string | null; send_in_recipient_timezone?: boolean | null; recipient_fallback_timezone?: string | null },
+    lead: { timezone?: string | null },
+): string {
+    if (campaign.send_in_recipient_timezone) {
+        return lead.timezone || campaign.recipient_fallback_timezone || campaign.schedule_timezone || 'UTC';
+    }
+    return campaign.schedule_timezone || 'UTC';
+}
@@ -0,0 +1,350 @@
+/**
+ * Sequence template engine - the personalization language for SequenceStep /
+ * StepVariant subject, preheader and body.
+ *
+ * Replaces the flat `{{token}}` substitution that silently rendered unknown
+ * tokens as '' (how "Hi ," emails shipped). Every miss is now REPORTED, so
+ * the dispatcher can fail closed and the pre-launch validation endpoint can
+ * list the exact leads and tokens that would render blank.
+ *
+ * Syntax:
+ *   {{first_name}}                         - variable (case-insensitive)
+ *   {{ custom.industry }}                  - custom variable, explicit namespace
+ *   {{first_name | default: "there"}}      - fallback when missing / blank
+ *   {{company | upcase}}                   - filters chain left to right
+ *   {{today | date: "MMMM d"}}             - date in the campaign timezone
+ *   {% if company %}...{% elsif title %}...{% else %}...{% endif %}
+ *   {% if not company %} / {% if title == "CEO" %} / {% if title != "CEO" %}
+ *
+ * Filters: default, upcase, downcase, capitalize, titlecase, trim, date.
+ *
+ * Position in the send pipeline: runs FIRST (before spintax), so a filter
+ * pipe inside {{...}} is consumed here and never reaches the spintax `{a|b}`
+ * resolver.
+ *
+ * Values are inserted verbatim (no HTML escaping) - custom variables from
+ * Clay routinely carry pre-built HTML paragraphs, same as before.
+ */
+
+export interface TemplateIssue {
+    code: 'unclosed_tag' | 'unexpected_tag' | 'unknown_tag' | 'unknown_filter' | 'bad_expression';
+    message: string;
+    position: number;
+}
+
+export interface TemplateRenderOptions {
+    /** IANA timezone for the `date` filter and the `today` / `now` variables. */
+    timezone?: string | null;
+    /** Clock override - tests and the dry-run simulator render at virtual time. */
+    now?: Date;
+}
+
+export interface TemplateRenderResult {
+    output: string;
+    /** Variables referenced in an output tag that had no value and no default. Lowercased, deduped. */
+    unresolved: string[];
+    /** Structural problems. Non-empty means the output must not be sent. */
+    issues: TemplateIssue[];
+}
+
+type Variables = Record<string, string>;
+
+interface FilterCall { name: string; arg: string | null }
+
+type Condition =
+    | { kind: 'truthy'; name: string; negate: boolean }
+    | { kind: 'compare'; name: string; op: '==' | '!='; value: string };
+
+type Node =
+    | { type: 'text'; value: string }
+    | { type: 'output'; name: string; filters: FilterCall[]; position: number }
+    | { type: 'if'; branches: Array<{ condition: Condition; body: Node[] }>; otherwise: Node[] | null };
+
+const TAG_RE = /\{\{\s*([\s\S]*?)\s*\}\}|\{%\s*([\s\S]*?)\s*%\}/g;
+const NAME_RE = /^[A-Za-z_][\w]*(?:\.[A-Za-z_][\w]*)?$/;
+const KNOWN_FILTERS = new Set(['default', 'upcase', 'downcase', 'capitalize', 'titlecase', 'trim', 'date']);
+const MAX_NESTING = 20;
+
+// ─── Parsing ────────────────────────────────────────────────────────────────
+
+function parseString(raw: string): string | null {
+    const m = raw.trim().match(/^"((?:[^"\\]|\\.)*)"$|^'((?:[^'\\]|\\.)*)'$/);
+    if (!m) return null;
+    return (m[1] ?? m[2]).replace(/\\(.)/g, '$1');
+}
+
+/** Split on `|` outside quotes - `default: "a|b"` must stay one filter. */
+function splitPipes(expr: string): string[] {
+    const parts: string[] = [];
+    let buf = '';
+    let quote: string | null = null;
+    for (const ch of expr) {
+        if (quote) {
+            if (ch === quote) quote = null;
+            buf += ch;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+            buf += ch;
+        } else if (ch === '|') {
+            parts.push(buf);
+            buf = '';
+        } else {
+            buf += ch;
+        }
+    }
+    parts.push(buf);
+    return parts.map(p => p.trim());
+}
+
+function parseOutput(expr: string, position: number, issues: TemplateIssue[]): Node | null {
+    const [head, ...rest] = splitPipes(expr);
+    if (!NAME_RE.test(head)) {
+        issues.push({ code: 'bad_expression', message: `Invalid variable name "${head}"`, position });
+        return null;
+    }
+    const filters: FilterCall[] = [];
+    for (const f of rest) {
+        const m = f.match(/^(\w+)\s*(?::\s*([\s\S]+))?$/);
+        if (!m) {
+            issues.push({ code: 'bad_expression', message: `Invalid filter "${f}"`, position });
+            return null;
+        }
+        const name = m[1].toLowerCase();
+        if (!KNOWN_FILTERS.has(name)) {
+            issues.push({ code: 'unknown_filter', message: `Unknown filter "${m[1]}"`, position });
+            return null;
+        }
+        let arg: string | null = null;
+        if (m[2] !== undefined) {
+            arg = parseString(m[2]);
+            if (arg === null) {
+                issues.push({ code: 'bad_expression', message: `Filter argument must be a quoted string: ${m[2]}`, position });
+                return null;
+            }
+        }
+        filters.push({ name, arg });
+    }
+    return { type: 'output', name: head.toLowerCase(), filters, position };
+}
+
+function parseCondition(expr: string, position: number, issues: TemplateIssue[]): Condition | null {
+    const cmp = expr.match(/^([\w.]+)\s*(==|!=)\s*([\s\S]+)$/);
+    if (cmp) {
+        const value = parseString(cmp[3]);
+        if (!NAME_RE.test(cmp[1]) || value === null) {
+            issues.push({ code: 'bad_expression', message: `Invalid comparison "${expr}"`, position });
+            return null;
+        }
+        return { kind: 'compare', name: cmp[1].toLowerCase(), op: cmp[2] as '==' | '!=', value };
+    }
+    const neg = expr.match(/^not\s+([\s\S]+)$/);
+    const name = (neg ? neg[1] : expr).trim();
+    if (!NAME_RE.test(name)) {
+        issues.push({ code: 'bad_expression', message: `Invalid condition "${expr}"`, position });
+        return null;
+    }
+    return { kind: 'truthy', name: name.toLowerCase(), negate: !!neg };
+}
+
+/**
+ * Lenient parser: structural errors are recorded as issues and the offending
+ * tag is dropped, so callers always get a renderable tree plus a complete
+ * list of what is wrong (the validation endpoint wants every problem at once).
+ */
+function parse(template: string): { nodes: Node[]; issues: TemplateIssue[] } {
+    const issues: TemplateIssue[] = [];
+    const root: Node[] = [];
+    // Stack of open {% if %} blocks; `target` is the body currently being filled.
+    const stack: Array<{ node: Extract<Node, { type: 'if' }>; target: Node[]; position: number; sawElse: boolean }> = [];
+    const current = (): Node[] => (stack.length ? stack[stack.length - 1].target : root);
+
+    let last = 0;
+    TAG_RE.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = TAG_RE.exec(template))) {
+        if (m.index > last) current().push({ type: 'text', value: template.slice(last, m.index) });
+        last = m.index + m[0].length;
+        const position = m.index;
+
+        if (m[1] !== undefined) {
+            const node = parseOutput(m[1], position, issues);
+            if (node) current().push(node);
+            continue;
+        }
+
+        const tag = m[2];
+        const [keyword, ...restParts] = tag.split(/\s+/);
+        const rest = restParts.join(' ').trim();
+        switch (keyword) {
+            case 'if': {
+                if (stack.length >= MAX_NESTING) {
+                    issues.push({ code: 'bad_expression', message: `Conditionals nested deeper than ${MAX_NESTING}`, position });
+                    break;
+                }
+                const condition = parseCondition(rest, position, issues) ?? { kind: 'truthy' as const, name: '', negate: false };
+                const node: Extract<Node, { type: 'if' }> = { type: 'if', branches: [{ condition, body: [] }], otherwise: null };
+                current().push(node);
+                stack.push({ node, target: node.branches[0].body, position, sawElse: false });
+                break;
+            }
+            case 'elsif': {
+                const top = stack[stack.length - 1];
+                if (!top || top.sawElse) {
+                    issues.push({ code: 'unexpected_tag', message: '{% elsif %} without an open {% if %}', position });
+                    break;
+                }
+                const condition = parseCondition(rest, position, issues) ?? { kind: 'truthy' as const, name: '', negate: false };
+                const branch = { condition, body: [] as Node[] };
+                top.node.branches.push(branch);
+                top.target = branch.body;
+                break;
+            }
+            case 'else': {
+                const top = stack[stack.length - 1];
+                if (!top || top.sawElse) {
+                    issues.push({ code: 'unexpected_tag', message: '{% else %} without an open {% if %}', position });
+                    break;
+                }
+                top.node.otherwise = [];
+                top.target = top.node.otherwise;
+                top.sawElse = true;
+                break;
+            }
+            case 'endif': {
+                if (!stack.pop()) {
+                    issues.push({ code: 'unexpected_tag', message: '{% endif %} without an open {% if %}', position });
+                }
+                break;
+            }
+            default:
+                issues.push({ code: 'unknown_tag', message: `Unknown tag {% ${keyword} %}`, position });
+        }
+    }
+    if (last < template.length) current().push({ type: 'text', value: template.slice(last) });
+    for (const open of stack) {
+        issues.push({ code: 'unclosed_tag', message: '{% if %} is missing its {% endif %}', position: open.position });
+    }
+    return { nodes: root, issues };
+}
+
+// ─── Rendering ──────────────────────────────────────────────────────────────
+
+function lookup(vars: Variables, name: string): string {
+    if (name.startsWith('custom.')) return vars[name.slice('custom.'.length)] ?? '';
+    return vars[name] ?? '';
+}
+
+function capitalize(s: string): string {
+    return s.charAt(0).toUpperCase() + s.slice(1).toLowerCase();
+}
+
+/**
+ * Minimal date pattern formatter evaluated in `timezone`:
+ *   yyyy, yy, MMMM, MMM, MM, M, dd, d, EEEE, EEE, HH, mm
+ * Named presets: short (7/4/26), medium (Jul 4, 2026), long (July 4, 2026), iso (2026-07-04).
+ */
+export function formatDate(date: Date, pattern: string, timezone?: string | null): string {
+    let tz = timezone || 'UTC';
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    } catch {
+        tz = 'UTC';
+    }
+    const presets: Record<string, string> = { short: 'M/d/yy', medium: 'MMM d, yyyy', long: 'MMMM d, yyyy', iso: 'yyyy-MM-dd' };
+    const effective = presets[pattern] ?? pattern;
+
+    const get = (opts: Intl.DateTimeFormatOptions, type: Intl.DateTimeFormatPartTypes): string =>
+        new Intl.DateTimeFormat('en-US', { timeZone: tz, ...opts }).formatToParts(date).find(p => p.type === type)?.value ?? '';
+
+    const table: Record<string, () => string> = {
+        yyyy: () => get({ year: 'numeric' }, 'year'),
+        yy: () => get({ year: '2-digit' }, 'year'),
+        MMMM: () => get({ month: 'long' }, 'month'),
+        MMM: () => get({ month: 'short' }, 'month'),
+        MM: () => get({ month: '2-digit' }, 'month'),
+        M: () => get({ month: 'numeric' }, 'month'),
+        dd: () => get({ day: '2-digit' }, 'day'),
+        d: () => get({ day: 'numeric' }, 'day'),
+        EEEE: () => get({ weekday: 'long' }, 'weekday'),
+        EEE: () => get({ weekday: 'short' }, 'weekday'),
+        HH: () => get({ hour: '2-digit', hourCycle: 'h23' }, 'hour'),
+        mm: () => get({ minute: '2-digit' }, 'minute').padStart(2, '0'),
+    };
+    return effective.replace(/yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|mm/g, tok => table[tok]());
+}
+
+function applyFilters(value: string, filters: FilterCall[], opts: TemplateRenderOptions): { value: string; defaulted: boolean } {
+    let out = value;
+    let defaulted = false;
+    for (const f of filters) {
+        switch (f.name) {
+            case 'default':
+                if (!out.trim()) {
+                    out = f.arg ?? '';
+                    defaulted = true;
+                }
+                break;
+            case 'upcase': out = out.toUpperCase(); break;
+            case 'downcase': out = out.toLowerCase(); break;
+            case 'capitalize': out = capitalize(out); break;
+            case 'titlecase': out = out.split(/(\s+)/).map(w => (w.trim() ? capitalize(w) : w)).join(''); break;
+            case 'trim': out = out.trim(); break;
+            case 'date': {
+                if (!out.trim()) break;
+                const parsed = new Date(out);
+                if (!isNaN(parsed.getTime())) out = formatDate(parsed, f.arg || 'medium', opts.timezone);
+                break;
+            }
+        }
+    }
+    return { value: out, defaulted };
+}
+
+function conditionHolds(c: Condition, vars: Variables): boolean {
+    const value = lookup(vars, c.name).trim();
+    if (c.kind === 'truthy') return c.negate ? !value : !!value;
+    const equal = value.toLowerCase() === c.value.toLowerCase();
+    return c.op === '==' ? equal : !equal;
+}
+
+function renderNodes(nodes: Node[], vars: Variables, opts: TemplateRenderOptions, unresolved: Set<string>): string {
+    let out = '';
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            out += node.value;
+        } else if (node.type === 'output') {
+            const raw = lookup(vars, node.name);
+            const { value, defaulted } = applyFilters(raw, node.filters, opts);
+            if (!raw.trim() && !defaulted) unresolved.add(node.name);
+            out += value;
+        } else {
+            const branch = node.branches.find(b => conditionHolds(b.condition, vars));
+            const body = branch ? branch.body : node.otherwise;
+            if (body) out += renderNodes(body, vars, opts, unresolved);
+        }
+    }
+    return out;
+}
+
+/** Built-in clock variables, evaluated per render so batches draining across midnight stay correct. */
+function withClock(vars: Variables, opts: TemplateRenderOptions): Variables {
+    const now = opts.now ?? new Date();
+    return { today: now.toISOString(), now: now.toISOString(), ...vars };
+}
+
+export function renderTemplate(template: string, vars: Variables, opts: TemplateRenderOptions = {}): TemplateRenderResult {
+    if (!template) return { output: '', unresolved: [], issues: [] };
+    const { nodes, issues } = parse(template);
+    const unresolved = new Set<string>();
+    const output = renderNodes(nodes, withClock(vars, opts), opts, unresolved);
+    return { output, unresolved: Array.from(unresolved), issues };
+}
+
+/**
+ * Editor / preflight lint. `issues.length === 0` means the template parses;
+ * it says nothing about whether a particular lead has the data it needs -
+ * use renderTemplate against real variables for that.
+ */
+export function validateTemplate(template: string): TemplateIssue[] {
+    return template ? parse(template).issues : [];
+}
@@ -0,0 +1,243 @@
+/**
+ * Recipient timezone inference for "send in recipient local time" campaigns.
+ *
+ * Sources, strongest first:
+ *   1. custom variable   - timezone / time_zone / tz holding a valid IANA zone
+ *   2. city              - custom variable city, matched against CITY_TZ
+ *   3. state / region    - US states and Canadian provinces (country-wide
+ *                          zones are wrong for both)
+ *   4. country           - custom variable country (name or ISO-2)
+ *   5. email ccTLD       - .de, .co.uk, .com.au, ...
+ *
+ * Generic TLDs (.com, .io, ...) say nothing about location and are skipped.
+ * Returns null when nothing matches; the caller applies the campaign's
+ * fallback zone. Tables are deliberately local - no geo lookup at send time.
+ */
+
+export type TimezoneSource = 'custom_variable' | 'city' | 'region' | 'country' | 'email_tld';
+
+export interface InferredTimezone {
+    timezone: string;
+    source: TimezoneSource;
+}
+
+/** ISO-3166 alpha-2 → primary IANA zone. Multi-zone countries use the most populous zone. */
+const COUNTRY_TZ: Record<string, string> = {
+    us: 'America/New_York', ca: 'America/Toronto', mx: 'America/Mexico_City', br: 'America/Sao_Paulo',
+    ar: 'America/Argentina/Buenos_Aires', cl: 'America/Santiago', co: 'America/Bogota', pe: 'America/Lima',
+    uy: 'America/Montevideo', ve: 'America/Caracas', ec: 'America/Guayaquil', cr: 'America/Costa_Rica',
+    pa: 'America/Panama', gt: 'America/Guatemala', do: 'America/Santo_Domingo', pr: 'America/Puerto_Rico',
+    gb: 'Europe/London', uk: 'Europe/London', ie: 'Europe/Dublin', fr: 'Europe/Paris', de: 'Europe/Berlin',
+    es: 'Europe/Madrid', pt: 'Europe/Lisbon', it: 'Europe/Rome', nl: 'Europe/Amsterdam', be: 'Europe/Brussels',
+    lu: 'Europe/Luxembourg', ch: 'Europe/Zurich', at: 'Europe/Vienna', dk: 'Europe/Copenhagen',
+    se: 'Europe/Stockholm', no: 'Europe/Oslo', fi: 'Europe/Helsinki', is: 'Atlantic/Reykjavik',
+    pl: 'Europe/Warsaw', cz: 'Europe/Prague', sk: 'Europe/Bratislava', hu: 'Europe/Budapest',
+    ro: 'Europe/Bucharest', bg: 'Europe/Sofia', gr: 'Europe/Athens', tr: 'Europe/Istanbul',
+    ua: 'Europe/Kyiv', ee: 'Europe/Tallinn', lv: 'Europe/Riga', lt: 'Europe/Vilnius', si: 'Europe/Ljubljana',
+    hr: 'Europe/Zagreb', rs: 'Europe/Belgrade', cy: 'Asia/Nicosia', mt: 'Europe/Malta', ru: 'Europe/Moscow',
+    il: 'Asia/Jerusalem', ae: 'Asia/Dubai', sa: 'Asia/Riyadh', qa: 'Asia/Qatar', kw: 'Asia/Kuwait',
+    bh: 'Asia/Bahrain', om: 'Asia/Muscat', jo: 'Asia/Amman', lb: 'Asia/Beirut', eg: 'Africa/Cairo',
+    ma: 'Africa/Casablanca', ng: 'Africa/Lagos', ke: 'Africa/Nairobi', za: 'Africa/Johannesburg',
+    gh: 'Africa/Accra', tn: 'Africa/Tunis', in: 'Asia/Kolkata', pk: 'Asia/Karachi', bd: 'Asia/Dhaka',
+    lk: 'Asia/Colombo', np: 'Asia/Kathmandu', cn: 'Asia/Shanghai', hk: 'Asia/Hong_Kong', tw: 'Asia/Taipei',
+    jp: 'Asia/Tokyo', kr: 'Asia/Seoul', sg: 'Asia/Singapore', my: 'Asia/Kuala_Lumpur', th: 'Asia/Bangkok',
+    vn: 'Asia/Ho_Chi_Minh', ph: 'Asia/Manila', id: 'Asia/Jakarta', au: 'Australia/Sydney',
+    nz: 'Pacific/Auckland', kz: 'Asia/Almaty',
+};
+
+/** Country names (and common aliases) → ISO-2 key of COUNTRY_TZ. */
+const COUNTRY_NAMES: Record<string, string> = {
+    'united states': 'us', 'united states of america': 'us', usa: 'us', america: 'us',
+    canada: 'ca', mexico: 'mx', brazil: 'br', brasil: 'br', argentina: 'ar', chile: 'cl', colombia: 'co',
+    peru: 'pe', uruguay: 'uy', venezuela: 've', ecuador: 'ec', 'costa rica': 'cr', panama: 'pa',
+    guatemala: 'gt', 'dominican republic': 'do', 'puerto rico': 'pr',
+    'united kingdom': 'gb', 'great britain': 'gb', england: 'gb', scotland: 'gb', wales: 'gb',
+    'northern ireland': 'gb', ireland: 'ie', france: 'fr', germany: 'de', deutschland: 'de', spain: 'es',
+    españa: 'es', portugal: 'pt', italy: 'it', italia: 'it', netherlands: 'nl', 'the netherlands': 'nl',
+    holland: 'nl', belgium: 'be', luxembourg: 'lu', switzerland: 'ch', austria: 'at', denmark: 'dk',
+    sweden: 'se', norway: 'no', finland: 'fi', iceland: 'is', poland: 'pl', 'czech republic': 'cz',
+    czechia: 'cz', slovakia: 'sk', hungary: 'hu', romania: 'ro', bulgaria: 'bg', greece: 'gr',
+    turkey: 'tr', türkiye: 'tr', turkiye: 'tr', ukraine: 'ua', estonia: 'ee', latvia: 'lv', lithuania: 'lt',
+    slovenia: 'si', croatia: 'hr', serbia: 'rs', cyprus: 'cy', malta: 'mt', russia: 'ru',
+    israel: 'il', 'united arab emirates': 'ae', uae: 'ae', 'saudi arabia': 'sa', qatar: 'qa', kuwait: 'kw',
+    bahrain: 'bh', oman: 'om', jordan: 'jo', lebanon: 'lb', egypt: 'eg', morocco: 'ma', nigeria: 'ng',
+    kenya: 'ke', 'south africa': 'za', ghana: 'gh', tunisia: 'tn', india: 'in', pakistan: 'pk',
+    bangladesh: 'bd', 'sri lanka': 'lk', nepal: 'np', china: 'cn', 'hong kong': 'hk', taiwan: 'tw',
+    japan: 'jp', 'south korea': 'kr', korea: 'kr', singapore: 'sg', malaysia: 'my', thailand: 'th',
+    vietnam: 'vn', 'viet nam': 'vn', philippines: 'ph', indonesia: 'id', australia: 'au',
+    'new zealand': 'nz', kazakhstan: 'kz',
+};
+
+/** Major business cities. Wins over country for multi-zone countries. */
+const CITY_TZ: Record<string, string> = {
+    'new york': 'America/New_York', nyc: 'America/New_York', boston: 'America/New_York',
+    philadelphia: 'America/New_York', washington: 'America/New_York', atlanta: 'America/New_York',
+    miami: 'America/New_York', charlotte: 'America/New_York', pittsburgh: 'America/New_York',
+    detroit: 'America/Detroit', chicago: 'America/Chicago', dallas: 'America/Chicago',
+    houston: 'America/Chicago', austin: 'America/Chicago', minneapolis: 'America/Chicago',
+    nashville: 'America/Chicago', 'kansas city': 'America/Chicago', 'st. louis': 'America/Chicago',
+    denver: 'America/Denver', boulder: 'America/Denver', 'salt lake city': 'America/Denver',
+    phoenix: 'America/Phoenix', 'los angeles': 'America/Los_Angeles', 'san francisco': 'America/Los_Angeles',
+    'san jose': 'America/Los_Angeles', 'san diego': 'America/Los_Angeles', seattle: 'America/Los_Angeles',
+    portland: 'America/Los_Angeles', 'palo alto': 'America/Los_Angeles', 'las vegas': 'America/Los_Angeles',
+    honolulu: 'Pacific/Honolulu', anchorage: 'America/Anchorage',
+    toronto: 'America/Toronto', montreal: 'America/Toronto', ottawa: 'America/Toronto',
+    vancouver: 'America/Vancouver', calgary: 'America/Edmonton', edmonton: 'America/Edmonton',
+    winnipeg: 'America/Winnipeg', halifax: 'America/Halifax',
+    'mexico city': 'America/Mexico_City', 'são paulo': 'America/Sao_Paulo', 'sao paulo': 'America/Sao_Paulo',
+    'rio de janeiro': 'America/Sao_Paulo', 'buenos aires': 'America/Argentina/Buenos_Aires',
+    london: 'Europe/London', manchester: 'Europe/London', edinburgh: 'Europe/London', dublin: 'Europe/Dublin',
+    paris: 'Europe/Paris', berlin: 'Europe/Berlin', munich: 'Europe/Berlin', hamburg: 'Europe/Berlin',
+    frankfurt: 'Europe/Berlin', madrid: 'Europe/Madrid', barcelona: 'Europe/Madrid', lisbon: 'Europe/Lisbon',
+    rome: 'Europe/Rome', milan: 'Europe/Rome', amsterdam: 'Europe/Amsterdam', brussels: 'Europe/Brussels',
+    zurich: 'Europe/Zurich', geneva: 'Europe/Zurich', vienna: 'Europe/Vienna', copenhagen: 'Europe/Copenhagen',
+    stockholm: 'Europe/Stockholm', oslo: 'Europe/Oslo', helsinki: 'Europe/Helsinki', warsaw: 'Europe/Warsaw',
+    prague: 'Europe/Prague', budapest: 'Europe/Budapest', bucharest: 'Europe/Bucharest', athens: 'Europe/Athens',
+    istanbul: 'Europe/Istanbul', kyiv: 'Europe/Kyiv', kiev: 'Europe/Kyiv', moscow: 'Europe/Moscow',
+    'tel aviv': 'Asia/Jerusalem', dubai: 'Asia/Dubai', 'abu dhabi': 'Asia/Dubai', riyadh: 'Asia/Riyadh',
+    doha: 'Asia/Qatar', cairo: 'Africa/Cairo', lagos: 'Africa/Lagos', nairobi: 'Africa/Nairobi',
+    johannesburg: 'Africa/Johannesburg', 'cape town': 'Africa/Johannesburg',
+    mumbai: 'Asia/Kolkata', bangalore: 'Asia/Kolkata', bengaluru: 'Asia/Kolkata', delhi: 'Asia/Kolkata',
+    'new delhi': 'Asia/Kolkata', hyderabad: 'Asia/Kolkata', chennai: 'Asia/Kolkata', pune: 'Asia/Kolkata',
+    karachi: 'Asia/Karachi', beijing: 'Asia/Shanghai', shanghai: 'Asia/Shanghai', shenzhen: 'Asia/Shanghai',
+    'hong kong': 'Asia/Hong_Kong', taipei: 'Asia/Taipei', tokyo: 'Asia/Tokyo', osaka: 'Asia/Tokyo',
+    seoul: 'Asia/Seoul', singapore: 'Asia/Singapore', 'kuala lumpur': 'Asia/Kuala_Lumpur',
+    bangkok: 'Asia/Bangkok', 'ho chi minh city': 'Asia/Ho_Chi_Minh', manila: 'Asia/Manila',
+    jakarta: 'Asia/Jakarta', sydney: 'Australia/Sydney', melbourne: 'Australia/Melbourne',
+    brisbane: 'Australia/Brisbane', perth: 'Australia/Perth', adelaide: 'Australia/Adelaide',
+    auckland: 'Pacific/Auckland', wellington: 'Pacific/Auckland',
+};
+
+/** US states + Canadian provinces (names and postal codes). */
+const REGION_TZ: Record<string, string> = {
+    // Eastern
+    ct: 'America/New_York', de: 'America/New_York', fl: 'America/New_York', ga: 'America/New_York',
+    me: 'America/New_York', md: 'America/New_York', ma: 'America/New_York', nh: 'America/New_York',
+    nj: 'America/New_York', ny: 'America/New_York', nc: 'America/New_York', oh: 'America/New_York',
+    pa: 'America/New_York', ri: 'America/New_York', sc: 'America/New_York', vt: 'America/New_York',
+    va: 'America/New_York', wv: 'America/New_York', dc: 'America/New_York', mi: 'America/Detroit',
+    in: 'America/Indiana/Indianapolis', ky: 'America/New_York',
+    connecticut: 'America/New_York', delaware: 'America/New_York', florida: 'America/New_York',
+    georgia: 'America/New_York', maine: 'America/New_York', maryland: 'America/New_York',
+    massachusetts: 'America/New_York', 'new hampshire': 'America/New_York', 'new jersey': 'America/New_York',
+    'new york': 'America/New_York', 'north carolina': 'America/New_York', ohio: 'America/New_York',
+    pennsylvania: 'America/New_York', 'rhode island': 'America/New_York', 'south carolina': 'America/New_York',
+    vermont: 'America/New_York', virginia: 'America/New_York', 'west virginia': 'America/New_York',
+    michigan: 'America/Detroit', indiana: 'America/Indiana/Indianapolis', kentucky: 'America/New_York',
+    // Central
+    al: 'America/Chicago', ar: 'America/Chicago', il: 'America/Chicago', ia: 'America/Chicago',
+    ks: 'America/Chicago', la: 'America/Chicago', mn: 'America/Chicago', ms: 'America/Chicago',
+    mo: 'America/Chicago', ne: 'America/Chicago', nd: 'America/Chicago', ok: 'America/Chicago',
+    sd: 'America/Chicago', tn: 'America/Chicago', tx: 'America/Chicago', wi: 'America/Chicago',
+    alabama: 'America/Chicago', arkansas: 'America/Chicago', illinois: 'America/Chicago', iowa: 'America/Chicago',
+    kansas: 'America/Chicago', louisiana: 'America/Chicago', minnesota: 'America/Chicago',
+    mississippi: 'America/Chicago', missouri: 'America/Chicago', nebraska: 'America/Chicago',
+    'north dakota': 'America/Chicago', oklahoma: 'America/Chicago', 'south dakota': 'America/Chicago',
+    tennessee: 'America/Chicago', texas: 'America/Chicago', wisconsin: 'America/Chicago',
+    // Mountain
+    co: 'America/Denver', mt: 'America/Denver', nm: 'America/Denver', ut: 'America/Denver',
+    wy: 'America/Denver', id: 'America/Boise', az: 'America/Phoenix',
+    colorado: 'America/Denver', montana: 'America/Denver', 'new mexico': 'America/Denver', utah: 'America/Denver',
+    wyoming: 'America/Denver', idaho: 'America/Boise', arizona: 'America/Phoenix',
+    // Pacific / other
+    ca: 'America/Los_Angeles', nv: 'America/Los_Angeles', or: 'America/Los_Angeles', wa: 'America/Los_Angeles',
+    ak: 'America/Anchorage', hi: 'Pacific/Honolulu',
+    california: 'America/Los_Angeles', nevada: 'America/Los_Angeles', oregon: 'America/Los_Angeles',
+    washington: 'America/Los_Angeles', alaska: 'America/Anchorage', hawaii: 'Pacific/Honolulu',
+    // Canada
+    on: 'America/Toronto', qc: 'America/Toronto', bc: 'America/Vancouver', ab: 'America/Edmonton',
+    mb: 'America/Winnipeg', sk: 'America/Regina', ns: 'America/Halifax', nb: 'America/Moncton',
+    nl: 'America/St_Johns', pe: 'America/Halifax',
+    ontario: 'America/Toronto', quebec: 'America/Toronto', 'british columbia': 'America/Vancouver',
+    alberta: 'America/Edmonton', manitoba: 'America/Winnipeg', saskatchewan: 'America/Regina',
+    'nova scotia': 'America/Halifax', 'new brunswick': 'America/Moncton',
+    newfoundland: 'America/St_Johns', 'prince edward island': 'America/Halifax',
+};
+
+/** Only regions of these countries are meaningful (avoids "CA" the state vs "ca" elsewhere). */
+const REGION_COUNTRIES = new Set(['us', 'ca']);
+
+const validZoneCache = new Map<string, boolean>();
+
+export function isValidTimezone(tz: string): boolean {
+    if (!tz) return false;
+    const cached = validZoneCache.get(tz);
+    if (cached !== undefined) return cached;
+    let ok = true;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    } catch {
+        ok = false;
+    }
+    validZoneCache.set(tz, ok);
+    return ok;
+}
+
+function norm(v: unknown): string {
+    return typeof v === 'string' || typeof v === 'number' ? String(v).trim().toLowerCase() : '';
+}
+
+function pick(vars: Record<string, unknown>, keys: string[]): string {
+    for (const k of keys) {
+        const v = norm(vars[k]);
+        if (v) return v;
+    }
+    return '';
+}
+
+function countryCode(raw: string): string | null {
+    if (!raw) return null;
+    if (COUNTRY_TZ[raw]) return raw;
+    return COUNTRY_NAMES[raw] ?? null;
+}
+
+/** ccTLD of an email address, handling second-level forms (co.uk, com.au). */
+export function emailCountryCode(email: string): string | null {
+    const domain = email.split('@')[1]?.toLowerCase().trim();
+    if (!domain) return null;
+    const tld = domain.split('.').pop() || '';
+    if (tld.length !== 2) return null;
+    if (tld === 'uk') return 'gb';
+    return COUNTRY_TZ[tld] ? tld : null;
+}
+
+/**
+ * Best-guess IANA zone for a lead. `customVariables` is CampaignLead.
+ * custom_variables (keys are matched case-insensitively).
+ */
+export function inferLeadTimezone(lead: { email: string; custom_variables?: unknown }): InferredTimezone | null {
+    const raw = lead.custom_variables && typeof lead.custom_variables === 'object'
+        ? lead.custom_variables as Record<string, unknown>
+        : {};
+    const vars: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(raw)) vars[k.toLowerCase()] = v;
+
+    // Explicit zone - accept the original casing (IANA names are case-sensitive).
+    for (const key of ['timezone', 'time_zone', 'tz']) {
+        const v = vars[key];
+        if (typeof v === 'string' && isValidTimezone(v.trim())) return { timezone: v.trim(), source: 'custom_variable' };
+    }
+
+    const country = countryCode(pick(vars, ['country', 'country_code', 'company_country', 'location_country']));
+
+    const city = pick(vars, ['city', 'location_city', 'company_city']);
+    if (city && CITY_TZ[city]) {
+        // A city only wins when it doesn't contradict an explicit country
+        // ("Portland" with country=GB is not Oregon).
+        const cityTz = CITY_TZ[city];
+        const countryTz = country ? COUNTRY_TZ[country] : null;
+        if (!countryTz || countryTz.split('/')[0] === cityTz.split('/')[0]) return { timezone: cityTz, source: 'city' };
+    }
+
+    const region = pick(vars, ['state', 'region', 'province', 'state_code']);
+    if (region && REGION_TZ[region] && (!country || REGION_COUNTRIES.has(country))) {
+        return { timezone: REGION_TZ[region], source: 'region' };
+    }
+
+    if (country) return { timezone: COUNTRY_TZ[country], source: 'country' };
+
+    const tldCountry = emailCountryCode(lead.email);
+    if (tldCountry) return { timezone: COUNTRY_TZ[tldCountry], source: 'email_tld' };
+
+    return null;
+}
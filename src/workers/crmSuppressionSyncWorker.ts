@@ -2,9 +2,9 @@
  * CRM suppression-sync worker.
  *
  * Pulls the CRM's opt-out / do-not-contact list every 6 hours per
- * active connection and blocks matching Superkabe leads. Provider-
- * blind - uses the registry to dispatch to HubSpot or Salesforce
- * client.listSuppressions().
+ * active connection, adds each address to the org suppression list and
+ * blocks matching Superkabe leads. Provider-blind - uses the registry to
+ * dispatch to HubSpot or Salesforce client.listSuppressions().
  *
  * Cadence is enforced by reading the most recent completed
  * `suppression_pull` CrmSyncJob for the connection - no schema change
@@ -15,6 +15,7 @@
 import { prisma } from '../index';
 import { logger } from '../services/observabilityService';
 import { getFactory } from '../services/crm/registry';
+import * as suppressionService from '../services/suppressionService';
 import { getConnection, updateRefreshedTokens, markConnectionFailed } from '../services/crm/connectionService';
 import { withWorkerLock } from '../utils/workerJobControl';
 
@@ -63,6 +64,13 @@ async function syncOne(connectionId: string): Promise<void> {
     try {
         do {
             const page = await client.listSuppressions(cursor);
+            // Mirror the page onto the org suppression list so the opt-outs
+            // block sends and enrollment even for contacts with no Lead row.
+            await suppressionService.addEntries(
+                conn.organization_id,
+                page.emails.map(email => ({ value: email, type: 'email', reason: `crm_opt_out_${conn.provider}` })),
+                { source: 'crm' },
+            );
             for (const email of page.emails) {
                 totalSeen += 1;
                 const normalized = email.toLowerCase().trim();
@@ -24,6 +24,12 @@ import { tryProcessBounce } from '../services/bounceParserService';
 import * as webhookBus from '../services/webhookEventBus';
 import { classifyReply } from '../services/replyClassifierService';
 import { parseDsn, isPermanentBounce } from '../services/dsnParser';
+import { isArfMessage } from '../services/arfParser';
+import { ingestArfReport } from '../services/complaintFeedbackService';
+import { isDmarcReportEmail } from '../services/dmarcReportParser';
+import { recordDkimSelectors } from '../services/dnsAuthLinter';
+import { ingestDmarcPayload } from '../services/dmarcReportService';
+import { recordVariantEngagement } from '../services/variantOptimizerService';
 import { dispatchEmail } from '../services/emailTemplates/dispatcher';
 import { mailboxOAuthDisconnectedEmail } from '../services/emailTemplates/operationalAlerts';
 import { buildFrontendUrl } from '../services/emailTemplates/requesterContext';
@@ -157,6 +163,33 @@ async function handleAsyncBounce(
     }
 }
 
+// ─── Helper: Process an ARF spam complaint ───────────────────────────────────
+
+/**
+ * Hand an RFC 5965 feedback-loop report that arrived in a watched mailbox to
+ * complaintFeedbackService. Matching is by the reported message, not by the
+ * mailbox it landed in - an FBL address gets reports for every mailbox.
+ */
+async function handleArfReport(accountId: string, organizationId: string, raw: string): Promise<void> {
+    try {
+        const result = await ingestArfReport(raw, { organizationId, source: 'imap' });
+        logger.info(`[${LOG_TAG}] ARF report ${result.status}${result.match?.matchedBy ? ` (matched by ${result.match.matchedBy})` : ''}`);
+    } catch (err: any) {
+        logger.error(`[${LOG_TAG}] Failed to ingest ARF report for account ${accountId}`, err);
+    }
+}
+
+// ─── Helper: Process a DMARC aggregate report ────────────────────────────────
+
+async function handleDmarcReport(accountId: string, organizationId: string, raw: string): Promise<void> {
+    try {
+        const reports = await ingestDmarcPayload(organizationId, Buffer.from(raw, 'utf8'), 'imap');
+        logger.info(`[${LOG_TAG}] DMARC report email: ${reports.map(r => `${r.domain}/${r.orgName} ${r.status}`).join(', ')}`);
+    } catch (err: any) {
+        logger.error(`[${LOG_TAG}] Failed to ingest DMARC report for account ${accountId}`, err);
+    }
+}
+
 // ─── Helper: Process a single reply ──────────────────────────────────────────
 
 async function processReply(
@@ -236,6 +269,10 @@ async function processReply(
                 },
             });
 
+            // Credit the first reply to the A/B variant the lead last received
+            // (variant optimizer signal; unique repliers, like reply rate).
+            await recordVariantEngagement(lead.id, 'reply', { firstReply: wasFirstReply });
+
             // 3. Increment reply counters on EVERY reply message.
             //    Counters surfaced in UI:
             //      - Campaign.reply_count  (sequencer analytics - total reply messages)
@@ -696,7 +733,14 @@ async function fetchRepliesFromAccount(account: {
                         // Cap the search to the first 8 KB - header section
                         // is always at the top, no need to scan body bytes.
                         const headerSection = sourceStr.slice(0, 8 * 1024);
-                        if (/^x-superkabe-warmup:/im.test(headerSection)) continue;
+                        if (/^x-superkabe-warmup:/im.test(headerSection)) {
+                            // Warmup mail is ours - learn which DKIM selectors
+                            // our senders sign with for the DNS auth linter
+                            // (only for senders that are this org's mailboxes).
+                            recordDkimSelectors(headerSection, { organizationId: account.organization_id, email: senderEmail })
+                                .catch(() => { /* best effort */ });
+                            continue;
+                        }
                     }
 
                     const recipientAddr = envelope.to?.[0]?.address || account.email;
@@ -731,10 +775,21 @@ async function fetchRepliesFromAccount(account: {
                         hasAttachments: (msg.bodyStructure?.childNodes?.length || 0) > 1,
                     };
 
-                    // Check if this is a bounce NDR first - if so, route to Protection pipeline
-                    const isBounce = await tryProcessBounce(account.id, account.organization_id, incoming);
-                    if (!isBounce) {
-                        await processReply(account.id, account.organization_id, incoming);
+                    // ARF spam complaints (RFC 5965 feedback-loop reports) go to
+                    // the Protection layer, never the Unibox. Checked before the
+                    // NDR parser - some FBLs send from postmaster@.
+                    const rawSource = msg.source?.toString();
+                    if (rawSource && isArfMessage(rawSource)) {
+                        await handleArfReport(account.id, account.organization_id, rawSource);
+                    } else if (rawSource && isDmarcReportEmail(rawSource)) {
+                        // DMARC aggregate (RUA) reports - rua= points at this mailbox.
+                        await handleDmarcReport(account.id, account.organization_id, rawSource);
+                    } else {
+                        // Check if this is a bounce NDR first - if so, route to Protection pipeline
+                        const isBounce = await tryProcessBounce(account.id, account.organization_id, incoming);
+                        if (!isBounce) {
+                            await processReply(account.id, account.organization_id, incoming);
+                        }
                     }
                     fetchedCount++;
 
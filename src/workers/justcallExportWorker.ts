@@ -14,6 +14,10 @@
  * for per-row dedup/rejection - the response's skipped/failed counters
  * surface that to the operator.
  *
+ * Leads with an open sequence call task (SequenceStep.step_type 'call')
+ * get the task stamped with exported_at / export_job_id as their chunk
+ * lands. source_kind 'call_tasks' jobs are built from those tasks.
+ *
  * Failure modes:
  *   - 401/403 → mark connection failed, finalize job as `failed`
  *   - 422     → record per-job error, finalize as `failed` (validation)
@@ -213,6 +217,15 @@ async function processJob(jobId: string): Promise<void> {
         // CampaignLead rows that didn't resolve in this org always count as skipped.
         chunkSkipped += missingProspect;
 
+        // Open sequence call tasks for these leads are now in the rep's
+        // dialer - stamp them so the task list shows where they went.
+        await prisma.sequenceTask.updateMany({
+            where: { campaign_lead_id: { in: slice }, type: 'call', status: 'open' },
+            data: { exported_at: new Date(), export_job_id: job.id },
+        }).catch((err) => {
+            logger.warn('[JUSTCALL_EXPORT] call-task stamp failed', { jobId: job.id, msg: (err as Error).message?.slice(0, 200) });
+        });
+
         totalAdded += chunkAdded;
         totalSkipped += chunkSkipped;
         totalFailed += chunkFailed;
@@ -0,0 +1,49 @@
+/**
+ * Link Reputation Worker - periodic blocklist checks of tracking and link
+ * domains.
+ *
+ * Cadence: every 6 hours. Each tick re-checks every tracking host and link
+ * domain in active campaigns' email steps (linkReputationService.runSweep),
+ * pausing steps whose domains became listed and resuming steps whose domains
+ * were delisted or edited out.
+ *
+ * Distributed lock so only one backend instance sweeps per tick.
+ */
+
+import { logger } from '../services/observabilityService';
+import * as linkReputationService from '../services/linkReputationService';
+import { withWorkerLock } from '../utils/workerJobControl';
+
+const LOG_TAG = 'LINK_REPUTATION';
+const TICK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const LOCK_KEY = 'worker:lock:link_reputation';
+const LOCK_TTL_SECONDS = 30 * 60;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export async function runOnce(): Promise<void> {
+    if (running) return;
+    running = true;
+    try {
+        await withWorkerLock(LOCK_KEY, LOCK_TTL_SECONDS, async () => {
+            const { domains, listed, paused, resumed } = await linkReputationService.runSweep();
+            logger.info(`[${LOG_TAG}] Sweep: ${domains} domains checked, ${listed} newly listed, ${paused} steps paused, ${resumed} resumed`);
+        });
+    } finally {
+        running = false;
+    }
+}
+
+export function startLinkReputationWorker(): void {
+    if (timer) return;
+    timer = setInterval(() => {
+        runOnce().catch(err => logger.error(`[${LOG_TAG}] tick failed`, err instanceof Error ? err : new Error(String(err))));
+    }, TICK_INTERVAL_MS);
+    logger.info(`[${LOG_TAG}] Worker started (every ${TICK_INTERVAL_MS / 3_600_000}h)`);
+}
+
+export function stopLinkReputationWorker(): void {
+    if (timer) clearInterval(timer);
+    timer = null;
+}
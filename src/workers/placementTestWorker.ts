@@ -0,0 +1,66 @@
+/**
+ * Placement Test Worker - drives seed-list placement tests.
+ *
+ * Cadence: every 2 minutes. On each tick:
+ *   1. Send every test still in 'sending' (placementTestService.sendTest).
+ *   2. IMAP-search seeds for sent copies that haven't been found yet; copies
+ *      older than SEARCH_WINDOW_MS become 'missing'.
+ *   3. Complete tests with no pending copies left and store their summary.
+ *
+ * POST /api/placement/tests also kicks a tick so the copies go out right
+ * away instead of on the next interval.
+ */
+
+import { prisma } from '../index';
+import { logger } from '../services/observabilityService';
+import * as placementTestService from '../services/placementTestService';
+
+const LOG_TAG = 'PLACEMENT';
+const TICK_INTERVAL_MS = 2 * 60 * 1000;
+/** IMAP searches per tick - each opens its own session. */
+const POLL_BATCH_SIZE = 100;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export async function runOnce(): Promise<{ sent: number; found: number; missing: number; completed: number }> {
+    if (running) return { sent: 0, found: 0, missing: 0, completed: 0 };
+    running = true;
+    try {
+        let sent = 0;
+        const sending = await prisma.placementTest.findMany({
+            where: { status: 'sending' },
+            select: { id: true },
+            orderBy: { created_at: 'asc' },
+        });
+        for (const test of sending) {
+            try {
+                sent += (await placementTestService.sendTest(test.id)).sent;
+            } catch (err) {
+                logger.error(`[${LOG_TAG}] send failed for test ${test.id}`, err instanceof Error ? err : new Error(String(err)));
+            }
+        }
+
+        const { found, missing } = await placementTestService.pollResults(POLL_BATCH_SIZE);
+        const completed = await placementTestService.completeFinishedTests();
+        if (sent || found || missing || completed) {
+            logger.info(`[${LOG_TAG}] Tick: ${sent} sent, ${found} found, ${missing} missing, ${completed} tests completed`);
+        }
+        return { sent, found, missing, completed };
+    } finally {
+        running = false;
+    }
+}
+
+export function startPlacementTestWorker(): void {
+    if (timer) return;
+    timer = setInterval(() => {
+        runOnce().catch(err => logger.error(`[${LOG_TAG}] tick failed`, err instanceof Error ? err : new Error(String(err))));
+    }, TICK_INTERVAL_MS);
+    logger.info(`[${LOG_TAG}] Worker started (every ${TICK_INTERVAL_MS / 60_000} min)`);
+}
+
+export function stopPlacementTestWorker(): void {
+    if (timer) clearInterval(timer);
+    timer = null;
+}
@@ -2,8 +2,9 @@
  * Postmaster Tools Worker
  *
  * Daily job that fetches per-domain reputation from Google Postmaster Tools
- * for every Org that has completed the OAuth connection. Runs at 03:00 UTC
- * to give Google's data the full 24-48h propagation buffer.
+ * for every Org that has completed the OAuth connection, and per-IP
+ * reputation from Microsoft SNDS for every Org with an SNDS access key.
+ * Runs at 03:00 UTC to give Google's data the full 24-48h propagation buffer.
  *
  * Idempotent: each fetch upserts on (domain_id, source, date) - running
  * twice on the same day just overwrites with fresh data.
@@ -16,6 +17,7 @@
 import { prisma } from '../index';
 import { logger } from '../services/observabilityService';
 import { fetchAllForOrg } from '../services/postmasterToolsService';
+import * as sndsService from '../services/sndsService';
 
 const RUN_HOUR_UTC = 3;
 let scheduled: NodeJS.Timeout | null = null;
@@ -28,6 +30,8 @@ interface RunResult {
     orgsSucceeded: number;
     domainsFound: number;
     rowsWritten: number;
+    sndsOrgs: number;
+    sndsRowsWritten: number;
     errors: number;
 }
 
@@ -41,6 +45,8 @@ export const runPostmasterFetch = async (): Promise<RunResult> => {
         orgsSucceeded: 0,
         domainsFound: 0,
         rowsWritten: 0,
+        sndsOrgs: 0,
+        sndsRowsWritten: 0,
         errors: 0,
     };
 
@@ -70,6 +76,23 @@ export const runPostmasterFetch = async (): Promise<RunResult> => {
         }
     }
 
+    const sndsOrgs = await prisma.organization.findMany({
+        where: { snds_key: { not: null } },
+        select: { id: true, name: true },
+    });
+    for (const org of sndsOrgs) {
+        result.sndsOrgs++;
+        try {
+            const orgResult = await sndsService.fetchAllForOrg(org.id);
+            result.sndsRowsWritten += orgResult.rowsWritten;
+            result.errors += orgResult.errors;
+            logger.info('[POSTMASTER-WORKER] SNDS fetch complete', { orgId: org.id, orgName: org.name, ...orgResult });
+        } catch (err: any) {
+            result.errors++;
+            logger.error('[POSTMASTER-WORKER] SNDS fetch failed', err, { orgId: org.id });
+        }
+    }
+
     lastRunAt = new Date();
     lastError = result.errors > 0 ? `${result.errors} errors across ${result.orgsAttempted} orgs` : null;
     totalRuns++;
@@ -0,0 +1,45 @@
+/**
+ * Send-time profiles - rebuilds the per-segment hour-of-week engagement
+ * profiles every 12 hours. All logic lives in sendTimeOptimizerService; this
+ * file only owns the schedule.
+ *
+ * 12 hours is plenty: profiles summarize 90 days of history, so a tick's
+ * worth of new sends barely moves them.
+ */
+import { logger } from '../services/observabilityService';
+import { runProfileSweep } from '../services/sendTimeOptimizerService';
+
+const LOG_TAG = 'SEND-TIME';
+const TICK_MS = 12 * 60 * 60 * 1000;
+/** First run after boot - don't compete with startup work. */
+const INITIAL_DELAY_MS = 5 * 60 * 1000;
+
+let interval: NodeJS.Timeout | null = null;
+let initial: NodeJS.Timeout | null = null;
+
+async function runTick(): Promise<void> {
+    try {
+        const { orgs, profiles } = await runProfileSweep();
+        logger.info(`[${LOG_TAG}] Profiles rebuilt`, { orgs, profiles });
+    } catch (err: any) {
+        logger.error(`[${LOG_TAG}] Tick failed`, err);
+    }
+}
+
+export function scheduleSendTimeProfileWorker(): void {
+    if (interval) return;
+    initial = setTimeout(() => { runTick().catch(() => {}); }, INITIAL_DELAY_MS);
+    interval = setInterval(() => { runTick().catch(() => {}); }, TICK_MS);
+    logger.info(`[${LOG_TAG}] Scheduled - 12h tick`);
+}
+
+export function stopSendTimeProfileWorker(): void {
+    if (initial) {
+        clearTimeout(initial);
+        initial = null;
+    }
+    if (interval) {
+        clearInterval(interval);
+        interval = null;
+    }
+}
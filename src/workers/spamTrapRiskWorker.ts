@@ -0,0 +1,48 @@
+/**
+ * Spam-Trap Risk Worker - periodic re-assessment of import batches.
+ *
+ * Cadence: every 6 hours. Each tick re-scores every batch imported in the
+ * last 90 days or still holding queued leads (spamTrapRiskService.runSweep):
+ * sends, engagement, DNSBL listings and SNDS trap hits keep changing after
+ * import, so a batch that looked clean on day one can turn risky on day five.
+ *
+ * Distributed lock so only one backend instance sweeps per tick.
+ */
+
+import { logger } from '../services/observabilityService';
+import * as spamTrapRiskService from '../services/spamTrapRiskService';
+import { withWorkerLock } from '../utils/workerJobControl';
+
+const LOG_TAG = 'TRAP_RISK';
+const TICK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const LOCK_KEY = 'worker:lock:spam_trap_risk';
+const LOCK_TTL_SECONDS = 30 * 60;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export async function runOnce(): Promise<void> {
+    if (running) return;
+    running = true;
+    try {
+        await withWorkerLock(LOCK_KEY, LOCK_TTL_SECONDS, async () => {
+            const { batches, flagged, paused } = await spamTrapRiskService.runSweep();
+            logger.info(`[${LOG_TAG}] Sweep: ${batches} batches assessed, ${flagged} flagged, ${paused} leads paused`);
+        });
+    } finally {
+        running = false;
+    }
+}
+
+export function startSpamTrapRiskWorker(): void {
+    if (timer) return;
+    timer = setInterval(() => {
+        runOnce().catch(err => logger.error(`[${LOG_TAG}] tick failed`, err instanceof Error ? err : new Error(String(err))));
+    }, TICK_INTERVAL_MS);
+    logger.info(`[${LOG_TAG}] Worker started (every ${TICK_INTERVAL_MS / 3_600_000}h)`);
+}
+
+export function stopSpamTrapRiskWorker(): void {
+    if (timer) clearInterval(timer);
+    timer = null;
+}
@@ -0,0 +1,40 @@
+/**
+ * Variant optimizer - runs every 30 minutes, re-weights A/B variants on
+ * steps with the optimizer enabled and declares winners. All logic lives in
+ * variantOptimizerService; this file only owns the schedule.
+ *
+ * 30 minutes is deliberately slower than the dispatcher: each rebalance
+ * should reflect a meaningful batch of new engagement, not single events.
+ */
+import { logger } from '../services/observabilityService';
+import { runOptimizerSweep } from '../services/variantOptimizerService';
+
+const LOG_TAG = 'VARIANT-OPTIMIZER';
+const TICK_MS = 30 * 60 * 1000;
+
+let interval: NodeJS.Timeout | null = null;
+
+async function runTick(): Promise<void> {
+    try {
+        const { evaluated, winners } = await runOptimizerSweep();
+        if (evaluated > 0) {
+            logger.info(`[${LOG_TAG}] Sweep complete`, { evaluated, winners });
+        }
+    } catch (err: any) {
+        logger.error(`[${LOG_TAG}] Tick failed`, err);
+    }
+}
+
+export function scheduleVariantOptimizerWorker(): void {
+    if (interval) return;
+    runTick().catch(() => {});
+    interval = setInterval(() => { runTick().catch(() => {}); }, TICK_MS);
+    logger.info(`[${LOG_TAG}] Scheduled - 30m tick`);
+}
+
+export function stopVariantOptimizerWorker(): void {
+    if (interval) {
+        clearInterval(interval);
+        interval = null;
+    }
+}
@@ -237,6 +237,8 @@ const SLACK_VERBS: Record<WebhookEventType, string> = {
     'domain.dnsbl_listed': 'Domain blacklisted',
     'domain.dnsbl_cleared': 'Domain cleared from blacklist',
     'domain.dns_failed': 'Domain DNS check failed',
+    'email.link_blacklisted': 'Link domain blacklisted',
+    'email.link_cleared': 'Link domain cleared from blacklist',
     'email.sent': 'Email sent',
     'email.bounced': 'Email bounced',
     'email.opened': 'Email opened',